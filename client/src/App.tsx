@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { useAuth } from "@/hooks/use-auth";
+import { useRealtimeConnection } from "@/hooks/use-realtime";
 import { Loader2 } from "lucide-react";
 
 import LandingPage from "@/pages/landing";
@@ -17,6 +18,7 @@ import DriversPage from "@/pages/drivers/index";
 import DriverFormPage from "@/pages/drivers/form";
 import DriverProfilePage from "@/pages/drivers/profile";
 import DriverPerformancePage from "@/pages/drivers/performance";
+import DriverStatementPage from "@/pages/drivers/statement";
 
 import ManufacturersPage from "@/pages/manufacturers/index";
 import ManufacturerFormPage from "@/pages/manufacturers/form";
@@ -32,6 +34,8 @@ import VehicleFormPage from "@/pages/vehicles/form";
 
 import TransportsPage from "@/pages/transports/index";
 import TransportFormPage from "@/pages/transports/form";
+import TripsPage from "@/pages/trips/index";
+import LoadPlanningPage from "@/pages/load-planning/index";
 
 import CollectsPage from "@/pages/collects/index";
 import CollectFormPage from "@/pages/collects/form";
@@ -45,6 +49,8 @@ import ApiDocsPage from "@/pages/api-docs/index";
 import PortariaPage from "@/pages/portaria/index";
 import RoutingPage from "@/pages/routing/index";
 import PrestacaoDeContasPage from "@/pages/prestacao-de-contas/index";
+import FinanceiroPage from "@/pages/financeiro/index";
+import PayrollPage from "@/pages/payroll/index";
 import DriverEvaluationsPage from "@/pages/driver-evaluations/index";
 import EvaluationCriteriaPage from "@/pages/evaluation/index";
 import ContractsPage from "@/pages/contracts/index";
@@ -55,14 +61,18 @@ import DriverRankingPage from "@/pages/driver-ranking/index";
 import FinancialDashboardPage from "@/pages/financial-dashboard/index";
 import RouteManagementPage from "@/pages/route-management/index";
 import DamageReportPage from "@/pages/damage-report/index";
+import DamageClaimsPage from "@/pages/damage-claims/index";
 import TruckModelsPage from "@/pages/truck-models/index";
 import CotacaoFretePage from "@/pages/cotacao-frete/index";
 import CotacaoFreteProPage from "@/pages/cotacao-frete-pro/index";
 import ContratosFreteePage from "@/pages/contratos-frete/index";
 import JornadaVeiculoPage from "@/pages/jornada-veiculo/index";
 import RastreadoresPage from "@/pages/rastreadores/index";
+import FleetPage from "@/pages/fleet/index";
 import TransferenciasPage from "@/pages/transferencias/index";
 import AnalisePage from "@/pages/analise/index";
+import ClientPortalLoginPage from "@/pages/client-portal/login";
+import ClientPortalPage from "@/pages/client-portal/index";
 
 function AuthenticatedRouter() {
   return (
@@ -71,6 +81,7 @@ function AuthenticatedRouter() {
       <Route path="/motoristas" component={DriversPage} />
       <Route path="/performance-motoristas" component={DriverPerformancePage} />
       <Route path="/motoristas/:id/perfil" component={DriverProfilePage} />
+      <Route path="/motoristas/:id/extrato" component={DriverStatementPage} />
       <Route path="/motoristas/:id" component={DriverFormPage} />
       <Route path="/montadoras" component={ManufacturersPage} />
       <Route path="/montadoras/:id" component={ManufacturerFormPage} />
@@ -82,6 +93,8 @@ function AuthenticatedRouter() {
       <Route path="/estoque/:chassi" component={VehicleFormPage} />
       <Route path="/transportes" component={TransportsPage} />
       <Route path="/transportes/:id" component={TransportFormPage} />
+      <Route path="/viagens" component={TripsPage} />
+      <Route path="/planejamento-cargas" component={LoadPlanningPage} />
       <Route path="/coletas" component={CollectsPage} />
       <Route path="/coletas/novo" component={CollectFormPage} />
       <Route path="/localizar-motorista" component={DriverLocationPage} />
@@ -91,6 +104,8 @@ function AuthenticatedRouter() {
       <Route path="/criterios-avaliacao" component={EvaluationCriteriaPage} />
       <Route path="/rotograma" component={RoutingPage} />
       <Route path="/prestacao-de-contas" component={PrestacaoDeContasPage} />
+      <Route path="/financeiro" component={FinanceiroPage} />
+      <Route path="/folha-motoristas" component={PayrollPage} />
       <Route path="/relatorio-patio" component={YardReportPage} />
       <Route path="/checkpoints" component={CheckpointsPage} />
       <Route path="/timeline-checkpoints" component={TimelineCheckpointsPage} />
@@ -98,12 +113,14 @@ function AuthenticatedRouter() {
       <Route path="/dashboard-financeiro" component={FinancialDashboardPage} />
       <Route path="/gestao-rotas" component={RouteManagementPage} />
       <Route path="/relatorio-avarias" component={DamageReportPage} />
+      <Route path="/sinistros" component={DamageClaimsPage} />
       <Route path="/modelos" component={TruckModelsPage} />
       <Route path="/cotacao-frete" component={CotacaoFretePage} />
       <Route path="/cotacao-frete-pro" component={CotacaoFreteProPage} />
       <Route path="/contratos-frete" component={ContratosFreteePage} />
       <Route path="/jornada-veiculo" component={JornadaVeiculoPage} />
       <Route path="/rastreadores" component={RastreadoresPage} />
+      <Route path="/frota" component={FleetPage} />
       <Route path="/transferencias" component={TransferenciasPage} />
       <Route path="/analise" component={AnalisePage} />
       <Route path="/contratos" component={ContractsPage} />
@@ -117,6 +134,8 @@ function AuthenticatedRouter() {
 }
 
 function AuthenticatedApp() {
+  useRealtimeConnection();
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
@@ -135,8 +154,20 @@ function AuthenticatedApp() {
 }
 
 function AppContent() {
+  const [location] = useLocation();
   const { user, isLoading } = useAuth();
 
+  // The client portal has its own login and token, independent of the staff session
+  if (location.startsWith("/portal")) {
+    return (
+      <Switch>
+        <Route path="/portal/login" component={ClientPortalLoginPage} />
+        <Route path="/portal" component={ClientPortalPage} />
+        <Route component={NotFound} />
+      </Switch>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="flex h-screen items-center justify-center bg-background">
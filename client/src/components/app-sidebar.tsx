@@ -36,6 +36,7 @@ import {
   Trophy,
   DollarSign,
   ShieldAlert,
+  FileWarning,
   CarFront,
   Sparkles,
   FileText,
@@ -43,6 +44,11 @@ import {
   ArrowLeftRight,
   BrainCircuit,
   TrendingUp,
+  Scale,
+  Banknote,
+  Container,
+  Layers,
+  Combine,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -84,6 +90,16 @@ const operationItems: MenuItem[] = [
     url: "/transportes",
     icon: Truck,
   },
+  {
+    title: "Viagens",
+    url: "/viagens",
+    icon: Layers,
+  },
+  {
+    title: "Planejamento de Cargas",
+    url: "/planejamento-cargas",
+    icon: Combine,
+  },
   {
     title: "Coletas",
     url: "/coletas",
@@ -109,6 +125,11 @@ const operationItems: MenuItem[] = [
     url: "/relatorio-avarias",
     icon: ShieldAlert,
   },
+  {
+    title: "Sinistros de Avaria",
+    url: "/sinistros",
+    icon: FileWarning,
+  },
   {
     title: "Jornada do Veículo",
     url: "/jornada-veiculo",
@@ -155,6 +176,16 @@ const financeiroItems: MenuItem[] = [
     url: "/prestacao-de-contas",
     icon: Receipt,
   },
+  {
+    title: "Análise de Prestações",
+    url: "/financeiro",
+    icon: Scale,
+  },
+  {
+    title: "Folha de Motoristas",
+    url: "/folha-motoristas",
+    icon: Banknote,
+  },
   {
     title: "Dashboard Financeiro",
     url: "/dashboard-financeiro",
@@ -178,6 +209,11 @@ const cadastroItems: MenuItem[] = [
     url: "/rastreadores",
     icon: Radio,
   },
+  {
+    title: "Frota",
+    url: "/frota",
+    icon: Container,
+  },
   {
     title: "Check Points (Em dev)",
     url: "/checkpoints",
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History, User } from "lucide-react";
+import type { AuditEvent, AuditEntityType, AuditChange } from "@shared/schema";
+
+const actionConfig: Record<AuditEvent["action"], { label: string; className: string }> = {
+  create: { label: "Criação", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+  update: { label: "Alteração", className: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+  delete: { label: "Exclusão", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? `${value.length} item(ns)` : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    return format(new Date(text), "dd/MM/yyyy HH:mm", { locale: ptBR });
+  }
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+interface AuditHistoryProps {
+  entity: AuditEntityType;
+  entityId: string;
+}
+
+export function AuditHistory({ entity, entityId }: AuditHistoryProps) {
+  const { data: events, isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit?entity=${entity}&id=${encodeURIComponent(entityId)}`],
+    enabled: !!entityId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    );
+  }
+
+  if (!events || events.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-muted-foreground" data-testid="audit-history-empty">
+        <History className="h-8 w-8 mb-2" />
+        <p className="text-sm">Nenhum registro de histórico</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="audit-history">
+      {events.map((event) => {
+        const changes = Object.entries((event.changes ?? {}) as Record<string, AuditChange>);
+        const config = actionConfig[event.action];
+        return (
+          <div key={event.id} className="rounded-lg border p-3 space-y-2" data-testid={`audit-event-${event.id}`}>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={`border-0 font-medium ${config.className}`}>
+                  {config.label}
+                </Badge>
+                <span className="flex items-center gap-1 text-sm">
+                  <User className="h-3.5 w-3.5 text-muted-foreground" />
+                  {event.actorName || "Sistema"}
+                </span>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(event.createdAt), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+              </span>
+            </div>
+            {event.route && (
+              <p className="text-xs text-muted-foreground font-mono">{event.method} {event.route}</p>
+            )}
+            {event.action === "update" && changes.length > 0 && (
+              <div className="space-y-1">
+                {changes.map(([field, change]) => (
+                  <div key={field} className="text-xs grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-2">
+                    <span className="font-medium truncate">{field}</span>
+                    <span className="text-muted-foreground break-all">
+                      {formatValue(change.from)} → <span className="text-foreground">{formatValue(change.to)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
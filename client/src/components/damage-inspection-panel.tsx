@@ -0,0 +1,424 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, ClipboardCheck, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import {
+  VehicleDamageDiagram,
+  damageSeverityLabels,
+  damageStageLabels,
+  damageTypeLabels,
+  damageZoneLabels,
+} from "@/components/vehicle-damage-diagram";
+import {
+  damageSeverities,
+  damageStages,
+  damageTypes,
+  damageZones,
+  type Collect,
+  type DamageRecord,
+  type DamageStage,
+  type Transport,
+  type Yard,
+} from "@shared/schema";
+
+type DamageLeg = "coleta" | "patio" | "transporte";
+
+interface DamageComparisonResponse {
+  chassi: string;
+  inspections: { stage: DamageStage; inspectedAt: string; records: DamageRecord[] }[];
+  comparisons: {
+    from: DamageStage;
+    to: DamageStage;
+    legs: DamageLeg[];
+    newDamages: DamageRecord[];
+    worsenedDamages: { before: DamageRecord; after: DamageRecord }[];
+    notObserved: DamageRecord[];
+  }[];
+}
+
+const legLabels: Record<DamageLeg, string> = {
+  coleta: "Coleta",
+  patio: "Estadia no pátio",
+  transporte: "Transporte",
+};
+
+const emptyForm = {
+  stage: "" as DamageStage | "",
+  collectId: "",
+  transportId: "",
+  yardId: "",
+  zone: "",
+  damageType: "",
+  severity: "",
+  photoUrl: "",
+  notes: "",
+};
+
+function describe(record: DamageRecord): string {
+  return `${damageZoneLabels[record.zone]} - ${damageTypeLabels[record.damageType]} (${damageSeverityLabels[record.severity]})`;
+}
+
+interface DamageInspectionPanelProps {
+  chassi: string;
+  collects: Collect[];
+  transports: Transport[];
+}
+
+export function DamageInspectionPanel({ chassi, collects, transports }: DamageInspectionPanelProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const compareKey = `/api/damage-records/compare/${encodeURIComponent(chassi)}`;
+  const { data, isLoading } = useQuery<DamageComparisonResponse>({
+    queryKey: [compareKey],
+  });
+
+  const { data: yards } = useQuery<Yard[]>({
+    queryKey: ["/api/yards"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [compareKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/damage-records"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/damage-records", {
+        vehicleChassi: chassi,
+        stage: form.stage,
+        collectId: form.stage.startsWith("coleta_") ? form.collectId : null,
+        transportId: form.stage.startsWith("transporte_") ? form.transportId : null,
+        yardId: form.stage === "patio" ? form.yardId : null,
+        zone: form.zone,
+        damageType: form.damageType,
+        severity: form.severity,
+        photoUrl: form.photoUrl || null,
+        notes: form.notes || null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      setForm(emptyForm);
+      toast({ title: "Avaria registrada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar avaria", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/damage-records/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Registro removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover registro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const response = await fetch("/api/uploads/request-url", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contentType: file.type, name: file.name, isPublic: false }),
+      });
+      if (!response.ok) throw new Error("Failed to get upload URL");
+      const { uploadURL, objectPath } = await response.json();
+      await fetch(uploadURL, { method: "PUT", headers: { "Content-Type": file.type }, body: file });
+      setForm((prev) => ({ ...prev, photoUrl: objectPath }));
+    } catch (error) {
+      console.error("Upload failed:", error);
+      toast({ title: "Falha no envio da foto", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const needsCollect = form.stage.startsWith("coleta_");
+  const needsTransport = form.stage.startsWith("transporte_");
+  const canSubmit = !!form.stage && !!form.zone && !!form.damageType && !!form.severity
+    && (!needsCollect || !!form.collectId)
+    && (!needsTransport || !!form.transportId)
+    && (form.stage !== "patio" || !!form.yardId);
+
+  // Damage introduced since the previous inspected stage, highlighted on that stage's diagram
+  const newDamageIds = new Set(
+    (data?.comparisons ?? []).flatMap((c) => [...c.newDamages.map((r) => r.id), ...c.worsenedDamages.map((w) => w.after.id)]),
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4" />
+          Inspeções por etapa
+        </CardTitle>
+        <Button size="sm" onClick={() => setDialogOpen(true)} data-testid="button-add-damage-record">
+          <Plus className="h-4 w-4 mr-1.5" />
+          Registrar avaria
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !data || data.inspections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma inspeção registrada para este chassi.</p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {data.inspections.map((inspection) => (
+                <div key={inspection.stage} className="rounded-lg border p-3 space-y-3" data-testid={`inspection-${inspection.stage}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{damageStageLabels[inspection.stage]}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(inspection.inspectedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                    </span>
+                  </div>
+                  <VehicleDamageDiagram records={inspection.records} highlightIds={newDamageIds} />
+                  {inspection.records.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Sem avarias nesta inspeção</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {inspection.records.map((record) => (
+                        <li key={record.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="flex items-center gap-1.5">
+                            {newDamageIds.has(record.id) && <Badge variant="destructive" className="text-[10px] px-1">Nova</Badge>}
+                            {record.photoUrl ? (
+                              <a href={record.photoUrl} target="_blank" rel="noreferrer" className="underline">{describe(record)}</a>
+                            ) : describe(record)}
+                          </span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => deleteMutation.mutate(record.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-damage-${record.id}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {data.comparisons.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Comparação entre etapas</p>
+                {data.comparisons.map((comparison) => {
+                  const flagged = comparison.newDamages.length + comparison.worsenedDamages.length;
+                  return (
+                    <div
+                      key={`${comparison.from}-${comparison.to}`}
+                      className="rounded-lg border p-3 space-y-2"
+                      data-testid={`comparison-${comparison.from}-${comparison.to}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span>{damageStageLabels[comparison.from]}</span>
+                        <ArrowRight className="h-3 w-3" />
+                        <span>{damageStageLabels[comparison.to]}</span>
+                        {comparison.legs.map((leg) => (
+                          <Badge key={leg} variant="outline">{legLabels[leg]}</Badge>
+                        ))}
+                        <Badge variant={flagged > 0 ? "destructive" : "secondary"} className="ml-auto">
+                          {flagged > 0 ? `${flagged} nova${flagged !== 1 ? "s" : ""}` : "Sem novas avarias"}
+                        </Badge>
+                      </div>
+                      {comparison.newDamages.map((record) => (
+                        <p key={record.id} className="text-xs">Nova: {describe(record)}</p>
+                      ))}
+                      {comparison.worsenedDamages.map(({ before, after }) => (
+                        <p key={after.id} className="text-xs">
+                          Agravada: {damageZoneLabels[after.zone]} - {damageTypeLabels[after.damageType]} ({damageSeverityLabels[before.severity]} → {damageSeverityLabels[after.severity]})
+                        </p>
+                      ))}
+                      {comparison.notObserved.map((record) => (
+                        <p key={record.id} className="text-xs text-muted-foreground">Não observada: {describe(record)}</p>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Registrar avaria - {chassi}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Etapa</Label>
+              <Select value={form.stage} onValueChange={(value) => setForm({ ...form, stage: value as DamageStage })}>
+                <SelectTrigger data-testid="select-damage-stage">
+                  <SelectValue placeholder="Selecione a etapa" />
+                </SelectTrigger>
+                <SelectContent>
+                  {damageStages.map((stage) => (
+                    <SelectItem key={stage} value={stage}>{damageStageLabels[stage]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {needsCollect && (
+              <div className="space-y-2">
+                <Label>Coleta</Label>
+                <Select value={form.collectId} onValueChange={(value) => setForm({ ...form, collectId: value })}>
+                  <SelectTrigger data-testid="select-damage-collect">
+                    <SelectValue placeholder="Selecione a coleta" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {collects.map((collect) => (
+                      <SelectItem key={collect.id} value={collect.id}>
+                        {collect.collectDate ? format(new Date(collect.collectDate), "dd/MM/yyyy", { locale: ptBR }) : collect.id.slice(0, 8)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {needsTransport && (
+              <div className="space-y-2">
+                <Label>Transporte</Label>
+                <Select value={form.transportId} onValueChange={(value) => setForm({ ...form, transportId: value })}>
+                  <SelectTrigger data-testid="select-damage-transport">
+                    <SelectValue placeholder="Selecione o transporte" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transports.map((transport) => (
+                      <SelectItem key={transport.id} value={transport.id}>{transport.requestNumber}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.stage === "patio" && (
+              <div className="space-y-2">
+                <Label>Pátio</Label>
+                <Select value={form.yardId} onValueChange={(value) => setForm({ ...form, yardId: value })}>
+                  <SelectTrigger data-testid="select-damage-yard">
+                    <SelectValue placeholder="Selecione o pátio" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {yards?.map((yard) => (
+                      <SelectItem key={yard.id} value={yard.id}>{yard.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Painel / região</Label>
+              <Select value={form.zone} onValueChange={(value) => setForm({ ...form, zone: value })}>
+                <SelectTrigger data-testid="select-damage-zone">
+                  <SelectValue placeholder="Selecione a região" />
+                </SelectTrigger>
+                <SelectContent>
+                  {damageZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{damageZoneLabels[zone]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={form.damageType} onValueChange={(value) => setForm({ ...form, damageType: value })}>
+                  <SelectTrigger data-testid="select-damage-type">
+                    <SelectValue placeholder="Tipo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {damageTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{damageTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Gravidade</Label>
+                <Select value={form.severity} onValueChange={(value) => setForm({ ...form, severity: value })}>
+                  <SelectTrigger data-testid="select-damage-severity">
+                    <SelectValue placeholder="Gravidade" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {damageSeverities.map((severity) => (
+                      <SelectItem key={severity} value={severity}>{damageSeverityLabels[severity]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Foto</Label>
+              {form.photoUrl ? (
+                <div className="flex items-center gap-3">
+                  <img src={form.photoUrl} alt="Avaria" className="h-20 w-20 rounded-md object-cover border" />
+                  <Button type="button" variant="outline" size="sm" onClick={() => setForm({ ...form, photoUrl: "" })}>
+                    Remover
+                  </Button>
+                </div>
+              ) : (
+                <label className="flex cursor-pointer items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm text-muted-foreground">
+                  {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  {isUploading ? "Enviando..." : "Enviar foto"}
+                  <input type="file" accept="image/*" className="hidden" onChange={handlePhotoChange} disabled={isUploading} data-testid="input-damage-photo" />
+                </label>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Observações</Label>
+              <Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} data-testid="input-damage-notes" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canSubmit || createMutation.isPending || isUploading}
+              data-testid="button-save-damage-record"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge";
+import { MapPinOff } from "lucide-react";
+import type { GeofenceException } from "@shared/schema";
+
+const eventLabels: Record<GeofenceException["event"], string> = {
+  checkin: "Check-in",
+  checkout: "Check-out",
+};
+
+export function describeGeofenceException(exception: GeofenceException): string {
+  const where = exception.distanceMeters === null
+    ? `sem localização (${exception.locationName})`
+    : `${(exception.distanceMeters / 1000).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} km de ${exception.locationName}`;
+  return `${eventLabels[exception.event]} ${where} — tolerância de ${exception.radiusMeters} m`;
+}
+
+interface GeofenceExceptionBadgeProps {
+  exceptions: GeofenceException[];
+  testId?: string;
+}
+
+// "Fora do raio" flag for a collect/transport; details are listed in the tooltip
+export function GeofenceExceptionBadge({ exceptions, testId }: GeofenceExceptionBadgeProps) {
+  if (exceptions.length === 0) return null;
+  return (
+    <Badge
+      variant="secondary"
+      className="text-xs bg-red-500/20 text-red-700 whitespace-nowrap"
+      title={exceptions.map(describeGeofenceException).join("\n")}
+      data-testid={testId}
+    >
+      <MapPinOff className="h-3 w-3 mr-1" />
+      Fora do raio
+    </Badge>
+  );
+}
@@ -0,0 +1,74 @@
+import type { Control } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface GeofenceFieldsProps {
+  // Any location form carrying geofenceRadiusMeters / geofenceEnforcement
+  control: Control<any>;
+  testIdPrefix: string;
+}
+
+// Tolerance applied when check-in/check-out coordinates are compared with the location
+export function GeofenceFields({ control, testIdPrefix }: GeofenceFieldsProps) {
+  return (
+    <>
+      <FormField
+        control={control}
+        name="geofenceRadiusMeters"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Raio de Tolerância (m)</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                min="50"
+                max="20000"
+                {...field}
+                value={field.value ?? ""}
+                data-testid={`input-${testIdPrefix}-geofence-radius`}
+              />
+            </FormControl>
+            <FormDescription>Distância máxima do check-in/check-out até o local</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="geofenceEnforcement"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Fora do Raio</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger data-testid={`select-${testIdPrefix}-geofence-enforcement`}>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="sinalizar">Sinalizar exceção</SelectItem>
+                <SelectItem value="bloquear">Bloquear check-in/out</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormDescription>Sem coordenadas cadastradas, a validação é ignorada</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  value: string;
+  onChange: (dataUrl: string) => void;
+  testId: string;
+}
+
+// Drawn signature captured as a PNG data URL; an empty string means "not signed"
+export function SignaturePad({ value, onChange, testId }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // Match the backing store to the rendered size so strokes follow the pointer
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const ctx = canvas.getContext("2d")!;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#111827";
+  }, []);
+
+  useEffect(() => {
+    // Cleared by the parent (e.g. after a successful check-out)
+    const canvas = canvasRef.current;
+    if (!value && canvas) {
+      canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    }
+  }, [value]);
+
+  const position = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const ctx = e.currentTarget.getContext("2d")!;
+    const { x, y } = position(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d")!;
+    const { x, y } = position(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL("image/png"));
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="h-36 w-full touch-none rounded-md border bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        data-testid={testId}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {value ? "Assinatura registrada" : "Assine no quadro acima"}
+        </p>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange("")} disabled={!value}>
+          <Eraser className="mr-2 h-4 w-4" />
+          Limpar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { cn } from "@/lib/utils";
 type VehicleStatus = "pre_estoque" | "em_estoque" | "despachado" | "entregue" | "retirado";
 type TransportStatus = "pendente" | "aguardando_saida" | "em_transito" | "entregue" | "cancelado";
 type CollectStatus = "em_transito" | "aguardando_checkout" | "finalizada";
-type NotificationStatus = "pendente" | "aceito" | "recusado";
+type NotificationStatus = "pendente" | "aceito" | "recusado" | "expirado" | "cancelado";
 
 type StatusType = VehicleStatus | TransportStatus | CollectStatus | NotificationStatus;
 
@@ -22,6 +22,7 @@ const statusConfig: Record<StatusType, { label: string; className: string }> = {
   cancelado: { label: "Cancelado", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
   aceito: { label: "Aceito", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
   recusado: { label: "Recusado", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+  expirado: { label: "Expirado", className: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400" },
 };
 
 interface StatusBadgeProps {
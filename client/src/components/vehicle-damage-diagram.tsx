@@ -0,0 +1,123 @@
+import { cn } from "@/lib/utils";
+import type { DamageRecord, DamageSeverity, DamageStage, DamageType, DamageZone } from "@shared/schema";
+
+export const damageZoneLabels: Record<DamageZone, string> = {
+  para_choque_dianteiro: "Para-choque dianteiro",
+  capo: "Capô",
+  para_brisa: "Para-brisa",
+  teto: "Teto",
+  vidro_traseiro: "Vidro traseiro",
+  tampa_traseira: "Tampa traseira",
+  para_choque_traseiro: "Para-choque traseiro",
+  paralama_dianteiro_esquerdo: "Paralama diant. esq.",
+  porta_dianteira_esquerda: "Porta diant. esq.",
+  porta_traseira_esquerda: "Porta tras. esq.",
+  lateral_traseira_esquerda: "Lateral tras. esq.",
+  paralama_dianteiro_direito: "Paralama diant. dir.",
+  porta_dianteira_direita: "Porta diant. dir.",
+  porta_traseira_direita: "Porta tras. dir.",
+  lateral_traseira_direita: "Lateral tras. dir.",
+  retrovisor_esquerdo: "Retrovisor esq.",
+  retrovisor_direito: "Retrovisor dir.",
+  roda_dianteira_esquerda: "Roda diant. esq.",
+  roda_dianteira_direita: "Roda diant. dir.",
+  roda_traseira_esquerda: "Roda tras. esq.",
+  roda_traseira_direita: "Roda tras. dir.",
+  interior: "Interior",
+};
+
+export const damageTypeLabels: Record<DamageType, string> = {
+  risco: "Risco",
+  amassado: "Amassado",
+  trinca: "Trinca",
+  quebra: "Quebra",
+  pintura: "Pintura",
+  faltante: "Peça faltante",
+  outro: "Outro",
+};
+
+export const damageSeverityLabels: Record<DamageSeverity, string> = {
+  leve: "Leve",
+  moderada: "Moderada",
+  grave: "Grave",
+};
+
+export const damageStageLabels: Record<DamageStage, string> = {
+  coleta_checkin: "Coleta - Check-in",
+  coleta_checkout: "Coleta - Check-out",
+  patio: "Pátio",
+  transporte_checkin: "Transporte - Check-in",
+  transporte_checkout: "Transporte - Check-out",
+};
+
+const severityClasses: Record<DamageSeverity, string> = {
+  leve: "bg-amber-100 border-amber-400 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200",
+  moderada: "bg-orange-200 border-orange-500 text-orange-900 dark:bg-orange-900/50 dark:text-orange-200",
+  grave: "bg-red-200 border-red-600 text-red-900 dark:bg-red-900/50 dark:text-red-200",
+};
+
+const severityOrder: DamageSeverity[] = ["leve", "moderada", "grave"];
+
+// Top view, front of the vehicle at the top. Columns: wheel | left side | center | right side | wheel
+const layout: (DamageZone | null)[][] = [
+  [null, null, "para_choque_dianteiro", null, null],
+  ["roda_dianteira_esquerda", "paralama_dianteiro_esquerdo", "capo", "paralama_dianteiro_direito", "roda_dianteira_direita"],
+  ["retrovisor_esquerdo", "porta_dianteira_esquerda", "para_brisa", "porta_dianteira_direita", "retrovisor_direito"],
+  [null, "porta_traseira_esquerda", "teto", "porta_traseira_direita", null],
+  ["roda_traseira_esquerda", "lateral_traseira_esquerda", "vidro_traseiro", "lateral_traseira_direita", "roda_traseira_direita"],
+  [null, null, "tampa_traseira", null, null],
+  [null, null, "para_choque_traseiro", null, null],
+];
+
+interface VehicleDamageDiagramProps {
+  records: DamageRecord[];
+  // Records to emphasize, e.g. damage that appeared since the previous stage
+  highlightIds?: Set<string>;
+  className?: string;
+}
+
+export function VehicleDamageDiagram({ records, highlightIds, className }: VehicleDamageDiagramProps) {
+  const byZone = new Map<DamageZone, DamageRecord[]>();
+  for (const record of records) {
+    byZone.set(record.zone, [...(byZone.get(record.zone) ?? []), record]);
+  }
+
+  const renderZone = (zone: DamageZone) => {
+    const zoneRecords = byZone.get(zone) ?? [];
+    const worst = zoneRecords.reduce<DamageSeverity | null>(
+      (acc, r) => (acc === null || severityOrder.indexOf(r.severity) > severityOrder.indexOf(acc) ? r.severity : acc),
+      null,
+    );
+    const highlighted = zoneRecords.some((r) => highlightIds?.has(r.id));
+    const title = zoneRecords.length > 0
+      ? `${damageZoneLabels[zone]}: ${zoneRecords.map((r) => `${damageTypeLabels[r.damageType]} (${damageSeverityLabels[r.severity]})`).join(", ")}`
+      : damageZoneLabels[zone];
+
+    return (
+      <div
+        key={zone}
+        title={title}
+        className={cn(
+          "flex min-h-9 items-center justify-center rounded border px-1 text-center text-[10px] leading-tight",
+          worst ? severityClasses[worst] : "border-dashed text-muted-foreground",
+          highlighted && "ring-2 ring-destructive ring-offset-1",
+        )}
+        data-testid={`zone-${zone}`}
+      >
+        {damageZoneLabels[zone]}
+        {zoneRecords.length > 1 && <span className="ml-1 font-bold">×{zoneRecords.length}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="grid grid-cols-[1fr_2fr_3fr_2fr_1fr] gap-1">
+        {layout.flatMap((row, rowIndex) =>
+          row.map((zone, colIndex) => (zone ? renderZone(zone) : <div key={`${rowIndex}-${colIndex}`} />)),
+        )}
+      </div>
+      {renderZone("interior")}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef } from "react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getAccessToken } from "@/hooks/use-auth";
+import {
+  REALTIME_PATH,
+  REALTIME_SESSION_CLOSE_CODE,
+  type RealtimeEvent,
+  type RealtimeEventType,
+  type RealtimeMessage,
+} from "@shared/realtime";
+
+// Query key prefixes refetched when an event arrives. Matching is by prefix of the first key
+// segment, so "/api/transports" also refreshes "/api/transports/with-checkpoints".
+const invalidatedPrefixes: Record<RealtimeEventType, string[]> = {
+  "collect.created": ["/api/collects", "/api/vehicles"],
+  "collect.status_changed": ["/api/collects", "/api/vehicles", "/api/trips"],
+  "transport.created": ["/api/transports", "/api/load-planning"],
+  "transport.status_changed": ["/api/transports", "/api/vehicles", "/api/tracking/live", "/api/trips", "/api/load-planning"],
+  "transfer.status_changed": ["/api/transfers", "/api/vehicles"],
+  "settlement.submitted": ["/api/expense-settlements"],
+  "settlement.reviewed": ["/api/expense-settlements"],
+  "checkpoint.reached": ["/api/transports/with-checkpoints", "/api/checkpoint-events"],
+  "checkpoint.completed": ["/api/transports/with-checkpoints", "/api/checkpoint-events"],
+  "tracking.updated": ["/api/tracking"],
+  "dispatch.offers_changed": ["/api/driver-notifications", "/api/dispatch", "/api/transports"],
+  "fleet.assignment_changed": ["/api/fleet", "/api/load-planning"],
+  "trip.status_changed": ["/api/trips", "/api/transports", "/api/collects", "/api/fleet", "/api/load-planning"],
+};
+
+// Bursts (a driver app flushing a batch, a gate with a queue) collapse into one refetch per prefix
+const INVALIDATE_DEBOUNCE_MS = 500;
+const RECONNECT_DELAY_MS = 3000;
+
+type Listener = (event: RealtimeEvent) => void;
+const listeners = new Set<Listener>();
+
+const pendingPrefixes = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleInvalidation(prefixes: string[]) {
+  prefixes.forEach((prefix) => pendingPrefixes.add(prefix));
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    const prefixList = Array.from(pendingPrefixes);
+    pendingPrefixes.clear();
+    flushTimer = null;
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = query.queryKey[0];
+        return typeof key === "string" && prefixList.some((prefix) => key.startsWith(prefix));
+      },
+    });
+  }, INVALIDATE_DEBOUNCE_MS);
+}
+
+function socketUrl(token: string) {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${REALTIME_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+// Keeps one socket open for the signed-in session. Mounted once, in the authenticated layout.
+export function useRealtimeConnection() {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const connect = () => {
+      const token = getAccessToken();
+      if (!token || stopped) return;
+
+      let opened = false;
+      socket = new WebSocket(socketUrl(token));
+      socket.onopen = () => { opened = true; };
+      socket.onmessage = (message) => {
+        try {
+          const { event } = JSON.parse(message.data) as RealtimeMessage;
+          scheduleInvalidation(invalidatedPrefixes[event.type] ?? []);
+          listeners.forEach((listener) => listener(event));
+        } catch (error) {
+          console.error("Invalid realtime message:", error);
+        }
+      };
+      socket.onclose = async (event) => {
+        if (stopped) return;
+        // A handshake rejected before opening usually means the access token expired, and the server
+        // closes open sockets whose session ended; any authenticated request refreshes the token
+        if (!opened || event.code === REALTIME_SESSION_CLOSE_CODE) {
+          await apiRequest("GET", "/api/auth/me").catch(() => undefined);
+        }
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+}
+
+// Per-page reaction to specific events (toasts, highlights); cache refresh is already automatic
+export function useRealtimeEvent(types: RealtimeEventType[], handler: Listener) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const typesKey = types.join(",");
+
+  useEffect(() => {
+    const accepted = new Set(typesKey.split(","));
+    const listener: Listener = (event) => {
+      if (accepted.has(event.type)) handlerRef.current(event);
+    };
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, [typesKey]);
+}
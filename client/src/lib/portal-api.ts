@@ -0,0 +1,58 @@
+import type { QueryFunction } from "@tanstack/react-query";
+
+// The client portal keeps its own token, so a staff session in the same browser never
+// leaks into it (and vice versa). Portal queries must pass portalQueryFn explicitly.
+
+const PORTAL_TOKEN_KEY = "clientPortalToken";
+
+export function getPortalToken(): string | null {
+  return localStorage.getItem(PORTAL_TOKEN_KEY);
+}
+
+export function setPortalToken(token: string) {
+  localStorage.setItem(PORTAL_TOKEN_KEY, token);
+}
+
+export function clearPortalToken() {
+  localStorage.removeItem(PORTAL_TOKEN_KEY);
+}
+
+async function throwIfResNotOk(res: Response) {
+  if (!res.ok) {
+    if (res.status === 401) {
+      clearPortalToken();
+    }
+    const text = (await res.text()) || res.statusText;
+    let message = text;
+    try {
+      message = JSON.parse(text).message || text;
+    } catch {
+      // plain-text body
+    }
+    throw new Error(message);
+  }
+}
+
+export async function portalRequest(method: string, url: string, data?: unknown): Promise<Response> {
+  const headers: HeadersInit = {};
+  const token = getPortalToken();
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+  if (data) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+  });
+  await throwIfResNotOk(res);
+  return res;
+}
+
+export const portalQueryFn: QueryFunction<any> = async ({ queryKey }) => {
+  const res = await portalRequest("GET", queryKey.join("/") as string);
+  return res.json();
+};
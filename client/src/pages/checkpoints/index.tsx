@@ -48,6 +48,7 @@ interface CheckpointFormData {
   state: string;
   latitude: string;
   longitude: string;
+  geofenceRadiusMeters: string;
 }
 
 function CheckpointFormDialog({
@@ -78,6 +79,7 @@ function CheckpointFormDialog({
     state: "",
     latitude: "",
     longitude: "",
+    geofenceRadiusMeters: "300",
   });
 
   const { data: checkpoint, isLoading: isLoadingCheckpoint } = useQuery<Checkpoint>({
@@ -123,6 +125,7 @@ function CheckpointFormDialog({
       state: "",
       latitude: "",
       longitude: "",
+      geofenceRadiusMeters: "300",
     });
   };
 
@@ -135,6 +138,7 @@ function CheckpointFormDialog({
         state: checkpoint.state || "",
         latitude: checkpoint.latitude || "",
         longitude: checkpoint.longitude || "",
+        geofenceRadiusMeters: String(checkpoint.geofenceRadiusMeters ?? 300),
       });
     } else if (!editingId) {
       resetForm();
@@ -304,6 +308,11 @@ function CheckpointFormDialog({
       toast({ title: "Selecione um local no mapa", variant: "destructive" });
       return;
     }
+    const radius = parseInt(formData.geofenceRadiusMeters, 10);
+    if (isNaN(radius) || radius < 50 || radius > 20000) {
+      toast({ title: "Raio da cerca deve estar entre 50 e 20.000 metros", variant: "destructive" });
+      return;
+    }
 
     if (editingId) {
       updateMutation.mutate(formData);
@@ -416,6 +425,23 @@ function CheckpointFormDialog({
                 className="bg-muted"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Raio da Cerca Virtual (m)</Label>
+              <Input
+                data-testid="input-checkpoint-geofence-radius"
+                type="number"
+                min="50"
+                max="20000"
+                step="50"
+                value={formData.geofenceRadiusMeters}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, geofenceRadiusMeters: e.target.value }))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Posições do motorista dentro deste raio marcam o checkpoint como alcançado
+              </p>
+            </div>
           </div>
 
           <div className="flex justify-end gap-2 pt-4">
@@ -500,6 +526,11 @@ export default function CheckpointsPage() {
           <Badge variant="secondary">Sem localização</Badge>
         ),
     },
+    {
+      key: "geofenceRadiusMeters",
+      label: "Cerca",
+      render: (c: Checkpoint) => `${c.geofenceRadiusMeters} m`,
+    },
     {
       key: "actions",
       label: "Ações",
@@ -0,0 +1,451 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import otdLogoPath from "@assets/logo_OTD_1772310881404.png";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { StatusBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { Camera, Loader2, LogOut } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Client, DeliveryLocation } from "@shared/schema";
+import { clearPortalToken, getPortalToken, portalQueryFn, portalRequest } from "@/lib/portal-api";
+
+interface PortalVehicle {
+  chassi: string;
+  color: string | null;
+  status: string;
+  yardName: string | null;
+  yardEntryDateTime: string | null;
+}
+
+interface PortalTransport {
+  id: string;
+  requestNumber: string;
+  vehicleChassi: string;
+  status: string;
+  deliveryDate: string | null;
+  createdAt: string | null;
+  originYardName: string | null;
+  deliveryLocation: { name: string; city: string; state: string } | null;
+  departedAt: string | null;
+  deliveredAt: string | null;
+  estimatedArrival: string | null;
+  deliveryPhotos: string[];
+}
+
+interface PortalYardBilling {
+  clientGroups: {
+    clientId: string | null;
+    clientName: string;
+    dailyCost: number;
+    vehicles: {
+      chassi: string;
+      yardName: string;
+      entryDate: string | null;
+      daysInStock: number;
+      dailyCost: number;
+      totalCost: number;
+    }[];
+    totalDays: number;
+    totalCost: number;
+  }[];
+  summary: {
+    totalVehicles: number;
+    totalDays: number;
+    grandTotal: number;
+  };
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "-";
+  return format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR });
+}
+
+function VehiclesTab() {
+  const { data: vehicles, isLoading } = useQuery<PortalVehicle[]>({
+    queryKey: ["/api/portal/vehicles"],
+    queryFn: portalQueryFn,
+  });
+
+  if (isLoading) {
+    return <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Veículos em estoque ({vehicles?.length ?? 0})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Chassi</TableHead>
+              <TableHead>Cor</TableHead>
+              <TableHead>Pátio</TableHead>
+              <TableHead>Entrada</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {vehicles?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  Nenhum veículo em estoque
+                </TableCell>
+              </TableRow>
+            )}
+            {vehicles?.map((vehicle) => (
+              <TableRow key={vehicle.chassi} data-testid={`row-portal-vehicle-${vehicle.chassi}`}>
+                <TableCell className="font-mono">{vehicle.chassi}</TableCell>
+                <TableCell>{vehicle.color || "-"}</TableCell>
+                <TableCell>{vehicle.yardName || "-"}</TableCell>
+                <TableCell>{formatDateTime(vehicle.yardEntryDateTime)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TransportsTab() {
+  const [photosFor, setPhotosFor] = useState<PortalTransport | null>(null);
+  const { data: transports, isLoading } = useQuery<PortalTransport[]>({
+    queryKey: ["/api/portal/transports"],
+    queryFn: portalQueryFn,
+  });
+
+  if (isLoading) {
+    return <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Transportes</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nº</TableHead>
+              <TableHead>Chassi</TableHead>
+              <TableHead>Destino</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Previsão / Entrega</TableHead>
+              <TableHead className="text-right">Fotos</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transports?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Nenhum transporte encontrado
+                </TableCell>
+              </TableRow>
+            )}
+            {transports?.map((transport) => (
+              <TableRow key={transport.id} data-testid={`row-portal-transport-${transport.id}`}>
+                <TableCell className="font-medium">{transport.requestNumber}</TableCell>
+                <TableCell className="font-mono">{transport.vehicleChassi}</TableCell>
+                <TableCell>
+                  {transport.deliveryLocation
+                    ? `${transport.deliveryLocation.name} - ${transport.deliveryLocation.city}/${transport.deliveryLocation.state}`
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  <StatusBadge status={transport.status as any} />
+                </TableCell>
+                <TableCell>
+                  {transport.deliveredAt
+                    ? formatDateTime(transport.deliveredAt)
+                    : transport.estimatedArrival
+                      ? `Prev. ${formatDateTime(transport.estimatedArrival)}`
+                      : "-"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {transport.deliveryPhotos.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPhotosFor(transport)}
+                      data-testid={`button-portal-photos-${transport.id}`}
+                    >
+                      <Camera className="mr-1 h-4 w-4" />
+                      {transport.deliveryPhotos.length}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!photosFor} onOpenChange={(open) => !open && setPhotosFor(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Fotos da entrega - {photosFor?.requestNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+            {photosFor?.deliveryPhotos.map((url, index) => (
+              <a key={url} href={url} target="_blank" rel="noreferrer">
+                <img src={url} alt={`Foto ${index + 1}`} className="h-40 w-full rounded-md border object-cover" />
+              </a>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function YardBillingTab() {
+  const { data: report, isLoading } = useQuery<PortalYardBilling>({
+    queryKey: ["/api/portal/yard-billing"],
+    queryFn: portalQueryFn,
+  });
+
+  if (isLoading || !report) {
+    return <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />;
+  }
+
+  const vehicles = report.clientGroups.flatMap((group) => group.vehicles);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Veículos no pátio</p>
+            <p className="text-2xl font-bold">{report.summary.totalVehicles}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Diárias acumuladas</p>
+            <p className="text-2xl font-bold">{report.summary.totalDays}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Total a faturar</p>
+            <p className="text-2xl font-bold">{formatCurrency(report.summary.grandTotal)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Chassi</TableHead>
+                <TableHead>Pátio</TableHead>
+                <TableHead>Entrada</TableHead>
+                <TableHead className="text-right">Dias</TableHead>
+                <TableHead className="text-right">Diária</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vehicles.map((vehicle) => (
+                <TableRow key={vehicle.chassi}>
+                  <TableCell className="font-mono">{vehicle.chassi}</TableCell>
+                  <TableCell>{vehicle.yardName}</TableCell>
+                  <TableCell>{formatDateTime(vehicle.entryDate)}</TableCell>
+                  <TableCell className="text-right">{vehicle.daysInStock}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vehicle.dailyCost)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(vehicle.totalCost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function DeliveryRequestTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ vehicleChassi: "", deliveryLocationId: "", deliveryDate: "", notes: "" });
+
+  const { data: vehicles } = useQuery<PortalVehicle[]>({
+    queryKey: ["/api/portal/vehicles"],
+    queryFn: portalQueryFn,
+  });
+  const { data: locations } = useQuery<DeliveryLocation[]>({
+    queryKey: ["/api/portal/delivery-locations"],
+    queryFn: portalQueryFn,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await portalRequest("POST", "/api/portal/delivery-requests", {
+        vehicleChassi: form.vehicleChassi,
+        deliveryLocationId: form.deliveryLocationId,
+        deliveryDate: form.deliveryDate || undefined,
+        notes: form.notes || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { requestNumber: string }) => {
+      toast({ title: "Entrega solicitada", description: `Solicitação ${data.requestNumber} registrada.` });
+      setForm({ vehicleChassi: "", deliveryLocationId: "", deliveryDate: "", notes: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/portal/transports"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao solicitar entrega", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="text-lg">Solicitar entrega</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Veículo</Label>
+          <Select value={form.vehicleChassi} onValueChange={(value) => setForm({ ...form, vehicleChassi: value })}>
+            <SelectTrigger data-testid="select-portal-vehicle">
+              <SelectValue placeholder="Selecione o veículo" />
+            </SelectTrigger>
+            <SelectContent>
+              {vehicles?.map((vehicle) => (
+                <SelectItem key={vehicle.chassi} value={vehicle.chassi}>
+                  {vehicle.chassi} {vehicle.yardName ? `(${vehicle.yardName})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Local de entrega</Label>
+          <Select value={form.deliveryLocationId} onValueChange={(value) => setForm({ ...form, deliveryLocationId: value })}>
+            <SelectTrigger data-testid="select-portal-location">
+              <SelectValue placeholder="Selecione o local" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations?.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name} - {location.city}/{location.state}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="portal-delivery-date">Data desejada</Label>
+          <Input
+            id="portal-delivery-date"
+            type="date"
+            value={form.deliveryDate}
+            onChange={(e) => setForm({ ...form, deliveryDate: e.target.value })}
+            data-testid="input-portal-delivery-date"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="portal-notes">Observações</Label>
+          <Textarea
+            id="portal-notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            data-testid="input-portal-notes"
+          />
+        </div>
+        <Button
+          onClick={() => requestMutation.mutate()}
+          disabled={!form.vehicleChassi || !form.deliveryLocationId || requestMutation.isPending}
+          data-testid="button-portal-request-delivery"
+        >
+          {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Solicitar entrega
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClientPortalPage() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const hasToken = !!getPortalToken();
+
+  const { data: client, isError } = useQuery<Omit<Client, "password">>({
+    queryKey: ["/api/portal/me"],
+    queryFn: portalQueryFn,
+    enabled: hasToken,
+  });
+
+  useEffect(() => {
+    if (!hasToken || isError) {
+      setLocation("/portal/login");
+    }
+  }, [hasToken, isError, setLocation]);
+
+  const handleLogout = () => {
+    clearPortalToken();
+    queryClient.removeQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/portal"),
+    });
+    setLocation("/portal/login");
+  };
+
+  if (!client) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between border-b px-6 py-3">
+        <div className="flex items-center gap-3">
+          <img src={otdLogoPath} alt="OTD Logistics" className="h-10 object-contain" />
+          <div>
+            <p className="font-semibold">Portal do Cliente</p>
+            <p className="text-sm text-muted-foreground">{client.name}</p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleLogout} data-testid="button-portal-logout">
+          <LogOut className="mr-2 h-4 w-4" />
+          Sair
+        </Button>
+      </header>
+
+      <main className="p-6">
+        <Tabs defaultValue="estoque">
+          <TabsList className="mb-4">
+            <TabsTrigger value="estoque" data-testid="tab-portal-estoque">Estoque</TabsTrigger>
+            <TabsTrigger value="transportes" data-testid="tab-portal-transportes">Transportes</TabsTrigger>
+            <TabsTrigger value="faturamento" data-testid="tab-portal-faturamento">Faturamento Pátio</TabsTrigger>
+            <TabsTrigger value="solicitar" data-testid="tab-portal-solicitar">Solicitar Entrega</TabsTrigger>
+          </TabsList>
+          <TabsContent value="estoque"><VehiclesTab /></TabsContent>
+          <TabsContent value="transportes"><TransportsTab /></TabsContent>
+          <TabsContent value="faturamento"><YardBillingTab /></TabsContent>
+          <TabsContent value="solicitar"><DeliveryRequestTab /></TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
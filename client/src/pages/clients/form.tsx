@@ -27,8 +27,9 @@ import { Switch } from "@/components/ui/switch";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Plus, Trash2, Pencil, Eye, Search } from "lucide-react";
-import type { Client, DeliveryLocation } from "@shared/schema";
+import { geofenceEnforcementModes, type Client, type DeliveryLocation } from "@shared/schema";
 import { AddressAutocomplete } from "@/components/address-autocomplete";
+import { GeofenceFields } from "@/components/geofence-fields";
 import { fetchAddressFromCep } from "@/lib/cep";
 import {
   Dialog,
@@ -109,6 +110,8 @@ const locationFormSchema = z.object({
   emails: z.array(z.string()).transform((arr) => arr.filter(e => e.trim() !== "")).pipe(
     z.array(z.string().email("Email inválido")).min(1, "Pelo menos um email é obrigatório")
   ),
+  geofenceRadiusMeters: z.coerce.number().int().min(50, "Mínimo de 50 m").max(20000, "Máximo de 20.000 m"),
+  geofenceEnforcement: z.enum(geofenceEnforcementModes),
   isActive: z.string().default("true"),
 });
 
@@ -185,6 +188,8 @@ export default function ClientFormPage() {
       responsibleName: "",
       responsiblePhone: "",
       emails: [""],
+      geofenceRadiusMeters: 500,
+      geofenceEnforcement: "sinalizar",
       isActive: "true",
     },
   });
@@ -315,6 +320,8 @@ export default function ClientFormPage() {
       responsibleName: loc.responsibleName || "",
       responsiblePhone: loc.responsiblePhone || "",
       emails: loc.emails?.length ? loc.emails : [""],
+      geofenceRadiusMeters: loc.geofenceRadiusMeters ?? 500,
+      geofenceEnforcement: loc.geofenceEnforcement ?? "sinalizar",
       isActive: loc.isActive || "true",
     });
     setEditLocationDialogOpen(true);
@@ -929,6 +936,9 @@ export default function ClientFormPage() {
                     <p className="text-sm font-medium text-destructive">{locationForm.formState.errors.emails.message}</p>
                   )}
                 </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <GeofenceFields control={locationForm.control} testIdPrefix="location" />
+                </div>
                 <div className="flex justify-end gap-4">
                   <Button type="button" variant="outline" onClick={() => setLocationDialogOpen(false)}>
                     Cancelar
@@ -1116,6 +1126,9 @@ export default function ClientFormPage() {
                     <p className="text-sm font-medium text-destructive">{locationForm.formState.errors.emails.message}</p>
                   )}
                 </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <GeofenceFields control={locationForm.control} testIdPrefix="location" />
+                </div>
                 <div className="flex justify-end gap-4">
                   <Button type="button" variant="outline" onClick={() => setEditLocationDialogOpen(false)}>
                     Cancelar
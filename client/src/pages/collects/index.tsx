@@ -4,6 +4,7 @@ import { useLocation } from "wouter";
 import { PageHeader } from "@/components/page-header";
 import { DataTable } from "@/components/data-table";
 import { StatusBadge } from "@/components/status-badge";
+import { AuditHistory } from "@/components/audit-history";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -17,7 +18,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Search, Trash2, Loader2, Truck, MapPin, Calendar, User, Building, Clock, Camera, ImageIcon, ExternalLink, FileText, ChevronsUpDown, Check, CheckCircle } from "lucide-react";
+import { Plus, Search, Trash2, Loader2, Truck, MapPin, Calendar, User, Building, Clock, Camera, ImageIcon, ExternalLink, FileText, ChevronsUpDown, Check, CheckCircle, History } from "lucide-react";
 import jsPDF from "jspdf";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { normalizeImageUrl } from "@/lib/utils";
@@ -1182,7 +1183,7 @@ function CollectDetailDialog({ collect, onClose }: CollectDetailDialogProps) {
               <Separator />
 
               <Tabs defaultValue="checkin" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className="grid w-full grid-cols-3">
                   <TabsTrigger value="checkin" className="gap-1.5 text-sm">
                     <Camera className="h-3.5 w-3.5" />
                     Check-in
@@ -1193,6 +1194,10 @@ function CollectDetailDialog({ collect, onClose }: CollectDetailDialogProps) {
                     Check-out
                     {collect.checkoutDateTime && <Badge variant="secondary" className="ml-1 h-4 px-1 text-[10px]">OK</Badge>}
                   </TabsTrigger>
+                  <TabsTrigger value="historico" className="gap-1.5 text-sm" data-testid="tab-collect-history">
+                    <History className="h-3.5 w-3.5" />
+                    Histórico
+                  </TabsTrigger>
                 </TabsList>
                 <TabsContent value="checkin" className="mt-4">
                   <PhotoSection type="checkin" />
@@ -1200,6 +1205,9 @@ function CollectDetailDialog({ collect, onClose }: CollectDetailDialogProps) {
                 <TabsContent value="checkout" className="mt-4">
                   <PhotoSection type="checkout" />
                 </TabsContent>
+                <TabsContent value="historico" className="mt-4">
+                  <AuditHistory entity="collect" entityId={collect.id} />
+                </TabsContent>
               </Tabs>
             </div>
           </ScrollArea>
@@ -0,0 +1,863 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PageHeader } from "@/components/page-header";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Check, FileText, Loader2, Plus, Search, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { damageSeverityLabels, damageStageLabels, damageTypeLabels, damageZoneLabels } from "@/components/vehicle-damage-diagram";
+import { damageClaimTransitions } from "@shared/state-machine";
+import {
+  damageLiableParties,
+  type Collect,
+  type DamageClaim,
+  type DamageClaimEvidence,
+  type DamageClaimQuote,
+  type DamageLiableParty,
+  type DamageRecord,
+  type Driver,
+  type Manufacturer,
+  type Transport,
+  type Yard,
+} from "@shared/schema";
+
+type ClaimStatus = DamageClaim["status"];
+
+interface DamageClaimListItem extends DamageClaim {
+  transport: { id: string; requestNumber: string; driverId: string | null } | null;
+  collect: { id: string; collectDate: string | null; driverId: string | null } | null;
+  liableDriver: { id: string; name: string } | null;
+  client: { id: string; name: string } | null;
+}
+
+interface DamageClaimDetail extends DamageClaim {
+  evidence: (DamageClaimEvidence & { damageRecord: DamageRecord | null })[];
+  quotes: DamageClaimQuote[];
+  damageRecords: DamageRecord[];
+}
+
+const statusConfig: Record<ClaimStatus, { label: string; className: string }> = {
+  aberta: { label: "Aberta", className: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400" },
+  em_analise: { label: "Em análise", className: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+  aprovada: { label: "Aprovada", className: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400" },
+  em_reparo: { label: "Em reparo", className: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400" },
+  encerrada: { label: "Encerrada", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+  rejeitada: { label: "Rejeitada", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+};
+
+const liablePartyLabels: Record<DamageLiableParty, string> = {
+  motorista: "Motorista",
+  montadora: "Montadora",
+  patio: "Pátio",
+  seguradora: "Seguradora",
+};
+
+const quoteStatusLabels: Record<DamageClaimQuote["status"], string> = {
+  pendente: "Pendente",
+  aprovado: "Aprovado",
+  recusado: "Recusado",
+};
+
+const ALL = "all";
+const NONE = "none";
+
+function formatCurrency(value: string | null | undefined) {
+  if (!value) return "—";
+  return parseFloat(value).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function ClaimStatusBadge({ status }: { status: ClaimStatus }) {
+  const config = statusConfig[status];
+  return (
+    <Badge variant="outline" className={`border-0 font-medium ${config.className}`} data-testid={`badge-claim-status-${status}`}>
+      {config.label}
+    </Badge>
+  );
+}
+
+const emptyClaimForm = {
+  vehicleChassi: "",
+  transportId: "",
+  collectId: "",
+  reportedBy: "",
+  description: "",
+};
+
+export default function DamageClaimsPage() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<ClaimStatus | typeof ALL>(ALL);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [claimForm, setClaimForm] = useState(emptyClaimForm);
+  const [selectedClaimId, setSelectedClaimId] = useState<string | null>(null);
+
+  const { data: claims, isLoading } = useQuery<DamageClaimListItem[]>({
+    queryKey: ["/api/damage-claims"],
+  });
+
+  const { data: transports } = useQuery<Transport[]>({
+    queryKey: ["/api/transports"],
+    enabled: showCreateDialog,
+  });
+
+  const { data: collects } = useQuery<Collect[]>({
+    queryKey: ["/api/collects"],
+    enabled: showCreateDialog,
+  });
+
+  const chassi = claimForm.vehicleChassi.trim().toUpperCase();
+  const chassiTransports = (transports || []).filter(t => t.vehicleChassi === chassi);
+  const chassiCollects = (collects || []).filter(c => c.vehicleChassi === chassi);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await apiRequest("POST", "/api/damage-claims", data);
+      return res.json() as Promise<DamageClaim>;
+    },
+    onSuccess: (claim) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/damage-claims"] });
+      setShowCreateDialog(false);
+      setClaimForm(emptyClaimForm);
+      setSelectedClaimId(claim.id);
+      toast({ title: `Sinistro ${claim.claimNumber} aberto` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao abrir sinistro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!chassi || !claimForm.description.trim()) {
+      toast({ title: "Chassi e descrição são obrigatórios", variant: "destructive" });
+      return;
+    }
+    if (!claimForm.transportId && !claimForm.collectId) {
+      toast({ title: "Selecione o transporte ou a coleta", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      vehicleChassi: chassi,
+      transportId: claimForm.transportId || null,
+      collectId: claimForm.collectId || null,
+      reportedBy: claimForm.reportedBy.trim() || null,
+      description: claimForm.description.trim(),
+    });
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredClaims = (claims || []).filter(c =>
+    (statusFilter === ALL || c.status === statusFilter) && (
+      c.claimNumber.toLowerCase().includes(term) ||
+      c.vehicleChassi.toLowerCase().includes(term) ||
+      (c.transport?.requestNumber || "").toLowerCase().includes(term) ||
+      (c.liableDriver?.name || "").toLowerCase().includes(term) ||
+      (c.client?.name || "").toLowerCase().includes(term)
+    )
+  );
+
+  const columns = [
+    { key: "claimNumber", label: "Sinistro" },
+    { key: "vehicleChassi", label: "Chassi" },
+    {
+      key: "operation",
+      label: "Operação",
+      render: (c: DamageClaimListItem) => c.transport
+        ? `Transporte ${c.transport.requestNumber}`
+        : c.collect ? "Coleta" : "—",
+    },
+    {
+      key: "client",
+      label: "Cliente",
+      render: (c: DamageClaimListItem) => c.client?.name || "—",
+    },
+    {
+      key: "liableParty",
+      label: "Responsável",
+      render: (c: DamageClaimListItem) => c.liableParty ? (
+        <div>
+          <p>{liablePartyLabels[c.liableParty]}</p>
+          {c.liableDriver && <p className="text-xs text-muted-foreground">{c.liableDriver.name}</p>}
+        </div>
+      ) : "—",
+    },
+    {
+      key: "approvedAmount",
+      label: "Valor",
+      render: (c: DamageClaimListItem) => formatCurrency(c.approvedAmount),
+    },
+    {
+      key: "createdAt",
+      label: "Abertura",
+      render: (c: DamageClaimListItem) => c.createdAt ? format(new Date(c.createdAt), "dd/MM/yyyy", { locale: ptBR }) : "—",
+    },
+    {
+      key: "status",
+      label: "Status",
+      render: (c: DamageClaimListItem) => <ClaimStatusBadge status={c.status} />,
+    },
+  ];
+
+  return (
+    <div className="flex h-full flex-col">
+      <PageHeader
+        title="Sinistros de Avaria"
+        breadcrumbs={[
+          { label: "Operação", href: "/" },
+          { label: "Sinistros de Avaria" },
+        ]}
+      />
+      <div className="flex-1 overflow-auto p-4 md:p-6">
+        <div className="mb-4 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-1 flex-col gap-2 sm:flex-row">
+            <div className="relative max-w-sm flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por sinistro, chassi, transporte ou motorista..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+                data-testid="input-search-claims"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as ClaimStatus | typeof ALL)}>
+              <SelectTrigger className="w-48" data-testid="select-claim-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os status</SelectItem>
+                {(Object.keys(statusConfig) as ClaimStatus[]).map(s => (
+                  <SelectItem key={s} value={s}>{statusConfig[s].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => setShowCreateDialog(true)} data-testid="button-add-claim">
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Sinistro
+          </Button>
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={filteredClaims}
+          isLoading={isLoading}
+          keyField="id"
+          onRowClick={(c) => setSelectedClaimId(c.id)}
+          emptyMessage="Nenhum sinistro registrado"
+        />
+      </div>
+
+      <Dialog open={showCreateDialog} onOpenChange={(open) => { if (!open) { setShowCreateDialog(false); setClaimForm(emptyClaimForm); } }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Novo Sinistro</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label>Chassi</Label>
+              <Input
+                value={claimForm.vehicleChassi}
+                onChange={(e) => setClaimForm({ ...claimForm, vehicleChassi: e.target.value, transportId: "", collectId: "" })}
+                placeholder="Chassi do veículo avariado"
+                data-testid="input-claim-chassi"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Transporte</Label>
+                <Select
+                  value={claimForm.transportId || NONE}
+                  onValueChange={(v) => setClaimForm({ ...claimForm, transportId: v === NONE ? "" : v, collectId: "" })}
+                  disabled={chassiTransports.length === 0}
+                >
+                  <SelectTrigger data-testid="select-claim-transport">
+                    <SelectValue placeholder="Nenhum" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Nenhum</SelectItem>
+                    {chassiTransports.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.requestNumber}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Coleta</Label>
+                <Select
+                  value={claimForm.collectId || NONE}
+                  onValueChange={(v) => setClaimForm({ ...claimForm, collectId: v === NONE ? "" : v, transportId: "" })}
+                  disabled={chassiCollects.length === 0}
+                >
+                  <SelectTrigger data-testid="select-claim-collect">
+                    <SelectValue placeholder="Nenhuma" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Nenhuma</SelectItem>
+                    {chassiCollects.map(c => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.collectDate ? format(new Date(c.collectDate), "dd/MM/yyyy") : c.id.slice(0, 8)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Comunicado por</Label>
+              <Input
+                value={claimForm.reportedBy}
+                onChange={(e) => setClaimForm({ ...claimForm, reportedBy: e.target.value })}
+                placeholder="Ex: Cliente, portaria, motorista"
+                data-testid="input-claim-reported-by"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Descrição</Label>
+              <Textarea
+                value={claimForm.description}
+                onChange={(e) => setClaimForm({ ...claimForm, description: e.target.value })}
+                rows={3}
+                data-testid="input-claim-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setShowCreateDialog(false); setClaimForm(emptyClaimForm); }}>Cancelar</Button>
+            <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-save-claim">
+              Abrir Sinistro
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DamageClaimDialog claimId={selectedClaimId} onClose={() => setSelectedClaimId(null)} />
+    </div>
+  );
+}
+
+const emptyLiabilityForm = {
+  liableParty: "",
+  liableDriverId: "",
+  liableManufacturerId: "",
+  liableYardId: "",
+  insurerName: "",
+  liabilityNotes: "",
+  approvedAmount: "",
+};
+
+function DamageClaimDialog({ claimId, onClose }: { claimId: string | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [liability, setLiability] = useState(emptyLiabilityForm);
+  const [evidenceRecordId, setEvidenceRecordId] = useState("");
+  const [evidenceDescription, setEvidenceDescription] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+  const [quoteForm, setQuoteForm] = useState({ supplier: "", amount: "", description: "" });
+
+  const { data: claim, isLoading } = useQuery<DamageClaimDetail>({
+    queryKey: ["/api/damage-claims", claimId],
+    enabled: !!claimId,
+  });
+
+  const { data: drivers } = useQuery<Driver[]>({ queryKey: ["/api/drivers"], enabled: !!claimId });
+  const { data: manufacturers } = useQuery<Manufacturer[]>({ queryKey: ["/api/manufacturers"], enabled: !!claimId });
+  const { data: yards } = useQuery<Yard[]>({ queryKey: ["/api/yards"], enabled: !!claimId });
+
+  useEffect(() => {
+    if (!claim) return;
+    setLiability({
+      liableParty: claim.liableParty || "",
+      liableDriverId: claim.liableDriverId || "",
+      liableManufacturerId: claim.liableManufacturerId || "",
+      liableYardId: claim.liableYardId || "",
+      insurerName: claim.insurerName || "",
+      liabilityNotes: claim.liabilityNotes || "",
+      approvedAmount: claim.approvedAmount || "",
+    });
+  }, [claim]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/damage-claims"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const liabilityMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("PATCH", `/api/damage-claims/${claimId}`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Responsabilidade atualizada" });
+    },
+    onError: onError("Erro ao atualizar responsabilidade"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: ClaimStatus) => {
+      await apiRequest("POST", `/api/damage-claims/${claimId}/status`, { status });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Status do sinistro atualizado" });
+    },
+    onError: onError("Erro ao alterar status"),
+  });
+
+  const evidenceMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("POST", `/api/damage-claims/${claimId}/evidence`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      setEvidenceRecordId("");
+      setEvidenceDescription("");
+      toast({ title: "Evidência anexada" });
+    },
+    onError: onError("Erro ao anexar evidência"),
+  });
+
+  const deleteEvidenceMutation = useMutation({
+    mutationFn: async (evidenceId: string) => {
+      await apiRequest("DELETE", `/api/damage-claims/${claimId}/evidence/${evidenceId}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Erro ao remover evidência"),
+  });
+
+  const quoteMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("POST", `/api/damage-claims/${claimId}/quotes`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      setQuoteForm({ supplier: "", amount: "", description: "" });
+      toast({ title: "Orçamento adicionado" });
+    },
+    onError: onError("Erro ao adicionar orçamento"),
+  });
+
+  const approveQuoteMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      await apiRequest("POST", `/api/damage-claims/${claimId}/quotes/${quoteId}/approve`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Orçamento aprovado" });
+    },
+    onError: onError("Erro ao aprovar orçamento"),
+  });
+
+  const deleteQuoteMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      await apiRequest("DELETE", `/api/damage-claims/${claimId}/quotes/${quoteId}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Erro ao remover orçamento"),
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const response = await fetch("/api/uploads/request-url", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contentType: file.type, name: file.name, isPublic: false }),
+      });
+      if (!response.ok) throw new Error("Failed to get upload URL");
+      const { uploadURL, objectPath } = await response.json();
+      await fetch(uploadURL, { method: "PUT", headers: { "Content-Type": file.type }, body: file });
+      evidenceMutation.mutate({ fileUrl: objectPath, description: evidenceDescription.trim() || file.name });
+    } catch (error) {
+      console.error("Upload failed:", error);
+      toast({ title: "Falha no envio do arquivo", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleSaveLiability = () => {
+    const party = liability.liableParty as DamageLiableParty | "";
+    liabilityMutation.mutate({
+      liableParty: party || null,
+      liableDriverId: party === "motorista" ? liability.liableDriverId || null : null,
+      liableManufacturerId: party === "montadora" ? liability.liableManufacturerId || null : null,
+      liableYardId: party === "patio" ? liability.liableYardId || null : null,
+      insurerName: party === "seguradora" ? liability.insurerName.trim() || null : null,
+      liabilityNotes: liability.liabilityNotes.trim() || null,
+      approvedAmount: liability.approvedAmount.replace(",", ".").trim() || null,
+    });
+  };
+
+  const editable = !!claim && !["aprovada", "em_reparo", "encerrada"].includes(claim.status);
+  const transitions = claim ? damageClaimTransitions[claim.status] : [];
+  const linkedRecordIds = new Set((claim?.evidence || []).map(e => e.damageRecordId).filter(Boolean));
+  const availableRecords = (claim?.damageRecords || []).filter(r => !linkedRecordIds.has(r.id));
+
+  return (
+    <Dialog open={!!claimId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            Sinistro {claim?.claimNumber}
+            {claim && <ClaimStatusBadge status={claim.status} />}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !claim ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-1/2" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Chassi</p>
+                <p className="font-medium">{claim.vehicleChassi}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Comunicado por</p>
+                <p className="font-medium">{claim.reportedBy || "—"}</p>
+              </div>
+              <div className="col-span-2">
+                <p className="text-muted-foreground">Descrição</p>
+                <p>{claim.description}</p>
+              </div>
+              {claim.settlementId && (
+                <div className="col-span-2 rounded-md border p-3">
+                  Valor de {formatCurrency(claim.approvedAmount)} descontado na prestação de contas do motorista.
+                </div>
+              )}
+              {claim.liableParty === "motorista" && claim.approvedAt && !claim.settlementId && (
+                <div className="col-span-2 rounded-md border p-3 text-muted-foreground">
+                  Desconto pendente: será lançado na próxima prestação de contas do motorista.
+                </div>
+              )}
+            </div>
+
+            {transitions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {transitions.map(t => (
+                  <Button
+                    key={t.to}
+                    size="sm"
+                    variant={t.to === "rejeitada" ? "outline" : "default"}
+                    onClick={() => statusMutation.mutate(t.to)}
+                    disabled={statusMutation.isPending}
+                    data-testid={`button-claim-transition-${t.to}`}
+                  >
+                    {t.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <section className="space-y-3">
+              <h3 className="font-semibold">Responsabilidade</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Responsável</Label>
+                  <Select
+                    value={liability.liableParty || NONE}
+                    onValueChange={(v) => setLiability({ ...liability, liableParty: v === NONE ? "" : v })}
+                    disabled={!editable}
+                  >
+                    <SelectTrigger data-testid="select-claim-liable-party">
+                      <SelectValue placeholder="Não definido" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Não definido</SelectItem>
+                      {damageLiableParties.map(p => (
+                        <SelectItem key={p} value={p}>{liablePartyLabels[p]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {liability.liableParty === "motorista" && (
+                  <div className="space-y-2">
+                    <Label>Motorista</Label>
+                    <Select
+                      value={liability.liableDriverId}
+                      onValueChange={(v) => setLiability({ ...liability, liableDriverId: v })}
+                      disabled={!editable}
+                    >
+                      <SelectTrigger data-testid="select-claim-liable-driver">
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {drivers?.map(d => (
+                          <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {liability.liableParty === "montadora" && (
+                  <div className="space-y-2">
+                    <Label>Montadora</Label>
+                    <Select
+                      value={liability.liableManufacturerId}
+                      onValueChange={(v) => setLiability({ ...liability, liableManufacturerId: v })}
+                      disabled={!editable}
+                    >
+                      <SelectTrigger data-testid="select-claim-liable-manufacturer">
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {manufacturers?.map(m => (
+                          <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {liability.liableParty === "patio" && (
+                  <div className="space-y-2">
+                    <Label>Pátio</Label>
+                    <Select
+                      value={liability.liableYardId}
+                      onValueChange={(v) => setLiability({ ...liability, liableYardId: v })}
+                      disabled={!editable}
+                    >
+                      <SelectTrigger data-testid="select-claim-liable-yard">
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {yards?.map(y => (
+                          <SelectItem key={y.id} value={y.id}>{y.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {liability.liableParty === "seguradora" && (
+                  <div className="space-y-2">
+                    <Label>Seguradora</Label>
+                    <Input
+                      value={liability.insurerName}
+                      onChange={(e) => setLiability({ ...liability, insurerName: e.target.value })}
+                      disabled={!editable}
+                      data-testid="input-claim-insurer"
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>Valor atribuído (R$)</Label>
+                  <Input
+                    value={liability.approvedAmount}
+                    onChange={(e) => setLiability({ ...liability, approvedAmount: e.target.value })}
+                    placeholder="0.00"
+                    disabled={!editable}
+                    data-testid="input-claim-amount"
+                  />
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label>Observações</Label>
+                  <Textarea
+                    value={liability.liabilityNotes}
+                    onChange={(e) => setLiability({ ...liability, liabilityNotes: e.target.value })}
+                    rows={2}
+                    disabled={!editable}
+                    data-testid="input-claim-liability-notes"
+                  />
+                </div>
+              </div>
+              {editable && (
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleSaveLiability} disabled={liabilityMutation.isPending} data-testid="button-save-liability">
+                    Salvar Responsabilidade
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-3">
+              <h3 className="font-semibold">Evidências</h3>
+              {claim.evidence.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma evidência anexada</p>
+              ) : (
+                <div className="space-y-2">
+                  {claim.evidence.map(e => (
+                    <div key={e.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                      <div className="min-w-0">
+                        {e.damageRecord ? (
+                          <p>
+                            {damageStageLabels[e.damageRecord.stage]}: {damageZoneLabels[e.damageRecord.zone]} - {damageTypeLabels[e.damageRecord.damageType]} ({damageSeverityLabels[e.damageRecord.severity]})
+                          </p>
+                        ) : e.fileUrl ? (
+                          <a href={e.fileUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+                            <FileText className="h-4 w-4" />
+                            {e.description || "Arquivo"}
+                          </a>
+                        ) : null}
+                        {e.damageRecord && e.description && <p className="text-xs text-muted-foreground">{e.description}</p>}
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteEvidenceMutation.mutate(e.id)}
+                        data-testid={`button-delete-evidence-${e.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  value={evidenceDescription}
+                  onChange={(e) => setEvidenceDescription(e.target.value)}
+                  placeholder="Descrição da evidência"
+                  className="col-span-2"
+                  data-testid="input-evidence-description"
+                />
+                <div className="flex gap-2">
+                  <Select value={evidenceRecordId} onValueChange={setEvidenceRecordId} disabled={availableRecords.length === 0}>
+                    <SelectTrigger data-testid="select-evidence-record">
+                      <SelectValue placeholder="Registro de avaria" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableRecords.map(r => (
+                        <SelectItem key={r.id} value={r.id}>
+                          {damageStageLabels[r.stage]}: {damageZoneLabels[r.zone]} - {damageTypeLabels[r.damageType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => evidenceMutation.mutate({ damageRecordId: evidenceRecordId, description: evidenceDescription.trim() || null })}
+                    disabled={!evidenceRecordId || evidenceMutation.isPending}
+                    data-testid="button-link-evidence-record"
+                  >
+                    Vincular
+                  </Button>
+                </div>
+                <Button variant="outline" asChild disabled={isUploading}>
+                  <label className="cursor-pointer" data-testid="button-upload-evidence">
+                    {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                    Enviar arquivo
+                    <input type="file" accept="image/*,application/pdf" className="hidden" onChange={handleFileChange} />
+                  </label>
+                </Button>
+              </div>
+            </section>
+
+            <Separator />
+
+            <section className="space-y-3">
+              <h3 className="font-semibold">Orçamentos de Reparo</h3>
+              {claim.quotes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum orçamento cadastrado</p>
+              ) : (
+                <div className="space-y-2">
+                  {claim.quotes.map(q => (
+                    <div key={q.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium">{q.supplier} · {formatCurrency(q.amount)}</p>
+                        {q.description && <p className="text-xs text-muted-foreground">{q.description}</p>}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={q.status === "aprovado" ? "default" : "secondary"}>{quoteStatusLabels[q.status]}</Badge>
+                        {editable && q.status !== "aprovado" && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => approveQuoteMutation.mutate(q.id)}
+                            title="Aprovar orçamento"
+                            data-testid={`button-approve-quote-${q.id}`}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {q.status !== "aprovado" && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => deleteQuoteMutation.mutate(q.id)}
+                            data-testid={`button-delete-quote-${q.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  value={quoteForm.supplier}
+                  onChange={(e) => setQuoteForm({ ...quoteForm, supplier: e.target.value })}
+                  placeholder="Oficina / fornecedor"
+                  data-testid="input-quote-supplier"
+                />
+                <Input
+                  value={quoteForm.amount}
+                  onChange={(e) => setQuoteForm({ ...quoteForm, amount: e.target.value })}
+                  placeholder="Valor (R$)"
+                  data-testid="input-quote-amount"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => quoteMutation.mutate({
+                    supplier: quoteForm.supplier.trim(),
+                    amount: quoteForm.amount.replace(",", ".").trim(),
+                    description: quoteForm.description.trim() || null,
+                  })}
+                  disabled={!quoteForm.supplier.trim() || !quoteForm.amount.trim() || quoteMutation.isPending}
+                  data-testid="button-add-quote"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar
+                </Button>
+                <Input
+                  value={quoteForm.description}
+                  onChange={(e) => setQuoteForm({ ...quoteForm, description: e.target.value })}
+                  placeholder="Descrição do serviço"
+                  className="col-span-3"
+                  data-testid="input-quote-description"
+                />
+              </div>
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
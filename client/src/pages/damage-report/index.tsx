@@ -22,8 +22,11 @@ import {
   ChevronLeft,
   ChevronRight,
   Eye,
+  MapPinOff,
 } from "lucide-react";
-import type { Collect, Transport, Manufacturer, Yard, Driver, Client, DeliveryLocation } from "@shared/schema";
+import { DamageInspectionPanel } from "@/components/damage-inspection-panel";
+import type { Collect, Transport, Manufacturer, Yard, Driver, Client, DeliveryLocation, DamageRecord, GeofenceException } from "@shared/schema";
+import { describeGeofenceException } from "@/components/geofence-exception-badge";
 
 interface CollectWithRelations extends Collect {
   manufacturer?: Manufacturer;
@@ -81,28 +84,41 @@ export default function DamageReportPage() {
     queryKey: ["/api/transports"],
   });
 
-  const isLoading = collectsLoading || transportsLoading;
+  const { data: damageRecords, isLoading: damageRecordsLoading } = useQuery<DamageRecord[]>({
+    queryKey: ["/api/damage-records"],
+  });
+
+  const { data: geofenceExceptions = [] } = useQuery<GeofenceException[]>({
+    queryKey: [`/api/geofence-exceptions?chassi=${encodeURIComponent(selectedChassi || "")}`],
+    enabled: !!selectedChassi,
+  });
+
+  const isLoading = collectsLoading || transportsLoading || damageRecordsLoading;
 
   const collectsWithDamage = (collects || []).filter((c) => getDamagePhotos(c).length > 0);
   const transportsWithDamage = (transports || []).filter((t) => getDamagePhotos(t).length > 0);
 
   // Build unique chassis list with damage record counts
-  const chassisMap = new Map<string, { collects: number; transports: number; photos: number }>();
+  const chassisMap = new Map<string, { collects: number; transports: number; photos: number; records: number }>();
   for (const c of collectsWithDamage) {
     const ch = c.vehicleChassi || "";
     if (!ch) continue;
-    const prev = chassisMap.get(ch) || { collects: 0, transports: 0, photos: 0 };
+    const prev = chassisMap.get(ch) || { collects: 0, transports: 0, photos: 0, records: 0 };
     chassisMap.set(ch, { ...prev, collects: prev.collects + 1, photos: prev.photos + getDamagePhotos(c).length });
   }
   for (const t of transportsWithDamage) {
     const ch = t.vehicleChassi || "";
     if (!ch) continue;
-    const prev = chassisMap.get(ch) || { collects: 0, transports: 0, photos: 0 };
+    const prev = chassisMap.get(ch) || { collects: 0, transports: 0, photos: 0, records: 0 };
     chassisMap.set(ch, { ...prev, transports: prev.transports + 1, photos: prev.photos + getDamagePhotos(t).length });
   }
+  for (const r of damageRecords || []) {
+    const prev = chassisMap.get(r.vehicleChassi) || { collects: 0, transports: 0, photos: 0, records: 0 };
+    chassisMap.set(r.vehicleChassi, { ...prev, records: prev.records + 1 });
+  }
   const chassisList = Array.from(chassisMap.entries())
     .map(([chassi, counts]) => ({ chassi, ...counts }))
-    .sort((a, b) => b.photos - a.photos);
+    .sort((a, b) => b.photos + b.records - (a.photos + a.records));
 
   const filteredChassisList = chassisList.filter((item) => {
     if (!chassiSearch.trim()) return true;
@@ -639,8 +655,19 @@ export default function DamageReportPage() {
                   <p className="text-sm">
                     {chassiSearch.trim()
                       ? "Nenhum chassi encontrado para a busca"
-                      : "Nenhum chassi possui fotos de avaria"}
+                      : "Nenhum chassi possui avarias registradas"}
                   </p>
+                  {chassiSearch.trim() && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-3"
+                      onClick={() => { setSelectedChassi(chassiSearch.trim().toUpperCase()); setExpandedRow(null); }}
+                      data-testid="button-inspect-chassi"
+                    >
+                      Registrar inspeção para {chassiSearch.trim().toUpperCase()}
+                    </Button>
+                  )}
                 </div>
               ) : (
                 <div className="overflow-y-auto max-h-[calc(100vh-260px)] space-y-1 pr-1">
@@ -668,9 +695,16 @@ export default function DamageReportPage() {
                             {item.transports}
                           </Badge>
                         )}
-                        <Badge variant="destructive" className="text-xs">
-                          {item.photos} foto{item.photos !== 1 ? "s" : ""}
-                        </Badge>
+                        {item.records > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            {item.records} registro{item.records !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
+                        {item.photos > 0 && (
+                          <Badge variant="destructive" className="text-xs">
+                            {item.photos} foto{item.photos !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
                       </div>
                     </button>
                   ))}
@@ -740,6 +774,41 @@ export default function DamageReportPage() {
               </Card>
             </div>
 
+            {/* ── Check-ins/check-outs outside the location geofence ── */}
+            {geofenceExceptions.length > 0 && (
+              <Card className="border-red-500/30" data-testid="card-geofence-exceptions">
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <MapPinOff className="h-4 w-4 text-red-600" />
+                    <span className="font-medium text-sm">Inspeções fora do raio</span>
+                    <Badge variant="secondary" className="text-xs bg-red-500/20 text-red-700">{geofenceExceptions.length}</Badge>
+                  </div>
+                  <ul className="space-y-1 text-sm">
+                    {geofenceExceptions.map((exception) => (
+                      <li key={exception.id} className="flex flex-wrap items-center gap-2" data-testid={`geofence-exception-${exception.id}`}>
+                        <Badge variant="outline" className="text-xs">
+                          {exception.subjectType === "collect" ? "Coleta" : "Transporte"}
+                        </Badge>
+                        <span>{describeGeofenceException(exception)}</span>
+                        {exception.createdAt && (
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(exception.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* ── Structured inspections ── */}
+            <DamageInspectionPanel
+              chassi={selectedChassi}
+              collects={(collects || []).filter((c) => c.vehicleChassi === selectedChassi)}
+              transports={(transports || []).filter((t) => t.vehicleChassi === selectedChassi)}
+            />
+
             {/* ── Tabs ── */}
             <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "all" | "collects" | "transports")}>
               <TabsList>
@@ -1,10 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useLocation } from "wouter";
 import { PageHeader } from "@/components/page-header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
   Select,
@@ -17,8 +15,8 @@ import { StatusBadge } from "@/components/status-badge";
 import { DataTable } from "@/components/data-table";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Bell, Check, Loader2, User } from "lucide-react";
-import type { Yard, DeliveryLocation, Driver, DriverNotification, Client } from "@shared/schema";
+import { Bell, Check, Loader2, User, X } from "lucide-react";
+import type { Yard, DeliveryLocation, Driver, DriverNotification, Transport } from "@shared/schema";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -28,75 +26,94 @@ interface NotificationWithRelations extends DriverNotification {
   driver?: Driver;
 }
 
+interface TransportWithRelations extends Transport {
+  client?: { name: string };
+  deliveryLocation?: { name: string; city: string; state: string };
+}
+
+interface DispatchCandidate {
+  driver: Driver;
+  distanceKm: number | null;
+  rating: number | null;
+  score: number;
+}
+
+function formatDistance(distanceKm: string | number | null | undefined) {
+  if (distanceKm === null || distanceKm === undefined) return "Sem localização";
+  return `${Number(distanceKm).toFixed(1)} km`;
+}
+
 export default function DriverLocationPage() {
-  const [, navigate] = useLocation();
   const { toast } = useToast();
-  
-  const [selectedYardId, setSelectedYardId] = useState("");
-  const [selectedClientId, setSelectedClientId] = useState("");
-  const [selectedLocationId, setSelectedLocationId] = useState("");
-  const [departureDate, setDepartureDate] = useState("");
-  const [notificationsSent, setNotificationsSent] = useState(false);
-  const [selectedDriverId, setSelectedDriverId] = useState<string | null>(null);
+
+  const [selectedTransportId, setSelectedTransportId] = useState("");
 
   const { data: yards } = useQuery<Yard[]>({ queryKey: ["/api/yards"] });
-  const { data: clients } = useQuery<Client[]>({ queryKey: ["/api/clients"] });
-  const { data: drivers } = useQuery<Driver[]>({ queryKey: ["/api/drivers"] });
+  const { data: deliveryLocations } = useQuery<DeliveryLocation[]>({ queryKey: ["/api/delivery-locations"] });
+  const { data: transports } = useQuery<TransportWithRelations[]>({ queryKey: ["/api/transports"] });
 
-  const { data: deliveryLocations } = useQuery<DeliveryLocation[]>({
-    queryKey: ["/api/clients", selectedClientId, "locations"],
-    enabled: !!selectedClientId,
-  });
+  const openTransports = transports?.filter((t) => t.status === "pendente" && !t.driverId) || [];
+  const selectedTransport = transports?.find((t) => t.id === selectedTransportId);
+  const originYard = yards?.find((y) => y.id === selectedTransport?.originYardId);
+  const deliveryLocation = deliveryLocations?.find((l) => l.id === selectedTransport?.deliveryLocationId);
 
   const { data: notifications, isLoading: notificationsLoading, refetch: refetchNotifications } = useQuery<NotificationWithRelations[]>({
-    queryKey: ["/api/driver-notifications", selectedYardId, selectedLocationId, departureDate],
-    enabled: notificationsSent && !!selectedYardId && !!selectedLocationId && !!departureDate,
+    queryKey: [`/api/driver-notifications?transportId=${selectedTransportId}`],
+    enabled: !!selectedTransportId,
   });
 
+  const { data: candidates, isLoading: candidatesLoading, refetch: refetchCandidates } = useQuery<DispatchCandidate[]>({
+    queryKey: ["/api/dispatch/transports", selectedTransportId, "candidates"],
+    enabled: !!selectedTransportId,
+  });
+
+  const refreshDispatch = () => {
+    refetchNotifications();
+    refetchCandidates();
+  };
+
   const notifyMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("POST", "/api/driver-notifications/notify", {
-        yardId: selectedYardId,
-        deliveryLocationId: selectedLocationId,
-        departureDate,
+      const res = await apiRequest("POST", "/api/driver-notifications/notify", {
+        transportId: selectedTransportId,
       });
+      return res.json() as Promise<DriverNotification[]>;
     },
-    onSuccess: () => {
-      toast({ title: "Notificações enviadas para os motoristas" });
-      setNotificationsSent(true);
-      refetchNotifications();
+    onSuccess: (offers) => {
+      if (offers.length === 0) {
+        toast({ title: "Nenhum motorista elegível disponível", variant: "destructive" });
+      } else {
+        toast({ title: `Oferta enviada para ${offers.length} motorista(s)` });
+      }
+      refreshDispatch();
     },
-    onError: () => {
-      toast({ title: "Erro ao enviar notificações", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Erro ao enviar ofertas", description: error.message, variant: "destructive" });
     },
   });
 
-  const acceptMutation = useMutation({
-    mutationFn: async (notificationId: string) => {
-      return apiRequest("POST", `/api/driver-notifications/${notificationId}/accept`);
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, response }: { id: string; response: "accept" | "decline" }) => {
+      return apiRequest("POST", `/api/driver-notifications/${id}/${response}`);
     },
-    onSuccess: () => {
-      toast({ title: "Aceite registrado com sucesso" });
-      refetchNotifications();
+    onSuccess: (_data, { response }) => {
+      toast({
+        title: response === "accept"
+          ? "Aceite registrado. Motorista atribuído ao transporte"
+          : "Recusa registrada",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
+      refreshDispatch();
     },
-    onError: () => {
-      toast({ title: "Erro ao registrar aceite", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar resposta", description: error.message, variant: "destructive" });
+      refreshDispatch();
     },
   });
 
-  const canNotify = selectedYardId && selectedLocationId && departureDate;
-  const acceptedDrivers = notifications?.filter((n) => n.status === "aceito") || [];
-  const activeDrivers = drivers?.filter((d) => d.isActive === "true") || [];
-
-  const handleSelectDriver = (driverId: string) => {
-    setSelectedDriverId(driverId);
-  };
-
-  const handleCreateTransport = () => {
-    if (selectedDriverId) {
-      navigate(`/transportes/novo?driverId=${selectedDriverId}`);
-    }
-  };
+  const hasPendingOffers = notifications?.some((n) => n.status === "pendente") ?? false;
+  const acceptedOffer = notifications?.find((n) => n.status === "aceito");
+  const currentWave = notifications?.reduce((max, n) => Math.max(max, n.wave), 0) ?? 0;
 
   const notificationColumns = [
     {
@@ -114,53 +131,95 @@ export default function DriverLocationPage() {
         </div>
       ),
     },
+    {
+      key: "wave",
+      label: "Onda",
+      render: (n: NotificationWithRelations) => (
+        <span className="text-sm">{n.wave}ª · #{n.rank ?? "-"}</span>
+      ),
+    },
+    {
+      key: "distanceKm",
+      label: "Distância",
+      render: (n: NotificationWithRelations) => formatDistance(n.distanceKm),
+    },
     {
       key: "status",
       label: "Status",
       render: (n: NotificationWithRelations) => <StatusBadge status={n.status} />,
     },
     {
-      key: "respondedAt",
-      label: "Respondido em",
-      render: (n: NotificationWithRelations) =>
-        n.respondedAt ? format(new Date(n.respondedAt), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "-",
+      key: "expiresAt",
+      label: "Expira / Respondido",
+      render: (n: NotificationWithRelations) => {
+        const date = n.status === "pendente" ? n.expiresAt : n.respondedAt;
+        return date ? format(new Date(date), "dd/MM HH:mm", { locale: ptBR }) : "-";
+      },
     },
     {
       key: "actions",
       label: "",
-      className: "w-32",
+      className: "w-48",
       render: (n: NotificationWithRelations) => {
-        if (n.status === "pendente") {
-          return (
+        if (n.status !== "pendente") return null;
+        return (
+          <div className="flex gap-1">
             <Button
               size="sm"
               variant="outline"
-              onClick={() => acceptMutation.mutate(n.id)}
-              disabled={acceptMutation.isPending}
+              onClick={() => respondMutation.mutate({ id: n.id, response: "accept" })}
+              disabled={respondMutation.isPending}
               data-testid={`button-accept-${n.id}`}
             >
               <Check className="mr-1 h-4 w-4" />
-              Simular Aceite
+              Aceite
             </Button>
-          );
-        }
-        if (n.status === "aceito") {
-          return (
             <Button
               size="sm"
-              variant={selectedDriverId === n.driverId ? "default" : "outline"}
-              onClick={() => handleSelectDriver(n.driverId)}
-              data-testid={`button-select-${n.id}`}
+              variant="outline"
+              onClick={() => respondMutation.mutate({ id: n.id, response: "decline" })}
+              disabled={respondMutation.isPending}
+              data-testid={`button-decline-${n.id}`}
             >
-              {selectedDriverId === n.driverId ? "Selecionado" : "Selecionar"}
+              <X className="mr-1 h-4 w-4" />
+              Recusa
             </Button>
-          );
-        }
-        return null;
+          </div>
+        );
       },
     },
   ];
 
+  const candidateColumns = [
+    {
+      key: "driver",
+      label: "Motorista",
+      render: (c: DispatchCandidate) => (
+        <div>
+          <p className="font-medium">{c.driver.name}</p>
+          <p className="text-xs text-muted-foreground">
+            CNH {c.driver.cnhType}{c.driver.city ? ` · ${c.driver.city}/${c.driver.state}` : ""}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: "distanceKm",
+      label: "Distância",
+      render: (c: DispatchCandidate) => formatDistance(c.distanceKm),
+    },
+    {
+      key: "rating",
+      label: "Avaliação",
+      render: (c: DispatchCandidate) => (c.rating === null ? "Sem avaliações" : c.rating.toFixed(1)),
+    },
+    {
+      key: "score",
+      label: "Pontuação",
+      render: (c: DispatchCandidate) => <Badge variant="secondary">{c.score.toFixed(1)}</Badge>,
+    },
+  ];
+
   return (
     <div className="flex flex-col">
       <PageHeader
@@ -174,84 +233,49 @@ export default function DriverLocationPage() {
         <div className="grid gap-6 lg:grid-cols-2">
           <Card>
             <CardHeader>
-              <CardTitle>Critérios de Busca</CardTitle>
+              <CardTitle>Transporte</CardTitle>
               <CardDescription>
-                Selecione o pátio, local de entrega e data de saída para notificar os motoristas disponíveis.
+                Selecione um transporte pendente sem motorista. A oferta é enviada em ondas para os motoristas
+                disponíveis mais próximos do pátio de origem, com CNH compatível e melhor avaliação.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label>Pátio de Origem</Label>
-                <Select value={selectedYardId} onValueChange={setSelectedYardId}>
-                  <SelectTrigger data-testid="select-notify-yard">
-                    <SelectValue placeholder="Selecione o pátio" />
+                <Label>Transporte</Label>
+                <Select value={selectedTransportId} onValueChange={setSelectedTransportId}>
+                  <SelectTrigger data-testid="select-dispatch-transport">
+                    <SelectValue placeholder="Selecione o transporte" />
                   </SelectTrigger>
                   <SelectContent>
-                    {yards?.filter((y) => y.isActive === "true").map((y) => (
-                      <SelectItem key={y.id} value={y.id}>
-                        {y.name}
+                    {openTransports.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.requestNumber} - {t.client?.name ?? t.vehicleChassi}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label>Cliente</Label>
-                <Select
-                  value={selectedClientId}
-                  onValueChange={(val) => {
-                    setSelectedClientId(val);
-                    setSelectedLocationId("");
-                  }}
-                >
-                  <SelectTrigger data-testid="select-notify-client">
-                    <SelectValue placeholder="Selecione o cliente" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {clients?.filter((c) => c.isActive === "true").map((c) => (
-                      <SelectItem key={c.id} value={c.id}>
-                        {c.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-2">
-                <Label>Local de Entrega</Label>
-                <Select
-                  value={selectedLocationId}
-                  onValueChange={setSelectedLocationId}
-                  disabled={!selectedClientId}
-                >
-                  <SelectTrigger data-testid="select-notify-location">
-                    <SelectValue placeholder={selectedClientId ? "Selecione o local" : "Selecione um cliente primeiro"} />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {deliveryLocations?.map((loc) => (
-                      <SelectItem key={loc.id} value={loc.id}>
-                        {loc.name} - {loc.city}/{loc.state}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-2">
-                <Label>Data de Saída</Label>
-                <Input
-                  type="date"
-                  value={departureDate}
-                  onChange={(e) => setDepartureDate(e.target.value)}
-                  data-testid="input-notify-date"
-                />
-              </div>
+              {selectedTransport && (
+                <div className="rounded-lg border bg-muted/30 p-4 text-sm space-y-1">
+                  <p><span className="text-muted-foreground">Pátio de origem:</span> {originYard?.name ?? "-"}</p>
+                  <p>
+                    <span className="text-muted-foreground">Local de entrega:</span>{" "}
+                    {deliveryLocation ? `${deliveryLocation.name} - ${deliveryLocation.city}/${deliveryLocation.state}` : "-"}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Data de entrega:</span>{" "}
+                    {selectedTransport.deliveryDate
+                      ? format(new Date(`${selectedTransport.deliveryDate}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })
+                      : "-"}
+                  </p>
+                </div>
+              )}
 
               <Button
                 className="w-full"
                 onClick={() => notifyMutation.mutate()}
-                disabled={!canNotify || notifyMutation.isPending}
+                disabled={!selectedTransportId || hasPendingOffers || !!acceptedOffer || notifyMutation.isPending}
                 data-testid="button-notify-drivers"
               >
                 {notifyMutation.isPending ? (
@@ -259,53 +283,59 @@ export default function DriverLocationPage() {
                 ) : (
                   <Bell className="mr-2 h-4 w-4" />
                 )}
-                Notificar Motoristas
+                {currentWave > 0 ? "Enviar Próxima Onda" : "Enviar Oferta"}
               </Button>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader>
-              <CardTitle>Motoristas Disponíveis</CardTitle>
+              <CardTitle>Ofertas Enviadas</CardTitle>
               <CardDescription>
-                {notificationsSent
-                  ? `${activeDrivers.length} motoristas notificados, ${acceptedDrivers.length} aceitaram`
-                  : "Envie as notificações para ver os motoristas disponíveis"}
+                {acceptedOffer
+                  ? `${acceptedOffer.driver?.name} aceitou e foi atribuído ao transporte`
+                  : currentWave > 0
+                    ? `Onda ${currentWave} ${hasPendingOffers ? "aguardando resposta" : "encerrada"}`
+                    : "Nenhuma oferta enviada para este transporte"}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {!notificationsSent ? (
+              {!selectedTransportId ? (
                 <div className="flex h-40 flex-col items-center justify-center text-center text-muted-foreground">
                   <User className="mb-2 h-10 w-10 opacity-50" />
-                  <p>Preencha os critérios e clique em "Notificar Motoristas"</p>
+                  <p>Selecione um transporte para ver as ofertas</p>
                 </div>
               ) : (
-                <>
-                  <DataTable
-                    columns={notificationColumns}
-                    data={notifications ?? []}
-                    isLoading={notificationsLoading}
-                    keyField="id"
-                    emptyMessage="Nenhuma notificação enviada"
-                  />
-                  
-                  {selectedDriverId && (
-                    <div className="mt-4 flex items-center justify-between rounded-lg border bg-muted/30 p-4">
-                      <div className="flex items-center gap-3">
-                        <Badge>Motorista Selecionado</Badge>
-                        <span className="font-medium">
-                          {notifications?.find((n) => n.driverId === selectedDriverId)?.driver?.name}
-                        </span>
-                      </div>
-                      <Button onClick={handleCreateTransport} data-testid="button-create-transport-with-driver">
-                        Criar Transporte
-                      </Button>
-                    </div>
-                  )}
-                </>
+                <DataTable
+                  columns={notificationColumns}
+                  data={notifications ?? []}
+                  isLoading={notificationsLoading}
+                  keyField="id"
+                  emptyMessage="Nenhuma oferta enviada"
+                />
               )}
             </CardContent>
           </Card>
+
+          {selectedTransportId && !acceptedOffer && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Próximos Motoristas</CardTitle>
+                <CardDescription>
+                  Ranking dos motoristas elegíveis que ainda não receberam esta oferta
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DataTable
+                  columns={candidateColumns}
+                  data={(candidates ?? []).slice(0, 10).map((c) => ({ ...c, id: c.driver.id }))}
+                  isLoading={candidatesLoading}
+                  keyField="id"
+                  emptyMessage="Nenhum motorista elegível disponível"
+                />
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -52,6 +52,7 @@ import {
   Activity,
   Printer,
   ClipboardList,
+  Wallet,
   Smartphone,
 } from "lucide-react";
 import type { Driver, Yard, DeliveryLocation } from "@shared/schema";
@@ -431,6 +432,12 @@ export default function DriverProfilePage() {
                   <ClipboardList className="h-4 w-4 mr-2" />
                   Dados Cadastrais
                 </Button>
+                <Link href={`/motoristas/${id}/extrato`}>
+                  <Button variant="outline" size="sm" data-testid="button-driver-statement">
+                    <Wallet className="h-4 w-4 mr-2" />
+                    Extrato Financeiro
+                  </Button>
+                </Link>
                 <Link href={`/motoristas/${id}`}>
                   <Button size="sm" data-testid="button-edit-profile">
                     <Pencil className="h-4 w-4 mr-2" />
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PageHeader } from "@/components/page-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ArrowDownCircle, ArrowUpCircle, Loader2, Plus, Trash2, Wallet } from "lucide-react";
+import {
+  driverLedgerEntryTypes,
+  type Driver,
+  type DriverLedgerEntry,
+  type DriverLedgerEntryType,
+} from "@shared/schema";
+
+// Response of GET /api/drivers/:id/ledger
+interface DriverStatement {
+  driverId: string;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  entries: (DriverLedgerEntry & { balance: number })[];
+  closingBalance: number;
+}
+
+const entryTypeLabels: Record<DriverLedgerEntryType, string> = {
+  adiantamento: "Adiantamento",
+  despesa_aprovada: "Despesas aprovadas",
+  desconto: "Desconto de avaria",
+  pagamento_contrato: "Pagamento de contrato",
+  reembolso: "Pagamento ao motorista",
+  devolucao: "Devolução do motorista",
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// Positive balances are owed to the driver, negative ones must be returned by the driver
+function balanceLabel(value: number) {
+  if (value >= 0.01) return "a receber";
+  if (value <= -0.01) return "a devolver";
+  return "quitado";
+}
+
+function balanceColor(value: number) {
+  if (value >= 0.01) return "text-green-600";
+  if (value <= -0.01) return "text-red-600";
+  return "text-muted-foreground";
+}
+
+function firstDayOfMonth() {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toLocaleDateString("en-CA");
+}
+
+export default function DriverStatementPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [from, setFrom] = useState(firstDayOfMonth);
+  const [to, setTo] = useState(() => new Date().toLocaleDateString("en-CA"));
+  const [showNewEntry, setShowNewEntry] = useState(false);
+  const [entryType, setEntryType] = useState<DriverLedgerEntryType>("adiantamento");
+  const [amount, setAmount] = useState("");
+  const [occurredAt, setOccurredAt] = useState("");
+  const [description, setDescription] = useState("");
+
+  const { data: driver } = useQuery<Driver>({
+    queryKey: ["/api/drivers", id],
+  });
+
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const { data: statement, isLoading } = useQuery<DriverStatement>({
+    queryKey: [`/api/drivers/${id}/ledger?${params.toString()}`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith(`/api/drivers/${id}/ledger`),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/driver-ledger/balances"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("POST", `/api/drivers/${id}/ledger`, {
+        entryType,
+        amount,
+        occurredAt: occurredAt || undefined,
+        description: description || undefined,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setShowNewEntry(false);
+      setAmount("");
+      setOccurredAt("");
+      setDescription("");
+      toast({ title: "Lançamento registrado" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao registrar lançamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entryId: string) => apiRequest("DELETE", `/api/driver-ledger/${entryId}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Lançamento excluído" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao excluir lançamento", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const entries = statement?.entries ?? [];
+  const credits = entries.reduce((sum, e) => sum + Math.max(parseFloat(e.amount), 0), 0);
+  const debits = entries.reduce((sum, e) => sum + Math.min(parseFloat(e.amount), 0), 0);
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader
+        title="Extrato do Motorista"
+        breadcrumbs={[
+          { label: "Motoristas", href: "/motoristas" },
+          { label: driver?.name ?? "Motorista", href: `/motoristas/${id}/perfil` },
+          { label: "Extrato" },
+        ]}
+        actions={
+          <Button size="sm" onClick={() => setShowNewEntry(true)} data-testid="button-new-ledger-entry">
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Lançamento
+          </Button>
+        }
+      />
+
+      <div className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">De</Label>
+            <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-statement-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">Até</Label>
+            <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-statement-to" />
+          </div>
+        </div>
+
+        {isLoading || !statement ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {[1, 2, 3, 4].map((i) => <Skeleton key={i} className="h-24 rounded-xl" />)}
+            </div>
+            <Skeleton className="h-72 rounded-xl" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-xs text-muted-foreground">Saldo inicial</p>
+                  <p className={`text-xl font-bold ${balanceColor(statement.openingBalance)}`} data-testid="text-opening-balance">
+                    {formatCurrency(statement.openingBalance)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{balanceLabel(statement.openingBalance)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <ArrowUpCircle className="h-3 w-3 text-green-600" />
+                    Créditos
+                  </p>
+                  <p className="text-xl font-bold text-green-600" data-testid="text-credits">{formatCurrency(credits)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <ArrowDownCircle className="h-3 w-3 text-red-600" />
+                    Débitos
+                  </p>
+                  <p className="text-xl font-bold text-red-600" data-testid="text-debits">{formatCurrency(Math.abs(debits))}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-xs text-muted-foreground">Saldo final</p>
+                  <p className={`text-xl font-bold ${balanceColor(statement.closingBalance)}`} data-testid="text-closing-balance">
+                    {formatCurrency(statement.closingBalance)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{balanceLabel(statement.closingBalance)}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Wallet className="h-4 w-4 text-primary" />
+                  Lançamentos ({entries.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {entries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-12">Nenhum lançamento no período</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b bg-muted/30">
+                          <th className="text-left px-4 py-3 font-medium text-muted-foreground text-xs">Data</th>
+                          <th className="text-left px-4 py-3 font-medium text-muted-foreground text-xs">Tipo</th>
+                          <th className="text-left px-4 py-3 font-medium text-muted-foreground text-xs hidden md:table-cell">Descrição</th>
+                          <th className="text-right px-4 py-3 font-medium text-muted-foreground text-xs">Valor</th>
+                          <th className="text-right px-4 py-3 font-medium text-muted-foreground text-xs">Saldo</th>
+                          <th className="px-4 py-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {entries.map((entry) => {
+                          const value = parseFloat(entry.amount);
+                          const manual = !entry.sourceKey && !entry.paymentBatchId;
+                          return (
+                            <tr key={entry.id} className="hover:bg-muted/20 transition-colors" data-testid={`row-ledger-entry-${entry.id}`}>
+                              <td className="px-4 py-3 text-xs text-muted-foreground whitespace-nowrap">{formatDateTime(entry.occurredAt)}</td>
+                              <td className="px-4 py-3 text-xs">
+                                <div className="flex items-center gap-2">
+                                  {entryTypeLabels[entry.entryType as DriverLedgerEntryType] ?? entry.entryType}
+                                  {manual && <Badge variant="outline" className="text-xs">Manual</Badge>}
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-xs text-muted-foreground hidden md:table-cell">{entry.description || "—"}</td>
+                              <td className={`px-4 py-3 text-xs text-right font-medium whitespace-nowrap ${balanceColor(value)}`}>
+                                {formatCurrency(value)}
+                              </td>
+                              <td className="px-4 py-3 text-xs text-right whitespace-nowrap">{formatCurrency(entry.balance)}</td>
+                              <td className="px-4 py-3 text-right">
+                                {manual && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-7 w-7"
+                                    onClick={() => deleteMutation.mutate(entry.id)}
+                                    disabled={deleteMutation.isPending}
+                                    data-testid={`button-delete-ledger-entry-${entry.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Dialog open={showNewEntry} onOpenChange={setShowNewEntry}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo Lançamento</DialogTitle>
+            <DialogDescription>
+              O sinal é definido pelo tipo: adiantamentos, descontos e pagamentos reduzem o saldo do motorista.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Tipo</Label>
+              <Select value={entryType} onValueChange={(value) => setEntryType(value as DriverLedgerEntryType)}>
+                <SelectTrigger data-testid="select-ledger-entry-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {driverLedgerEntryTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{entryTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="ledger-amount">Valor (R$)</Label>
+                <Input
+                  id="ledger-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  data-testid="input-ledger-amount"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ledger-date">Data</Label>
+                <Input
+                  id="ledger-date"
+                  type="datetime-local"
+                  value={occurredAt}
+                  onChange={(e) => setOccurredAt(e.target.value)}
+                  data-testid="input-ledger-date"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ledger-description">Descrição</Label>
+              <Input
+                id="ledger-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-ledger-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewEntry(false)}>Cancelar</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !amount || parseFloat(amount) <= 0}
+              data-testid="button-save-ledger-entry"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { foreignExpenseCurrencies, type ExchangeRate, type ForeignExpenseCurrency } from "@shared/schema";
+
+interface ExchangeRatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const currencyLabels: Record<ForeignExpenseCurrency, string> = {
+  ARS: "Peso Argentino",
+  CLP: "Peso Chileno",
+  PEN: "Sol Peruano",
+  UYU: "Peso Uruguaio",
+};
+
+const formatDate = (value: string) => new Date(`${value}T12:00:00`).toLocaleDateString("pt-BR");
+
+export function ExchangeRatesDialog({ open, onOpenChange }: ExchangeRatesDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [currency, setCurrency] = useState<ForeignExpenseCurrency>("ARS");
+  const [rateDate, setRateDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [rate, setRate] = useState("");
+
+  const { data: rates, isLoading } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+    enabled: open,
+  });
+
+  // Rates feed the BRL amounts of the open settlements, which the server re-converts on every change
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/exchange-rates", { currency, rateDate, rate }),
+    onSuccess: () => {
+      invalidate();
+      setRate("");
+      toast({ title: "Cotação salva. Prestações em análise foram reconvertidas." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar cotação", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const res = await apiRequest("POST", "/api/exchange-rates/import", { csv });
+      return res.json() as Promise<{ imported: number; skipped: number }>;
+    },
+    onSuccess: ({ imported, skipped }) => {
+      invalidate();
+      toast({
+        title: `${imported} cotação(ões) importada(s)`,
+        description: skipped > 0 ? `${skipped} linha(s) de outras moedas ignorada(s)` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao importar arquivo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/exchange-rates/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Cotação removida" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover cotação", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    importMutation.mutate(await file.text());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cotações de Câmbio</DialogTitle>
+          <DialogDescription>
+            Valor em reais de cada unidade da moeda. Comprovantes em moeda estrangeira usam a cotação da data da despesa
+            (ou a última anterior a ela).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_150px_140px_40px] gap-2 items-end">
+          <Select value={currency} onValueChange={(value) => setCurrency(value as ForeignExpenseCurrency)}>
+            <SelectTrigger data-testid="select-exchange-rate-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {foreignExpenseCurrencies.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code} - {currencyLabels[code]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={rateDate}
+            onChange={(e) => setRateDate(e.target.value)}
+            data-testid="input-exchange-rate-date"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.00000001"
+            placeholder="R$ por unidade"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            data-testid="input-exchange-rate-value"
+          />
+          <Button
+            size="icon"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !rate || !rateDate}
+            data-testid="button-save-exchange-rate"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+          <p className="text-xs text-muted-foreground">
+            Importe o arquivo de fechamento PTAX do Banco Central ou uma planilha CSV com as colunas data;moeda;cotacao
+          </p>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleFileChange} />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-exchange-rates"
+          >
+            {importMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Importar CSV
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !rates || rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhuma cotação cadastrada</p>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-[80px_1fr_1fr_80px_40px] gap-2 text-xs font-medium text-muted-foreground px-1">
+              <span>Moeda</span>
+              <span>Data</span>
+              <span>Cotação (R$)</span>
+              <span>Origem</span>
+              <span />
+            </div>
+            {rates.map((exchangeRate) => (
+              <div
+                key={exchangeRate.id}
+                className="grid grid-cols-[80px_1fr_1fr_80px_40px] gap-2 items-center text-sm px-1"
+                data-testid={`row-exchange-rate-${exchangeRate.id}`}
+              >
+                <span className="font-medium">{exchangeRate.currency}</span>
+                <span>{formatDate(exchangeRate.rateDate)}</span>
+                <span>{parseFloat(exchangeRate.rate).toLocaleString("pt-BR", { maximumFractionDigits: 8 })}</span>
+                <Badge variant="outline" className="text-xs w-fit">
+                  {exchangeRate.source === "csv" ? "CSV" : "Manual"}
+                </Badge>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(exchangeRate.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-exchange-rate-${exchangeRate.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Loader2, Save } from "lucide-react";
+import { expenseTypeEnum, type ExpensePolicy, type ExpenseType } from "@shared/schema";
+
+interface ExpensePoliciesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  labels: Record<string, { label: string }>;
+}
+
+interface PolicyDraft {
+  tolerancePercent: string;
+  dailyLimit: string;
+  itemLimit: string;
+}
+
+const emptyDraft: PolicyDraft = { tolerancePercent: "10", dailyLimit: "", itemLimit: "" };
+
+// Fuel and tolls are checked against the route estimates; the daily limit only applies to the other categories
+const routeEstimatedTypes: ExpenseType[] = ["combustivel", "pedagio"];
+
+export function ExpensePoliciesDialog({ open, onOpenChange, labels }: ExpensePoliciesDialogProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, PolicyDraft>>({});
+
+  const { data: policies, isLoading } = useQuery<ExpensePolicy[]>({
+    queryKey: ["/api/expense-policies"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!policies) return;
+    setDrafts(Object.fromEntries(expenseTypeEnum.enumValues.map((type) => {
+      const policy = policies.find((p) => p.expenseType === type);
+      return [type, policy
+        ? { tolerancePercent: policy.tolerancePercent, dailyLimit: policy.dailyLimit || "", itemLimit: policy.itemLimit || "" }
+        : emptyDraft];
+    })));
+  }, [policies]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ type, draft }: { type: ExpenseType; draft: PolicyDraft }) => {
+      return apiRequest("PUT", `/api/expense-policies/${type}`, {
+        tolerancePercent: draft.tolerancePercent,
+        dailyLimit: draft.dailyLimit || null,
+        itemLimit: draft.itemLimit || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expense-policies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements"] });
+      toast({ title: "Política salva. Prestações em análise foram reavaliadas." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar política", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateDraft = (type: string, field: keyof PolicyDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [type]: { ...(prev[type] || emptyDraft), [field]: value } }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Políticas de Despesa</DialogTitle>
+          <DialogDescription>
+            Tolerância sobre o previsto e limites usados para sinalizar comprovantes na conciliação
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_110px_130px_130px_40px] gap-2 text-xs font-medium text-muted-foreground px-1">
+              <span>Categoria</span>
+              <span>Tolerância (%)</span>
+              <span>Limite diário (R$)</span>
+              <span>Limite/comprov. (R$)</span>
+              <span />
+            </div>
+            {expenseTypeEnum.enumValues.map((type) => {
+              const draft = drafts[type] || emptyDraft;
+              return (
+                <div key={type} className="grid grid-cols-[1fr_110px_130px_130px_40px] gap-2 items-center" data-testid={`row-policy-${type}`}>
+                  <span className="text-sm">{labels[type]?.label || type}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.tolerancePercent}
+                    onChange={(e) => updateDraft(type, "tolerancePercent", e.target.value)}
+                    data-testid={`input-policy-tolerance-${type}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.dailyLimit}
+                    onChange={(e) => updateDraft(type, "dailyLimit", e.target.value)}
+                    disabled={routeEstimatedTypes.includes(type)}
+                    placeholder={routeEstimatedTypes.includes(type) ? "Rota" : "-"}
+                    data-testid={`input-policy-daily-${type}`}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.itemLimit}
+                    onChange={(e) => updateDraft(type, "itemLimit", e.target.value)}
+                    placeholder="-"
+                    data-testid={`input-policy-item-${type}`}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => saveMutation.mutate({ type, draft })}
+                    disabled={saveMutation.isPending || !draft.tolerancePercent}
+                    data-testid={`button-save-policy-${type}`}
+                  >
+                    <Save className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { normalizeImageUrl } from "@/lib/utils";
@@ -35,7 +36,12 @@ import {
   Wrench,
   Car,
   Building,
-  ImageOff
+  ImageOff,
+  Scale,
+  Settings2,
+  Coins,
+  ScanText,
+  Wallet
 } from "lucide-react";
 import type { 
   ExpenseSettlement, 
@@ -44,8 +50,14 @@ import type {
   Driver, 
   Client, 
   DeliveryLocation, 
-  Yard 
+  Yard,
+  TruckModel
 } from "@shared/schema";
+import { expenseItemAmountBrl } from "@shared/schema";
+import { ExpensePoliciesDialog } from "./expense-policies-dialog";
+import { ExchangeRatesDialog } from "./exchange-rates-dialog";
+import { PaymentBatchesDialog } from "./payment-batches-dialog";
+import { ReceiptExtractionPanel, type ReceiptExtractionView } from "./receipt-extraction-panel";
 
 interface ExpenseSettlementWithRelations extends ExpenseSettlement {
   transport?: Transport & {
@@ -57,6 +69,29 @@ interface ExpenseSettlementWithRelations extends ExpenseSettlement {
   items?: ExpenseSettlementItem[];
 }
 
+// Response of GET /api/expense-settlements/:id/reconciliation
+interface SettlementReconciliation {
+  distanceKm: number | null;
+  tripDays: number | null;
+  truckModel: TruckModel | null;
+  categories: {
+    type: string;
+    actualAmount: number;
+    expectedAmount: number | null;
+    actualLiters: number | null;
+    expectedLiters: number | null;
+    basis: string;
+    deviationPercent: number | null;
+    tolerancePercent: number;
+    flagged: boolean;
+  }[];
+  items: { itemId: string; deviationPercent: number | null; flag: string | null }[];
+  flaggedItems: number;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value > 0 ? "+" : ""}${value.toLocaleString("pt-BR", { maximumFractionDigits: 1 })}%`;
+
 const expenseTypeLabels: Record<string, { label: string; icon: any }> = {
   pedagio: { label: "Pedágio", icon: Receipt },
   combustivel: { label: "Combustível", icon: Fuel },
@@ -86,11 +121,57 @@ export default function FinanceiroPage() {
   const [returnReason, setReturnReason] = useState("");
   const [lightboxPhoto, setLightboxPhoto] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<"pending" | "all">("pending");
+  const [showPolicies, setShowPolicies] = useState(false);
+  const [showExchangeRates, setShowExchangeRates] = useState(false);
+  const [showPaymentBatches, setShowPaymentBatches] = useState(false);
 
   const { data: settlements, isLoading } = useQuery<ExpenseSettlementWithRelations[]>({
     queryKey: ["/api/expense-settlements"],
   });
 
+  const { data: reconciliation } = useQuery<SettlementReconciliation>({
+    queryKey: ["/api/expense-settlements", selectedSettlement?.id, "reconciliation"],
+    enabled: !!selectedSettlement && showDetails,
+  });
+
+  // Polls while receipts of the open settlement are still being read
+  const { data: receiptExtractions } = useQuery<ReceiptExtractionView[]>({
+    queryKey: ["/api/expense-settlements", selectedSettlement?.id, "receipt-extractions"],
+    enabled: !!selectedSettlement && showDetails,
+    refetchInterval: (query) =>
+      query.state.data?.some((e) => e.status === "pendente" || e.status === "processando") ? 5000 : false,
+  });
+
+  const rereadReceiptsMutation = useMutation({
+    mutationFn: async (settlementId: string) => {
+      return apiRequest("POST", `/api/expense-settlements/${settlementId}/receipt-extractions`);
+    },
+    onSuccess: (_, settlementId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements", settlementId, "receipt-extractions"] });
+      toast({ title: "Leitura dos comprovantes iniciada" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao iniciar leitura dos comprovantes", variant: "destructive" });
+    },
+  });
+
+  const { data: truckModels } = useQuery<TruckModel[]>({
+    queryKey: ["/api/truck-models"],
+  });
+
+  const truckModelMutation = useMutation({
+    mutationFn: async ({ settlementId, truckModelId }: { settlementId: string; truckModelId: string }) => {
+      return apiRequest("PATCH", `/api/expense-settlements/${settlementId}`, { truckModelId });
+    },
+    onSuccess: (_, { truckModelId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements"] });
+      setSelectedSettlement((prev) => prev ? { ...prev, truckModelId } : prev);
+    },
+    onError: () => {
+      toast({ title: "Erro ao definir modelo do caminhão", variant: "destructive" });
+    },
+  });
+
   const approveMutation = useMutation({
     mutationFn: async (settlementId: string) => {
       return apiRequest("POST", `/api/expense-settlements/${settlementId}/approve`);
@@ -197,6 +278,18 @@ export default function FinanceiroPage() {
               <Clock className="h-3 w-3" />
               {pendingSettlements.length} aguardando
             </Badge>
+            <Button variant="outline" size="sm" onClick={() => setShowPolicies(true)} data-testid="button-expense-policies">
+              <Settings2 className="h-4 w-4 mr-2" />
+              Políticas
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowExchangeRates(true)} data-testid="button-exchange-rates">
+              <Coins className="h-4 w-4 mr-2" />
+              Câmbio
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowPaymentBatches(true)} data-testid="button-payment-batches">
+              <Wallet className="h-4 w-4 mr-2" />
+              Pagamentos
+            </Button>
           </div>
         </div>
 
@@ -284,6 +377,12 @@ export default function FinanceiroPage() {
                                   {formatCurrency(settlement.totalExpenses)}
                                 </span>
                               </div>
+                              {settlement.items?.some(i => i.policyFlag) && (
+                                <Badge variant="destructive" className="gap-1" data-testid={`badge-flagged-${settlement.id}`}>
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {settlement.items.filter(i => i.policyFlag).length} fora da política
+                                </Badge>
+                              )}
                               {settlement.submittedAt && (
                                 <span className="text-xs text-muted-foreground">
                                   Enviado em {format(new Date(settlement.submittedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
@@ -423,11 +522,102 @@ export default function FinanceiroPage() {
               </Card>
 
               <Card>
-                <CardHeader className="py-3">
+                <CardHeader className="py-3 flex flex-row items-center justify-between gap-4 space-y-0">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <Scale className="h-4 w-4" />
+                    Conciliação por Categoria
+                    {reconciliation?.tripDays && (
+                      <span className="font-normal text-muted-foreground">
+                        · {reconciliation.tripDays} dia(s) de viagem
+                      </span>
+                    )}
+                  </CardTitle>
+                  <Select
+                    value={selectedSettlement.truckModelId || ""}
+                    onValueChange={(truckModelId) => truckModelMutation.mutate({ settlementId: selectedSettlement.id, truckModelId })}
+                    disabled={truckModelMutation.isPending}
+                  >
+                    <SelectTrigger className="w-64" data-testid="select-settlement-truck-model">
+                      <SelectValue placeholder="Modelo do caminhão (consumo)" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {truckModels?.filter(m => m.isActive === "true").map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.brand} {model.model} · {model.averageConsumption} km/l
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  {!reconciliation ? (
+                    <Skeleton className="h-24 w-full" />
+                  ) : reconciliation.categories.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">Nenhuma despesa para conciliar</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-xs text-muted-foreground">
+                            <th className="py-2 pr-3 font-medium">Categoria</th>
+                            <th className="py-2 pr-3 font-medium">Previsto</th>
+                            <th className="py-2 pr-3 font-medium">Realizado</th>
+                            <th className="py-2 pr-3 font-medium">Desvio</th>
+                            <th className="py-2 font-medium">Base</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {reconciliation.categories.map((category) => {
+                            const typeConfig = expenseTypeLabels[category.type] || expenseTypeLabels.outros;
+                            const byLiters = category.actualLiters !== null && category.expectedLiters !== null;
+                            return (
+                              <tr key={category.type} className="border-b last:border-0" data-testid={`row-reconciliation-${category.type}`}>
+                                <td className="py-2 pr-3 font-medium">{typeConfig.label}</td>
+                                <td className="py-2 pr-3">
+                                  {byLiters
+                                    ? `${category.expectedLiters!.toLocaleString("pt-BR", { maximumFractionDigits: 0 })} L`
+                                    : category.expectedAmount !== null ? formatCurrency(String(category.expectedAmount)) : "-"}
+                                </td>
+                                <td className="py-2 pr-3">
+                                  {byLiters
+                                    ? `${category.actualLiters!.toLocaleString("pt-BR", { maximumFractionDigits: 0 })} L · ${formatCurrency(String(category.actualAmount))}`
+                                    : formatCurrency(String(category.actualAmount))}
+                                </td>
+                                <td className="py-2 pr-3">
+                                  <Badge variant={category.flagged ? "destructive" : "outline"}>
+                                    {category.flagged && category.deviationPercent === null ? "Não previsto" : formatPercent(category.deviationPercent)}
+                                  </Badge>
+                                  <span className="ml-2 text-xs text-muted-foreground">tol. {category.tolerancePercent}%</span>
+                                </td>
+                                <td className="py-2 text-xs text-muted-foreground">{category.basis}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="py-3 flex flex-row items-center justify-between gap-2 space-y-0">
                   <CardTitle className="text-sm flex items-center gap-2">
                     <Camera className="h-4 w-4" />
                     Comprovantes Enviados ({selectedSettlement.items?.length || 0})
                   </CardTitle>
+                  {!!selectedSettlement.items?.length && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rereadReceiptsMutation.mutate(selectedSettlement.id)}
+                      disabled={rereadReceiptsMutation.isPending}
+                      data-testid="button-reread-receipts"
+                    >
+                      <ScanText className="h-4 w-4 mr-2" />
+                      Ler comprovantes
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
                   {!selectedSettlement.items?.length ? (
@@ -440,11 +630,13 @@ export default function FinanceiroPage() {
                         const typeConfig = expenseTypeLabels[item.type] || expenseTypeLabels.outros;
                         const TypeIcon = typeConfig.icon;
                         const hasIssue = item.photoStatus !== "ok";
+                        const itemReconciliation = reconciliation?.items.find(r => r.itemId === item.id);
+                        const policyFlag = itemReconciliation ? itemReconciliation.flag : item.policyFlag;
                         
                         return (
                           <Card 
                             key={item.id} 
-                            className={`overflow-hidden ${hasIssue ? "border-destructive" : ""}`}
+                            className={`overflow-hidden ${hasIssue || policyFlag ? "border-destructive" : ""}`}
                           >
                             <div 
                               className="aspect-video bg-muted relative cursor-pointer group"
@@ -479,9 +671,34 @@ export default function FinanceiroPage() {
                                 <TypeIcon className="h-4 w-4 text-muted-foreground" />
                                 <span className="text-sm font-medium">{typeConfig.label}</span>
                               </div>
-                              <p className="font-bold text-green-600">
-                                {formatCurrency(item.amount)}
-                              </p>
+                              <div className="flex items-center justify-between gap-2">
+                                <p className="font-bold text-green-600" data-testid={`text-item-amount-brl-${item.id}`}>
+                                  {item.currency !== "BRL" && expenseItemAmountBrl(item) === null
+                                    ? "Sem cotação"
+                                    : formatCurrency(String(expenseItemAmountBrl(item) ?? 0))}
+                                </p>
+                                {itemReconciliation && itemReconciliation.deviationPercent !== null && (
+                                  <Badge variant={policyFlag ? "destructive" : "outline"} className="text-xs" data-testid={`badge-deviation-${item.id}`}>
+                                    {formatPercent(itemReconciliation.deviationPercent)}
+                                  </Badge>
+                                )}
+                              </div>
+                              {item.currency !== "BRL" && (
+                                <p className="text-xs text-muted-foreground" data-testid={`text-item-original-${item.id}`}>
+                                  {parseFloat(item.amount || "0").toLocaleString("pt-BR", { minimumFractionDigits: 2 })} {item.currency}
+                                  {item.exchangeRate && ` × ${item.exchangeRate}`}
+                                  {item.expenseDate && ` em ${new Date(`${item.expenseDate}T12:00:00`).toLocaleDateString("pt-BR")}`}
+                                </p>
+                              )}
+                              {item.liters && (
+                                <p className="text-xs text-muted-foreground">{item.liters} L</p>
+                              )}
+                              {policyFlag && (
+                                <p className="text-xs text-destructive mt-1 flex items-start gap-1" data-testid={`text-policy-flag-${item.id}`}>
+                                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                  {policyFlag}
+                                </p>
+                              )}
                               {item.description && (
                                 <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
                                   {item.description}
@@ -492,6 +709,15 @@ export default function FinanceiroPage() {
                                   {item.photoRejectionReason}
                                 </p>
                               )}
+                              <ReceiptExtractionPanel
+                                item={item}
+                                extraction={receiptExtractions?.find((e) => e.itemId === item.id)}
+                                labels={expenseTypeLabels}
+                                onItemUpdated={(updated) => setSelectedSettlement((prev) => prev ? {
+                                  ...prev,
+                                  items: prev.items?.map((i) => i.id === updated.id ? updated : i),
+                                } : prev)}
+                              />
                             </CardContent>
                           </Card>
                         );
@@ -520,6 +746,12 @@ export default function FinanceiroPage() {
           <DialogFooter className="gap-2">
             {selectedSettlement?.status === "enviado" && (
               <>
+                {!!reconciliation?.flaggedItems && (
+                  <span className="mr-auto flex items-center gap-1 text-sm text-destructive" data-testid="text-flagged-items">
+                    <AlertTriangle className="h-4 w-4" />
+                    {reconciliation.flaggedItems} comprovante(s) fora da política
+                  </span>
+                )}
                 <Button
                   variant="destructive"
                   onClick={openReturnDialog}
@@ -604,6 +836,10 @@ export default function FinanceiroPage() {
         </DialogContent>
       </Dialog>
 
+      <ExpensePoliciesDialog open={showPolicies} onOpenChange={setShowPolicies} labels={expenseTypeLabels} />
+      <ExchangeRatesDialog open={showExchangeRates} onOpenChange={setShowExchangeRates} />
+      <PaymentBatchesDialog open={showPaymentBatches} onOpenChange={setShowPaymentBatches} />
+
       <Dialog open={!!lightboxPhoto} onOpenChange={() => setLightboxPhoto(null)}>
         <DialogContent className="max-w-4xl p-0 overflow-hidden">
           {lightboxPhoto && (
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { CheckCircle, Download, Loader2, Trash2, Wallet } from "lucide-react";
+import type { DriverPaymentBatch } from "@shared/schema";
+
+interface PaymentBatchesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Response of GET /api/driver-ledger/balances
+interface DriverBalance {
+  driverId: string;
+  driverName: string | null;
+  balance: number;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+export function PaymentBatchesDialog({ open, onOpenChange }: PaymentBatchesDialogProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: balances, isLoading: balancesLoading } = useQuery<DriverBalance[]>({
+    queryKey: ["/api/driver-ledger/balances"],
+    enabled: open,
+  });
+
+  const { data: batches, isLoading: batchesLoading } = useQuery<DriverPaymentBatch[]>({
+    queryKey: ["/api/driver-payment-batches"],
+    enabled: open,
+  });
+
+  const payable = (balances ?? []).filter((b) => b.balance >= 0.01);
+  const owing = (balances ?? []).filter((b) => b.balance <= -0.01);
+  const selectedTotal = payable.filter((b) => selected.has(b.driverId)).reduce((sum, b) => sum + b.balance, 0);
+
+  // Batches book payment entries on the drivers' statements, so balances and statements change too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/driver-ledger/balances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/driver-payment-batches"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => typeof query.queryKey[0] === "string" && /^\/api\/drivers\/[^/]+\/ledger/.test(query.queryKey[0]),
+    });
+  };
+
+  const toggle = (driverId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(driverId);
+      else next.delete(driverId);
+      return next;
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/driver-payment-batches", { driverIds: Array.from(selected) });
+      return res.json() as Promise<DriverPaymentBatch>;
+    },
+    onSuccess: (batch) => {
+      invalidate();
+      setSelected(new Set());
+      toast({ title: `Lote ${batch.reference} gerado`, description: `${batch.driverCount} motorista(s), ${formatCurrency(parseFloat(batch.totalAmount))}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao gerar lote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const paidMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/driver-payment-batches/${id}/paid`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Lote marcado como pago" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar lote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/driver-payment-batches/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Lote cancelado. Os saldos voltaram aos motoristas." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cancelar lote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The export needs the auth header, so it is fetched and saved as a blob instead of opened directly
+  const exportMutation = useMutation({
+    mutationFn: async (batch: DriverPaymentBatch) => {
+      const res = await apiRequest("GET", `/api/driver-payment-batches/${batch.id}/export`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${batch.reference}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao exportar lote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pagamentos a Motoristas</DialogTitle>
+          <DialogDescription>
+            Saldos da conta corrente de cada motorista. Um lote quita os saldos a receber escolhidos e gera a planilha
+            para o pagamento.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="balances">
+          <TabsList>
+            <TabsTrigger value="balances">Saldos</TabsTrigger>
+            <TabsTrigger value="batches">Lotes ({batches?.length ?? 0})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="balances" className="space-y-4">
+            {balancesLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : payable.length === 0 && owing.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nenhum motorista com saldo em aberto</p>
+            ) : (
+              <div className="space-y-1">
+                {[...payable, ...owing].map((b) => (
+                  <div key={b.driverId} className="grid grid-cols-[24px_1fr_140px] gap-2 items-center text-sm px-1" data-testid={`row-driver-balance-${b.driverId}`}>
+                    {b.balance > 0 ? (
+                      <Checkbox
+                        checked={selected.has(b.driverId)}
+                        onCheckedChange={(checked) => toggle(b.driverId, checked === true)}
+                        data-testid={`checkbox-driver-balance-${b.driverId}`}
+                      />
+                    ) : <span />}
+                    <Link href={`/motoristas/${b.driverId}/extrato`} className="hover:underline truncate">
+                      {b.driverName ?? b.driverId}
+                    </Link>
+                    <span className={`text-right font-medium ${b.balance > 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatCurrency(b.balance)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2 border-t pt-3">
+              <span className="text-sm text-muted-foreground">
+                {selected.size} selecionado(s) · {formatCurrency(selectedTotal)}
+              </span>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || selected.size === 0}
+                data-testid="button-create-payment-batch"
+              >
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wallet className="h-4 w-4 mr-2" />}
+                Gerar Lote
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="batches">
+            {batchesLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !batches || batches.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nenhum lote gerado</p>
+            ) : (
+              <div className="space-y-2">
+                {batches.map((batch) => (
+                  <div key={batch.id} className="flex items-center justify-between gap-2 rounded-md border p-3" data-testid={`row-payment-batch-${batch.id}`}>
+                    <div>
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        {batch.reference}
+                        {batch.status === "pago" ? (
+                          <Badge variant="secondary" className="text-xs bg-green-500/20 text-green-700">Pago</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">Aberto</Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {batch.driverCount} motorista(s) · {formatCurrency(parseFloat(batch.totalAmount))}
+                        {batch.paidAt && ` · pago em ${new Date(batch.paidAt).toLocaleDateString("pt-BR")}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Exportar CSV"
+                        onClick={() => exportMutation.mutate(batch)}
+                        disabled={exportMutation.isPending}
+                        data-testid={`button-export-payment-batch-${batch.id}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {batch.status !== "pago" && (
+                        <>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Marcar como pago"
+                            onClick={() => paidMutation.mutate(batch.id)}
+                            disabled={paidMutation.isPending}
+                            data-testid={`button-pay-payment-batch-${batch.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Cancelar lote"
+                            onClick={() => cancelMutation.mutate(batch.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-payment-batch-${batch.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
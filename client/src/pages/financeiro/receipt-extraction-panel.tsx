@@ -0,0 +1,162 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Copy, Loader2, RefreshCw, ScanText, Wand2 } from "lucide-react";
+import type { ExpenseReceiptExtraction, ExpenseSettlementItem, ReceiptMismatch } from "@shared/schema";
+
+// Response of GET /api/expense-settlements/:id/receipt-extractions
+export interface ReceiptExtractionView extends ExpenseReceiptExtraction {
+  duplicates: { itemId: string; settlementId: string; type: string; amount: string; currency: string }[];
+}
+
+interface ReceiptExtractionPanelProps {
+  item: ExpenseSettlementItem;
+  extraction: ReceiptExtractionView | undefined;
+  labels: Record<string, { label: string }>;
+  onItemUpdated: (item: ExpenseSettlementItem) => void;
+}
+
+const fieldLabels: Record<ReceiptMismatch["field"], string> = {
+  type: "Tipo",
+  amount: "Valor",
+  currency: "Moeda",
+  expenseDate: "Data",
+};
+
+const photoQualityLabels: Record<string, string> = {
+  borrada: "Foto borrada",
+  ilegivel: "Foto ilegível",
+};
+
+const formatDate = (value: string) => new Date(`${value}T12:00:00`).toLocaleDateString("pt-BR");
+
+export function ReceiptExtractionPanel({ item, extraction, labels, onItemUpdated }: ReceiptExtractionPanelProps) {
+  const { toast } = useToast();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements", item.settlementId, "receipt-extractions"] });
+  };
+
+  const rereadMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/expense-settlement-items/${item.id}/receipt-extraction`),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Erro ao reler comprovante", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/expense-settlement-items/${item.id}/receipt-extraction/apply`);
+      return res.json() as Promise<ExpenseSettlementItem>;
+    },
+    onSuccess: (updated) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/expense-settlements"] });
+      onItemUpdated(updated);
+      toast({ title: "Valores do comprovante aplicados" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao aplicar leitura", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const describe = (mismatch: ReceiptMismatch, value: string | null) => {
+    if (!value) return "-";
+    if (mismatch.field === "type") return labels[value]?.label || value;
+    if (mismatch.field === "amount") return parseFloat(value).toLocaleString("pt-BR", { minimumFractionDigits: 2 });
+    if (mismatch.field === "expenseDate") return formatDate(value);
+    return value;
+  };
+
+  // Items sent before OCR existed have no extraction until "Ler comprovantes" is used
+  if (!extraction) return null;
+
+  if (extraction.status === "pendente" || extraction.status === "processando") {
+    return (
+      <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1" data-testid={`text-ocr-pending-${item.id}`}>
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Lendo comprovante...
+      </p>
+    );
+  }
+
+  const quality = extraction.photoQuality ? photoQualityLabels[extraction.photoQuality] : undefined;
+
+  return (
+    <div className="mt-2 space-y-1 border-t pt-2" data-testid={`panel-ocr-${item.id}`}>
+      <div className="flex items-center justify-between gap-1">
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          <ScanText className="h-3 w-3" />
+          {extraction.status === "erro"
+            ? "Falha na leitura"
+            : extraction.mismatches.length > 0 ? "Divergente do digitado" : "Confere com o digitado"}
+        </span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          title="Ler novamente"
+          onClick={() => rereadMutation.mutate()}
+          disabled={rereadMutation.isPending}
+          data-testid={`button-ocr-reread-${item.id}`}
+        >
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {extraction.error && (
+        <p className="text-xs text-destructive">{extraction.error}</p>
+      )}
+
+      {extraction.mismatches.map((mismatch) => (
+        <p key={mismatch.field} className="text-xs text-amber-700" data-testid={`text-ocr-mismatch-${item.id}-${mismatch.field}`}>
+          {fieldLabels[mismatch.field]}: lido {describe(mismatch, mismatch.extracted)}, digitado {describe(mismatch, mismatch.typed)}
+        </p>
+      ))}
+
+      {extraction.issuerCnpj && (
+        <p className="text-xs text-muted-foreground">
+          CNPJ {extraction.issuerCnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {quality && (
+          <Badge variant="secondary" className="text-xs bg-amber-500/20 text-amber-700" data-testid={`badge-ocr-quality-${item.id}`}>
+            {quality}
+          </Badge>
+        )}
+        {extraction.duplicates.length > 0 && (
+          <Badge
+            variant="destructive"
+            className="text-xs"
+            title={extraction.duplicates
+              .map((d) => `${labels[d.type]?.label || d.type} ${d.amount} ${d.currency}${d.settlementId === item.settlementId ? " (nesta prestação)" : " (outra prestação)"}`)
+              .join("\n")}
+            data-testid={`badge-ocr-duplicate-${item.id}`}
+          >
+            <Copy className="h-3 w-3 mr-1" />
+            Possível duplicado
+          </Badge>
+        )}
+      </div>
+
+      {extraction.mismatches.length > 0 && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 w-full text-xs"
+          onClick={() => applyMutation.mutate()}
+          disabled={applyMutation.isPending}
+          data-testid={`button-ocr-apply-${item.id}`}
+        >
+          <Wand2 className="h-3 w-3 mr-1" />
+          Usar valores lidos
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,697 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PageHeader } from "@/components/page-header";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Search, Pencil, Trash2 } from "lucide-react";
+import type {
+  Driver,
+  FleetJob,
+  FleetJobEntity,
+  FleetOwnership,
+  FleetUnit,
+  FleetUnitStatus,
+  FleetUnitType,
+  TruckModel,
+} from "@shared/schema";
+
+// Response of GET /api/fleet/availability
+interface FleetUnitAvailability {
+  unit: FleetUnit;
+  availability: "disponivel" | "em_operacao" | "lotado" | "manutencao" | "inativo";
+  activeJobs: FleetJob[];
+  coupledWith: string[];
+  freeSlots: number | null;
+}
+
+type AvailabilityRow = FleetUnitAvailability & { id: string };
+
+const unitTypeLabels: Record<FleetUnitType, string> = {
+  cavalo: "Cavalo",
+  carreta: "Carreta",
+};
+
+const ownershipLabels: Record<FleetOwnership, string> = {
+  propria: "Própria",
+  agregado: "Agregado",
+};
+
+const statusLabels: Record<FleetUnitStatus, string> = {
+  ativo: "Ativo",
+  manutencao: "Manutenção",
+  inativo: "Inativo",
+};
+
+const availabilityBadges: Record<FleetUnitAvailability["availability"], { label: string; className: string }> = {
+  disponivel: { label: "Disponível", className: "bg-green-500/20 text-green-700" },
+  em_operacao: { label: "Em operação", className: "bg-blue-500/20 text-blue-700" },
+  lotado: { label: "Lotada", className: "bg-orange-500/20 text-orange-700" },
+  manutencao: { label: "Manutenção", className: "bg-yellow-500/20 text-yellow-700" },
+  inativo: { label: "Inativo", className: "bg-muted text-muted-foreground" },
+};
+
+const entityLabels: Record<FleetJobEntity, string> = {
+  transport: "Transporte",
+  collect: "Coleta",
+  transfer: "Transferência",
+};
+
+const axleOptions = ["2_eixos", "3_eixos", "4_eixos", "5_eixos", "6_eixos", "7_eixos", "9_eixos"] as const;
+
+const NONE = "none";
+
+export default function FleetPage() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingUnit, setEditingUnit] = useState<FleetUnit | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const [formType, setFormType] = useState<FleetUnitType>("cavalo");
+  const [formPlate, setFormPlate] = useState("");
+  const [formRenavam, setFormRenavam] = useState("");
+  const [formModelId, setFormModelId] = useState(NONE);
+  const [formAxle, setFormAxle] = useState(NONE);
+  const [formCapacity, setFormCapacity] = useState("");
+  const [formYear, setFormYear] = useState("");
+  const [formOwnership, setFormOwnership] = useState<FleetOwnership>("propria");
+  const [formOwnerDriverId, setFormOwnerDriverId] = useState(NONE);
+  const [formStatus, setFormStatus] = useState<FleetUnitStatus>("ativo");
+  const [formNotes, setFormNotes] = useState("");
+
+  const { data: units, isLoading } = useQuery<FleetUnit[]>({
+    queryKey: ["/api/fleet-units"],
+  });
+
+  const { data: availability, isLoading: availabilityLoading } = useQuery<FleetUnitAvailability[]>({
+    queryKey: ["/api/fleet/availability"],
+  });
+
+  const { data: jobs, isLoading: jobsLoading } = useQuery<FleetJob[]>({
+    queryKey: ["/api/fleet/jobs"],
+  });
+
+  const { data: truckModels } = useQuery<TruckModel[]>({
+    queryKey: ["/api/truck-models"],
+  });
+
+  const { data: drivers } = useQuery<Driver[]>({
+    queryKey: ["/api/drivers"],
+  });
+
+  const driverName = (id: string | null) => drivers?.find(d => d.id === id)?.name;
+  const modelName = (id: string | null) => {
+    const model = truckModels?.find(m => m.id === id);
+    return model ? `${model.brand} ${model.model}` : undefined;
+  };
+
+  // Unit changes move availability and the assignment options, so the whole fleet area refreshes
+  const invalidateFleet = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/fleet-units"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/fleet/availability"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/fleet/jobs"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: any }) => {
+      if (id) {
+        await apiRequest("PATCH", `/api/fleet-units/${id}`, data);
+      } else {
+        await apiRequest("POST", "/api/fleet-units", data);
+      }
+    },
+    onSuccess: (_data, { id }) => {
+      invalidateFleet();
+      closeDialog();
+      toast({ title: id ? "Unidade atualizada com sucesso" : "Unidade cadastrada com sucesso" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar unidade", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/fleet-units/${id}`);
+    },
+    onSuccess: () => {
+      invalidateFleet();
+      setDeletingId(null);
+      toast({ title: "Unidade removida com sucesso" });
+    },
+    onError: (error: Error) => {
+      setDeletingId(null);
+      toast({ title: "Erro ao remover unidade", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ job, tractorId, trailerId }: { job: FleetJob; tractorId: string | null; trailerId: string | null }) => {
+      await apiRequest("PUT", `/api/fleet/jobs/${job.entity}/${job.id}`, { tractorId, trailerId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fleet/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fleet/jobs"] });
+      toast({ title: "Conjunto atribuído" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atribuir conjunto", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetForm = () => {
+    setFormType("cavalo");
+    setFormPlate("");
+    setFormRenavam("");
+    setFormModelId(NONE);
+    setFormAxle(NONE);
+    setFormCapacity("");
+    setFormYear("");
+    setFormOwnership("propria");
+    setFormOwnerDriverId(NONE);
+    setFormStatus("ativo");
+    setFormNotes("");
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingUnit(null);
+    resetForm();
+  };
+
+  const openAddDialog = () => {
+    setEditingUnit(null);
+    resetForm();
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (unit: FleetUnit) => {
+    setEditingUnit(unit);
+    setFormType(unit.unitType);
+    setFormPlate(unit.plate);
+    setFormRenavam(unit.renavam);
+    setFormModelId(unit.truckModelId || NONE);
+    setFormAxle(unit.axleType || NONE);
+    setFormCapacity(unit.vehicleCapacity ? String(unit.vehicleCapacity) : "");
+    setFormYear(unit.manufactureYear ? String(unit.manufactureYear) : "");
+    setFormOwnership(unit.ownership);
+    setFormOwnerDriverId(unit.ownerDriverId || NONE);
+    setFormStatus(unit.status);
+    setFormNotes(unit.notes || "");
+    setShowDialog(true);
+  };
+
+  const handleSubmit = () => {
+    if (formType === "carreta" && !formCapacity) {
+      toast({ title: "Informe quantos veículos a carreta transporta", variant: "destructive" });
+      return;
+    }
+    if (formOwnership === "agregado" && formOwnerDriverId === NONE) {
+      toast({ title: "Selecione o motorista agregado", variant: "destructive" });
+      return;
+    }
+
+    const data = {
+      unitType: formType,
+      plate: formPlate,
+      renavam: formRenavam,
+      truckModelId: formType === "cavalo" && formModelId !== NONE ? formModelId : null,
+      axleType: formAxle === NONE ? null : formAxle,
+      vehicleCapacity: formType === "carreta" ? parseInt(formCapacity, 10) : null,
+      manufactureYear: formYear ? parseInt(formYear, 10) : null,
+      ownership: formOwnership,
+      ownerDriverId: formOwnership === "agregado" ? formOwnerDriverId : null,
+      status: formStatus,
+      notes: formNotes.trim() || null,
+    };
+    saveMutation.mutate({ id: editingUnit?.id ?? null, data });
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredUnits = (units || []).filter(u =>
+    u.plate.toLowerCase().includes(term) ||
+    u.renavam.includes(term) ||
+    (modelName(u.truckModelId) || "").toLowerCase().includes(term) ||
+    (driverName(u.ownerDriverId) || "").toLowerCase().includes(term)
+  );
+
+  const tractors = (units || []).filter(u => u.unitType === "cavalo" && u.status === "ativo");
+  const trailers = (units || []).filter(u => u.unitType === "carreta" && u.status === "ativo");
+
+  const columns = [
+    {
+      key: "plate",
+      label: "Placa",
+      render: (u: FleetUnit) => (
+        <div>
+          <p className="font-medium">{u.plate}</p>
+          <p className="text-xs text-muted-foreground">RENAVAM {u.renavam}</p>
+        </div>
+      ),
+    },
+    {
+      key: "unitType",
+      label: "Tipo",
+      render: (u: FleetUnit) => unitTypeLabels[u.unitType],
+    },
+    {
+      key: "truckModelId",
+      label: "Modelo / Eixos",
+      render: (u: FleetUnit) => (
+        <div>
+          <p>{modelName(u.truckModelId) || "—"}</p>
+          {u.axleType && <p className="text-xs text-muted-foreground">{u.axleType.replace("_", " ")}</p>}
+        </div>
+      ),
+    },
+    {
+      key: "vehicleCapacity",
+      label: "Capacidade",
+      render: (u: FleetUnit) => u.vehicleCapacity ? `${u.vehicleCapacity} veículos` : "—",
+    },
+    {
+      key: "ownership",
+      label: "Proprietário",
+      render: (u: FleetUnit) => u.ownership === "agregado"
+        ? `${ownershipLabels.agregado} · ${driverName(u.ownerDriverId) || "—"}`
+        : ownershipLabels.propria,
+    },
+    {
+      key: "status",
+      label: "Status",
+      render: (u: FleetUnit) => u.status === "ativo"
+        ? <Badge>{statusLabels.ativo}</Badge>
+        : <Badge variant="secondary">{statusLabels[u.status]}</Badge>,
+    },
+    {
+      key: "actions",
+      label: "",
+      className: "w-24",
+      render: (u: FleetUnit) => (
+        <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={(e) => { e.stopPropagation(); openEditDialog(u); }}
+            data-testid={`button-edit-fleet-unit-${u.id}`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={(e) => { e.stopPropagation(); setDeletingId(u.id); }}
+            data-testid={`button-delete-fleet-unit-${u.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  const availabilityColumns = [
+    {
+      key: "plate",
+      label: "Placa",
+      render: (a: AvailabilityRow) => (
+        <div>
+          <p className="font-medium">{a.unit.plate}</p>
+          <p className="text-xs text-muted-foreground">{unitTypeLabels[a.unit.unitType]}</p>
+        </div>
+      ),
+    },
+    {
+      key: "availability",
+      label: "Situação",
+      render: (a: AvailabilityRow) => (
+        <Badge variant="secondary" className={availabilityBadges[a.availability].className}>
+          {availabilityBadges[a.availability].label}
+        </Badge>
+      ),
+    },
+    {
+      key: "coupledWith",
+      label: "Engatado com",
+      render: (a: AvailabilityRow) => a.coupledWith.length > 0 ? a.coupledWith.join(", ") : "—",
+    },
+    {
+      key: "activeJobs",
+      label: "Operações",
+      render: (a: AvailabilityRow) => a.activeJobs.length > 0
+        ? a.activeJobs.map(j => `${entityLabels[j.entity]} ${j.reference}`).join(", ")
+        : "—",
+    },
+    {
+      key: "freeSlots",
+      label: "Vagas livres",
+      render: (a: AvailabilityRow) => a.freeSlots === null ? "—" : `${a.freeSlots} de ${a.unit.vehicleCapacity}`,
+    },
+  ];
+
+  const jobColumns = [
+    {
+      key: "reference",
+      label: "Operação",
+      render: (j: FleetJob) => (
+        <div>
+          <p className="font-medium">{entityLabels[j.entity]} {j.reference}</p>
+          {j.reference !== j.vehicleChassi && <p className="text-xs text-muted-foreground">{j.vehicleChassi}</p>}
+        </div>
+      ),
+    },
+    {
+      key: "status",
+      label: "Status",
+      render: (j: FleetJob) => j.status.replace(/_/g, " "),
+    },
+    {
+      key: "driverId",
+      label: "Motorista",
+      render: (j: FleetJob) => driverName(j.driverId) || "—",
+    },
+    {
+      key: "tractorId",
+      label: "Cavalo",
+      render: (j: FleetJob) => (
+        <Select
+          value={j.tractorId || NONE}
+          onValueChange={(v) => assignMutation.mutate({ job: j, tractorId: v === NONE ? null : v, trailerId: j.trailerId })}
+          disabled={assignMutation.isPending || !!j.tripId}
+        >
+          <SelectTrigger className="w-36" data-testid={`select-job-tractor-${j.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Nenhum</SelectItem>
+            {tractors.map(u => (
+              <SelectItem key={u.id} value={u.id}>{u.plate}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ),
+    },
+    {
+      key: "trailerId",
+      label: "Carreta",
+      render: (j: FleetJob) => (
+        <Select
+          value={j.trailerId || NONE}
+          onValueChange={(v) => assignMutation.mutate({ job: j, tractorId: j.tractorId, trailerId: v === NONE ? null : v })}
+          disabled={assignMutation.isPending || !!j.tripId}
+        >
+          <SelectTrigger className="w-36" data-testid={`select-job-trailer-${j.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Nenhuma</SelectItem>
+            {trailers.map(u => (
+              <SelectItem key={u.id} value={u.id}>{u.plate}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col">
+      <PageHeader
+        title="Frota"
+        breadcrumbs={[
+          { label: "Cadastros", href: "/motoristas" },
+          { label: "Frota" },
+        ]}
+      />
+      <div className="flex-1 overflow-auto p-4 md:p-6">
+        <Tabs defaultValue="units">
+          <TabsList className="mb-4">
+            <TabsTrigger value="units">Cavalos e Carretas</TabsTrigger>
+            <TabsTrigger value="availability">Disponibilidade</TabsTrigger>
+            <TabsTrigger value="jobs">Alocação ({jobs?.length ?? 0})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="units">
+            <div className="mb-4 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="relative max-w-sm flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar por placa, RENAVAM, modelo ou agregado..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                  data-testid="input-search-fleet"
+                />
+              </div>
+              <Button onClick={openAddDialog} data-testid="button-add-fleet-unit">
+                <Plus className="mr-2 h-4 w-4" />
+                Nova Unidade
+              </Button>
+            </div>
+
+            <DataTable
+              columns={columns}
+              data={filteredUnits}
+              isLoading={isLoading}
+              keyField="id"
+              onRowClick={openEditDialog}
+              emptyMessage="Nenhum cavalo ou carreta cadastrado"
+            />
+          </TabsContent>
+
+          <TabsContent value="availability">
+            <DataTable
+              columns={availabilityColumns}
+              data={(availability || []).map((a): AvailabilityRow => ({ ...a, id: a.unit.id }))}
+              isLoading={availabilityLoading}
+              keyField="id"
+              emptyMessage="Nenhuma unidade cadastrada"
+            />
+          </TabsContent>
+
+          <TabsContent value="jobs">
+            <p className="mb-4 text-sm text-muted-foreground">
+              Transportes, coletas e transferências em andamento. Cada veículo ocupa uma vaga da carreta, e o cavalo
+              segue engatado na mesma carreta até as operações terminarem. Integrantes de viagens recebem o conjunto
+              da viagem.
+            </p>
+            <DataTable
+              columns={jobColumns}
+              data={jobs || []}
+              isLoading={jobsLoading}
+              keyField="id"
+              emptyMessage="Nenhuma operação em andamento"
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={showDialog} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingUnit ? "Editar Unidade" : "Nova Unidade"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={formType} onValueChange={(v) => setFormType(v as FleetUnitType)}>
+                <SelectTrigger data-testid="select-fleet-unit-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cavalo">{unitTypeLabels.cavalo}</SelectItem>
+                  <SelectItem value="carreta">{unitTypeLabels.carreta}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={formStatus} onValueChange={(v) => setFormStatus(v as FleetUnitStatus)}>
+                <SelectTrigger data-testid="select-fleet-unit-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(statusLabels) as FleetUnitStatus[]).map(s => (
+                    <SelectItem key={s} value={s}>{statusLabels[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Placa</Label>
+              <Input
+                value={formPlate}
+                onChange={(e) => setFormPlate(e.target.value.toUpperCase())}
+                placeholder="Ex: ABC1D23"
+                maxLength={8}
+                data-testid="input-fleet-unit-plate"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>RENAVAM</Label>
+              <Input
+                value={formRenavam}
+                onChange={(e) => setFormRenavam(e.target.value.replace(/\D/g, ""))}
+                placeholder="11 dígitos"
+                maxLength={11}
+                data-testid="input-fleet-unit-renavam"
+              />
+            </div>
+            {formType === "cavalo" ? (
+              <div className="space-y-2">
+                <Label>Modelo</Label>
+                <Select value={formModelId} onValueChange={setFormModelId}>
+                  <SelectTrigger data-testid="select-fleet-unit-model">
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Não informado</SelectItem>
+                    {truckModels?.filter(m => m.isActive !== "false").map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.brand} {m.model}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Capacidade (veículos)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={formCapacity}
+                  onChange={(e) => setFormCapacity(e.target.value)}
+                  placeholder="Ex: 11"
+                  data-testid="input-fleet-unit-capacity"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Eixos</Label>
+              <Select value={formAxle} onValueChange={setFormAxle}>
+                <SelectTrigger data-testid="select-fleet-unit-axles">
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Não informado</SelectItem>
+                  {axleOptions.map(a => (
+                    <SelectItem key={a} value={a}>{a.replace("_", " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Ano de fabricação</Label>
+              <Input
+                type="number"
+                value={formYear}
+                onChange={(e) => setFormYear(e.target.value)}
+                placeholder="Ex: 2022"
+                data-testid="input-fleet-unit-year"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Proprietário</Label>
+              <Select value={formOwnership} onValueChange={(v) => setFormOwnership(v as FleetOwnership)}>
+                <SelectTrigger data-testid="select-fleet-unit-ownership">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="propria">Frota própria</SelectItem>
+                  <SelectItem value="agregado">Motorista agregado</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {formOwnership === "agregado" && (
+              <div className="col-span-2 space-y-2">
+                <Label>Motorista agregado</Label>
+                <Select value={formOwnerDriverId} onValueChange={setFormOwnerDriverId}>
+                  <SelectTrigger data-testid="select-fleet-unit-owner">
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Selecione</SelectItem>
+                    {drivers?.filter(d => d.isActive !== "false").map(d => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="col-span-2 space-y-2">
+              <Label>Observações</Label>
+              <Textarea
+                value={formNotes}
+                onChange={(e) => setFormNotes(e.target.value)}
+                rows={2}
+                data-testid="input-fleet-unit-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-fleet-unit"
+            >
+              {editingUnit ? "Salvar" : "Cadastrar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => { if (!open) setDeletingId(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover Unidade</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja remover esta unidade? Unidades que já fizeram operações não podem ser removidas,
+              apenas inativadas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingId && deleteMutation.mutate(deletingId)}
+              data-testid="button-confirm-delete-fleet-unit"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
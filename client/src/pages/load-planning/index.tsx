@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { PageHeader } from "@/components/page-header";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertCircle, ArrowDown, ArrowUp, Check, Compass, Loader2, X } from "lucide-react";
+import type { Driver, FleetUnit, TripDetail, Yard } from "@shared/schema";
+
+interface LoadStop {
+  transportId: string;
+  requestNumber: string;
+  vehicleChassi: string;
+  deliveryLocationId: string;
+  locationName: string;
+  city: string;
+  state: string | null;
+  distanceKm: number;
+  deliveryDate: string | null;
+  yardEntryDateTime: string | null;
+  estimatedArrival: string;
+  late: boolean;
+}
+
+interface LoadProposal {
+  originYardId: string;
+  direction: string;
+  estimatedKm: number;
+  departureDate: string;
+  capacity: number;
+  suggestedTractorId: string | null;
+  suggestedTrailerId: string | null;
+  stops: LoadStop[];
+}
+
+interface LoadPlan {
+  capacity: number;
+  departureDate: string;
+  proposals: LoadProposal[];
+  unplanned: { transportId: string; requestNumber: string; originYardId: string; reason: string }[];
+}
+
+// What the dispatcher changed on a proposal before accepting it
+interface ProposalDraft {
+  transportIds: string[];
+  driverId: string;
+  tractorId: string;
+  trailerId: string;
+}
+
+const ALL = "all";
+const NONE = "none";
+
+const formatDay = (value: string | null) => value ? value.split("-").reverse().join("/") : "—";
+
+// Proposals are recalculated on every refetch; the first stop identifies one while the dispatcher edits it
+const proposalKey = (proposal: LoadProposal) => `${proposal.originYardId}:${proposal.stops[0]?.transportId}`;
+
+export default function LoadPlanningPage() {
+  const { toast } = useToast();
+  const [yardId, setYardId] = useState(ALL);
+  const [capacity, setCapacity] = useState("");
+  const [departureDate, setDepartureDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [drafts, setDrafts] = useState<Record<string, ProposalDraft>>({});
+
+  const params = new URLSearchParams();
+  if (yardId !== ALL) params.set("yardId", yardId);
+  if (capacity) params.set("capacity", capacity);
+  if (departureDate) params.set("departureDate", departureDate);
+
+  const { data: plan, isLoading, error } = useQuery<LoadPlan>({
+    queryKey: [`/api/load-planning?${params.toString()}`],
+  });
+  const { data: yards } = useQuery<Yard[]>({ queryKey: ["/api/yards"] });
+  const { data: drivers } = useQuery<Driver[]>({ queryKey: ["/api/drivers"] });
+  const { data: fleetUnits } = useQuery<FleetUnit[]>({ queryKey: ["/api/fleet-units"] });
+
+  const yardName = (id: string) => yards?.find(y => y.id === id)?.name || "—";
+  const activeDrivers = drivers?.filter(d => d.isActive === "true") || [];
+  const tractors = fleetUnits?.filter(u => u.unitType === "cavalo" && u.status === "ativo") || [];
+  const trailers = fleetUnits?.filter(u => u.unitType === "carreta" && u.status === "ativo") || [];
+
+  const draftFor = (proposal: LoadProposal): ProposalDraft => drafts[proposalKey(proposal)] ?? {
+    transportIds: proposal.stops.map(s => s.transportId),
+    driverId: NONE,
+    tractorId: proposal.suggestedTractorId ?? NONE,
+    trailerId: proposal.suggestedTrailerId ?? NONE,
+  };
+
+  const updateDraft = (proposal: LoadProposal, changes: Partial<ProposalDraft>) => {
+    setDrafts(prev => ({ ...prev, [proposalKey(proposal)]: { ...draftFor(proposal), ...changes } }));
+  };
+
+  const moveStop = (proposal: LoadProposal, index: number, offset: number) => {
+    const next = [...draftFor(proposal).transportIds];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    updateDraft(proposal, { transportIds: next });
+  };
+
+  // Accepting creates a planned trip; from there the load is managed on the Viagens screen
+  const acceptMutation = useMutation({
+    mutationFn: async (proposal: LoadProposal) => {
+      const draft = draftFor(proposal);
+      const res = await apiRequest("POST", "/api/trips", {
+        originYardId: proposal.originYardId,
+        driverId: draft.driverId === NONE ? null : draft.driverId,
+        tractorId: draft.tractorId === NONE ? null : draft.tractorId,
+        trailerId: draft.trailerId === NONE ? null : draft.trailerId,
+        plannedDepartureDate: proposal.departureDate,
+        notes: `Carga proposta pelo planejamento (direção ${proposal.direction})`,
+        transportIds: draft.transportIds,
+        collectIds: [],
+      });
+      return res.json() as Promise<TripDetail>;
+    },
+    onSuccess: (trip, proposal) => {
+      setDrafts(prev => {
+        const { [proposalKey(proposal)]: _accepted, ...rest } = prev;
+        return rest;
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/load-planning"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fleet/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fleet/jobs"] });
+      toast({ title: `Viagem ${trip.tripNumber} criada`, description: "Ajustes e cálculo de rota ficam em Viagens." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao aceitar carga", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-col">
+      <PageHeader
+        title="Planejamento de Cargas"
+        breadcrumbs={[
+          { label: "Operação", href: "/" },
+          { label: "Planejamento de Cargas" },
+        ]}
+      />
+      <div className="flex-1 overflow-auto p-4 md:p-6 space-y-6">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Pátio de origem</Label>
+            <Select value={yardId} onValueChange={(v) => { setYardId(v); setDrafts({}); }}>
+              <SelectTrigger data-testid="select-planning-yard">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os pátios</SelectItem>
+                {(yards || []).map(y => (
+                  <SelectItem key={y.id} value={y.id}>{y.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Veículos por carreta</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder={plan ? `${plan.capacity} (maior carreta ativa)` : ""}
+              value={capacity}
+              onChange={(e) => { setCapacity(e.target.value); setDrafts({}); }}
+              data-testid="input-planning-capacity"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Data de saída</Label>
+            <Input
+              type="date"
+              value={departureDate}
+              onChange={(e) => { setDepartureDate(e.target.value); setDrafts({}); }}
+              data-testid="input-planning-departure"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {(error as Error).message}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Skeleton className="h-64" />
+            <Skeleton className="h-64" />
+          </div>
+        ) : plan && plan.proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum veículo em estoque com transporte pendente para montar cargas.
+          </p>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-2">
+            {plan?.proposals.map((proposal) => {
+              const key = proposalKey(proposal);
+              const draft = draftFor(proposal);
+              const stops = draft.transportIds
+                .map(id => proposal.stops.find(s => s.transportId === id))
+                .filter((s): s is LoadStop => !!s);
+              const trailerCapacity = fleetUnits?.find(u => u.id === draft.trailerId)?.vehicleCapacity ?? null;
+              const lateCount = stops.filter(s => s.late).length;
+
+              return (
+                <Card key={key} className="overflow-hidden" data-testid={`card-load-${key}`}>
+                  <CardHeader className="pb-2 border-b bg-gradient-to-r from-blue-500/10 to-blue-500/5">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-semibold">{yardName(proposal.originYardId)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          ~{proposal.estimatedKm.toLocaleString("pt-BR")} km em linha reta · saída {formatDay(proposal.departureDate)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="gap-1">
+                          <Compass className="h-3 w-3" />
+                          {proposal.direction}
+                        </Badge>
+                        <Badge variant="secondary" className="bg-blue-500/20 text-blue-700">
+                          {stops.length}/{proposal.capacity}
+                        </Badge>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="p-4 space-y-4 text-sm">
+                    {lateCount > 0 && (
+                      <p className="flex items-center gap-2 text-xs text-orange-700">
+                        <AlertCircle className="h-3.5 w-3.5" />
+                        {lateCount} entrega(s) não chegam até a data prevista saindo em {formatDay(proposal.departureDate)}
+                      </p>
+                    )}
+
+                    <div className="divide-y rounded-md border">
+                      {stops.map((stop, index) => (
+                        <div key={stop.transportId} className="flex items-center gap-2 px-3 py-2" data-testid={`row-load-stop-${stop.transportId}`}>
+                          <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-semibold">
+                            {index + 1}
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <p className="font-medium">
+                              {stop.requestNumber} <span className="font-mono text-xs text-muted-foreground">{stop.vehicleChassi}</span>
+                            </p>
+                            <p className="truncate text-xs text-muted-foreground">
+                              {stop.locationName} · {stop.city}{stop.state ? `/${stop.state}` : ""} · {stop.distanceKm.toLocaleString("pt-BR")} km
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              No pátio desde {stop.yardEntryDateTime ? format(new Date(stop.yardEntryDateTime), "dd/MM/yyyy", { locale: ptBR }) : "—"}
+                              {" · "}entrega {formatDay(stop.deliveryDate)}
+                              {" · "}
+                              <span className={stop.late ? "font-medium text-orange-700" : undefined}>chegada ~{formatDay(stop.estimatedArrival)}</span>
+                            </p>
+                          </div>
+                          <div className="flex shrink-0 items-center">
+                            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => moveStop(proposal, index, -1)}>
+                              <ArrowUp className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === stops.length - 1} onClick={() => moveStop(proposal, index, 1)}>
+                              <ArrowDown className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7"
+                              onClick={() => updateDraft(proposal, { transportIds: draft.transportIds.filter(id => id !== stop.transportId) })}
+                              data-testid={`button-remove-load-stop-${stop.transportId}`}
+                            >
+                              <X className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Motorista</Label>
+                        <Select value={draft.driverId} onValueChange={(v) => updateDraft(proposal, { driverId: v })}>
+                          <SelectTrigger data-testid={`select-load-driver-${key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>A definir</SelectItem>
+                            {activeDrivers.map(d => (
+                              <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Cavalo</Label>
+                        <Select value={draft.tractorId} onValueChange={(v) => updateDraft(proposal, { tractorId: v })}>
+                          <SelectTrigger data-testid={`select-load-tractor-${key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>A definir</SelectItem>
+                            {tractors.map(u => (
+                              <SelectItem key={u.id} value={u.id}>{u.plate}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Carreta</Label>
+                        <Select value={draft.trailerId} onValueChange={(v) => updateDraft(proposal, { trailerId: v })}>
+                          <SelectTrigger data-testid={`select-load-trailer-${key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>A definir</SelectItem>
+                            {trailers.map(u => (
+                              <SelectItem key={u.id} value={u.id}>{u.plate} ({u.vehicleCapacity} vagas)</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    {trailerCapacity !== null && stops.length > trailerCapacity && (
+                      <p className="text-xs text-destructive">A carreta escolhida leva só {trailerCapacity} veículos</p>
+                    )}
+
+                    <Button
+                      className="w-full"
+                      onClick={() => acceptMutation.mutate(proposal)}
+                      disabled={acceptMutation.isPending || stops.length === 0}
+                      data-testid={`button-accept-load-${key}`}
+                    >
+                      {acceptMutation.isPending && acceptMutation.variables === proposal
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        : <Check className="mr-2 h-4 w-4" />}
+                      Aceitar como Viagem
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {plan && plan.unplanned.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Fora do planejamento</h3>
+            <div className="divide-y rounded-md border">
+              {plan.unplanned.map((item) => (
+                <div key={item.transportId} className="flex items-center justify-between gap-3 px-3 py-2 text-sm" data-testid={`row-unplanned-${item.transportId}`}>
+                  <span className="font-medium">{item.requestNumber}</span>
+                  <span className="text-xs text-muted-foreground">{yardName(item.originYardId)} · {item.reason}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -24,8 +24,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import type { Manufacturer } from "@shared/schema";
+import { geofenceEnforcementModes, type Manufacturer } from "@shared/schema";
 import { AddressAutocomplete } from "@/components/address-autocomplete";
+import { GeofenceFields } from "@/components/geofence-fields";
 
 function buildFullAddress(manufacturer: Manufacturer): string {
   const parts = [];
@@ -46,6 +47,7 @@ function buildFullAddress(manufacturer: Manufacturer): string {
 
 const formSchema = z.object({
   name: z.string().min(2, "Nome é obrigatório"),
+  cnpj: z.string().optional(),
   fullAddress: z.string().optional(),
   cep: z.string().optional(),
   address: z.string().optional(),
@@ -59,6 +61,8 @@ const formSchema = z.object({
   phone: z.string().optional(),
   email: z.string().email("Email inválido").optional().or(z.literal("")),
   contactName: z.string().optional(),
+  geofenceRadiusMeters: z.coerce.number().int().min(50, "Mínimo de 50 m").max(20000, "Máximo de 20.000 m"),
+  geofenceEnforcement: z.enum(geofenceEnforcementModes),
   isActive: z.string().default("true"),
 });
 
@@ -83,6 +87,7 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
+      cnpj: "",
       fullAddress: "",
       cep: "",
       address: "",
@@ -96,6 +101,8 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
       phone: "",
       email: "",
       contactName: "",
+      geofenceRadiusMeters: 500,
+      geofenceEnforcement: "sinalizar",
       isActive: "true",
     },
   });
@@ -104,6 +111,7 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
     if (manufacturer && isEditing) {
       form.reset({
         name: manufacturer.name || "",
+        cnpj: manufacturer.cnpj || "",
         fullAddress: buildFullAddress(manufacturer),
         cep: manufacturer.cep || "",
         address: manufacturer.address || "",
@@ -117,11 +125,14 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
         phone: manufacturer.phone || "",
         email: manufacturer.email || "",
         contactName: manufacturer.contactName || "",
+        geofenceRadiusMeters: manufacturer.geofenceRadiusMeters ?? 500,
+        geofenceEnforcement: manufacturer.geofenceEnforcement ?? "sinalizar",
         isActive: manufacturer.isActive || "true",
       });
     } else if (!isEditing && open) {
       form.reset({
         name: "",
+        cnpj: "",
         fullAddress: "",
         cep: "",
         address: "",
@@ -135,6 +146,8 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
         phone: "",
         email: "",
         contactName: "",
+        geofenceRadiusMeters: 500,
+        geofenceEnforcement: "sinalizar",
         isActive: "true",
       });
     }
@@ -223,6 +236,19 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={form.control}
+                      name="cnpj"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>CNPJ</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="00.000.000/0000-00" data-testid="input-manufacturer-cnpj" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <FormField
                       control={form.control}
                       name="phone"
@@ -300,6 +326,7 @@ export function ManufacturerFormDialog({ open, onOpenChange, manufacturerId }: M
                         </FormItem>
                       )}
                     />
+                    <GeofenceFields control={form.control} testIdPrefix="manufacturer" />
                     <FormField
                       control={form.control}
                       name="isActive"
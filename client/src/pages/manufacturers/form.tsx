@@ -38,6 +38,7 @@ const brazilianStates = [
 
 const formSchema = z.object({
   name: z.string().min(2, "Nome é obrigatório"),
+  cnpj: z.string().optional(),
   cep: z.string().optional(),
   address: z.string().optional(),
   addressNumber: z.string().optional(),
@@ -69,6 +70,7 @@ export default function ManufacturerFormPage() {
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
+      cnpj: "",
       cep: "",
       address: "",
       addressNumber: "",
@@ -87,6 +89,7 @@ export default function ManufacturerFormPage() {
     if (manufacturer) {
       form.reset({
         name: manufacturer.name || "",
+        cnpj: manufacturer.cnpj || "",
         cep: manufacturer.cep || "",
         address: manufacturer.address || "",
         addressNumber: manufacturer.addressNumber || "",
@@ -172,7 +175,7 @@ export default function ManufacturerFormPage() {
                   control={form.control}
                   name="name"
                   render={({ field }) => (
-                    <FormItem className="md:col-span-2 lg:col-span-4">
+                    <FormItem className="md:col-span-2 lg:col-span-3">
                       <FormLabel>Nome *</FormLabel>
                       <FormControl>
                         <Input {...field} data-testid="input-manufacturer-name" />
@@ -181,6 +184,19 @@ export default function ManufacturerFormPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="cnpj"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CNPJ</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="00.000.000/0000-00" data-testid="input-manufacturer-cnpj" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="cep"
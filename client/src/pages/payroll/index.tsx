@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PageHeader } from "@/components/page-header";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Check, ChevronDown, ChevronRight, Download, FileText, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { PayrollLine, PayrollRun, PayrollStatement } from "@shared/schema";
+
+// Response of GET /api/payroll-runs/:id
+interface PayrollRunDetail extends PayrollRun {
+  statements: (PayrollStatement & { driverName: string | null; driverCpf: string | null; contractNumber: string | null })[];
+}
+
+const paymentTypeLabels: Record<string, string> = {
+  por_km: "Por km",
+  fixo_mensal: "Fixo mensal",
+  por_entrega: "Por entrega",
+  comissao: "Comissão",
+};
+
+const lineKindStyles: Record<PayrollLine["kind"], string> = {
+  ganho: "text-foreground",
+  credito: "text-green-600",
+  desconto: "text-red-600",
+};
+
+const formatCurrency = (value: string | number) =>
+  (typeof value === "number" ? value : parseFloat(value || "0")).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+const formatDay = (value: string) => value.split("-").reverse().join("/");
+
+// Defaults the new run to the previous calendar month
+function previousMonth() {
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const end = new Date(now.getFullYear(), now.getMonth(), 0);
+  return { periodStart: start.toLocaleDateString("en-CA"), periodEnd: end.toLocaleDateString("en-CA") };
+}
+
+async function download(url: string, filename: string) {
+  const res = await apiRequest("GET", url);
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+export default function PayrollPage() {
+  const { toast } = useToast();
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [form, setForm] = useState(() => ({ ...previousMonth(), notes: "" }));
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { data: runs, isLoading } = useQuery<PayrollRun[]>({
+    queryKey: ["/api/payroll-runs"],
+  });
+
+  const { data: detail, isLoading: detailLoading } = useQuery<PayrollRunDetail>({
+    queryKey: ["/api/payroll-runs", selectedRunId],
+    enabled: !!selectedRunId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payroll-runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/driver-ledger/balances"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/payroll-runs", { ...form, notes: form.notes || null });
+      return res.json() as Promise<PayrollRun>;
+    },
+    onSuccess: (run) => {
+      invalidate();
+      setShowCreateDialog(false);
+      setForm({ ...previousMonth(), notes: "" });
+      setSelectedRunId(run.id);
+      toast({ title: `Folha ${run.reference} calculada`, description: `${run.driverCount} motorista(s)` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao calcular folha", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "recalculate" | "approve" | "delete" }) => {
+      if (action === "delete") return apiRequest("DELETE", `/api/payroll-runs/${id}`);
+      return apiRequest("POST", `/api/payroll-runs/${id}/${action}`);
+    },
+    onSuccess: (_res, { action }) => {
+      invalidate();
+      if (action === "delete") setSelectedRunId(null);
+      toast({
+        title: action === "approve"
+          ? "Folha aprovada. Os ganhos foram lançados na conta corrente dos motoristas."
+          : action === "delete" ? "Folha excluída" : "Folha recalculada",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar folha", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async ({ kind, driverId }: { kind: "csv" | "pdf"; driverId?: string }) => {
+      if (!detail) return;
+      if (kind === "csv") return download(`/api/payroll-runs/${detail.id}/export`, `${detail.reference}.csv`);
+      const query = driverId ? `?driverId=${driverId}` : "";
+      return download(`/api/payroll-runs/${detail.id}/pdf${query}`, `${detail.reference}${driverId ? `-${driverId.substring(0, 8)}` : ""}.pdf`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao exportar folha", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const columns = [
+    { key: "reference", label: "Folha" },
+    {
+      key: "period",
+      label: "Período",
+      render: (r: PayrollRun) => `${formatDay(r.periodStart)} a ${formatDay(r.periodEnd)}`,
+    },
+    { key: "driverCount", label: "Motoristas" },
+    { key: "grossAmount", label: "Ganhos", render: (r: PayrollRun) => formatCurrency(r.grossAmount) },
+    { key: "netAmount", label: "Líquido", render: (r: PayrollRun) => formatCurrency(r.netAmount) },
+    {
+      key: "status",
+      label: "Situação",
+      render: (r: PayrollRun) => r.status === "aprovado"
+        ? <Badge variant="secondary" className="bg-green-500/20 text-green-700">Aprovada</Badge>
+        : <Badge variant="outline">Rascunho</Badge>,
+    },
+  ];
+
+  const isDraft = detail?.status === "rascunho";
+
+  return (
+    <div className="flex flex-col h-full">
+      <PageHeader
+        title="Folha de Motoristas"
+        breadcrumbs={[
+          { label: "Financeiro", href: "/financeiro" },
+          { label: "Folha de Motoristas" },
+        ]}
+        actions={
+          <Button size="sm" onClick={() => setShowCreateDialog(true)} data-testid="button-new-payroll-run">
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Folha
+          </Button>
+        }
+      />
+
+      <div className="flex-1 overflow-auto p-4 md:p-6 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Calcula o que cada motorista ganhou no período pelo seu contrato (por entrega, por km, fixo mensal ou comissão),
+          com os reembolsos, adiantamentos e descontos de avarias do mesmo período. Ao aprovar, os ganhos entram na
+          conta corrente e podem ser pagos em lote.
+        </p>
+        <DataTable
+          columns={columns}
+          data={runs || []}
+          isLoading={isLoading}
+          keyField="id"
+          onRowClick={(r) => setSelectedRunId(r.id)}
+          emptyMessage="Nenhuma folha calculada"
+        />
+      </div>
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Nova Folha</DialogTitle>
+            <DialogDescription>Os períodos de folhas diferentes não podem se sobrepor.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="payroll-start">Início</Label>
+                <Input
+                  id="payroll-start"
+                  type="date"
+                  value={form.periodStart}
+                  onChange={(e) => setForm({ ...form, periodStart: e.target.value })}
+                  data-testid="input-payroll-start"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payroll-end">Fim</Label>
+                <Input
+                  id="payroll-end"
+                  type="date"
+                  value={form.periodEnd}
+                  onChange={(e) => setForm({ ...form, periodEnd: e.target.value })}
+                  data-testid="input-payroll-end"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payroll-notes">Observações</Label>
+              <Textarea
+                id="payroll-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                data-testid="input-payroll-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>Cancelar</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !form.periodStart || !form.periodEnd}
+              data-testid="button-create-payroll-run"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Calcular
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedRunId} onOpenChange={(open) => { if (!open) { setSelectedRunId(null); setExpanded(new Set()); } }}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {detailLoading || !detail ? (
+            <div className="space-y-3">
+              <Skeleton className="h-8 w-64" />
+              <Skeleton className="h-48 w-full" />
+            </div>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {detail.reference}
+                  {detail.status === "aprovado"
+                    ? <Badge variant="secondary" className="bg-green-500/20 text-green-700">Aprovada</Badge>
+                    : <Badge variant="outline">Rascunho</Badge>}
+                </DialogTitle>
+                <DialogDescription>
+                  Período de {formatDay(detail.periodStart)} a {formatDay(detail.periodEnd)}
+                  {detail.approvedAt && ` · aprovada em ${new Date(detail.approvedAt).toLocaleDateString("pt-BR")}`}
+                  {detail.notes && ` · ${detail.notes}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Ganhos</p>
+                  <p className="font-bold">{formatCurrency(detail.grossAmount)}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Reembolsos</p>
+                  <p className="font-bold text-green-600">{formatCurrency(detail.creditsAmount)}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Descontos</p>
+                  <p className="font-bold text-red-600">{formatCurrency(detail.deductionsAmount)}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Líquido</p>
+                  <p className="font-bold">{formatCurrency(detail.netAmount)}</p>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={() => exportMutation.mutate({ kind: "csv" })} disabled={exportMutation.isPending} data-testid="button-payroll-csv">
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => exportMutation.mutate({ kind: "pdf" })} disabled={exportMutation.isPending} data-testid="button-payroll-pdf">
+                  <FileText className="h-4 w-4 mr-2" />
+                  PDF
+                </Button>
+                {isDraft && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => actionMutation.mutate({ id: detail.id, action: "recalculate" })}
+                      disabled={actionMutation.isPending}
+                      data-testid="button-payroll-recalculate"
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Recalcular
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => actionMutation.mutate({ id: detail.id, action: "delete" })}
+                      disabled={actionMutation.isPending}
+                      data-testid="button-payroll-delete"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Excluir
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => actionMutation.mutate({ id: detail.id, action: "approve" })}
+                      disabled={actionMutation.isPending || detail.statements.length === 0}
+                      data-testid="button-payroll-approve"
+                    >
+                      <Check className="h-4 w-4 mr-2" />
+                      Aprovar
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {detail.statements.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Nenhum motorista com contrato vigente ou entrega no período
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {detail.statements.map((s) => (
+                    <div key={s.id} className="rounded-md border" data-testid={`row-payroll-statement-${s.driverId}`}>
+                      <div className="flex items-center gap-2 p-3 cursor-pointer" onClick={() => toggle(s.id)}>
+                        {expanded.has(s.id) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium flex items-center gap-2">
+                            {s.driverName ?? s.driverId}
+                            {s.warnings.length > 0 && <AlertTriangle className="h-4 w-4 text-amber-600" />}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {s.contractNumber ? `Contrato ${s.contractNumber}` : "Sem contrato"}
+                            {s.paymentType && ` · ${paymentTypeLabels[s.paymentType] ?? s.paymentType}`}
+                          </p>
+                        </div>
+                        <div className="text-right text-xs">
+                          <p>Ganhos {formatCurrency(s.grossAmount)}</p>
+                          <p className="text-sm font-bold">{formatCurrency(s.netAmount)}</p>
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Demonstrativo em PDF"
+                          onClick={(e) => { e.stopPropagation(); exportMutation.mutate({ kind: "pdf", driverId: s.driverId }); }}
+                          disabled={exportMutation.isPending}
+                          data-testid={`button-payroll-statement-pdf-${s.driverId}`}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {expanded.has(s.id) && (
+                        <div className="border-t px-3 py-2 space-y-1">
+                          {s.lines.length === 0 && <p className="text-xs text-muted-foreground">Nenhum lançamento no período</p>}
+                          {s.lines.map((l, index) => (
+                            <div key={index} className={`flex justify-between gap-4 text-xs ${lineKindStyles[l.kind]}`}>
+                              <span>
+                                {l.description}
+                                {l.estimated && <span className="text-muted-foreground"> (estimado)</span>}
+                              </span>
+                              <span className="whitespace-nowrap">{l.kind === "desconto" ? "-" : ""}{formatCurrency(l.amount)}</span>
+                            </div>
+                          ))}
+                          {s.warnings.map((warning) => (
+                            <p key={warning} className="text-xs text-amber-700 flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              {warning}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -43,7 +43,10 @@ import { normalizeImageUrl, cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Truck, CheckCircle, Clock, Building, MapPin, User, DoorOpen, Loader2, Search, LogOut, Package, Eye, Shield, History, AlertCircle, Plus, ChevronsUpDown, Check as CheckIcon, LayoutGrid, List, ArrowLeftRight, ArrowRight, CheckCircle2 } from "lucide-react";
-import type { Collect, Manufacturer, Yard, Driver, Vehicle, Transport, Client, DeliveryLocation } from "@shared/schema";
+import type { Collect, Manufacturer, Yard, Driver, Vehicle, Transport, Client, DeliveryLocation, GeofenceException, GeofenceSubjectType } from "@shared/schema";
+import { GeofenceExceptionBadge } from "@/components/geofence-exception-badge";
+import { TripExitSection } from "./trip-exit-section";
+import { canTransition } from "@shared/state-machine";
 
 interface TransferWithRelations {
   id: string;
@@ -139,8 +142,12 @@ export default function PortariaPage() {
     queryKey: ["/api/transfers"],
   });
 
+  const { data: geofenceExceptions = [] } = useQuery<GeofenceException[]>({
+    queryKey: ["/api/geofence-exceptions"],
+  });
+
   const pendingTransfersList = transfers.filter((t) => {
-    if (t.status !== "pendente") return false;
+    if (!canTransition("transfer", t.status, "em_transito")) return false;
     if (selectedYardId !== "all" && t.originYardId !== selectedYardId) return false;
     return true;
   });
@@ -236,9 +243,11 @@ export default function PortariaPage() {
   const getYard = (id: string) => yards?.find((y) => y.id === id);
   const getDriver = (id: string) => drivers?.find((d) => d.id === id);
   const getVehicle = (chassi: string) => vehicles?.find((v) => v.chassi === chassi);
+  const getGeofenceExceptions = (subjectType: GeofenceSubjectType, id: string) =>
+    geofenceExceptions.filter((e) => e.subjectType === subjectType && e.subjectId === id);
 
   const pendingCollects = collects?.filter((c) => {
-    if (c.status !== "em_transito") return false;
+    if (!canTransition("collect", c.status, "aguardando_checkout")) return false;
     if (selectedYardId !== "all" && c.yardId !== selectedYardId) return false;
     if (!searchTerm.trim()) return true;
     const search = searchTerm.toLowerCase().trim();
@@ -270,7 +279,9 @@ export default function PortariaPage() {
   };
 
   const pendingTransports = transports?.filter((t) => {
-    if (t.status !== "aguardando_saida" && t.status !== "pendente") return false;
+    if (!canTransition("transport", t.status, "em_transito")) return false;
+    // Vehicles loaded on a trip leave with it
+    if (t.tripId) return false;
     if (selectedYardId !== "all" && t.originYardId !== selectedYardId) return false;
     if (!transportSearchTerm.trim()) return true;
     const search = transportSearchTerm.toLowerCase().trim();
@@ -437,9 +448,15 @@ export default function PortariaPage() {
                             <Truck className="h-4 w-4 text-amber-600" />
                             <span className="font-mono text-sm font-semibold">{collect.vehicleChassi}</span>
                           </div>
-                          <Badge variant="secondary" className="text-xs">
-                            Em Trânsito
-                          </Badge>
+                          <div className="flex items-center gap-1">
+                            <GeofenceExceptionBadge
+                              exceptions={getGeofenceExceptions("collect", collect.id)}
+                              testId={`badge-geofence-collect-${collect.id}`}
+                            />
+                            <Badge variant="secondary" className="text-xs">
+                              Em Trânsito
+                            </Badge>
+                          </div>
                         </div>
                       </CardHeader>
                       <CardContent className="p-4 space-y-3">
@@ -756,6 +773,8 @@ export default function PortariaPage() {
           </CardHeader>
         </Card>
 
+        <TripExitSection yardId={selectedYardId} />
+
         <div className="mb-4 space-y-4">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <h2 className="text-lg font-semibold flex items-center gap-2">
@@ -825,16 +844,22 @@ export default function PortariaPage() {
                         <Truck className={`h-4 w-4 ${isPendingCheckin ? "text-orange-600" : "text-blue-600"}`} />
                         <span className="font-mono text-sm font-semibold">{transport.requestNumber}</span>
                       </div>
-                      {isPendingCheckin ? (
-                        <Badge variant="secondary" className="text-xs bg-orange-500/20 text-orange-700">
-                          <AlertCircle className="h-3 w-3 mr-1" />
-                          Falta Check-in
-                        </Badge>
-                      ) : (
-                        <Badge variant="secondary" className="text-xs bg-blue-500/20 text-blue-700">
-                          Aguardando Saída
-                        </Badge>
-                      )}
+                      <div className="flex items-center gap-1">
+                        <GeofenceExceptionBadge
+                          exceptions={getGeofenceExceptions("transport", transport.id)}
+                          testId={`badge-geofence-transport-${transport.id}`}
+                        />
+                        {isPendingCheckin ? (
+                          <Badge variant="secondary" className="text-xs bg-orange-500/20 text-orange-700">
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            Falta Check-in
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs bg-blue-500/20 text-blue-700">
+                            Aguardando Saída
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="p-4 space-y-3">
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertCircle, Layers, Loader2, LogOut, User } from "lucide-react";
+import type { Driver, TripDetail } from "@shared/schema";
+
+interface TripExitSectionProps {
+  yardId: string;   // "all" or the yard selected at the gate
+}
+
+// Trips (car carrier loads) waiting at the gate. The exit releases every vehicle on board at once;
+// their transports don't show up for individual release.
+export function TripExitSection({ yardId }: TripExitSectionProps) {
+  const { toast } = useToast();
+  const [confirming, setConfirming] = useState<TripDetail | null>(null);
+
+  const { data: trips } = useQuery<TripDetail[]>({ queryKey: ["/api/trips"] });
+  const { data: drivers } = useQuery<Driver[]>({ queryKey: ["/api/drivers"] });
+
+  const waiting = (trips || []).filter(t => t.status === "planejada" && (yardId === "all" || t.originYardId === yardId));
+  const loaded = (trip: TripDetail) => trip.transports.filter(t => t.status !== "cancelado");
+  const missingCheckin = (trip: TripDetail) => loaded(trip).filter(t => t.status === "pendente").length;
+
+  const authorizeMutation = useMutation({
+    mutationFn: async (tripId: string) => {
+      const res = await apiRequest("POST", `/api/portaria/authorize-trip-exit/${tripId}`);
+      return res.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      setConfirming(null);
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      setConfirming(null);
+      toast({ title: "Erro ao autorizar saída da viagem", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (waiting.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-3">
+      <h2 className="text-lg font-semibold flex items-center gap-2">
+        <Layers className="h-5 w-5 text-muted-foreground" />
+        Viagens Aguardando Saída
+        <Badge variant="secondary" className="ml-2">{waiting.length}</Badge>
+      </h2>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {waiting.map((trip) => {
+          const pending = missingCheckin(trip);
+          return (
+            <Card key={trip.id} className="overflow-hidden" data-testid={`card-trip-${trip.id}`}>
+              <CardHeader className="pb-2 border-b bg-gradient-to-r from-blue-500/10 to-blue-500/5">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-sm font-semibold">{trip.tripNumber}</span>
+                  <Badge variant="secondary" className="text-xs bg-blue-500/20 text-blue-700">
+                    {loaded(trip).length} veículo(s)
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="p-4 space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <User className="h-3.5 w-3.5 text-muted-foreground" />
+                  <span className="text-muted-foreground">Motorista:</span>
+                  <span className="font-medium">{drivers?.find(d => d.id === trip.driverId)?.name || "A definir"}</span>
+                </div>
+                <p className="font-mono text-xs text-muted-foreground">
+                  {loaded(trip).map(t => t.requestNumber).join(" · ")}
+                </p>
+                {pending > 0 && (
+                  <p className="flex items-center gap-2 text-xs text-orange-700">
+                    <AlertCircle className="h-3.5 w-3.5" />
+                    {pending} veículo(s) sem check-in
+                  </p>
+                )}
+                <Button
+                  className="w-full"
+                  onClick={() => setConfirming(trip)}
+                  disabled={authorizeMutation.isPending || !trip.driverId}
+                  data-testid={`button-authorize-trip-exit-${trip.id}`}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Autorizar Saída da Viagem
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <AlertDialog open={!!confirming} onOpenChange={(open) => { if (!open) setConfirming(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Autorizar saída da viagem {confirming?.tripNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todos os {confirming ? loaded(confirming).length : 0} veículos da cegonha serão despachados juntos.
+              {confirming && missingCheckin(confirming) > 0 && ` ${missingCheckin(confirming)} ainda não têm check-in do motorista.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirming && authorizeMutation.mutate(confirming.id)}
+              data-testid="button-confirm-trip-exit"
+            >
+              {authorizeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Autorizar Saída
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -53,6 +53,7 @@ import type {
   DeliveryLocation, 
   Yard 
 } from "@shared/schema";
+import { expenseItemAmountBrl } from "@shared/schema";
 
 interface ExpenseSettlementWithRelations extends ExpenseSettlement {
   transport?: Transport & {
@@ -98,6 +99,7 @@ export default function FinanceiroPage() {
     type: string;
     currency: string;
     amount: string;
+    liters: string;
     photoUrl: string;
     description: string;
   }
@@ -116,7 +118,7 @@ export default function FinanceiroPage() {
     driverNotes: string;
     items: ExpenseItemDraft[];
   }>({ transportId: "", driverId: "", driverNotes: "", items: [] });
-  const [newItem, setNewItem] = useState({ type: "", currency: "BRL", amount: "", photoUrl: "", description: "" });
+  const [newItem, setNewItem] = useState({ type: "", currency: "BRL", amount: "", liters: "", expenseDate: "", photoUrl: "", description: "" });
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
   const [uploadingItemIndex, setUploadingItemIndex] = useState<number | null>(null);
 
@@ -149,6 +151,7 @@ export default function FinanceiroPage() {
           type: item.type,
           currency: item.currency || "BRL",
           amount: item.amount,
+          liters: item.type === "combustivel" && item.liters ? item.liters : null,
           photoUrl: item.photoUrl,
           description: item.description,
         });
@@ -219,11 +222,13 @@ export default function FinanceiroPage() {
   }, [updateAdvanceMutation]);
 
   const addItemMutation = useMutation({
-    mutationFn: async (data: { settlementId: string; type: string; currency: string; amount: string; photoUrl: string; description: string }) => {
+    mutationFn: async (data: { settlementId: string; type: string; currency: string; amount: string; liters: string; expenseDate: string; photoUrl: string; description: string }) => {
       return apiRequest("POST", `/api/expense-settlements/${data.settlementId}/items`, {
         type: data.type,
         currency: data.currency,
         amount: data.amount,
+        liters: data.type === "combustivel" && data.liters ? data.liters : null,
+        expenseDate: data.expenseDate || null,
         photoUrl: data.photoUrl,
         description: data.description,
       });
@@ -240,7 +245,7 @@ export default function FinanceiroPage() {
       }
       toast({ title: "Despesa adicionada com sucesso!" });
       setShowAddItemDialog(false);
-      setNewItem({ type: "", currency: "BRL", amount: "", photoUrl: "", description: "" });
+      setNewItem({ type: "", currency: "BRL", amount: "", liters: "", expenseDate: "", photoUrl: "", description: "" });
     },
     onError: () => {
       toast({ title: "Erro ao adicionar despesa", variant: "destructive" });
@@ -344,7 +349,7 @@ export default function FinanceiroPage() {
   const addNewSettlementItem = () => {
     setNewSettlement(prev => ({
       ...prev,
-      items: [...prev.items, { id: crypto.randomUUID(), type: "", currency: "BRL", amount: "", photoUrl: "", description: "" }],
+      items: [...prev.items, { id: crypto.randomUUID(), type: "", currency: "BRL", amount: "", liters: "", photoUrl: "", description: "" }],
     }));
   };
 
@@ -375,6 +380,8 @@ export default function FinanceiroPage() {
       type: newItem.type,
       currency: newItem.currency,
       amount: newItem.amount,
+      liters: newItem.liters,
+      expenseDate: newItem.expenseDate,
       photoUrl: newItem.photoUrl,
       description: newItem.description,
     });
@@ -712,25 +719,25 @@ export default function FinanceiroPage() {
                       <div className="flex justify-between text-xs">
                         <span className="text-muted-foreground">Pedágios:</span>
                         <span className="font-medium">
-                          {formatCurrency((selectedSettlement.items?.filter(i => i.type === "pedagio").reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0).toString())}
+                          {formatCurrency((selectedSettlement.items?.filter(i => i.type === "pedagio").reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0).toString())}
                         </span>
                       </div>
                       <div className="flex justify-between text-xs">
                         <span className="text-muted-foreground">Combustível:</span>
                         <span className="font-medium">
-                          {formatCurrency((selectedSettlement.items?.filter(i => i.type === "combustivel").reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0).toString())}
+                          {formatCurrency((selectedSettlement.items?.filter(i => i.type === "combustivel").reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0).toString())}
                         </span>
                       </div>
                       <div className="flex justify-between text-xs">
                         <span className="text-muted-foreground">Outras:</span>
                         <span className="font-medium">
-                          {formatCurrency((selectedSettlement.items?.filter(i => !["pedagio", "combustivel"].includes(i.type || "")).reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0).toString())}
+                          {formatCurrency((selectedSettlement.items?.filter(i => !["pedagio", "combustivel"].includes(i.type || "")).reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0).toString())}
                         </span>
                       </div>
                       <div className="flex justify-between text-xs font-bold border-t border-green-200 dark:border-green-700 mt-1 pt-1">
                         <span>Total:</span>
                         <span className="text-green-700 dark:text-green-300">
-                          {formatCurrency((selectedSettlement.items?.reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0).toString())}
+                          {formatCurrency((selectedSettlement.items?.reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0).toString())}
                         </span>
                       </div>
                     </div>
@@ -762,13 +769,13 @@ export default function FinanceiroPage() {
                     
                     const realTolls = selectedSettlement.items
                       ?.filter(i => i.type === "pedagio")
-                      .reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0;
+                      .reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0;
                     const realFuel = selectedSettlement.items
                       ?.filter(i => i.type === "combustivel")
-                      .reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0;
+                      .reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0;
                     const realOthers = selectedSettlement.items
                       ?.filter(i => !["pedagio", "combustivel"].includes(i.type || ""))
-                      .reduce((sum, i) => sum + parseFloat(i.amount || "0"), 0) || 0;
+                      .reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0) || 0;
                     const realTotal = realTolls + realFuel + realOthers;
                     
                     const diffTolls = realTolls - estimatedTolls;
@@ -953,10 +960,11 @@ export default function FinanceiroPage() {
                 <CardContent>
                   {(() => {
                     const totalExpenses = selectedSettlement.items?.reduce((sum, item) => 
-                      sum + parseFloat(item.amount || "0"), 0) || 0;
+                      sum + (expenseItemAmountBrl(item) ?? 0), 0) || 0;
                     const currentAdvance = localAdvanceAmount !== "" ? localAdvanceAmount : (selectedSettlement.advanceAmount || "0");
                     const advanceAmount = parseFloat(currentAdvance);
-                    const balance = totalExpenses - advanceAmount;
+                    const deductionsAmount = parseFloat(selectedSettlement.deductionsAmount || "0");
+                    const balance = totalExpenses - advanceAmount - deductionsAmount;
                     
                     return (
                       <div className="space-y-4">
@@ -988,6 +996,13 @@ export default function FinanceiroPage() {
                             </div>
                           </div>
                         </div>
+
+                        {deductionsAmount > 0 && (
+                          <div className="flex items-center justify-between rounded-md border border-destructive/30 bg-destructive/5 p-2 text-sm" data-testid="text-deductions-amount">
+                            <span className="text-muted-foreground">Descontos por avarias (responsabilidade do motorista)</span>
+                            <span className="font-semibold text-destructive">- R$ {deductionsAmount.toFixed(2).replace(".", ",")}</span>
+                          </div>
+                        )}
                         
                         <div className={`p-4 rounded-lg border-2 ${
                           balance > 0 
@@ -1029,6 +1044,7 @@ export default function FinanceiroPage() {
                           </div>
                           <p className="text-xs text-muted-foreground mt-2">
                             Cálculo: Despesas (R$ {totalExpenses.toFixed(2).replace(".", ",")}) - Adiantamento (R$ {advanceAmount.toFixed(2).replace(".", ",")})
+                            {deductionsAmount > 0 && ` - Descontos (R$ ${deductionsAmount.toFixed(2).replace(".", ",")})`}
                           </p>
                         </div>
                       </div>
@@ -1134,6 +1150,18 @@ export default function FinanceiroPage() {
                                   <span className="text-xs text-muted-foreground ml-1">({item.currency})</span>
                                 )}
                               </p>
+                              {item.currency && item.currency !== "BRL" && (
+                                <p className="text-xs text-muted-foreground" data-testid={`text-item-brl-${item.id}`}>
+                                  {item.amountBrl
+                                    ? `${formatCurrency(item.amountBrl)} (cotação ${item.exchangeRate})`
+                                    : "Sem cotação para a data"}
+                                </p>
+                              )}
+                              {item.policyFlag && (
+                                <p className="text-xs text-destructive mt-1" data-testid={`text-policy-flag-${item.id}`}>
+                                  {item.policyFlag}
+                                </p>
+                              )}
                               {item.description && (
                                 <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
                                   {item.description}
@@ -1464,6 +1492,22 @@ export default function FinanceiroPage() {
                             />
                           </div>
 
+                          {item.type === "combustivel" && (
+                            <div className="col-span-3 space-y-1">
+                              <Label className="text-xs">Litros abastecidos</Label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                placeholder="0"
+                                value={item.liters}
+                                onChange={(e) => updateNewSettlementItem(index, "liters", e.target.value)}
+                                className="h-9"
+                                data-testid={`input-liters-${index}`}
+                              />
+                            </div>
+                          )}
+
                           <div className="col-span-3 space-y-1">
                             <Label className="text-xs">Observação</Label>
                             <Input
@@ -1662,6 +1706,36 @@ export default function FinanceiroPage() {
               />
             </div>
 
+            {newItem.type === "combustivel" && (
+              <div className="space-y-2">
+                <Label>Litros abastecidos</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0"
+                  value={newItem.liters}
+                  onChange={(e) => setNewItem(prev => ({ ...prev, liters: e.target.value }))}
+                  data-testid="input-expense-liters"
+                />
+              </div>
+            )}
+
+            {newItem.currency !== "BRL" && (
+              <div className="space-y-2">
+                <Label>Data da despesa</Label>
+                <Input
+                  type="date"
+                  value={newItem.expenseDate}
+                  onChange={(e) => setNewItem(prev => ({ ...prev, expenseDate: e.target.value }))}
+                  data-testid="input-expense-date"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Usada para buscar a cotação em reais. Em branco, vale a data de lançamento.
+                </p>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Observação</Label>
               <Textarea
@@ -1679,7 +1753,7 @@ export default function FinanceiroPage() {
               variant="outline" 
               onClick={() => {
                 setShowAddItemDialog(false);
-                setNewItem({ type: "", currency: "BRL", amount: "", photoUrl: "", description: "" });
+                setNewItem({ type: "", currency: "BRL", amount: "", liters: "", expenseDate: "", photoUrl: "", description: "" });
               }}
             >
               Cancelar
@@ -1,7 +1,269 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { PageHeader } from "@/components/page-header";
-import { Radio } from "lucide-react";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Search, Pencil, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Driver, Tracker, TrackerVendor } from "@shared/schema";
+
+const vendorOptions: { value: TrackerVendor; label: string }[] = [
+  { value: "generic", label: "Genérico (JSON / Webhook)" },
+  { value: "gt06", label: "GT06 (Concox)" },
+  { value: "suntech", label: "Suntech" },
+];
+
+const vendorLabelMap: Record<string, string> = {};
+vendorOptions.forEach(o => { vendorLabelMap[o.value] = o.label; });
+
+const NO_DRIVER = "none";
 
 export default function RastreadoresPage() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTracker, setEditingTracker] = useState<Tracker | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const [formImei, setFormImei] = useState("");
+  const [formVendor, setFormVendor] = useState<TrackerVendor | "">("");
+  const [formModel, setFormModel] = useState("");
+  const [formSimNumber, setFormSimNumber] = useState("");
+  const [formSimCarrier, setFormSimCarrier] = useState("");
+  const [formTruckPlate, setFormTruckPlate] = useState("");
+  const [formDriverId, setFormDriverId] = useState(NO_DRIVER);
+  const [formActive, setFormActive] = useState(true);
+  const [formNotes, setFormNotes] = useState("");
+
+  const { data: trackers, isLoading } = useQuery<Tracker[]>({
+    queryKey: ["/api/trackers"],
+    refetchInterval: 30000,
+  });
+
+  const { data: drivers } = useQuery<Driver[]>({
+    queryKey: ["/api/drivers"],
+  });
+
+  const driverName = (id: string | null) => drivers?.find(d => d.id === id)?.name;
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      await apiRequest("POST", "/api/trackers", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trackers"] });
+      closeDialog();
+      toast({ title: "Rastreador cadastrado com sucesso" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cadastrar rastreador", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: any }) => {
+      await apiRequest("PATCH", `/api/trackers/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trackers"] });
+      closeDialog();
+      toast({ title: "Rastreador atualizado com sucesso" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao atualizar rastreador", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/trackers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trackers"] });
+      setDeletingId(null);
+      toast({ title: "Rastreador removido com sucesso" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao remover rastreador", variant: "destructive" });
+    },
+  });
+
+  const resetForm = () => {
+    setFormImei("");
+    setFormVendor("");
+    setFormModel("");
+    setFormSimNumber("");
+    setFormSimCarrier("");
+    setFormTruckPlate("");
+    setFormDriverId(NO_DRIVER);
+    setFormActive(true);
+    setFormNotes("");
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingTracker(null);
+    resetForm();
+  };
+
+  const openAddDialog = () => {
+    setEditingTracker(null);
+    resetForm();
+    setShowDialog(true);
+  };
+
+  const openEditDialog = (tracker: Tracker) => {
+    setEditingTracker(tracker);
+    setFormImei(tracker.imei);
+    setFormVendor(tracker.vendor);
+    setFormModel(tracker.model || "");
+    setFormSimNumber(tracker.simNumber || "");
+    setFormSimCarrier(tracker.simCarrier || "");
+    setFormTruckPlate(tracker.truckPlate || "");
+    setFormDriverId(tracker.driverId || NO_DRIVER);
+    setFormActive(tracker.isActive !== "false");
+    setFormNotes(tracker.notes || "");
+    setShowDialog(true);
+  };
+
+  const handleSubmit = () => {
+    if (!/^\d{6,20}$/.test(formImei.trim())) {
+      toast({ title: "IMEI deve conter apenas números (6 a 20 dígitos)", variant: "destructive" });
+      return;
+    }
+    if (!formVendor) {
+      toast({ title: "Fabricante / protocolo é obrigatório", variant: "destructive" });
+      return;
+    }
+
+    const data: any = {
+      imei: formImei.trim(),
+      vendor: formVendor,
+      model: formModel.trim() || null,
+      simNumber: formSimNumber.trim() || null,
+      simCarrier: formSimCarrier.trim() || null,
+      truckPlate: formTruckPlate.trim().toUpperCase() || null,
+      driverId: formDriverId === NO_DRIVER ? null : formDriverId,
+      isActive: formActive ? "true" : "false",
+      notes: formNotes.trim() || null,
+    };
+
+    if (editingTracker) {
+      updateMutation.mutate({ id: editingTracker.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredTrackers = (trackers || []).filter(t =>
+    t.imei.includes(term) ||
+    (t.truckPlate || "").toLowerCase().includes(term) ||
+    (t.simNumber || "").includes(term) ||
+    (driverName(t.driverId) || "").toLowerCase().includes(term)
+  );
+
+  const columns = [
+    { key: "imei", label: "IMEI" },
+    {
+      key: "vendor",
+      label: "Protocolo",
+      render: (t: Tracker) => (
+        <div>
+          <p>{vendorLabelMap[t.vendor] || t.vendor}</p>
+          {t.model && <p className="text-xs text-muted-foreground">{t.model}</p>}
+        </div>
+      ),
+    },
+    {
+      key: "simNumber",
+      label: "Chip",
+      render: (t: Tracker) => t.simNumber ? `${t.simNumber}${t.simCarrier ? ` · ${t.simCarrier}` : ""}` : "—",
+    },
+    {
+      key: "truckPlate",
+      label: "Placa",
+      render: (t: Tracker) => t.truckPlate || "—",
+    },
+    {
+      key: "driverId",
+      label: "Motorista",
+      render: (t: Tracker) => driverName(t.driverId) || "—",
+    },
+    {
+      key: "lastSeenAt",
+      label: "Última Comunicação",
+      render: (t: Tracker) =>
+        t.lastSeenAt
+          ? formatDistanceToNow(new Date(t.lastSeenAt), { addSuffix: true, locale: ptBR })
+          : "Nunca",
+    },
+    {
+      key: "isActive",
+      label: "Status",
+      render: (t: Tracker) => t.isActive === "false"
+        ? <Badge variant="secondary">Inativo</Badge>
+        : <Badge>Ativo</Badge>,
+    },
+    {
+      key: "actions",
+      label: "",
+      className: "w-24",
+      render: (t: Tracker) => (
+        <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={(e) => { e.stopPropagation(); openEditDialog(t); }}
+            data-testid={`button-edit-tracker-${t.id}`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={(e) => { e.stopPropagation(); setDeletingId(t.id); }}
+            data-testid={`button-delete-tracker-${t.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
   return (
     <div className="flex flex-col">
       <PageHeader
@@ -11,13 +273,167 @@ export default function RastreadoresPage() {
           { label: "Rastreadores" },
         ]}
       />
-      <div className="flex-1 flex items-center justify-center p-12 text-muted-foreground">
-        <div className="text-center space-y-3">
-          <Radio className="h-12 w-12 mx-auto opacity-30" />
-          <p className="text-lg font-medium">Rastreadores</p>
-          <p className="text-sm">Esta funcionalidade está sendo configurada.</p>
+      <div className="flex-1 overflow-auto p-4 md:p-6">
+        <div className="mb-4 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="relative max-w-sm flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por IMEI, placa, chip ou motorista..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+              data-testid="input-search-trackers"
+            />
+          </div>
+          <Button onClick={openAddDialog} data-testid="button-add-tracker">
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Rastreador
+          </Button>
         </div>
+
+        <DataTable
+          columns={columns}
+          data={filteredTrackers}
+          isLoading={isLoading}
+          keyField="id"
+          onRowClick={openEditDialog}
+          emptyMessage="Nenhum rastreador cadastrado"
+        />
       </div>
+
+      <Dialog open={showDialog} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingTracker ? "Editar Rastreador" : "Novo Rastreador"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="col-span-2 space-y-2">
+              <Label>IMEI / ID do Equipamento</Label>
+              <Input
+                value={formImei}
+                onChange={(e) => setFormImei(e.target.value.replace(/\D/g, ""))}
+                placeholder="Ex: 359710040000001"
+                data-testid="input-tracker-imei"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Protocolo</Label>
+              <Select value={formVendor} onValueChange={(v) => setFormVendor(v as TrackerVendor)}>
+                <SelectTrigger data-testid="select-tracker-vendor">
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendorOptions.map(opt => (
+                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Modelo</Label>
+              <Input
+                value={formModel}
+                onChange={(e) => setFormModel(e.target.value)}
+                placeholder="Ex: GT06N, ST340"
+                data-testid="input-tracker-model"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Número do Chip</Label>
+              <Input
+                value={formSimNumber}
+                onChange={(e) => setFormSimNumber(e.target.value)}
+                placeholder="Ex: 11999990000"
+                data-testid="input-tracker-sim"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Operadora</Label>
+              <Input
+                value={formSimCarrier}
+                onChange={(e) => setFormSimCarrier(e.target.value)}
+                placeholder="Ex: Vivo, Claro"
+                data-testid="input-tracker-carrier"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Placa do Caminhão</Label>
+              <Input
+                value={formTruckPlate}
+                onChange={(e) => setFormTruckPlate(e.target.value)}
+                placeholder="Ex: ABC1D23"
+                maxLength={10}
+                data-testid="input-tracker-plate"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Motorista</Label>
+              <Select value={formDriverId} onValueChange={setFormDriverId}>
+                <SelectTrigger data-testid="select-tracker-driver">
+                  <SelectValue placeholder="Nenhum" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DRIVER}>Nenhum</SelectItem>
+                  {drivers?.filter(d => d.isActive !== "false").map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Observações</Label>
+              <Textarea
+                value={formNotes}
+                onChange={(e) => setFormNotes(e.target.value)}
+                rows={2}
+                data-testid="input-tracker-notes"
+              />
+            </div>
+            <div className="col-span-2 flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label>Ativo</Label>
+                <p className="text-xs text-muted-foreground">
+                  Posições de rastreadores inativos são descartadas
+                </p>
+              </div>
+              <Switch checked={formActive} onCheckedChange={setFormActive} data-testid="switch-tracker-active" />
+            </div>
+            <p className="col-span-2 text-xs text-muted-foreground">
+              As posições recebidas são vinculadas ao transporte ou coleta em andamento do motorista.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+              data-testid="button-save-tracker"
+            >
+              {editingTracker ? "Salvar" : "Cadastrar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => { if (!open) setDeletingId(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover Rastreador</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja remover este rastreador? As posições já recebidas são mantidas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingId && deleteMutation.mutate(deletingId)}
+              data-testid="button-confirm-delete-tracker"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -11,7 +11,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2, Route, Clock, MapPin, DollarSign, Navigation, ArrowRight, Plus, X, GripVertical, Search } from "lucide-react";
+import { Loader2, Route, Clock, MapPin, DollarSign, Navigation, ArrowRight, Plus, X, GripVertical, Search, ListOrdered } from "lucide-react";
 import type { Yard, Client, DeliveryLocation } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -31,11 +31,29 @@ interface RouteResult {
   distance: { text: string; value: number };
   duration: { text: string; value: number };
   durationInTraffic?: { text: string; value: number };
-  tollCost?: { amount: string; currency: string };
+  tollCost?: { amount: string; currency: string; isEstimate?: boolean };
   originAddress: string;
   destinationAddress: string;
   waypointAddresses?: string[];
   polyline?: string;
+  provider: string;
+}
+
+interface SequenceLeg {
+  from: string;
+  to: string;
+  distanceKm: number;
+  durationMinutes: number;
+  estimatedToll: number;
+}
+
+interface SequenceResult {
+  stops: { key: string }[];
+  legs: SequenceLeg[];
+  totalDistanceKm: number;
+  estimatedTolls: number;
+  routingProvider: string;
+  tollsEstimated: boolean;
 }
 
 export default function RoutingPage() {
@@ -53,6 +71,8 @@ export default function RoutingPage() {
   const [error, setError] = useState<string | null>(null);
   const [avoidTolls, setAvoidTolls] = useState(false);
   const [avoidHighways, setAvoidHighways] = useState(false);
+  const [isSequencing, setIsSequencing] = useState(false);
+  const [sequenceResult, setSequenceResult] = useState<SequenceResult | null>(null);
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
   const directionsRendererRef = useRef<google.maps.DirectionsRenderer | null>(null);
@@ -199,6 +219,7 @@ export default function RoutingPage() {
           lng: data.lng,
         };
         setWaypoints([...waypoints, newWaypoint]);
+        setSequenceResult(null);
         setNewWaypointAddress("");
         setSuggestions([]);
         setError(null);
@@ -214,6 +235,39 @@ export default function RoutingPage() {
 
   const removeWaypoint = (id: string) => {
     setWaypoints(waypoints.filter(wp => wp.id !== id));
+    setSequenceResult(null);
+  };
+
+  // Reorders the intermediate points into the shortest sequence between the yard and the destination
+  const optimizeWaypoints = async () => {
+    const yard = activeYards.find(y => y.id === selectedYard);
+    const location = deliveryLocations?.find(l => l.id === selectedLocation);
+    const located = waypoints.filter(wp => wp.lat && wp.lng);
+    if (!yard || located.length < 2) return;
+
+    setIsSequencing(true);
+    setError(null);
+
+    try {
+      const response = await apiRequest("POST", "/api/routing/sequence", {
+        originYardId: yard.id,
+        destination: location?.latitude && location?.longitude
+          ? { lat: parseFloat(location.latitude), lng: parseFloat(location.longitude), label: location.name }
+          : undefined,
+        stops: located.map(wp => ({ key: wp.id, lat: wp.lat!, lng: wp.lng!, label: wp.address })),
+      });
+      const result: SequenceResult = await response.json();
+      const ordered = result.stops
+        .map(stop => waypoints.find(wp => wp.id === stop.key))
+        .filter((wp): wp is Waypoint => !!wp);
+      setWaypoints([...ordered, ...waypoints.filter(wp => !ordered.includes(wp))]);
+      setSequenceResult(result);
+      setRouteResult(null);
+    } catch {
+      setError("Erro ao otimizar a ordem dos pontos intermediários.");
+    } finally {
+      setIsSequencing(false);
+    }
   };
 
   const calculateRoute = async () => {
@@ -357,6 +411,38 @@ export default function RoutingPage() {
                   </div>
                 )}
 
+                {waypoints.length > 1 && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    onClick={optimizeWaypoints}
+                    disabled={isSequencing || !selectedYard}
+                    data-testid="button-optimize-waypoints"
+                  >
+                    {isSequencing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListOrdered className="mr-2 h-4 w-4" />}
+                    Otimizar Ordem das Paradas
+                  </Button>
+                )}
+
+                {sequenceResult && (
+                  <div className="space-y-1 rounded-md border p-3 text-xs" data-testid="sequence-legs">
+                    {sequenceResult.legs.map((leg, index) => (
+                      <div key={index} className="flex items-center justify-between gap-2">
+                        <span className="truncate" title={`${leg.from} → ${leg.to}`}>{index + 1}. {leg.to}</span>
+                        <span className="shrink-0 text-muted-foreground">
+                          {leg.distanceKm.toLocaleString("pt-BR")} km · {Math.floor(leg.durationMinutes / 60)} h {leg.durationMinutes % 60} min · R$ {leg.estimatedToll.toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                    <p className="pt-1 border-t text-muted-foreground">
+                      Total {sequenceResult.totalDistanceKm.toLocaleString("pt-BR")} km · pedágios R$ {sequenceResult.estimatedTolls.toFixed(2)}
+                      {sequenceResult.routingProvider.includes("haversine") && " (distâncias estimadas em linha reta)"}
+                    </p>
+                  </div>
+                )}
+
                 <div className="relative" ref={suggestionsRef}>
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -514,9 +600,16 @@ export default function RoutingPage() {
                       <DollarSign className="h-4 w-4 text-green-500" />
                       <span className="font-medium">Pedágio estimado:</span>
                       <span>R$ {routeResult.tollCost.amount}</span>
+                      {routeResult.tollCost.isEstimate && <span className="text-xs text-muted-foreground">(média por km)</span>}
                     </div>
                   )}
 
+                  {routeResult.provider === "haversine" && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-route-estimated">
+                      Distância e tempo estimados em linha reta (provedor de rotas indisponível)
+                    </p>
+                  )}
+
                   <div className="text-xs text-muted-foreground pt-2 border-t space-y-1">
                     <p><strong>Origem:</strong> {routeResult.originAddress}</p>
                     {routeResult.waypointAddresses && routeResult.waypointAddresses.length > 0 && (
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { useRealtimeEvent } from "@/hooks/use-realtime";
 import { PageHeader } from "@/components/page-header";
 import {
   Truck,
@@ -24,8 +25,9 @@ import {
   Save,
   LayoutList,
   LayoutGrid,
+  Radar,
 } from "lucide-react";
-import type { Transport, Checkpoint, TransportCheckpoint } from "@shared/schema";
+import type { Transport, Checkpoint, TransportCheckpoint, CheckpointEvent } from "@shared/schema";
 
 interface TransportWithDetails extends Transport {
   vehicle?: { model: string; chassi: string };
@@ -36,6 +38,17 @@ interface TransportWithDetails extends Transport {
   checkpoints?: (TransportCheckpoint & { checkpoint: Checkpoint })[];
 }
 
+interface CheckpointEventWithDetails extends CheckpointEvent {
+  checkpoint: { name: string; city: string | null; state: string | null } | null;
+  transport: { requestNumber: string } | null;
+}
+
+const eventStatusLabels: Record<string, string> = {
+  pendente: "Reaberto",
+  alcancado: "Chegou em",
+  concluido: "Saiu de",
+};
+
 function formatDate(date: string | Date | null | undefined) {
   if (!date) return "-";
   return new Date(date).toLocaleDateString("pt-BR", {
@@ -365,6 +378,20 @@ export default function TimelineCheckpointsPage() {
     queryKey: ["/api/checkpoints"],
   });
 
+  const { data: checkpointEvents } = useQuery<CheckpointEventWithDetails[]>({
+    queryKey: ["/api/checkpoint-events?limit=20"],
+  });
+
+  // Timelines and the feed refresh on their own; arrivals detected by the geofence are also announced
+  useRealtimeEvent(["checkpoint.reached"], (event) => {
+    if (event.type !== "checkpoint.reached" || event.source !== "geofence") return;
+    const transport = transports?.find((t) => t.id === event.transportId);
+    const checkpoint = allCheckpoints?.find((c) => c.id === event.checkpointId);
+    toast({
+      title: `${transport?.requestNumber ?? "Transporte"}: ${eventStatusLabels.alcancado} ${checkpoint?.name ?? "checkpoint"}`,
+    });
+  });
+
   const assignCheckpointsMutation = useMutation({
     mutationFn: async ({ transportId, checkpointIds }: { transportId: string; checkpointIds: string[] }) => {
       const response = await fetch(`/api/transports/${transportId}/checkpoints`, {
@@ -480,6 +507,39 @@ export default function TimelineCheckpointsPage() {
           </div>
         </div>
 
+        {checkpointEvents && checkpointEvents.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Radar className="h-4 w-4 text-primary" />
+                Eventos Recentes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {checkpointEvents.slice(0, 6).map((event) => (
+                  <div key={event.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`checkpoint-event-${event.id}`}>
+                    <div className="flex items-center gap-2 min-w-0">
+                      <MapPin className={`h-4 w-4 shrink-0 ${event.status === "alcancado" ? "text-blue-500" : "text-green-500"}`} />
+                      <span className="font-medium">{event.transport?.requestNumber}</span>
+                      <span className="truncate text-muted-foreground">
+                        {eventStatusLabels[event.status] ?? event.status} {event.checkpoint?.name}
+                        {event.checkpoint?.city && ` (${event.checkpoint.city}/${event.checkpoint.state})`}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline" className="text-xs">
+                        {event.source === "geofence" ? "Cerca virtual" : "Manual"}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{formatDate(event.occurredAt)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="grid gap-4 md:grid-cols-2">
             {[1, 2, 3, 4].map((i) => (
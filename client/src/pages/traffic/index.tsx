@@ -3,7 +3,7 @@ import { PageHeader } from "@/components/page-header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Truck, MapPin, Clock, User, Building2, Package, Navigation, AlertTriangle, ArrowRight, RefreshCcw } from "lucide-react";
-import type { Transport, Collect, Driver, Yard, Manufacturer, Client, DeliveryLocation } from "@shared/schema";
+import type { Transport, Collect, Driver, Yard, Manufacturer, Client, DeliveryLocation, TrackingPosition } from "@shared/schema";
 import { format, formatDistanceToNow, differenceInHours } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
@@ -24,11 +24,22 @@ type CollectWithRelations = Collect & {
   driver?: Driver | null;
 };
 
+type LiveTrackingEntry = {
+  subjectType: "transport" | "collect" | "transfer";
+  subjectId: string;
+  lastPosition: TrackingPosition;
+  trail: { lat: number; lng: number; recordedAt: string }[];
+};
+
 type VehicleMarker = {
   id: string;
   type: "transport" | "collect";
   lat: number;
   lng: number;
+  // Set when the position comes from GPS tracking instead of the check-in coordinates
+  lastSeenAt: string | null;
+  speedKmh: string | null;
+  trail: { lat: number; lng: number }[];
   chassi: string;
   driverName: string;
   status: string;
@@ -42,6 +53,7 @@ export default function TrafficPage() {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
   const markersRef = useRef<google.maps.marker.AdvancedMarkerElement[]>([]);
+  const trailsRef = useRef<google.maps.Polyline[]>([]);
   const [selectedVehicle, setSelectedVehicle] = useState<VehicleMarker | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [mapsLoaded, setMapsLoaded] = useState(false);
@@ -70,19 +82,54 @@ export default function TrafficPage() {
 
   const { data: transports, isLoading: loadingTransports, refetch: refetchTransports } = useQuery<TransportWithRelations[]>({
     queryKey: ["/api/transports"],
-    refetchInterval: 30000,
   });
 
   const { data: collects, isLoading: loadingCollects, refetch: refetchCollects } = useQuery<CollectWithRelations[]>({
     queryKey: ["/api/collects"],
-    refetchInterval: 30000,
+  });
+
+  const { data: liveTracking, refetch: refetchLiveTracking } = useQuery<LiveTrackingEntry[]>({
+    queryKey: ["/api/tracking/live"],
   });
 
   const handleRefresh = useCallback(() => {
     refetchTransports();
     refetchCollects();
+    refetchLiveTracking();
     setLastUpdate(new Date());
-  }, [refetchTransports, refetchCollects]);
+  }, [refetchTransports, refetchCollects, refetchLiveTracking]);
+
+  const liveBySubject = useMemo(() => {
+    const map = new Map<string, LiveTrackingEntry>();
+    liveTracking?.forEach((entry) => map.set(`${entry.subjectType}:${entry.subjectId}`, entry));
+    return map;
+  }, [liveTracking]);
+
+  const resolvePosition = (
+    type: "transport" | "collect",
+    id: string,
+    fallbackLat: string | null,
+    fallbackLng: string | null,
+  ) => {
+    const live = liveBySubject.get(`${type}:${id}`);
+    if (live) {
+      return {
+        lat: parseFloat(live.lastPosition.latitude),
+        lng: parseFloat(live.lastPosition.longitude),
+        lastSeenAt: String(live.lastPosition.recordedAt),
+        speedKmh: live.lastPosition.speedKmh,
+        trail: live.trail.map((p) => ({ lat: p.lat, lng: p.lng })),
+      };
+    }
+    if (!fallbackLat || !fallbackLng) return null;
+    return {
+      lat: parseFloat(fallbackLat),
+      lng: parseFloat(fallbackLng),
+      lastSeenAt: null,
+      speedKmh: null,
+      trail: [],
+    };
+  };
 
   const activeTransports = transports?.filter(
     (t) => t.status === "em_transito" || t.status === "aguardando_saida"
@@ -108,50 +155,48 @@ export default function TrafficPage() {
   const deliveredTransports = transports?.filter((t) => t.status === "entregue") || [];
 
   const vehicleMarkers: VehicleMarker[] = useMemo(() => [
-    ...activeTransports
-      .filter((t) => t.checkinLatitude && t.checkinLongitude)
-      .map((t) => {
-        const hoursInTransit = t.checkinDateTime 
-          ? differenceInHours(new Date(), new Date(t.checkinDateTime))
-          : 0;
-        return {
-          id: t.id,
-          type: "transport" as const,
-          lat: parseFloat(t.checkinLatitude!),
-          lng: parseFloat(t.checkinLongitude!),
-          chassi: t.vehicleChassi || t.vehicle?.chassi || "N/A",
-          driverName: t.driver?.name || "Sem motorista",
-          status: t.status,
-          isDelayed: hoursInTransit > 24,
-          hoursInTransit,
-          origin: t.originYard?.name || "N/A",
-          destination: t.deliveryLocation?.name || "N/A",
-        };
-      }),
-    ...activeCollects
-      .filter((c) => c.checkinLatitude && c.checkinLongitude)
-      .map((c) => {
-        const hoursInTransit = c.checkinDateTime 
-          ? differenceInHours(new Date(), new Date(c.checkinDateTime))
-          : 0;
-        return {
-          id: c.id,
-          type: "collect" as const,
-          lat: parseFloat(c.checkinLatitude!),
-          lng: parseFloat(c.checkinLongitude!),
-          chassi: c.vehicleChassi,
-          driverName: c.driver?.name || "Sem motorista",
-          status: c.status,
-          isDelayed: hoursInTransit > 24,
-          hoursInTransit,
-          origin: c.manufacturer?.name || "N/A",
-          destination: c.yard?.name || "N/A",
-        };
-      }),
-  ], [activeTransports, activeCollects]);
+    ...activeTransports.flatMap((t) => {
+      const position = resolvePosition("transport", t.id, t.checkinLatitude, t.checkinLongitude);
+      if (!position) return [];
+      const hoursInTransit = t.checkinDateTime 
+        ? differenceInHours(new Date(), new Date(t.checkinDateTime))
+        : 0;
+      return [{
+        id: t.id,
+        type: "transport" as const,
+        ...position,
+        chassi: t.vehicleChassi || t.vehicle?.chassi || "N/A",
+        driverName: t.driver?.name || "Sem motorista",
+        status: t.status,
+        isDelayed: hoursInTransit > 24,
+        hoursInTransit,
+        origin: t.originYard?.name || "N/A",
+        destination: t.deliveryLocation?.name || "N/A",
+      }];
+    }),
+    ...activeCollects.flatMap((c) => {
+      const position = resolvePosition("collect", c.id, c.checkinLatitude, c.checkinLongitude);
+      if (!position) return [];
+      const hoursInTransit = c.checkinDateTime 
+        ? differenceInHours(new Date(), new Date(c.checkinDateTime))
+        : 0;
+      return [{
+        id: c.id,
+        type: "collect" as const,
+        ...position,
+        chassi: c.vehicleChassi,
+        driverName: c.driver?.name || "Sem motorista",
+        status: c.status,
+        isDelayed: hoursInTransit > 24,
+        hoursInTransit,
+        origin: c.manufacturer?.name || "N/A",
+        destination: c.yard?.name || "N/A",
+      }];
+    }),
+  ], [activeTransports, activeCollects, liveBySubject]);
 
   const markersKey = useMemo(() => 
-    vehicleMarkers.map(v => `${v.id}:${v.lat}:${v.lng}:${v.status}:${v.isDelayed}`).join("|"),
+    vehicleMarkers.map(v => `${v.id}:${v.lat}:${v.lng}:${v.status}:${v.isDelayed}:${v.trail.length}`).join("|"),
     [vehicleMarkers]
   );
 
@@ -177,6 +222,20 @@ export default function TrafficPage() {
 
       markersRef.current.forEach((marker) => (marker.map = null));
       markersRef.current = [];
+      trailsRef.current.forEach((trail) => trail.setMap(null));
+      trailsRef.current = [];
+
+      vehicleMarkers
+        .filter((vehicle) => vehicle.trail.length > 1)
+        .forEach((vehicle) => {
+          trailsRef.current.push(new google.maps.Polyline({
+            map: mapInstanceRef.current!,
+            path: vehicle.trail,
+            strokeColor: vehicle.isDelayed ? "#ef4444" : vehicle.type === "transport" ? "#f97316" : "#3b82f6",
+            strokeOpacity: 0.7,
+            strokeWeight: 3,
+          }));
+        });
 
       vehicleMarkers.forEach((vehicle) => {
         const markerElement = document.createElement("div");
@@ -219,7 +278,10 @@ export default function TrafficPage() {
 
       if (vehicleMarkers.length > 0) {
         const bounds = new google.maps.LatLngBounds();
-        vehicleMarkers.forEach((v) => bounds.extend({ lat: v.lat, lng: v.lng }));
+        vehicleMarkers.forEach((v) => {
+          bounds.extend({ lat: v.lat, lng: v.lng });
+          v.trail.forEach((point) => bounds.extend(point));
+        });
         mapInstanceRef.current.fitBounds(bounds, 50);
       }
     };
@@ -413,6 +475,20 @@ export default function TrafficPage() {
                         {selectedVehicle.isDelayed && " (ATRASADO)"}
                       </p>
                     </div>
+                    <div className="col-span-2">
+                      <p className="text-xs text-muted-foreground">Última Posição</p>
+                      <p className="font-medium">
+                        {selectedVehicle.lastSeenAt
+                          ? `${formatDistanceToNow(new Date(selectedVehicle.lastSeenAt), { addSuffix: true, locale: ptBR })}${selectedVehicle.speedKmh ? ` · ${Math.round(Number(selectedVehicle.speedKmh))} km/h` : ""}`
+                          : "Sem GPS (local do check-in)"}
+                      </p>
+                    </div>
+                    <div className="col-span-2">
+                      <p className="text-xs text-muted-foreground">Percurso</p>
+                      <p className="font-medium">
+                        {selectedVehicle.trail.length > 0 ? `${selectedVehicle.trail.length} pontos registrados` : "—"}
+                      </p>
+                    </div>
                     <div className="col-span-2">
                       <p className="text-xs text-muted-foreground">Origem</p>
                       <p className="font-medium">{selectedVehicle.origin}</p>
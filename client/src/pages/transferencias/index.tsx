@@ -51,6 +51,7 @@ import {
   List,
 } from "lucide-react";
 import type { Yard, Vehicle } from "@shared/schema";
+import { canTransition } from "@shared/state-machine";
 
 interface TransferWithRelations {
   id: string;
@@ -315,7 +316,7 @@ export default function TransferenciasPage() {
                         <span className="text-xs text-muted-foreground hidden sm:block">
                           {format(new Date(t.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
                         </span>
-                        {t.status === "em_transito" && (
+                        {canTransition("transfer", t.status, "concluida") && (
                           <Button
                             size="sm"
                             onClick={() => setCompleteId(t.id)}
@@ -325,7 +326,7 @@ export default function TransferenciasPage() {
                             Finalizar Transferência
                           </Button>
                         )}
-                        {(t.status === "pendente" || t.status === "em_transito") && (
+                        {canTransition("transfer", t.status, "cancelada") && (
                           <Button
                             size="sm"
                             variant="outline"
@@ -387,7 +388,7 @@ export default function TransferenciasPage() {
                         </td>
                         <td className="px-4 py-3">
                           <div className="flex items-center gap-1 justify-end">
-                            {t.status === "em_transito" && (
+                            {canTransition("transfer", t.status, "concluida") && (
                               <Button
                                 size="sm"
                                 onClick={() => setCompleteId(t.id)}
@@ -397,7 +398,7 @@ export default function TransferenciasPage() {
                                 Finalizar
                               </Button>
                             )}
-                            {(t.status === "pendente" || t.status === "em_transito") && (
+                            {canTransition("transfer", t.status, "cancelada") && (
                               <Button
                                 size="sm"
                                 variant="outline"
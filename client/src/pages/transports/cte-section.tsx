@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Download, FileText, Loader2, Send } from "lucide-react";
+import type { FreightContract, TransportCte } from "@shared/schema";
+
+interface TransportCteSectionProps {
+  transportId: string;
+  clientId: string;
+}
+
+const AUTO_CONTRACT = "auto";
+
+const statusLabels: Record<TransportCte["status"], { label: string; className: string }> = {
+  gerado: { label: "Gerado", className: "bg-blue-500/20 text-blue-700" },
+  autorizado: { label: "Autorizado", className: "bg-green-500/20 text-green-700" },
+  rejeitado: { label: "Rejeitado", className: "bg-red-500/20 text-red-700" },
+};
+
+const formatCurrency = (value: string) =>
+  parseFloat(value).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// apiRequest errors read "<status>: <body>"; generation failures carry the list of fields to fix
+function parseErrorBody(error: Error): { message: string; errors: string[] } {
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return { message: body.message ?? error.message, errors: Array.isArray(body.errors) ? body.errors.filter((e: unknown) => typeof e === "string") : [] };
+  } catch {
+    return { message: error.message, errors: [] };
+  }
+}
+
+export function TransportCteSection({ transportId, clientId }: TransportCteSectionProps) {
+  const { toast } = useToast();
+  const [contractId, setContractId] = useState(AUTO_CONTRACT);
+  const [cargoValue, setCargoValue] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const { data: cte, isLoading } = useQuery<TransportCte | null>({
+    queryKey: ["/api/transports", transportId, "cte"],
+  });
+
+  const { data: contracts } = useQuery<FreightContract[]>({
+    queryKey: ["/api/freight-contracts"],
+  });
+  const clientContracts = (contracts ?? []).filter((c) => c.clientId === clientId);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/transports", transportId, "cte"] });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/transports/${transportId}/cte`, {
+        freightContractId: contractId === AUTO_CONTRACT ? null : contractId,
+        cargoValue: cargoValue ? parseFloat(cargoValue.replace(",", ".")) : null,
+      });
+      return res.json() as Promise<TransportCte>;
+    },
+    onSuccess: (generated) => {
+      setErrors([]);
+      invalidate();
+      toast({ title: `CT-e ${generated.number} gerado`, description: "Revise os dados e transmita para autorização." });
+    },
+    onError: (error: Error) => {
+      const { message, errors } = parseErrorBody(error);
+      setErrors(errors);
+      toast({ title: "Erro ao gerar CT-e", description: message, variant: "destructive" });
+    },
+  });
+
+  const transmitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/transports/${transportId}/cte/transmit`);
+      return res.json() as Promise<TransportCte>;
+    },
+    onSuccess: (transmitted) => {
+      invalidate();
+      toast({
+        title: transmitted.status === "autorizado" ? "CT-e autorizado" : "CT-e rejeitado",
+        description: transmitted.statusMessage ?? undefined,
+        variant: transmitted.status === "autorizado" ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao transmitir CT-e", description: parseErrorBody(error).message, variant: "destructive" });
+    },
+  });
+
+  // The download needs the auth header, so it is fetched and saved as a blob instead of opened directly
+  const downloadMutation = useMutation({
+    mutationFn: async (accessKey: string) => {
+      const res = await apiRequest("GET", `/api/transports/${transportId}/cte/xml`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `CTe${accessKey}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao baixar XML", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const authorized = cte?.status === "autorizado";
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-sm uppercase tracking-wide text-muted-foreground flex items-center gap-2">
+        <FileText className="h-4 w-4" />
+        CT-e
+      </h3>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3 text-sm">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : cte ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <p className="flex items-center gap-2">
+              <span className="font-medium">Número:</span> {cte.number} (série {cte.series})
+              <Badge variant="secondary" className={`text-xs ${statusLabels[cte.status].className}`}>
+                {statusLabels[cte.status].label}
+              </Badge>
+            </p>
+            <p><span className="font-medium">CFOP:</span> {cte.cfop} ({cte.originUf} → {cte.destinationUf})</p>
+            <p><span className="font-medium">Valor da prestação:</span> {formatCurrency(cte.totalAmount)}</p>
+            <p><span className="font-medium">ICMS:</span> {formatCurrency(cte.icmsAmount)} ({parseFloat(cte.icmsRate).toLocaleString("pt-BR")}%)</p>
+            <p className="md:col-span-2 break-all"><span className="font-medium">Chave:</span> {cte.accessKey}</p>
+            {cte.components.length > 0 && (
+              <p className="md:col-span-2">
+                <span className="font-medium">Componentes:</span>{" "}
+                {cte.components.map((c) => `${c.name} ${formatCurrency(c.amount)}`).join(" · ")}
+              </p>
+            )}
+            {cte.protocol && <p><span className="font-medium">Protocolo:</span> {cte.protocol}</p>}
+            {cte.transmittedAt && (
+              <p><span className="font-medium">Transmitido em:</span> {format(new Date(cte.transmittedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}</p>
+            )}
+            {cte.statusMessage && <p className="md:col-span-2 text-muted-foreground">{cte.statusMessage}</p>}
+          </div>
+        ) : (
+          <p className="text-muted-foreground">CT-e não gerado</p>
+        )}
+
+        {!authorized && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Contrato de frete</Label>
+              <Select value={contractId} onValueChange={setContractId}>
+                <SelectTrigger data-testid="select-cte-freight-contract">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_CONTRACT}>Contrato ativo do cliente</SelectItem>
+                  {clientContracts.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.contractNumber}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Valor da carga (opcional)</Label>
+              <Input
+                value={cargoValue}
+                onChange={(e) => setCargoValue(e.target.value)}
+                placeholder="Valor do bem da cotação"
+                inputMode="decimal"
+                data-testid="input-cte-cargo-value"
+              />
+            </div>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="rounded-md border border-red-500/30 bg-red-500/10 p-3 space-y-1" data-testid="list-cte-errors">
+            {errors.map((message) => (
+              <p key={message} className="flex items-start gap-2 text-xs text-red-700">
+                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                {message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!authorized && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending}
+              data-testid="button-generate-cte"
+            >
+              {generateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+              {cte ? "Gerar Novamente" : "Gerar CT-e"}
+            </Button>
+          )}
+          {cte && !authorized && (
+            <Button
+              size="sm"
+              onClick={() => transmitMutation.mutate()}
+              disabled={transmitMutation.isPending}
+              data-testid="button-transmit-cte"
+            >
+              {transmitMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Transmitir
+            </Button>
+          )}
+          {cte && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => downloadMutation.mutate(cte.accessKey)}
+              disabled={downloadMutation.isPending}
+              data-testid="button-download-cte-xml"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              XML
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
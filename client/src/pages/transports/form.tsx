@@ -7,11 +7,14 @@ import { z } from "zod";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { PageHeader } from "@/components/page-header";
+import { AuditHistory } from "@/components/audit-history";
+import { SignaturePad } from "@/components/signature-pad";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Form,
   FormControl,
@@ -43,7 +46,7 @@ import {
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { normalizeImageUrl } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Check, ChevronsUpDown, Upload, X, MapPin, Camera, CheckCircle, Clock } from "lucide-react";
+import { Loader2, Check, ChevronsUpDown, Upload, X, MapPin, Camera, CheckCircle, Clock, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { Transport, Client, Yard, Vehicle, DeliveryLocation, Driver } from "@shared/schema";
 
@@ -248,6 +251,9 @@ const formSchema = z.object({
   checkoutDamagePhotos: z.array(z.string()).optional(),
   checkoutSelfiePhoto: z.string().optional(),
   checkoutNotes: z.string().optional(),
+  recipientName: z.string().optional(),
+  recipientDocument: z.string().optional(),
+  recipientSignature: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -307,10 +313,14 @@ export default function TransportFormPage() {
       checkoutDamagePhotos: [],
       checkoutSelfiePhoto: "",
       checkoutNotes: "",
+      recipientName: "",
+      recipientDocument: "",
+      recipientSignature: "",
     },
   });
 
   const clientId = form.watch("clientId");
+  const [recipientName, recipientDocument, recipientSignature] = form.watch(["recipientName", "recipientDocument", "recipientSignature"]);
 
   const { data: deliveryLocations } = useQuery<DeliveryLocation[]>({
     queryKey: ["/api/clients", clientId, "locations"],
@@ -352,14 +362,19 @@ export default function TransportFormPage() {
         checkoutDamagePhotos: transport.checkoutDamagePhotos || [],
         checkoutSelfiePhoto: transport.checkoutSelfiePhoto || "",
         checkoutNotes: transport.checkoutNotes || "",
+        recipientName: transport.recipientName || "",
+        recipientDocument: transport.recipientDocument || "",
+        recipientSignature: transport.recipientSignature || "",
       });
     }
   }, [transport, form]);
 
   const mutation = useMutation({
     mutationFn: async (data: FormData) => {
+      // The recipient's acceptance is only recorded by the check-out itself
+      const { recipientName, recipientDocument, recipientSignature, ...fields } = data;
       const payload = {
-        ...data,
+        ...fields,
         driverId: data.driverId || null,
       };
       if (isEditing) {
@@ -421,16 +436,19 @@ export default function TransportFormPage() {
         damagePhotos: data.checkoutDamagePhotos,
         selfiePhoto: data.checkoutSelfiePhoto,
         notes: data.checkoutNotes,
+        recipientName: data.recipientName,
+        recipientDocument: data.recipientDocument,
+        recipientSignature: data.recipientSignature,
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transports", id] });
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
-      toast({ title: "Check-out realizado com sucesso" });
+      toast({ title: "Check-out realizado com sucesso", description: "O comprovante de entrega será enviado ao local de entrega" });
     },
-    onError: () => {
-      toast({ title: "Erro ao realizar check-out", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Erro ao realizar check-out", description: error.message, variant: "destructive" });
     },
   });
 
@@ -489,6 +507,14 @@ export default function TransportFormPage() {
       />
       <div className="flex flex-1 overflow-hidden">
         <div className="flex-1 overflow-auto p-4 md:p-6">
+        <Tabs defaultValue="dados">
+          {isEditing && (
+            <TabsList className="mb-4">
+              <TabsTrigger value="dados" data-testid="tab-transport-data">Dados</TabsTrigger>
+              <TabsTrigger value="historico" data-testid="tab-transport-history">Histórico</TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value="dados" className="mt-0">
         <Form {...form}>
           <form id="transport-form" onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-6">
             <Card>
@@ -1227,10 +1253,52 @@ export default function TransportFormPage() {
                           />
                         </div>
 
+                        {/* Seção: Recebedor */}
+                        <div className="rounded-lg border p-4">
+                          <h3 className="text-sm font-semibold mb-3 text-muted-foreground uppercase tracking-wide">Recebedor</h3>
+                          <div className="grid grid-cols-2 gap-4 mb-3">
+                            <FormField
+                              control={form.control}
+                              name="recipientName"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Nome</FormLabel>
+                                  <FormControl>
+                                    <Input {...field} placeholder="Nome de quem recebe" data-testid="input-checkout-recipient-name" />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name="recipientDocument"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Documento (CPF/RG)</FormLabel>
+                                  <FormControl>
+                                    <Input {...field} placeholder="Documento" data-testid="input-checkout-recipient-document" />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                          <FormField
+                            control={form.control}
+                            name="recipientSignature"
+                            render={({ field }) => (
+                              <SignaturePad
+                                value={field.value || ""}
+                                onChange={field.onChange}
+                                testId="signature-checkout-recipient"
+                              />
+                            )}
+                          />
+                        </div>
+
                         <Button
                           type="button"
                           onClick={() => checkoutMutation.mutate()}
-                          disabled={checkoutMutation.isPending}
+                          disabled={checkoutMutation.isPending || !recipientName?.trim() || !recipientDocument?.trim() || !recipientSignature}
                           className="w-full"
                           data-testid="button-checkout"
                         >
@@ -1319,6 +1387,23 @@ export default function TransportFormPage() {
                             <p className="text-sm">{transport.checkoutNotes}</p>
                           </div>
                         )}
+                        {transport?.recipientName && (
+                          <div>
+                            <p className="text-xs text-muted-foreground">Recebido por</p>
+                            <p className="text-sm">{transport.recipientName} ({transport.recipientDocument})</p>
+                            {transport.recipientSignature && (
+                              <img src={normalizeImageUrl(transport.recipientSignature)} alt="Assinatura do recebedor" className="mt-1 h-16 rounded-md border bg-white" />
+                            )}
+                          </div>
+                        )}
+                        {transport?.podDocumentUrl && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={normalizeImageUrl(transport.podDocumentUrl)} target="_blank" rel="noreferrer" data-testid="link-proof-of-delivery">
+                              <FileText className="mr-2 h-4 w-4" />
+                              Comprovante de Entrega
+                            </a>
+                          </Button>
+                        )}
                       </div>
                     )}
                   </CardContent>
@@ -1328,6 +1413,20 @@ export default function TransportFormPage() {
 
           </form>
         </Form>
+          </TabsContent>
+          {isEditing && id && (
+            <TabsContent value="historico" className="mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Histórico</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuditHistory entity="transport" entityId={id} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
         </div>
         <aside className="w-56 shrink-0 border-l bg-card flex flex-col gap-4 p-4 overflow-y-auto">
           {isEditing && transport && (
@@ -15,12 +15,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Search, Pencil, Trash2, LogIn, LogOut, MapPin, Loader2, Camera, Upload, X, CheckCircle, XCircle, Eye, Navigation, Clock, Fuel, Receipt, Route, Car, Info, Check, ChevronsUpDown, PackageCheck, MoreHorizontal } from "lucide-react";
+import { Plus, Search, Pencil, Trash2, LogIn, LogOut, MapPin, Loader2, Camera, Upload, X, CheckCircle, XCircle, Eye, Navigation, Clock, Fuel, Receipt, Route, Car, Info, Check, ChevronsUpDown, PackageCheck, MoreHorizontal, FileText, Send } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SignaturePad } from "@/components/signature-pad";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { normalizeImageUrl, cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import type { Transport, Client, Yard, Vehicle, DeliveryLocation, Driver } from "@shared/schema";
+import { canTransition } from "@shared/state-machine";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -67,6 +69,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { TransportCteSection } from "./cte-section";
 
 interface TransportWithRelations extends Transport {
   client?: { name: string };
@@ -310,6 +313,10 @@ interface CheckFormData {
   damagePhotos: string[];
   selfiePhoto: string;
   notes: string;
+  // Check-out only: recipient acceptance for the proof of delivery
+  recipientName: string;
+  recipientDocument: string;
+  recipientSignature: string;
 }
 
 const initialCheckFormData: CheckFormData = {
@@ -324,6 +331,9 @@ const initialCheckFormData: CheckFormData = {
   damagePhotos: [],
   selfiePhoto: "",
   notes: "",
+  recipientName: "",
+  recipientDocument: "",
+  recipientSignature: "",
 };
 
 export default function TransportsPage() {
@@ -503,12 +513,35 @@ export default function TransportsPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
-      toast({ title: "Check-out realizado com sucesso" });
+      toast({ title: "Check-out realizado com sucesso", description: "O comprovante de entrega será enviado ao local de entrega" });
       setCheckoutTransport(null);
       setCheckoutData(initialCheckFormData);
     },
-    onError: () => {
-      toast({ title: "Erro ao realizar check-out", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Erro ao realizar check-out", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resendPodMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/transports/${id}/proof-of-delivery`);
+      return res.json() as Promise<{ transport: Transport; emailedTo: string[]; emailError?: string }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
+      setViewTransport((current) => current && { ...current, ...result.transport });
+      if (result.emailedTo.length > 0) {
+        toast({ title: "Comprovante enviado", description: result.emailedTo.join(", ") });
+      } else {
+        toast({
+          title: "Comprovante gerado, mas não enviado",
+          description: result.emailError || "O local de entrega não possui emails cadastrados",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao emitir comprovante", description: error.message, variant: "destructive" });
     },
   });
 
@@ -640,7 +673,7 @@ export default function TransportsPage() {
               <DropdownMenuLabel>Check-in / Check-out</DropdownMenuLabel>
               <DropdownMenuSeparator />
               <DropdownMenuItem
-                disabled={!!t.checkinDateTime}
+                disabled={!!t.checkinDateTime || !canTransition("transport", t.status, "aguardando_saida")}
                 onClick={() => setCheckinTransport(t)}
                 data-testid={`button-checkin-${t.id}`}
               >
@@ -659,7 +692,7 @@ export default function TransportsPage() {
               )}
               <DropdownMenuSeparator />
               <DropdownMenuItem
-                disabled={!t.checkinDateTime || !!t.checkoutDateTime}
+                disabled={!t.checkinDateTime || !!t.checkoutDateTime || !canTransition("transport", t.status, "entregue")}
                 onClick={() => setCheckoutTransport(t)}
                 data-testid={`button-checkout-${t.id}`}
               >
@@ -682,7 +715,7 @@ export default function TransportsPage() {
               )}
             </DropdownMenuContent>
           </DropdownMenu>
-          {t.status !== "entregue" && t.status !== "cancelado" && (
+          {canTransition("transport", t.status, "entregue") && (
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -930,7 +963,39 @@ export default function TransportsPage() {
                           <p><span className="font-medium">Localização:</span> {viewTransport.checkoutLatitude}, {viewTransport.checkoutLongitude}</p>
                         )}
                         {viewTransport.checkoutNotes && <p><span className="font-medium">Observações:</span> {viewTransport.checkoutNotes}</p>}
+                        {viewTransport.recipientName && (
+                          <p><span className="font-medium">Recebido por:</span> {viewTransport.recipientName} ({viewTransport.recipientDocument})</p>
+                        )}
                       </div>
+                      {viewTransport.recipientSignature && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {viewTransport.podDocumentUrl ? (
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={normalizeImageUrl(viewTransport.podDocumentUrl)} target="_blank" rel="noreferrer" data-testid="link-proof-of-delivery">
+                                <FileText className="mr-2 h-4 w-4" />
+                                Comprovante de Entrega
+                              </a>
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Comprovante de entrega em geração</span>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => resendPodMutation.mutate(viewTransport.id)}
+                            disabled={resendPodMutation.isPending}
+                            data-testid="button-resend-proof-of-delivery"
+                          >
+                            {resendPodMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                            Reenviar
+                          </Button>
+                          {viewTransport.podEmailedAt && (
+                            <span className="text-xs text-muted-foreground">
+                              Enviado em {format(new Date(viewTransport.podEmailedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                            </span>
+                          )}
+                        </div>
+                      )}
                       <div className="grid grid-cols-4 gap-2">
                         {viewTransport.checkoutFrontalPhoto && (
                           <div className="space-y-1">
@@ -993,6 +1058,8 @@ export default function TransportsPage() {
                   )}
                 </div>
               </div>
+
+              <TransportCteSection transportId={viewTransport.id} clientId={viewTransport.clientId} />
             </div>
           )}
           <DialogFooter>
@@ -1295,6 +1362,36 @@ export default function TransportsPage() {
                   data-testid="input-checkout-notes"
                 />
               </div>
+
+              {/* Seção: Recebedor */}
+              <div className="rounded-lg border p-4">
+                <h3 className="text-sm font-semibold mb-3 text-muted-foreground uppercase tracking-wide">Recebedor</h3>
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Nome</Label>
+                    <Input
+                      value={checkoutData.recipientName}
+                      onChange={(e) => setCheckoutData({ ...checkoutData, recipientName: e.target.value })}
+                      placeholder="Nome de quem recebe"
+                      data-testid="input-checkout-recipient-name"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Documento (CPF/RG)</Label>
+                    <Input
+                      value={checkoutData.recipientDocument}
+                      onChange={(e) => setCheckoutData({ ...checkoutData, recipientDocument: e.target.value })}
+                      placeholder="Documento"
+                      data-testid="input-checkout-recipient-document"
+                    />
+                  </div>
+                </div>
+                <SignaturePad
+                  value={checkoutData.recipientSignature}
+                  onChange={(signature) => setCheckoutData((prev) => ({ ...prev, recipientSignature: signature }))}
+                  testId="signature-checkout-recipient"
+                />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -1303,7 +1400,7 @@ export default function TransportsPage() {
             </Button>
             <Button
               onClick={() => checkoutTransport && checkoutMutation.mutate({ id: checkoutTransport.id, data: checkoutData })}
-              disabled={checkoutMutation.isPending}
+              disabled={checkoutMutation.isPending || !checkoutData.recipientName.trim() || !checkoutData.recipientDocument.trim() || !checkoutData.recipientSignature}
               data-testid="button-confirm-checkout"
             >
               {checkoutMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -0,0 +1,700 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { PageHeader } from "@/components/page-header";
+import { DataTable } from "@/components/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Route, Search, X, XCircle } from "lucide-react";
+import type {
+  Collect,
+  DeliveryLocation,
+  Driver,
+  FleetUnit,
+  Transport,
+  TripDetail,
+  TripStatus,
+  Yard,
+} from "@shared/schema";
+
+const statusBadges: Record<TripStatus, { label: string; className: string }> = {
+  planejada: { label: "Planejada", className: "bg-blue-500/20 text-blue-700" },
+  em_transito: { label: "Em trânsito", className: "bg-orange-500/20 text-orange-700" },
+  concluida: { label: "Concluída", className: "bg-green-500/20 text-green-700" },
+  cancelada: { label: "Cancelada", className: "bg-muted text-muted-foreground" },
+};
+
+const transportStatusLabels: Record<Transport["status"], string> = {
+  pendente: "Pendente",
+  aguardando_saida: "Aguardando saída",
+  em_transito: "Em trânsito",
+  entregue: "Entregue",
+  cancelado: "Cancelado",
+};
+
+// Same fuel estimate the transport form uses: 4 km/l at R$ 6,50 the litre
+const FUEL_KM_PER_LITER = 4;
+const FUEL_PRICE_PER_LITER = 6.5;
+
+const NONE = "none";
+
+// Part of the /api/trips/sequence response the form uses
+interface TripSequence {
+  stops: { transportIds: string[]; late: boolean }[];
+  totalDistanceKm: number;
+  lateStops: number;
+}
+
+const formatDateTime = (value: Date | string | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "—";
+
+export default function TripsPage() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTrip, setEditingTrip] = useState<TripDetail | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const [formYardId, setFormYardId] = useState("");
+  const [formDriverId, setFormDriverId] = useState(NONE);
+  const [formTractorId, setFormTractorId] = useState(NONE);
+  const [formTrailerId, setFormTrailerId] = useState(NONE);
+  const [formDate, setFormDate] = useState("");
+  const [formNotes, setFormNotes] = useState("");
+  const [formTransportIds, setFormTransportIds] = useState<string[]>([]);
+  const [formCollectIds, setFormCollectIds] = useState<string[]>([]);
+  const [transportToAdd, setTransportToAdd] = useState("");
+
+  const { data: trips, isLoading } = useQuery<TripDetail[]>({ queryKey: ["/api/trips"] });
+  const { data: transports } = useQuery<Transport[]>({ queryKey: ["/api/transports"] });
+  const { data: collects } = useQuery<Collect[]>({ queryKey: ["/api/collects"] });
+  const { data: yards } = useQuery<Yard[]>({ queryKey: ["/api/yards"] });
+  const { data: drivers } = useQuery<Driver[]>({ queryKey: ["/api/drivers"] });
+  const { data: fleetUnits } = useQuery<FleetUnit[]>({ queryKey: ["/api/fleet-units"] });
+  const { data: deliveryLocations } = useQuery<DeliveryLocation[]>({ queryKey: ["/api/delivery-locations"] });
+
+  const yardName = (id: string) => yards?.find(y => y.id === id)?.name;
+  const driverName = (id: string | null) => drivers?.find(d => d.id === id)?.name;
+  const plate = (id: string | null) => fleetUnits?.find(u => u.id === id)?.plate;
+  const destination = (id: string) => {
+    const location = deliveryLocations?.find(l => l.id === id);
+    return location ? `${location.name} · ${location.city}/${location.state}` : "—";
+  };
+
+  const activeDrivers = drivers?.filter(d => d.isActive === "true") || [];
+  const tractors = fleetUnits?.filter(u => u.unitType === "cavalo" && u.status === "ativo") || [];
+  const trailers = fleetUnits?.filter(u => u.unitType === "carreta" && u.status === "ativo") || [];
+  const viewing = trips?.find(t => t.id === viewingId) ?? null;
+
+  // Transports still in the yard and not loaded on another trip can join the load
+  const candidateTransports = (transports || []).filter(t =>
+    t.originYardId === formYardId
+    && (t.status === "pendente" || t.status === "aguardando_saida")
+    && (!t.tripId || t.tripId === editingTrip?.id)
+    && !formTransportIds.includes(t.id));
+  const candidateCollects = (collects || []).filter(c =>
+    c.status === "em_transito" && (!c.tripId || c.tripId === editingTrip?.id));
+  const transportById = (id: string) => transports?.find(t => t.id === id);
+  const trailerCapacity = fleetUnits?.find(u => u.id === formTrailerId)?.vehicleCapacity ?? null;
+  const loadSize = formTransportIds.length + formCollectIds.length;
+
+  const resetForm = () => {
+    setFormYardId("");
+    setFormDriverId(NONE);
+    setFormTractorId(NONE);
+    setFormTrailerId(NONE);
+    setFormDate("");
+    setFormNotes("");
+    setFormTransportIds([]);
+    setFormCollectIds([]);
+    setTransportToAdd("");
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingTrip(null);
+    resetForm();
+  };
+
+  const openAddForm = () => {
+    setEditingTrip(null);
+    resetForm();
+    setShowForm(true);
+  };
+
+  const openEditForm = (trip: TripDetail) => {
+    setEditingTrip(trip);
+    setFormYardId(trip.originYardId);
+    setFormDriverId(trip.driverId || NONE);
+    setFormTractorId(trip.tractorId || NONE);
+    setFormTrailerId(trip.trailerId || NONE);
+    setFormDate(trip.plannedDepartureDate || "");
+    setFormNotes(trip.notes || "");
+    setFormTransportIds(trip.transports.filter(t => t.status !== "cancelado").map(t => t.id));
+    setFormCollectIds(trip.collects.map(c => c.id));
+    setTransportToAdd("");
+    setViewingId(null);
+    setShowForm(true);
+  };
+
+  // Trips move transports, collects and fleet assignments, so all of them refresh
+  const invalidateTrips = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transports"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/collects"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/fleet/availability"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/fleet/jobs"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data, stops }: { id: string | null; data: Record<string, unknown>; stops: { transportIds: string[]; collectIds: string[] } }) => {
+      if (!id) {
+        const res = await apiRequest("POST", "/api/trips", { ...data, ...stops });
+        return res.json() as Promise<TripDetail>;
+      }
+      const res = await apiRequest("PATCH", `/api/trips/${id}`, { ...data, ...stops });
+      return res.json() as Promise<TripDetail>;
+    },
+    onSuccess: (trip, { id }) => {
+      invalidateTrips();
+      closeForm();
+      setViewingId(trip.id);
+      toast({ title: id ? "Viagem atualizada" : `Viagem ${trip.tripNumber} criada`, description: "Calcule a rota para registrar distância e custos." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao salvar viagem", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/trips/${id}/cancel`);
+    },
+    onSuccess: () => {
+      invalidateTrips();
+      setCancellingId(null);
+      toast({ title: "Viagem cancelada", description: "Os transportes voltaram para a programação individual." });
+    },
+    onError: (error: Error) => {
+      setCancellingId(null);
+      toast({ title: "Erro ao cancelar viagem", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // One route for the whole load: origin yard, then each delivery location in stop order
+  const routeMutation = useMutation({
+    mutationFn: async (trip: TripDetail) => {
+      const origin = yards?.find(y => y.id === trip.originYardId);
+      const stops = trip.transports
+        .filter(t => t.status !== "cancelado")
+        .map(t => deliveryLocations?.find(l => l.id === t.deliveryLocationId))
+        .filter((l, i, all): l is DeliveryLocation => !!l && all.findIndex(o => o?.id === l.id) === i);
+      if (!origin?.latitude || !origin?.longitude || stops.length === 0 || stops.some(l => !l.latitude || !l.longitude)) {
+        throw new Error("Pátio de origem e locais de entrega precisam de coordenadas");
+      }
+
+      const point = (l: { latitude: string | null; longitude: string | null }) => ({ lat: parseFloat(l.latitude!), lng: parseFloat(l.longitude!) });
+      const res = await apiRequest("POST", "/api/routing/calculate", {
+        origin: point(origin),
+        destination: point(stops[stops.length - 1]),
+        waypoints: stops.slice(0, -1).map(l => ({ ...point(l), address: l.name })),
+      });
+      const route = await res.json();
+      const distanceKm = route.distance.value / 1000;
+      await apiRequest("PATCH", `/api/trips/${trip.id}`, {
+        routeDistanceKm: distanceKm.toFixed(2),
+        routeDurationMinutes: Math.round(route.duration.value / 60),
+        estimatedTolls: route.tollCost ? route.tollCost.amount : null,
+        estimatedFuel: ((distanceKm / FUEL_KM_PER_LITER) * FUEL_PRICE_PER_LITER).toFixed(2),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({ title: "Rota da viagem calculada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao calcular rota", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Suggested delivery order: shortest route that still meets the delivery dates, from the planned departure
+  const sequenceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/trips/sequence", {
+        originYardId: formYardId,
+        transportIds: formTransportIds,
+        departureAt: formDate ? `${formDate}T08:00:00` : undefined,
+      });
+      return res.json() as Promise<TripSequence>;
+    },
+    onSuccess: (sequence) => {
+      setFormTransportIds(sequence.stops.flatMap(s => s.transportIds));
+      toast({
+        title: "Paradas reordenadas",
+        description: `~${sequence.totalDistanceKm.toLocaleString("pt-BR")} km${sequence.lateStops ? ` · ${sequence.lateStops} parada(s) não chegam na data de entrega` : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao otimizar paradas", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const moveStop = (index: number, offset: number) => {
+    const next = [...formTransportIds];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setFormTransportIds(next);
+  };
+
+  const handleSubmit = () => {
+    if (!formYardId) {
+      toast({ title: "Selecione o pátio de origem", variant: "destructive" });
+      return;
+    }
+    if (formTransportIds.length === 0) {
+      toast({ title: "Inclua ao menos um transporte na viagem", variant: "destructive" });
+      return;
+    }
+    const data = {
+      originYardId: formYardId,
+      driverId: formDriverId === NONE ? null : formDriverId,
+      tractorId: formTractorId === NONE ? null : formTractorId,
+      trailerId: formTrailerId === NONE ? null : formTrailerId,
+      plannedDepartureDate: formDate || null,
+      notes: formNotes.trim() || null,
+    };
+    saveMutation.mutate({ id: editingTrip?.id ?? null, data, stops: { transportIds: formTransportIds, collectIds: formCollectIds } });
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredTrips = (trips || []).filter(t =>
+    t.tripNumber.toLowerCase().includes(term) ||
+    (driverName(t.driverId) || "").toLowerCase().includes(term) ||
+    (plate(t.tractorId) || "").toLowerCase().includes(term) ||
+    t.transports.some(tr => tr.requestNumber.toLowerCase().includes(term) || tr.vehicleChassi.toLowerCase().includes(term))
+  );
+
+  const columns = [
+    {
+      key: "tripNumber",
+      label: "Viagem",
+      render: (t: TripDetail) => (
+        <div>
+          <p className="font-mono font-medium">{t.tripNumber}</p>
+          <p className="text-xs text-muted-foreground">{yardName(t.originYardId) || "—"}</p>
+        </div>
+      ),
+    },
+    {
+      key: "driverId",
+      label: "Motorista",
+      render: (t: TripDetail) => driverName(t.driverId) || "—",
+    },
+    {
+      key: "tractorId",
+      label: "Conjunto",
+      render: (t: TripDetail) => t.tractorId || t.trailerId
+        ? [plate(t.tractorId), plate(t.trailerId)].filter(Boolean).join(" + ")
+        : "—",
+    },
+    {
+      key: "transports",
+      label: "Entregas",
+      render: (t: TripDetail) => {
+        const loaded = t.transports.filter(tr => tr.status !== "cancelado");
+        return `${loaded.filter(tr => tr.status === "entregue").length}/${loaded.length}${t.collects.length ? ` · ${t.collects.length} coleta(s)` : ""}`;
+      },
+    },
+    {
+      key: "routeDistanceKm",
+      label: "Rota",
+      render: (t: TripDetail) => t.routeDistanceKm ? `${parseFloat(t.routeDistanceKm).toLocaleString("pt-BR")} km` : "—",
+    },
+    {
+      key: "departedAt",
+      label: "Saída",
+      render: (t: TripDetail) => t.departedAt ? formatDateTime(t.departedAt) : t.plannedDepartureDate?.split("-").reverse().join("/") || "—",
+    },
+    {
+      key: "status",
+      label: "Status",
+      render: (t: TripDetail) => (
+        <Badge variant="secondary" className={statusBadges[t.status].className}>
+          {statusBadges[t.status].label}
+        </Badge>
+      ),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col">
+      <PageHeader
+        title="Viagens"
+        breadcrumbs={[
+          { label: "Operação", href: "/" },
+          { label: "Viagens" },
+        ]}
+      />
+      <div className="flex-1 overflow-auto p-4 md:p-6">
+        <div className="mb-4 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="relative max-w-sm flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por viagem, motorista, placa, OTD ou chassi..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+              data-testid="input-search-trips"
+            />
+          </div>
+          <Button onClick={openAddForm} data-testid="button-add-trip">
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Viagem
+          </Button>
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={filteredTrips}
+          isLoading={isLoading}
+          keyField="id"
+          onRowClick={(t) => setViewingId(t.id)}
+          emptyMessage="Nenhuma viagem montada"
+        />
+      </div>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => { if (!open) setViewingId(null); }}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  Viagem {viewing.tripNumber}
+                  <Badge variant="secondary" className={statusBadges[viewing.status].className}>
+                    {statusBadges[viewing.status].label}
+                  </Badge>
+                </DialogTitle>
+              </DialogHeader>
+
+              <div className="grid grid-cols-1 gap-2 text-sm md:grid-cols-2">
+                <p><span className="font-medium">Origem:</span> {yardName(viewing.originYardId) || "—"}</p>
+                <p><span className="font-medium">Motorista:</span> {driverName(viewing.driverId) || "—"}</p>
+                <p><span className="font-medium">Cavalo:</span> {plate(viewing.tractorId) || "—"}</p>
+                <p><span className="font-medium">Carreta:</span> {plate(viewing.trailerId) || "—"}</p>
+                <p><span className="font-medium">Saída:</span> {formatDateTime(viewing.departedAt)}</p>
+                <p><span className="font-medium">Conclusão:</span> {formatDateTime(viewing.completedAt)}</p>
+                <p>
+                  <span className="font-medium">Rota:</span>{" "}
+                  {viewing.routeDistanceKm
+                    ? `${parseFloat(viewing.routeDistanceKm).toLocaleString("pt-BR")} km · ${Math.floor((viewing.routeDurationMinutes ?? 0) / 60)} h ${(viewing.routeDurationMinutes ?? 0) % 60} min`
+                    : "não calculada"}
+                </p>
+                <p>
+                  <span className="font-medium">Custos estimados:</span>{" "}
+                  {viewing.routeDistanceKm
+                    ? `pedágios R$ ${parseFloat(viewing.estimatedTolls || "0").toFixed(2)} · combustível R$ ${parseFloat(viewing.estimatedFuel || "0").toFixed(2)}`
+                    : "—"}
+                </p>
+                {viewing.notes && <p className="md:col-span-2 text-muted-foreground">{viewing.notes}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Paradas</h3>
+                <div className="divide-y rounded-md border">
+                  {viewing.transports.map((t) => (
+                    <div key={t.id} className="flex items-center gap-3 px-3 py-2 text-sm" data-testid={`row-trip-stop-${t.id}`}>
+                      <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-semibold">
+                        {t.tripStopOrder ?? "—"}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium">{t.requestNumber} <span className="font-mono text-xs text-muted-foreground">{t.vehicleChassi}</span></p>
+                        <p className="truncate text-xs text-muted-foreground">{destination(t.deliveryLocationId)}</p>
+                      </div>
+                      <div className="text-right text-xs">
+                        <p>{transportStatusLabels[t.status]}</p>
+                        {t.checkoutDateTime && <p className="text-muted-foreground">Check-out {formatDateTime(t.checkoutDateTime)}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {viewing.collects.length > 0 && (
+                  <>
+                    <h3 className="pt-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">Coletas no retorno</h3>
+                    <div className="divide-y rounded-md border">
+                      {viewing.collects.map((c) => (
+                        <div key={c.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                          <span className="font-mono">{c.vehicleChassi}</span>
+                          <span className="text-xs text-muted-foreground">{c.status.replace(/_/g, " ")}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  A saída da carga inteira é autorizada pela portaria. Cada entrega tem seu próprio check-out; a viagem
+                  termina com a última.
+                </p>
+              </div>
+
+              <DialogFooter className="flex-wrap gap-2">
+                {viewing.status === "planejada" && (
+                  <Button variant="outline" onClick={() => setCancellingId(viewing.id)} data-testid="button-cancel-trip">
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Cancelar Viagem
+                  </Button>
+                )}
+                {(viewing.status === "planejada" || viewing.status === "em_transito") && (
+                  <Button
+                    variant="outline"
+                    onClick={() => routeMutation.mutate(viewing)}
+                    disabled={routeMutation.isPending}
+                    data-testid="button-calculate-trip-route"
+                  >
+                    {routeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Route className="mr-2 h-4 w-4" />}
+                    {viewing.routeDistanceKm ? "Recalcular Rota" : "Calcular Rota"}
+                  </Button>
+                )}
+                {viewing.status === "planejada" && (
+                  <Button onClick={() => openEditForm(viewing)} data-testid="button-edit-trip">
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Editar Carga
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showForm} onOpenChange={(open) => { if (!open) closeForm(); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTrip ? `Editar Viagem ${editingTrip.tripNumber}` : "Nova Viagem"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Pátio de origem *</Label>
+                <Select
+                  value={formYardId}
+                  onValueChange={(v) => { setFormYardId(v); setFormTransportIds([]); }}
+                  disabled={!!editingTrip}
+                >
+                  <SelectTrigger data-testid="select-trip-yard">
+                    <SelectValue placeholder="Selecione o pátio" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(yards || []).map(y => (
+                      <SelectItem key={y.id} value={y.id}>{y.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Motorista</Label>
+                <Select value={formDriverId} onValueChange={setFormDriverId}>
+                  <SelectTrigger data-testid="select-trip-driver">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>A definir</SelectItem>
+                    {activeDrivers.map(d => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Cavalo</Label>
+                <Select value={formTractorId} onValueChange={setFormTractorId}>
+                  <SelectTrigger data-testid="select-trip-tractor">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>A definir</SelectItem>
+                    {tractors.map(u => (
+                      <SelectItem key={u.id} value={u.id}>{u.plate}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Carreta</Label>
+                <Select value={formTrailerId} onValueChange={setFormTrailerId}>
+                  <SelectTrigger data-testid="select-trip-trailer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>A definir</SelectItem>
+                    {trailers.map(u => (
+                      <SelectItem key={u.id} value={u.id}>{u.plate} ({u.vehicleCapacity} vagas)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Saída prevista</Label>
+                <Input type="date" value={formDate} onChange={(e) => setFormDate(e.target.value)} data-testid="input-trip-date" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Entregas, na ordem das paradas *</Label>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs ${trailerCapacity !== null && loadSize > trailerCapacity ? "text-red-600" : "text-muted-foreground"}`}>
+                    {loadSize} veículo(s){trailerCapacity !== null ? ` de ${trailerCapacity} vagas` : ""}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={formTransportIds.length < 2 || sequenceMutation.isPending}
+                    onClick={() => sequenceMutation.mutate()}
+                    data-testid="button-trip-sequence"
+                  >
+                    {sequenceMutation.isPending ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <Route className="mr-2 h-3.5 w-3.5" />}
+                    Otimizar ordem
+                  </Button>
+                </div>
+              </div>
+              <div className="divide-y rounded-md border">
+                {formTransportIds.length === 0 && (
+                  <p className="px-3 py-4 text-center text-sm text-muted-foreground">
+                    {formYardId ? "Adicione os transportes que vão na cegonha" : "Selecione o pátio de origem"}
+                  </p>
+                )}
+                {formTransportIds.map((id, index) => {
+                  const t = transportById(id);
+                  return (
+                    <div key={id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <span className="w-5 text-xs font-semibold text-muted-foreground">{index + 1}</span>
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium">{t?.requestNumber ?? id} <span className="font-mono text-xs text-muted-foreground">{t?.vehicleChassi}</span></p>
+                        {t && <p className="truncate text-xs text-muted-foreground">{destination(t.deliveryLocationId)}</p>}
+                      </div>
+                      <Button size="icon" variant="ghost" disabled={index === 0} onClick={() => moveStop(index, -1)} data-testid={`button-stop-up-${id}`}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" disabled={index === formTransportIds.length - 1} onClick={() => moveStop(index, 1)} data-testid={`button-stop-down-${id}`}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => setFormTransportIds(formTransportIds.filter(o => o !== id))} data-testid={`button-stop-remove-${id}`}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+              {formYardId && (
+                <div className="flex gap-2">
+                  <Select value={transportToAdd} onValueChange={setTransportToAdd}>
+                    <SelectTrigger data-testid="select-trip-add-transport">
+                      <SelectValue placeholder={candidateTransports.length ? "Transporte aguardando saída" : "Nenhum transporte disponível no pátio"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {candidateTransports.map(t => (
+                        <SelectItem key={t.id} value={t.id}>{t.requestNumber} · {destination(t.deliveryLocationId)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    disabled={!transportToAdd}
+                    onClick={() => { setFormTransportIds([...formTransportIds, transportToAdd]); setTransportToAdd(""); }}
+                    data-testid="button-trip-add-transport"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {candidateCollects.length > 0 && (
+              <div className="space-y-2">
+                <Label>Coletas no retorno (opcional)</Label>
+                <div className="max-h-40 space-y-2 overflow-y-auto rounded-md border p-3">
+                  {candidateCollects.map(c => (
+                    <label key={c.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formCollectIds.includes(c.id)}
+                        onCheckedChange={(checked) => setFormCollectIds(checked
+                          ? [...formCollectIds, c.id]
+                          : formCollectIds.filter(o => o !== c.id))}
+                        data-testid={`checkbox-trip-collect-${c.id}`}
+                      />
+                      <span className="font-mono">{c.vehicleChassi}</span>
+                      <span className="text-xs text-muted-foreground">→ {yardName(c.yardId) || "—"}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Observações</Label>
+              <Textarea value={formNotes} onChange={(e) => setFormNotes(e.target.value)} rows={2} data-testid="input-trip-notes" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeForm}>Cancelar</Button>
+            <Button onClick={handleSubmit} disabled={saveMutation.isPending} data-testid="button-save-trip">
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!cancellingId} onOpenChange={(open) => { if (!open) setCancellingId(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar viagem?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os transportes e coletas saem da cegonha e voltam a ser programados individualmente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => cancellingId && cancelMutation.mutate(cancellingId)} data-testid="button-confirm-cancel-trip">
+              Cancelar Viagem
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
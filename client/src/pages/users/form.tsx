@@ -45,7 +45,7 @@ const formSchema = z.object({
   email: z.string().email("E-mail inválido"),
   username: z.string().min(3, "Usuário deve ter no mínimo 3 caracteres"),
   password: z.string().optional(),
-  role: z.enum(["admin", "operador", "visualizador"]),
+  role: z.enum(["admin", "operador", "visualizador", "motorista", "portaria"]),
   isActive: z.string().default("true"),
 });
 
@@ -237,6 +237,8 @@ export default function UserFormPage() {
                           <SelectItem value="admin">Administrador</SelectItem>
                           <SelectItem value="operador">Operador</SelectItem>
                           <SelectItem value="visualizador">Visualizador</SelectItem>
+                          <SelectItem value="portaria">Portaria</SelectItem>
+                          <SelectItem value="motorista">Motorista</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -32,6 +32,7 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import type { Vehicle, Client, Yard, Manufacturer } from "@shared/schema";
+import { canTransition, type VehicleStatus } from "@shared/state-machine";
 
 const formSchema = z.object({
   chassi: z.string().min(17, "Chassi deve ter no mínimo 17 caracteres"),
@@ -60,6 +61,10 @@ export function VehicleFormDialog({ open, onOpenChange, vehicleChassi }: Vehicle
     enabled: isEditing && open,
   });
 
+  // Only the current status and the moves allowed by the lifecycle table can be selected
+  const isStatusLocked = (status: VehicleStatus) =>
+    !!vehicle && status !== vehicle.status && !canTransition("vehicle", vehicle.status, status);
+
   const { data: clients } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
   });
@@ -174,11 +179,11 @@ export function VehicleFormDialog({ open, onOpenChange, vehicleChassi }: Vehicle
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="pre_estoque">Pré-estoque</SelectItem>
-                              <SelectItem value="em_estoque">Em estoque</SelectItem>
-                              <SelectItem value="despachado">Despachado</SelectItem>
-                              <SelectItem value="entregue">Entregue</SelectItem>
-                              <SelectItem value="retirado">Retirado</SelectItem>
+                              <SelectItem value="pre_estoque" disabled={isStatusLocked("pre_estoque")}>Pré-estoque</SelectItem>
+                              <SelectItem value="em_estoque" disabled={isStatusLocked("em_estoque")}>Em estoque</SelectItem>
+                              <SelectItem value="despachado" disabled={isStatusLocked("despachado")}>Despachado</SelectItem>
+                              <SelectItem value="entregue" disabled={isStatusLocked("entregue")}>Entregue</SelectItem>
+                              <SelectItem value="retirado" disabled={isStatusLocked("retirado")}>Retirado</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -5,10 +5,12 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { PageHeader } from "@/components/page-header";
+import { AuditHistory } from "@/components/audit-history";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Form,
   FormControl,
@@ -28,6 +30,7 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import type { Vehicle, Client, Yard, Manufacturer } from "@shared/schema";
+import { canTransition, type VehicleStatus } from "@shared/state-machine";
 
 const formSchema = z.object({
   chassi: z.string().min(17, "Chassi deve ter no mínimo 17 caracteres"),
@@ -53,6 +56,10 @@ export default function VehicleFormPage() {
     enabled: !!isEditing,
   });
 
+  // Only the current status and the moves allowed by the lifecycle table can be selected
+  const isStatusLocked = (status: VehicleStatus) =>
+    !!vehicle && status !== vehicle.status && !canTransition("vehicle", vehicle.status, status);
+
   const { data: clients } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
   });
@@ -128,6 +135,14 @@ export default function VehicleFormPage() {
         ]}
       />
       <div className="flex-1 overflow-auto p-4 md:p-6">
+        <Tabs defaultValue="dados">
+          {isEditing && (
+            <TabsList className="mb-4">
+              <TabsTrigger value="dados" data-testid="tab-vehicle-data">Dados</TabsTrigger>
+              <TabsTrigger value="historico" data-testid="tab-vehicle-history">Histórico</TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value="dados" className="mt-0">
         <Form {...form}>
           <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-6">
             <Card>
@@ -165,11 +180,11 @@ export default function VehicleFormPage() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="pre_estoque">Pré-estoque</SelectItem>
-                          <SelectItem value="em_estoque">Em estoque</SelectItem>
-                          <SelectItem value="despachado">Despachado</SelectItem>
-                          <SelectItem value="entregue">Entregue</SelectItem>
-                          <SelectItem value="retirado">Retirado</SelectItem>
+                          <SelectItem value="pre_estoque" disabled={isStatusLocked("pre_estoque")}>Pré-estoque</SelectItem>
+                          <SelectItem value="em_estoque" disabled={isStatusLocked("em_estoque")}>Em estoque</SelectItem>
+                          <SelectItem value="despachado" disabled={isStatusLocked("despachado")}>Despachado</SelectItem>
+                          <SelectItem value="entregue" disabled={isStatusLocked("entregue")}>Entregue</SelectItem>
+                          <SelectItem value="retirado" disabled={isStatusLocked("retirado")}>Retirado</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -288,6 +303,20 @@ export default function VehicleFormPage() {
             </div>
           </form>
         </Form>
+          </TabsContent>
+          {isEditing && (
+            <TabsContent value="historico" className="mt-0">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Histórico</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuditHistory entity="vehicle" entityId={decodedChassi} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
     </div>
   );
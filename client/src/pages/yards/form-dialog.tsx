@@ -24,8 +24,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import type { Yard } from "@shared/schema";
+import { geofenceEnforcementModes, type Yard } from "@shared/schema";
 import { AddressAutocomplete } from "@/components/address-autocomplete";
+import { GeofenceFields } from "@/components/geofence-fields";
 
 function formatPhone(value: string): string {
   const digits = value.replace(/\D/g, "");
@@ -49,6 +50,8 @@ const formSchema = z.object({
   longitude: z.string().optional(),
   phone: z.string().optional(),
   maxVehicles: z.coerce.number().int().min(0).optional().nullable(),
+  geofenceRadiusMeters: z.coerce.number().int().min(50, "Mínimo de 50 m").max(20000, "Máximo de 20.000 m"),
+  geofenceEnforcement: z.enum(geofenceEnforcementModes),
   isActive: z.string().default("true"),
 });
 
@@ -96,6 +99,8 @@ export function YardFormDialog({ open, onOpenChange, yardId }: YardFormDialogPro
       longitude: "",
       phone: "",
       maxVehicles: null,
+      geofenceRadiusMeters: 500,
+      geofenceEnforcement: "sinalizar",
       isActive: "true",
     },
   });
@@ -116,6 +121,8 @@ export function YardFormDialog({ open, onOpenChange, yardId }: YardFormDialogPro
         longitude: yard.longitude || "",
         phone: yard.phone || "",
         maxVehicles: yard.maxVehicles ?? null,
+        geofenceRadiusMeters: yard.geofenceRadiusMeters ?? 500,
+        geofenceEnforcement: yard.geofenceEnforcement ?? "sinalizar",
         isActive: yard.isActive || "true",
       });
     } else if (!isEditing && open) {
@@ -133,6 +140,8 @@ export function YardFormDialog({ open, onOpenChange, yardId }: YardFormDialogPro
         longitude: "",
         phone: "",
         maxVehicles: null,
+        geofenceRadiusMeters: 500,
+        geofenceEnforcement: "sinalizar",
         isActive: "true",
       });
     }
@@ -300,6 +309,13 @@ export function YardFormDialog({ open, onOpenChange, yardId }: YardFormDialogPro
                   />
                 </div>
 
+                <div className="space-y-4">
+                  <h3 className="font-medium text-sm text-muted-foreground">Geofence</h3>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <GeofenceFields control={form.control} testIdPrefix="yard" />
+                  </div>
+                </div>
+
                 <div className="space-y-4">
                   <FormField
                     control={form.control}
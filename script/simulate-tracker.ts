@@ -0,0 +1,119 @@
+// Feeds fake tracker traffic into a running server so the tracker pipeline can be exercised
+// without hardware. Drives in a straight line between two coordinates.
+//
+//   npm run tracker:simulate -- --imei 359710040000001 --mode gt06
+//   npm run tracker:simulate -- --imei 907001234 --mode suntech --port 5023
+//   TRACKER_WEBHOOK_TOKEN=secret npm run tracker:simulate -- --imei 359710040000001 --mode json
+//
+// gt06/suntech connect to TRACKER_TCP_PORT; json posts to /api/trackers/webhook.
+import net from "net";
+import { encodeGt06Location, encodeGt06Login } from "../server/trackers/gt06";
+import { formatSuntechStatus } from "../server/trackers/suntech";
+
+type Mode = "json" | "gt06" | "suntech";
+
+function parseArgs() {
+  const args = new Map<string, string>();
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args.set(argv[i].slice(2), argv[i + 1] ?? "");
+      i++;
+    }
+  }
+
+  const parsePoint = (value: string) => {
+    const [lat, lng] = value.split(",").map(Number);
+    return { lat, lng };
+  };
+
+  const imei = args.get("imei");
+  if (!imei) {
+    console.error("Usage: simulate-tracker --imei <imei> [--mode json|gt06|suntech] [--from lat,lng] [--to lat,lng]");
+    console.error("                        [--points 20] [--interval 2000] [--host localhost] [--port <port>]");
+    process.exit(1);
+  }
+
+  const mode = (args.get("mode") ?? "json") as Mode;
+  if (!["json", "gt06", "suntech"].includes(mode)) {
+    console.error(`Unknown mode: ${mode}`);
+    process.exit(1);
+  }
+
+  return {
+    imei,
+    mode,
+    host: args.get("host") ?? "localhost",
+    port: parseInt(args.get("port") ?? (mode === "json" ? process.env.PORT ?? "5000" : process.env.TRACKER_TCP_PORT ?? "5023"), 10),
+    // Default route: São Bernardo do Campo -> Campinas
+    from: parsePoint(args.get("from") ?? "-23.6914,-46.5646"),
+    to: parsePoint(args.get("to") ?? "-22.9056,-47.0608"),
+    points: parseInt(args.get("points") ?? "20", 10),
+    intervalMs: parseInt(args.get("interval") ?? "2000", 10),
+  };
+}
+
+function bearing(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const y = Math.sin(toRad(to.lng - from.lng)) * Math.cos(toRad(to.lat));
+  const x = Math.cos(toRad(from.lat)) * Math.sin(toRad(to.lat)) -
+    Math.sin(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.cos(toRad(to.lng - from.lng));
+  return Math.round(((Math.atan2(y, x) * 180) / Math.PI + 360) % 360);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const options = parseArgs();
+  const heading = bearing(options.from, options.to);
+
+  let socket: net.Socket | null = null;
+  if (options.mode !== "json") {
+    socket = net.connect(options.port, options.host);
+    await new Promise<void>((resolve, reject) => {
+      socket!.once("connect", resolve);
+      socket!.once("error", reject);
+    });
+    socket.on("data", (reply) => console.log(`<- ${reply.toString("hex")}`));
+    if (options.mode === "gt06") {
+      socket.write(encodeGt06Login(options.imei, 1));
+    }
+  }
+
+  for (let i = 0; i < options.points; i++) {
+    const t = options.points === 1 ? 1 : i / (options.points - 1);
+    const fix = {
+      latitude: options.from.lat + (options.to.lat - options.from.lat) * t,
+      longitude: options.from.lng + (options.to.lng - options.from.lng) * t,
+      recordedAt: new Date(),
+      speedKmh: 60 + Math.round(Math.random() * 30),
+      heading,
+    };
+
+    if (options.mode === "gt06") {
+      socket!.write(encodeGt06Location(fix, i + 2));
+    } else if (options.mode === "suntech") {
+      socket!.write(formatSuntechStatus(options.imei, fix));
+    } else {
+      const res = await fetch(`http://${options.host}:${options.port}/api/trackers/webhook`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-tracker-token": process.env.TRACKER_WEBHOOK_TOKEN ?? "",
+        },
+        body: JSON.stringify({ imei: options.imei, ...fix, recordedAt: fix.recordedAt.toISOString() }),
+      });
+      console.log(`<- ${res.status} ${await res.text()}`);
+    }
+
+    console.log(`-> [${i + 1}/${options.points}] ${fix.latitude.toFixed(5)}, ${fix.longitude.toFixed(5)}`);
+    if (i < options.points - 1) await sleep(options.intervalMs);
+  }
+
+  socket?.end();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
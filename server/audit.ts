@@ -0,0 +1,130 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { DbExecutor } from "./db";
+import {
+  auditEvents,
+  type AuditChange,
+  type AuditEntityType,
+  type FeatureKey,
+} from "@shared/schema";
+import type { AuthenticatedRequest } from "./auth-jwt";
+
+interface AuditContext {
+  req: Request;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+const REDACTED_FIELDS = new Set(["password", "passwordHash"]);
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+export const auditEntityFeatures: Record<AuditEntityType, FeatureKey> = {
+  vehicle: "veiculos",
+  collect: "coletas",
+  transport: "transportes",
+  transfer: "transferencias",
+  driver: "motoristas",
+  manufacturer: "montadoras",
+  yard: "patios",
+  client: "clientes",
+  delivery_location: "locais",
+  expense_settlement: "prestacao-de-contas",
+  expense_settlement_item: "prestacao-de-contas",
+  expense_policy: "prestacao-de-contas",
+  exchange_rate: "financeiro",
+  checkpoint: "checkpoints",
+  contract: "contratos",
+  freight_contract: "contratos-frete",
+  system_user: "usuarios",
+  tracker: "rastreadores",
+  damage_record: "avarias",
+  damage_claim: "avarias",
+  geofence_exception: "portaria",
+  driver_ledger_entry: "financeiro",
+  driver_payment_batch: "financeiro",
+  payroll_run: "financeiro",
+  transport_cte: "transportes",
+  fleet_unit: "frota",
+  trip: "transportes",
+};
+
+// Keeps the current request reachable from storage calls so audit events know who did what
+export function auditContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  auditContext.run({ req }, next);
+}
+
+function sanitize(record: object | null | undefined): Record<string, unknown> | null {
+  if (!record) return null;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    result[key] = REDACTED_FIELDS.has(key) ? "[redacted]" : value;
+  }
+  return result;
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Pass the transaction executor so the event commits or rolls back with the change itself. The insert runs
+// in its own savepoint: a failed audit write is logged and the surrounding transaction carries on.
+export async function recordAuditEvent(
+  executor: DbExecutor,
+  entity: AuditEntityType,
+  entityId: string,
+  action: "create" | "update" | "delete",
+  before: object | null | undefined,
+  after: object | null | undefined,
+): Promise<void> {
+  const beforeData = sanitize(before);
+  const afterData = sanitize(after);
+  const changes = diffRecords(beforeData, afterData);
+
+  if (action === "update" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const req = auditContext.getStore()?.req as AuthenticatedRequest | undefined;
+  const user = req?.user;
+  const actorName = user
+    ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username
+    : null;
+
+  try {
+    await executor.transaction((savepoint) => savepoint.insert(auditEvents).values({
+      entity,
+      entityId,
+      action,
+      actorId: user?.id ?? null,
+      actorName,
+      method: req?.method ?? null,
+      route: req?.originalUrl ?? null,
+      before: beforeData,
+      after: afterData,
+      changes,
+    }));
+  } catch (error) {
+    console.error("Error recording audit event:", error);
+  }
+}
@@ -2,8 +2,8 @@ import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import type { Express, Request, Response, NextFunction } from "express";
 import { db } from "./db";
-import { users, type User, type UserRole } from "@shared/models/auth";
-import { drivers } from "@shared/schema";
+import { users, userRoleEnum, type User, type UserRole } from "@shared/models/auth";
+import { drivers, type Driver } from "@shared/schema";
 import { eq, and, or } from "drizzle-orm";
 import { z } from "zod";
 
@@ -31,7 +31,10 @@ const registerSchema = z.object({
   email: z.string().email("Email inválido").optional(),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
-  role: z.enum(["admin", "operador", "visualizador", "motorista", "portaria"]).optional(),
+});
+
+const userRoleSchema = z.object({
+  role: z.enum(userRoleEnum),
 });
 
 const loginSchema = z.object({
@@ -98,18 +101,24 @@ export function isAuthenticatedJWT(req: AuthenticatedRequest, res: Response, nex
     });
 }
 
-async function findDriverTypeForUser(user: User): Promise<string | null> {
+// Driver accounts are linked to their driver record by name (= username) or email
+export async function findDriverForUser(user: User): Promise<Driver | null> {
   const conditions = [];
   if (user.username) conditions.push(eq(drivers.name, user.username));
   if (user.email) conditions.push(eq(drivers.email, user.email));
 
   if (conditions.length === 0) return null;
 
-  const [driver] = await db.select({ driverType: drivers.driverType })
+  const [driver] = await db.select()
     .from(drivers)
     .where(conditions.length === 1 ? conditions[0] : or(...conditions))
     .limit(1);
 
+  return driver ?? null;
+}
+
+async function findDriverTypeForUser(user: User): Promise<string | null> {
+  const driver = await findDriverForUser(user);
   return driver?.driverType || null;
 }
 
@@ -143,7 +152,8 @@ export function registerJWTAuthRoutes(app: Express) {
         email: data.email,
         firstName: data.firstName,
         lastName: data.lastName,
-        role: data.role || "visualizador",
+        // Self-registered accounts always start read-only; an admin grants roles afterwards
+        role: "visualizador",
         isActive: "true",
       }).returning();
 
@@ -299,6 +309,33 @@ export function registerJWTAuthRoutes(app: Express) {
     }
   });
 
+  app.patch("/api/auth/users/:id/role", isAuthenticatedJWT, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (req.user?.role !== "admin") {
+        return res.status(403).json({ message: "Apenas administradores podem alterar perfis" });
+      }
+
+      const data = userRoleSchema.parse(req.body);
+      const [updated] = await db.update(users)
+        .set({ role: data.role, updatedAt: new Date() })
+        .where(eq(users.id, req.params.id))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+
+      const { passwordHash: _, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Erro ao alterar perfil do usuário" });
+    }
+  });
+
   app.get("/api/auth/me", isAuthenticatedJWT, async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ message: "Não autenticado" });
@@ -0,0 +1,312 @@
+import jwt from "jsonwebtoken";
+import { timingSafeEqual } from "crypto";
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword } from "./auth-jwt";
+import { haversineKm } from "./dispatch";
+import { publishEvent } from "./realtime";
+import { buildYardBillingReport } from "./yard-billing";
+import type { Client, DeliveryLocation, InsertClient, Transport, TrackingPosition } from "@shared/schema";
+
+// Customer-facing portal. Clients log in with the username/password kept on their `clients` row and
+// get a token signed with a separate secret, so portal tokens are useless on staff routes and vice versa.
+// Every query below is filtered by the clientId taken from that token, never from the request.
+
+const CLIENT_PORTAL_SECRET = process.env.CLIENT_PORTAL_JWT_SECRET || "default-client-portal-secret";
+const CLIENT_PORTAL_TOKEN_EXPIRY = "12h";
+
+// ETA for vehicles on the road: straight-line distance times a road factor at a truck's average speed
+const ROAD_DISTANCE_FACTOR = 1.25;
+const AVERAGE_TRUCK_SPEED_KMH = 60;
+
+const OPEN_TRANSPORT_STATUSES = ["pendente", "aguardando_saida", "em_transito"];
+
+interface ClientPortalPayload {
+  clientId: string;
+  username: string;
+  scope: "client_portal";
+}
+
+export interface ClientPortalRequest extends Request {
+  portalClient?: Client;
+}
+
+const portalLoginSchema = z.object({
+  username: z.string().min(1, "Usuário é obrigatório"),
+  password: z.string().min(1, "Senha é obrigatória"),
+});
+
+const deliveryRequestSchema = z.object({
+  vehicleChassi: z.string().min(1, "Veículo é obrigatório"),
+  deliveryLocationId: z.string().min(1, "Local de entrega é obrigatório"),
+  deliveryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida").optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+function generateClientPortalToken(client: Client): string {
+  const payload: ClientPortalPayload = { clientId: client.id, username: client.username!, scope: "client_portal" };
+  return jwt.sign(payload, CLIENT_PORTAL_SECRET, { expiresIn: CLIENT_PORTAL_TOKEN_EXPIRY });
+}
+
+function verifyClientPortalToken(token: string): ClientPortalPayload | null {
+  try {
+    const payload = jwt.verify(token, CLIENT_PORTAL_SECRET) as ClientPortalPayload;
+    return payload.scope === "client_portal" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isAuthenticatedClient(req: ClientPortalRequest, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return res.status(401).json({ message: "Token não fornecido" });
+  }
+
+  const payload = verifyClientPortalToken(authHeader.split(" ")[1]);
+  if (!payload) {
+    return res.status(401).json({ message: "Token inválido ou expirado" });
+  }
+
+  storage.getClient(payload.clientId)
+    .then((client) => {
+      if (!client || client.isActive === "false") {
+        return res.status(401).json({ message: "Cliente não encontrado ou inativo" });
+      }
+      req.portalClient = client;
+      next();
+    })
+    .catch(() => res.status(500).json({ message: "Erro ao verificar autenticação" }));
+}
+
+export function withoutPassword(client: Client): Omit<Client, "password"> {
+  const { password: _, ...rest } = client;
+  return rest;
+}
+
+// Staff client forms send the plain password; it is stored hashed, and a blank one keeps the current password
+export async function prepareClientCredentials<T extends Partial<InsertClient>>(data: T): Promise<T> {
+  const { password, ...rest } = data;
+  if (!password) return rest as T;
+  return { ...rest, password: await hashPassword(password) } as T;
+}
+
+// Passwords saved before hashing was introduced are compared as-is and upgraded on the first login
+async function verifyClientPassword(client: Client, password: string): Promise<boolean> {
+  if (!client.password) return false;
+  if (client.password.startsWith("$2")) {
+    return verifyPassword(password, client.password);
+  }
+
+  const stored = Buffer.from(client.password);
+  const given = Buffer.from(password);
+  const matches = stored.length === given.length && timingSafeEqual(stored, given);
+  if (matches) {
+    await storage.updateClient(client.id, { password: await hashPassword(password) });
+  }
+  return matches;
+}
+
+function estimateArrival(
+  transport: Transport,
+  deliveryLocation: DeliveryLocation | undefined,
+  lastPosition: TrackingPosition | undefined,
+): Date | null {
+  if (transport.status === "entregue") return transport.checkoutDateTime;
+  if (transport.status === "cancelado") return null;
+
+  if (transport.status === "em_transito") {
+    const destLat = deliveryLocation?.latitude ? parseFloat(deliveryLocation.latitude) : NaN;
+    const destLng = deliveryLocation?.longitude ? parseFloat(deliveryLocation.longitude) : NaN;
+    if (lastPosition && !isNaN(destLat) && !isNaN(destLng)) {
+      const remainingKm = haversineKm(
+        parseFloat(lastPosition.latitude), parseFloat(lastPosition.longitude), destLat, destLng,
+      ) * ROAD_DISTANCE_FACTOR;
+      const hours = remainingKm / AVERAGE_TRUCK_SPEED_KMH;
+      return new Date(lastPosition.recordedAt.getTime() + hours * 60 * 60 * 1000);
+    }
+    if (transport.transitStartedAt && transport.routeDurationMinutes) {
+      return new Date(transport.transitStartedAt.getTime() + transport.routeDurationMinutes * 60 * 1000);
+    }
+  }
+
+  return transport.deliveryDate ? new Date(`${transport.deliveryDate}T18:00:00`) : null;
+}
+
+function deliveryPhotos(transport: Transport): string[] {
+  if (transport.status !== "entregue") return [];
+  return [
+    transport.checkoutFrontalPhoto,
+    transport.checkoutLateral1Photo,
+    transport.checkoutLateral2Photo,
+    transport.checkoutTraseiraPhoto,
+    transport.checkoutOdometerPhoto,
+    transport.checkoutFuelLevelPhoto,
+    ...(transport.checkoutDamagePhotos ?? []),
+  ].filter((photo): photo is string => !!photo);
+}
+
+export function registerClientPortalRoutes(app: Express) {
+  app.post("/api/portal/auth/login", async (req: Request, res: Response) => {
+    try {
+      const data = portalLoginSchema.parse(req.body);
+      const client = await storage.getClientByUsername(data.username);
+      if (!client || !(await verifyClientPassword(client, data.password))) {
+        return res.status(401).json({ message: "Credenciais inválidas" });
+      }
+      if (client.isActive === "false") {
+        return res.status(401).json({ message: "Cliente inativo" });
+      }
+
+      res.json({
+        accessToken: generateClientPortalToken(client),
+        client: withoutPassword(client),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Error logging in client:", error);
+      res.status(500).json({ message: "Erro ao realizar login" });
+    }
+  });
+
+  app.get("/api/portal/me", isAuthenticatedClient, (req: ClientPortalRequest, res: Response) => {
+    res.json(withoutPassword(req.portalClient!));
+  });
+
+  app.get("/api/portal/vehicles", isAuthenticatedClient, async (req: ClientPortalRequest, res: Response) => {
+    try {
+      const [vehicleList, yardList] = await Promise.all([
+        storage.getVehiclesByClient(req.portalClient!.id),
+        storage.getYards(),
+      ]);
+      const yardMap = new Map(yardList.map((y) => [y.id, y]));
+
+      res.json(vehicleList
+        .filter((v) => v.status === "em_estoque")
+        .map((v) => ({
+          chassi: v.chassi,
+          color: v.color,
+          status: v.status,
+          yardName: v.yardId ? yardMap.get(v.yardId)?.name ?? null : null,
+          yardEntryDateTime: v.yardEntryDateTime,
+        })));
+    } catch (error) {
+      console.error("Error fetching portal vehicles:", error);
+      res.status(500).json({ message: "Failed to fetch vehicles" });
+    }
+  });
+
+  app.get("/api/portal/delivery-locations", isAuthenticatedClient, async (req: ClientPortalRequest, res: Response) => {
+    try {
+      const locations = await storage.getDeliveryLocations(req.portalClient!.id);
+      res.json(locations.filter((l) => l.isActive !== "false"));
+    } catch (error) {
+      console.error("Error fetching portal delivery locations:", error);
+      res.status(500).json({ message: "Failed to fetch delivery locations" });
+    }
+  });
+
+  app.get("/api/portal/transports", isAuthenticatedClient, async (req: ClientPortalRequest, res: Response) => {
+    try {
+      const [transportList, locations, yardList] = await Promise.all([
+        storage.getTransportsByClient(req.portalClient!.id),
+        storage.getDeliveryLocations(req.portalClient!.id),
+        storage.getYards(),
+      ]);
+      const locationMap = new Map(locations.map((l) => [l.id, l]));
+      const yardMap = new Map(yardList.map((y) => [y.id, y]));
+
+      const result = [];
+      for (const transport of transportList) {
+        const deliveryLocation = locationMap.get(transport.deliveryLocationId);
+        const lastPosition = transport.status === "em_transito"
+          ? await storage.getLatestTrackingPosition("transport", transport.id)
+          : undefined;
+        const originYard = yardMap.get(transport.originYardId);
+
+        result.push({
+          id: transport.id,
+          requestNumber: transport.requestNumber,
+          vehicleChassi: transport.vehicleChassi,
+          status: transport.status,
+          deliveryDate: transport.deliveryDate,
+          createdAt: transport.createdAt,
+          originYardName: originYard?.name ?? null,
+          deliveryLocation: deliveryLocation
+            ? { name: deliveryLocation.name, city: deliveryLocation.city, state: deliveryLocation.state }
+            : null,
+          departedAt: transport.transitStartedAt ?? transport.checkinDateTime,
+          deliveredAt: transport.status === "entregue" ? transport.checkoutDateTime : null,
+          estimatedArrival: estimateArrival(transport, deliveryLocation, lastPosition),
+          deliveryPhotos: deliveryPhotos(transport),
+        });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching portal transports:", error);
+      res.status(500).json({ message: "Failed to fetch transports" });
+    }
+  });
+
+  app.get("/api/portal/yard-billing", isAuthenticatedClient, async (req: ClientPortalRequest, res: Response) => {
+    try {
+      const report = await buildYardBillingReport(req.portalClient!.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating portal yard billing:", error);
+      res.status(500).json({ message: "Failed to generate yard billing report" });
+    }
+  });
+
+  // The customer asks for one of its in-stock vehicles to be delivered; operations assigns driver and route
+  app.post("/api/portal/delivery-requests", isAuthenticatedClient, async (req: ClientPortalRequest, res: Response) => {
+    try {
+      const client = req.portalClient!;
+      const data = deliveryRequestSchema.parse(req.body);
+
+      const vehicle = await storage.getVehicle(data.vehicleChassi);
+      if (!vehicle || vehicle.clientId !== client.id) {
+        return res.status(404).json({ message: "Veículo não encontrado" });
+      }
+      if (vehicle.status !== "em_estoque" || !vehicle.yardId) {
+        return res.status(409).json({ message: "Apenas veículos em estoque podem ser solicitados para entrega" });
+      }
+
+      const location = await storage.getDeliveryLocation(data.deliveryLocationId);
+      if (!location || location.clientId !== client.id) {
+        return res.status(404).json({ message: "Local de entrega não encontrado" });
+      }
+
+      const existing = await storage.getTransportsByClient(client.id);
+      if (existing.some((t) => t.vehicleChassi === vehicle.chassi && OPEN_TRANSPORT_STATUSES.includes(t.status))) {
+        return res.status(409).json({ message: "Já existe um transporte em aberto para este veículo" });
+      }
+
+      const transport = await storage.createTransport({
+        vehicleChassi: vehicle.chassi,
+        clientId: client.id,
+        originYardId: vehicle.yardId,
+        deliveryLocationId: location.id,
+        deliveryDate: data.deliveryDate,
+        status: "pendente",
+        notes: ["Solicitado pelo portal do cliente", data.notes].filter(Boolean).join(" - "),
+      });
+      publishEvent({ type: "transport.created", transportId: transport.id, status: transport.status });
+
+      res.status(201).json({
+        id: transport.id,
+        requestNumber: transport.requestNumber,
+        status: transport.status,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Error creating delivery request:", error);
+      res.status(500).json({ message: "Failed to create delivery request" });
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import type { CteIcms, CteUf } from "./types";
+
+// Modal internal rates per state (percent), including the poverty-fund surcharges where they apply.
+// States revise these every year or two, so this table needs checking when the fiscal team reports a change.
+const INTERNAL_RATES: Record<CteUf, number> = {
+  AC: 19, AL: 19, AP: 18, AM: 20, BA: 20.5, CE: 20, DF: 20, ES: 17, GO: 19, MA: 23,
+  MT: 17, MS: 17, MG: 18, PA: 19, PB: 20, PR: 19.5, PE: 20.5, PI: 22.5, RJ: 22, RN: 18,
+  RS: 17, RO: 19.5, RR: 20, SC: 17, SP: 18, SE: 19, TO: 20,
+};
+
+// Resolução do Senado 22/89: services starting in the South/Southeast (except ES) and ending in the
+// North, Northeast, Center-West or ES pay 7%; every other interstate pair pays 12%
+const SOUTH_SOUTHEAST_EXCEPT_ES: CteUf[] = ["MG", "PR", "RJ", "RS", "SC", "SP"];
+
+export function icmsRate(originUf: CteUf, destinationUf: CteUf): number {
+  if (originUf === destinationUf) return INTERNAL_RATES[originUf];
+  if (SOUTH_SOUTHEAST_EXCEPT_ES.includes(originUf) && !SOUTH_SOUTHEAST_EXCEPT_ES.includes(destinationUf)) return 7;
+  return 12;
+}
+
+// ICMS is charged where the service starts, on the full service value (CST 00)
+export function calculateIcms(total: number, originUf: CteUf, destinationUf: CteUf): CteIcms {
+  const rate = icmsRate(originUf, destinationUf);
+  return { base: total, rate, amount: Math.round(total * rate) / 100 };
+}
+
+// 5353/6353: transport service provided to a commercial establishment, within the state or interstate
+export function cteCfop(originUf: CteUf, destinationUf: CteUf): string {
+  return originUf === destinationUf ? "5353" : "6353";
+}
@@ -0,0 +1,313 @@
+import { randomInt } from "crypto";
+import { storage } from "../storage";
+import { LifecycleError } from "../lifecycle";
+import { calculateIcms, cteCfop } from "./icms";
+import { findMunicipalityCode } from "./municipalities";
+import { createStubCteProvider } from "./stub";
+import { buildAccessKey, buildCteXml, validateCteData } from "./xml";
+import type { CteAddress, CteDocumentData, CteEmitter, CteParty, CteProvider, CteUf } from "./types";
+import {
+  brazilianStates,
+  type FreightContract,
+  type GenerateTransportCte,
+  type TransportCte,
+} from "@shared/schema";
+
+export type { CteProvider, CteTransmissionResult } from "./types";
+export { createStubCteProvider } from "./stub";
+
+// CT-e for a transport: the fiscal data is assembled from the transport, its parties and the client's
+// freight contract (with the quote it came from), validated against the layout and stored as XML.
+// Signing and transmission are a separate step through the configured provider, so a document can be
+// reviewed and regenerated until it is authorised.
+
+// Same insurance factor the freight quote screens use (ad valorem over the vehicle value)
+const INSURANCE_RATE = 0.0003;
+
+const EMITTER_ENV = {
+  cnpj: "CTE_EMITTER_CNPJ",
+  ie: "CTE_EMITTER_IE",
+  name: "CTE_EMITTER_NAME",
+  street: "CTE_EMITTER_STREET",
+  number: "CTE_EMITTER_NUMBER",
+  district: "CTE_EMITTER_DISTRICT",
+  city: "CTE_EMITTER_CITY",
+  uf: "CTE_EMITTER_UF",
+  cep: "CTE_EMITTER_CEP",
+  rntrc: "CTE_EMITTER_RNTRC",
+} as const;
+
+export class CteNotConfiguredError extends Error {
+  constructor(missing: string[]) {
+    super(`Emitente do CT-e não configurado. Configure as variáveis ${missing.join(", ")}.`);
+    this.name = "CteNotConfiguredError";
+    Object.setPrototypeOf(this, CteNotConfiguredError.prototype);
+  }
+}
+
+export class CteValidationError extends LifecycleError {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(400, "O CT-e não pôde ser gerado. Corrija os dados indicados.");
+    this.name = "CteValidationError";
+    this.errors = errors;
+    Object.setPrototypeOf(this, CteValidationError.prototype);
+  }
+}
+
+const providers: Record<string, () => CteProvider> = {
+  stub: () => createStubCteProvider(),
+};
+
+// CTE_PROVIDER picks the signing/transmission provider; the stub is the default until a real one is registered
+export function getCteProvider(): CteProvider {
+  const name = process.env.CTE_PROVIDER || "stub";
+  const factory = providers[name];
+  if (!factory) throw new Error(`Provedor de CT-e desconhecido: ${name}`);
+  return factory();
+}
+
+const digits = (value: string | null | undefined) => (value ?? "").replace(/\D/g, "");
+
+function toNumber(value: string | null | undefined): number {
+  const num = parseFloat(value || "0");
+  return Number.isFinite(num) ? num : 0;
+}
+
+function asUf(value: string | null | undefined): CteUf | null {
+  const uf = (value ?? "").trim().toUpperCase();
+  return (brazilianStates as readonly string[]).includes(uf) ? (uf as CteUf) : null;
+}
+
+// Resolves names to IBGE codes and records what is missing instead of failing on the first problem
+class Resolver {
+  readonly errors: string[] = [];
+
+  async municipality(label: string, city: string | null | undefined, state: string | null | undefined) {
+    const uf = asUf(state);
+    if (!uf) {
+      this.errors.push(`${label}: UF inválida ou não informada`);
+      return null;
+    }
+    if (!city?.trim()) {
+      this.errors.push(`${label}: município não informado`);
+      return null;
+    }
+    let cityCode: string | null = null;
+    try {
+      cityCode = await findMunicipalityCode(city, uf);
+    } catch (error) {
+      this.errors.push(`${label}: não foi possível consultar o código IBGE de ${city}/${uf} (${(error as Error).message})`);
+      return null;
+    }
+    if (!cityCode) {
+      this.errors.push(`${label}: município ${city}/${uf} não encontrado no IBGE`);
+      return null;
+    }
+    return { cityCode, cityName: city.trim(), uf };
+  }
+
+  async party(
+    label: string,
+    entity: {
+      name: string;
+      cnpj: string | null;
+      address: string | null;
+      addressNumber: string | null;
+      neighborhood: string | null;
+      city: string | null;
+      state: string | null;
+      cep: string | null;
+    } | undefined,
+  ): Promise<CteParty | null> {
+    if (!entity) {
+      this.errors.push(`${label}: cadastro não encontrado`);
+      return null;
+    }
+    if (!entity.cnpj) this.errors.push(`${label}: CNPJ não informado no cadastro de ${entity.name}`);
+    const municipality = await this.municipality(label, entity.city, entity.state);
+    if (!municipality) return null;
+    const address: CteAddress = {
+      street: entity.address ?? "",
+      number: entity.addressNumber || "S/N",
+      district: entity.neighborhood ?? "",
+      cep: digits(entity.cep),
+      ...municipality,
+    };
+    // The registry keeps no state registration, so parties are declared as non-contributors
+    return { cnpj: digits(entity.cnpj), ie: null, name: entity.name, address };
+  }
+}
+
+async function readEmitter(resolver: Resolver): Promise<CteEmitter | null> {
+  const missing = Object.values(EMITTER_ENV).filter((key) => !process.env[key]);
+  if (missing.length > 0) throw new CteNotConfiguredError(missing);
+  const env = (key: keyof typeof EMITTER_ENV) => process.env[EMITTER_ENV[key]]!.trim();
+  const municipality = await resolver.municipality("Emitente", env("city"), env("uf"));
+  if (!municipality) return null;
+  const ie = env("ie").toUpperCase();
+  return {
+    cnpj: digits(env("cnpj")),
+    ie: ie === "ISENTO" ? ie : digits(ie),
+    name: env("name"),
+    tradeName: process.env.CTE_EMITTER_TRADE_NAME?.trim() || null,
+    rntrc: digits(env("rntrc")),
+    address: {
+      street: env("street"),
+      number: env("number"),
+      district: env("district"),
+      cep: digits(env("cep")),
+      ...municipality,
+    },
+  };
+}
+
+// The contract chosen explicitly, the one the previous CT-e used, or the client's active contract in force
+async function resolveFreightContract(clientId: string, referenceDate: string, freightContractId: string | null | undefined): Promise<FreightContract> {
+  if (freightContractId) {
+    const contract = await storage.getFreightContract(freightContractId);
+    if (!contract) throw new LifecycleError(404, "Contrato de frete não encontrado");
+    if (contract.clientId !== clientId) throw new LifecycleError(400, "O contrato de frete é de outro cliente");
+    return contract;
+  }
+  const contract = (await storage.getFreightContracts()).find((c) =>
+    c.clientId === clientId &&
+    c.status === "ativo" &&
+    (!c.startDate || c.startDate <= referenceDate) &&
+    (!c.endDate || c.endDate >= referenceDate),
+  );
+  if (!contract) {
+    throw new LifecycleError(409, "Nenhum contrato de frete ativo para o cliente nesta data. Informe o contrato a usar.");
+  }
+  return contract;
+}
+
+export async function getTransportCte(transportId: string): Promise<TransportCte | null> {
+  return (await storage.getTransportCte(transportId)) ?? null;
+}
+
+// Builds (or rebuilds) the transport's CT-e. A rebuilt document keeps its series and number but gets a
+// new issue date and access key; once authorised it can no longer be replaced.
+export async function generateTransportCte(transportId: string, input: GenerateTransportCte, userId: string | null): Promise<TransportCte> {
+  const transport = await storage.getTransport(transportId);
+  if (!transport) throw new LifecycleError(404, "Transporte não encontrado");
+  if (transport.status === "cancelado") throw new LifecycleError(409, "Transporte cancelado não emite CT-e");
+  const existing = await storage.getTransportCte(transportId);
+  if (existing?.status === "autorizado") throw new LifecycleError(409, "CT-e já autorizado não pode ser gerado novamente");
+
+  const referenceDate = transport.deliveryDate ?? new Date().toISOString().slice(0, 10);
+  const contract = await resolveFreightContract(transport.clientId, referenceDate, input.freightContractId ?? existing?.freightContractId);
+  const quote = contract.quoteId ? await storage.getFreightQuote(contract.quoteId) : undefined;
+
+  const [vehicle, client, yard, deliveryLocation] = await Promise.all([
+    storage.getVehicle(transport.vehicleChassi),
+    storage.getClient(transport.clientId),
+    storage.getYard(transport.originYardId),
+    storage.getDeliveryLocation(transport.deliveryLocationId),
+  ]);
+  const manufacturer = vehicle?.manufacturerId ? await storage.getManufacturer(vehicle.manufacturerId) : undefined;
+
+  const resolver = new Resolver();
+  const emitter = await readEmitter(resolver);
+  const sender = await resolver.party("Remetente (montadora)", manufacturer);
+  const recipient = await resolver.party("Destinatário (cliente)", client);
+  const origin = await resolver.municipality("Origem (pátio)", yard?.city, yard?.state);
+  const destination = await resolver.municipality("Destino (local de entrega)", deliveryLocation?.city, deliveryLocation?.state);
+
+  const total = toNumber(contract.valorTotalCte) || toNumber(quote?.valorTotalCte);
+  if (total <= 0) resolver.errors.push(`Contrato ${contract.contractNumber}: valor do CT-e não informado`);
+  const cargoValue = input.cargoValue ?? toNumber(quote?.valorBem);
+  if (cargoValue <= 0) resolver.errors.push("Valor da carga não informado: o contrato não tem cotação com o valor do bem");
+
+  if (!emitter || !sender || !recipient || !origin || !destination || resolver.errors.length > 0) {
+    throw new CteValidationError(resolver.errors);
+  }
+
+  // Toll and insurance come straight from the quote; the rest of the contracted value is the freight itself
+  const components: CteDocumentData["components"] = [];
+  if (quote) {
+    const toll = toNumber(quote.pedagio);
+    const insurance = Math.round(toNumber(quote.valorBem) * INSURANCE_RATE * 100) / 100;
+    if (toll + insurance < total) {
+      if (toll > 0) components.push({ name: "PEDAGIO", amount: toll });
+      if (insurance > 0) components.push({ name: "SEGURO", amount: insurance });
+    }
+  }
+  const freight = Math.round((total - components.reduce((sum, c) => sum + c.amount, 0)) * 100) / 100;
+  components.unshift({ name: "FRETE VALOR", amount: freight });
+
+  const series = existing?.series ?? parseInt(process.env.CTE_SERIES || "1", 10);
+  const data: CteDocumentData = {
+    environment: process.env.CTE_ENVIRONMENT === "producao" ? "producao" : "homologacao",
+    series,
+    number: existing?.number ?? 1,
+    numericCode: String(randomInt(0, 100_000_000)).padStart(8, "0"),
+    issuedAt: new Date(),
+    cfop: cteCfop(origin.uf, destination.uf),
+    emitter,
+    sender,
+    recipient,
+    origin,
+    destination,
+    components,
+    total,
+    icms: calculateIcms(total, origin.uf, destination.uf),
+    cargoValue,
+    cargoDescription: "VEICULO",
+    otherDocument: `CHASSI ${transport.vehicleChassi}`,
+  };
+  const errors = validateCteData(data);
+  if (errors.length > 0) throw new CteValidationError(errors);
+
+  return storage.transaction(async (tx) => {
+    // The number is only taken once the document is known to be valid, so failures leave no gaps
+    if (!existing) data.number = await tx.getNextCteNumber(series);
+    const accessKey = buildAccessKey(data);
+    const values = {
+      freightContractId: contract.id,
+      series,
+      number: data.number,
+      accessKey,
+      status: "gerado" as const,
+      cfop: data.cfop,
+      originUf: origin.uf,
+      destinationUf: destination.uf,
+      totalAmount: total.toFixed(2),
+      components: components.map((c) => ({ name: c.name, amount: c.amount.toFixed(2) })),
+      cargoValue: cargoValue.toFixed(2),
+      icmsBase: data.icms.base.toFixed(2),
+      icmsRate: data.icms.rate.toFixed(2),
+      icmsAmount: data.icms.amount.toFixed(2),
+      xml: buildCteXml(data, accessKey),
+      signedXml: null,
+      provider: null,
+      protocol: null,
+      statusMessage: null,
+      transmittedAt: null,
+    };
+    if (existing) {
+      return (await tx.updateTransportCte(existing.id, values))!;
+    }
+    return tx.createTransportCte({ ...values, transportId, createdByUserId: userId });
+  });
+}
+
+// Signs and sends the stored document; a rejection keeps the XML so it can be fixed and regenerated
+export async function transmitTransportCte(transportId: string): Promise<TransportCte> {
+  const cte = await storage.getTransportCte(transportId);
+  if (!cte) throw new LifecycleError(404, "CT-e não gerado para este transporte");
+  if (cte.status === "autorizado") throw new LifecycleError(409, "CT-e já autorizado");
+
+  const provider = getCteProvider();
+  const signedXml = await provider.sign(cte.xml, cte.accessKey);
+  const result = await provider.transmit(signedXml, cte.accessKey);
+  return (await storage.updateTransportCte(cte.id, {
+    status: result.status,
+    signedXml,
+    provider: provider.name,
+    protocol: result.protocol,
+    statusMessage: result.message,
+    transmittedAt: new Date(),
+  }))!;
+}
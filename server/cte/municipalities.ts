@@ -0,0 +1,44 @@
+import type { CteUf } from "./types";
+
+// IBGE municipality codes, fetched once per state from the same public API the city pickers use
+const IBGE_MUNICIPALITIES_URL = "https://servicodados.ibge.gov.br/api/v1/localidades/estados";
+// A slow IBGE fails the lookup instead of stalling CT-e generation
+const IBGE_REQUEST_TIMEOUT_MS = 10_000;
+
+const cache = new Map<CteUf, Map<string, string>>();
+
+function normalizeCityName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+}
+
+async function loadState(uf: CteUf): Promise<Map<string, string>> {
+  const cached = cache.get(uf);
+  if (cached) return cached;
+  const response = await fetch(`${IBGE_MUNICIPALITIES_URL}/${uf}/municipios`, {
+    signal: AbortSignal.timeout(IBGE_REQUEST_TIMEOUT_MS),
+  }).catch((error) => {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new Error(`IBGE não respondeu em ${IBGE_REQUEST_TIMEOUT_MS / 1000} s ao consultar os municípios de ${uf}`);
+    }
+    throw error;
+  });
+  if (!response.ok) {
+    throw new Error(`IBGE respondeu ${response.status} ao consultar os municípios de ${uf}`);
+  }
+  const municipalities = (await response.json()) as { id: number; nome: string }[];
+  const codes = new Map(municipalities.map((m) => [normalizeCityName(m.nome), String(m.id)]));
+  cache.set(uf, codes);
+  return codes;
+}
+
+// null when the city name does not match any municipality of the state
+export async function findMunicipalityCode(cityName: string, uf: CteUf): Promise<string | null> {
+  const codes = await loadState(uf);
+  return codes.get(normalizeCityName(cityName)) ?? null;
+}
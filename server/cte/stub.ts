@@ -0,0 +1,26 @@
+import { createHash } from "crypto";
+import type { CteProvider, CteTransmissionResult } from "./types";
+
+// Offline provider for development and homologation without a certificate: the "signature" is only a
+// digest of the document, and every transmission is authorised unless a rejection is configured
+export function createStubCteProvider(options: { rejectWith?: string } = {}): CteProvider {
+  return {
+    name: "stub",
+    async sign(xml, accessKey) {
+      const digest = createHash("sha256").update(xml).digest("base64");
+      const signature =
+        `<Signature xmlns="http://www.w3.org/2000/09/xmldsig#"><SignedInfo>` +
+        `<Reference URI="#CTe${accessKey}"><DigestValue>${digest}</DigestValue></Reference>` +
+        `</SignedInfo><SignatureValue>STUB</SignatureValue></Signature>`;
+      return xml.replace("</CTe>", `${signature}</CTe>`);
+    },
+    async transmit(_signedXml, accessKey): Promise<CteTransmissionResult> {
+      if (options.rejectWith) {
+        return { status: "rejeitado", protocol: null, message: options.rejectWith };
+      }
+      // Protocol: 1 digit for the authorising body, 2 for the year, 12 sequential; the key keeps it stable
+      const protocol = `9${String(new Date().getFullYear()).slice(-2)}${accessKey.slice(-12)}`;
+      return { status: "autorizado", protocol, message: "Autorizado o uso do CT-e (simulado)" };
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import type { brazilianStates } from "@shared/schema";
+
+export type CteUf = typeof brazilianStates[number];
+
+export interface CteAddress {
+  street: string;
+  number: string;
+  district: string;
+  cityCode: string;      // Código IBGE do município (7 dígitos)
+  cityName: string;
+  cep: string;           // digits only
+  uf: CteUf;
+}
+
+export interface CteParty {
+  cnpj: string;          // digits only
+  ie: string | null;     // Inscrição estadual; null when the party is not registered
+  name: string;
+  address: CteAddress;
+}
+
+export interface CteEmitter extends CteParty {
+  tradeName: string | null;
+  rntrc: string;         // Registro Nacional de Transportadores Rodoviários de Carga
+}
+
+export interface CteIcms {
+  base: number;
+  rate: number;          // Percent
+  amount: number;
+}
+
+// Everything the XML needs, already resolved from the transport and its freight contract
+export interface CteDocumentData {
+  environment: "producao" | "homologacao";
+  series: number;
+  number: number;
+  numericCode: string;   // cCT, 8 digits
+  issuedAt: Date;
+  cfop: string;
+  emitter: CteEmitter;
+  sender: CteParty;
+  recipient: CteParty;
+  origin: { cityCode: string; cityName: string; uf: CteUf };
+  destination: { cityCode: string; cityName: string; uf: CteUf };
+  components: { name: string; amount: number }[];
+  total: number;
+  icms: CteIcms;
+  cargoValue: number;
+  cargoDescription: string;
+  otherDocument: string; // The vehicle has no NF-e of its own here, so it goes as "outros documentos"
+}
+
+export interface CteTransmissionResult {
+  status: "autorizado" | "rejeitado";
+  protocol: string | null;
+  message: string;
+}
+
+// Signing needs the company's A1 certificate and transmission a SEFAZ (or intermediary) web service;
+// both live behind a provider so the rest of the flow can run without them
+export interface CteProvider {
+  name: string;
+  sign(xml: string, accessKey: string): Promise<string>;
+  transmit(signedXml: string, accessKey: string): Promise<CteTransmissionResult>;
+}
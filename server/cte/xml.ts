@@ -0,0 +1,231 @@
+import type { CteAddress, CteDocumentData, CteParty, CteUf } from "./types";
+
+// CT-e layout 4.00 (modelo 57, modal rodoviário). Only the groups this operation uses are written:
+// one vehicle per document, the client as payer (toma 3 = destinatário) and ICMS under CST 00.
+
+const LAYOUT_VERSION = "4.00";
+const CTE_MODEL = "57";
+
+export const UF_CODES: Record<CteUf, string> = {
+  RO: "11", AC: "12", AM: "13", RR: "14", PA: "15", AP: "16", TO: "17", MA: "21", PI: "22", CE: "23",
+  RN: "24", PB: "25", PE: "26", AL: "27", SE: "28", BA: "29", MG: "31", ES: "32", RJ: "33", SP: "35",
+  PR: "41", SC: "42", RS: "43", MS: "50", MT: "51", GO: "52", DF: "53",
+};
+
+// SEFAZ requires this recipient name on every document issued in homologation
+const HOMOLOGATION_RECIPIENT = "CT-E EMITIDO EM AMBIENTE DE HOMOLOGACAO - SEM VALOR FISCAL";
+
+export function isValidCnpj(value: string): boolean {
+  if (!/^\d{14}$/.test(value) || /^(\d)\1{13}$/.test(value)) return false;
+  const digit = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((acc, w, i) => acc + w * Number(value[i]), 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return digit(12) === Number(value[12]) && digit(13) === Number(value[13]);
+}
+
+// Módulo 11 with weights 2..9 from the right, as in the NF-e/CT-e manuals
+function mod11(digits: string): number {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+// Brasília time; Brazil has had no daylight saving since 2019, so the offset is fixed
+function brasiliaParts(date: Date) {
+  const local = new Date(date.getTime() - 3 * 60 * 60 * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    yymm: `${String(local.getUTCFullYear()).slice(-2)}${pad(local.getUTCMonth() + 1)}`,
+    iso: `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}T` +
+      `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}-03:00`,
+  };
+}
+
+// Chave de acesso: cUF + AAMM + CNPJ + modelo + série + número + tpEmis + cCT + DV (44 digits)
+export function buildAccessKey(data: CteDocumentData): string {
+  const base =
+    UF_CODES[data.emitter.address.uf] +
+    brasiliaParts(data.issuedAt).yymm +
+    data.emitter.cnpj +
+    CTE_MODEL +
+    String(data.series).padStart(3, "0") +
+    String(data.number).padStart(9, "0") +
+    "1" +
+    data.numericCode;
+  return base + mod11(base);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tag(name: string, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === "") return "";
+  return `<${name}>${typeof value === "number" ? value : escapeXml(value)}</${name}>`;
+}
+
+const money = (value: number) => value.toFixed(2);
+
+function addressXml(group: string, address: CteAddress, withCountry: boolean): string {
+  return `<${group}>` +
+    tag("xLgr", address.street) +
+    tag("nro", address.number) +
+    tag("xBairro", address.district) +
+    tag("cMun", address.cityCode) +
+    tag("xMun", address.cityName) +
+    tag("CEP", address.cep) +
+    tag("UF", address.uf) +
+    (withCountry ? tag("cPais", "1058") + tag("xPais", "BRASIL") : "") +
+    `</${group}>`;
+}
+
+function partyXml(group: string, addressGroup: string, party: CteParty, name: string): string {
+  return `<${group}>` +
+    tag("CNPJ", party.cnpj) +
+    tag("IE", party.ie) +
+    tag("xNome", name) +
+    addressXml(addressGroup, party.address, true) +
+    `</${group}>`;
+}
+
+// Field rules from the layout schema (sizes, patterns and mandatory values) checked before building,
+// so SEFAZ rejections are left to business rules rather than malformed data
+export function validateCteData(data: CteDocumentData): string[] {
+  const errors: string[] = [];
+  const text = (label: string, value: string | null | undefined, min: number, max: number) => {
+    const length = (value ?? "").trim().length;
+    if (length < min || length > max) errors.push(`${label}: deve ter entre ${min} e ${max} caracteres`);
+  };
+  const address = (label: string, a: CteAddress) => {
+    text(`${label} - logradouro`, a.street, 2, 255);
+    text(`${label} - número`, a.number, 1, 60);
+    text(`${label} - bairro`, a.district, 2, 60);
+    text(`${label} - município`, a.cityName, 2, 60);
+    if (!/^\d{7}$/.test(a.cityCode)) errors.push(`${label} - município sem código IBGE`);
+    if (!/^\d{8}$/.test(a.cep)) errors.push(`${label} - CEP inválido`);
+  };
+  const party = (label: string, p: CteParty) => {
+    if (!isValidCnpj(p.cnpj)) errors.push(`${label}: CNPJ inválido`);
+    if (p.ie !== null && !/^(\d{2,14}|ISENTO)$/.test(p.ie)) errors.push(`${label}: inscrição estadual inválida`);
+    text(`${label} - nome`, p.name, 2, 60);
+    address(label, p.address);
+  };
+
+  party("Emitente", data.emitter);
+  if (!/^\d{8}$/.test(data.emitter.rntrc)) errors.push("Emitente: RNTRC deve ter 8 dígitos");
+  party("Remetente", data.sender);
+  party("Destinatário", data.recipient);
+  if (!/^\d{7}$/.test(data.origin.cityCode)) errors.push("Origem: município sem código IBGE");
+  if (!/^\d{7}$/.test(data.destination.cityCode)) errors.push("Destino: município sem código IBGE");
+  if (data.series < 0 || data.series > 999) errors.push("Série deve estar entre 0 e 999");
+  if (data.number < 1 || data.number > 999_999_999) errors.push("Número do CT-e fora da faixa permitida");
+  if (data.total <= 0) errors.push("Valor da prestação deve ser maior que zero");
+  if (data.cargoValue <= 0) errors.push("Valor da carga deve ser maior que zero");
+  for (const component of data.components) {
+    text(`Componente ${component.name}`, component.name, 1, 15);
+    if (component.amount < 0) errors.push(`Componente ${component.name}: valor negativo`);
+  }
+  const componentsTotal = data.components.reduce((sum, c) => sum + c.amount, 0);
+  if (Math.abs(componentsTotal - data.total) > 0.005) {
+    errors.push("A soma dos componentes difere do valor da prestação");
+  }
+  return errors;
+}
+
+export function buildCteXml(data: CteDocumentData, accessKey: string): string {
+  const issued = brasiliaParts(data.issuedAt);
+  const homologation = data.environment === "homologacao";
+  const { emitter, origin, destination } = data;
+
+  const ide = "<ide>" +
+    tag("cUF", UF_CODES[emitter.address.uf]) +
+    tag("cCT", data.numericCode) +
+    tag("CFOP", data.cfop) +
+    tag("natOp", "PRESTACAO DE SERVICO DE TRANSPORTE") +
+    tag("mod", CTE_MODEL) +
+    tag("serie", String(data.series)) +
+    tag("nCT", String(data.number)) +
+    tag("dhEmi", issued.iso) +
+    tag("tpImp", "1") +
+    tag("tpEmis", "1") +
+    tag("cDV", accessKey.slice(-1)) +
+    tag("tpAmb", homologation ? "2" : "1") +
+    tag("tpCTe", "0") +
+    tag("procEmi", "0") +
+    tag("verProc", "OTD") +
+    tag("cMunEnv", emitter.address.cityCode) +
+    tag("xMunEnv", emitter.address.cityName) +
+    tag("UFEnv", emitter.address.uf) +
+    tag("modal", "01") +
+    tag("tpServ", "0") +
+    tag("cMunIni", origin.cityCode) +
+    tag("xMunIni", origin.cityName) +
+    tag("UFIni", origin.uf) +
+    tag("cMunFim", destination.cityCode) +
+    tag("xMunFim", destination.cityName) +
+    tag("UFFim", destination.uf) +
+    tag("retira", "1") +
+    tag("indIEToma", data.recipient.ie ? "1" : "9") +
+    "<toma3><toma>3</toma></toma3>" +
+    "</ide>";
+
+  const emit = "<emit>" +
+    tag("CNPJ", emitter.cnpj) +
+    tag("IE", emitter.ie) +
+    tag("xNome", emitter.name) +
+    tag("xFant", emitter.tradeName) +
+    addressXml("enderEmit", emitter.address, false) +
+    tag("CRT", "3") +
+    "</emit>";
+
+  const vPrest = "<vPrest>" +
+    tag("vTPrest", money(data.total)) +
+    tag("vRec", money(data.total)) +
+    data.components.map((c) => `<Comp>${tag("xNome", c.name)}${tag("vComp", money(c.amount))}</Comp>`).join("") +
+    "</vPrest>";
+
+  const imp = "<imp><ICMS><ICMS00>" +
+    tag("CST", "00") +
+    tag("vBC", money(data.icms.base)) +
+    tag("pICMS", data.icms.rate.toFixed(2)) +
+    tag("vICMS", money(data.icms.amount)) +
+    "</ICMS00></ICMS></imp>";
+
+  const infCTeNorm = "<infCTeNorm>" +
+    "<infCarga>" +
+    tag("vCarga", money(data.cargoValue)) +
+    tag("proPred", data.cargoDescription) +
+    `<infQ>${tag("cUnid", "03")}${tag("tpMed", "UNIDADE")}${tag("qCarga", "1.0000")}</infQ>` +
+    "</infCarga>" +
+    `<infDoc><infOutros>${tag("tpDoc", "99")}${tag("descOutros", data.otherDocument)}${tag("vDocFisc", money(data.cargoValue))}</infOutros></infDoc>` +
+    `<infModal versaoModal="${LAYOUT_VERSION}"><rodo>${tag("RNTRC", emitter.rntrc)}</rodo></infModal>` +
+    "</infCTeNorm>";
+
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<CTe xmlns="http://www.portalfiscal.inf.br/cte">' +
+    `<infCte versao="${LAYOUT_VERSION}" Id="CTe${accessKey}">` +
+    ide +
+    emit +
+    partyXml("rem", "enderReme", data.sender, data.sender.name) +
+    partyXml("dest", "enderDest", data.recipient, homologation ? HOMOLOGATION_RECIPIENT : data.recipient.name) +
+    vPrest +
+    imp +
+    infCTeNorm +
+    "</infCte>" +
+    "</CTe>";
+}
@@ -0,0 +1,120 @@
+import { storage, type IStorage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { assertTransition, type DamageClaimStatus } from "@shared/state-machine";
+import type { DamageClaim, DamageClaimQuote, ExpenseSettlement } from "@shared/schema";
+
+// Claim workflow. Liability and amount are settled while the claim is open or under analysis;
+// approving freezes them and, when the driver is liable, books the amount as a deduction on
+// one of that driver's open expense settlements.
+
+const OPEN_SETTLEMENT_STATUSES: ExpenseSettlement["status"][] = ["pendente", "enviado", "devolvido"];
+const EDITABLE_CLAIM_STATUSES: DamageClaimStatus[] = ["aberta", "em_analise"];
+
+export function isClaimEditable(claim: DamageClaim): boolean {
+  return EDITABLE_CLAIM_STATUSES.includes(claim.status);
+}
+
+// Approved claims where the driver was found liable; they count as incidents in the driver's evaluation
+export function isDriverLiableClaim(claim: DamageClaim): boolean {
+  return claim.liableParty === "motorista" && !!claim.approvedAt && claim.status !== "rejeitada";
+}
+
+async function lockClaim(tx: IStorage, id: string): Promise<DamageClaim> {
+  const claim = await tx.getDamageClaimForUpdate(id);
+  if (!claim) throw new LifecycleError(404, "Sinistro não encontrado");
+  return claim;
+}
+
+function assertLiabilityComplete(claim: DamageClaim): void {
+  switch (claim.liableParty) {
+    case "motorista":
+      if (!claim.liableDriverId) throw new LifecycleError(400, "Informe o motorista responsável");
+      break;
+    case "montadora":
+      if (!claim.liableManufacturerId) throw new LifecycleError(400, "Informe a montadora responsável");
+      break;
+    case "patio":
+      if (!claim.liableYardId) throw new LifecycleError(400, "Informe o pátio responsável");
+      break;
+    case "seguradora":
+      if (!claim.insurerName) throw new LifecycleError(400, "Informe a seguradora");
+      break;
+    default:
+      throw new LifecycleError(400, "Defina o responsável antes de aprovar");
+  }
+  if (!claim.approvedAmount || parseFloat(claim.approvedAmount) <= 0) {
+    throw new LifecycleError(400, "Informe o valor aprovado (ou aprove um orçamento)");
+  }
+}
+
+async function recalculateSettlementDeductions(tx: IStorage, settlementId: string): Promise<void> {
+  const claims = await tx.getDamageClaims({ settlementId });
+  const total = claims.reduce((sum, c) => sum + parseFloat(c.approvedAmount || "0"), 0);
+  await tx.updateExpenseSettlement(settlementId, { deductionsAmount: total.toFixed(2) });
+}
+
+// Prefers the settlement of the transport the damage happened on, then the driver's most recent open one.
+// With no open settlement the deduction stays pending until the driver's next settlement is created.
+async function bookDriverDeduction(tx: IStorage, claim: DamageClaim): Promise<DamageClaim> {
+  const settlements = (await tx.getExpenseSettlements())
+    .filter((s) => s.driverId === claim.liableDriverId && OPEN_SETTLEMENT_STATUSES.includes(s.status));
+  const target = settlements.find((s) => s.transportId === claim.transportId) ?? settlements[0];
+  if (!target) return claim;
+
+  const updated = await tx.updateDamageClaim(claim.id, { settlementId: target.id });
+  await recalculateSettlementDeductions(tx, target.id);
+  return updated!;
+}
+
+export async function transitionDamageClaim(id: string, to: DamageClaimStatus): Promise<DamageClaim> {
+  return storage.transaction(async (tx) => {
+    const claim = await lockClaim(tx, id);
+    assertTransition("damage_claim", claim.status, to);
+
+    const changes: Partial<DamageClaim> = { status: to };
+    if (to === "aprovada") {
+      assertLiabilityComplete(claim);
+      changes.approvedAt = new Date();
+    }
+    if (to === "encerrada" || to === "rejeitada") changes.closedAt = new Date();
+    if (to === "em_analise") changes.closedAt = null;
+
+    const updated = (await tx.updateDamageClaim(id, changes))!;
+    if (to === "aprovada" && updated.liableParty === "motorista") {
+      return bookDriverDeduction(tx, updated);
+    }
+    return updated;
+  });
+}
+
+// Called when a settlement is created so deductions approved while the driver had none open are not lost
+export async function attachPendingDeductions(tx: IStorage, settlement: ExpenseSettlement): Promise<void> {
+  const pending = await tx.getPendingDriverDeductions(settlement.driverId);
+  if (pending.length === 0) return;
+  for (const claim of pending) {
+    await tx.updateDamageClaim(claim.id, { settlementId: settlement.id });
+  }
+  await recalculateSettlementDeductions(tx, settlement.id);
+}
+
+// The approved quote sets the amount charged to the liable party
+export async function approveDamageClaimQuote(claimId: string, quoteId: string): Promise<DamageClaimQuote> {
+  return storage.transaction(async (tx) => {
+    const claim = await lockClaim(tx, claimId);
+    if (!isClaimEditable(claim)) {
+      throw new LifecycleError(409, "Sinistro já aprovado ou encerrado");
+    }
+    const quotes = await tx.getDamageClaimQuotes(claimId);
+    const quote = quotes.find((q) => q.id === quoteId);
+    if (!quote) throw new LifecycleError(404, "Orçamento não encontrado");
+
+    for (const other of quotes) {
+      if (other.id !== quoteId && other.status === "aprovado") {
+        await tx.updateDamageClaimQuote(other.id, { status: "recusado" });
+      }
+    }
+    const approved = (await tx.updateDamageClaimQuote(quoteId, { status: "aprovado" }))!;
+    await tx.updateDamageClaim(claimId, { approvedAmount: quote.amount });
+    return approved;
+  });
+}
@@ -0,0 +1,166 @@
+import {
+  damageStages,
+  damageSeverities,
+  type Collect,
+  type DamageRecord,
+  type DamageStage,
+  type Transport,
+} from "@shared/schema";
+
+// Compares the damage found at two inspection stages of the same chassis. A damage at the later
+// stage is new when the earlier stage had nothing of the same type on the same panel, and worsened
+// when it did but with a lower severity. The legs between the two stages are the suspects.
+
+export type DamageLeg = "coleta" | "patio" | "transporte";
+
+// Leg travelled between each stage and the next one in `damageStages`
+const legAfterStage: Record<DamageStage, DamageLeg | null> = {
+  coleta_checkin: "coleta",
+  coleta_checkout: "patio",
+  patio: "patio",
+  transporte_checkin: "transporte",
+  transporte_checkout: null,
+};
+
+export interface StageInspection {
+  stage: DamageStage;
+  inspectedAt: Date;
+  records: DamageRecord[];
+}
+
+export interface StageComparison {
+  from: DamageStage;
+  to: DamageStage;
+  legs: DamageLeg[];
+  newDamages: DamageRecord[];
+  worsenedDamages: { before: DamageRecord; after: DamageRecord }[];
+  notObserved: DamageRecord[];
+}
+
+export class InvalidStageRangeError extends Error {
+  constructor(from: DamageStage, to: DamageStage) {
+    super(`Stage ${to} does not come after ${from}`);
+    this.name = "InvalidStageRangeError";
+    Object.setPrototypeOf(this, InvalidStageRangeError.prototype);
+  }
+}
+
+function stageIndex(stage: DamageStage): number {
+  return damageStages.indexOf(stage);
+}
+
+function severityRank(record: DamageRecord): number {
+  return damageSeverities.indexOf(record.severity);
+}
+
+function inspectionKey(record: DamageRecord): string {
+  return record.collectId ?? record.transportId ?? record.yardId ?? "";
+}
+
+export function legsBetween(from: DamageStage, to: DamageStage): DamageLeg[] {
+  const legs: DamageLeg[] = [];
+  for (let i = stageIndex(from); i < stageIndex(to); i++) {
+    const leg = legAfterStage[damageStages[i]];
+    if (leg && !legs.includes(leg)) legs.push(leg);
+  }
+  return legs;
+}
+
+// Check-ins and check-outs that happened, whether or not any damage was recorded at them
+export interface PerformedInspection {
+  stage: DamageStage;
+  inspectedAt: Date;
+  key: string;
+}
+
+export function performedInspections(collectList: Collect[], transportList: Transport[]): PerformedInspection[] {
+  const performed: PerformedInspection[] = [];
+  for (const collect of collectList) {
+    if (collect.checkinDateTime) performed.push({ stage: "coleta_checkin", inspectedAt: collect.checkinDateTime, key: collect.id });
+    if (collect.checkoutDateTime) performed.push({ stage: "coleta_checkout", inspectedAt: collect.checkoutDateTime, key: collect.id });
+  }
+  for (const transport of transportList) {
+    if (transport.checkinDateTime) performed.push({ stage: "transporte_checkin", inspectedAt: transport.checkinDateTime, key: transport.id });
+    if (transport.checkoutDateTime) performed.push({ stage: "transporte_checkout", inspectedAt: transport.checkoutDateTime, key: transport.id });
+  }
+  return performed;
+}
+
+// A chassis can go through the same stage more than once (e.g. collected twice); only the most
+// recent inspection of each stage is kept, since older ones describe a previous cycle. A performed
+// inspection without records counts as a clean one.
+export function groupInspections(records: DamageRecord[], performed: PerformedInspection[] = []): StageInspection[] {
+  const inspections: StageInspection[] = [];
+  for (const stage of damageStages) {
+    const candidates: PerformedInspection[] = [
+      ...performed.filter((p) => p.stage === stage),
+      ...records.filter((r) => r.stage === stage).map((r) => ({ stage, inspectedAt: r.inspectedAt, key: inspectionKey(r) })),
+    ];
+    if (candidates.length === 0) continue;
+
+    const latest = candidates.reduce((a, b) => (a.inspectedAt > b.inspectedAt ? a : b));
+    inspections.push({
+      stage,
+      inspectedAt: latest.inspectedAt,
+      records: records.filter((r) => r.stage === stage && inspectionKey(r) === latest.key),
+    });
+  }
+  return inspections;
+}
+
+export function compareInspections(before: StageInspection, after: StageInspection): StageComparison {
+  if (stageIndex(after.stage) <= stageIndex(before.stage)) {
+    throw new InvalidStageRangeError(before.stage, after.stage);
+  }
+
+  const unmatched = [...before.records];
+  const newDamages: DamageRecord[] = [];
+  const worsenedDamages: { before: DamageRecord; after: DamageRecord }[] = [];
+
+  for (const record of after.records) {
+    const index = unmatched.findIndex((r) => r.zone === record.zone && r.damageType === record.damageType);
+    if (index === -1) {
+      newDamages.push(record);
+      continue;
+    }
+    const [previous] = unmatched.splice(index, 1);
+    if (severityRank(record) > severityRank(previous)) {
+      worsenedDamages.push({ before: previous, after: record });
+    }
+  }
+
+  return {
+    from: before.stage,
+    to: after.stage,
+    legs: legsBetween(before.stage, after.stage),
+    newDamages,
+    worsenedDamages,
+    // Present before and missing after: repaired, or overlooked at the later inspection
+    notObserved: unmatched,
+  };
+}
+
+// Without an explicit range, every pair of consecutive inspected stages is compared so each
+// new damage is attributed to the narrowest span of legs the records allow.
+export function compareDamageStages(
+  records: DamageRecord[],
+  performed: PerformedInspection[],
+  range?: { from: DamageStage; to: DamageStage },
+): { inspections: StageInspection[]; comparisons: StageComparison[] } {
+  const inspections = groupInspections(records, performed);
+
+  if (range) {
+    if (stageIndex(range.to) <= stageIndex(range.from)) {
+      throw new InvalidStageRangeError(range.from, range.to);
+    }
+    const before = inspections.find((i) => i.stage === range.from) ?? { stage: range.from, inspectedAt: new Date(0), records: [] };
+    const after = inspections.find((i) => i.stage === range.to) ?? { stage: range.to, inspectedAt: new Date(0), records: [] };
+    return { inspections, comparisons: [compareInspections(before, after)] };
+  }
+
+  const comparisons: StageComparison[] = [];
+  for (let i = 1; i < inspections.length; i++) {
+    comparisons.push(compareInspections(inspections[i - 1], inspections[i]));
+  }
+  return { inspections, comparisons };
+}
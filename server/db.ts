@@ -12,3 +12,7 @@ if (!process.env.DATABASE_URL) {
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Either the pool-backed client or an open transaction
+export type DbExecutor = typeof db | DbTransaction;
@@ -0,0 +1,228 @@
+import { storage, type IStorage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { publishEvent } from "./realtime";
+import type { Driver, DriverNotification, Transport } from "@shared/schema";
+
+// Driver dispatch: ranks eligible drivers for a pending transport and offers it to them in waves.
+// The first driver to accept is assigned; declined or expired waves roll over to the next drivers.
+
+export const DISPATCH_WAVE_SIZE = 3;
+export const DISPATCH_OFFER_TTL_MINUTES = 15;
+const DISPATCH_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Beyond this distance the proximity part of the score is zero
+const MAX_DISTANCE_KM = 500;
+const DISTANCE_WEIGHT = 0.6;
+const RATING_WEIGHT = 0.4;
+// Drivers without evaluations are neither favored nor buried
+const NEUTRAL_RATING = 70;
+
+// Vehicles are driven to the dealer, so the driver needs a CNH that includes category B
+const CAR_CNH_CATEGORIES = new Set(["B", "C", "D", "E", "AB", "AC", "AD", "AE"]);
+
+export interface DispatchCandidate {
+  driver: Driver;
+  distanceKm: number | null;
+  rating: number | null;
+  score: number;
+}
+
+export interface DispatchOptions {
+  waveSize?: number;
+  expiresInMinutes?: number;
+}
+
+export function parseCoordinate(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function isCnhCompatible(cnhType: string | null | undefined): boolean {
+  return !!cnhType && CAR_CNH_CATEGORIES.has(cnhType.toUpperCase());
+}
+
+export async function rankDriversForTransport(
+  executor: IStorage,
+  transport: Transport,
+  excludeDriverIds: Set<string> = new Set(),
+): Promise<DispatchCandidate[]> {
+  const [yard, allDrivers, busyDriverIds, ratings] = await Promise.all([
+    executor.getYard(transport.originYardId),
+    executor.getDrivers(),
+    executor.getBusyDriverIds(),
+    executor.getDriverAverageScores(),
+  ]);
+  const yardLat = parseCoordinate(yard?.latitude);
+  const yardLng = parseCoordinate(yard?.longitude);
+
+  const candidates = allDrivers
+    .filter((driver) =>
+      driver.isActive === "true" &&
+      driver.driverType !== "coleta" &&
+      isCnhCompatible(driver.cnhType) &&
+      !busyDriverIds.has(driver.id) &&
+      !excludeDriverIds.has(driver.id)
+    )
+    .map((driver): DispatchCandidate => {
+      const lat = parseCoordinate(driver.latitude);
+      const lng = parseCoordinate(driver.longitude);
+      const distanceKm = lat !== null && lng !== null && yardLat !== null && yardLng !== null
+        ? haversineKm(yardLat, yardLng, lat, lng)
+        : null;
+      const rating = ratings.get(driver.id) ?? null;
+
+      // Unknown location counts as farthest, so located drivers always come first on equal ratings
+      const proximity = distanceKm === null ? 0 : Math.max(0, 100 * (1 - distanceKm / MAX_DISTANCE_KM));
+      const score = DISTANCE_WEIGHT * proximity + RATING_WEIGHT * (rating ?? NEUTRAL_RATING);
+
+      return { driver, distanceKm, rating, score };
+    });
+
+  return candidates.sort((a, b) =>
+    b.score - a.score ||
+    (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+  );
+}
+
+async function lockOpenTransport(tx: IStorage, transportId: string): Promise<Transport> {
+  const transport = await tx.getTransportForUpdate(transportId);
+  if (!transport) throw new LifecycleError(404, "Transport not found");
+  if (transport.driverId) throw new LifecycleError(409, "Transporte já possui motorista atribuído");
+  if (transport.status !== "pendente") throw new LifecycleError(409, "Apenas transportes pendentes podem ser ofertados");
+  return transport;
+}
+
+// Offers the transport to the next best drivers that have not been offered it yet.
+// Returns an empty list when nobody eligible is left.
+export async function dispatchNextWave(transportId: string, options: DispatchOptions = {}): Promise<DriverNotification[]> {
+  const waveSize = options.waveSize ?? DISPATCH_WAVE_SIZE;
+  const expiresInMinutes = options.expiresInMinutes ?? DISPATCH_OFFER_TTL_MINUTES;
+
+  await storage.expireDriverNotifications();
+
+  const offers = await storage.transaction(async (tx) => {
+    const transport = await lockOpenTransport(tx, transportId);
+    const previous = await tx.getDriverNotificationsByTransport(transportId);
+    if (previous.some((n) => n.status === "pendente")) {
+      throw new LifecycleError(409, "A onda atual ainda possui ofertas pendentes");
+    }
+
+    const alreadyOffered = new Set(previous.map((n) => n.driverId));
+    const candidates = (await rankDriversForTransport(tx, transport, alreadyOffered)).slice(0, waveSize);
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const wave = previous.reduce((max, n) => Math.max(max, n.wave), 0) + 1;
+    const rankOffset = previous.length;
+    const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000);
+    const departureDate = transport.deliveryDate ?? new Date().toISOString().slice(0, 10);
+
+    const offers: DriverNotification[] = [];
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index];
+      offers.push(await tx.createDriverNotification({
+        yardId: transport.originYardId,
+        deliveryLocationId: transport.deliveryLocationId,
+        departureDate,
+        driverId: candidate.driver.id,
+        status: "pendente",
+        transportId,
+        wave,
+        rank: rankOffset + index + 1,
+        distanceKm: candidate.distanceKm === null ? null : candidate.distanceKm.toFixed(2),
+        score: candidate.score.toFixed(2),
+        expiresAt,
+      }));
+    }
+    return offers;
+  });
+
+  if (offers.length > 0) {
+    publishEvent({ type: "dispatch.offers_changed", transportId });
+  }
+  return offers;
+}
+
+// Accepting assigns the driver to the transport and withdraws the other open offers.
+// Declining the last open offer of a wave sends the next wave right away.
+// With `driverId`, only that driver's own offer can be answered; null answers on the driver's behalf.
+export async function respondToOffer(
+  notificationId: string,
+  response: "aceito" | "recusado",
+  driverId: string | null,
+): Promise<DriverNotification> {
+  const notification = await storage.transaction(async (tx) => {
+    const offer = await tx.getDriverNotificationForUpdate(notificationId);
+    if (!offer) throw new LifecycleError(404, "Notification not found");
+    if (driverId !== null && offer.driverId !== driverId) {
+      throw new LifecycleError(403, "Esta oferta foi enviada a outro motorista");
+    }
+    if (offer.status !== "pendente") {
+      throw new LifecycleError(409, `Oferta já está com status "${offer.status}"`);
+    }
+    if (offer.expiresAt && offer.expiresAt < new Date()) {
+      throw new LifecycleError(409, "Oferta expirada");
+    }
+
+    if (response === "aceito" && offer.transportId) {
+      await lockOpenTransport(tx, offer.transportId);
+      await tx.updateTransport(offer.transportId, {
+        driverId: offer.driverId,
+        driverAssignedAt: new Date(),
+      });
+      await tx.cancelPendingDriverNotifications(offer.transportId, offer.id);
+    }
+
+    const updated = await tx.updateDriverNotification(offer.id, { status: response });
+    return updated!;
+  });
+
+  if (notification.transportId) {
+    publishEvent({ type: "dispatch.offers_changed", transportId: notification.transportId });
+    if (response === "recusado") {
+      await advanceWaveIfClosed(notification.transportId);
+    }
+  }
+  return notification;
+}
+
+async function advanceWaveIfClosed(transportId: string): Promise<void> {
+  const offers = await storage.getDriverNotificationsByTransport(transportId);
+  if (offers.some((n) => n.status === "pendente" || n.status === "aceito")) {
+    return;
+  }
+  try {
+    await dispatchNextWave(transportId);
+  } catch (error) {
+    // Another request may have assigned or re-dispatched the transport in the meantime
+    if (!(error instanceof LifecycleError)) throw error;
+  }
+}
+
+// Expires stale offers and rolls every affected transport over to its next wave
+export async function sweepExpiredOffers(): Promise<void> {
+  const expired = await storage.expireDriverNotifications();
+  const transportIds = new Set(expired.map((n) => n.transportId).filter((id): id is string => !!id));
+  for (const transportId of Array.from(transportIds)) {
+    publishEvent({ type: "dispatch.offers_changed", transportId });
+    await advanceWaveIfClosed(transportId);
+  }
+}
+
+export function startDispatchSweeper(): NodeJS.Timeout {
+  return setInterval(() => {
+    sweepExpiredOffers().catch((error) => console.error("Error sweeping dispatch offers:", error));
+  }, DISPATCH_SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,201 @@
+import { storage, type IStorage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import {
+  driverLedgerEntrySigns,
+  type DriverLedgerEntry,
+  type DriverPaymentBatch,
+  type ManualDriverLedgerEntry,
+} from "@shared/schema";
+
+// Per-driver current account. Every money movement between the company and a driver is an entry with
+// a signed amount (positive = owed to the driver), so the balance is always the plain sum. Entries
+// derived from settlements and approved payroll runs (server/payroll.ts) carry a source key and are
+// re-posted whenever their source changes; manual entries and payment batches are the only other way in.
+
+const APPROVED_SETTLEMENT_STATUSES = ["aprovado", "assinado"];
+
+export interface DriverStatementEntry extends DriverLedgerEntry {
+  balance: number;
+}
+
+export interface DriverStatement {
+  driverId: string;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  entries: DriverStatementEntry[];
+  closingBalance: number;
+}
+
+function toNumber(value: string | null | undefined): number {
+  const num = parseFloat(value || "0");
+  return Number.isFinite(num) ? num : 0;
+}
+
+function formatBrl(value: number): string {
+  return value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+async function postOrWithdraw(
+  tx: IStorage,
+  sourceKey: string,
+  amount: number,
+  entry: Omit<Parameters<IStorage["upsertDriverLedgerEntryBySource"]>[0], "sourceKey" | "amount">,
+): Promise<void> {
+  if (Math.abs(amount) < 0.005) {
+    await tx.deleteDriverLedgerEntryBySource(sourceKey);
+    return;
+  }
+  await tx.upsertDriverLedgerEntryBySource({ ...entry, sourceKey, amount: amount.toFixed(2) });
+}
+
+// Advance as soon as it is informed; expenses and damage deductions once the settlement is approved
+export async function postSettlementToLedger(tx: IStorage, settlementId: string): Promise<void> {
+  const settlement = await tx.getExpenseSettlement(settlementId);
+  if (!settlement) return;
+  const transport = await tx.getTransport(settlement.transportId);
+  const trip = transport?.requestNumber ?? settlement.transportId.substring(0, 8);
+  const base = { driverId: settlement.driverId, settlementId: settlement.id, transportId: settlement.transportId };
+
+  const advance = toNumber(settlement.advanceAmount);
+  await postOrWithdraw(tx, `settlement:${settlement.id}:adiantamento`, -advance, {
+    ...base,
+    entryType: "adiantamento",
+    description: `Adiantamento da viagem ${trip}`,
+  });
+
+  const approved = APPROVED_SETTLEMENT_STATUSES.includes(settlement.status ?? "pendente");
+  const expenses = approved ? toNumber(settlement.totalExpenses) : 0;
+  const deductions = approved ? toNumber(settlement.deductionsAmount) : 0;
+  const occurredAt = settlement.approvedAt ?? new Date();
+  await postOrWithdraw(tx, `settlement:${settlement.id}:despesas`, expenses, {
+    ...base,
+    entryType: "despesa_aprovada",
+    occurredAt,
+    description: `Despesas aprovadas da viagem ${trip}`,
+  });
+  await postOrWithdraw(tx, `settlement:${settlement.id}:descontos`, -deductions, {
+    ...base,
+    entryType: "desconto",
+    occurredAt,
+    description: `Descontos de avarias da viagem ${trip}`,
+  });
+
+  if (approved) {
+    const balanceAmount = (expenses - advance - deductions).toFixed(2);
+    if (settlement.balanceAmount !== balanceAmount) {
+      await tx.updateExpenseSettlement(settlement.id, { balanceAmount });
+    }
+  }
+}
+
+export async function createManualLedgerEntry(driverId: string, data: ManualDriverLedgerEntry, userId: string | null): Promise<DriverLedgerEntry> {
+  const driver = await storage.getDriver(driverId);
+  if (!driver) throw new LifecycleError(404, "Motorista não encontrado");
+  return storage.createDriverLedgerEntry({
+    driverId,
+    entryType: data.entryType,
+    amount: (driverLedgerEntrySigns[data.entryType] * toNumber(data.amount)).toFixed(2),
+    occurredAt: data.occurredAt ?? new Date(),
+    description: data.description,
+    createdByUserId: userId,
+  });
+}
+
+// Automatic and batch entries follow their source; only manual ones can be removed by hand
+export async function deleteManualLedgerEntry(id: string): Promise<void> {
+  const entry = await storage.getDriverLedgerEntry(id);
+  if (!entry) throw new LifecycleError(404, "Lançamento não encontrado");
+  if (entry.sourceKey || entry.paymentBatchId) {
+    throw new LifecycleError(409, "Lançamentos automáticos ou de lote de pagamento não podem ser excluídos");
+  }
+  await storage.deleteDriverLedgerEntry(id);
+}
+
+export async function getDriverStatement(driverId: string, from?: Date, to?: Date): Promise<DriverStatement> {
+  const [openingBalance, entries] = await Promise.all([
+    from ? storage.getDriverLedgerBalance(driverId, from) : Promise.resolve(0),
+    storage.getDriverLedgerEntries(driverId, { from, to }),
+  ]);
+  let balance = openingBalance;
+  const withBalance = entries.map((entry) => {
+    balance += toNumber(entry.amount);
+    return { ...entry, balance: Math.round(balance * 100) / 100 };
+  });
+  return {
+    driverId,
+    from: from?.toISOString() ?? null,
+    to: to?.toISOString() ?? null,
+    openingBalance,
+    entries: withBalance,
+    closingBalance: Math.round(balance * 100) / 100,
+  };
+}
+
+function batchReference(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `LOTE-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// Pays out every positive balance (or only the chosen drivers'). The payment entries are booked right
+// away, so a driver already in an open batch has nothing left to include in the next one.
+export async function createPaymentBatch(driverIds: string[] | undefined, userId: string | null, notes?: string): Promise<DriverPaymentBatch> {
+  return storage.transaction(async (tx) => {
+    const payable = (await tx.getDriverLedgerBalances())
+      .filter((b) => b.balance >= 0.01 && (!driverIds || driverIds.includes(b.driverId)));
+    if (payable.length === 0) {
+      throw new LifecycleError(409, "Nenhum motorista com saldo a receber");
+    }
+
+    const total = payable.reduce((sum, b) => sum + b.balance, 0);
+    const batch = await tx.createDriverPaymentBatch({
+      reference: batchReference(new Date()),
+      totalAmount: total.toFixed(2),
+      driverCount: payable.length,
+      notes,
+      createdByUserId: userId,
+    });
+    for (const { driverId, balance } of payable) {
+      await tx.createDriverLedgerEntry({
+        driverId,
+        entryType: "reembolso",
+        amount: (-balance).toFixed(2),
+        paymentBatchId: batch.id,
+        description: `Pagamento ${batch.reference}`,
+        createdByUserId: userId,
+      });
+    }
+    return batch;
+  });
+}
+
+export async function markPaymentBatchPaid(id: string): Promise<DriverPaymentBatch> {
+  const batch = await storage.getDriverPaymentBatch(id);
+  if (!batch) throw new LifecycleError(404, "Lote de pagamento não encontrado");
+  if (batch.status === "pago") throw new LifecycleError(409, "Lote já está pago");
+  return (await storage.updateDriverPaymentBatch(id, { status: "pago", paidAt: new Date() }))!;
+}
+
+// Cancelling an unpaid batch gives the balances back to the drivers
+export async function cancelPaymentBatch(id: string): Promise<void> {
+  await storage.transaction(async (tx) => {
+    const batch = await tx.getDriverPaymentBatch(id);
+    if (!batch) throw new LifecycleError(404, "Lote de pagamento não encontrado");
+    if (batch.status === "pago") throw new LifecycleError(409, "Lotes pagos não podem ser cancelados");
+    await tx.deleteDriverPaymentBatch(id);
+  });
+}
+
+// Bank-agnostic sheet for the payment run: one line per driver, ";"-separated with Brazilian decimals
+export async function exportPaymentBatchCsv(id: string): Promise<{ batch: DriverPaymentBatch; csv: string }> {
+  const batch = await storage.getDriverPaymentBatch(id);
+  if (!batch) throw new LifecycleError(404, "Lote de pagamento não encontrado");
+  const entries = await storage.getDriverPaymentBatchEntries(id);
+  const lines = ["Motorista;CPF;Telefone;Valor;Referencia"];
+  for (const entry of entries) {
+    const driver = await storage.getDriver(entry.driverId);
+    const fields = [driver?.name ?? entry.driverId, driver?.cpf ?? "", driver?.phone ?? "", formatBrl(-toNumber(entry.amount)), batch.reference];
+    lines.push(fields.map((f) => (/[;"\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f)).join(";"));
+  }
+  return { batch, csv: lines.join("\r\n") + "\r\n" };
+}
@@ -0,0 +1,125 @@
+import type { IStorage } from "./storage";
+import {
+  expenseItemAmountBrl,
+  foreignExpenseCurrencies,
+  type ExpenseSettlementItem,
+  type ForeignExpenseCurrency,
+  type InsertExchangeRate,
+} from "@shared/schema";
+
+// Receipts keep their original amount and currency. Each item stores the rate of its own date and
+// the converted BRL amount, and the settlement total is always the sum in BRL. Items in a currency
+// without a rate stay unconverted (amountBrl null) until one is registered.
+
+const CLOSED_SETTLEMENT_STATUSES = ["aprovado", "assinado"];
+
+export class InvalidRatesFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRatesFileError";
+    Object.setPrototypeOf(this, InvalidRatesFileError.prototype);
+  }
+}
+
+function isForeignCurrency(currency: string): currency is ForeignExpenseCurrency {
+  return (foreignExpenseCurrencies as readonly string[]).includes(currency);
+}
+
+function itemDate(item: ExpenseSettlementItem): string {
+  return item.expenseDate ?? (item.createdAt ?? new Date()).toISOString().slice(0, 10);
+}
+
+async function convertItem(tx: IStorage, item: ExpenseSettlementItem): Promise<{ exchangeRate: string | null; amountBrl: string | null }> {
+  const amount = parseFloat(item.amount || "0");
+  if (item.currency === "BRL") return { exchangeRate: "1", amountBrl: amount.toFixed(2) };
+  if (!isForeignCurrency(item.currency)) return { exchangeRate: null, amountBrl: null };
+  const rate = await tx.getExchangeRateOn(item.currency, itemDate(item));
+  if (!rate) return { exchangeRate: null, amountBrl: null };
+  return { exchangeRate: rate.rate, amountBrl: (amount * parseFloat(rate.rate)).toFixed(2) };
+}
+
+// Converts every item at its date and stores the BRL total on the settlement
+export async function syncSettlementAmounts(tx: IStorage, settlementId: string): Promise<void> {
+  const settlement = await tx.getExpenseSettlement(settlementId);
+  if (!settlement) return;
+  const items = await tx.getExpenseSettlementItems(settlementId);
+
+  let total = 0;
+  for (const item of items) {
+    const conversion = await convertItem(tx, item);
+    const expenseDate = itemDate(item);
+    if (item.exchangeRate !== conversion.exchangeRate || item.amountBrl !== conversion.amountBrl || item.expenseDate !== expenseDate) {
+      await tx.updateExpenseSettlementItem(item.id, { ...conversion, expenseDate });
+    }
+    total += expenseItemAmountBrl({ ...item, ...conversion }) ?? 0;
+  }
+
+  const totalExpenses = total.toFixed(2);
+  if (settlement.totalExpenses !== totalExpenses) {
+    await tx.updateExpenseSettlement(settlementId, { totalExpenses });
+  }
+}
+
+// After a rate change, re-converts the settlements still under review that have items in those currencies
+export async function reconvertOpenSettlements(tx: IStorage, currencies: ForeignExpenseCurrency[]): Promise<string[]> {
+  const settlements = (await tx.getExpenseSettlements())
+    .filter((s) => !CLOSED_SETTLEMENT_STATUSES.includes(s.status ?? "pendente"));
+  const affected: string[] = [];
+  for (const settlement of settlements) {
+    const items = await tx.getExpenseSettlementItems(settlement.id);
+    if (items.some((i) => (currencies as string[]).includes(i.currency))) {
+      await syncSettlementAmounts(tx, settlement.id);
+      affected.push(settlement.id);
+    }
+  }
+  return affected;
+}
+
+function parseDate(value: string): string | null {
+  const v = value.trim();
+  let match = v.match(/^(\d{2})(\d{2})(\d{4})$/) || v.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+  match = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? v : null;
+}
+
+function parseRate(value: string): number | null {
+  const v = value.trim();
+  const normalized = v.includes(",") ? v.replace(/\./g, "").replace(",", ".") : v;
+  const rate = parseFloat(normalized);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// Accepts the Banco Central PTAX file (DDMMAAAA;Cod;Tipo;Moeda;Compra;Venda;ParidadeCompra;ParidadeVenda),
+// using the selling rate, or a simple "data;moeda;cotacao" sheet. Currencies we don't use are skipped.
+export function parseRatesCsv(content: string): { rates: InsertExchangeRate[]; skipped: number } {
+  const rates: InsertExchangeRate[] = [];
+  let skipped = 0;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = line.split(";").map((f) => f.trim().replace(/^"|"$/g, ""));
+    const [rawDate, rawCurrency, rawRate] = fields.length >= 6
+      ? [fields[0], fields[3], fields[5]]
+      : [fields[0], fields[1], fields[2]];
+
+    const rateDate = parseDate(rawDate || "");
+    if (!rateDate) {
+      // Header row
+      if (index === 0) return;
+      throw new InvalidRatesFileError(`Linha ${index + 1}: data inválida "${rawDate}"`);
+    }
+    const currency = (rawCurrency || "").toUpperCase();
+    if (!isForeignCurrency(currency)) {
+      skipped++;
+      return;
+    }
+    const rate = parseRate(rawRate || "");
+    if (rate === null) {
+      throw new InvalidRatesFileError(`Linha ${index + 1}: cotação inválida "${rawRate}"`);
+    }
+    rates.push({ currency, rateDate, rate: rate.toFixed(8), source: "csv" });
+  });
+
+  return { rates, skipped };
+}
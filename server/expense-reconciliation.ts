@@ -0,0 +1,228 @@
+import type { IStorage } from "./storage";
+import { expenseItemAmountBrl, type ExpensePolicy, type ExpenseSettlement, type ExpenseSettlementItem, type ExpenseType, type Transport, type TruckModel } from "@shared/schema";
+
+// Reconciles a settlement's receipts against what the trip should have cost, category by category:
+// fuel against distance ÷ truck consumption, tolls against the route estimate stored on the transport
+// (or on the trip, for a car carrier's whole load),
+// per-diem categories against the trip duration. Items above tolerance get a policy flag persisted
+// on the item so lists and the driver app can show it without recomputing.
+
+const DEFAULT_TOLERANCE_PERCENT = 10;
+
+const expenseTypeLabels: Record<ExpenseType, string> = {
+  pedagio: "Pedágio",
+  combustivel: "Combustível",
+  alimentacao: "Alimentação",
+  hospedagem: "Hospedagem",
+  manutencao: "Manutenção",
+  multa: "Multa",
+  estacionamento: "Estacionamento",
+  lavagem: "Lavagem",
+  outros: "Outros",
+};
+
+export interface CategoryReconciliation {
+  type: ExpenseType;
+  actualAmount: number;
+  expectedAmount: number | null;
+  actualLiters: number | null;
+  expectedLiters: number | null;
+  basis: string;
+  deviationPercent: number | null;
+  tolerancePercent: number;
+  flagged: boolean;
+}
+
+export interface ItemReconciliation {
+  itemId: string;
+  type: ExpenseType;
+  amount: number;
+  deviationPercent: number | null;
+  flag: string | null;
+}
+
+export interface SettlementReconciliation {
+  settlementId: string;
+  distanceKm: number | null;
+  tripDays: number | null;
+  truckModel: TruckModel | null;
+  categories: CategoryReconciliation[];
+  items: ItemReconciliation[];
+  flaggedItems: number;
+}
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function formatNumber(value: number, digits = 2): string {
+  return value.toLocaleString("pt-BR", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+function deviation(actual: number, expected: number | null): number | null {
+  if (expected === null || expected <= 0) return null;
+  return ((actual - expected) / expected) * 100;
+}
+
+// Route and timing the expenses are measured against: the transport's, or the trip's when the settlement
+// covers a whole load (departure to last delivery)
+type RouteBasis = Pick<Transport, "routeDistanceKm" | "routeDurationMinutes" | "estimatedTolls" | "estimatedFuel" | "checkinDateTime" | "checkoutDateTime">;
+
+// Actual duration (check-in at the origin to check-out at delivery) when the trip is done,
+// otherwise the route estimate. Any started day counts as a full day.
+function tripDays(transport: RouteBasis): number | null {
+  let hours: number | null = null;
+  if (transport.checkinDateTime && transport.checkoutDateTime) {
+    hours = (new Date(transport.checkoutDateTime).getTime() - new Date(transport.checkinDateTime).getTime()) / 3_600_000;
+  } else if (transport.routeDurationMinutes) {
+    hours = transport.routeDurationMinutes / 60;
+  }
+  if (hours === null || hours < 0) return null;
+  return Math.max(1, Math.ceil(hours / 24));
+}
+
+interface ReconciliationInput {
+  settlement: ExpenseSettlement;
+  transport: RouteBasis | undefined;
+  items: ExpenseSettlementItem[];
+  policies: ExpensePolicy[];
+  truckModel: TruckModel | null;
+}
+
+function reconcile({ settlement, transport, items, policies, truckModel }: ReconciliationInput): SettlementReconciliation {
+  const distanceKm = toNumber(transport?.routeDistanceKm);
+  const days = transport ? tripDays(transport) : null;
+  const consumption = toNumber(truckModel?.averageConsumption);
+  const estimatedTolls = toNumber(settlement.estimatedTolls ?? transport?.estimatedTolls);
+  const estimatedFuel = toNumber(settlement.estimatedFuel ?? transport?.estimatedFuel);
+  const policyFor = (type: ExpenseType) => policies.find((p) => p.expenseType === type);
+
+  const types = new Set<ExpenseType>(items.map((i) => i.type));
+  if (estimatedTolls) types.add("pedagio");
+  if (estimatedFuel) types.add("combustivel");
+
+  const categories: CategoryReconciliation[] = Array.from(types).map((type) => {
+    const policy = policyFor(type);
+    const tolerancePercent = toNumber(policy?.tolerancePercent) ?? DEFAULT_TOLERANCE_PERCENT;
+    const dailyLimit = toNumber(policy?.dailyLimit);
+    const categoryItems = items.filter((i) => i.type === type);
+    const actualAmount = categoryItems.reduce((sum, i) => sum + (expenseItemAmountBrl(i) ?? 0), 0);
+
+    let expectedAmount: number | null = null;
+    let actualLiters: number | null = null;
+    let expectedLiters: number | null = null;
+    let basis = "Sem estimativa para a categoria";
+    let deviationPercent: number | null = null;
+
+    if (type === "combustivel") {
+      expectedAmount = estimatedFuel;
+      const liters = categoryItems.map((i) => toNumber(i.liters));
+      if (liters.length > 0 && liters.every((l) => l !== null)) {
+        actualLiters = liters.reduce((sum: number, l) => sum + l!, 0);
+      }
+      if (distanceKm && consumption) {
+        expectedLiters = distanceKm / consumption;
+      }
+      if (actualLiters !== null && expectedLiters !== null) {
+        basis = `${formatNumber(distanceKm!, 0)} km ÷ ${formatNumber(consumption!)} km/l (${truckModel!.brand} ${truckModel!.model})`;
+        deviationPercent = deviation(actualLiters, expectedLiters);
+      } else if (expectedAmount !== null) {
+        basis = actualLiters === null ? "Estimativa de combustível da rota (comprovantes sem litros)" : "Estimativa de combustível da rota (sem modelo de caminhão)";
+        deviationPercent = deviation(actualAmount, expectedAmount);
+      }
+    } else if (type === "pedagio") {
+      expectedAmount = estimatedTolls;
+      if (expectedAmount !== null) {
+        basis = "Pedágios estimados na rota";
+        deviationPercent = deviation(actualAmount, expectedAmount);
+      }
+    } else if (dailyLimit !== null && days !== null) {
+      // Lodging is paid per night: a one-day trip has no overnight stay
+      const units = type === "hospedagem" ? days - 1 : days;
+      expectedAmount = units * dailyLimit;
+      basis = type === "hospedagem"
+        ? `${units} pernoite(s) × R$ ${formatNumber(dailyLimit)}`
+        : `${units} dia(s) × R$ ${formatNumber(dailyLimit)}`;
+      deviationPercent = deviation(actualAmount, expectedAmount);
+    }
+
+    const flagged = deviationPercent !== null
+      ? deviationPercent > tolerancePercent
+      : expectedAmount === 0 && actualAmount > 0;
+
+    return { type, actualAmount, expectedAmount, actualLiters, expectedLiters, basis, deviationPercent, tolerancePercent, flagged };
+  });
+
+  const reconciledItems: ItemReconciliation[] = items.map((item) => {
+    const amount = expenseItemAmountBrl(item) ?? 0;
+    const policy = policyFor(item.type);
+    const tolerancePercent = toNumber(policy?.tolerancePercent) ?? DEFAULT_TOLERANCE_PERCENT;
+    const itemLimit = toNumber(policy?.itemLimit);
+    const category = categories.find((c) => c.type === item.type)!;
+    const label = expenseTypeLabels[item.type];
+
+    if (itemLimit !== null) {
+      const itemDeviation = deviation(amount, itemLimit);
+      if (itemDeviation !== null && itemDeviation > tolerancePercent) {
+        return {
+          itemId: item.id,
+          type: item.type,
+          amount,
+          deviationPercent: itemDeviation,
+          flag: `Acima do limite por comprovante de R$ ${formatNumber(itemLimit)}`,
+        };
+      }
+    }
+
+    let flag: string | null = null;
+    if (category.flagged) {
+      flag = category.deviationPercent !== null
+        ? `${label}: ${formatNumber(category.deviationPercent, 1)}% acima do previsto (${category.basis})`
+        : `${label} não prevista para a viagem (${category.basis})`;
+    }
+    return { itemId: item.id, type: item.type, amount, deviationPercent: category.deviationPercent, flag };
+  });
+
+  return {
+    settlementId: settlement.id,
+    distanceKm,
+    tripDays: days,
+    truckModel,
+    categories,
+    items: reconciledItems,
+    flaggedItems: reconciledItems.filter((i) => i.flag).length,
+  };
+}
+
+export async function reconcileSettlement(tx: IStorage, settlementId: string): Promise<SettlementReconciliation | undefined> {
+  const settlement = await tx.getExpenseSettlement(settlementId);
+  if (!settlement) return undefined;
+  const [transport, trip, items, policies, truckModel] = await Promise.all([
+    tx.getTransport(settlement.transportId),
+    settlement.tripId ? tx.getTrip(settlement.tripId) : undefined,
+    tx.getExpenseSettlementItems(settlementId),
+    tx.getExpensePolicies(),
+    settlement.truckModelId ? tx.getTruckModel(settlement.truckModelId) : undefined,
+  ]);
+  const route: RouteBasis | undefined = trip
+    ? { ...trip, checkinDateTime: trip.departedAt, checkoutDateTime: trip.completedAt }
+    : transport;
+  return reconcile({ settlement, transport: route, items, policies, truckModel: truckModel ?? null });
+}
+
+// Recomputes and stores the per-item flags; call after anything that feeds the reconciliation changes
+export async function refreshSettlementFlags(tx: IStorage, settlementId: string): Promise<SettlementReconciliation | undefined> {
+  const result = await reconcileSettlement(tx, settlementId);
+  if (!result) return undefined;
+  const items = await tx.getExpenseSettlementItems(settlementId);
+  for (const reconciled of result.items) {
+    const item = items.find((i) => i.id === reconciled.itemId);
+    const deviationPercent = reconciled.deviationPercent === null ? null : reconciled.deviationPercent.toFixed(2);
+    if (item && (item.policyFlag !== reconciled.flag || item.deviationPercent !== deviationPercent)) {
+      await tx.updateExpenseSettlementItem(item.id, { policyFlag: reconciled.flag, deviationPercent });
+    }
+  }
+  return result;
+}
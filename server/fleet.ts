@@ -0,0 +1,187 @@
+import { storage, type IStorage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import type { CollectStatus, TransferStatus, TransportStatus } from "@shared/state-machine";
+import type {
+  FleetAssignment,
+  FleetJob,
+  FleetJobEntity,
+  FleetUnit,
+  InsertFleetUnit,
+} from "@shared/schema";
+
+// Fleet of tractors (cavalos) and car-carrier trailers (carretas). A transport, collect or transfer gets
+// a tractor + trailer pair; while the operation is in progress the pair stays coupled and each vehicle
+// on board takes one of the trailer's slots.
+
+export const FLEET_ACTIVE_STATUSES: { transport: TransportStatus[]; collect: CollectStatus[]; transfer: TransferStatus[] } = {
+  transport: ["pendente", "aguardando_saida", "em_transito"],
+  collect: ["em_transito", "aguardando_checkout"],
+  transfer: ["pendente", "autorizada", "em_transito"],
+};
+
+const CANCELLED_STATUSES = ["cancelado", "cancelada"];
+
+export type FleetAvailability = "disponivel" | "em_operacao" | "lotado" | "manutencao" | "inativo";
+
+export interface FleetUnitAvailability {
+  unit: FleetUnit;
+  availability: FleetAvailability;
+  activeJobs: FleetJob[];
+  // Plates currently coupled with this unit in active operations
+  coupledWith: string[];
+  freeSlots: number | null;
+}
+
+function isActive(job: FleetJob): boolean {
+  return (FLEET_ACTIVE_STATUSES[job.entity] as string[]).includes(job.status);
+}
+
+async function checkUnitData(data: InsertFleetUnit, id: string | null): Promise<InsertFleetUnit> {
+  const others = (await storage.getFleetUnits()).filter((u) => u.id !== id);
+  if (others.some((u) => u.plate === data.plate)) {
+    throw new LifecycleError(409, `Placa ${data.plate} já cadastrada na frota`);
+  }
+  if (others.some((u) => u.renavam === data.renavam)) {
+    throw new LifecycleError(409, "RENAVAM já cadastrado na frota");
+  }
+
+  const normalized = { ...data };
+  if (normalized.unitType === "carreta") {
+    if (!normalized.vehicleCapacity) {
+      throw new LifecycleError(400, "Informe quantos veículos a carreta transporta");
+    }
+  } else {
+    normalized.vehicleCapacity = null;
+  }
+
+  if (normalized.ownership === "agregado") {
+    if (!normalized.ownerDriverId) {
+      throw new LifecycleError(400, "Informe o motorista agregado dono do equipamento");
+    }
+    if (!(await storage.getDriver(normalized.ownerDriverId))) {
+      throw new LifecycleError(400, "Motorista agregado não encontrado");
+    }
+  } else {
+    normalized.ownerDriverId = null;
+  }
+  return normalized;
+}
+
+export async function createFleetUnit(data: InsertFleetUnit): Promise<FleetUnit> {
+  return storage.createFleetUnit(await checkUnitData(data, null));
+}
+
+export async function updateFleetUnit(id: string, data: Partial<InsertFleetUnit>): Promise<FleetUnit> {
+  const unit = await storage.getFleetUnit(id);
+  if (!unit) throw new LifecycleError(404, "Unidade da frota não encontrada");
+  if (data.unitType && data.unitType !== unit.unitType && (await storage.countFleetUnitJobs(id)) > 0) {
+    throw new LifecycleError(409, "O tipo não pode mudar depois que a unidade foi usada em operações");
+  }
+  const { id: _id, createdAt: _createdAt, ...current } = unit;
+  const merged = await checkUnitData({ ...current, ...data } as InsertFleetUnit, id);
+  return (await storage.updateFleetUnit(id, merged))!;
+}
+
+// Units with history stay for the record; they are taken out of service by status instead
+export async function deleteFleetUnit(id: string): Promise<void> {
+  const unit = await storage.getFleetUnit(id);
+  if (!unit) throw new LifecycleError(404, "Unidade da frota não encontrada");
+  if ((await storage.countFleetUnitJobs(id)) > 0) {
+    throw new LifecycleError(409, "Unidade já usada em operações. Altere o status para inativo em vez de excluir.");
+  }
+  await storage.deleteFleetUnit(id);
+}
+
+export async function getActiveFleetJobs(): Promise<FleetJob[]> {
+  return storage.getFleetJobs(FLEET_ACTIVE_STATUSES);
+}
+
+export async function getFleetAvailability(): Promise<FleetUnitAvailability[]> {
+  const [units, jobs] = await Promise.all([storage.getFleetUnits(), getActiveFleetJobs()]);
+  const plates = new Map(units.map((u) => [u.id, u.plate]));
+
+  return units.map((unit) => {
+    const activeJobs = jobs.filter((j) => j.tractorId === unit.id || j.trailerId === unit.id);
+    const partnerIds = new Set(activeJobs.map((j) => (unit.unitType === "cavalo" ? j.trailerId : j.tractorId)).filter(Boolean));
+    const freeSlots = unit.unitType === "carreta" ? Math.max((unit.vehicleCapacity ?? 0) - activeJobs.length, 0) : null;
+
+    let availability: FleetAvailability;
+    if (unit.status === "manutencao" || unit.status === "inativo") availability = unit.status;
+    else if (activeJobs.length === 0) availability = "disponivel";
+    else if (freeSlots === 0) availability = "lotado";
+    else availability = "em_operacao";
+
+    return {
+      unit,
+      availability,
+      activeJobs,
+      coupledWith: Array.from(partnerIds, (pid) => plates.get(pid!) ?? pid!),
+      freeSlots,
+    };
+  });
+}
+
+async function requireUnit(tx: IStorage, id: string, type: FleetUnit["unitType"], enforceStatus: boolean): Promise<FleetUnit> {
+  const unit = await tx.getFleetUnit(id);
+  const label = type === "cavalo" ? "Cavalo" : "Carreta";
+  if (!unit || unit.unitType !== type) throw new LifecycleError(400, `${label} não encontrado(a) na frota`);
+  if (enforceStatus && unit.status !== "ativo") {
+    throw new LifecycleError(409, `${label} ${unit.plate} está ${unit.status === "manutencao" ? "em manutenção" : "inativo(a)"}`);
+  }
+  return unit;
+}
+
+// Availability rules for a pair carrying `slots` vehicles in operations in progress: both units in service,
+// not coupled to another unit elsewhere and with room on the trailer. `isMember` marks the operations being
+// (re)assigned so they don't count against themselves.
+export async function checkFleetPair(
+  tx: IStorage,
+  assignment: FleetAssignment,
+  isMember: (job: FleetJob) => boolean,
+  slots: number,
+): Promise<{ tractor: FleetUnit | null; trailer: FleetUnit | null }> {
+  const tractor = assignment.tractorId ? await requireUnit(tx, assignment.tractorId, "cavalo", true) : null;
+  const trailer = assignment.trailerId ? await requireUnit(tx, assignment.trailerId, "carreta", true) : null;
+
+  const others = (await tx.getFleetJobs(FLEET_ACTIVE_STATUSES)).filter((j) => !isMember(j));
+  if (tractor && trailer) {
+    const tractorElsewhere = others.find((j) => j.tractorId === tractor.id && j.trailerId && j.trailerId !== trailer.id);
+    if (tractorElsewhere) {
+      throw new LifecycleError(409, `Cavalo ${tractor.plate} está engatado em outra carreta (${tractorElsewhere.reference})`);
+    }
+    const trailerElsewhere = others.find((j) => j.trailerId === trailer.id && j.tractorId && j.tractorId !== tractor.id);
+    if (trailerElsewhere) {
+      throw new LifecycleError(409, `Carreta ${trailer.plate} está engatada em outro cavalo (${trailerElsewhere.reference})`);
+    }
+  }
+  if (trailer) {
+    const onBoard = others.filter((j) => j.trailerId === trailer.id).length;
+    const capacity = trailer.vehicleCapacity ?? 0;
+    if (onBoard + slots > capacity) {
+      throw new LifecycleError(409, slots === 1
+        ? `Carreta ${trailer.plate} sem vagas (${onBoard}/${capacity})`
+        : `Carreta ${trailer.plate} sem vagas para ${slots} veículos (${onBoard}/${capacity} ocupadas)`);
+    }
+  }
+  return { tractor, trailer };
+}
+
+// Sets (or clears, with nulls) the pair of an operation. Availability rules only apply to operations in
+// progress; finished ones can still be corrected for the record.
+export async function assignFleetUnits(entity: FleetJobEntity, id: string, assignment: FleetAssignment): Promise<FleetJob> {
+  return storage.transaction(async (tx) => {
+    const job = await tx.getFleetJob(entity, id);
+    if (!job) throw new LifecycleError(404, "Operação não encontrada");
+    if (CANCELLED_STATUSES.includes(job.status)) throw new LifecycleError(409, "Operação cancelada não recebe conjunto");
+    if (job.tripId) throw new LifecycleError(409, "Operação faz parte de uma viagem; altere o conjunto na viagem");
+
+    const { tractor, trailer } = isActive(job)
+      ? await checkFleetPair(tx, assignment, (j) => j.entity === entity && j.id === id, 1)
+      : {
+          tractor: assignment.tractorId ? await requireUnit(tx, assignment.tractorId, "cavalo", false) : null,
+          trailer: assignment.trailerId ? await requireUnit(tx, assignment.trailerId, "carreta", false) : null,
+        };
+
+    return (await tx.assignFleetUnits(entity, id, { tractorId: tractor?.id ?? null, trailerId: trailer?.id ?? null }))!;
+  });
+}
@@ -0,0 +1,146 @@
+import { storage } from "./storage";
+import { haversineKm } from "./dispatch";
+import { publishEvent } from "./realtime";
+import type { Checkpoint, CheckpointEvent, GeofenceEnforcement, TrackingPosition, TransportCheckpoint } from "@shared/schema";
+
+// A reached checkpoint is only considered left once the vehicle is this far beyond the fence,
+// so GPS jitter at the border does not flip it back and forth
+const GEOFENCE_EXIT_FACTOR = 1.5;
+
+type OpenCheckpoint = TransportCheckpoint & { checkpoint: Checkpoint };
+
+function distanceMeters(position: TrackingPosition, checkpoint: Checkpoint): number | null {
+  const cpLat = parseFloat(checkpoint.latitude);
+  const cpLng = parseFloat(checkpoint.longitude);
+  if (isNaN(cpLat) || isNaN(cpLng)) return null;
+  return haversineKm(parseFloat(position.latitude), parseFloat(position.longitude), cpLat, cpLng) * 1000;
+}
+
+// Moves a transport checkpoint to `status` unless another writer already did, and logs the event
+async function markCheckpoint(
+  open: OpenCheckpoint,
+  status: "alcancado" | "concluido",
+  position: TrackingPosition,
+  distance: number,
+): Promise<CheckpointEvent | null> {
+  const event = await storage.transaction(async (tx) => {
+    const current = await tx.getTransportCheckpointForUpdate(open.id);
+    const expected = status === "alcancado" ? "pendente" : "alcancado";
+    if (!current || current.status !== expected) return null;
+
+    await tx.updateTransportCheckpoint(open.id, status === "alcancado"
+      ? { status, reachedAt: position.recordedAt, latitude: position.latitude, longitude: position.longitude }
+      : { status });
+
+    return tx.createCheckpointEvent({
+      transportCheckpointId: open.id,
+      transportId: open.transportId,
+      checkpointId: open.checkpointId,
+      status,
+      source: "geofence",
+      latitude: position.latitude,
+      longitude: position.longitude,
+      distanceMeters: Math.round(distance),
+      occurredAt: position.recordedAt,
+    });
+  });
+
+  if (event) {
+    publishEvent({
+      type: status === "alcancado" ? "checkpoint.reached" : "checkpoint.completed",
+      transportId: open.transportId,
+      transportCheckpointId: open.id,
+      checkpointId: open.checkpointId,
+      source: "geofence",
+    });
+  }
+  return event;
+}
+
+// Runs freshly stored transport positions against the fences of the transport's open checkpoints.
+// Entering a fence marks the checkpoint "alcancado"; leaving it (or reaching a later one) marks it "concluido".
+export async function detectCheckpointArrivals(positions: TrackingPosition[]): Promise<CheckpointEvent[]> {
+  const byTransport = new Map<string, TrackingPosition[]>();
+  for (const position of positions) {
+    if (position.subjectType !== "transport") continue;
+    const list = byTransport.get(position.subjectId) ?? [];
+    list.push(position);
+    byTransport.set(position.subjectId, list);
+  }
+
+  const events: CheckpointEvent[] = [];
+  for (const [transportId, points] of Array.from(byTransport.entries())) {
+    let open = await storage.getOpenTransportCheckpoints(transportId);
+    if (open.length === 0) continue;
+
+    points.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    for (const position of points) {
+      for (const cp of open) {
+        const distance = distanceMeters(position, cp.checkpoint);
+        if (distance === null) continue;
+        const radius = cp.checkpoint.geofenceRadiusMeters;
+
+        if (cp.status === "pendente" && distance <= radius) {
+          // Arriving here means every earlier checkpoint still marked as reached has been left behind
+          for (const earlier of open) {
+            if (earlier.orderIndex < cp.orderIndex && earlier.status === "alcancado") {
+              const event = await markCheckpoint(earlier, "concluido", position, distanceMeters(position, earlier.checkpoint) ?? 0);
+              if (event) events.push(event);
+              earlier.status = "concluido";
+            }
+          }
+          const event = await markCheckpoint(cp, "alcancado", position, distance);
+          if (event) events.push(event);
+          cp.status = "alcancado";
+        } else if (cp.status === "alcancado" && distance > radius * GEOFENCE_EXIT_FACTOR) {
+          const event = await markCheckpoint(cp, "concluido", position, distance);
+          if (event) events.push(event);
+          cp.status = "concluido";
+        }
+      }
+      open = open.filter((cp) => cp.status !== "concluido");
+    }
+  }
+  return events;
+}
+
+// Manufacturer, yard or delivery location where a check-in/out is expected to happen
+export interface InspectionLocation {
+  latitude: string | null;
+  longitude: string | null;
+  geofenceRadiusMeters: number;
+  geofenceEnforcement: GeofenceEnforcement;
+}
+
+export interface InspectionLocationCheck {
+  distanceMeters: number | null;
+  radiusMeters: number;
+  outside: boolean;
+  enforcement: GeofenceEnforcement;
+}
+
+// Compares the coordinates sent with a check-in/out against the location's fence.
+// Locations without stored coordinates cannot be checked (null); a check-in/out sent without
+// coordinates counts as outside, with an unknown distance.
+export function checkInspectionLocation(
+  location: InspectionLocation,
+  latitude: string | null | undefined,
+  longitude: string | null | undefined,
+): InspectionLocationCheck | null {
+  const locationLat = parseFloat(location.latitude ?? "");
+  const locationLng = parseFloat(location.longitude ?? "");
+  if (isNaN(locationLat) || isNaN(locationLng)) return null;
+
+  const lat = parseFloat(latitude ?? "");
+  const lng = parseFloat(longitude ?? "");
+  const distanceMeters = isNaN(lat) || isNaN(lng)
+    ? null
+    : Math.round(haversineKm(lat, lng, locationLat, locationLng) * 1000);
+
+  return {
+    distanceMeters,
+    radiusMeters: location.geofenceRadiusMeters,
+    outside: distanceMeters === null || distanceMeters > location.geofenceRadiusMeters,
+    enforcement: location.geofenceEnforcement,
+  };
+}
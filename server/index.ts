@@ -1,5 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startDispatchSweeper } from "./dispatch";
+import { startReceiptOcrWorker } from "./receipt-ocr";
+import { startTrackerTcpServer } from "./trackers/tcp-server";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 
@@ -94,6 +97,12 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startDispatchSweeper();
+      startReceiptOcrWorker();
+      // Raw GT06/Suntech device connections; devices on HTTP use /api/trackers/webhook instead
+      if (process.env.TRACKER_TCP_PORT) {
+        startTrackerTcpServer(parseInt(process.env.TRACKER_TCP_PORT, 10));
+      }
     },
   );
 })();
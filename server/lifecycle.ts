@@ -0,0 +1,453 @@
+import { storage, type IStorage } from "./storage";
+import { publishEvent } from "./realtime";
+import { checkInspectionLocation, type InspectionLocation } from "./geofence";
+import type {
+  Collect,
+  GeofenceInspectionEvent,
+  GeofenceLocationType,
+  GeofenceSubjectType,
+  InsertCollect,
+  Transport,
+  Transfer,
+  Trip,
+  TripDetail,
+} from "@shared/schema";
+import type { RealtimeEvent } from "@shared/realtime";
+import {
+  assertTransition,
+  assertVehicleTransition,
+  type VehicleStatus,
+} from "@shared/state-machine";
+
+// Compound operations that touch a vehicle plus its collect/transport/transfer.
+// Each one runs in a single transaction and locks the rows it reads with SELECT ... FOR UPDATE,
+// so two gate operators acting on the same record are serialized and the second one gets a 409.
+
+// Rejections that are not state-machine violations: missing rows (404), a precondition the caller
+// must fix first (400) or a record someone else already claimed (409)
+export class LifecycleError extends Error {
+  readonly status: 400 | 403 | 404 | 409;
+
+  constructor(status: 400 | 403 | 404 | 409, message: string) {
+    super(message);
+    this.name = "LifecycleError";
+    this.status = status;
+    Object.setPrototypeOf(this, LifecycleError.prototype);
+  }
+}
+
+export interface InspectionData {
+  latitude?: string;
+  longitude?: string;
+  frontalPhoto?: string;
+  lateral1Photo?: string;
+  lateral2Photo?: string;
+  traseiraPhoto?: string;
+  odometerPhoto?: string;
+  fuelLevelPhoto?: string;
+  damagePhotos?: string[];
+  selfiePhoto?: string;
+  notes?: string;
+  // Transport check-out only: the recipient's acceptance for the proof of delivery
+  recipientName?: string;
+  recipientDocument?: string;
+  recipientSignature?: string;
+}
+
+// Transaction whose result is announced to connected screens once it has committed
+async function commit<T extends Collect | Transport | Transfer>(
+  work: (tx: IStorage) => Promise<T>,
+  announce: (result: T) => RealtimeEvent,
+): Promise<T> {
+  const result = await storage.transaction(work);
+  publishEvent(announce(result));
+  return result;
+}
+
+const collectChanged = (collect: Collect): RealtimeEvent =>
+  ({ type: "collect.status_changed", collectId: collect.id, status: collect.status });
+const transportChanged = (transport: Transport): RealtimeEvent =>
+  ({ type: "transport.status_changed", transportId: transport.id, status: transport.status });
+const transferChanged = (transfer: Transfer): RealtimeEvent =>
+  ({ type: "transfer.status_changed", transferId: transfer.id, status: transfer.status });
+const tripChanged = (trip: Trip): RealtimeEvent =>
+  ({ type: "trip.status_changed", tripId: trip.id, status: trip.status });
+
+async function moveVehicle(
+  tx: IStorage,
+  chassi: string,
+  status: VehicleStatus,
+  extra: { yardId?: string | null; yardEntryDateTime?: Date; dispatchDateTime?: Date } = {},
+): Promise<void> {
+  const vehicle = await tx.getVehicleForUpdate(chassi);
+  if (!vehicle) return;
+  assertVehicleTransition(vehicle.status, status);
+  await tx.updateVehicle(chassi, { status, ...extra });
+}
+
+interface InspectionSite {
+  subjectType: GeofenceSubjectType;
+  subjectId: string;
+  vehicleChassi: string;
+  event: GeofenceInspectionEvent;
+  locationType: GeofenceLocationType;
+  location: (InspectionLocation & { id: string; name: string }) | undefined;
+}
+
+// Check-in/out coordinates far from the expected location are either rejected or recorded as a
+// "fora do raio" exception, depending on the location's setting
+async function enforceInspectionGeofence(
+  tx: IStorage,
+  site: InspectionSite,
+  latitude: string | null | undefined,
+  longitude: string | null | undefined,
+): Promise<void> {
+  if (!site.location) return;
+  const check = checkInspectionLocation(site.location, latitude, longitude);
+  if (!check?.outside) return;
+
+  if (check.enforcement === "bloquear") {
+    const label = site.event === "checkin" ? "Check-in" : "Check-out";
+    throw new LifecycleError(400, check.distanceMeters === null
+      ? `${label} exige a localização do motorista em ${site.location.name}`
+      : `${label} fora do raio: ${(check.distanceMeters / 1000).toFixed(1)} km de ${site.location.name} (tolerância de ${check.radiusMeters} m)`);
+  }
+
+  await tx.createGeofenceException({
+    subjectType: site.subjectType,
+    subjectId: site.subjectId,
+    vehicleChassi: site.vehicleChassi,
+    event: site.event,
+    locationType: site.locationType,
+    locationId: site.location.id,
+    locationName: site.location.name,
+    latitude: latitude || null,
+    longitude: longitude || null,
+    distanceMeters: check.distanceMeters,
+    radiusMeters: check.radiusMeters,
+  });
+}
+
+async function lockTransport(tx: IStorage, id: string): Promise<Transport> {
+  const transport = await tx.getTransportForUpdate(id);
+  if (!transport) throw new LifecycleError(404, "Transport not found");
+  return transport;
+}
+
+// A trip ends with its last delivery (and the collects it brought back); undoing a check-out reopens it
+async function refreshTrip(tx: IStorage, tripId: string | null): Promise<void> {
+  if (!tripId) return;
+  const trip = await tx.getTripForUpdate(tripId);
+  if (!trip || (trip.status !== "em_transito" && trip.status !== "concluida")) return;
+
+  const [transports, collects] = await Promise.all([tx.getTripTransports(tripId), tx.getTripCollects(tripId)]);
+  const done = transports.every((t) => t.status === "entregue" || t.status === "cancelado")
+    && collects.every((c) => c.status === "finalizada");
+  if (done && trip.status === "em_transito") {
+    await tx.updateTrip(tripId, { status: "concluida", completedAt: new Date() });
+  } else if (!done && trip.status === "concluida") {
+    await tx.updateTrip(tripId, { status: "em_transito", completedAt: null });
+  }
+}
+
+async function lockTransfer(tx: IStorage, id: string): Promise<Transfer> {
+  const transfer = await tx.getTransferForUpdate(id);
+  if (!transfer) throw new LifecycleError(404, "Transferência não encontrada");
+  return transfer;
+}
+
+// Portaria: vehicle arrives at the yard, driver still has to check out
+export async function authorizeCollectEntry(collectId: string): Promise<Collect> {
+  return commit(async (tx) => {
+    const collect = await tx.getCollectForUpdate(collectId);
+    if (!collect) throw new LifecycleError(404, "Coleta não encontrada");
+
+    const transition = assertTransition("collect", collect.status, "aguardando_checkout");
+    await moveVehicle(tx, collect.vehicleChassi, transition.vehicleStatus!, {
+      yardId: collect.yardId,
+      yardEntryDateTime: new Date(),
+    });
+
+    const updated = await tx.updateCollect(collectId, { status: "aguardando_checkout" });
+    return updated!;
+  }, collectChanged);
+}
+
+// Collect update that may carry the driver's checkout, which puts the vehicle in stock
+export async function applyCollectUpdate(collectId: string, data: Partial<InsertCollect>): Promise<Collect> {
+  return commit(async (tx) => {
+    const existing = await tx.getCollectForUpdate(collectId);
+    if (!existing) throw new LifecycleError(404, "Collect not found");
+
+    const isCheckin = !!data.checkinDateTime && !existing.checkinDateTime;
+    const isCheckout = !!data.checkoutDateTime && !existing.checkoutDateTime;
+    if (data.status && data.status !== existing.status) {
+      assertTransition("collect", existing.status, data.status);
+    }
+    if (isCheckout && existing.status !== "finalizada") {
+      assertTransition("collect", existing.status, "finalizada");
+    }
+
+    if (isCheckin) {
+      await enforceInspectionGeofence(tx, {
+        subjectType: "collect",
+        subjectId: collectId,
+        vehicleChassi: existing.vehicleChassi,
+        event: "checkin",
+        locationType: "manufacturer",
+        location: await tx.getManufacturer(data.manufacturerId ?? existing.manufacturerId),
+      }, data.checkinLatitude, data.checkinLongitude);
+    }
+    if (isCheckout) {
+      await enforceInspectionGeofence(tx, {
+        subjectType: "collect",
+        subjectId: collectId,
+        vehicleChassi: existing.vehicleChassi,
+        event: "checkout",
+        locationType: "yard",
+        location: await tx.getYard(data.yardId ?? existing.yardId),
+      }, data.checkoutLatitude, data.checkoutLongitude);
+    }
+
+    const collect = (await tx.updateCollect(collectId, data))!;
+    if (!isCheckout) {
+      return collect;
+    }
+
+    await moveVehicle(tx, collect.vehicleChassi, "em_estoque", {
+      yardId: collect.yardId,
+      yardEntryDateTime: new Date(data.checkoutDateTime!),
+    });
+    const finalized = await tx.updateCollect(collectId, { status: "finalizada" });
+    await refreshTrip(tx, finalized!.tripId);
+    return finalized!;
+  }, collectChanged);
+}
+
+async function dispatchTransport(tx: IStorage, transport: Transport): Promise<Transport> {
+  const transition = assertTransition("transport", transport.status, "em_transito");
+
+  // A vehicle already dispatched at check-in keeps its original dispatch time
+  const vehicle = await tx.getVehicleForUpdate(transport.vehicleChassi);
+  if (vehicle && vehicle.status !== transition.vehicleStatus) {
+    assertVehicleTransition(vehicle.status, transition.vehicleStatus!);
+    await tx.updateVehicle(transport.vehicleChassi, {
+      status: transition.vehicleStatus,
+      dispatchDateTime: new Date(),
+    });
+  }
+
+  const updated = await tx.updateTransport(transport.id, {
+    status: "em_transito",
+    transitStartedAt: new Date(),
+  });
+  return updated!;
+}
+
+export async function authorizeTransportExit(transportId: string): Promise<Transport> {
+  return commit(async (tx) => {
+    const transport = await lockTransport(tx, transportId);
+    if (transport.tripId) {
+      throw new LifecycleError(409, "Transporte faz parte de uma viagem; autorize a saída da viagem inteira");
+    }
+    return dispatchTransport(tx, transport);
+  }, transportChanged);
+}
+
+// Portaria: the whole load of a car carrier leaves together, or none of it does
+export async function authorizeTripExit(tripId: string): Promise<TripDetail> {
+  const { detail, dispatched } = await storage.transaction(async (tx) => {
+    const trip = await tx.getTripForUpdate(tripId);
+    if (!trip) throw new LifecycleError(404, "Viagem não encontrada");
+    if (trip.status !== "planejada") {
+      throw new LifecycleError(409, `Viagem ${trip.tripNumber} não está aguardando saída`);
+    }
+    if (!trip.driverId) {
+      throw new LifecycleError(400, "Informe o motorista da viagem antes de autorizar a saída");
+    }
+
+    const dispatched: Transport[] = [];
+    for (const member of await tx.getTripTransports(tripId)) {
+      if (member.status === "cancelado") continue;
+      dispatched.push(await dispatchTransport(tx, await lockTransport(tx, member.id)));
+    }
+    if (dispatched.length === 0) {
+      throw new LifecycleError(400, "Viagem sem transportes");
+    }
+
+    const updated = await tx.updateTrip(tripId, { status: "em_transito", departedAt: new Date() });
+    const [transports, collects] = await Promise.all([tx.getTripTransports(tripId), tx.getTripCollects(tripId)]);
+    return { detail: { ...updated!, transports, collects }, dispatched };
+  });
+  dispatched.forEach((transport) => publishEvent(transportChanged(transport)));
+  publishEvent(tripChanged(detail));
+  return detail;
+}
+
+export async function checkinTransport(transportId: string, data: InspectionData): Promise<Transport> {
+  return commit(async (tx) => {
+    const transport = await lockTransport(tx, transportId);
+    const transition = assertTransition("transport", transport.status, "aguardando_saida");
+    await enforceInspectionGeofence(tx, {
+      subjectType: "transport",
+      subjectId: transportId,
+      vehicleChassi: transport.vehicleChassi,
+      event: "checkin",
+      locationType: "yard",
+      location: await tx.getYard(transport.originYardId),
+    }, data.latitude, data.longitude);
+    await moveVehicle(tx, transport.vehicleChassi, transition.vehicleStatus!);
+
+    const updated = await tx.updateTransport(transportId, {
+      checkinDateTime: new Date(),
+      checkinLatitude: data.latitude,
+      checkinLongitude: data.longitude,
+      checkinFrontalPhoto: data.frontalPhoto,
+      checkinLateral1Photo: data.lateral1Photo,
+      checkinLateral2Photo: data.lateral2Photo,
+      checkinTraseiraPhoto: data.traseiraPhoto,
+      checkinOdometerPhoto: data.odometerPhoto,
+      checkinFuelLevelPhoto: data.fuelLevelPhoto,
+      checkinDamagePhotos: data.damagePhotos || [],
+      checkinSelfiePhoto: data.selfiePhoto,
+      checkinNotes: data.notes,
+      status: "aguardando_saida",
+    });
+    return updated!;
+  }, transportChanged);
+}
+
+export async function checkoutTransport(transportId: string, data: InspectionData): Promise<Transport> {
+  return commit(async (tx) => {
+    const transport = await lockTransport(tx, transportId);
+    if (!transport.checkinDateTime) {
+      throw new LifecycleError(400, "Check-in must be performed before check-out");
+    }
+    if (!data.recipientName?.trim() || !data.recipientDocument?.trim() || !data.recipientSignature) {
+      throw new LifecycleError(400, "Nome, documento e assinatura do recebedor são obrigatórios no check-out");
+    }
+    const transition = assertTransition("transport", transport.status, "entregue");
+    await enforceInspectionGeofence(tx, {
+      subjectType: "transport",
+      subjectId: transportId,
+      vehicleChassi: transport.vehicleChassi,
+      event: "checkout",
+      locationType: "delivery_location",
+      location: await tx.getDeliveryLocation(transport.deliveryLocationId),
+    }, data.latitude, data.longitude);
+    await moveVehicle(tx, transport.vehicleChassi, transition.vehicleStatus!);
+
+    const updated = await tx.updateTransport(transportId, {
+      checkoutDateTime: new Date(),
+      checkoutLatitude: data.latitude,
+      checkoutLongitude: data.longitude,
+      checkoutFrontalPhoto: data.frontalPhoto,
+      checkoutLateral1Photo: data.lateral1Photo,
+      checkoutLateral2Photo: data.lateral2Photo,
+      checkoutTraseiraPhoto: data.traseiraPhoto,
+      checkoutOdometerPhoto: data.odometerPhoto,
+      checkoutFuelLevelPhoto: data.fuelLevelPhoto,
+      checkoutDamagePhotos: data.damagePhotos || [],
+      checkoutSelfiePhoto: data.selfiePhoto,
+      checkoutNotes: data.notes,
+      recipientName: data.recipientName.trim(),
+      recipientDocument: data.recipientDocument.trim(),
+      recipientSignature: data.recipientSignature,
+      status: "entregue",
+    });
+    await refreshTrip(tx, transport.tripId);
+    return updated!;
+  }, transportChanged);
+}
+
+// Manual "Concluir Frete": marks delivery without the driver's checkout photos
+export async function concludeTransport(transportId: string): Promise<Transport> {
+  return commit(async (tx) => {
+    const transport = await lockTransport(tx, transportId);
+    const transition = assertTransition("transport", transport.status, "entregue");
+    await moveVehicle(tx, transport.vehicleChassi, transition.vehicleStatus!);
+
+    const updated = await tx.updateTransport(transportId, {
+      status: "entregue",
+      checkoutDateTime: transport.checkoutDateTime ?? new Date(),
+    });
+    await refreshTrip(tx, transport.tripId);
+    return updated!;
+  }, transportChanged);
+}
+
+export async function clearTransportCheckin(transportId: string): Promise<Transport> {
+  return commit(async (tx) => {
+    const transport = await lockTransport(tx, transportId);
+    if (transport.checkoutDateTime) {
+      throw new LifecycleError(400, "Check-out must be cleared before clearing check-in");
+    }
+    const transition = assertTransition("transport", transport.status, "pendente");
+    await moveVehicle(tx, transport.vehicleChassi, transition.vehicleStatus!);
+    await tx.deleteGeofenceExceptions("transport", transportId, "checkin");
+
+    const updated = await tx.clearTransportCheckin(transportId);
+    return updated!;
+  }, transportChanged);
+}
+
+export async function clearTransportCheckout(transportId: string): Promise<Transport> {
+  return commit(async (tx) => {
+    const transport = await lockTransport(tx, transportId);
+    const transition = assertTransition("transport", transport.status, "em_transito");
+    await moveVehicle(tx, transport.vehicleChassi, transition.vehicleStatus!);
+    await tx.deleteGeofenceExceptions("transport", transportId, "checkout");
+
+    const updated = await tx.clearTransportCheckout(transportId);
+    await refreshTrip(tx, transport.tripId);
+    return updated!;
+  }, transportChanged);
+}
+
+export async function authorizeTransfer(transferId: string, userId: string | null): Promise<Transfer> {
+  return commit(async (tx) => {
+    const transfer = await lockTransfer(tx, transferId);
+    const transition = assertTransition("transfer", transfer.status, "em_transito");
+
+    const vehicle = await tx.getVehicleForUpdate(transfer.vehicleChassi);
+    if (!vehicle) throw new LifecycleError(404, "Veículo não encontrado");
+    await moveVehicle(tx, transfer.vehicleChassi, transition.vehicleStatus!);
+
+    const updated = await tx.updateTransfer(transferId, {
+      status: "em_transito",
+      authorizedBy: userId,
+      authorizedAt: new Date(),
+    });
+    return updated!;
+  }, transferChanged);
+}
+
+export async function completeTransfer(transferId: string): Promise<Transfer> {
+  return commit(async (tx) => {
+    const transfer = await lockTransfer(tx, transferId);
+    const transition = assertTransition("transfer", transfer.status, "concluida");
+    await moveVehicle(tx, transfer.vehicleChassi, transition.vehicleStatus!, {
+      yardId: transfer.destinationYardId,
+      yardEntryDateTime: new Date(),
+    });
+
+    const updated = await tx.updateTransfer(transferId, {
+      status: "concluida",
+      completedAt: new Date(),
+    });
+    return updated!;
+  }, transferChanged);
+}
+
+export async function cancelTransfer(transferId: string): Promise<Transfer> {
+  return commit(async (tx) => {
+    const transfer = await lockTransfer(tx, transferId);
+    const transition = assertTransition("transfer", transfer.status, "cancelada");
+    if (transition.vehicleStatus) {
+      await moveVehicle(tx, transfer.vehicleChassi, transition.vehicleStatus);
+    }
+
+    const updated = await tx.updateTransfer(transferId, { status: "cancelada" });
+    return updated!;
+  }, transferChanged);
+}
@@ -0,0 +1,279 @@
+import { storage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { getFleetAvailability } from "./fleet";
+import { haversineKm, parseCoordinate } from "./dispatch";
+import type { DeliveryLocation, FleetUnit, Transport, Vehicle, Yard } from "@shared/schema";
+
+// Load planning: proposes car-carrier loads from the vehicles in stock that already have a pending transport.
+// Per origin yard, the oldest or most urgent vehicle seeds a load and vehicles heading the same way fill the
+// trailer, as long as no stop misses its delivery date. Proposals are only drafts: accepting one creates a
+// planned trip (see trips.ts), which the dispatcher can still tweak.
+
+// Vehicles whose destination lies within this angle of the seed's (seen from the yard) ride together
+const MAX_BEARING_SPREAD_DEG = 30;
+// Rough distance a car carrier covers per day, used to check delivery dates
+const KM_PER_DAY = 600;
+// Used when the fleet has no active trailer registered yet
+const DEFAULT_TRAILER_CAPACITY = 11;
+
+const COMPASS_POINTS = ["N", "NE", "L", "SE", "S", "SO", "O", "NO"];
+
+export interface LoadPlanningOptions {
+  yardId?: string;
+  capacity?: number;
+  departureDate?: string;   // YYYY-MM-DD, defaults to today
+}
+
+export interface LoadStop {
+  transportId: string;
+  requestNumber: string;
+  vehicleChassi: string;
+  deliveryLocationId: string;
+  locationName: string;
+  city: string;
+  state: string | null;
+  distanceKm: number;       // straight line from the yard
+  deliveryDate: string | null;
+  yardEntryDateTime: Date | null;
+  estimatedArrival: string;
+  late: boolean;
+}
+
+export interface LoadProposal {
+  originYardId: string;
+  direction: string;
+  estimatedKm: number;
+  departureDate: string;
+  capacity: number;
+  suggestedTractorId: string | null;
+  suggestedTrailerId: string | null;
+  stops: LoadStop[];
+}
+
+export interface UnplannedTransport {
+  transportId: string;
+  requestNumber: string;
+  originYardId: string;
+  reason: string;
+}
+
+export interface LoadPlan {
+  capacity: number;
+  departureDate: string;
+  proposals: LoadProposal[];
+  unplanned: UnplannedTransport[];
+}
+
+interface Candidate {
+  transport: Transport;
+  vehicle: Vehicle;
+  location: DeliveryLocation;
+  lat: number;
+  lng: number;
+  distanceKm: number;
+  bearing: number;
+}
+
+function bearingDeg(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLng = toRad(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(toRad(lat2));
+  const x = Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) - Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function bearingSpread(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// Urgent deliveries first, then the vehicles that have been in the yard the longest
+function byPriority(a: Candidate, b: Candidate): number {
+  const dateA = a.transport.deliveryDate ?? "9999-12-31";
+  const dateB = b.transport.deliveryDate ?? "9999-12-31";
+  if (dateA !== dateB) return dateA < dateB ? -1 : 1;
+  const entryA = a.vehicle.yardEntryDateTime?.getTime() ?? Infinity;
+  const entryB = b.vehicle.yardEntryDateTime?.getTime() ?? Infinity;
+  return entryA - entryB;
+}
+
+// Delivers nearest first and estimates the arrival day at each stop from the accumulated distance
+function sequence(yard: { lat: number; lng: number }, members: Candidate[], departureDate: string): { stops: LoadStop[]; totalKm: number } {
+  const ordered = [...members].sort((a, b) => a.distanceKm - b.distanceKm);
+  let totalKm = 0;
+  let last = yard;
+  const stops = ordered.map((member): LoadStop => {
+    totalKm += haversineKm(last.lat, last.lng, member.lat, member.lng);
+    last = member;
+    const estimatedArrival = addDays(departureDate, Math.floor(totalKm / KM_PER_DAY));
+    const deliveryDate = member.transport.deliveryDate ?? null;
+    return {
+      transportId: member.transport.id,
+      requestNumber: member.transport.requestNumber,
+      vehicleChassi: member.transport.vehicleChassi,
+      deliveryLocationId: member.location.id,
+      locationName: member.location.name,
+      city: member.location.city,
+      state: member.location.state,
+      distanceKm: Math.round(member.distanceKm),
+      deliveryDate,
+      yardEntryDateTime: member.vehicle.yardEntryDateTime,
+      estimatedArrival,
+      late: !!deliveryDate && estimatedArrival > deliveryDate,
+    };
+  });
+  return { stops, totalKm };
+}
+
+function lateIds(stops: LoadStop[]): Set<string> {
+  return new Set(stops.filter((s) => s.late).map((s) => s.transportId));
+}
+
+// Seeds a load with the top priority vehicle and adds the next ones heading the same way while the trailer
+// has room. A vehicle only joins if no stop that was on time becomes late; a seed that is late even alone
+// still gets its load, flagged, so the dispatcher sees it first.
+function buildLoads(yard: { lat: number; lng: number }, candidates: Candidate[], capacity: number, departureDate: string) {
+  const remaining = [...candidates].sort(byPriority);
+  const loads: { members: Candidate[]; stops: LoadStop[]; totalKm: number }[] = [];
+
+  while (remaining.length > 0) {
+    const seed = remaining.shift()!;
+    let members = [seed];
+    let plan = sequence(yard, members, departureDate);
+
+    for (let index = 0; index < remaining.length && members.length < capacity; index++) {
+      const candidate = remaining[index];
+      if (bearingSpread(seed.bearing, candidate.bearing) > MAX_BEARING_SPREAD_DEG) continue;
+
+      const alone = lateIds(sequence(yard, [candidate], departureDate).stops);
+      const before = lateIds(plan.stops);
+      const tentative = sequence(yard, [...members, candidate], departureDate);
+      const newlyLate = Array.from(lateIds(tentative.stops)).filter((id) => !before.has(id) && !alone.has(id));
+      if (newlyLate.length > 0) continue;
+
+      members = [...members, candidate];
+      plan = tentative;
+      remaining.splice(index, 1);
+      index--;
+    }
+    loads.push({ members, ...plan });
+  }
+  return loads;
+}
+
+function directionLabel(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+}
+
+// Free units for the proposals, handed out once each: the smallest trailer that takes the whole load
+// (or the largest one left) and any free tractor.
+function fleetSuggester(freeUnits: FleetUnit[]) {
+  const tractors = freeUnits.filter((u) => u.unitType === "cavalo");
+  const trailers = freeUnits
+    .filter((u) => u.unitType === "carreta")
+    .sort((a, b) => (a.vehicleCapacity ?? 0) - (b.vehicleCapacity ?? 0));
+
+  return (loadSize: number) => {
+    const trailerIndex = trailers.findIndex((u) => (u.vehicleCapacity ?? 0) >= loadSize);
+    const [trailer] = trailerIndex >= 0 ? trailers.splice(trailerIndex, 1) : trailers.splice(-1, 1);
+    const tractor = tractors.shift();
+    return { suggestedTractorId: tractor?.id ?? null, suggestedTrailerId: trailer?.id ?? null };
+  };
+}
+
+export async function proposeLoads(options: LoadPlanningOptions = {}): Promise<LoadPlan> {
+  const [transports, vehicles, yards, locations, availability] = await Promise.all([
+    storage.getTransports(),
+    storage.getVehicles(),
+    storage.getYards(),
+    storage.getAllDeliveryLocations(),
+    getFleetAvailability(),
+  ]);
+
+  if (options.yardId && !yards.some((y) => y.id === options.yardId)) {
+    throw new LifecycleError(404, "Pátio não encontrado");
+  }
+
+  const activeTrailers = availability.filter((a) => a.unit.unitType === "carreta" && a.unit.status === "ativo");
+  const largestTrailer = Math.max(0, ...activeTrailers.map((a) => a.unit.vehicleCapacity ?? 0));
+  const loadCapacity = options.capacity ?? (largestTrailer > 0 ? largestTrailer : DEFAULT_TRAILER_CAPACITY);
+  const departureDate = options.departureDate ?? new Date().toISOString().slice(0, 10);
+
+  const vehicleByChassi = new Map(vehicles.map((v) => [v.chassi, v]));
+  const locationById = new Map(locations.map((l) => [l.id, l]));
+  const unplanned: UnplannedTransport[] = [];
+  const byYard = new Map<string, Candidate[]>();
+  const yardById = new Map<string, Yard>(yards.map((y) => [y.id, y]));
+
+  for (const transport of transports) {
+    if (transport.status !== "pendente" || transport.tripId) continue;
+    if (options.yardId && transport.originYardId !== options.yardId) continue;
+    const vehicle = vehicleByChassi.get(transport.vehicleChassi);
+    if (!vehicle || vehicle.status !== "em_estoque") continue;
+
+    const skip = (reason: string) => unplanned.push({
+      transportId: transport.id,
+      requestNumber: transport.requestNumber,
+      originYardId: transport.originYardId,
+      reason,
+    });
+    const yard = yardById.get(transport.originYardId);
+    const yardLat = parseCoordinate(yard?.latitude);
+    const yardLng = parseCoordinate(yard?.longitude);
+    if (yardLat === null || yardLng === null) {
+      skip("Pátio de origem sem coordenadas");
+      continue;
+    }
+    const location = locationById.get(transport.deliveryLocationId);
+    const lat = parseCoordinate(location?.latitude);
+    const lng = parseCoordinate(location?.longitude);
+    if (!location || lat === null || lng === null) {
+      skip("Local de entrega sem coordenadas");
+      continue;
+    }
+
+    const candidates = byYard.get(transport.originYardId) ?? [];
+    candidates.push({
+      transport,
+      vehicle,
+      location,
+      lat,
+      lng,
+      distanceKm: haversineKm(yardLat, yardLng, lat, lng),
+      bearing: bearingDeg(yardLat, yardLng, lat, lng),
+    });
+    byYard.set(transport.originYardId, candidates);
+  }
+
+  const suggest = fleetSuggester(availability.filter((a) => a.availability === "disponivel").map((a) => a.unit));
+  const proposals: LoadProposal[] = [];
+  byYard.forEach((candidates, yardId) => {
+    const yard = yardById.get(yardId)!;
+    const origin = { lat: parseCoordinate(yard.latitude)!, lng: parseCoordinate(yard.longitude)! };
+    for (const load of buildLoads(origin, candidates, loadCapacity, departureDate)) {
+      proposals.push({
+        originYardId: yardId,
+        direction: directionLabel(load.members[0].bearing),
+        estimatedKm: Math.round(load.totalKm),
+        departureDate,
+        capacity: loadCapacity,
+        ...suggest(load.members.length),
+        stops: load.stops,
+      });
+    }
+  });
+
+  // Proposals with the most urgent delivery come first; fuller loads break ties
+  proposals.sort((a, b) => {
+    const urgent = (p: LoadProposal) => p.stops.reduce((min, s) => (s.deliveryDate && s.deliveryDate < min ? s.deliveryDate : min), "9999-12-31");
+    return urgent(a) < urgent(b) ? -1 : urgent(a) > urgent(b) ? 1 : b.stops.length - a.stops.length;
+  });
+
+  return { capacity: loadCapacity, departureDate, proposals, unplanned };
+}
@@ -0,0 +1,38 @@
+import nodemailer from "nodemailer";
+import type Mail from "nodemailer/lib/mailer";
+
+export class MailNotConfiguredError extends Error {
+  constructor() {
+    super("Configuração SMTP não encontrada. Configure as variáveis SMTP_HOST, SMTP_USER e SMTP_PASS.");
+    this.name = "MailNotConfiguredError";
+    Object.setPrototypeOf(this, MailNotConfiguredError.prototype);
+  }
+}
+
+export function isMailConfigured(): boolean {
+  return !!(process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS);
+}
+
+export async function sendMail(message: Omit<Mail.Options, "from">): Promise<void> {
+  const smtpHost = process.env.SMTP_HOST;
+  const smtpPort = process.env.SMTP_PORT || "587";
+  const smtpUser = process.env.SMTP_USER;
+  const smtpPass = process.env.SMTP_PASS;
+  const smtpFrom = process.env.SMTP_FROM || smtpUser;
+
+  if (!smtpHost || !smtpUser || !smtpPass) {
+    throw new MailNotConfiguredError();
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: smtpHost,
+    port: parseInt(smtpPort),
+    secure: parseInt(smtpPort) === 465,
+    auth: {
+      user: smtpUser,
+      pass: smtpPass,
+    },
+  });
+
+  await transporter.sendMail({ from: smtpFrom, ...message });
+}
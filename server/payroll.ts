@@ -0,0 +1,495 @@
+import PDFDocument from "pdfkit";
+import { storage, type IStorage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { haversineKm } from "./dispatch";
+import type {
+  Collect,
+  Contract,
+  CreatePayrollRun,
+  Driver,
+  InsertPayrollStatement,
+  PayrollLine,
+  PayrollRun,
+  PayrollStatement,
+  Route,
+  Transport,
+} from "@shared/schema";
+
+// Driver payroll. A run covers a period and keeps one statement per driver: what the driver earned under
+// the contract in force for each delivered transport and finished collect (or per month, for fixed pay),
+// plus the approved expenses, advances and damage deductions the ledger booked in the same period.
+// Statements are recalculated freely while the run is a draft; approving it posts each driver's earnings
+// to the ledger, where payment batches pick them up.
+
+// Suspended contracts don't pay; expired ones still cover the days they were in force
+const PAYABLE_CONTRACT_STATUSES: Contract["status"][] = ["ativo", "expirado"];
+
+export interface PayrollStatementView extends PayrollStatement {
+  driverName: string | null;
+  driverCpf: string | null;
+  contractNumber: string | null;
+}
+
+export interface PayrollRunDetail extends PayrollRun {
+  statements: PayrollStatementView[];
+}
+
+interface PayableTrip {
+  label: string;
+  deliveredAt: Date;
+  distanceKm: number | null;
+  distanceEstimated: boolean;
+  freightValue: number | null;
+  transportId?: string;
+  collectId?: string;
+  // A car carrier's load (viagem) runs one route: its vehicles are paid per delivery and commission,
+  // while the kilometres are paid once on a line of their own
+  kmOnTrip?: boolean;
+  kmOnly?: boolean;
+}
+
+function toNumber(value: string | null | undefined): number {
+  const num = parseFloat(value || "0");
+  return Number.isFinite(num) ? num : 0;
+}
+
+function formatBrl(value: number): string {
+  return value.toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDay(value: string): string {
+  return value.split("-").reverse().join("/");
+}
+
+function dayOf(date: Date): string {
+  return date.toLocaleDateString("en-CA");
+}
+
+// Inclusive number of days between two YYYY-MM-DD dates
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+// Splits a date range into the calendar months it touches
+function monthlyShares(start: string, end: string): { month: string; days: number; daysInMonth: number }[] {
+  const shares: { month: string; days: number; daysInMonth: number }[] = [];
+  let cursor = start;
+  while (cursor <= end) {
+    const [year, month] = cursor.split("-").map(Number);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const monthEnd = `${cursor.slice(0, 7)}-${String(daysInMonth).padStart(2, "0")}`;
+    shares.push({ month: cursor.slice(0, 7), days: daysBetween(cursor, monthEnd < end ? monthEnd : end), daysInMonth });
+    cursor = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  }
+  return shares;
+}
+
+function coversDate(contract: Contract, date: string): boolean {
+  return (!contract.startDate || contract.startDate <= date) && (!contract.endDate || contract.endDate >= date);
+}
+
+function contractFor(contracts: Contract[], date: string): Contract | undefined {
+  return contracts
+    .filter((c) => coversDate(c, date))
+    .sort((a, b) => (b.startDate ?? "").localeCompare(a.startDate ?? ""))[0];
+}
+
+function line(data: Omit<PayrollLine, "amount"> & { amount: number }): PayrollLine {
+  return { ...data, amount: data.amount.toFixed(2) };
+}
+
+function tripEarning(trip: PayableTrip, contract: Contract, warnings: string[]): PayrollLine | null {
+  const rate = toNumber(contract.paymentValue);
+  const ref = { transportId: trip.transportId, collectId: trip.collectId };
+  if (contract.paymentType === "por_km" ? trip.kmOnTrip : trip.kmOnly) return null;
+  switch (contract.paymentType) {
+    case "por_entrega":
+      return line({ ...ref, kind: "ganho", category: "entrega", description: `${trip.label} (contrato ${contract.contractNumber})`, quantity: 1, rate, amount: rate });
+    case "por_km":
+      if (trip.distanceKm === null) {
+        warnings.push(`${trip.label}: distância desconhecida, não remunerada por km`);
+        return null;
+      }
+      return line({
+        ...ref,
+        kind: "ganho",
+        category: "km",
+        description: `${trip.label} - ${formatBrl(trip.distanceKm)} km${trip.distanceEstimated ? " em linha reta" : ""} (contrato ${contract.contractNumber})`,
+        quantity: Math.round(trip.distanceKm * 100) / 100,
+        rate,
+        amount: trip.distanceKm * rate,
+        estimated: trip.distanceEstimated || undefined,
+      });
+    case "comissao":
+      if (trip.freightValue === null) {
+        warnings.push(`${trip.label}: sem valor de frete cadastrado para a rota, comissão não calculada`);
+        return null;
+      }
+      return line({
+        ...ref,
+        kind: "ganho",
+        category: "comissao",
+        description: `${trip.label} - ${formatBrl(rate)}% de R$ ${formatBrl(trip.freightValue)} (contrato ${contract.contractNumber})`,
+        quantity: trip.freightValue,
+        rate,
+        amount: (trip.freightValue * rate) / 100,
+      });
+    default:
+      // Fixed monthly pay doesn't depend on trips
+      return null;
+  }
+}
+
+function fixedMonthlyLines(contract: Contract, periodStart: string, periodEnd: string): PayrollLine[] {
+  const start = contract.startDate && contract.startDate > periodStart ? contract.startDate : periodStart;
+  const end = contract.endDate && contract.endDate < periodEnd ? contract.endDate : periodEnd;
+  const rate = toNumber(contract.paymentValue);
+  return monthlyShares(start, end).map(({ month, days, daysInMonth }) => line({
+    kind: "ganho",
+    category: "fixo_mensal",
+    description: `Mensalidade ${month.split("-").reverse().join("/")}${days < daysInMonth ? ` - ${days}/${daysInMonth} dias` : ""} (contrato ${contract.contractNumber})`,
+    quantity: days,
+    rate,
+    amount: (rate * days) / daysInMonth,
+  }));
+}
+
+async function loadTrips(tx: IStorage, from: Date, to: Date): Promise<Map<string, PayableTrip[]>> {
+  const [transports, collects, loads, lanes, manufacturers, yards] = await Promise.all([
+    tx.getTransports(),
+    tx.getCollects(),
+    tx.getTrips(),
+    tx.getActiveRoutes(),
+    tx.getManufacturers(),
+    tx.getYards(),
+  ]);
+  const inPeriod = (date: Date | null): date is Date => !!date && date >= from && date < to;
+  const byDriver = new Map<string, PayableTrip[]>();
+  const add = (driverId: string, trip: PayableTrip) => byDriver.set(driverId, [...(byDriver.get(driverId) ?? []), trip]);
+
+  // The freight value of a transport is the price of its lane in route management
+  const laneFreight = (t: Transport): number | null => {
+    const lane = lanes.find((r: Route) => r.originYardId === t.originYardId && r.destinationLocationId === t.deliveryLocationId && r.suggestedPrice);
+    return lane ? toNumber(lane.suggestedPrice) : null;
+  };
+
+  for (const t of transports) {
+    if (!t.driverId || t.status !== "entregue" || !inPeriod(t.checkoutDateTime)) continue;
+    add(t.driverId, {
+      label: `Transporte ${t.requestNumber}`,
+      deliveredAt: t.checkoutDateTime,
+      distanceKm: t.routeDistanceKm ? toNumber(t.routeDistanceKm) : null,
+      distanceEstimated: false,
+      freightValue: laneFreight(t),
+      transportId: t.id,
+      kmOnTrip: !!t.tripId || undefined,
+    });
+  }
+
+  for (const load of loads) {
+    if (!load.driverId || load.status !== "concluida" || !inPeriod(load.completedAt)) continue;
+    add(load.driverId, {
+      label: `Viagem ${load.tripNumber}`,
+      deliveredAt: load.completedAt,
+      distanceKm: load.routeDistanceKm ? toNumber(load.routeDistanceKm) : null,
+      distanceEstimated: false,
+      freightValue: null,
+      kmOnly: true,
+    });
+  }
+
+  // Collects have no route; their distance is estimated from the manufacturer and yard coordinates
+  const collectDistance = (c: Collect): number | null => {
+    const origin = manufacturers.find((m) => m.id === c.manufacturerId);
+    const destination = yards.find((y) => y.id === c.yardId);
+    const coords = [origin?.latitude, origin?.longitude, destination?.latitude, destination?.longitude].map((v) => parseFloat(v ?? ""));
+    return coords.every(Number.isFinite) ? haversineKm(coords[0], coords[1], coords[2], coords[3]) : null;
+  };
+
+  for (const c of collects) {
+    if (!c.driverId || c.status !== "finalizada" || !inPeriod(c.checkoutDateTime)) continue;
+    add(c.driverId, {
+      label: `Coleta ${c.vehicleChassi}`,
+      deliveredAt: c.checkoutDateTime,
+      distanceKm: collectDistance(c),
+      distanceEstimated: true,
+      freightValue: null,
+      collectId: c.id,
+    });
+  }
+  return byDriver;
+}
+
+async function calculateStatements(tx: IStorage, run: PayrollRun): Promise<InsertPayrollStatement[]> {
+  const from = new Date(`${run.periodStart}T00:00:00`);
+  const to = new Date(`${run.periodEnd}T00:00:00`);
+  to.setDate(to.getDate() + 1);
+
+  const [contracts, trips] = await Promise.all([tx.getContracts(), loadTrips(tx, from, to)]);
+  const payable = contracts.filter((c) =>
+    c.driverId
+    && PAYABLE_CONTRACT_STATUSES.includes(c.status)
+    && (!c.startDate || c.startDate <= run.periodEnd)
+    && (!c.endDate || c.endDate >= run.periodStart));
+  const driverIds = new Set([...payable.map((c) => c.driverId!), ...Array.from(trips.keys())]);
+
+  const statements: InsertPayrollStatement[] = [];
+  for (const driverId of Array.from(driverIds)) {
+    const driverContracts = payable.filter((c) => c.driverId === driverId);
+    const lines: PayrollLine[] = [];
+    const warnings: string[] = [];
+
+    for (const trip of trips.get(driverId) ?? []) {
+      const contract = contractFor(driverContracts, dayOf(trip.deliveredAt));
+      if (!contract) {
+        warnings.push(`${trip.label}: sem contrato vigente na data da entrega`);
+        continue;
+      }
+      const earning = tripEarning(trip, contract, warnings);
+      if (earning) lines.push(earning);
+    }
+    for (const contract of driverContracts.filter((c) => c.paymentType === "fixo_mensal")) {
+      lines.push(...fixedMonthlyLines(contract, run.periodStart, run.periodEnd));
+    }
+    if (driverContracts.some((c) => !c.paymentType || toNumber(c.paymentValue) <= 0)) {
+      warnings.push("Contrato sem forma ou valor de pagamento definido");
+    }
+
+    // Movements the ledger already booked from expense settlements
+    for (const entry of await tx.getDriverLedgerEntries(driverId, { from, to })) {
+      const amount = Math.abs(toNumber(entry.amount));
+      const base = { description: entry.description ?? "", quantity: null, rate: null, amount, ledgerEntryId: entry.id, transportId: entry.transportId ?? undefined };
+      if (entry.entryType === "despesa_aprovada") lines.push(line({ ...base, kind: "credito", category: "reembolso_despesas" }));
+      if (entry.entryType === "adiantamento") lines.push(line({ ...base, kind: "desconto", category: "adiantamento" }));
+      if (entry.entryType === "desconto") lines.push(line({ ...base, kind: "desconto", category: "avaria" }));
+    }
+    for (const claim of await tx.getPendingDriverDeductions(driverId)) {
+      warnings.push(`Sinistro ${claim.claimNumber} (R$ ${formatBrl(toNumber(claim.approvedAmount))}) aguarda uma prestação de contas para ser descontado`);
+    }
+
+    const sum = (kind: PayrollLine["kind"]) => lines.filter((l) => l.kind === kind).reduce((total, l) => total + toNumber(l.amount), 0);
+    const gross = sum("ganho");
+    const credits = sum("credito");
+    const deductions = sum("desconto");
+    const current = contractFor(driverContracts, run.periodEnd) ?? driverContracts[0];
+    statements.push({
+      runId: run.id,
+      driverId,
+      contractId: current?.id ?? null,
+      paymentType: current?.paymentType ?? null,
+      grossAmount: gross.toFixed(2),
+      creditsAmount: credits.toFixed(2),
+      deductionsAmount: deductions.toFixed(2),
+      netAmount: (gross + credits - deductions).toFixed(2),
+      lines,
+      warnings,
+    });
+  }
+  return statements;
+}
+
+async function refreshRun(tx: IStorage, run: PayrollRun): Promise<PayrollRun> {
+  const statements = await calculateStatements(tx, run);
+  await tx.replacePayrollStatements(run.id, statements);
+  const total = (field: "grossAmount" | "creditsAmount" | "deductionsAmount" | "netAmount") =>
+    statements.reduce((sum, s) => sum + toNumber(s[field]), 0).toFixed(2);
+  return (await tx.updatePayrollRun(run.id, {
+    grossAmount: total("grossAmount"),
+    creditsAmount: total("creditsAmount"),
+    deductionsAmount: total("deductionsAmount"),
+    netAmount: total("netAmount"),
+    driverCount: statements.length,
+  }))!;
+}
+
+async function getDraftRun(tx: IStorage, id: string): Promise<PayrollRun> {
+  const run = await tx.getPayrollRun(id);
+  if (!run) throw new LifecycleError(404, "Folha não encontrada");
+  if (run.status !== "rascunho") throw new LifecycleError(409, "Folha já aprovada");
+  return run;
+}
+
+// Periods can't overlap, otherwise the same delivery would be paid twice
+export async function createPayrollRun(data: CreatePayrollRun, userId: string | null): Promise<PayrollRun> {
+  return storage.transaction(async (tx) => {
+    const overlapping = (await tx.getPayrollRuns())
+      .find((r) => r.periodStart <= data.periodEnd && r.periodEnd >= data.periodStart);
+    if (overlapping) {
+      throw new LifecycleError(409, `O período se sobrepõe à folha ${overlapping.reference} (${formatDay(overlapping.periodStart)} a ${formatDay(overlapping.periodEnd)})`);
+    }
+    const run = await tx.createPayrollRun({
+      reference: `FOLHA-${data.periodStart.replace(/-/g, "")}-${data.periodEnd.replace(/-/g, "")}`,
+      periodStart: data.periodStart,
+      periodEnd: data.periodEnd,
+      notes: data.notes,
+      createdByUserId: userId,
+    });
+    return refreshRun(tx, run);
+  });
+}
+
+export async function recalculatePayrollRun(id: string): Promise<PayrollRun> {
+  return storage.transaction(async (tx) => refreshRun(tx, await getDraftRun(tx, id)));
+}
+
+export async function deletePayrollRun(id: string): Promise<void> {
+  await storage.transaction(async (tx) => {
+    await getDraftRun(tx, id);
+    await tx.deletePayrollRun(id);
+  });
+}
+
+// Approval freezes the statements and credits each driver's earnings to the ledger
+export async function approvePayrollRun(id: string, userId: string | null): Promise<PayrollRun> {
+  return storage.transaction(async (tx) => {
+    const run = await getDraftRun(tx, id);
+    for (const statement of await tx.getPayrollStatements(id)) {
+      if (toNumber(statement.grossAmount) < 0.01) continue;
+      await tx.upsertDriverLedgerEntryBySource({
+        sourceKey: `payroll:${run.id}:${statement.driverId}`,
+        driverId: statement.driverId,
+        entryType: "pagamento_contrato",
+        amount: statement.grossAmount,
+        occurredAt: new Date(`${run.periodEnd}T12:00:00Z`),
+        contractId: statement.contractId,
+        description: `Folha ${formatDay(run.periodStart)} a ${formatDay(run.periodEnd)}`,
+        createdByUserId: userId,
+      });
+    }
+    return (await tx.updatePayrollRun(id, { status: "aprovado", approvedAt: new Date(), approvedByUserId: userId }))!;
+  });
+}
+
+export async function getPayrollRunDetail(id: string): Promise<PayrollRunDetail | undefined> {
+  const run = await storage.getPayrollRun(id);
+  if (!run) return undefined;
+  const [statements, drivers, contracts] = await Promise.all([
+    storage.getPayrollStatements(id),
+    storage.getDrivers(),
+    storage.getContracts(),
+  ]);
+  const driverById = new Map<string, Driver>(drivers.map((d) => [d.id, d]));
+  return {
+    ...run,
+    statements: statements
+      .map((s) => ({
+        ...s,
+        driverName: driverById.get(s.driverId)?.name ?? null,
+        driverCpf: driverById.get(s.driverId)?.cpf ?? null,
+        contractNumber: contracts.find((c) => c.id === s.contractId)?.contractNumber ?? null,
+      }))
+      .sort((a, b) => (a.driverName ?? "").localeCompare(b.driverName ?? "")),
+  };
+}
+
+const paymentTypeLabels: Record<string, string> = {
+  por_km: "Por km",
+  fixo_mensal: "Fixo mensal",
+  por_entrega: "Por entrega",
+  comissao: "Comissão",
+};
+
+function csvField(value: string): string {
+  return /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One line per driver, ";"-separated with Brazilian decimals like the payment batch export
+export async function exportPayrollRunCsv(id: string): Promise<{ run: PayrollRun; csv: string }> {
+  const detail = await getPayrollRunDetail(id);
+  if (!detail) throw new LifecycleError(404, "Folha não encontrada");
+  const lines = ["Motorista;CPF;Contrato;Forma de pagamento;Ganhos;Reembolsos;Descontos;Liquido;Situacao"];
+  for (const s of detail.statements) {
+    lines.push([
+      s.driverName ?? s.driverId,
+      s.driverCpf ?? "",
+      s.contractNumber ?? "",
+      s.paymentType ? paymentTypeLabels[s.paymentType] ?? s.paymentType : "",
+      formatBrl(toNumber(s.grossAmount)),
+      formatBrl(toNumber(s.creditsAmount)),
+      formatBrl(toNumber(s.deductionsAmount)),
+      formatBrl(toNumber(s.netAmount)),
+      detail.status === "aprovado" ? "Aprovada" : "Rascunho",
+    ].map(csvField).join(";"));
+  }
+  return { run: detail, csv: lines.join("\r\n") + "\r\n" };
+}
+
+// Pay statements, one page per driver (or only the given driver's)
+export async function renderPayrollPdf(id: string, driverId?: string): Promise<{ run: PayrollRun; pdf: Buffer }> {
+  const detail = await getPayrollRunDetail(id);
+  if (!detail) throw new LifecycleError(404, "Folha não encontrada");
+  const statements = detail.statements.filter((s) => !driverId || s.driverId === driverId);
+  if (statements.length === 0) throw new LifecycleError(404, "Demonstrativo não encontrado");
+
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  statements.forEach((s, index) => {
+    if (index > 0) doc.addPage();
+
+    doc.fontSize(18).font("Helvetica-Bold").text("DEMONSTRATIVO DE PAGAMENTO", { align: "center" });
+    doc.moveDown(0.3);
+    doc.fontSize(11).font("Helvetica").text(
+      `${detail.reference} - Período ${formatDay(detail.periodStart)} a ${formatDay(detail.periodEnd)}${detail.status === "aprovado" ? "" : " (RASCUNHO)"}`,
+      { align: "center" },
+    );
+    doc.moveDown(1);
+    doc.text(`Motorista: ${s.driverName ?? s.driverId}${s.driverCpf ? ` (CPF ${s.driverCpf})` : ""}`);
+    doc.text(`Contrato: ${s.contractNumber ?? "sem contrato"}${s.paymentType ? ` - ${paymentTypeLabels[s.paymentType] ?? s.paymentType}` : ""}`);
+    doc.moveDown(1);
+
+    const col1 = 50;
+    const col2 = 380;
+    const col3 = 460;
+    let yPos = doc.y;
+    doc.fontSize(10).font("Helvetica-Bold");
+    doc.text("Descrição", col1, yPos);
+    doc.text("Qtd.", col2, yPos, { width: 70, align: "right" });
+    doc.text("Valor", col3, yPos, { width: 85, align: "right" });
+    doc.moveTo(50, yPos + 15).lineTo(545, yPos + 15).stroke();
+    yPos += 25;
+
+    doc.font("Helvetica");
+    for (const l of s.lines) {
+      if (yPos > 740) {
+        doc.addPage();
+        yPos = 50;
+      }
+      const sign = l.kind === "desconto" ? "-" : "";
+      doc.text(l.description || l.category, col1, yPos, { width: 320 });
+      const rowHeight = Math.max(doc.y - yPos, 14);
+      if (l.quantity !== null) doc.text(formatBrl(l.quantity), col2, yPos, { width: 70, align: "right" });
+      doc.text(`${sign}R$ ${formatBrl(toNumber(l.amount))}`, col3, yPos, { width: 85, align: "right" });
+      yPos += rowHeight + 6;
+    }
+
+    doc.moveTo(50, yPos).lineTo(545, yPos).stroke();
+    yPos += 10;
+    const totals: [string, string][] = [
+      ["Ganhos do contrato", `R$ ${formatBrl(toNumber(s.grossAmount))}`],
+      ["Reembolso de despesas", `R$ ${formatBrl(toNumber(s.creditsAmount))}`],
+      ["Adiantamentos e descontos", `-R$ ${formatBrl(toNumber(s.deductionsAmount))}`],
+      ["LÍQUIDO DO PERÍODO", `R$ ${formatBrl(toNumber(s.netAmount))}`],
+    ];
+    for (const [label, value] of totals) {
+      doc.font(label === "LÍQUIDO DO PERÍODO" ? "Helvetica-Bold" : "Helvetica");
+      doc.text(label, col1, yPos);
+      doc.text(value, col3, yPos, { width: 85, align: "right" });
+      yPos += 16;
+    }
+
+    if (s.warnings.length > 0) {
+      doc.moveDown(1);
+      doc.fontSize(9).font("Helvetica-Oblique").text("Observações:", col1);
+      for (const warning of s.warnings) doc.text(`- ${warning}`, col1, undefined, { width: 495 });
+    }
+  });
+
+  doc.end();
+  return { run: detail, pdf: await finished };
+}
@@ -0,0 +1,57 @@
+import type { Request, Response, NextFunction } from "express";
+import type { UserRole } from "@shared/models/auth";
+import {
+  defaultRolePermissions,
+  type FeatureKey,
+  type PermissionAction,
+} from "@shared/schema";
+import { storage } from "./storage";
+import type { AuthenticatedRequest } from "./auth-jwt";
+
+export async function getRoleActions(role: UserRole, feature: FeatureKey): Promise<PermissionAction[]> {
+  if (role === "admin") {
+    return ["read", "write", "delete", "approve"];
+  }
+
+  const defaults = defaultRolePermissions[role] ?? {};
+  const configured = await storage.getPermissionsByRole(role);
+  const permission = configured.find((p) => p.feature === feature);
+  // Features added after the role was last saved have no row yet and start with the role defaults
+  if (!permission) {
+    return defaults[feature] ?? [];
+  }
+  // Linhas gravadas antes da coluna "actions" liberam o padrão do perfil (ou apenas leitura)
+  return permission.actions ?? defaults[feature] ?? ["read"];
+}
+
+export async function hasPermission(role: UserRole, feature: FeatureKey, action: PermissionAction): Promise<boolean> {
+  const actions = await getRoleActions(role, feature);
+  return actions.includes(action);
+}
+
+// Must run after isAuthenticatedJWT, which populates req.user
+export function requirePermission(feature: FeatureKey, action: PermissionAction = "read") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as AuthenticatedRequest).user;
+    if (!user) {
+      return res.status(401).json({ message: "Não autenticado" });
+    }
+
+    const role = (user.role || "visualizador") as UserRole;
+    hasPermission(role, feature, action)
+      .then((allowed) => {
+        if (!allowed) {
+          return res.status(403).json({
+            message: "Permissão negada",
+            feature,
+            action,
+          });
+        }
+        next();
+      })
+      .catch((error) => {
+        console.error("Error checking permission:", error);
+        res.status(500).json({ message: "Erro ao verificar permissões" });
+      });
+  };
+}
@@ -0,0 +1,256 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { sendMail, isMailConfigured } from "./mailer";
+import { readStoredFile, objectStorageService, uploadsDir } from "./stored-files";
+import type { Transport } from "@shared/schema";
+
+// Electronic proof of delivery (POD): a PDF receipt of the transport check-out with the recipient's
+// signature, stored with the transport's documents and emailed to the delivery location.
+
+export interface ProofOfDeliveryResult {
+  transport: Transport;
+  emailedTo: string[];
+  emailError?: string;
+}
+
+// Object storage when configured, the local uploads folder otherwise (same fallback as photo uploads)
+async function storeFile(name: string, data: Buffer, contentType: string): Promise<string> {
+  try {
+    return await objectStorageService.saveObjectEntity(`pod/${name}`, data, contentType);
+  } catch (error) {
+    console.warn("Object storage unavailable, saving proof of delivery locally:", error);
+    await fs.promises.mkdir(uploadsDir, { recursive: true });
+    await fs.promises.writeFile(path.join(uploadsDir, name), data);
+    return `/uploads/${name}`;
+  }
+}
+
+// The signature pad posts a PNG data URL; it is kept as a file like the check-out photos
+export async function storeRecipientSignature(signature: string): Promise<string> {
+  const dataUrl = /^data:image\/png;base64,(.+)$/.exec(signature);
+  if (!dataUrl) return signature;
+  return storeFile(`assinatura-${randomUUID()}.png`, Buffer.from(dataUrl[1], "base64"), "image/png");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDateTime(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString("pt-BR") : "N/A";
+}
+
+function formatCoordinates(latitude: string | null, longitude: string | null): string {
+  return latitude && longitude ? `${latitude}, ${longitude}` : "N/A";
+}
+
+export async function renderProofOfDelivery(transport: Transport): Promise<Buffer> {
+  if (!transport.checkoutDateTime || !transport.recipientSignature) {
+    throw new LifecycleError(400, "Transporte sem check-out assinado pelo recebedor");
+  }
+
+  const [client, originYard, deliveryLocation, driver, vehicle] = await Promise.all([
+    storage.getClient(transport.clientId),
+    storage.getYard(transport.originYardId),
+    storage.getDeliveryLocation(transport.deliveryLocationId),
+    transport.driverId ? storage.getDriver(transport.driverId) : undefined,
+    storage.getVehicle(transport.vehicleChassi),
+  ]);
+  const manufacturer = vehicle?.manufacturerId ? await storage.getManufacturer(vehicle.manufacturerId) : undefined;
+
+  const photos: { label: string; ref: string | null }[] = [
+    { label: "Frontal", ref: transport.checkoutFrontalPhoto },
+    { label: "Lateral 1", ref: transport.checkoutLateral1Photo },
+    { label: "Lateral 2", ref: transport.checkoutLateral2Photo },
+    { label: "Traseira", ref: transport.checkoutTraseiraPhoto },
+    { label: "Hodômetro", ref: transport.checkoutOdometerPhoto },
+    { label: "Combustível", ref: transport.checkoutFuelLevelPhoto },
+    ...(transport.checkoutDamagePhotos ?? []).map((ref, index) => ({ label: `Avaria ${index + 1}`, ref })),
+  ];
+  const [signature, ...photoBuffers] = await Promise.all([
+    readStoredFile(transport.recipientSignature),
+    ...photos.map((photo) => (photo.ref ? readStoredFile(photo.ref) : Promise.resolve(null))),
+  ]);
+
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // Header
+  doc.fontSize(20).font("Helvetica-Bold").text("COMPROVANTE DE ENTREGA", { align: "center" });
+  doc.moveDown(0.5);
+  doc.fontSize(12).font("Helvetica").text("OTD Entregas - Sistema de Gestão de Entregas de Veículos", { align: "center" });
+  doc.moveDown(1);
+  doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+  doc.moveDown(1);
+
+  doc.fontSize(14).font("Helvetica-Bold").text("DADOS DO TRANSPORTE");
+  doc.moveDown(0.5);
+  doc.fontSize(11).font("Helvetica");
+  doc.text(`Número da Solicitação: ${transport.requestNumber}`);
+  doc.text(`Veículo (Chassi): ${transport.vehicleChassi}`);
+  if (manufacturer || vehicle?.color) {
+    doc.text(`Montadora / Cor: ${[manufacturer?.name, vehicle?.color].filter(Boolean).join(" / ")}`);
+  }
+  doc.text(`Cliente: ${client?.name || "N/A"}`);
+  doc.text(`Origem: ${originYard?.name || "N/A"}`);
+  doc.text(`Destino: ${deliveryLocation?.name || "N/A"}`);
+  if (deliveryLocation) {
+    doc.text(`Endereço: ${[deliveryLocation.address, deliveryLocation.addressNumber].filter(Boolean).join(", ")} - ${deliveryLocation.city}/${deliveryLocation.state || ""}`);
+  }
+  doc.text(`Motorista: ${driver?.name || "N/A"}${driver?.cpf ? ` (CPF ${driver.cpf})` : ""}`);
+  doc.moveDown(1);
+
+  doc.fontSize(14).font("Helvetica-Bold").text("REGISTROS");
+  doc.moveDown(0.5);
+  doc.fontSize(11).font("Helvetica");
+  doc.text(`Check-in no pátio: ${formatDateTime(transport.checkinDateTime)} - Coordenadas: ${formatCoordinates(transport.checkinLatitude, transport.checkinLongitude)}`);
+  doc.text(`Saída para entrega: ${formatDateTime(transport.transitStartedAt)}`);
+  doc.text(`Entrega (check-out): ${formatDateTime(transport.checkoutDateTime)} - Coordenadas: ${formatCoordinates(transport.checkoutLatitude, transport.checkoutLongitude)}`);
+  if (transport.checkoutNotes) {
+    doc.text(`Observações: ${transport.checkoutNotes}`);
+  }
+  doc.moveDown(1);
+
+  // Photos in a 3-column grid; unreadable or unsupported images are listed as missing
+  const available = photos
+    .map((photo, index) => ({ ...photo, data: photoBuffers[index] }))
+    .filter((photo) => photo.ref);
+  if (available.length > 0) {
+    doc.fontSize(14).font("Helvetica-Bold").text("FOTOS DA ENTREGA");
+    doc.moveDown(0.5);
+    const cellWidth = 160;
+    const cellHeight = 120;
+    let column = 0;
+    let top = doc.y;
+    for (const photo of available) {
+      if (column === 0 && top + cellHeight + 20 > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        top = doc.y;
+      }
+      const left = 50 + column * (cellWidth + 7);
+      let drawn = false;
+      if (photo.data) {
+        try {
+          doc.image(photo.data, left, top, { fit: [cellWidth, cellHeight], align: "center", valign: "center" });
+          drawn = true;
+        } catch {
+          // Formats PDFKit cannot embed (e.g. WebP/HEIC)
+        }
+      }
+      if (!drawn) {
+        doc.rect(left, top, cellWidth, cellHeight).stroke();
+        doc.fontSize(9).font("Helvetica").text("Imagem indisponível", left, top + cellHeight / 2 - 5, { width: cellWidth, align: "center" });
+      }
+      doc.fontSize(9).font("Helvetica").text(photo.label, left, top + cellHeight + 3, { width: cellWidth, align: "center" });
+      column = (column + 1) % 3;
+      if (column === 0) top += cellHeight + 20;
+    }
+    doc.x = 50;
+    doc.y = column === 0 ? top : top + cellHeight + 20;
+    doc.moveDown(1);
+  }
+
+  if (doc.y + 200 > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+
+  doc.fontSize(14).font("Helvetica-Bold").text("ACEITE DO RECEBEDOR");
+  doc.moveDown(0.5);
+  doc.fontSize(11).font("Helvetica");
+  doc.text(`Declaro que recebi o veículo acima nas condições registradas neste comprovante.`);
+  doc.text(`Nome: ${transport.recipientName || "N/A"}`);
+  doc.text(`Documento: ${transport.recipientDocument || "N/A"}`);
+  doc.text(`Data/Hora: ${formatDateTime(transport.checkoutDateTime)}`);
+  doc.moveDown(1);
+
+  const signatureTop = doc.y;
+  if (signature) {
+    try {
+      doc.image(signature, 150, signatureTop, { fit: [300, 90], align: "center", valign: "bottom" });
+    } catch {
+      doc.fontSize(9).text("Assinatura indisponível", 150, signatureTop + 40, { width: 300, align: "center" });
+    }
+  }
+  doc.moveTo(150, signatureTop + 95).lineTo(450, signatureTop + 95).stroke();
+  doc.x = 50;
+  doc.y = signatureTop + 100;
+  doc.fontSize(10).font("Helvetica").text(transport.recipientName || "Recebedor", { align: "center" });
+
+  doc.moveDown(2);
+  doc.fontSize(8).fillColor("gray").text(`Documento gerado em: ${new Date().toLocaleString("pt-BR")}`, { align: "center" });
+  doc.text("OTD Entregas - Sistema de Gestão de Entregas de Veículos", { align: "center" });
+
+  doc.end();
+  return finished;
+}
+
+// Generates the receipt, replaces any previous one in the transport's documents and emails it to the
+// delivery location. The stored PDF is kept even when the email cannot be sent.
+export async function issueProofOfDelivery(transportId: string): Promise<ProofOfDeliveryResult> {
+  const transport = await storage.getTransport(transportId);
+  if (!transport) {
+    throw new LifecycleError(404, "Transporte não encontrado");
+  }
+
+  const pdf = await renderProofOfDelivery(transport);
+  const fileName = `comprovante-entrega-${transport.requestNumber}-${randomUUID()}.pdf`;
+  const podDocumentUrl = await storeFile(fileName, pdf, "application/pdf");
+
+  const documents = (transport.documents ?? []).filter((doc) => doc !== transport.podDocumentUrl);
+  let updated = (await storage.updateTransport(transport.id, {
+    documents: [...documents, podDocumentUrl],
+    podDocumentUrl,
+  }))!;
+
+  const deliveryLocation = await storage.getDeliveryLocation(transport.deliveryLocationId);
+  const recipients = (deliveryLocation?.emails ?? []).map((email) => email.trim()).filter(Boolean);
+  if (recipients.length === 0) {
+    return { transport: updated, emailedTo: [] };
+  }
+  if (!isMailConfigured()) {
+    return { transport: updated, emailedTo: [], emailError: "Configuração SMTP não encontrada" };
+  }
+
+  try {
+    await sendMail({
+      to: recipients.join(", "),
+      subject: `Comprovante de entrega ${transport.requestNumber} - Chassi ${transport.vehicleChassi}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto;">
+          <div style="background-color: #f97316; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0;">OTD Entregas</h1>
+            <p style="margin: 5px 0 0;">Comprovante de Entrega</p>
+          </div>
+          <div style="padding: 20px; border: 1px solid #e5e7eb;">
+            <p>Olá${deliveryLocation?.responsibleName ? ` <strong>${escapeHtml(deliveryLocation.responsibleName)}</strong>` : ""},</p>
+            <p>O veículo de chassi <strong>${escapeHtml(transport.vehicleChassi)}</strong> (solicitação ${escapeHtml(transport.requestNumber)}) foi entregue em ${formatDateTime(transport.checkoutDateTime)} e recebido por <strong>${escapeHtml(transport.recipientName ?? "")}</strong>.</p>
+            <p>O comprovante assinado segue em anexo.</p>
+            <hr style="border: 1px solid #e5e7eb; margin: 20px 0;" />
+            <p style="color: #6b7280; font-size: 12px;">Este email foi enviado automaticamente pelo sistema OTD Entregas.</p>
+          </div>
+        </div>
+      `,
+      attachments: [{ filename: `comprovante-entrega-${transport.requestNumber}.pdf`, content: pdf, contentType: "application/pdf" }],
+    });
+  } catch (error: any) {
+    console.error("Error emailing proof of delivery:", error);
+    return { transport: updated, emailedTo: [], emailError: error.message || "Falha no envio" };
+  }
+
+  updated = (await storage.updateTransport(transport.id, { podEmailedAt: new Date() }))!;
+  return { transport: updated, emailedTo: recipients };
+}
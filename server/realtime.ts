@@ -0,0 +1,142 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import { verifyAccessToken } from "./auth-jwt";
+import { hasPermission } from "./permissions";
+import { users, type UserRole } from "@shared/models/auth";
+import {
+  REALTIME_PATH,
+  REALTIME_SESSION_CLOSE_CODE,
+  realtimeEventFeatures,
+  type RealtimeEvent,
+  type RealtimeMessage,
+} from "@shared/realtime";
+
+// Connections that miss a ping round-trip are dropped; each round also re-checks the sessions
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string;
+  role: UserRole;
+  expiresAt: number;   // access token expiry, epoch ms
+  alive: boolean;
+}
+
+const clients = new Set<RealtimeClient>();
+
+// Browsers cannot set headers on a WebSocket, so the access token comes in the query string
+async function authenticateUpgrade(req: IncomingMessage): Promise<{ userId: string; role: UserRole; expiresAt: number } | null> {
+  const url = new URL(req.url ?? "", "http://localhost");
+  const token = url.searchParams.get("token");
+  const payload = token ? verifyAccessToken(token) : null;
+  if (!payload) return null;
+
+  const [user] = await db.select().from(users).where(eq(users.id, payload.userId)).limit(1);
+  if (!user || user.isActive !== "true") return null;
+  const { exp } = payload as { exp?: number };
+  return {
+    userId: user.id,
+    role: (user.role || "visualizador") as UserRole,
+    expiresAt: exp ? exp * 1000 : Date.now(),
+  };
+}
+
+function closeSession(client: RealtimeClient, reason: string) {
+  clients.delete(client);
+  client.socket.close(REALTIME_SESSION_CLOSE_CODE, reason);
+}
+
+// The role was read from the handshake token, which expires while the socket stays open, and the user
+// may since have been deactivated or given another role: those sockets are closed and reconnect afresh
+async function revalidateClients(): Promise<void> {
+  const now = Date.now();
+  for (const client of Array.from(clients)) {
+    if (client.expiresAt <= now) closeSession(client, "Token expirado");
+  }
+  if (clients.size === 0) return;
+
+  const userIds = Array.from(new Set(Array.from(clients).map((client) => client.userId)));
+  const rows = await db.select({ id: users.id, role: users.role, isActive: users.isActive })
+    .from(users)
+    .where(inArray(users.id, userIds));
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  for (const client of Array.from(clients)) {
+    const user = byId.get(client.userId);
+    if (!user || user.isActive !== "true" || (user.role || "visualizador") !== client.role) {
+      closeSession(client, "Sessão alterada");
+    }
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export function attachRealtimeServer(httpServer: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Other upgrade requests (the Vite HMR socket in development) are left to their own listeners
+  httpServer.on("upgrade", (req, socket, head) => {
+    const pathname = new URL(req.url ?? "", "http://localhost").pathname;
+    if (pathname !== REALTIME_PATH) return;
+
+    authenticateUpgrade(req)
+      .then((identity) => {
+        if (!identity) return rejectUpgrade(socket, 401, "Unauthorized");
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          const client: RealtimeClient = { socket: ws, ...identity, alive: true };
+          clients.add(client);
+          ws.on("pong", () => { client.alive = true; });
+          ws.on("close", () => clients.delete(client));
+          ws.on("error", () => clients.delete(client));
+        });
+      })
+      .catch((error) => {
+        console.error("Error authenticating realtime connection:", error);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+    revalidateClients().catch((error) => console.error("Error revalidating realtime connections:", error));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+}
+
+async function broadcast(event: RealtimeEvent): Promise<void> {
+  if (clients.size === 0) return;
+
+  const feature = realtimeEventFeatures[event.type];
+  const allowedByRole = new Map<UserRole, boolean>();
+  const message: RealtimeMessage = { event, at: new Date().toISOString() };
+  const payload = JSON.stringify(message);
+
+  for (const client of Array.from(clients)) {
+    if (client.socket.readyState !== WebSocket.OPEN) continue;
+    let allowed = allowedByRole.get(client.role);
+    if (allowed === undefined) {
+      allowed = await hasPermission(client.role, feature, "read");
+      allowedByRole.set(client.role, allowed);
+    }
+    if (allowed) client.socket.send(payload);
+  }
+}
+
+// Call only after the change has committed. Fire-and-forget: a push failure never fails the request.
+export function publishEvent(event: RealtimeEvent): void {
+  broadcast(event).catch((error) => console.error("Error publishing realtime event:", error));
+}
@@ -0,0 +1,195 @@
+import { createHash } from "crypto";
+import { storage, type IStorage } from "../storage";
+import { readStoredFile } from "../stored-files";
+import { batchProcess, isRateLimitError } from "../replit_integrations/batch";
+import { openAiReceiptOcrProvider, isOpenAiConfigured } from "./openai";
+import { createStubReceiptOcrProvider } from "./stub";
+import type { ReceiptFields, ReceiptImageMimeType, ReceiptOcrProvider } from "./types";
+import type {
+  ExpenseReceiptExtraction,
+  ExpenseSettlementItem,
+  InsertExpenseSettlementItem,
+  ReceiptMismatch,
+} from "@shared/schema";
+
+export type { ReceiptFields, ReceiptOcrProvider } from "./types";
+export { createStubReceiptOcrProvider } from "./stub";
+
+// Receipt photos are read in the background: every new or replaced photo queues an extraction, the
+// worker sends the image to the OCR provider and stores what it proposes next to what the driver
+// typed. Nothing is changed on the item until someone applies the proposal.
+
+const RECEIPT_OCR_INTERVAL_MS = 30_000;
+const RECEIPT_OCR_BATCH_SIZE = 10;
+const AMOUNT_TOLERANCE = 0.01;
+
+type ProposedFields = Pick<ExpenseReceiptExtraction, "proposedType" | "proposedAmount" | "proposedCurrency" | "proposedDate">;
+
+export interface ReceiptDuplicate {
+  itemId: string;
+  settlementId: string;
+  type: ExpenseSettlementItem["type"];
+  amount: string;
+  currency: string;
+}
+
+export interface ReceiptExtractionView extends ExpenseReceiptExtraction {
+  duplicates: ReceiptDuplicate[];
+}
+
+// RECEIPT_OCR_PROVIDER=stub forces the offline provider; otherwise OpenAI when the integration is configured
+export function getReceiptOcrProvider(): ReceiptOcrProvider {
+  if (process.env.RECEIPT_OCR_PROVIDER !== "stub" && isOpenAiConfigured()) {
+    return openAiReceiptOcrProvider;
+  }
+  return createStubReceiptOcrProvider();
+}
+
+function detectMimeType(image: Buffer): ReceiptImageMimeType | null {
+  if (image[0] === 0xff && image[1] === 0xd8) return "image/jpeg";
+  if (image.subarray(0, 4).toString("hex") === "89504e47") return "image/png";
+  if (image.subarray(0, 4).toString("ascii") === "RIFF" && image.subarray(8, 12).toString("ascii") === "WEBP") return "image/webp";
+  if (image.subarray(0, 3).toString("ascii") === "GIF") return "image/gif";
+  return null;
+}
+
+export function compareWithTyped(item: ExpenseSettlementItem, proposed: ProposedFields): ReceiptMismatch[] {
+  const mismatches: ReceiptMismatch[] = [];
+  if (proposed.proposedType && proposed.proposedType !== item.type) {
+    mismatches.push({ field: "type", typed: item.type, extracted: proposed.proposedType });
+  }
+  if (proposed.proposedAmount && Math.abs(parseFloat(proposed.proposedAmount) - parseFloat(item.amount || "0")) > AMOUNT_TOLERANCE) {
+    mismatches.push({ field: "amount", typed: item.amount, extracted: proposed.proposedAmount });
+  }
+  if (proposed.proposedCurrency && proposed.proposedCurrency !== item.currency) {
+    mismatches.push({ field: "currency", typed: item.currency, extracted: proposed.proposedCurrency });
+  }
+  // The date only matters for foreign receipts, where it picks the exchange rate
+  if (proposed.proposedDate && item.currency !== "BRL" && proposed.proposedDate !== item.expenseDate) {
+    mismatches.push({ field: "expenseDate", typed: item.expenseDate, extracted: proposed.proposedDate });
+  }
+  return mismatches;
+}
+
+// Item changes that take over the values read from the receipt
+export function receiptProposalUpdate(extraction: ExpenseReceiptExtraction): Partial<InsertExpenseSettlementItem> {
+  const update: Partial<InsertExpenseSettlementItem> = {};
+  if (extraction.proposedType) update.type = extraction.proposedType;
+  if (extraction.proposedAmount) update.amount = extraction.proposedAmount;
+  if (extraction.proposedCurrency) update.currency = extraction.proposedCurrency;
+  if (extraction.proposedDate) update.expenseDate = extraction.proposedDate;
+  return update;
+}
+
+// Re-checks the typed values after an item is edited; the receipt itself is not read again
+export async function refreshReceiptMismatches(tx: IStorage, itemId: string): Promise<void> {
+  const [item, extraction] = await Promise.all([tx.getExpenseSettlementItem(itemId), tx.getReceiptExtraction(itemId)]);
+  if (!item || !extraction || extraction.status !== "concluido") return;
+  const mismatches = compareWithTyped(item, extraction);
+  if (JSON.stringify(mismatches) !== JSON.stringify(extraction.mismatches)) {
+    await tx.updateReceiptExtraction(extraction.id, { mismatches });
+  }
+}
+
+async function processExtraction(extraction: ExpenseReceiptExtraction, provider: ReceiptOcrProvider): Promise<void> {
+  const item = await storage.getExpenseSettlementItem(extraction.itemId);
+  if (!item) return;
+
+  const image = await readStoredFile(item.photoUrl);
+  if (!image) {
+    await storage.updateReceiptExtraction(extraction.id, { status: "erro", error: "Imagem do comprovante não encontrada" });
+    return;
+  }
+
+  const imageHash = createHash("sha256").update(image).digest("hex");
+  const mimeType = detectMimeType(image);
+  let fields: ReceiptFields | null = null;
+  let error: string | null = null;
+  if (mimeType) {
+    try {
+      fields = await provider.extract(image, mimeType);
+    } catch (err) {
+      // Rate limits go back to the batch runner to be retried
+      if (isRateLimitError(err)) throw err;
+      console.error(`Receipt OCR failed for item ${item.id}:`, err);
+      error = err instanceof Error ? err.message : String(err);
+    }
+  } else {
+    error = "Formato de arquivo não suportado pelo OCR";
+  }
+
+  const proposed: ProposedFields = {
+    proposedType: fields?.type ?? null,
+    proposedAmount: fields?.amount ?? null,
+    proposedCurrency: fields?.currency ?? null,
+    proposedDate: fields?.date ?? null,
+  };
+  const issuerCnpj = fields?.issuerCnpj ?? null;
+
+  await storage.transaction(async (tx) => {
+    // The photo may have been replaced (and the extraction re-queued) while the provider was busy
+    const current = await tx.getReceiptExtraction(item.id);
+    if (!current || current.status !== "processando") return;
+
+    const duplicates = await tx.findDuplicateReceipts(item.id, { imageHash, issuerCnpj, ...proposed });
+    await tx.updateReceiptExtraction(current.id, {
+      ...proposed,
+      status: error ? "erro" : "concluido",
+      provider: provider.name,
+      imageHash,
+      issuerCnpj,
+      photoQuality: fields?.photoQuality ?? null,
+      mismatches: compareWithTyped(item, proposed),
+      duplicateItemIds: duplicates.map((d) => d.itemId),
+      error,
+      processedAt: new Date(),
+    });
+    // Duplicates are flagged on both receipts
+    for (const duplicate of duplicates) {
+      if (!duplicate.duplicateItemIds.includes(item.id)) {
+        await tx.updateReceiptExtraction(duplicate.id, { duplicateItemIds: [...duplicate.duplicateItemIds, item.id] });
+      }
+    }
+  });
+}
+
+let queueRunning = false;
+
+// Drains the queue in batches; concurrent calls return immediately while a run is in progress
+export async function runReceiptExtractionQueue(provider: ReceiptOcrProvider = getReceiptOcrProvider()): Promise<number> {
+  if (queueRunning) return 0;
+  queueRunning = true;
+  try {
+    let processed = 0;
+    for (;;) {
+      const batch = await storage.claimReceiptExtractions(RECEIPT_OCR_BATCH_SIZE);
+      if (batch.length === 0) break;
+      await batchProcess(batch, (extraction) => processExtraction(extraction, provider), { concurrency: 2, retries: 5 });
+      processed += batch.length;
+    }
+    return processed;
+  } finally {
+    queueRunning = false;
+  }
+}
+
+// Fire-and-forget trigger for routes that just queued receipts
+export function kickReceiptExtractionQueue(): void {
+  runReceiptExtractionQueue().catch((error) => console.error("Error processing receipt OCR queue:", error));
+}
+
+export function startReceiptOcrWorker(): NodeJS.Timeout {
+  return setInterval(kickReceiptExtractionQueue, RECEIPT_OCR_INTERVAL_MS);
+}
+
+// Extractions of a settlement with the other items their receipt duplicates (deleted items are dropped)
+export async function getSettlementReceiptExtractions(settlementId: string): Promise<ReceiptExtractionView[]> {
+  const extractions = await storage.getReceiptExtractionsBySettlement(settlementId);
+  return Promise.all(extractions.map(async (extraction) => {
+    const items = await Promise.all(extraction.duplicateItemIds.map((id) => storage.getExpenseSettlementItem(id)));
+    const duplicates = items
+      .filter((i): i is ExpenseSettlementItem => !!i)
+      .map((i) => ({ itemId: i.id, settlementId: i.settlementId, type: i.type, amount: i.amount, currency: i.currency }));
+    return { ...extraction, duplicates };
+  }));
+}
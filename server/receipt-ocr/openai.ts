@@ -0,0 +1,71 @@
+import OpenAI from "openai";
+import { expenseCurrencies, expenseTypeEnum, receiptPhotoQualities } from "@shared/schema";
+import type { ReceiptFields, ReceiptImageMimeType, ReceiptOcrProvider } from "./types";
+
+const openai = new OpenAI({
+  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+});
+
+export function isOpenAiConfigured(): boolean {
+  return !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+}
+
+const SYSTEM_PROMPT = `Você lê comprovantes de despesas de viagem de motoristas (cupons fiscais, notas, recibos de pedágio e
+tickets de estacionamento do Brasil e de países vizinhos).
+Responda SOMENTE com JSON no formato:
+{ "type": string|null, "amount": number|null, "currency": string|null, "date": "YYYY-MM-DD"|null, "issuerCnpj": string|null, "photoQuality": string|null }
+- type: uma de ${expenseTypeEnum.enumValues.join(", ")}
+- amount: valor total pago, com ponto decimal
+- currency: uma de ${expenseCurrencies.join(", ")}
+- date: data de emissão do comprovante
+- issuerCnpj: CNPJ do emitente (14 dígitos, só números); null para emitentes estrangeiros
+- photoQuality: "ok", "borrada" (legível com dificuldade) ou "ilegivel"
+Use null para qualquer campo que não consiga ler com segurança. Não invente valores.`;
+
+function pick<T extends string>(value: unknown, allowed: readonly T[]): T | null {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+// The model's answer is untrusted: keep only well-formed values
+function sanitize(raw: Record<string, unknown>): ReceiptFields {
+  const amount = typeof raw.amount === "number" ? raw.amount : parseFloat(String(raw.amount ?? ""));
+  const cnpj = String(raw.issuerCnpj ?? "").replace(/\D/g, "");
+  const date = typeof raw.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw.date) ? raw.date : null;
+  return {
+    type: pick(raw.type, expenseTypeEnum.enumValues),
+    amount: Number.isFinite(amount) && amount > 0 ? amount.toFixed(2) : null,
+    currency: pick(typeof raw.currency === "string" ? raw.currency.toUpperCase() : raw.currency, expenseCurrencies),
+    date,
+    issuerCnpj: cnpj.length === 14 ? cnpj : null,
+    photoQuality: pick(raw.photoQuality, receiptPhotoQualities),
+  };
+}
+
+export const openAiReceiptOcrProvider: ReceiptOcrProvider = {
+  name: "openai",
+  async extract(image: Buffer, mimeType: ReceiptImageMimeType): Promise<ReceiptFields> {
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4.1",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Extraia os dados deste comprovante." },
+            { type: "image_url", image_url: { url: `data:${mimeType};base64,${image.toString("base64")}` } },
+          ],
+        },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+    });
+
+    const content = completion.choices[0]?.message?.content || "{}";
+    try {
+      return sanitize(JSON.parse(content));
+    } catch {
+      throw new Error("Resposta inválida do OCR");
+    }
+  },
+};
@@ -0,0 +1,21 @@
+import type { ReceiptFields, ReceiptOcrProvider } from "./types";
+
+const emptyFields: ReceiptFields = {
+  type: null,
+  amount: null,
+  currency: null,
+  date: null,
+  issuerCnpj: null,
+  photoQuality: null,
+};
+
+// Offline provider for tests and environments without the AI integration: returns fixed fields
+// (nothing read by default), so only the image-hash duplicate check produces results
+export function createStubReceiptOcrProvider(fields: Partial<ReceiptFields> = {}): ReceiptOcrProvider {
+  return {
+    name: "stub",
+    async extract() {
+      return { ...emptyFields, ...fields };
+    },
+  };
+}
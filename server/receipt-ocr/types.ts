@@ -0,0 +1,18 @@
+import type { ExpenseCurrency, ExpenseType, ReceiptPhotoQuality } from "@shared/schema";
+
+export type ReceiptImageMimeType = "image/jpeg" | "image/png" | "image/webp" | "image/gif";
+
+// What a provider managed to read from a receipt; anything it could not read stays null
+export interface ReceiptFields {
+  type: ExpenseType | null;
+  amount: string | null;
+  currency: ExpenseCurrency | null;
+  date: string | null;         // YYYY-MM-DD
+  issuerCnpj: string | null;   // digits only
+  photoQuality: ReceiptPhotoQuality | null;
+}
+
+export interface ReceiptOcrProvider {
+  name: string;
+  extract(image: Buffer, mimeType: ReceiptImageMimeType): Promise<ReceiptFields>;
+}
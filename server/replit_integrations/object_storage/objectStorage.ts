@@ -181,6 +181,17 @@ export class ObjectStorageService {
     return objectFile;
   }
 
+  // Writes a server-generated file to the private object directory and returns its object path.
+  async saveObjectEntity(entityId: string, data: Buffer, contentType: string): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    await objectStorageClient.bucket(bucketName).file(objectName).save(data, { contentType });
+    return `/objects/${entityId}`;
+  }
+
   normalizeObjectEntityPath(
     rawPath: string,
   ): string {
@@ -0,0 +1,336 @@
+import { storage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { parseCoordinate } from "./dispatch";
+import { getRoutingProvider, TOLL_PER_KM, type MatrixCell, type RoutingProvider } from "./routing";
+import type { RouteSequenceRequest, RouteSequenceStop } from "@shared/schema";
+
+// Multi-stop route sequencing: given an origin and a set of stops, finds a good visiting order over a
+// driving distance/time matrix. The tour is built nearest-first and deadline-first, then improved by moving
+// single stops and reversing segments (2-opt) while the total time plus a penalty for late arrivals drops.
+// Time on the road follows the driver's daily limit, so multi-day routes get realistic arrival times.
+
+// Lei 13.103: at most 10 h at the wheel (8 h + 2 h extra) a day; the rest of the day is off
+const MAX_DAILY_DRIVING_SECONDS = 10 * 3600;
+const DAILY_REST_SECONDS = 14 * 3600;
+const UNLOADING_SECONDS = 45 * 60;
+// A second late weighs as much as this many seconds on the road, so deadlines win over distance
+const LATE_PENALTY = 10;
+
+interface Point {
+  lat: number;
+  lng: number;
+}
+
+interface Visit extends Point {
+  key: string;
+  label: string;
+  deliveryLocationId: string | null;
+  transportIds: string[];
+  deliveryDate: string | null;
+  earliestArrival: Date | null;
+  latestArrival: Date | null;
+}
+
+export interface SequencedStop {
+  key: string;
+  label: string;
+  deliveryLocationId: string | null;
+  transportIds: string[];
+  deliveryDate: string | null;
+  earliestArrival: Date | null;
+  latestArrival: Date | null;
+  arrival: Date;
+  late: boolean;
+}
+
+export interface SequencedLeg {
+  from: string;
+  to: string;
+  distanceKm: number;
+  durationMinutes: number;   // driving only
+  estimatedToll: number;
+}
+
+export interface RouteSequence {
+  stops: SequencedStop[];
+  legs: SequencedLeg[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  estimatedTolls: number;
+  departureAt: Date;
+  finishAt: Date;
+  lateStops: number;
+  routingProvider: string;   // e.g. "google", "osrm+haversine" when some pairs were estimated
+  tollsEstimated: boolean;
+}
+
+interface Clock {
+  time: number;           // epoch ms
+  drivenToday: number;    // seconds
+}
+
+interface Evaluation {
+  cost: number;
+  arrivals: number[];
+  late: boolean[];
+  finish: number;
+}
+
+// ---------- Distance matrix and tolls ----------
+
+// Toll per leg for the chosen order; legs the provider has no toll data for (or all of them, when the
+// route can't be fetched) are left null for the per-km estimate
+async function legTolls(provider: RoutingProvider, points: Point[]): Promise<(number | null)[]> {
+  try {
+    const route = await provider.route(points);
+    if (route.legs.length === points.length - 1) return route.legs.map((leg) => leg.toll?.amount ?? null);
+  } catch (error) {
+    console.error("Could not fetch tolls for the sequenced route:", error);
+  }
+  return points.slice(1).map(() => null);
+}
+
+// ---------- Schedule and cost ----------
+
+function drive(clock: Clock, seconds: number): void {
+  let remaining = seconds;
+  while (remaining > 0) {
+    if (clock.drivenToday >= MAX_DAILY_DRIVING_SECONDS) {
+      clock.time += DAILY_REST_SECONDS * 1000;
+      clock.drivenToday = 0;
+    }
+    const chunk = Math.min(remaining, MAX_DAILY_DRIVING_SECONDS - clock.drivenToday);
+    clock.time += chunk * 1000;
+    clock.drivenToday += chunk;
+    remaining -= chunk;
+  }
+}
+
+// The delivery date counts until the end of that day
+function deadlineOf(visit: Visit): number | null {
+  const dates = [
+    visit.latestArrival?.getTime() ?? null,
+    visit.deliveryDate ? new Date(`${visit.deliveryDate}T23:59:59`).getTime() : null,
+  ].filter((d): d is number => d !== null);
+  return dates.length > 0 ? Math.min(...dates) : null;
+}
+
+function createEvaluator(visits: Visit[], matrix: MatrixCell[][], departureAt: Date, endIndex: number | null, returnToOrigin: boolean) {
+  const deadlines = visits.map(deadlineOf);
+
+  // `order` holds visit indexes; matrix index 0 is the origin and visit i is matrix index i + 1
+  return (order: number[]): Evaluation => {
+    const clock: Clock = { time: departureAt.getTime(), drivenToday: 0 };
+    const arrivals: number[] = [];
+    const late: boolean[] = [];
+    let lateSeconds = 0;
+    let previous = 0;
+
+    for (const visitIndex of order) {
+      const visit = visits[visitIndex];
+      drive(clock, matrix[previous][visitIndex + 1].seconds);
+      arrivals.push(clock.time);
+      const deadline = deadlines[visitIndex];
+      const lateBy = deadline !== null ? Math.max(0, clock.time - deadline) / 1000 : 0;
+      late.push(lateBy > 0);
+      lateSeconds += lateBy;
+
+      if (visit.earliestArrival && clock.time < visit.earliestArrival.getTime()) {
+        const wait = visit.earliestArrival.getTime() - clock.time;
+        clock.time += wait;
+        if (wait >= DAILY_REST_SECONDS * 1000) clock.drivenToday = 0;
+      }
+      clock.time += UNLOADING_SECONDS * 1000;
+      previous = visitIndex + 1;
+    }
+    if (endIndex !== null) {
+      drive(clock, matrix[previous][endIndex].seconds);
+      previous = endIndex;
+    }
+    if (returnToOrigin) drive(clock, matrix[previous][0].seconds);
+
+    const elapsed = (clock.time - departureAt.getTime()) / 1000;
+    return { cost: elapsed + LATE_PENALTY * lateSeconds, arrivals, late, finish: clock.time };
+  };
+}
+
+// ---------- Heuristics ----------
+
+function nearestFirst(count: number, matrix: MatrixCell[][]): number[] {
+  const left = new Set(Array.from({ length: count }, (_, i) => i));
+  const order: number[] = [];
+  let current = 0;
+  while (left.size > 0) {
+    let next = -1;
+    left.forEach((i) => {
+      if (next < 0 || matrix[current][i + 1].seconds < matrix[current][next + 1].seconds) next = i;
+    });
+    order.push(next);
+    left.delete(next);
+    current = next + 1;
+  }
+  return order;
+}
+
+function deadlineFirst(visits: Visit[], matrix: MatrixCell[][]): number[] {
+  return visits
+    .map((visit, i) => ({ i, deadline: deadlineOf(visit) ?? Infinity }))
+    .sort((a, b) => a.deadline - b.deadline || matrix[0][a.i + 1].seconds - matrix[0][b.i + 1].seconds)
+    .map(({ i }) => i);
+}
+
+// Relocates single stops and reverses segments until no move lowers the cost
+function improve(order: number[], evaluate: (order: number[]) => Evaluation): number[] {
+  let best = order;
+  let bestCost = evaluate(best).cost;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length; i++) {
+      for (let j = 0; j < best.length; j++) {
+        if (i === j) continue;
+        const moved = [...best];
+        const [stop] = moved.splice(i, 1);
+        moved.splice(j, 0, stop);
+        const cost = evaluate(moved).cost;
+        if (cost < bestCost - 1e-6) {
+          best = moved;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const reversed = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const cost = evaluate(reversed).cost;
+        if (cost < bestCost - 1e-6) {
+          best = reversed;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// ---------- Request resolution ----------
+
+async function resolveOrigin(request: RouteSequenceRequest): Promise<Point & { label: string }> {
+  if (request.originYardId) {
+    const yard = await storage.getYard(request.originYardId);
+    if (!yard) throw new LifecycleError(404, "Pátio não encontrado");
+    const lat = parseCoordinate(yard.latitude);
+    const lng = parseCoordinate(yard.longitude);
+    if (lat === null || lng === null) throw new LifecycleError(400, `Pátio ${yard.name} sem coordenadas cadastradas`);
+    return { lat, lng, label: yard.name };
+  }
+  return { ...request.origin!, label: "Origem" };
+}
+
+// Stops at the same place merge into one visit that keeps the tightest window and earliest delivery date
+async function resolveVisits(stops: RouteSequenceStop[]): Promise<Visit[]> {
+  const visits = new Map<string, Visit>();
+  for (const stop of stops) {
+    let point: Point & { label: string };
+    if (stop.deliveryLocationId) {
+      const location = await storage.getDeliveryLocation(stop.deliveryLocationId);
+      if (!location) throw new LifecycleError(400, "Local de entrega não encontrado");
+      const lat = parseCoordinate(location.latitude);
+      const lng = parseCoordinate(location.longitude);
+      if (lat === null || lng === null) throw new LifecycleError(400, `Local de entrega ${location.name} sem coordenadas`);
+      point = { lat, lng, label: stop.label || `${location.name} · ${location.city}${location.state ? `/${location.state}` : ""}` };
+    } else {
+      point = { lat: stop.lat!, lng: stop.lng!, label: stop.label || `${stop.lat}, ${stop.lng}` };
+    }
+
+    const key = stop.deliveryLocationId ?? stop.key ?? `${point.lat},${point.lng}`;
+    const visit = visits.get(key) ?? {
+      ...point,
+      key,
+      deliveryLocationId: stop.deliveryLocationId ?? null,
+      transportIds: [],
+      deliveryDate: null,
+      earliestArrival: null,
+      latestArrival: null,
+    };
+    if (stop.transportId && !visit.transportIds.includes(stop.transportId)) visit.transportIds.push(stop.transportId);
+    if (stop.deliveryDate && (!visit.deliveryDate || stop.deliveryDate < visit.deliveryDate)) visit.deliveryDate = stop.deliveryDate;
+    if (stop.earliestArrival && (!visit.earliestArrival || stop.earliestArrival > visit.earliestArrival)) visit.earliestArrival = stop.earliestArrival;
+    if (stop.latestArrival && (!visit.latestArrival || stop.latestArrival < visit.latestArrival)) visit.latestArrival = stop.latestArrival;
+    visits.set(key, visit);
+  }
+  return Array.from(visits.values());
+}
+
+export async function sequenceRoute(request: RouteSequenceRequest): Promise<RouteSequence> {
+  const origin = await resolveOrigin(request);
+  const visits = await resolveVisits(request.stops);
+  const destination = request.destination ? { ...request.destination, label: request.destination.label || "Destino" } : null;
+  const returnToOrigin = !!request.returnToOrigin;
+  const departureAt = request.departureAt ?? new Date();
+
+  const points: (Point & { label: string })[] = [origin, ...visits, ...(destination ? [destination] : [])];
+  const provider = getRoutingProvider();
+  const { cells, provider: matrixProvider } = await provider.matrix(points);
+  // The provider wrapper estimates pairs the engine can't route, so every cell is filled
+  const matrix = cells as MatrixCell[][];
+  const endIndex = destination ? points.length - 1 : null;
+  const evaluate = createEvaluator(visits, matrix, departureAt, endIndex, returnToOrigin);
+
+  const [order] = [nearestFirst(visits.length, matrix), deadlineFirst(visits, matrix)]
+    .map((start) => improve(start, evaluate))
+    .sort((a, b) => evaluate(a).cost - evaluate(b).cost);
+  const schedule = evaluate(order);
+
+  // Legs follow the full path: origin, stops in order, fixed destination, back to origin
+  const path = [0, ...order.map((i) => i + 1), ...(endIndex !== null ? [endIndex] : []), ...(returnToOrigin ? [0] : [])];
+  const tolls = await legTolls(provider, path.map((i) => points[i]));
+  const legs: SequencedLeg[] = path.slice(1).map((to, index) => {
+    const from = path[index];
+    const cell = matrix[from][to];
+    const distanceKm = cell.meters / 1000;
+    return {
+      from: points[from].label,
+      to: points[to].label,
+      distanceKm: Math.round(distanceKm * 10) / 10,
+      durationMinutes: Math.round(cell.seconds / 60),
+      estimatedToll: Math.round((tolls[index] ?? distanceKm * TOLL_PER_KM) * 100) / 100,
+    };
+  });
+
+  const stops = order.map((visitIndex, position): SequencedStop => {
+    const { lat: _lat, lng: _lng, ...visit } = visits[visitIndex];
+    return { ...visit, arrival: new Date(schedule.arrivals[position]), late: schedule.late[position] };
+  });
+
+  return {
+    stops,
+    legs,
+    totalDistanceKm: Math.round(legs.reduce((sum, leg) => sum + leg.distanceKm, 0) * 10) / 10,
+    totalDurationMinutes: legs.reduce((sum, leg) => sum + leg.durationMinutes, 0),
+    estimatedTolls: Math.round(legs.reduce((sum, leg) => sum + leg.estimatedToll, 0) * 100) / 100,
+    departureAt,
+    finishAt: new Date(schedule.finish),
+    lateStops: stops.filter((s) => s.late).length,
+    routingProvider: matrixProvider,
+    tollsEstimated: tolls.some((toll) => toll === null),
+  };
+}
+
+// Orders the transports of a trip (or a trip being assembled): one visit per delivery location, with
+// each transport's delivery date as its deadline
+export async function sequenceTransports(originYardId: string, transportIds: string[], departureAt?: Date): Promise<RouteSequence> {
+  const stops: RouteSequenceStop[] = [];
+  for (const id of transportIds) {
+    const transport = await storage.getTransport(id);
+    if (!transport) throw new LifecycleError(400, "Transporte não encontrado");
+    stops.push({
+      deliveryLocationId: transport.deliveryLocationId,
+      transportId: transport.id,
+      deliveryDate: transport.deliveryDate,
+    });
+  }
+  return sequenceRoute({ originYardId, stops, departureAt });
+}
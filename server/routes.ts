@@ -1,14 +1,88 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { registerJWTAuthRoutes, isAuthenticatedJWT, hashPassword, type AuthenticatedRequest } from "./auth-jwt";
+import { registerJWTAuthRoutes, isAuthenticatedJWT, hashPassword, findDriverForUser, type AuthenticatedRequest } from "./auth-jwt";
+import { requirePermission, hasPermission } from "./permissions";
+import { auditContextMiddleware, auditEntityFeatures, recordAuditEvent } from "./audit";
+import { assertTransition, assertVehicleTransition, InvalidTransitionError, type VehicleStatus } from "@shared/state-machine";
+import {
+  LifecycleError,
+  applyCollectUpdate,
+  authorizeCollectEntry,
+  authorizeTransportExit,
+  authorizeTripExit,
+  checkinTransport,
+  checkoutTransport,
+  concludeTransport,
+  clearTransportCheckin,
+  clearTransportCheckout,
+  authorizeTransfer,
+  completeTransfer,
+  cancelTransfer,
+} from "./lifecycle";
+import { dispatchNextWave, rankDriversForTransport, respondToOffer } from "./dispatch";
+import { ingestPositions, getLiveTracking, trackingSubjectFeatures, UnknownTrackingSubjectError, ForeignTrackingSubjectError } from "./tracking";
+import { attachRealtimeServer, publishEvent } from "./realtime";
+import { buildYardBillingReport } from "./yard-billing";
+import { compareDamageStages, performedInspections, InvalidStageRangeError } from "./damage-inspection";
+import { transitionDamageClaim, approveDamageClaimQuote, attachPendingDeductions, isClaimEditable, isDriverLiableClaim } from "./damage-claims";
+import { sendMail, isMailConfigured, MailNotConfiguredError } from "./mailer";
+import { reconcileSettlement, refreshSettlementFlags } from "./expense-reconciliation";
+import { syncSettlementAmounts, reconvertOpenSettlements, parseRatesCsv, InvalidRatesFileError } from "./exchange-rates";
+import {
+  postSettlementToLedger,
+  createManualLedgerEntry,
+  deleteManualLedgerEntry,
+  getDriverStatement,
+  createPaymentBatch,
+  markPaymentBatchPaid,
+  cancelPaymentBatch,
+  exportPaymentBatchCsv,
+} from "./driver-ledger";
+import {
+  createPayrollRun,
+  recalculatePayrollRun,
+  approvePayrollRun,
+  deletePayrollRun,
+  getPayrollRunDetail,
+  exportPayrollRunCsv,
+  renderPayrollPdf,
+} from "./payroll";
+import {
+  getTransportCte,
+  generateTransportCte,
+  transmitTransportCte,
+  CteNotConfiguredError,
+  CteValidationError,
+} from "./cte";
+import {
+  createFleetUnit,
+  updateFleetUnit,
+  deleteFleetUnit,
+  getActiveFleetJobs,
+  getFleetAvailability,
+  assignFleetUnits,
+} from "./fleet";
+import { getTrips, getTrip, createTrip, updateTrip, cancelTrip } from "./trips";
+import { proposeLoads } from "./load-planning";
+import { sequenceRoute, sequenceTransports } from "./route-sequencing";
+import { getRoutingProvider, estimateToll, RouteNotFoundError, RoutingNotConfiguredError } from "./routing";
+import {
+  getSettlementReceiptExtractions,
+  kickReceiptExtractionQueue,
+  receiptProposalUpdate,
+  refreshReceiptMismatches,
+} from "./receipt-ocr";
+import { issueProofOfDelivery, renderProofOfDelivery, storeRecipientSignature } from "./proof-of-delivery";
+import { deleteStoredFile } from "./stored-files";
+import { registerClientPortalRoutes, prepareClientCredentials, withoutPassword } from "./client-portal";
+import { ingestTrackerEvents, parseGenericJsonPayload, InvalidTrackerPayloadError } from "./trackers";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
 import { setupSwagger } from "./swagger";
 import * as fs from "fs";
 import * as path from "path";
 import PDFDocument from "pdfkit";
-import { randomUUID } from "crypto";
-import nodemailer from "nodemailer";
+import { randomUUID, timingSafeEqual } from "crypto";
 import multer from "multer";
 import {
   insertDriverSchema,
@@ -51,13 +125,57 @@ import {
   freightContracts,
   insertFreightContractSchema,
   transfers,
+  permissionActions,
+  auditEntityTypes,
+  type AuditEntityType,
   type FeatureKey,
+  type PermissionAction,
+  trackingPositionBatchSchema,
+  trackingSubjectTypes,
+  type TrackingSubjectType,
+  insertTrackerSchema,
+  insertDamageRecordSchema,
+  insertDamageClaimSchema,
+  insertDamageClaimEvidenceSchema,
+  insertDamageClaimQuoteSchema,
+  damageClaimStatusEnum,
+  damageStages,
+  type DamageStage,
+  type DamageClaim,
+  geofenceSubjectTypes,
+  type GeofenceSubjectType,
+  insertExpensePolicySchema,
+  expenseTypeEnum,
+  type ExpenseType,
+  expenseItemAmountBrl,
+  insertExchangeRateSchema,
+  manualDriverLedgerEntrySchema,
+  createPayrollRunSchema,
+  generateTransportCteSchema,
+  insertFleetUnitSchema,
+  fleetAssignmentSchema,
+  fleetJobEntities,
+  createTripSchema,
+  updateTripSchema,
+  tripSequenceSchema,
+  routeSequenceRequestSchema,
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, and, desc, sql as drizzleSql } from "drizzle-orm";
 import OpenAI from "openai";
 import { users } from "@shared/models/auth";
 
+// Staff with approve on localizar-motorista answer offers for any driver; everyone else only their own
+async function offerResponderDriverId(req: AuthenticatedRequest): Promise<string | null> {
+  const role = req.user?.role || "visualizador";
+  if (await hasPermission(role, "localizar-motorista", "approve")) return null;
+  const driver = req.user ? await findDriverForUser(req.user) : null;
+  if (!driver) {
+    throw new LifecycleError(403, "Apenas o motorista da oferta pode respondê-la");
+  }
+  return driver.id;
+}
+
 async function createDefaultAdmin() {
   try {
     const existingAdmin = await db.select().from(users)
@@ -87,7 +205,10 @@ export async function registerRoutes(
   app: Express
 ): Promise<Server> {
   await createDefaultAdmin();
+  attachRealtimeServer(httpServer);
+  app.use("/api", auditContextMiddleware);
   registerJWTAuthRoutes(app);
+  registerClientPortalRoutes(app);
   registerObjectStorageRoutes(app);
   setupSwagger(app);
 
@@ -144,7 +265,7 @@ export async function registerRoutes(
   });
 
   // Dashboard
-  app.get("/api/dashboard/stats", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/dashboard/stats", isAuthenticatedJWT, requirePermission("dashboard", "read"), async (req, res) => {
     try {
       const stats = await storage.getDashboardStats();
       res.json(stats);
@@ -154,7 +275,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/dashboard/analytics", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/dashboard/analytics", isAuthenticatedJWT, requirePermission("dashboard", "read"), async (req, res) => {
     try {
       const period = req.query.period as string || "all";
       
@@ -293,7 +414,7 @@ export async function registerRoutes(
   });
 
   // Dashboard - Yard Stats
-  app.get("/api/dashboard/yard-stats", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/dashboard/yard-stats", isAuthenticatedJWT, requirePermission("dashboard", "read"), async (req, res) => {
     try {
       const [allYards, allVehicles] = await Promise.all([
         db.select().from(yards),
@@ -350,97 +471,10 @@ export async function registerRoutes(
   });
 
   // Yard Report - Billing by days in stock
-  app.get("/api/reports/yard-billing", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/reports/yard-billing", isAuthenticatedJWT, requirePermission("relatorio-patio", "read"), async (req, res) => {
     try {
-      // Get all vehicles that are currently in stock (em_estoque)
-      const vehiclesInStock = await db
-        .select()
-        .from(vehicles)
-        .where(eq(vehicles.status, "em_estoque"));
-
-      // Get all clients
-      const allClients = await db.select().from(clients);
-      const clientsMap = new Map(allClients.map(c => [c.id, c]));
-
-      // Get all yards
-      const allYards = await db.select().from(yards);
-      const yardsMap = new Map(allYards.map(y => [y.id, y]));
-
-      const now = new Date();
-      
-      // Calculate billing for each vehicle
-      const vehicleBilling = vehiclesInStock.map(vehicle => {
-        const client = vehicle.clientId ? clientsMap.get(vehicle.clientId) : null;
-        const yard = vehicle.yardId ? yardsMap.get(vehicle.yardId) : null;
-        const dailyCost = client?.dailyCost ? parseFloat(client.dailyCost) : 0;
-        
-        // Calculate days in stock
-        let daysInStock = 0;
-        if (vehicle.yardEntryDateTime) {
-          const entryDate = new Date(vehicle.yardEntryDateTime);
-          const diffTime = now.getTime() - entryDate.getTime();
-          daysInStock = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-          if (daysInStock < 0) daysInStock = 0;
-        }
-
-        const totalCost = daysInStock * dailyCost;
-
-        return {
-          chassi: vehicle.chassi,
-          clientId: vehicle.clientId,
-          clientName: client?.name || "Sem cliente",
-          yardId: vehicle.yardId,
-          yardName: yard?.name || "Sem pátio",
-          entryDate: vehicle.yardEntryDateTime,
-          daysInStock,
-          dailyCost,
-          totalCost,
-        };
-      });
-
-      // Group by client
-      const byClient: Record<string, {
-        clientId: string | null;
-        clientName: string;
-        dailyCost: number;
-        vehicles: typeof vehicleBilling;
-        totalDays: number;
-        totalCost: number;
-      }> = {};
-
-      vehicleBilling.forEach(v => {
-        const key = v.clientId || "no-client";
-        if (!byClient[key]) {
-          byClient[key] = {
-            clientId: v.clientId,
-            clientName: v.clientName,
-            dailyCost: v.dailyCost,
-            vehicles: [],
-            totalDays: 0,
-            totalCost: 0,
-          };
-        }
-        byClient[key].vehicles.push(v);
-        byClient[key].totalDays += v.daysInStock;
-        byClient[key].totalCost += v.totalCost;
-      });
-
-      const clientGroups = Object.values(byClient).sort((a, b) => 
-        a.clientName.localeCompare(b.clientName)
-      );
-
-      const grandTotal = clientGroups.reduce((sum, g) => sum + g.totalCost, 0);
-      const totalVehicles = vehicleBilling.length;
-      const totalDays = clientGroups.reduce((sum, g) => sum + g.totalDays, 0);
-
-      res.json({
-        clientGroups,
-        summary: {
-          totalVehicles,
-          totalDays,
-          grandTotal,
-        },
-      });
+      const report = await buildYardBillingReport();
+      res.json(report);
     } catch (error) {
       console.error("Error generating yard billing report:", error);
       res.status(500).json({ message: "Failed to generate yard billing report" });
@@ -448,7 +482,7 @@ export async function registerRoutes(
   });
 
   // Drivers
-  app.get("/api/drivers", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/drivers", isAuthenticatedJWT, requirePermission("motoristas", "read"), async (req, res) => {
     try {
       const data = await storage.getDrivers();
       res.json(data);
@@ -458,7 +492,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/drivers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/drivers/:id", isAuthenticatedJWT, requirePermission("motoristas", "read"), async (req, res) => {
     try {
       const driver = await storage.getDriver(req.params.id);
       if (!driver) {
@@ -471,7 +505,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/drivers", isAuthenticatedJWT, upload.fields([
+  app.post("/api/drivers", isAuthenticatedJWT, requirePermission("motoristas", "write"), upload.fields([
     { name: "cnhFrontFile", maxCount: 1 },
     { name: "cnhBackFile", maxCount: 1 },
   ]), async (req, res) => {
@@ -495,7 +529,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/drivers/:id", isAuthenticatedJWT, upload.fields([
+  app.patch("/api/drivers/:id", isAuthenticatedJWT, requirePermission("motoristas", "write"), upload.fields([
     { name: "cnhFrontFile", maxCount: 1 },
     { name: "cnhBackFile", maxCount: 1 },
   ]), async (req, res) => {
@@ -522,7 +556,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/drivers/:id/approve-documents", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/drivers/:id/approve-documents", isAuthenticatedJWT, requirePermission("motoristas", "approve"), async (req, res) => {
     try {
       const { status } = req.body;
       if (!status || !["aprovado", "reprovado", "pendente"].includes(status)) {
@@ -545,7 +579,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/drivers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/drivers/:id", isAuthenticatedJWT, requirePermission("motoristas", "delete"), async (req, res) => {
     try {
       await storage.deleteDriver(req.params.id);
       res.status(204).send();
@@ -556,7 +590,7 @@ export async function registerRoutes(
   });
 
   // Manufacturers
-  app.get("/api/manufacturers", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/manufacturers", isAuthenticatedJWT, requirePermission("montadoras", "read"), async (req, res) => {
     try {
       const data = await storage.getManufacturers();
       res.json(data);
@@ -566,7 +600,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/manufacturers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/manufacturers/:id", isAuthenticatedJWT, requirePermission("montadoras", "read"), async (req, res) => {
     try {
       const manufacturer = await storage.getManufacturer(req.params.id);
       if (!manufacturer) {
@@ -579,7 +613,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/manufacturers", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/manufacturers", isAuthenticatedJWT, requirePermission("montadoras", "write"), async (req, res) => {
     try {
       const data = insertManufacturerSchema.parse(req.body);
       const manufacturer = await storage.createManufacturer(data);
@@ -590,7 +624,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/manufacturers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/manufacturers/:id", isAuthenticatedJWT, requirePermission("montadoras", "write"), async (req, res) => {
     try {
       const data = insertManufacturerSchema.partial().parse(req.body);
       const manufacturer = await storage.updateManufacturer(req.params.id, data);
@@ -604,7 +638,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/manufacturers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/manufacturers/:id", isAuthenticatedJWT, requirePermission("montadoras", "delete"), async (req, res) => {
     try {
       await storage.deleteManufacturer(req.params.id);
       res.status(204).send();
@@ -615,7 +649,7 @@ export async function registerRoutes(
   });
 
   // Yards
-  app.get("/api/yards", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/yards", isAuthenticatedJWT, requirePermission("patios", "read"), async (req, res) => {
     try {
       const data = await storage.getYards();
       res.json(data);
@@ -625,7 +659,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/yards/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/yards/:id", isAuthenticatedJWT, requirePermission("patios", "read"), async (req, res) => {
     try {
       const yard = await storage.getYard(req.params.id);
       if (!yard) {
@@ -638,7 +672,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/yards", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/yards", isAuthenticatedJWT, requirePermission("patios", "write"), async (req, res) => {
     try {
       const data = insertYardSchema.parse(req.body);
       const yard = await storage.createYard(data);
@@ -649,7 +683,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/yards/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/yards/:id", isAuthenticatedJWT, requirePermission("patios", "write"), async (req, res) => {
     try {
       const data = insertYardSchema.partial().parse(req.body);
       const yard = await storage.updateYard(req.params.id, data);
@@ -663,7 +697,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/yards/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/yards/:id", isAuthenticatedJWT, requirePermission("patios", "delete"), async (req, res) => {
     try {
       await storage.deleteYard(req.params.id);
       res.status(204).send();
@@ -674,55 +708,55 @@ export async function registerRoutes(
   });
 
   // Clients
-  app.get("/api/clients", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/clients", isAuthenticatedJWT, requirePermission("clientes", "read"), async (req, res) => {
     try {
       const data = await storage.getClients();
-      res.json(data);
+      res.json(data.map(withoutPassword));
     } catch (error) {
       console.error("Error fetching clients:", error);
       res.status(500).json({ message: "Failed to fetch clients" });
     }
   });
 
-  app.get("/api/clients/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/clients/:id", isAuthenticatedJWT, requirePermission("clientes", "read"), async (req, res) => {
     try {
       const client = await storage.getClient(req.params.id);
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
       }
-      res.json(client);
+      res.json(withoutPassword(client));
     } catch (error) {
       console.error("Error fetching client:", error);
       res.status(500).json({ message: "Failed to fetch client" });
     }
   });
 
-  app.post("/api/clients", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/clients", isAuthenticatedJWT, requirePermission("clientes", "write"), async (req, res) => {
     try {
-      const data = insertClientSchema.parse(req.body);
+      const data = await prepareClientCredentials(insertClientSchema.parse(req.body));
       const client = await storage.createClient(data);
-      res.status(201).json(client);
+      res.status(201).json(withoutPassword(client));
     } catch (error: any) {
       console.error("Error creating client:", error);
       res.status(400).json({ message: error.message || "Failed to create client" });
     }
   });
 
-  app.patch("/api/clients/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/clients/:id", isAuthenticatedJWT, requirePermission("clientes", "write"), async (req, res) => {
     try {
-      const data = insertClientSchema.partial().parse(req.body);
+      const data = await prepareClientCredentials(insertClientSchema.partial().parse(req.body));
       const client = await storage.updateClient(req.params.id, data);
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
       }
-      res.json(client);
+      res.json(withoutPassword(client));
     } catch (error: any) {
       console.error("Error updating client:", error);
       res.status(400).json({ message: error.message || "Failed to update client" });
     }
   });
 
-  app.delete("/api/clients/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/clients/:id", isAuthenticatedJWT, requirePermission("clientes", "delete"), async (req, res) => {
     try {
       await storage.deleteClient(req.params.id);
       res.status(204).send();
@@ -733,7 +767,7 @@ export async function registerRoutes(
   });
 
   // Delivery Locations
-  app.get("/api/delivery-locations", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/delivery-locations", isAuthenticatedJWT, requirePermission("locais", "read"), async (req, res) => {
     try {
       const data = await storage.getAllDeliveryLocations();
       res.json(data);
@@ -743,7 +777,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/clients/:clientId/locations", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/clients/:clientId/locations", isAuthenticatedJWT, requirePermission("locais", "read"), async (req, res) => {
     try {
       const data = await storage.getDeliveryLocations(req.params.clientId);
       res.json(data);
@@ -753,7 +787,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/clients/:clientId/locations", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/clients/:clientId/locations", isAuthenticatedJWT, requirePermission("locais", "write"), async (req, res) => {
     try {
       const data = insertDeliveryLocationSchema.parse({
         ...req.body,
@@ -767,7 +801,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/delivery-locations/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/delivery-locations/:id", isAuthenticatedJWT, requirePermission("locais", "write"), async (req, res) => {
     try {
       const data = insertDeliveryLocationSchema.partial().parse(req.body);
       const location = await storage.updateDeliveryLocation(req.params.id, data);
@@ -781,7 +815,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/delivery-locations/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/delivery-locations/:id", isAuthenticatedJWT, requirePermission("locais", "delete"), async (req, res) => {
     try {
       await storage.deleteDeliveryLocation(req.params.id);
       res.status(204).send();
@@ -792,7 +826,7 @@ export async function registerRoutes(
   });
 
   // Vehicles
-  app.get("/api/vehicles", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/vehicles", isAuthenticatedJWT, requirePermission("veiculos", "read"), async (req, res) => {
     try {
       const data = await storage.getVehicles();
       res.json(data);
@@ -802,7 +836,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/vehicles/:chassi", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/vehicles/:chassi", isAuthenticatedJWT, requirePermission("veiculos", "read"), async (req, res) => {
     try {
       const vehicle = await storage.getVehicle(decodeURIComponent(req.params.chassi));
       if (!vehicle) {
@@ -815,7 +849,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/vehicle-journey/:chassi", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/vehicle-journey/:chassi", isAuthenticatedJWT, requirePermission("jornada-veiculo", "read"), async (req, res) => {
     try {
       const chassi = decodeURIComponent(req.params.chassi);
       const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.chassi, chassi));
@@ -869,7 +903,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/vehicles", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/vehicles", isAuthenticatedJWT, requirePermission("veiculos", "write"), async (req, res) => {
     try {
       const data = insertVehicleSchema.parse(req.body);
       const vehicle = await storage.createVehicle(data);
@@ -880,7 +914,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/vehicles/:chassi", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/vehicles/:chassi", isAuthenticatedJWT, requirePermission("veiculos", "write"), async (req, res) => {
     try {
       const chassi = decodeURIComponent(req.params.chassi);
       const data = insertVehicleSchema.partial().parse(req.body);
@@ -892,6 +926,13 @@ export async function registerRoutes(
       
       // Get current vehicle to check status transition
       const currentVehicle = await storage.getVehicle(chassi);
+      if (!currentVehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      // Form saves resend the unchanged status; only real changes go through the state machine
+      if (data.status && data.status !== currentVehicle.status) {
+        assertVehicleTransition(currentVehicle.status, data.status);
+      }
       
       // If status is changing from pre_estoque to em_estoque, set yard entry date/time
       if (currentVehicle?.status === "pre_estoque" && data.status === "em_estoque") {
@@ -911,26 +952,36 @@ export async function registerRoutes(
       // If vehicle status changed from pre_estoque to em_estoque, finalize the active collect
       if (currentVehicle?.status === "pre_estoque" && data.status === "em_estoque") {
         // Only update collects that are still em_transito (active)
-        await db.update(collects)
+        const finalized = await db.update(collects)
           .set({ status: "finalizada" })
           .where(and(
             eq(collects.vehicleChassi, chassi),
             eq(collects.status, "em_transito")
-          ));
+          ))
+          .returning();
+        for (const collect of finalized) {
+          await recordAuditEvent(db, "collect", collect.id, "update", { ...collect, status: "em_transito" }, collect);
+        }
       }
       
       res.json(vehicle);
     } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
       console.error("Error updating vehicle:", error);
       res.status(400).json({ message: error.message || "Failed to update vehicle" });
     }
   });
 
-  app.delete("/api/vehicles/:chassi", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/vehicles/:chassi", isAuthenticatedJWT, requirePermission("veiculos", "delete"), async (req, res) => {
     try {
       const chassi = decodeURIComponent(req.params.chassi);
       // Delete associated collects first
-      await db.delete(collects).where(eq(collects.vehicleChassi, chassi));
+      const removedCollects = await db.delete(collects).where(eq(collects.vehicleChassi, chassi)).returning();
+      for (const collect of removedCollects) {
+        await recordAuditEvent(db, "collect", collect.id, "delete", collect, null);
+      }
       await storage.deleteVehicle(chassi);
       res.status(204).send();
     } catch (error) {
@@ -940,7 +991,7 @@ export async function registerRoutes(
   });
 
   // Collects
-  app.get("/api/collects", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/collects", isAuthenticatedJWT, requirePermission("coletas", "read"), async (req, res) => {
     try {
       const collectsList = await storage.getCollects();
       const collectsWithRelations = await Promise.all(
@@ -963,7 +1014,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/collects/recent", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/collects/recent", isAuthenticatedJWT, requirePermission("coletas", "read"), async (req, res) => {
     try {
       const data = await storage.getRecentCollects(5);
       res.json(data);
@@ -973,7 +1024,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/collects/by-chassi/:chassi", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/collects/by-chassi/:chassi", isAuthenticatedJWT, requirePermission("coletas", "read"), async (req, res) => {
     try {
       const chassi = decodeURIComponent(req.params.chassi);
       const collectsList = await db.select().from(collects).where(eq(collects.vehicleChassi, chassi)).orderBy(collects.createdAt);
@@ -997,7 +1048,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/collects/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/collects/:id", isAuthenticatedJWT, requirePermission("coletas", "read"), async (req, res) => {
     try {
       const collect = await storage.getCollect(req.params.id);
       if (!collect) {
@@ -1010,7 +1061,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/collects", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/collects", isAuthenticatedJWT, requirePermission("coletas", "write"), async (req, res) => {
     try {
       const data = insertCollectSchema.parse(req.body);
       
@@ -1029,6 +1080,7 @@ export async function registerRoutes(
         ...data,
         status: "em_transito",
       });
+      publishEvent({ type: "collect.created", collectId: collect.id, status: collect.status });
       res.status(201).json(collect);
     } catch (error: any) {
       console.error("Error creating collect:", error);
@@ -1036,40 +1088,25 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/collects/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/collects/:id", isAuthenticatedJWT, requirePermission("coletas", "write"), async (req, res) => {
     try {
       const data = insertCollectSchema.partial().parse(req.body);
-      
-      // Get existing collect to check for checkout transition
-      const existingCollect = await storage.getCollect(req.params.id);
-      if (!existingCollect) {
-        return res.status(404).json({ message: "Collect not found" });
-      }
-      
-      const collect = await storage.updateCollect(req.params.id, data);
-      if (!collect) {
-        return res.status(404).json({ message: "Collect not found" });
+      // A checkout in the payload also moves the vehicle into stock, in the same transaction
+      const collect = await applyCollectUpdate(req.params.id, data);
+      res.json(collect);
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
       }
-      
-      // If checkout was just completed, update vehicle with yard and status
-      if (data.checkoutDateTime && !existingCollect.checkoutDateTime) {
-        await storage.updateVehicle(collect.vehicleChassi, {
-          yardId: collect.yardId,
-          status: "em_estoque",
-          yardEntryDateTime: new Date(data.checkoutDateTime),
-        });
-        // Also update collect status to finalizada
-        await storage.updateCollect(req.params.id, { status: "finalizada" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      res.json(collect);
-    } catch (error: any) {
       console.error("Error updating collect:", error);
       res.status(400).json({ message: error.message || "Failed to update collect" });
     }
   });
 
-  app.delete("/api/collects/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/collects/:id", isAuthenticatedJWT, requirePermission("coletas", "delete"), async (req, res) => {
     try {
       await storage.deleteCollect(req.params.id);
       res.status(204).send();
@@ -1080,81 +1117,58 @@ export async function registerRoutes(
   });
 
   // Portaria - Authorize entry
-  app.post("/api/portaria/authorize/:id", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/portaria/authorize/:id", isAuthenticatedJWT, requirePermission("portaria", "approve"), async (req, res) => {
     try {
-      const collect = await storage.getCollect(req.params.id);
-      if (!collect) {
-        return res.status(404).json({ message: "Coleta não encontrada" });
-      }
-
-      if (collect.status !== "em_transito") {
-        return res.status(400).json({ message: "Coleta não está em trânsito" });
+      await authorizeCollectEntry(req.params.id);
+      res.json({ success: true, message: "Entrada autorizada com sucesso" });
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
       }
-
-      // Update vehicle status from pre_estoque to em_estoque
-      const vehicle = await storage.getVehicle(collect.vehicleChassi);
-      if (vehicle) {
-        await storage.updateVehicle(collect.vehicleChassi, {
-          status: "em_estoque",
-          yardId: collect.yardId,
-          yardEntryDateTime: new Date(),
-        });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-
-      // Update collect status to aguardando_checkout (driver will do checkout manually)
-      await storage.updateCollect(req.params.id, { 
-        status: "aguardando_checkout",
-      });
-
-      res.json({ success: true, message: "Entrada autorizada com sucesso" });
-    } catch (error: any) {
       console.error("Error authorizing entry:", error);
       res.status(500).json({ message: error.message || "Erro ao autorizar entrada" });
     }
   });
 
   // Authorize transport exit (portaria approves vehicle leaving the yard)
-  app.post("/api/portaria/authorize-exit/:id", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/portaria/authorize-exit/:id", isAuthenticatedJWT, requirePermission("portaria", "approve"), async (req, res) => {
     try {
-      const transport = await storage.getTransport(req.params.id);
-      if (!transport) {
-        return res.status(404).json({ message: "Transporte não encontrado" });
-      }
-
-      if (transport.status !== "pendente" && transport.status !== "aguardando_saida") {
-        return res.status(400).json({ message: "Transporte não está pendente ou aguardando saída" });
+      await authorizeTransportExit(req.params.id);
+      res.json({ success: true, message: "Saída autorizada com sucesso" });
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
       }
-
-      // Update vehicle status from em_estoque to despachado (if not already)
-      const vehicle = await storage.getVehicle(transport.vehicleChassi);
-      if (vehicle) {
-        if (vehicle.status !== "em_estoque" && vehicle.status !== "despachado") {
-          return res.status(400).json({ message: "Veículo não está em estoque ou despachado" });
-        }
-        // Only update if not already despachado
-        if (vehicle.status === "em_estoque") {
-          await storage.updateVehicle(transport.vehicleChassi, {
-            status: "despachado",
-            dispatchDateTime: new Date(),
-          });
-        }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-
-      // Update transport status to em_transito and set transit start time
-      await storage.updateTransport(req.params.id, { 
-        status: "em_transito",
-        transitStartedAt: new Date(),
-      });
-
-      res.json({ success: true, message: "Saída autorizada com sucesso" });
-    } catch (error: any) {
       console.error("Error authorizing exit:", error);
       res.status(500).json({ message: error.message || "Erro ao autorizar saída" });
     }
   });
 
+  // Authorize a trip's exit: every transport loaded on the car carrier leaves at once
+  app.post("/api/portaria/authorize-trip-exit/:id", isAuthenticatedJWT, requirePermission("portaria", "approve"), async (req, res) => {
+    try {
+      const trip = await authorizeTripExit(req.params.id);
+      res.json({ success: true, message: `Saída da viagem ${trip.tripNumber} autorizada com ${trip.transports.length} veículo(s)` });
+    } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error authorizing trip exit:", error);
+      res.status(500).json({ message: error.message || "Erro ao autorizar saída da viagem" });
+    }
+  });
+
   // Transports
-  app.get("/api/transports", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/transports", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
       const transportsList = await storage.getTransports();
       const transportsWithRelations = await Promise.all(
@@ -1193,7 +1207,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/transports/recent", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/transports/recent", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
       const data = await storage.getRecentTransports(5);
       res.json(data);
@@ -1203,7 +1217,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/transports/with-checkpoints", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/transports/with-checkpoints", isAuthenticatedJWT, requirePermission("timeline-checkpoints", "read"), async (req, res) => {
     try {
       const transportsList = await db.select().from(transports);
       const transportsWithDetails = await Promise.all(
@@ -1244,7 +1258,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/transports/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/transports/:id", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
       const transport = await storage.getTransport(req.params.id);
       if (!transport) {
@@ -1257,7 +1271,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/transports", isAuthenticatedJWT, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/transports", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req: AuthenticatedRequest, res) => {
     try {
       const data = insertTransportSchema.parse(req.body);
       const userId = req.user?.id;
@@ -1268,6 +1282,7 @@ export async function registerRoutes(
         driverAssignedAt: data.driverId ? new Date() : undefined,
       };
       const transport = await storage.createTransport(transportData);
+      publishEvent({ type: "transport.created", transportId: transport.id, status: transport.status });
       res.status(201).json(transport);
     } catch (error: any) {
       console.error("Error creating transport:", error);
@@ -1275,16 +1290,28 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/transports/:id", isAuthenticatedJWT, async (req: AuthenticatedRequest, res) => {
+  app.patch("/api/transports/:id", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req: AuthenticatedRequest, res) => {
     try {
       const data = insertTransportSchema.partial().parse(req.body);
       const userId = req.user?.id;
       
       // Check if driver is being assigned for the first time
       const existingTransport = await storage.getTransport(req.params.id);
+      if (!existingTransport) {
+        return res.status(404).json({ message: "Transport not found" });
+      }
       let updateData: any = { ...data };
+
+      let vehicleStatus: VehicleStatus | undefined;
+      if (data.status && data.status !== existingTransport.status) {
+        vehicleStatus = assertTransition("transport", existingTransport.status, data.status).vehicleStatus;
+        const vehicle = vehicleStatus ? await storage.getVehicle(existingTransport.vehicleChassi) : undefined;
+        if (vehicle && vehicleStatus) {
+          assertVehicleTransition(vehicle.status, vehicleStatus);
+        }
+      }
       
-      if (data.driverId && !existingTransport?.driverId) {
+      if (data.driverId && !existingTransport.driverId) {
         updateData.driverAssignedByUserId = userId;
         updateData.driverAssignedAt = new Date();
       }
@@ -1293,14 +1320,23 @@ export async function registerRoutes(
       if (!transport) {
         return res.status(404).json({ message: "Transport not found" });
       }
+      if (vehicleStatus) {
+        await storage.updateVehicle(transport.vehicleChassi, { status: vehicleStatus });
+      }
+      if (transport.status !== existingTransport.status) {
+        publishEvent({ type: "transport.status_changed", transportId: transport.id, status: transport.status });
+      }
       res.json(transport);
     } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
       console.error("Error updating transport:", error);
       res.status(400).json({ message: error.message || "Failed to update transport" });
     }
   });
 
-  app.delete("/api/transports/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/transports/:id", isAuthenticatedJWT, requirePermission("transportes", "delete"), async (req, res) => {
     try {
       await storage.deleteTransport(req.params.id);
       res.status(204).send();
@@ -1311,179 +1347,220 @@ export async function registerRoutes(
   });
 
   // Transport Check-in (pickup from yard)
-  app.patch("/api/transports/:id/checkin", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/transports/:id/checkin", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req, res) => {
     try {
-      const { latitude, longitude, frontalPhoto, lateral1Photo, lateral2Photo, traseiraPhoto, odometerPhoto, fuelLevelPhoto, damagePhotos, selfiePhoto, notes } = req.body;
-      
-      const existingTransport = await storage.getTransport(req.params.id);
-      if (!existingTransport) {
-        return res.status(404).json({ message: "Transport not found" });
-      }
-      
-      const transport = await storage.updateTransport(req.params.id, {
-        checkinDateTime: new Date(),
-        checkinLatitude: latitude,
-        checkinLongitude: longitude,
-        checkinFrontalPhoto: frontalPhoto,
-        checkinLateral1Photo: lateral1Photo,
-        checkinLateral2Photo: lateral2Photo,
-        checkinTraseiraPhoto: traseiraPhoto,
-        checkinOdometerPhoto: odometerPhoto,
-        checkinFuelLevelPhoto: fuelLevelPhoto,
-        checkinDamagePhotos: damagePhotos || [],
-        checkinSelfiePhoto: selfiePhoto,
-        checkinNotes: notes,
-        status: "aguardando_saida",
-      });
-      
-      // Update vehicle status to "despachado" (dispatched)
-      await storage.updateVehicle(existingTransport.vehicleChassi, {
-        status: "despachado",
-      });
-      
+      const transport = await checkinTransport(req.params.id, req.body);
       res.json(transport);
-    } catch (error: any) {
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error performing transport check-in:", error);
       res.status(400).json({ message: error.message || "Failed to perform check-in" });
     }
   });
 
   // Transport Check-out (delivery to client)
-  app.patch("/api/transports/:id/conclude", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/transports/:id/conclude", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req, res) => {
     try {
-      const existingTransport = await storage.getTransport(req.params.id);
-      if (!existingTransport) {
-        return res.status(404).json({ message: "Transport not found" });
-      }
-      if (existingTransport.status === "entregue") {
-        return res.status(400).json({ message: "Transporte já foi concluído" });
+      // Only a transport already on the road can be concluded; pending ones must go through check-in and exit
+      const transport = await concludeTransport(req.params.id);
+      res.json(transport);
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
       }
-      if (existingTransport.status === "cancelado") {
-        return res.status(400).json({ message: "Transporte cancelado não pode ser concluído" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-
-      const checkoutTime = existingTransport.checkoutDateTime ?? new Date();
-      const [updatedTransport] = await db
-        .update(transports)
-        .set({ status: "entregue", checkoutDateTime: checkoutTime })
-        .where(eq(transports.id, req.params.id))
-        .returning();
-
-      await db
-        .update(vehicles)
-        .set({ status: "entregue" })
-        .where(eq(vehicles.chassi, existingTransport.vehicleChassi));
-
-      res.json(updatedTransport);
-    } catch (error: any) {
       console.error("Error concluding transport:", error);
       res.status(400).json({ message: error.message || "Failed to conclude transport" });
     }
   });
 
-  app.patch("/api/transports/:id/checkout", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/transports/:id/checkout", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req, res) => {
     try {
-      const { latitude, longitude, frontalPhoto, lateral1Photo, lateral2Photo, traseiraPhoto, odometerPhoto, fuelLevelPhoto, damagePhotos, selfiePhoto, notes } = req.body;
-      
-      const existingTransport = await storage.getTransport(req.params.id);
-      if (!existingTransport) {
-        return res.status(404).json({ message: "Transport not found" });
-      }
-      
-      // Validate that check-in was performed first
-      if (!existingTransport.checkinDateTime) {
-        return res.status(400).json({ message: "Check-in must be performed before check-out" });
+      const recipientSignature = req.body.recipientSignature && await storeRecipientSignature(req.body.recipientSignature);
+      let transport;
+      try {
+        transport = await checkoutTransport(req.params.id, { ...req.body, recipientSignature });
+      } catch (error) {
+        // The signature file only belongs to a check-out that went through
+        if (recipientSignature && recipientSignature !== req.body.recipientSignature) {
+          await deleteStoredFile(recipientSignature);
+        }
+        throw error;
       }
-      
-      const transport = await storage.updateTransport(req.params.id, {
-        checkoutDateTime: new Date(),
-        checkoutLatitude: latitude,
-        checkoutLongitude: longitude,
-        checkoutFrontalPhoto: frontalPhoto,
-        checkoutLateral1Photo: lateral1Photo,
-        checkoutLateral2Photo: lateral2Photo,
-        checkoutTraseiraPhoto: traseiraPhoto,
-        checkoutOdometerPhoto: odometerPhoto,
-        checkoutFuelLevelPhoto: fuelLevelPhoto,
-        checkoutDamagePhotos: damagePhotos || [],
-        checkoutSelfiePhoto: selfiePhoto,
-        checkoutNotes: notes,
-        status: "entregue",
-      });
-      
-      // Update vehicle status to "entregue" (delivered)
-      await storage.updateVehicle(existingTransport.vehicleChassi, {
-        status: "entregue",
+      // The receipt needs the photos downloaded and may wait on SMTP; the delivery is already recorded
+      issueProofOfDelivery(transport.id).catch((error) => {
+        console.error("Error issuing proof of delivery:", error);
       });
-      
       res.json(transport);
-    } catch (error: any) {
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error performing transport check-out:", error);
       res.status(400).json({ message: error.message || "Failed to perform check-out" });
     }
   });
 
-  // Clear Transport Check-in (admin only)
-  app.delete("/api/transports/:id/checkin", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/transports/:id/proof-of-delivery", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
-      const existingTransport = await storage.getTransport(req.params.id);
-      if (!existingTransport) {
-        return res.status(404).json({ message: "Transport not found" });
+      const transport = await storage.getTransport(req.params.id);
+      if (!transport) {
+        return res.status(404).json({ message: "Transporte não encontrado" });
       }
-      
-      // If checkout exists, must clear it first
-      if (existingTransport.checkoutDateTime) {
-        return res.status(400).json({ message: "Check-out must be cleared before clearing check-in" });
+      const pdf = await renderProofOfDelivery(transport);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename=comprovante-entrega-${transport.requestNumber}.pdf`);
+      res.send(pdf);
+    } catch (error: any) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      const transport = await storage.clearTransportCheckin(req.params.id);
-      
-      // Revert vehicle status back to em_estoque
-      await storage.updateVehicle(existingTransport.vehicleChassi, {
-        status: "em_estoque",
-      });
-      
-      res.json(transport);
+      console.error("Error generating proof of delivery:", error);
+      res.status(500).json({ message: "Falha ao gerar comprovante de entrega" });
+    }
+  });
+
+  // Regenerates the stored receipt and emails it again to the delivery location
+  app.post("/api/transports/:id/proof-of-delivery", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req, res) => {
+    try {
+      const result = await issueProofOfDelivery(req.params.id);
+      res.json(result);
     } catch (error: any) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error issuing proof of delivery:", error);
+      res.status(500).json({ message: "Falha ao emitir comprovante de entrega" });
+    }
+  });
+
+  app.get("/api/transports/:id/cte", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
+    try {
+      res.json(await getTransportCte(req.params.id));
+    } catch (error) {
+      console.error("Error fetching transport CT-e:", error);
+      res.status(500).json({ message: "Failed to fetch CT-e" });
+    }
+  });
+
+  // Builds (or rebuilds, while not authorised) the CT-e XML from the transport and its freight contract
+  app.post("/api/transports/:id/cte", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = generateTransportCteSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      const cte = await generateTransportCte(req.params.id, parsed.data, req.user?.id ?? null);
+      res.status(201).json(cte);
+    } catch (error) {
+      if (error instanceof CteValidationError) {
+        return res.status(error.status).json({ message: error.message, errors: error.errors });
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof CteNotConfiguredError) {
+        return res.status(500).json({ message: error.message });
+      }
+      console.error("Error generating CT-e:", error);
+      res.status(500).json({ message: "Falha ao gerar CT-e" });
+    }
+  });
+
+  app.post("/api/transports/:id/cte/transmit", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req, res) => {
+    try {
+      res.json(await transmitTransportCte(req.params.id));
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error transmitting CT-e:", error);
+      res.status(500).json({ message: "Falha ao transmitir CT-e" });
+    }
+  });
+
+  // Signed XML once transmitted, otherwise the generated one
+  app.get("/api/transports/:id/cte/xml", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
+    try {
+      const cte = await getTransportCte(req.params.id);
+      if (!cte) {
+        return res.status(404).json({ message: "CT-e não gerado para este transporte" });
+      }
+      res.setHeader("Content-Type", "application/xml; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=CTe${cte.accessKey}.xml`);
+      res.send(cte.signedXml ?? cte.xml);
+    } catch (error) {
+      console.error("Error downloading CT-e XML:", error);
+      res.status(500).json({ message: "Failed to download CT-e XML" });
+    }
+  });
+
+  // Clear Transport Check-in (admin only)
+  app.delete("/api/transports/:id/checkin", isAuthenticatedJWT, requirePermission("transportes", "delete"), async (req, res) => {
+    try {
+      const transport = await clearTransportCheckin(req.params.id);
+      res.json(transport);
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error clearing transport check-in:", error);
       res.status(400).json({ message: error.message || "Failed to clear check-in" });
     }
   });
 
   // Clear Transport Check-out (admin only)
-  app.delete("/api/transports/:id/checkout", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/transports/:id/checkout", isAuthenticatedJWT, requirePermission("transportes", "delete"), async (req, res) => {
     try {
-      const existingTransport = await storage.getTransport(req.params.id);
-      if (!existingTransport) {
-        return res.status(404).json({ message: "Transport not found" });
-      }
-      
-      const transport = await storage.clearTransportCheckout(req.params.id);
-      
-      // Revert vehicle status back to despachado
-      await storage.updateVehicle(existingTransport.vehicleChassi, {
-        status: "despachado",
-      });
-      
+      const transport = await clearTransportCheckout(req.params.id);
       res.json(transport);
-    } catch (error: any) {
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error clearing transport check-out:", error);
       res.status(400).json({ message: error.message || "Failed to clear check-out" });
     }
   });
 
   // Driver Notifications
-  app.get("/api/driver-notifications", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/driver-notifications", isAuthenticatedJWT, requirePermission("localizar-motorista", "read"), async (req: AuthenticatedRequest, res) => {
     try {
-      const { yardId, deliveryLocationId, departureDate } = req.query;
-      if (!yardId || !deliveryLocationId || !departureDate) {
-        return res.status(400).json({ message: "Missing required parameters" });
+      const { yardId, deliveryLocationId, departureDate, transportId } = req.query;
+      let notifications;
+      if (transportId) {
+        notifications = await storage.getDriverNotificationsByTransport(transportId as string);
+      } else {
+        if (!yardId || !deliveryLocationId || !departureDate) {
+          return res.status(400).json({ message: "Missing required parameters" });
+        }
+        notifications = await storage.getDriverNotifications(
+          yardId as string,
+          deliveryLocationId as string,
+          departureDate as string
+        );
+      }
+      // Drivers only see the offers sent to them
+      if (req.user?.role === "motorista") {
+        const driver = await findDriverForUser(req.user);
+        notifications = notifications.filter((n) => driver && n.driverId === driver.id);
       }
-      const notifications = await storage.getDriverNotifications(
-        yardId as string,
-        deliveryLocationId as string,
-        departureDate as string
-      );
       const notificationsWithDrivers = await Promise.all(
         notifications.map(async (notification) => {
           const [driver] = await db.select().from(drivers).where(eq(drivers.id, notification.driverId));
@@ -1497,47 +1574,70 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/driver-notifications/notify", isAuthenticatedJWT, async (req, res) => {
+  // Ranking preview of the drivers that would receive the next wave
+  app.get("/api/dispatch/transports/:id/candidates", isAuthenticatedJWT, requirePermission("localizar-motorista", "read"), async (req, res) => {
     try {
-      const { yardId, deliveryLocationId, departureDate } = req.body;
-      const activeDrivers = await storage.getDrivers();
-      const notifications = await Promise.all(
-        activeDrivers
-          .filter((d) => d.isActive === "true")
-          .map((driver) =>
-            storage.createDriverNotification({
-              yardId,
-              deliveryLocationId,
-              departureDate,
-              driverId: driver.id,
-              status: "pendente",
-            })
-          )
-      );
-      res.status(201).json(notifications);
+      const transport = await storage.getTransport(req.params.id);
+      if (!transport) {
+        return res.status(404).json({ message: "Transport not found" });
+      }
+      const offered = await storage.getDriverNotificationsByTransport(transport.id);
+      const candidates = await rankDriversForTransport(storage, transport, new Set(offered.map((n) => n.driverId)));
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error ranking dispatch candidates:", error);
+      res.status(500).json({ message: "Failed to rank drivers" });
+    }
+  });
+
+  app.post("/api/driver-notifications/notify", isAuthenticatedJWT, requirePermission("localizar-motorista", "write"), async (req, res) => {
+    try {
+      const { transportId, waveSize, expiresInMinutes } = req.body;
+      if (!transportId) {
+        return res.status(400).json({ message: "transportId is required" });
+      }
+      const offers = await dispatchNextWave(transportId, {
+        waveSize: waveSize ? Number(waveSize) : undefined,
+        expiresInMinutes: expiresInMinutes ? Number(expiresInMinutes) : undefined,
+      });
+      res.status(201).json(offers);
     } catch (error: any) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating driver notifications:", error);
       res.status(400).json({ message: error.message || "Failed to create notifications" });
     }
   });
 
-  app.post("/api/driver-notifications/:id/accept", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/driver-notifications/:id/accept", isAuthenticatedJWT, requirePermission("localizar-motorista", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const notification = await storage.updateDriverNotification(req.params.id, {
-        status: "aceito",
-      });
-      if (!notification) {
-        return res.status(404).json({ message: "Notification not found" });
-      }
+      const notification = await respondToOffer(req.params.id, "aceito", await offerResponderDriverId(req));
       res.json(notification);
     } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error accepting notification:", error);
       res.status(500).json({ message: "Failed to accept notification" });
     }
   });
 
+  app.post("/api/driver-notifications/:id/decline", isAuthenticatedJWT, requirePermission("localizar-motorista", "write"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const notification = await respondToOffer(req.params.id, "recusado", await offerResponderDriverId(req));
+      res.json(notification);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error declining notification:", error);
+      res.status(500).json({ message: "Failed to decline notification" });
+    }
+  });
+
   // System Users
-  app.get("/api/system-users", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/system-users", isAuthenticatedJWT, requirePermission("usuarios", "read"), async (req, res) => {
     try {
       const data = await storage.getSystemUsers();
       res.json(data);
@@ -1547,7 +1647,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/system-users/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/system-users/:id", isAuthenticatedJWT, requirePermission("usuarios", "read"), async (req, res) => {
     try {
       const user = await storage.getSystemUser(req.params.id);
       if (!user) {
@@ -1560,7 +1660,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/system-users", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/system-users", isAuthenticatedJWT, requirePermission("usuarios", "write"), async (req, res) => {
     try {
       const data = insertSystemUserSchema.parse(req.body);
       const user = await storage.createSystemUser(data);
@@ -1571,7 +1671,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/system-users/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/system-users/:id", isAuthenticatedJWT, requirePermission("usuarios", "write"), async (req, res) => {
     try {
       const data = insertSystemUserSchema.partial().parse(req.body);
       const user = await storage.updateSystemUser(req.params.id, data);
@@ -1585,7 +1685,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/system-users/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/system-users/:id", isAuthenticatedJWT, requirePermission("usuarios", "delete"), async (req, res) => {
     try {
       await storage.deleteSystemUser(req.params.id);
       res.status(204).send();
@@ -1596,7 +1696,7 @@ export async function registerRoutes(
   });
 
   // Role Permissions
-  app.get("/api/role-permissions", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/role-permissions", isAuthenticatedJWT, requirePermission("usuarios", "read"), async (req, res) => {
     try {
       const data = await storage.getRolePermissions();
       res.json(data);
@@ -1606,7 +1706,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/role-permissions/:role", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/role-permissions/:role", isAuthenticatedJWT, requirePermission("usuarios", "read"), async (req, res) => {
     try {
       const data = await storage.getPermissionsByRole(req.params.role);
       res.json(data);
@@ -1616,26 +1716,31 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/role-permissions/:role", isAuthenticatedJWT, async (req: any, res) => {
+  app.post("/api/role-permissions/:role", isAuthenticatedJWT, requirePermission("usuarios", "approve"), async (req: AuthenticatedRequest, res) => {
     try {
-      const userId = req.user?.claims?.sub;
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      
-      const user = await db.select().from(users).where(eq(users.id, userId));
-      if (!user[0] || user[0].role !== "admin") {
+      if (req.user?.role !== "admin") {
         return res.status(403).json({ message: "Apenas administradores podem alterar permissões" });
       }
 
-      const { features } = req.body as { features: FeatureKey[] };
+      const { features, actions } = req.body as {
+        features: FeatureKey[];
+        actions?: Partial<Record<FeatureKey, PermissionAction[]>>;
+      };
       const validFeatures = features.filter((f) => featureKeys.includes(f));
       
       if (req.params.role === "admin" && !validFeatures.includes("usuarios")) {
         validFeatures.push("usuarios");
       }
+
+      const validActions: Partial<Record<FeatureKey, PermissionAction[]>> = {};
+      for (const feature of validFeatures) {
+        const requested = actions?.[feature];
+        if (requested) {
+          validActions[feature] = requested.filter((a) => permissionActions.includes(a));
+        }
+      }
       
-      await storage.setRolePermissions(req.params.role, validFeatures);
+      await storage.setRolePermissions(req.params.role, validFeatures, validActions);
       res.json({ success: true });
     } catch (error: any) {
       console.error("Error setting role permissions:", error);
@@ -1644,7 +1749,7 @@ export async function registerRoutes(
   });
 
   // Integrations
-  app.get("/api/integrations/status", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/integrations/status", isAuthenticatedJWT, requirePermission("integracoes", "read"), async (req, res) => {
     try {
       const googleMapsApiKey = !!process.env.GOOGLE_MAPS_API_KEY;
       res.json({ googleMapsApiKey });
@@ -1819,7 +1924,7 @@ export async function registerRoutes(
   });
 
   // Routing calculation endpoint
-  app.post("/api/routing/calculate", isAuthenticatedJWT, async (req: any, res) => {
+  app.post("/api/routing/calculate", isAuthenticatedJWT, requirePermission("rotograma", "read"), async (req: any, res) => {
     try {
       const { origin, destination, waypoints = [], avoidTolls = false, avoidHighways = false } = req.body;
       
@@ -1827,150 +1932,18 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Origin and destination coordinates are required" });
       }
 
-      const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ message: "Google Maps API key not configured" });
-      }
-
-      // Build waypoints string for Distance Matrix API
-      let waypointsStr = "";
-      if (waypoints.length > 0) {
-        waypointsStr = "&waypoints=" + waypoints.map((wp: any) => `${wp.lat},${wp.lng}`).join("|");
-      }
-
-      // Build avoid string
-      let avoidStr = "";
-      const avoidList = [];
-      if (avoidTolls) avoidList.push("tolls");
-      if (avoidHighways) avoidList.push("highways");
-      if (avoidList.length > 0) {
-        avoidStr = "&avoid=" + avoidList.join("|");
-      }
-
-      // Use Directions API for routes with waypoints
-      const directionsUrl = `https://maps.googleapis.com/maps/api/directions/json?origin=${origin.lat},${origin.lng}&destination=${destination.lat},${destination.lng}${waypointsStr}${avoidStr}&departure_time=now&traffic_model=best_guess&key=${apiKey}`;
-      
-      const directionsResponse = await fetch(directionsUrl);
-      const directionsData = await directionsResponse.json();
+      const points = [origin, ...waypoints, destination].map((p: any) => ({ lat: Number(p.lat), lng: Number(p.lng) }));
+      const route = await getRoutingProvider().route(points, { avoidTolls, avoidHighways });
 
-      if (directionsData.status !== "OK" || !directionsData.routes?.[0]) {
-        return res.status(400).json({ message: "Could not calculate route" });
-      }
-
-      const route = directionsData.routes[0];
-      const legs = route.legs;
-
-      // Calculate total distance and duration
-      let totalDistance = 0;
-      let totalDuration = 0;
-      let totalDurationInTraffic = 0;
-      let hasTrafficData = false;
-
-      for (const leg of legs) {
-        totalDistance += leg.distance.value;
-        totalDuration += leg.duration.value;
-        if (leg.duration_in_traffic) {
-          totalDurationInTraffic += leg.duration_in_traffic.value;
-          hasTrafficData = true;
-        } else {
-          totalDurationInTraffic += leg.duration.value;
-        }
-      }
-
-      // Get toll information using Routes API
-      let tollCost = null;
-      if (!avoidTolls) {
-        try {
-          const intermediates = waypoints.map((wp: any) => ({
-            location: { latLng: { latitude: wp.lat, longitude: wp.lng } }
-          }));
-
-          const routesBody: any = {
-            origin: { location: { latLng: { latitude: origin.lat, longitude: origin.lng } } },
-            destination: { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
-            travelMode: "DRIVE",
-            extraComputations: ["TOLLS"],
-            routeModifiers: {
-              vehicleInfo: {
-                emissionType: "DIESEL"
-              }
-            }
-          };
-
-          if (intermediates.length > 0) {
-            routesBody.intermediates = intermediates;
-          }
-
-          const routesResponse = await fetch("https://routes.googleapis.com/directions/v2:computeRoutes", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "X-Goog-Api-Key": apiKey,
-              "X-Goog-FieldMask": "routes.duration,routes.distanceMeters,routes.travelAdvisory.tollInfo,routes.legs.travelAdvisory.tollInfo",
-            },
-            body: JSON.stringify(routesBody),
-          });
-
-          const routesData = await routesResponse.json();
-          console.log("Routes API toll response:", JSON.stringify(routesData, null, 2));
-          
-          // Check for toll info at route level
-          if (routesData.routes?.[0]?.travelAdvisory?.tollInfo?.estimatedPrice?.[0]) {
-            const toll = routesData.routes[0].travelAdvisory.tollInfo.estimatedPrice[0];
-            const amount = parseFloat(toll.units || "0") + (parseFloat(toll.nanos || "0") / 1000000000);
-            tollCost = {
-              amount: amount.toFixed(2),
-              currency: toll.currencyCode || "BRL",
-            };
-          } 
-          // Check for toll info at legs level (sum all legs)
-          else if (routesData.routes?.[0]?.legs) {
-            let totalToll = 0;
-            let currency = "BRL";
-            for (const leg of routesData.routes[0].legs) {
-              if (leg.travelAdvisory?.tollInfo?.estimatedPrice?.[0]) {
-                const toll = leg.travelAdvisory.tollInfo.estimatedPrice[0];
-                totalToll += parseFloat(toll.units || "0") + (parseFloat(toll.nanos || "0") / 1000000000);
-                currency = toll.currencyCode || "BRL";
-              }
-            }
-            if (totalToll > 0) {
-              tollCost = {
-                amount: totalToll.toFixed(2),
-                currency,
-              };
-            }
-          }
-          
-          if (routesData.error) {
-            console.log("Routes API error:", routesData.error);
-          }
-          
-          // If no toll data from API, estimate based on distance
-          // Average toll cost in Brazil: ~R$ 0.15 per km for commercial vehicles
-          if (!tollCost && totalDistance > 100000) { // Only estimate for distances > 100km
-            const distanceKm = totalDistance / 1000;
-            const estimatedToll = distanceKm * 0.12; // R$ 0.12 per km average estimate
-            tollCost = {
-              amount: estimatedToll.toFixed(2),
-              currency: "BRL",
-              isEstimate: true,
-            };
-            console.log(`Toll estimated based on distance: R$ ${estimatedToll.toFixed(2)} for ${distanceKm.toFixed(0)} km`);
-          }
-        } catch (tollError) {
-          console.log("Could not fetch toll information:", tollError);
-          // Fallback estimation on error
-          if (totalDistance > 100000) {
-            const distanceKm = totalDistance / 1000;
-            const estimatedToll = distanceKm * 0.12;
-            tollCost = {
-              amount: estimatedToll.toFixed(2),
-              currency: "BRL",
-              isEstimate: true,
-            };
-          }
-        }
+      // Without toll data from the provider, long routes get the per-km average
+      let tollCost: { amount: string; currency: string; isEstimate?: boolean } | null = null;
+      if (!avoidTolls) {
+        if (route.toll) {
+          tollCost = { amount: route.toll.amount.toFixed(2), currency: route.toll.currency };
+        } else {
+          const estimate = estimateToll(route.distanceMeters);
+          if (estimate) tollCost = { amount: estimate.amount.toFixed(2), currency: estimate.currency, isEstimate: true };
+        }
       }
 
       // Format distance and duration
@@ -1990,30 +1963,60 @@ export async function registerRoutes(
         return `${minutes} mins`;
       };
 
+      // Engines without geocoding return no addresses; the coordinates stand in
+      const formatPoint = (point: { lat: number; lng: number }) => `${point.lat}, ${point.lng}`;
+
       // Extract waypoint addresses
       const waypointAddresses = waypoints.map((wp: any) => wp.address);
 
       const result = {
-        distance: { text: formatDistance(totalDistance), value: totalDistance },
-        duration: { text: formatDuration(totalDuration), value: totalDuration },
-        durationInTraffic: hasTrafficData 
-          ? { text: formatDuration(totalDurationInTraffic), value: totalDurationInTraffic }
+        distance: { text: formatDistance(route.distanceMeters), value: route.distanceMeters },
+        duration: { text: formatDuration(route.durationSeconds), value: route.durationSeconds },
+        durationInTraffic: route.durationInTrafficSeconds !== null
+          ? { text: formatDuration(route.durationInTrafficSeconds), value: route.durationInTrafficSeconds }
           : null,
         tollCost,
-        originAddress: legs[0].start_address,
-        destinationAddress: legs[legs.length - 1].end_address,
+        originAddress: route.legs[0]?.startAddress ?? formatPoint(points[0]),
+        destinationAddress: route.legs[route.legs.length - 1]?.endAddress ?? formatPoint(points[points.length - 1]),
         waypointAddresses: waypointAddresses.length > 0 ? waypointAddresses : undefined,
+        provider: route.provider,
       };
 
       res.json(result);
     } catch (error) {
+      if (error instanceof RouteNotFoundError) {
+        return res.status(400).json({ message: "Could not calculate route" });
+      }
+      if (error instanceof RoutingNotConfiguredError) {
+        return res.status(500).json({ message: error.message });
+      }
       console.error("Error calculating route:", error);
       res.status(500).json({ message: "Failed to calculate route" });
     }
   });
 
+  // Best visiting order for several stops, with legs, arrival times and toll estimates
+  app.post("/api/routing/sequence", isAuthenticatedJWT, requirePermission("rotograma", "read"), async (req, res) => {
+    try {
+      const parsed = routeSequenceRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      res.json(await sequenceRoute(parsed.data));
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RoutingNotConfiguredError) {
+        return res.status(500).json({ message: error.message });
+      }
+      console.error("Error sequencing route:", error);
+      res.status(500).json({ message: "Failed to sequence route" });
+    }
+  });
+
   // ============== PRESTAÇÃO DE CONTAS (Expense Settlements) ==============
-  app.get("/api/expense-settlements", async (req, res) => {
+  app.get("/api/expense-settlements", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
       const settlements = await storage.getExpenseSettlements();
       
@@ -2055,7 +2058,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/expense-settlements/:id", async (req, res) => {
+  app.get("/api/expense-settlements/:id", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
       const settlement = await storage.getExpenseSettlement(req.params.id);
       if (!settlement) {
@@ -2092,7 +2095,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/expense-settlements", async (req, res) => {
+  app.post("/api/expense-settlements", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
       // Check if there's already a settlement for this transport
       const existingSettlements = await storage.getExpenseSettlements();
@@ -2103,16 +2106,32 @@ export async function registerRoutes(
       
       // Get transport to copy route information
       const transport = await storage.getTransport(req.body.transportId);
+
+      // A trip has one settlement for the whole load, filed against its first delivery, with the trip's route
+      const trip = transport?.tripId ? await storage.getTrip(transport.tripId) : undefined;
+      if (trip && await storage.getExpenseSettlementByTrip(trip.id)) {
+        return res.status(400).json({ message: `Já existe uma prestação de contas para a viagem ${trip.tripNumber}` });
+      }
+      const route = trip ?? transport;
       
       const settlementData = {
         ...req.body,
+        transportId: trip ? (await storage.getTripTransports(trip.id))[0].id : req.body.transportId,
+        tripId: trip?.id ?? null,
         submittedAt: req.body.status === "enviado" ? new Date() : undefined,
-        routeDistance: transport?.routeDistanceKm ? `${transport.routeDistanceKm} km` : null,
-        estimatedTolls: transport?.estimatedTolls || null,
-        estimatedFuel: transport?.estimatedFuel || null,
+        routeDistance: route?.routeDistanceKm ? `${route.routeDistanceKm} km` : null,
+        estimatedTolls: route?.estimatedTolls || null,
+        estimatedFuel: route?.estimatedFuel || null,
       };
       
-      const settlement = await storage.createExpenseSettlement(settlementData);
+      const settlement = await storage.transaction(async (tx) => {
+        const created = await tx.createExpenseSettlement(settlementData);
+        await attachPendingDeductions(tx, created);
+        return (await tx.getExpenseSettlement(created.id))!;
+      });
+      if (settlement.status === "enviado") {
+        publishEvent({ type: "settlement.submitted", settlementId: settlement.id, transportId: settlement.transportId });
+      }
       res.status(201).json(settlement);
     } catch (error) {
       console.error("Error creating expense settlement:", error);
@@ -2120,12 +2139,22 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/expense-settlements/:id", async (req, res) => {
+  app.patch("/api/expense-settlements/:id", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
-      const settlement = await storage.updateExpenseSettlement(req.params.id, req.body);
+      const settlement = await storage.transaction(async (tx) => {
+        const updated = await tx.updateExpenseSettlement(req.params.id, req.body);
+        if (!updated) return undefined;
+        await syncSettlementAmounts(tx, updated.id);
+        await refreshSettlementFlags(tx, updated.id);
+        await postSettlementToLedger(tx, updated.id);
+        return tx.getExpenseSettlement(updated.id);
+      });
       if (!settlement) {
         return res.status(404).json({ message: "Expense settlement not found" });
       }
+      if (req.body.status === "enviado") {
+        publishEvent({ type: "settlement.submitted", settlementId: settlement.id, transportId: settlement.transportId });
+      }
       res.json(settlement);
     } catch (error) {
       console.error("Error updating expense settlement:", error);
@@ -2134,7 +2163,7 @@ export async function registerRoutes(
   });
 
   // Devolver prestação para motorista
-  app.post("/api/expense-settlements/:id/return", async (req, res) => {
+  app.post("/api/expense-settlements/:id/return", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "approve"), async (req, res) => {
     try {
       const { returnReason } = req.body;
       const settlement = await storage.updateExpenseSettlement(req.params.id, {
@@ -2145,6 +2174,7 @@ export async function registerRoutes(
       if (!settlement) {
         return res.status(404).json({ message: "Expense settlement not found" });
       }
+      publishEvent({ type: "settlement.reviewed", settlementId: settlement.id, transportId: settlement.transportId, status: "devolvido" });
       res.json(settlement);
     } catch (error) {
       console.error("Error returning expense settlement:", error);
@@ -2153,16 +2183,23 @@ export async function registerRoutes(
   });
 
   // Aprovar prestação de contas
-  app.post("/api/expense-settlements/:id/approve", async (req, res) => {
+  app.post("/api/expense-settlements/:id/approve", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "approve"), async (req, res) => {
     try {
-      const settlement = await storage.updateExpenseSettlement(req.params.id, {
-        status: "aprovado",
-        approvedAt: new Date(),
-        reviewedAt: new Date(),
+      const settlement = await storage.transaction(async (tx) => {
+        const approved = await tx.updateExpenseSettlement(req.params.id, {
+          status: "aprovado",
+          approvedAt: new Date(),
+          reviewedAt: new Date(),
+        });
+        if (!approved) return undefined;
+        // Approval books the expenses and deductions on the driver's ledger
+        await postSettlementToLedger(tx, approved.id);
+        return tx.getExpenseSettlement(approved.id);
       });
       if (!settlement) {
         return res.status(404).json({ message: "Expense settlement not found" });
       }
+      publishEvent({ type: "settlement.reviewed", settlementId: settlement.id, transportId: settlement.transportId, status: "aprovado" });
       res.json(settlement);
     } catch (error) {
       console.error("Error approving expense settlement:", error);
@@ -2171,7 +2208,7 @@ export async function registerRoutes(
   });
 
   // Gerar PDF da prestação de contas
-  app.get("/api/expense-settlements/:id/pdf", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/expense-settlements/:id/pdf", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
       const settlement = await storage.getExpenseSettlement(req.params.id);
       if (!settlement) {
@@ -2283,12 +2320,20 @@ export async function registerRoutes(
         let totalDespesas = 0;
         
         for (const item of items) {
-          const valor = parseFloat(item.amount || "0");
-          totalDespesas += valor;
+          const valor = expenseItemAmountBrl(item);
+          totalDespesas += valor ?? 0;
           
           doc.text(expenseTypeLabels[item.type] || item.type, col1, yPos);
           doc.text(item.description || "-", col2, yPos, { width: 180 });
-          doc.text(`R$ ${valor.toFixed(2).replace(".", ",")}`, col3, yPos);
+          doc.text(valor === null ? "Sem cotação" : `R$ ${valor.toFixed(2).replace(".", ",")}`, col3, yPos);
+          if (item.currency !== "BRL") {
+            // Valor original e cotação usada na conversão
+            const original = `${item.currency} ${parseFloat(item.amount || "0").toFixed(2).replace(".", ",")}`;
+            const rate = item.exchangeRate ? ` × ${parseFloat(item.exchangeRate).toFixed(6).replace(".", ",")}` : "";
+            doc.fontSize(8).text(`${original}${rate}`, col3, yPos + 12);
+            doc.fontSize(10);
+            yPos += 10;
+          }
           
           yPos += 20;
         }
@@ -2315,15 +2360,19 @@ export async function registerRoutes(
       }
 
       // Adiantamento e Saldo
-      const totalDespesasCalc = items?.reduce((sum, item) => sum + parseFloat(item.amount || "0"), 0) || 0;
+      const totalDespesasCalc = items?.reduce((sum, item) => sum + (expenseItemAmountBrl(item) ?? 0), 0) || 0;
       const advanceAmount = parseFloat(settlement.advanceAmount || "0");
-      const balance = totalDespesasCalc - advanceAmount;
+      const deductionsAmount = parseFloat(settlement.deductionsAmount || "0");
+      const balance = totalDespesasCalc - advanceAmount - deductionsAmount;
       
       doc.fontSize(14).font("Helvetica-Bold").text("ADIANTAMENTO E SALDO");
       doc.moveDown(0.5);
       doc.fontSize(11).font("Helvetica");
       doc.text(`Valor Adiantado: R$ ${advanceAmount.toFixed(2).replace(".", ",")}`);
       doc.text(`Total das Despesas: R$ ${totalDespesasCalc.toFixed(2).replace(".", ",")}`);
+      if (deductionsAmount > 0) {
+        doc.text(`Descontos por Avarias: R$ ${deductionsAmount.toFixed(2).replace(".", ",")}`);
+      }
       doc.moveDown(0.5);
       doc.fontSize(12).font("Helvetica-Bold");
       if (balance > 0) {
@@ -2365,7 +2414,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/expense-settlements/:id", async (req, res) => {
+  app.delete("/api/expense-settlements/:id", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "delete"), async (req, res) => {
     try {
       await storage.deleteExpenseSettlement(req.params.id);
       res.status(204).send();
@@ -2376,7 +2425,7 @@ export async function registerRoutes(
   });
 
   // Settlement Items
-  app.get("/api/expense-settlements/:settlementId/items", async (req, res) => {
+  app.get("/api/expense-settlements/:settlementId/items", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
       const items = await storage.getExpenseSettlementItems(req.params.settlementId);
       res.json(items);
@@ -2386,12 +2435,20 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/expense-settlements/:settlementId/items", async (req, res) => {
+  app.post("/api/expense-settlements/:settlementId/items", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
-      const item = await storage.createExpenseSettlementItem({
-        ...req.body,
-        settlementId: req.params.settlementId,
+      const item = await storage.transaction(async (tx) => {
+        const created = await tx.createExpenseSettlementItem({
+          ...req.body,
+          settlementId: req.params.settlementId,
+        });
+        await syncSettlementAmounts(tx, created.settlementId);
+        await refreshSettlementFlags(tx, created.settlementId);
+        await postSettlementToLedger(tx, created.settlementId);
+        await tx.queueReceiptExtraction(created.id);
+        return (await tx.getExpenseSettlementItem(created.id))!;
       });
+      kickReceiptExtractionQueue();
       res.status(201).json(item);
     } catch (error) {
       console.error("Error creating expense settlement item:", error);
@@ -2399,12 +2456,28 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/expense-settlement-items/:id", async (req, res) => {
+  app.patch("/api/expense-settlement-items/:id", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
-      const item = await storage.updateExpenseSettlementItem(req.params.id, req.body);
+      let photoReplaced = false;
+      const item = await storage.transaction(async (tx) => {
+        const before = await tx.getExpenseSettlementItem(req.params.id);
+        const updated = await tx.updateExpenseSettlementItem(req.params.id, req.body);
+        if (!before || !updated) return undefined;
+        await syncSettlementAmounts(tx, updated.settlementId);
+        await refreshSettlementFlags(tx, updated.settlementId);
+        await postSettlementToLedger(tx, updated.settlementId);
+        photoReplaced = updated.photoUrl !== before.photoUrl;
+        if (photoReplaced) {
+          await tx.queueReceiptExtraction(updated.id);
+        } else {
+          await refreshReceiptMismatches(tx, updated.id);
+        }
+        return tx.getExpenseSettlementItem(updated.id);
+      });
       if (!item) {
         return res.status(404).json({ message: "Expense settlement item not found" });
       }
+      if (photoReplaced) kickReceiptExtractionQueue();
       res.json(item);
     } catch (error) {
       console.error("Error updating expense settlement item:", error);
@@ -2412,9 +2485,16 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/expense-settlement-items/:id", async (req, res) => {
+  app.delete("/api/expense-settlement-items/:id", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "delete"), async (req, res) => {
     try {
-      await storage.deleteExpenseSettlementItem(req.params.id);
+      await storage.transaction(async (tx) => {
+        const item = await tx.getExpenseSettlementItem(req.params.id);
+        if (!item) return;
+        await tx.deleteExpenseSettlementItem(item.id);
+        await syncSettlementAmounts(tx, item.settlementId);
+        await refreshSettlementFlags(tx, item.settlementId);
+        await postSettlementToLedger(tx, item.settlementId);
+      });
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting expense settlement item:", error);
@@ -2422,1736 +2502,2899 @@ export async function registerRoutes(
     }
   });
 
-  // Checkpoints
-  app.get("/api/checkpoints", async (req, res) => {
+  // Receipt OCR: values read from the photos, mismatches with the typed ones and duplicate receipts
+  app.get("/api/expense-settlements/:id/receipt-extractions", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
-      const checkpoints = await storage.getCheckpoints();
-      res.json(checkpoints);
+      const extractions = await getSettlementReceiptExtractions(req.params.id);
+      res.json(extractions);
     } catch (error) {
-      console.error("Error fetching checkpoints:", error);
-      res.status(500).json({ message: "Failed to fetch checkpoints" });
+      console.error("Error fetching receipt extractions:", error);
+      res.status(500).json({ message: "Failed to fetch receipt extractions" });
     }
   });
 
-  app.get("/api/checkpoints/:id", async (req, res) => {
+  // Reads every receipt of the settlement again
+  app.post("/api/expense-settlements/:id/receipt-extractions", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
-      const checkpoint = await storage.getCheckpoint(req.params.id);
-      if (!checkpoint) {
-        return res.status(404).json({ message: "Checkpoint not found" });
+      const settlement = await storage.getExpenseSettlement(req.params.id);
+      if (!settlement) {
+        return res.status(404).json({ message: "Expense settlement not found" });
       }
-      res.json(checkpoint);
+      const queued = await storage.transaction(async (tx) => {
+        const items = await tx.getExpenseSettlementItems(settlement.id);
+        for (const item of items) {
+          await tx.queueReceiptExtraction(item.id);
+        }
+        return items.length;
+      });
+      kickReceiptExtractionQueue();
+      res.status(202).json({ queued });
     } catch (error) {
-      console.error("Error fetching checkpoint:", error);
-      res.status(500).json({ message: "Failed to fetch checkpoint" });
+      console.error("Error queueing receipt extractions:", error);
+      res.status(500).json({ message: "Failed to queue receipt extractions" });
     }
   });
 
-  app.post("/api/checkpoints", async (req, res) => {
+  app.post("/api/expense-settlement-items/:id/receipt-extraction", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
-      const parsed = insertCheckpointSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ message: "Invalid checkpoint data", errors: parsed.error.errors });
+      const item = await storage.getExpenseSettlementItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Expense settlement item not found" });
       }
-      const checkpoint = await storage.createCheckpoint(parsed.data);
-      res.status(201).json(checkpoint);
+      const extraction = await storage.queueReceiptExtraction(item.id);
+      kickReceiptExtractionQueue();
+      res.status(202).json(extraction);
     } catch (error) {
-      console.error("Error creating checkpoint:", error);
-      res.status(500).json({ message: "Failed to create checkpoint" });
+      console.error("Error queueing receipt extraction:", error);
+      res.status(500).json({ message: "Failed to queue receipt extraction" });
     }
   });
 
-  app.patch("/api/checkpoints/:id", async (req, res) => {
+  // Replaces the typed values with the ones read from the receipt
+  app.post("/api/expense-settlement-items/:id/receipt-extraction/apply", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "write"), async (req, res) => {
     try {
-      const checkpoint = await storage.updateCheckpoint(req.params.id, req.body);
-      if (!checkpoint) {
-        return res.status(404).json({ message: "Checkpoint not found" });
+      const extraction = await storage.getReceiptExtraction(req.params.id);
+      if (!extraction || extraction.status !== "concluido") {
+        return res.status(409).json({ message: "Leitura do comprovante não concluída" });
       }
-      res.json(checkpoint);
+      const update = receiptProposalUpdate(extraction);
+      if (Object.keys(update).length === 0) {
+        return res.status(409).json({ message: "Nenhum valor foi lido do comprovante" });
+      }
+      const item = await storage.transaction(async (tx) => {
+        const updated = await tx.updateExpenseSettlementItem(extraction.itemId, update);
+        if (!updated) return undefined;
+        await syncSettlementAmounts(tx, updated.settlementId);
+        await refreshSettlementFlags(tx, updated.settlementId);
+        await postSettlementToLedger(tx, updated.settlementId);
+        await refreshReceiptMismatches(tx, updated.id);
+        return tx.getExpenseSettlementItem(updated.id);
+      });
+      if (!item) {
+        return res.status(404).json({ message: "Expense settlement item not found" });
+      }
+      res.json(item);
     } catch (error) {
-      console.error("Error updating checkpoint:", error);
-      res.status(500).json({ message: "Failed to update checkpoint" });
+      console.error("Error applying receipt extraction:", error);
+      res.status(500).json({ message: "Failed to apply receipt extraction" });
     }
   });
 
-  app.delete("/api/checkpoints/:id", async (req, res) => {
+  // Per-category comparison of the receipts with the route estimates and the expense policy
+  app.get("/api/expense-settlements/:id/reconciliation", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
-      await storage.deleteCheckpoint(req.params.id);
-      res.status(204).send();
+      const reconciliation = await reconcileSettlement(storage, req.params.id);
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Expense settlement not found" });
+      }
+      res.json(reconciliation);
     } catch (error) {
-      console.error("Error deleting checkpoint:", error);
-      res.status(500).json({ message: "Failed to delete checkpoint" });
+      console.error("Error reconciling expense settlement:", error);
+      res.status(500).json({ message: "Failed to reconcile expense settlement" });
     }
   });
 
-  // Transport Checkpoints - Timeline
-  app.post("/api/transports/:id/checkpoints", isAuthenticatedJWT, async (req, res) => {
+  // Expense Policies
+  app.get("/api/expense-policies", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "read"), async (req, res) => {
     try {
-      const transportId = req.params.id;
-      const { checkpointIds } = req.body as { checkpointIds: string[] };
-
-      await db.delete(transportCheckpoints).where(eq(transportCheckpoints.transportId, transportId));
+      const policies = await storage.getExpensePolicies();
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching expense policies:", error);
+      res.status(500).json({ message: "Failed to fetch expense policies" });
+    }
+  });
 
-      if (checkpointIds && checkpointIds.length > 0) {
-        const newCheckpoints = checkpointIds.map((checkpointId, index) => ({
-          transportId,
-          checkpointId,
-          orderIndex: index + 1,
-          status: "pendente",
-        }));
-        await db.insert(transportCheckpoints).values(newCheckpoints);
+  // Saving a policy re-flags every settlement still under review
+  app.put("/api/expense-policies/:type", isAuthenticatedJWT, requirePermission("prestacao-de-contas", "approve"), async (req, res) => {
+    try {
+      const expenseType = req.params.type as ExpenseType;
+      if (!expenseTypeEnum.enumValues.includes(expenseType)) {
+        return res.status(400).json({ message: "Tipo de despesa inválido" });
       }
-
-      res.json({ message: "Checkpoints assigned successfully" });
+      const parsed = insertExpensePolicySchema.safeParse({ ...req.body, expenseType });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
+      }
+      const policy = await storage.transaction(async (tx) => {
+        const saved = await tx.upsertExpensePolicy(parsed.data);
+        const open = (await tx.getExpenseSettlements()).filter((s) => s.status !== "aprovado" && s.status !== "assinado");
+        for (const settlement of open) {
+          await refreshSettlementFlags(tx, settlement.id);
+        }
+        return saved;
+      });
+      res.json(policy);
     } catch (error) {
-      console.error("Error assigning checkpoints:", error);
-      res.status(500).json({ message: "Failed to assign checkpoints" });
+      console.error("Error saving expense policy:", error);
+      res.status(500).json({ message: "Failed to save expense policy" });
     }
   });
 
-  app.patch("/api/transport-checkpoints/:id/status", isAuthenticatedJWT, async (req, res) => {
+  // Exchange Rates (BRL per unit of the foreign currencies accepted on receipts)
+  app.get("/api/exchange-rates", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
     try {
-      const { status, latitude, longitude } = req.body;
-      const updated = await db.update(transportCheckpoints)
-        .set({
-          status,
-          latitude,
-          longitude,
-          reachedAt: status === "alcancado" || status === "concluido" ? new Date() : null,
-        })
-        .where(eq(transportCheckpoints.id, req.params.id))
-        .returning();
-      
-      if (updated.length === 0) {
-        return res.status(404).json({ message: "Transport checkpoint not found" });
+      const currency = req.query.currency as string | undefined;
+      const parsed = insertExchangeRateSchema.shape.currency.optional().safeParse(currency);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Moeda inválida" });
       }
-      res.json(updated[0]);
+      const rates = await storage.getExchangeRates(parsed.data);
+      res.json(rates);
     } catch (error) {
-      console.error("Error updating transport checkpoint:", error);
-      res.status(500).json({ message: "Failed to update transport checkpoint" });
+      console.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
     }
   });
 
-  // ============== EVALUATION CRITERIA ==============
+  app.post("/api/exchange-rates", isAuthenticatedJWT, requirePermission("financeiro", "write"), async (req, res) => {
+    try {
+      const parsed = insertExchangeRateSchema.safeParse({ ...req.body, source: "manual" });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
+      }
+      const rate = await storage.transaction(async (tx) => {
+        const saved = await tx.upsertExchangeRate(parsed.data);
+        for (const settlementId of await reconvertOpenSettlements(tx, [saved.currency])) {
+          await refreshSettlementFlags(tx, settlementId);
+        }
+        return saved;
+      });
+      res.status(201).json(rate);
+    } catch (error) {
+      console.error("Error saving exchange rate:", error);
+      res.status(500).json({ message: "Failed to save exchange rate" });
+    }
+  });
 
-  app.get("/api/evaluation-criteria", isAuthenticatedJWT, async (req, res) => {
+  // CSV body as text: PTAX file from the Banco Central or a "data;moeda;cotacao" sheet
+  app.post("/api/exchange-rates/import", isAuthenticatedJWT, requirePermission("financeiro", "write"), async (req, res) => {
     try {
-      const criteria = await db.select().from(evaluationCriteria).orderBy(evaluationCriteria.order);
-      res.json(criteria);
+      if (typeof req.body.csv !== "string" || !req.body.csv.trim()) {
+        return res.status(400).json({ message: "Arquivo CSV vazio" });
+      }
+      const { rates, skipped } = parseRatesCsv(req.body.csv);
+      await storage.transaction(async (tx) => {
+        for (const rate of rates) {
+          await tx.upsertExchangeRate(rate);
+        }
+        const currencies = Array.from(new Set(rates.map((r) => r.currency)));
+        for (const settlementId of await reconvertOpenSettlements(tx, currencies)) {
+          await refreshSettlementFlags(tx, settlementId);
+        }
+      });
+      res.json({ imported: rates.length, skipped });
     } catch (error) {
-      console.error("Error fetching evaluation criteria:", error);
-      res.status(500).json({ message: "Failed to fetch evaluation criteria" });
+      if (error instanceof InvalidRatesFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing exchange rates:", error);
+      res.status(500).json({ message: "Failed to import exchange rates" });
     }
   });
 
-  app.post("/api/evaluation-criteria", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/exchange-rates/:id", isAuthenticatedJWT, requirePermission("financeiro", "delete"), async (req, res) => {
     try {
-      const data = insertEvaluationCriteriaSchema.parse(req.body);
-      const [criteria] = await db.insert(evaluationCriteria).values(data).returning();
-      res.status(201).json(criteria);
+      await storage.transaction(async (tx) => {
+        const deleted = await tx.deleteExchangeRate(req.params.id);
+        if (!deleted) return;
+        for (const settlementId of await reconvertOpenSettlements(tx, [deleted.currency])) {
+          await refreshSettlementFlags(tx, settlementId);
+        }
+      });
+      res.status(204).send();
     } catch (error) {
-      console.error("Error creating evaluation criteria:", error);
-      res.status(500).json({ message: "Failed to create evaluation criteria" });
+      console.error("Error deleting exchange rate:", error);
+      res.status(500).json({ message: "Failed to delete exchange rate" });
     }
   });
 
-  app.patch("/api/evaluation-criteria/:id", isAuthenticatedJWT, async (req, res) => {
+  // Driver Ledger (current account per driver: advances, approved expenses, deductions, contract pay, payments)
+  app.get("/api/drivers/:id/ledger", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const [updated] = await db.update(evaluationCriteria)
-        .set(req.body)
-        .where(eq(evaluationCriteria.id, id))
-        .returning();
-      if (!updated) return res.status(404).json({ message: "Criteria not found" });
-      res.json(updated);
+      const parseDay = (value: unknown) =>
+        typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : undefined;
+      const from = parseDay(req.query.from);
+      const to = parseDay(req.query.to);
+      // "to" is inclusive
+      if (to) to.setDate(to.getDate() + 1);
+      const statement = await getDriverStatement(req.params.id, from, to);
+      res.json(statement);
     } catch (error) {
-      console.error("Error updating evaluation criteria:", error);
-      res.status(500).json({ message: "Failed to update evaluation criteria" });
+      console.error("Error fetching driver ledger:", error);
+      res.status(500).json({ message: "Failed to fetch driver ledger" });
     }
   });
 
-  app.delete("/api/evaluation-criteria/:id", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/drivers/:id/ledger", isAuthenticatedJWT, requirePermission("financeiro", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const { id } = req.params;
-      const scoresUsing = await db.select().from(evaluationScores).where(eq(evaluationScores.criteriaId, id)).limit(1);
-      if (scoresUsing.length > 0) {
-        await db.update(evaluationCriteria).set({ isActive: "false" }).where(eq(evaluationCriteria.id, id));
-        return res.json({ message: "Criteria deactivated (has existing evaluations)" });
+      const parsed = manualDriverLedgerEntrySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Dados inválidos", errors: parsed.error.errors });
       }
-      await db.delete(evaluationCriteria).where(eq(evaluationCriteria.id, id));
-      res.json({ message: "Criteria deleted" });
+      const entry = await createManualLedgerEntry(req.params.id, parsed.data, req.user?.id ?? null);
+      res.status(201).json(entry);
     } catch (error) {
-      console.error("Error deleting evaluation criteria:", error);
-      res.status(500).json({ message: "Failed to delete evaluation criteria" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating driver ledger entry:", error);
+      res.status(500).json({ message: "Failed to create driver ledger entry" });
     }
   });
 
-  app.put("/api/evaluation-criteria/bulk-update", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/driver-ledger/:id", isAuthenticatedJWT, requirePermission("financeiro", "delete"), async (req, res) => {
     try {
-      const { criteria } = req.body as { criteria: { id: string; weight: string; order: number; penaltyLeve?: string; penaltyMedio?: string; penaltyGrave?: string }[] };
-      for (const c of criteria) {
-        const updateData: any = { weight: c.weight, order: c.order };
-        if (c.penaltyLeve !== undefined) updateData.penaltyLeve = c.penaltyLeve;
-        if (c.penaltyMedio !== undefined) updateData.penaltyMedio = c.penaltyMedio;
-        if (c.penaltyGrave !== undefined) updateData.penaltyGrave = c.penaltyGrave;
-        await db.update(evaluationCriteria)
-          .set(updateData)
-          .where(eq(evaluationCriteria.id, c.id));
+      await deleteManualLedgerEntry(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      const updated = await db.select().from(evaluationCriteria).orderBy(evaluationCriteria.order);
-      res.json(updated);
+      console.error("Error deleting driver ledger entry:", error);
+      res.status(500).json({ message: "Failed to delete driver ledger entry" });
+    }
+  });
+
+  app.get("/api/driver-ledger/balances", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const [balances, drivers] = await Promise.all([storage.getDriverLedgerBalances(), storage.getDrivers()]);
+      res.json(balances
+        .filter((b) => Math.abs(b.balance) >= 0.01)
+        .map((b) => ({ ...b, driverName: drivers.find((d) => d.id === b.driverId)?.name ?? null }))
+        .sort((a, b) => b.balance - a.balance));
     } catch (error) {
-      console.error("Error bulk updating evaluation criteria:", error);
-      res.status(500).json({ message: "Failed to bulk update evaluation criteria" });
+      console.error("Error fetching driver balances:", error);
+      res.status(500).json({ message: "Failed to fetch driver balances" });
     }
   });
 
-  // ============== DRIVER EVALUATIONS ==============
-  
-  const ratingToNumber = (rating: string): number => {
-    const map: Record<string, number> = {
-      pessimo: 1,
-      ruim: 2,
-      regular: 3,
-      bom: 4,
-      excelente: 5,
-    };
-    return map[rating] || 3;
-  };
+  // Driver Payment Batches
+  app.get("/api/driver-payment-batches", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const batches = await storage.getDriverPaymentBatches();
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching payment batches:", error);
+      res.status(500).json({ message: "Failed to fetch payment batches" });
+    }
+  });
 
-  // Financial Dashboard
-  app.get("/api/financial-dashboard", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/driver-payment-batches", isAuthenticatedJWT, requirePermission("financeiro", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const allSettlements = await db.select().from(expenseSettlements);
-      const allItems = await db.select().from(expenseSettlementItems);
-      const allDrivers = await db.select().from(drivers);
-      const allTransports = await db.select().from(transports);
+      const { driverIds, notes } = req.body;
+      if (driverIds !== undefined && (!Array.isArray(driverIds) || driverIds.some((id: unknown) => typeof id !== "string"))) {
+        return res.status(400).json({ message: "driverIds deve ser uma lista de IDs" });
+      }
+      const batch = await createPaymentBatch(driverIds, req.user?.id ?? null, typeof notes === "string" ? notes : undefined);
+      res.status(201).json(batch);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating payment batch:", error);
+      res.status(500).json({ message: "Failed to create payment batch" });
+    }
+  });
 
-      let totalEstimated = 0;
-      let totalActual = 0;
-      let approvedCount = 0;
-      let pendingCount = 0;
-      let rejectedCount = 0;
+  app.get("/api/driver-payment-batches/:id/export", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const { batch, csv } = await exportPaymentBatchCsv(req.params.id);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=${batch.reference}.csv`);
+      // BOM so spreadsheet apps pick up the accents
+      res.send("\uFEFF" + csv);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error exporting payment batch:", error);
+      res.status(500).json({ message: "Failed to export payment batch" });
+    }
+  });
 
-      const monthlyMap: Record<string, { estimated: number; actual: number }> = {};
-      const driverMap: Record<string, { name: string; totalDiff: number; count: number }> = {};
-      const offenders: { driverName: string; driverId: string; transportRequestNumber: string; estimated: number; actual: number; difference: number; differencePercent: number }[] = [];
-      const expenseTypeMap: Record<string, { total: number; count: number }> = {};
+  app.post("/api/driver-payment-batches/:id/paid", isAuthenticatedJWT, requirePermission("financeiro", "approve"), async (req, res) => {
+    try {
+      const batch = await markPaymentBatchPaid(req.params.id);
+      res.json(batch);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error marking payment batch as paid:", error);
+      res.status(500).json({ message: "Failed to mark payment batch as paid" });
+    }
+  });
 
-      for (const settlement of allSettlements) {
-        const transport = allTransports.find(t => t.id === settlement.transportId);
-        const driver = allDrivers.find(d => d.id === settlement.driverId);
-        
-        const estimated = parseFloat(settlement.estimatedTolls || "0") + parseFloat(settlement.estimatedFuel || "0");
-        const actual = parseFloat(settlement.totalExpenses || "0");
-        const difference = actual - estimated;
+  app.delete("/api/driver-payment-batches/:id", isAuthenticatedJWT, requirePermission("financeiro", "delete"), async (req, res) => {
+    try {
+      await cancelPaymentBatch(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling payment batch:", error);
+      res.status(500).json({ message: "Failed to cancel payment batch" });
+    }
+  });
 
-        totalEstimated += estimated;
-        totalActual += actual;
+  // Driver Payroll (pay statements per period, calculated from each driver's contract)
+  app.get("/api/payroll-runs", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const runs = await storage.getPayrollRuns();
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching payroll runs:", error);
+      res.status(500).json({ message: "Failed to fetch payroll runs" });
+    }
+  });
 
-        if (settlement.status === "aprovado" || settlement.status === "assinado") approvedCount++;
-        else if (settlement.status === "pendente" || settlement.status === "em_analise") pendingCount++;
-        else if (settlement.status === "devolvido") rejectedCount++;
+  app.get("/api/payroll-runs/:id", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const run = await getPayrollRunDetail(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "Folha não encontrada" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching payroll run:", error);
+      res.status(500).json({ message: "Failed to fetch payroll run" });
+    }
+  });
 
-        // Monthly aggregation
-        if (settlement.submittedAt) {
-          const date = new Date(settlement.submittedAt);
-          const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
-          if (!monthlyMap[monthKey]) monthlyMap[monthKey] = { estimated: 0, actual: 0 };
-          monthlyMap[monthKey].estimated += estimated;
-          monthlyMap[monthKey].actual += actual;
-        }
+  app.post("/api/payroll-runs", isAuthenticatedJWT, requirePermission("financeiro", "write"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const parsed = createPayrollRunSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      const run = await createPayrollRun(parsed.data, req.user?.id ?? null);
+      res.status(201).json(run);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating payroll run:", error);
+      res.status(500).json({ message: "Failed to create payroll run" });
+    }
+  });
 
-        // Driver aggregation
-        if (driver) {
-          if (!driverMap[driver.id]) driverMap[driver.id] = { name: driver.name, totalDiff: 0, count: 0 };
-          driverMap[driver.id].totalDiff += difference;
-          driverMap[driver.id].count += 1;
-        }
+  app.post("/api/payroll-runs/:id/recalculate", isAuthenticatedJWT, requirePermission("financeiro", "write"), async (req, res) => {
+    try {
+      const run = await recalculatePayrollRun(req.params.id);
+      res.json(run);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error recalculating payroll run:", error);
+      res.status(500).json({ message: "Failed to recalculate payroll run" });
+    }
+  });
 
-        // Offenders list
-        if (estimated > 0) {
-          offenders.push({
-            driverName: driver?.name || "Desconhecido",
-            driverId: settlement.driverId,
-            transportRequestNumber: transport?.requestNumber || "-",
-            estimated,
-            actual,
-            difference,
-            differencePercent: (difference / estimated) * 100,
-          });
-        }
+  app.post("/api/payroll-runs/:id/approve", isAuthenticatedJWT, requirePermission("financeiro", "approve"), async (req: AuthenticatedRequest, res) => {
+    try {
+      const run = await approvePayrollRun(req.params.id, req.user?.id ?? null);
+      res.json(run);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error approving payroll run:", error);
+      res.status(500).json({ message: "Failed to approve payroll run" });
+    }
+  });
 
-        // Expense type breakdown from items
-        const items = allItems.filter(i => i.settlementId === settlement.id);
-        for (const item of items) {
-          const type = item.type || "outros";
-          if (!expenseTypeMap[type]) expenseTypeMap[type] = { total: 0, count: 0 };
-          expenseTypeMap[type].total += parseFloat(item.amount || "0");
-          expenseTypeMap[type].count += 1;
-        }
+  app.get("/api/payroll-runs/:id/export", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const { run, csv } = await exportPayrollRunCsv(req.params.id);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=${run.reference}.csv`);
+      res.send("\uFEFF" + csv);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error("Error exporting payroll run:", error);
+      res.status(500).json({ message: "Failed to export payroll run" });
+    }
+  });
 
-      const totalDifference = totalActual - totalEstimated;
-      const differencePercent = totalEstimated > 0 ? (totalDifference / totalEstimated) * 100 : 0;
-      const avgDifference = allSettlements.length > 0 ? totalDifference / allSettlements.length : 0;
-      const avgDifferencePercent = totalEstimated > 0 ? Math.abs(avgDifference / (totalEstimated / allSettlements.length)) * 100 : 0;
-      const approvalRate = allSettlements.length > 0 ? (approvedCount / allSettlements.length) * 100 : 0;
+  // All statements of the run, or only one driver's with ?driverId=
+  app.get("/api/payroll-runs/:id/pdf", isAuthenticatedJWT, requirePermission("financeiro", "read"), async (req, res) => {
+    try {
+      const driverId = typeof req.query.driverId === "string" ? req.query.driverId : undefined;
+      const { run, pdf } = await renderPayrollPdf(req.params.id, driverId);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename=${run.reference}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error generating payroll PDF:", error);
+      res.status(500).json({ message: "Failed to generate payroll PDF" });
+    }
+  });
 
-      // Monthly data sorted
-      const monthlyData = Object.entries(monthlyMap)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .slice(-12)
-        .map(([month, data]) => ({
-          month: new Date(month + "-01").toLocaleDateString("pt-BR", { month: "short", year: "2-digit" }),
-          estimated: data.estimated,
-          actual: data.actual,
-          difference: data.actual - data.estimated,
-        }));
+  app.delete("/api/payroll-runs/:id", isAuthenticatedJWT, requirePermission("financeiro", "delete"), async (req, res) => {
+    try {
+      await deletePayrollRun(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting payroll run:", error);
+      res.status(500).json({ message: "Failed to delete payroll run" });
+    }
+  });
 
-      // Top offenders
-      const topOverspenders = offenders
-        .filter(o => o.difference > 0)
-        .sort((a, b) => b.difference - a.difference)
-        .slice(0, 10);
+  // Checkpoints
+  app.get("/api/checkpoints", isAuthenticatedJWT, requirePermission("checkpoints", "read"), async (req, res) => {
+    try {
+      const checkpoints = await storage.getCheckpoints();
+      res.json(checkpoints);
+    } catch (error) {
+      console.error("Error fetching checkpoints:", error);
+      res.status(500).json({ message: "Failed to fetch checkpoints" });
+    }
+  });
 
-      const topUnderspenders = offenders
-        .filter(o => o.difference < 0)
-        .sort((a, b) => a.difference - b.difference)
-        .slice(0, 10);
+  app.get("/api/checkpoints/:id", isAuthenticatedJWT, requirePermission("checkpoints", "read"), async (req, res) => {
+    try {
+      const checkpoint = await storage.getCheckpoint(req.params.id);
+      if (!checkpoint) {
+        return res.status(404).json({ message: "Checkpoint not found" });
+      }
+      res.json(checkpoint);
+    } catch (error) {
+      console.error("Error fetching checkpoint:", error);
+      res.status(500).json({ message: "Failed to fetch checkpoint" });
+    }
+  });
 
-      // Expense breakdown
-      const typeLabels: Record<string, string> = {
-        pedagio: "Pedagio",
-        combustivel: "Combustivel",
-        alimentacao: "Alimentacao",
-        hospedagem: "Hospedagem",
-        manutencao: "Manutencao",
-        outros: "Outros",
-      };
-      const expenseBreakdown = Object.entries(expenseTypeMap).map(([type, data]) => ({
-        type,
-        label: typeLabels[type] || type,
-        total: data.total,
-        count: data.count,
-      }));
+  app.post("/api/checkpoints", isAuthenticatedJWT, requirePermission("checkpoints", "write"), async (req, res) => {
+    try {
+      const parsed = insertCheckpointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid checkpoint data", errors: parsed.error.errors });
+      }
+      const checkpoint = await storage.createCheckpoint(parsed.data);
+      res.status(201).json(checkpoint);
+    } catch (error) {
+      console.error("Error creating checkpoint:", error);
+      res.status(500).json({ message: "Failed to create checkpoint" });
+    }
+  });
 
-      // Driver ranking
-      const driverRanking = Object.entries(driverMap)
-        .map(([id, data]) => ({
-          driverName: data.name,
-          totalSettlements: data.count,
-          avgDifference: data.count > 0 ? data.totalDiff / data.count : 0,
-          totalDifference: data.totalDiff,
-        }))
-        .sort((a, b) => b.totalDifference - a.totalDifference);
+  app.patch("/api/checkpoints/:id", isAuthenticatedJWT, requirePermission("checkpoints", "write"), async (req, res) => {
+    try {
+      const checkpoint = await storage.updateCheckpoint(req.params.id, req.body);
+      if (!checkpoint) {
+        return res.status(404).json({ message: "Checkpoint not found" });
+      }
+      res.json(checkpoint);
+    } catch (error) {
+      console.error("Error updating checkpoint:", error);
+      res.status(500).json({ message: "Failed to update checkpoint" });
+    }
+  });
 
-      res.json({
-        stats: {
-          totalEstimated,
-          totalActual,
-          totalDifference,
-          differencePercent,
-          avgDifference,
-          avgDifferencePercent,
-          totalSettlements: allSettlements.length,
-          approvedCount,
-          pendingCount,
-          rejectedCount,
-          approvalRate,
-        },
-        monthlyData,
-        topOverspenders,
-        topUnderspenders,
-        expenseBreakdown,
-        driverRanking,
-      });
+  app.delete("/api/checkpoints/:id", isAuthenticatedJWT, requirePermission("checkpoints", "delete"), async (req, res) => {
+    try {
+      await storage.deleteCheckpoint(req.params.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching financial dashboard:", error);
-      res.status(500).json({ message: "Erro ao buscar dashboard financeiro" });
+      console.error("Error deleting checkpoint:", error);
+      res.status(500).json({ message: "Failed to delete checkpoint" });
     }
   });
 
-  // Driver Ranking
-  app.get("/api/driver-ranking", isAuthenticatedJWT, async (req, res) => {
+  // Transport Checkpoints - Timeline
+  app.post("/api/transports/:id/checkpoints", isAuthenticatedJWT, requirePermission("timeline-checkpoints", "write"), async (req, res) => {
     try {
-      const allDrivers = await db.select().from(drivers);
-      const allTransports = await db.select().from(transports).where(eq(transports.status, "entregue"));
-      const allEvaluations = await db.select().from(driverEvaluations);
+      const transportId = req.params.id;
+      const { checkpointIds } = req.body as { checkpointIds: string[] };
 
-      const now = new Date();
-      const oneMonthAgo = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
+      await db.delete(transportCheckpoints).where(eq(transportCheckpoints.transportId, transportId));
 
-      const driverData = allDrivers.map(driver => {
-        const driverTrips = allTransports.filter(t => t.driverId === driver.id);
-        const driverEvals = allEvaluations.filter(e => e.driverId === driver.id);
-        const tripsLastMonth = driverTrips.filter(t => {
-          const checkoutDate = t.checkoutDateTime ? new Date(t.checkoutDateTime) : null;
-          return checkoutDate && checkoutDate >= oneMonthAgo;
-        }).length;
+      if (checkpointIds && checkpointIds.length > 0) {
+        const newCheckpoints = checkpointIds.map((checkpointId, index) => ({
+          transportId,
+          checkpointId,
+          orderIndex: index + 1,
+          status: "pendente",
+        }));
+        await db.insert(transportCheckpoints).values(newCheckpoints);
+      }
 
-        const incidentCount = driverEvals.filter(e => e.hadIncident === "true").length;
+      res.json({ message: "Checkpoints assigned successfully" });
+    } catch (error) {
+      console.error("Error assigning checkpoints:", error);
+      res.status(500).json({ message: "Failed to assign checkpoints" });
+    }
+  });
 
-        let averageScore: number | null = null;
-        if (driverEvals.length > 0) {
-          const totalScore = driverEvals.reduce((sum, e) => sum + parseFloat(e.weightedScore || e.averageScore || "0"), 0);
-          averageScore = totalScore / driverEvals.length;
+  app.patch("/api/transport-checkpoints/:id/status", isAuthenticatedJWT, requirePermission("timeline-checkpoints", "write"), async (req, res) => {
+    try {
+      const { status, latitude, longitude } = req.body;
+      const result = await storage.transaction(async (tx) => {
+        const current = await tx.getTransportCheckpointForUpdate(req.params.id);
+        if (!current) return undefined;
+
+        const transportCheckpoint = await tx.updateTransportCheckpoint(current.id, {
+          status,
+          latitude,
+          longitude,
+          reachedAt: status === "alcancado" || status === "concluido" ? new Date() : null,
+        });
+        if (current.status !== status) {
+          await tx.createCheckpointEvent({
+            transportCheckpointId: current.id,
+            transportId: current.transportId,
+            checkpointId: current.checkpointId,
+            status,
+            source: "manual",
+            latitude: latitude ?? null,
+            longitude: longitude ?? null,
+            occurredAt: new Date(),
+          });
         }
+        return { current, updated: transportCheckpoint! };
+      });
 
-        return {
-          id: driver.id,
-          name: driver.name,
-          cpf: driver.cpf,
-          city: driver.city,
-          state: driver.state,
-          birthDate: driver.birthDate,
-          modality: driver.modality,
-          totalTrips: driverTrips.length,
-          tripsLastMonth,
-          averageScore,
-          totalEvaluations: driverEvals.length,
-          incidentCount,
-        };
+      if (!result) {
+        return res.status(404).json({ message: "Transport checkpoint not found" });
+      }
+      const { current, updated } = result;
+      if (current.status !== status && (status === "alcancado" || status === "concluido")) {
+        publishEvent({
+          type: status === "alcancado" ? "checkpoint.reached" : "checkpoint.completed",
+          transportId: current.transportId,
+          transportCheckpointId: current.id,
+          checkpointId: current.checkpointId,
+          source: "manual",
+        });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating transport checkpoint:", error);
+      res.status(500).json({ message: "Failed to update transport checkpoint" });
+    }
+  });
+
+  // Arrival/departure feed for the timeline, newest first
+  app.get("/api/checkpoint-events", isAuthenticatedJWT, requirePermission("timeline-checkpoints", "read"), async (req, res) => {
+    try {
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Invalid since date" });
+      }
+      const limit = Math.min(parseInt((req.query.limit as string) || "50", 10) || 50, 200);
+
+      const events = await storage.getCheckpointEvents({
+        since,
+        transportId: req.query.transportId as string | undefined,
+        limit,
       });
 
-      const driversWithScore = driverData.filter(d => d.averageScore !== null);
-      const topDrivers = [...driversWithScore]
-        .sort((a, b) => (b.averageScore || 0) - (a.averageScore || 0))
-        .slice(0, 10);
-      const bottomDrivers = [...driversWithScore]
-        .sort((a, b) => (a.averageScore || 0) - (b.averageScore || 0))
-        .slice(0, 10);
+      const checkpointList = await storage.getCheckpoints();
+      const checkpointMap = new Map(checkpointList.map((c) => [c.id, c]));
+      const transportIds = Array.from(new Set(events.map((e) => e.transportId)));
+      const transportList = await Promise.all(transportIds.map((id) => storage.getTransport(id)));
+      const transportMap = new Map(transportList.filter((t) => !!t).map((t) => [t!.id, t!]));
 
-      const driversWithTrips = driverData.filter(d => d.totalTrips > 0);
-      const mostIncidents = [...driversWithTrips]
-        .sort((a, b) => b.incidentCount - a.incidentCount)
-        .slice(0, 10);
-      const leastIncidents = [...driversWithTrips]
-        .sort((a, b) => a.incidentCount - b.incidentCount)
-        .slice(0, 10);
+      res.json(events.map((event) => {
+        const checkpoint = checkpointMap.get(event.checkpointId);
+        const transport = transportMap.get(event.transportId);
+        return {
+          ...event,
+          checkpoint: checkpoint ? { name: checkpoint.name, city: checkpoint.city, state: checkpoint.state } : null,
+          transport: transport ? { requestNumber: transport.requestNumber, driverId: transport.driverId } : null,
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching checkpoint events:", error);
+      res.status(500).json({ message: "Failed to fetch checkpoint events" });
+    }
+  });
 
-      const avgScore = driversWithScore.length > 0
-        ? driversWithScore.reduce((sum, d) => sum + (d.averageScore || 0), 0) / driversWithScore.length
-        : 0;
+  // ============== EVALUATION CRITERIA ==============
 
-      res.json({
-        stats: {
-          totalDrivers: allDrivers.length,
-          activeDrivers: driversWithTrips.length,
-          totalTrips: allTransports.length,
-          averageScore: avgScore,
-          driversWithEvaluations: driversWithScore.length,
-        },
-        drivers: driverData.sort((a, b) => a.name.localeCompare(b.name)),
-        topDrivers,
-        bottomDrivers,
-        mostIncidents,
-        leastIncidents,
-      });
+  app.get("/api/evaluation-criteria", isAuthenticatedJWT, requirePermission("criterios-avaliacao", "read"), async (req, res) => {
+    try {
+      const criteria = await db.select().from(evaluationCriteria).orderBy(evaluationCriteria.order);
+      res.json(criteria);
     } catch (error) {
-      console.error("Error fetching driver ranking:", error);
-      res.status(500).json({ message: "Erro ao buscar ranking de motoristas" });
+      console.error("Error fetching evaluation criteria:", error);
+      res.status(500).json({ message: "Failed to fetch evaluation criteria" });
     }
   });
 
-  app.get("/api/driver-evaluations/pending-transports", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/evaluation-criteria", isAuthenticatedJWT, requirePermission("criterios-avaliacao", "write"), async (req, res) => {
     try {
-      const allTransports = await db.select().from(transports)
-        .where(eq(transports.status, "entregue"));
+      const data = insertEvaluationCriteriaSchema.parse(req.body);
+      const [criteria] = await db.insert(evaluationCriteria).values(data).returning();
+      res.status(201).json(criteria);
+    } catch (error) {
+      console.error("Error creating evaluation criteria:", error);
+      res.status(500).json({ message: "Failed to create evaluation criteria" });
+    }
+  });
 
-      const allEvaluations = await db.select().from(driverEvaluations);
-      const activeCriteria = await db.select().from(evaluationCriteria)
-        .where(eq(evaluationCriteria.isActive, "true"));
+  app.patch("/api/evaluation-criteria/:id", isAuthenticatedJWT, requirePermission("criterios-avaliacao", "write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const [updated] = await db.update(evaluationCriteria)
+        .set(req.body)
+        .where(eq(evaluationCriteria.id, id))
+        .returning();
+      if (!updated) return res.status(404).json({ message: "Criteria not found" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating evaluation criteria:", error);
+      res.status(500).json({ message: "Failed to update evaluation criteria" });
+    }
+  });
 
-      const concludedIds = new Set(
-        allEvaluations.filter(e => e.status === "concluida").map(e => e.transportId)
-      );
+  app.delete("/api/evaluation-criteria/:id", isAuthenticatedJWT, requirePermission("criterios-avaliacao", "delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const scoresUsing = await db.select().from(evaluationScores).where(eq(evaluationScores.criteriaId, id)).limit(1);
+      if (scoresUsing.length > 0) {
+        await db.update(evaluationCriteria).set({ isActive: "false" }).where(eq(evaluationCriteria.id, id));
+        return res.json({ message: "Criteria deactivated (has existing evaluations)" });
+      }
+      await db.delete(evaluationCriteria).where(eq(evaluationCriteria.id, id));
+      res.json({ message: "Criteria deleted" });
+    } catch (error) {
+      console.error("Error deleting evaluation criteria:", error);
+      res.status(500).json({ message: "Failed to delete evaluation criteria" });
+    }
+  });
 
-      const pendingTransports = allTransports.filter(t => !concludedIds.has(t.id));
+  app.put("/api/evaluation-criteria/bulk-update", isAuthenticatedJWT, requirePermission("criterios-avaliacao", "write"), async (req, res) => {
+    try {
+      const { criteria } = req.body as { criteria: { id: string; weight: string; order: number; penaltyLeve?: string; penaltyMedio?: string; penaltyGrave?: string }[] };
+      for (const c of criteria) {
+        const updateData: any = { weight: c.weight, order: c.order };
+        if (c.penaltyLeve !== undefined) updateData.penaltyLeve = c.penaltyLeve;
+        if (c.penaltyMedio !== undefined) updateData.penaltyMedio = c.penaltyMedio;
+        if (c.penaltyGrave !== undefined) updateData.penaltyGrave = c.penaltyGrave;
+        await db.update(evaluationCriteria)
+          .set(updateData)
+          .where(eq(evaluationCriteria.id, c.id));
+      }
+      const updated = await db.select().from(evaluationCriteria).orderBy(evaluationCriteria.order);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error bulk updating evaluation criteria:", error);
+      res.status(500).json({ message: "Failed to bulk update evaluation criteria" });
+    }
+  });
 
-      const transportsWithDetails = await Promise.all(
-        pendingTransports.map(async (transport) => {
-          const vehicle = transport.vehicleChassi
-            ? await db.select().from(vehicles).where(eq(vehicles.chassi, transport.vehicleChassi)).then(r => r[0])
-            : null;
-          const driver = transport.driverId
-            ? await db.select().from(drivers).where(eq(drivers.id, transport.driverId)).then(r => r[0])
-            : null;
-          const client = transport.clientId
-            ? await db.select().from(clients).where(eq(clients.id, transport.clientId)).then(r => r[0])
-            : null;
-          const deliveryLoc = transport.deliveryLocationId
-            ? await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, transport.deliveryLocationId)).then(r => r[0])
-            : null;
+  // ============== DRIVER EVALUATIONS ==============
+  
+  const ratingToNumber = (rating: string): number => {
+    const map: Record<string, number> = {
+      pessimo: 1,
+      ruim: 2,
+      regular: 3,
+      bom: 4,
+      excelente: 5,
+    };
+    return map[rating] || 3;
+  };
 
-          const partialEval = allEvaluations.find(
-            e => e.transportId === transport.id && e.status === "em_andamento"
-          );
-          let partialScores: any[] = [];
-          if (partialEval) {
-            const rawScores = await db.select().from(evaluationScores)
-              .where(eq(evaluationScores.evaluationId, partialEval.id));
-            partialScores = rawScores.map(s => ({
-              ...s,
-              criteria: activeCriteria.find(c => c.id === s.criteriaId),
-            }));
-          }
+  // Financial Dashboard
+  app.get("/api/financial-dashboard", isAuthenticatedJWT, requirePermission("dashboard-financeiro", "read"), async (req, res) => {
+    try {
+      const allSettlements = await db.select().from(expenseSettlements);
+      const allItems = await db.select().from(expenseSettlementItems);
+      const allDrivers = await db.select().from(drivers);
+      const allTransports = await db.select().from(transports);
+
+      let totalEstimated = 0;
+      let totalActual = 0;
+      let approvedCount = 0;
+      let pendingCount = 0;
+      let rejectedCount = 0;
+
+      const monthlyMap: Record<string, { estimated: number; actual: number }> = {};
+      const driverMap: Record<string, { name: string; totalDiff: number; count: number }> = {};
+      const offenders: { driverName: string; driverId: string; transportRequestNumber: string; estimated: number; actual: number; difference: number; differencePercent: number }[] = [];
+      const expenseTypeMap: Record<string, { total: number; count: number }> = {};
+
+      for (const settlement of allSettlements) {
+        const transport = allTransports.find(t => t.id === settlement.transportId);
+        const driver = allDrivers.find(d => d.id === settlement.driverId);
+        
+        const estimated = parseFloat(settlement.estimatedTolls || "0") + parseFloat(settlement.estimatedFuel || "0");
+        const actual = parseFloat(settlement.totalExpenses || "0");
+        const difference = actual - estimated;
+
+        totalEstimated += estimated;
+        totalActual += actual;
+
+        if (settlement.status === "aprovado" || settlement.status === "assinado") approvedCount++;
+        else if (settlement.status === "pendente" || settlement.status === "em_analise") pendingCount++;
+        else if (settlement.status === "devolvido") rejectedCount++;
+
+        // Monthly aggregation
+        if (settlement.submittedAt) {
+          const date = new Date(settlement.submittedAt);
+          const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+          if (!monthlyMap[monthKey]) monthlyMap[monthKey] = { estimated: 0, actual: 0 };
+          monthlyMap[monthKey].estimated += estimated;
+          monthlyMap[monthKey].actual += actual;
+        }
+
+        // Driver aggregation
+        if (driver) {
+          if (!driverMap[driver.id]) driverMap[driver.id] = { name: driver.name, totalDiff: 0, count: 0 };
+          driverMap[driver.id].totalDiff += difference;
+          driverMap[driver.id].count += 1;
+        }
+
+        // Offenders list
+        if (estimated > 0) {
+          offenders.push({
+            driverName: driver?.name || "Desconhecido",
+            driverId: settlement.driverId,
+            transportRequestNumber: transport?.requestNumber || "-",
+            estimated,
+            actual,
+            difference,
+            differencePercent: (difference / estimated) * 100,
+          });
+        }
+
+        // Expense type breakdown from items
+        const items = allItems.filter(i => i.settlementId === settlement.id);
+        for (const item of items) {
+          const type = item.type || "outros";
+          if (!expenseTypeMap[type]) expenseTypeMap[type] = { total: 0, count: 0 };
+          expenseTypeMap[type].total += expenseItemAmountBrl(item) ?? 0;
+          expenseTypeMap[type].count += 1;
+        }
+      }
+
+      const totalDifference = totalActual - totalEstimated;
+      const differencePercent = totalEstimated > 0 ? (totalDifference / totalEstimated) * 100 : 0;
+      const avgDifference = allSettlements.length > 0 ? totalDifference / allSettlements.length : 0;
+      const avgDifferencePercent = totalEstimated > 0 ? Math.abs(avgDifference / (totalEstimated / allSettlements.length)) * 100 : 0;
+      const approvalRate = allSettlements.length > 0 ? (approvedCount / allSettlements.length) * 100 : 0;
+
+      // Monthly data sorted
+      const monthlyData = Object.entries(monthlyMap)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(-12)
+        .map(([month, data]) => ({
+          month: new Date(month + "-01").toLocaleDateString("pt-BR", { month: "short", year: "2-digit" }),
+          estimated: data.estimated,
+          actual: data.actual,
+          difference: data.actual - data.estimated,
+        }));
+
+      // Top offenders
+      const topOverspenders = offenders
+        .filter(o => o.difference > 0)
+        .sort((a, b) => b.difference - a.difference)
+        .slice(0, 10);
+
+      const topUnderspenders = offenders
+        .filter(o => o.difference < 0)
+        .sort((a, b) => a.difference - b.difference)
+        .slice(0, 10);
+
+      // Expense breakdown
+      const typeLabels: Record<string, string> = {
+        pedagio: "Pedagio",
+        combustivel: "Combustivel",
+        alimentacao: "Alimentacao",
+        hospedagem: "Hospedagem",
+        manutencao: "Manutencao",
+        outros: "Outros",
+      };
+      const expenseBreakdown = Object.entries(expenseTypeMap).map(([type, data]) => ({
+        type,
+        label: typeLabels[type] || type,
+        total: data.total,
+        count: data.count,
+      }));
+
+      // Driver ranking
+      const driverRanking = Object.entries(driverMap)
+        .map(([id, data]) => ({
+          driverName: data.name,
+          totalSettlements: data.count,
+          avgDifference: data.count > 0 ? data.totalDiff / data.count : 0,
+          totalDifference: data.totalDiff,
+        }))
+        .sort((a, b) => b.totalDifference - a.totalDifference);
+
+      res.json({
+        stats: {
+          totalEstimated,
+          totalActual,
+          totalDifference,
+          differencePercent,
+          avgDifference,
+          avgDifferencePercent,
+          totalSettlements: allSettlements.length,
+          approvedCount,
+          pendingCount,
+          rejectedCount,
+          approvalRate,
+        },
+        monthlyData,
+        topOverspenders,
+        topUnderspenders,
+        expenseBreakdown,
+        driverRanking,
+      });
+    } catch (error) {
+      console.error("Error fetching financial dashboard:", error);
+      res.status(500).json({ message: "Erro ao buscar dashboard financeiro" });
+    }
+  });
+
+  // Driver Ranking
+  app.get("/api/driver-ranking", isAuthenticatedJWT, requirePermission("ranking-motoristas", "read"), async (req, res) => {
+    try {
+      const allDrivers = await db.select().from(drivers);
+      const allTransports = await db.select().from(transports).where(eq(transports.status, "entregue"));
+      const allEvaluations = await db.select().from(driverEvaluations);
+      const liableClaims = (await storage.getDamageClaims()).filter(isDriverLiableClaim);
+
+      const now = new Date();
+      const oneMonthAgo = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
+
+      const driverData = allDrivers.map(driver => {
+        const driverTrips = allTransports.filter(t => t.driverId === driver.id);
+        const driverEvals = allEvaluations.filter(e => e.driverId === driver.id);
+        const tripsLastMonth = driverTrips.filter(t => {
+          const checkoutDate = t.checkoutDateTime ? new Date(t.checkoutDateTime) : null;
+          return checkoutDate && checkoutDate >= oneMonthAgo;
+        }).length;
+
+        const incidentCount = driverEvals.filter(e => e.hadIncident === "true").length
+          + liableClaims.filter(c => c.liableDriverId === driver.id).length;
+
+        let averageScore: number | null = null;
+        if (driverEvals.length > 0) {
+          const totalScore = driverEvals.reduce((sum, e) => sum + parseFloat(e.weightedScore || e.averageScore || "0"), 0);
+          averageScore = totalScore / driverEvals.length;
+        }
+
+        return {
+          id: driver.id,
+          name: driver.name,
+          cpf: driver.cpf,
+          city: driver.city,
+          state: driver.state,
+          birthDate: driver.birthDate,
+          modality: driver.modality,
+          totalTrips: driverTrips.length,
+          tripsLastMonth,
+          averageScore,
+          totalEvaluations: driverEvals.length,
+          incidentCount,
+        };
+      });
+
+      const driversWithScore = driverData.filter(d => d.averageScore !== null);
+      const topDrivers = [...driversWithScore]
+        .sort((a, b) => (b.averageScore || 0) - (a.averageScore || 0))
+        .slice(0, 10);
+      const bottomDrivers = [...driversWithScore]
+        .sort((a, b) => (a.averageScore || 0) - (b.averageScore || 0))
+        .slice(0, 10);
+
+      const driversWithTrips = driverData.filter(d => d.totalTrips > 0);
+      const mostIncidents = [...driversWithTrips]
+        .sort((a, b) => b.incidentCount - a.incidentCount)
+        .slice(0, 10);
+      const leastIncidents = [...driversWithTrips]
+        .sort((a, b) => a.incidentCount - b.incidentCount)
+        .slice(0, 10);
+
+      const avgScore = driversWithScore.length > 0
+        ? driversWithScore.reduce((sum, d) => sum + (d.averageScore || 0), 0) / driversWithScore.length
+        : 0;
+
+      res.json({
+        stats: {
+          totalDrivers: allDrivers.length,
+          activeDrivers: driversWithTrips.length,
+          totalTrips: allTransports.length,
+          averageScore: avgScore,
+          driversWithEvaluations: driversWithScore.length,
+        },
+        drivers: driverData.sort((a, b) => a.name.localeCompare(b.name)),
+        topDrivers,
+        bottomDrivers,
+        mostIncidents,
+        leastIncidents,
+      });
+    } catch (error) {
+      console.error("Error fetching driver ranking:", error);
+      res.status(500).json({ message: "Erro ao buscar ranking de motoristas" });
+    }
+  });
+
+  app.get("/api/driver-evaluations/pending-transports", isAuthenticatedJWT, requirePermission("avaliacao", "read"), async (req, res) => {
+    try {
+      const allTransports = await db.select().from(transports)
+        .where(eq(transports.status, "entregue"));
+
+      const allEvaluations = await db.select().from(driverEvaluations);
+      const activeCriteria = await db.select().from(evaluationCriteria)
+        .where(eq(evaluationCriteria.isActive, "true"));
+
+      const concludedIds = new Set(
+        allEvaluations.filter(e => e.status === "concluida").map(e => e.transportId)
+      );
+
+      const pendingTransports = allTransports.filter(t => !concludedIds.has(t.id));
+
+      const transportsWithDetails = await Promise.all(
+        pendingTransports.map(async (transport) => {
+          const vehicle = transport.vehicleChassi
+            ? await db.select().from(vehicles).where(eq(vehicles.chassi, transport.vehicleChassi)).then(r => r[0])
+            : null;
+          const driver = transport.driverId
+            ? await db.select().from(drivers).where(eq(drivers.id, transport.driverId)).then(r => r[0])
+            : null;
+          const client = transport.clientId
+            ? await db.select().from(clients).where(eq(clients.id, transport.clientId)).then(r => r[0])
+            : null;
+          const deliveryLoc = transport.deliveryLocationId
+            ? await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, transport.deliveryLocationId)).then(r => r[0])
+            : null;
+
+          const partialEval = allEvaluations.find(
+            e => e.transportId === transport.id && e.status === "em_andamento"
+          );
+          let partialScores: any[] = [];
+          if (partialEval) {
+            const rawScores = await db.select().from(evaluationScores)
+              .where(eq(evaluationScores.evaluationId, partialEval.id));
+            partialScores = rawScores.map(s => ({
+              ...s,
+              criteria: activeCriteria.find(c => c.id === s.criteriaId),
+            }));
+          }
+
+          return {
+            ...transport,
+            vehicle,
+            driver,
+            client,
+            deliveryLocation: deliveryLoc,
+            partialEvaluation: partialEval ? { ...partialEval, scores: partialScores } : null,
+            totalCriteria: activeCriteria.length,
+            scoredCriteria: partialScores.length,
+            activeCriteria,
+          };
+        })
+      );
+
+      res.json(transportsWithDetails);
+    } catch (error) {
+      console.error("Error fetching pending transports for evaluation:", error);
+      res.status(500).json({ message: "Failed to fetch pending transports" });
+    }
+  });
+
+  app.get("/api/driver-evaluations", isAuthenticatedJWT, requirePermission("avaliacao", "read"), async (req, res) => {
+    try {
+      const evaluations = await db.select().from(driverEvaluations)
+        .where(eq(driverEvaluations.status, "concluida"));
+      
+      const evaluationsWithDetails = await Promise.all(
+        evaluations.map(async (evaluation) => {
+          const driver = await db.select().from(drivers).where(eq(drivers.id, evaluation.driverId)).then(r => r[0]);
+          const transport = await db.select().from(transports).where(eq(transports.id, evaluation.transportId)).then(r => r[0]);
+          const scores = await db.select().from(evaluationScores).where(eq(evaluationScores.evaluationId, evaluation.id));
+          const criteriaList = scores.length > 0 
+            ? await db.select().from(evaluationCriteria)
+            : [];
+          const scoresWithCriteria = scores.map(s => ({
+            ...s,
+            criteria: criteriaList.find(c => c.id === s.criteriaId),
+          }));
+          return { ...evaluation, driver, transport, scores: scoresWithCriteria };
+        })
+      );
+      
+      res.json(evaluationsWithDetails);
+    } catch (error) {
+      console.error("Error fetching evaluations:", error);
+      res.status(500).json({ message: "Failed to fetch evaluations" });
+    }
+  });
+
+  app.get("/api/driver-evaluations/driver/:driverId/average", isAuthenticatedJWT, requirePermission("avaliacao", "read"), async (req, res) => {
+    try {
+      const evaluations = await db.select().from(driverEvaluations)
+        .where(eq(driverEvaluations.driverId, req.params.driverId));
+      
+      if (evaluations.length === 0) {
+        return res.json({ average: null, count: 0, evaluations: [] });
+      }
+      
+      const totalScore = evaluations.reduce((acc, e) => acc + parseFloat(e.averageScore || "0"), 0);
+      const average = totalScore / evaluations.length;
+      
+      res.json({ 
+        average: average.toFixed(2), 
+        count: evaluations.length,
+        evaluations 
+      });
+    } catch (error) {
+      console.error("Error fetching driver average:", error);
+      res.status(500).json({ message: "Failed to fetch driver average" });
+    }
+  });
+
+  app.post("/api/driver-evaluations", isAuthenticatedJWT, requirePermission("avaliacao", "write"), async (req: any, res) => {
+    try {
+      const { criteriaScores, ...evaluationData } = req.body;
+
+      if (!criteriaScores || !Array.isArray(criteriaScores) || criteriaScores.length === 0) {
+        return res.status(400).json({ message: "criteriaScores required" });
+      }
+
+      const activeCriteria = await db.select().from(evaluationCriteria)
+        .where(eq(evaluationCriteria.isActive, "true"));
+
+      // Calculate score for each submitted criterion
+      for (const cs of criteriaScores) {
+        const criteria = activeCriteria.find(c => c.id === cs.criteriaId);
+        if (criteria) {
+          const severity = cs.severity || "sem_ocorrencia";
+          let penaltyPercent = 0;
+          if (severity === "leve") penaltyPercent = parseFloat(criteria.penaltyLeve || "10");
+          else if (severity === "medio") penaltyPercent = parseFloat(criteria.penaltyMedio || "50");
+          else if (severity === "grave") penaltyPercent = parseFloat(criteria.penaltyGrave || "100");
+          cs.calculatedScore = 100 - penaltyPercent;
+        }
+      }
+
+      // Check if an evaluation already exists for this transport (em_andamento)
+      const existing = await db.select().from(driverEvaluations)
+        .where(eq(driverEvaluations.transportId, evaluationData.transportId))
+        .limit(1);
+
+      let evaluationId: string;
+      let isNew = false;
+
+      if (existing.length > 0) {
+        evaluationId = existing[0].id;
+        await db.update(driverEvaluations)
+          .set({
+            hadIncident: evaluationData.hadIncident,
+            incidentDescription: evaluationData.hadIncident === "true" ? evaluationData.incidentDescription : null,
+          })
+          .where(eq(driverEvaluations.id, evaluationId));
+      } else {
+        isNew = true;
+        const [newEval] = await db.insert(driverEvaluations)
+          .values({
+            ...evaluationData,
+            status: "em_andamento",
+            averageScore: "0",
+            weightedScore: "0",
+          })
+          .returning();
+        evaluationId = newEval.id;
+      }
+
+      // Upsert scores for each submitted criterion
+      for (const cs of criteriaScores) {
+        const existingScore = await db.select().from(evaluationScores)
+          .where(and(
+            eq(evaluationScores.evaluationId, evaluationId),
+            eq(evaluationScores.criteriaId, cs.criteriaId)
+          ))
+          .limit(1);
+
+        if (existingScore.length > 0) {
+          await db.update(evaluationScores)
+            .set({
+              score: (cs.calculatedScore ?? 100).toString(),
+              severity: cs.severity || "sem_ocorrencia",
+              notes: cs.notes || null,
+            })
+            .where(eq(evaluationScores.id, existingScore[0].id));
+        } else {
+          await db.insert(evaluationScores).values({
+            evaluationId,
+            criteriaId: cs.criteriaId,
+            score: (cs.calculatedScore ?? 100).toString(),
+            severity: cs.severity || "sem_ocorrencia",
+            notes: cs.notes || null,
+          });
+        }
+      }
+
+      // Recalculate scores from all current scores for this evaluation
+      const allScores = await db.select().from(evaluationScores)
+        .where(eq(evaluationScores.evaluationId, evaluationId));
+
+      const scoredCriteriaIds = new Set(allScores.map(s => s.criteriaId));
+      const allScored = activeCriteria.length > 0 && activeCriteria.every(c => scoredCriteriaIds.has(c.id));
+
+      let wSum = 0, wTotal = 0, sSum = 0;
+      for (const score of allScores) {
+        const criteria = activeCriteria.find(c => c.id === score.criteriaId);
+        if (criteria) {
+          const w = parseFloat(criteria.weight);
+          const s = parseFloat(score.score);
+          wSum += s * (w / 100);
+          wTotal += w;
+          sSum += s;
+        }
+      }
+
+      const newStatus = allScored ? "concluida" : "em_andamento";
+      const [evaluation] = await db.update(driverEvaluations)
+        .set({
+          status: newStatus,
+          averageScore: allScores.length > 0 ? (sSum / allScores.length).toFixed(2) : "0",
+          weightedScore: wTotal > 0 ? wSum.toFixed(2) : "0",
+        })
+        .where(eq(driverEvaluations.id, evaluationId))
+        .returning();
+
+      res.status(isNew ? 201 : 200).json({ ...evaluation, scores: allScores });
+    } catch (error) {
+      console.error("Error creating/updating evaluation:", error);
+      res.status(500).json({ message: "Failed to create/update evaluation" });
+    }
+  });
+
+  app.put("/api/driver-evaluations/:id", isAuthenticatedJWT, requirePermission("avaliacao", "write"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { criteriaScores, ...evaluationData } = req.body;
+
+      const existing = await db.select().from(driverEvaluations).where(eq(driverEvaluations.id, id)).limit(1);
+      if (existing.length === 0) return res.status(404).json({ message: "Evaluation not found" });
+
+      if (!criteriaScores || !Array.isArray(criteriaScores) || criteriaScores.length === 0) {
+        return res.status(400).json({ message: "criteriaScores required" });
+      }
+
+      const activeCriteria = await db.select().from(evaluationCriteria)
+        .where(eq(evaluationCriteria.isActive, "true"));
+
+      let weightedSum = 0;
+      let totalWeight = 0;
+      let simpleSum = 0;
+
+      for (const cs of criteriaScores) {
+        const criteria = activeCriteria.find(c => c.id === cs.criteriaId);
+        if (criteria) {
+          const weight = parseFloat(criteria.weight);
+          const severity = cs.severity || "sem_ocorrencia";
+          let penaltyPercent = 0;
+          if (severity === "leve") penaltyPercent = parseFloat(criteria.penaltyLeve || "10");
+          else if (severity === "medio") penaltyPercent = parseFloat(criteria.penaltyMedio || "50");
+          else if (severity === "grave") penaltyPercent = parseFloat(criteria.penaltyGrave || "100");
+          const score = 100 - penaltyPercent;
+          cs.calculatedScore = score;
+          weightedSum += score * (weight / 100);
+          totalWeight += weight;
+          simpleSum += score;
+        }
+      }
+
+      const weightedScore = totalWeight > 0 ? weightedSum : 0;
+      const averageScore = criteriaScores.length > 0 ? (simpleSum / criteriaScores.length) : 0;
+
+      const [evaluation] = await db.update(driverEvaluations)
+        .set({
+          hadIncident: evaluationData.hadIncident,
+          incidentDescription: evaluationData.incidentDescription ?? null,
+          averageScore: averageScore.toFixed(2),
+          weightedScore: weightedScore.toFixed(2),
+        })
+        .where(eq(driverEvaluations.id, id))
+        .returning();
+
+      await db.delete(evaluationScores).where(eq(evaluationScores.evaluationId, id));
+
+      for (const cs of criteriaScores) {
+        await db.insert(evaluationScores).values({
+          evaluationId: id,
+          criteriaId: cs.criteriaId,
+          score: (cs.calculatedScore ?? cs.score ?? 100).toString(),
+          severity: cs.severity || "sem_ocorrencia",
+          notes: cs.notes || null,
+        });
+      }
+
+      const scores = await db.select().from(evaluationScores)
+        .where(eq(evaluationScores.evaluationId, id));
+
+      res.json({ ...evaluation, scores });
+    } catch (error) {
+      console.error("Error updating evaluation:", error);
+      res.status(500).json({ message: "Failed to update evaluation" });
+    }
+  });
+
+  app.get("/api/drivers/:id/evaluation-summary", isAuthenticatedJWT, requirePermission("motoristas", "read"), async (req, res) => {
+    try {
+      const evaluations = await db.select().from(driverEvaluations)
+        .where(eq(driverEvaluations.driverId, req.params.id));
+      
+      if (evaluations.length === 0) {
+        return res.json({
+          totalEvaluations: 0,
+          averageScore: null,
+          categories: {
+            posturaProfissional: null,
+            pontualidade: null,
+            apresentacaoPessoal: null,
+            cordialidade: null,
+            cumpriuProcesso: null,
+          },
+          incidentCount: 0,
+        });
+      }
+      
+      const categoryAverages = {
+        posturaProfissional: evaluations.reduce((acc, e) => acc + ratingToNumber(e.posturaProfissional), 0) / evaluations.length,
+        pontualidade: evaluations.reduce((acc, e) => acc + ratingToNumber(e.pontualidade), 0) / evaluations.length,
+        apresentacaoPessoal: evaluations.reduce((acc, e) => acc + ratingToNumber(e.apresentacaoPessoal), 0) / evaluations.length,
+        cordialidade: evaluations.reduce((acc, e) => acc + ratingToNumber(e.cordialidade), 0) / evaluations.length,
+        cumpriuProcesso: evaluations.reduce((acc, e) => acc + ratingToNumber(e.cumpriuProcesso), 0) / evaluations.length,
+      };
+      
+      const overallAverage = Object.values(categoryAverages).reduce((a, b) => a + b, 0) / 5;
+      const incidentCount = evaluations.filter(e => e.hadIncident === "true").length;
+      
+      res.json({
+        totalEvaluations: evaluations.length,
+        averageScore: overallAverage.toFixed(2),
+        categories: categoryAverages,
+        incidentCount,
+      });
+    } catch (error) {
+      console.error("Error fetching driver summary:", error);
+      res.status(500).json({ message: "Failed to fetch driver summary" });
+    }
+  });
+
+  // ============== PERFIL DE MOTORISTA ==============
+
+  app.get("/api/drivers/:id/profile", isAuthenticatedJWT, requirePermission("motoristas", "read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const driver = await storage.getDriver(id);
+      if (!driver) return res.status(404).json({ message: "Motorista não encontrado" });
+
+      const driverTransports = await db
+        .select()
+        .from(transports)
+        .where(eq(transports.driverId, id))
+        .orderBy(desc(transports.createdAt));
+
+      const driverEvals = await db
+        .select()
+        .from(driverEvaluations)
+        .where(eq(driverEvaluations.driverId, id))
+        .orderBy(desc(driverEvaluations.createdAt));
+
+      const completed = driverTransports.filter((t) => t.status === "entregue");
+      const totalTrips = completed.length;
+      const totalKm = completed.reduce((sum, t) => sum + parseFloat(t.routeDistanceKm as string || "0"), 0);
+      const avgScore =
+        driverEvals.length > 0
+          ? driverEvals.reduce(
+              (sum, e) => sum + parseFloat(e.weightedScore || e.averageScore || "0"),
+              0
+            ) / driverEvals.length
+          : null;
+      const liableClaims = (await storage.getDamageClaims({ liableDriverId: id })).filter(isDriverLiableClaim);
+      const incidentCount = driverEvals.filter((e) => e.hadIncident === "true").length + liableClaims.length;
+
+      const now = new Date();
+      const monthlyPerformance = [];
+      for (let i = 5; i >= 0; i--) {
+        const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
+        const label = d.toLocaleDateString("pt-BR", { month: "short" }).replace(".", "");
+        const monthEvals = driverEvals.filter((e) => {
+          const ed = new Date(e.createdAt);
+          return ed.getFullYear() === d.getFullYear() && ed.getMonth() === d.getMonth();
+        });
+        const monthAvg =
+          monthEvals.length > 0
+            ? monthEvals.reduce(
+                (sum, e) => sum + parseFloat(e.weightedScore || e.averageScore || "0"),
+                0
+              ) / monthEvals.length
+            : null;
+        monthlyPerformance.push({
+          month: label,
+          score: monthAvg ? parseFloat(monthAvg.toFixed(1)) : null,
+          trips: monthEvals.length,
+        });
+      }
+
+      const recentTransports = driverTransports.slice(0, 25);
+      const recentTrips = await Promise.all(
+        recentTransports.map(async (t) => {
+          const [originYardRows, delLocRows, evalRows] = await Promise.all([
+            t.originYardId
+              ? db.select().from(yards).where(eq(yards.id, t.originYardId)).limit(1)
+              : Promise.resolve([]),
+            t.deliveryLocationId
+              ? db.select().from(deliveryLocations).where(eq(deliveryLocations.id, t.deliveryLocationId)).limit(1)
+              : Promise.resolve([]),
+            db.select().from(driverEvaluations).where(eq(driverEvaluations.transportId, t.id)).limit(1),
+          ]);
+          return {
+            ...t,
+            originYard: originYardRows[0] || null,
+            deliveryLocation: delLocRows[0] || null,
+            evaluation: evalRows[0] || null,
+          };
+        })
+      );
+
+      const infractions = [
+        ...driverEvals
+          .filter((e) => e.hadIncident === "true")
+          .map((e) => ({
+            id: e.id,
+            date: e.createdAt,
+            description: e.incidentDescription,
+            score: e.weightedScore || e.averageScore,
+          })),
+        ...liableClaims.map((c) => ({
+          id: c.id,
+          date: c.approvedAt,
+          description: `Avaria ${c.claimNumber} (R$ ${parseFloat(c.approvedAmount || "0").toFixed(2).replace(".", ",")}): ${c.description}`,
+          score: null,
+        })),
+      ]
+        .sort((a, b) => new Date(b.date ?? 0).getTime() - new Date(a.date ?? 0).getTime())
+        .slice(0, 10);
+
+      const isOnTrip = driverTransports.some((t) => t.status === "em_transito");
+
+      const lastAppActivity = driverTransports.reduce((latest, t) => {
+        const candidates = [t.checkinDateTime, t.checkoutDateTime].filter(Boolean) as string[];
+        for (const d of candidates) {
+          if (!latest || new Date(d) > new Date(latest)) return d;
+        }
+        return latest;
+      }, null as string | null);
+
+      res.json({
+        driver,
+        kpis: {
+          totalTrips,
+          totalKm: totalKm.toFixed(0),
+          avgScore: avgScore ? avgScore.toFixed(1) : null,
+          incidentCount,
+        },
+        monthlyPerformance,
+        recentTrips,
+        infractions,
+        isOnTrip,
+        lastAppActivity,
+      });
+    } catch (error) {
+      console.error("Error fetching driver profile:", error);
+      res.status(500).json({ message: "Failed to fetch driver profile" });
+    }
+  });
+
+  // ============== GESTÃO DE ROTAS (Route Management) ==============
+  
+  // Get all routes with relations
+  app.get("/api/routes", isAuthenticatedJWT, requirePermission("gestao-rotas", "read"), async (req, res) => {
+    try {
+      const allRoutes = await db.select().from(routes).orderBy(routes.createdAt);
+      
+      // Get yards and delivery locations for each route
+      const routesWithRelations = await Promise.all(
+        allRoutes.map(async (route) => {
+          const originYard = await db.select().from(yards).where(eq(yards.id, route.originYardId)).limit(1);
+          const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, route.destinationLocationId)).limit(1);
+          
+          return {
+            ...route,
+            originYard: originYard[0] || null,
+            destinationLocation: destinationLocation[0] || null,
+          };
+        })
+      );
+      
+      res.json(routesWithRelations);
+    } catch (error) {
+      console.error("Error fetching routes:", error);
+      res.status(500).json({ message: "Failed to fetch routes" });
+    }
+  });
+
+  // Get single route by ID
+  app.get("/api/routes/:id", isAuthenticatedJWT, requirePermission("gestao-rotas", "read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const route = await db.select().from(routes).where(eq(routes.id, id)).limit(1);
+      
+      if (!route[0]) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      const originYard = await db.select().from(yards).where(eq(yards.id, route[0].originYardId)).limit(1);
+      const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, route[0].destinationLocationId)).limit(1);
+      
+      res.json({
+        ...route[0],
+        originYard: originYard[0] || null,
+        destinationLocation: destinationLocation[0] || null,
+      });
+    } catch (error) {
+      console.error("Error fetching route:", error);
+      res.status(500).json({ message: "Failed to fetch route" });
+    }
+  });
+
+  // Create new route
+  app.post("/api/routes", isAuthenticatedJWT, requirePermission("gestao-rotas", "write"), async (req, res) => {
+    try {
+      const validatedData = insertRouteSchema.parse(req.body);
+      
+      // Calculate costs automatically
+      const distanceKm = parseFloat(validatedData.distanceKm || "0");
+      const dieselPrice = parseFloat(validatedData.dieselPrice || "0");
+      const fuelConsumption = parseFloat(validatedData.fuelConsumption || "0");
+      const tollCost = parseFloat(validatedData.tollCost || "0");
+      const driverDailyCost = parseFloat(validatedData.driverDailyCost || "0");
+      const returnTicket = parseFloat(validatedData.returnTicket || "0");
+      const extraExpenses = parseFloat(validatedData.extraExpenses || "0");
+      const adValoremPercentage = parseFloat(validatedData.adValoremPercentage || "0");
+      const vehicleValue = parseFloat(validatedData.vehicleValue || "0");
+      const profitMarginPercentage = parseFloat(validatedData.profitMarginPercentage || "0");
+      const adminFee = parseFloat(validatedData.adminFee || "0");
+      
+      // Calculate fuel cost: (distance / consumption) * price
+      const fuelCost = fuelConsumption > 0 ? (distanceKm / fuelConsumption) * dieselPrice : 0;
+      // Arla 32: 5% of fuel cost
+      const arla32Cost = fuelCost * 0.05;
+      // Ad Valorem cost
+      const adValoremCost = (vehicleValue * adValoremPercentage) / 100;
+      
+      // Total cost
+      const totalCost = fuelCost + arla32Cost + tollCost + driverDailyCost + returnTicket + extraExpenses + adValoremCost + adminFee;
+      
+      // Suggested price (cost + margin)
+      const suggestedPrice = totalCost * (1 + profitMarginPercentage / 100);
+      
+      // Net profit
+      const netProfit = suggestedPrice - totalCost;
+      
+      const routeData = {
+        ...validatedData,
+        fuelCost: fuelCost.toFixed(2),
+        arla32Cost: arla32Cost.toFixed(2),
+        adValoremCost: adValoremCost.toFixed(2),
+        totalCost: totalCost.toFixed(2),
+        suggestedPrice: suggestedPrice.toFixed(2),
+        netProfit: netProfit.toFixed(2),
+      };
+      
+      const newRoute = await db.insert(routes).values(routeData).returning();
+      res.status(201).json(newRoute[0]);
+    } catch (error) {
+      console.error("Error creating route:", error);
+      res.status(500).json({ message: "Failed to create route" });
+    }
+  });
+
+  // Update route
+  app.patch("/api/routes/:id", isAuthenticatedJWT, requirePermission("gestao-rotas", "write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      // Load existing route first
+      const existingRoute = await db.select().from(routes).where(eq(routes.id, id)).limit(1);
+      if (!existingRoute[0]) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      const existing = existingRoute[0];
+      const validatedData = insertRouteSchema.partial().parse(req.body);
+      
+      // Merge with existing values - use incoming data if provided, otherwise use existing
+      const distanceKm = parseFloat(validatedData.distanceKm ?? existing.distanceKm ?? "0");
+      const dieselPrice = parseFloat(validatedData.dieselPrice ?? existing.dieselPrice ?? "0");
+      const fuelConsumption = parseFloat(validatedData.fuelConsumption ?? existing.fuelConsumption ?? "0");
+      const tollCost = parseFloat(validatedData.tollCost ?? existing.tollCost ?? "0");
+      const driverDailyCost = parseFloat(validatedData.driverDailyCost ?? existing.driverDailyCost ?? "0");
+      const returnTicket = parseFloat(validatedData.returnTicket ?? existing.returnTicket ?? "0");
+      const extraExpenses = parseFloat(validatedData.extraExpenses ?? existing.extraExpenses ?? "0");
+      const adValoremPercentage = parseFloat(validatedData.adValoremPercentage ?? existing.adValoremPercentage ?? "0");
+      const vehicleValue = parseFloat(validatedData.vehicleValue ?? existing.vehicleValue ?? "0");
+      const profitMarginPercentage = parseFloat(validatedData.profitMarginPercentage ?? existing.profitMarginPercentage ?? "0");
+      const adminFee = parseFloat(validatedData.adminFee ?? existing.adminFee ?? "0");
+      
+      // Calculate fuel cost
+      const fuelCost = fuelConsumption > 0 ? (distanceKm / fuelConsumption) * dieselPrice : 0;
+      const arla32Cost = fuelCost * 0.05;
+      const adValoremCost = (vehicleValue * adValoremPercentage) / 100;
+      const totalCost = fuelCost + arla32Cost + tollCost + driverDailyCost + returnTicket + extraExpenses + adValoremCost + adminFee;
+      const suggestedPrice = totalCost * (1 + profitMarginPercentage / 100);
+      const netProfit = suggestedPrice - totalCost;
+      
+      const routeData = {
+        ...validatedData,
+        fuelCost: fuelCost.toFixed(2),
+        arla32Cost: arla32Cost.toFixed(2),
+        adValoremCost: adValoremCost.toFixed(2),
+        totalCost: totalCost.toFixed(2),
+        suggestedPrice: suggestedPrice.toFixed(2),
+        netProfit: netProfit.toFixed(2),
+        updatedAt: new Date(),
+      };
+      
+      const updatedRoute = await db.update(routes).set(routeData).where(eq(routes.id, id)).returning();
+      
+      if (!updatedRoute[0]) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      res.json(updatedRoute[0]);
+    } catch (error) {
+      console.error("Error updating route:", error);
+      res.status(500).json({ message: "Failed to update route" });
+    }
+  });
+
+  // Delete route
+  app.delete("/api/routes/:id", isAuthenticatedJWT, requirePermission("gestao-rotas", "delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await db.delete(routes).where(eq(routes.id, id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting route:", error);
+      res.status(500).json({ message: "Failed to delete route" });
+    }
+  });
+
+  // Toggle favorite
+  app.patch("/api/routes/:id/favorite", isAuthenticatedJWT, requirePermission("gestao-rotas", "write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const route = await db.select().from(routes).where(eq(routes.id, id)).limit(1);
+      
+      if (!route[0]) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+      
+      const newFavoriteStatus = route[0].isFavorite === "true" ? "false" : "true";
+      const updatedRoute = await db.update(routes).set({ isFavorite: newFavoriteStatus, updatedAt: new Date() }).where(eq(routes.id, id)).returning();
+      
+      res.json(updatedRoute[0]);
+    } catch (error) {
+      console.error("Error toggling favorite:", error);
+      res.status(500).json({ message: "Failed to toggle favorite" });
+    }
+  });
+
+  // Calculate route distance and tolls with the configured routing provider
+  app.post("/api/routes/calculate-route", isAuthenticatedJWT, requirePermission("gestao-rotas", "read"), async (req, res) => {
+    try {
+      const { originYardId, destinationLocationId, truckAxles } = req.body;
+      
+      if (!originYardId || !destinationLocationId) {
+        return res.status(400).json({ message: "Origin yard and destination location are required" });
+      }
+      
+      // Get origin yard coordinates
+      const originYard = await db.select().from(yards).where(eq(yards.id, originYardId)).limit(1);
+      if (!originYard[0]) {
+        return res.status(404).json({ message: "Origin yard not found" });
+      }
+      
+      // Get destination location coordinates
+      const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, destinationLocationId)).limit(1);
+      if (!destinationLocation[0]) {
+        return res.status(404).json({ message: "Destination location not found" });
+      }
+      
+      const originLat = originYard[0].latitude;
+      const originLng = originYard[0].longitude;
+      const destLat = destinationLocation[0].latitude;
+      const destLng = destinationLocation[0].longitude;
+      
+      if (!originLat || !originLng || !destLat || !destLng) {
+        return res.status(400).json({ message: "Origin or destination coordinates are missing" });
+      }
+      
+      const route = await getRoutingProvider().route(
+        [
+          { lat: parseFloat(originLat), lng: parseFloat(originLng) },
+          { lat: parseFloat(destLat), lng: parseFloat(destLng) },
+        ],
+        { axleCount: parseInt(truckAxles) || 2 },
+      );
+      
+      // Only real toll figures fill the route; the per-km average would read like a quote
+      const tollCost = route.toll && route.toll.amount > 0 ? route.toll.amount.toFixed(2) : null;
+      
+      res.json({
+        distanceKm: (route.distanceMeters / 1000).toFixed(2),
+        durationMinutes: Math.round(route.durationSeconds / 60),
+        tollCost,
+        originYardName: originYard[0].name,
+        destinationLocationName: destinationLocation[0].name,
+        provider: route.provider,
+        ...(tollCost === null ? { message: "Distance calculated, but toll information is not available from the routing provider" } : {}),
+      });
+    } catch (error) {
+      if (error instanceof RouteNotFoundError) {
+        return res.status(404).json({ message: "No route found" });
+      }
+      if (error instanceof RoutingNotConfiguredError) {
+        return res.status(500).json({ message: error.message });
+      }
+      console.error("Error calculating route:", error);
+      res.status(500).json({ message: "Failed to calculate route" });
+    }
+  });
 
+  // Get favorite routes only
+  app.get("/api/routes/favorites/list", isAuthenticatedJWT, requirePermission("gestao-rotas", "read"), async (req, res) => {
+    try {
+      const favoriteRoutes = await db.select().from(routes).where(eq(routes.isFavorite, "true")).orderBy(routes.name);
+      
+      const routesWithRelations = await Promise.all(
+        favoriteRoutes.map(async (route) => {
+          const originYard = await db.select().from(yards).where(eq(yards.id, route.originYardId)).limit(1);
+          const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, route.destinationLocationId)).limit(1);
+          
           return {
-            ...transport,
-            vehicle,
-            driver,
-            client,
-            deliveryLocation: deliveryLoc,
-            partialEvaluation: partialEval ? { ...partialEval, scores: partialScores } : null,
-            totalCriteria: activeCriteria.length,
-            scoredCriteria: partialScores.length,
-            activeCriteria,
+            ...route,
+            originYard: originYard[0] || null,
+            destinationLocation: destinationLocation[0] || null,
           };
         })
       );
-
-      res.json(transportsWithDetails);
+      
+      res.json(routesWithRelations);
     } catch (error) {
-      console.error("Error fetching pending transports for evaluation:", error);
-      res.status(500).json({ message: "Failed to fetch pending transports" });
+      console.error("Error fetching favorite routes:", error);
+      res.status(500).json({ message: "Failed to fetch favorite routes" });
     }
   });
 
-  app.get("/api/driver-evaluations", isAuthenticatedJWT, async (req, res) => {
+  // Contracts
+  app.get("/api/contracts", isAuthenticatedJWT, requirePermission("contratos", "read"), async (req, res) => {
     try {
-      const evaluations = await db.select().from(driverEvaluations)
-        .where(eq(driverEvaluations.status, "concluida"));
-      
-      const evaluationsWithDetails = await Promise.all(
-        evaluations.map(async (evaluation) => {
-          const driver = await db.select().from(drivers).where(eq(drivers.id, evaluation.driverId)).then(r => r[0]);
-          const transport = await db.select().from(transports).where(eq(transports.id, evaluation.transportId)).then(r => r[0]);
-          const scores = await db.select().from(evaluationScores).where(eq(evaluationScores.evaluationId, evaluation.id));
-          const criteriaList = scores.length > 0 
-            ? await db.select().from(evaluationCriteria)
-            : [];
-          const scoresWithCriteria = scores.map(s => ({
-            ...s,
-            criteria: criteriaList.find(c => c.id === s.criteriaId),
-          }));
-          return { ...evaluation, driver, transport, scores: scoresWithCriteria };
+      const allContracts = await storage.getContracts();
+      const contractsWithDriver = await Promise.all(
+        allContracts.map(async (contract) => {
+          let driver = null;
+          if (contract.driverId) {
+            driver = await storage.getDriver(contract.driverId);
+          }
+          return { ...contract, driver };
         })
       );
-      
-      res.json(evaluationsWithDetails);
+      res.json(contractsWithDriver);
     } catch (error) {
-      console.error("Error fetching evaluations:", error);
-      res.status(500).json({ message: "Failed to fetch evaluations" });
+      console.error("Error fetching contracts:", error);
+      res.status(500).json({ message: "Failed to fetch contracts" });
     }
   });
 
-  app.get("/api/driver-evaluations/driver/:driverId/average", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/contracts/:id", isAuthenticatedJWT, requirePermission("contratos", "read"), async (req, res) => {
     try {
-      const evaluations = await db.select().from(driverEvaluations)
-        .where(eq(driverEvaluations.driverId, req.params.driverId));
-      
-      if (evaluations.length === 0) {
-        return res.json({ average: null, count: 0, evaluations: [] });
+      const contract = await storage.getContract(req.params.id);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
-      
-      const totalScore = evaluations.reduce((acc, e) => acc + parseFloat(e.averageScore || "0"), 0);
-      const average = totalScore / evaluations.length;
-      
-      res.json({ 
-        average: average.toFixed(2), 
-        count: evaluations.length,
-        evaluations 
-      });
+      let driver = null;
+      if (contract.driverId) {
+        driver = await storage.getDriver(contract.driverId);
+      }
+      res.json({ ...contract, driver });
     } catch (error) {
-      console.error("Error fetching driver average:", error);
-      res.status(500).json({ message: "Failed to fetch driver average" });
+      console.error("Error fetching contract:", error);
+      res.status(500).json({ message: "Failed to fetch contract" });
     }
   });
 
-  app.post("/api/driver-evaluations", isAuthenticatedJWT, async (req: any, res) => {
+  app.post("/api/contracts", isAuthenticatedJWT, requirePermission("contratos", "write"), async (req, res) => {
     try {
-      const { criteriaScores, ...evaluationData } = req.body;
-
-      if (!criteriaScores || !Array.isArray(criteriaScores) || criteriaScores.length === 0) {
-        return res.status(400).json({ message: "criteriaScores required" });
-      }
-
-      const activeCriteria = await db.select().from(evaluationCriteria)
-        .where(eq(evaluationCriteria.isActive, "true"));
-
-      // Calculate score for each submitted criterion
-      for (const cs of criteriaScores) {
-        const criteria = activeCriteria.find(c => c.id === cs.criteriaId);
-        if (criteria) {
-          const severity = cs.severity || "sem_ocorrencia";
-          let penaltyPercent = 0;
-          if (severity === "leve") penaltyPercent = parseFloat(criteria.penaltyLeve || "10");
-          else if (severity === "medio") penaltyPercent = parseFloat(criteria.penaltyMedio || "50");
-          else if (severity === "grave") penaltyPercent = parseFloat(criteria.penaltyGrave || "100");
-          cs.calculatedScore = 100 - penaltyPercent;
-        }
+      const parsed = insertContractSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid contract data", errors: parsed.error.errors });
       }
-
-      // Check if an evaluation already exists for this transport (em_andamento)
-      const existing = await db.select().from(driverEvaluations)
-        .where(eq(driverEvaluations.transportId, evaluationData.transportId))
-        .limit(1);
-
-      let evaluationId: string;
-      let isNew = false;
-
-      if (existing.length > 0) {
-        evaluationId = existing[0].id;
-        await db.update(driverEvaluations)
-          .set({
-            hadIncident: evaluationData.hadIncident,
-            incidentDescription: evaluationData.hadIncident === "true" ? evaluationData.incidentDescription : null,
-          })
-          .where(eq(driverEvaluations.id, evaluationId));
-      } else {
-        isNew = true;
-        const [newEval] = await db.insert(driverEvaluations)
-          .values({
-            ...evaluationData,
-            status: "em_andamento",
-            averageScore: "0",
-            weightedScore: "0",
-          })
-          .returning();
-        evaluationId = newEval.id;
+      const contract = await storage.createContract(parsed.data);
+      res.status(201).json(contract);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(400).json({ message: "Número de contrato já existe" });
       }
+      console.error("Error creating contract:", error);
+      res.status(500).json({ message: "Failed to create contract" });
+    }
+  });
 
-      // Upsert scores for each submitted criterion
-      for (const cs of criteriaScores) {
-        const existingScore = await db.select().from(evaluationScores)
-          .where(and(
-            eq(evaluationScores.evaluationId, evaluationId),
-            eq(evaluationScores.criteriaId, cs.criteriaId)
-          ))
-          .limit(1);
-
-        if (existingScore.length > 0) {
-          await db.update(evaluationScores)
-            .set({
-              score: (cs.calculatedScore ?? 100).toString(),
-              severity: cs.severity || "sem_ocorrencia",
-              notes: cs.notes || null,
-            })
-            .where(eq(evaluationScores.id, existingScore[0].id));
-        } else {
-          await db.insert(evaluationScores).values({
-            evaluationId,
-            criteriaId: cs.criteriaId,
-            score: (cs.calculatedScore ?? 100).toString(),
-            severity: cs.severity || "sem_ocorrencia",
-            notes: cs.notes || null,
-          });
-        }
+  app.patch("/api/contracts/:id", isAuthenticatedJWT, requirePermission("contratos", "write"), async (req, res) => {
+    try {
+      const contract = await storage.updateContract(req.params.id, req.body);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
-
-      // Recalculate scores from all current scores for this evaluation
-      const allScores = await db.select().from(evaluationScores)
-        .where(eq(evaluationScores.evaluationId, evaluationId));
-
-      const scoredCriteriaIds = new Set(allScores.map(s => s.criteriaId));
-      const allScored = activeCriteria.length > 0 && activeCriteria.every(c => scoredCriteriaIds.has(c.id));
-
-      let wSum = 0, wTotal = 0, sSum = 0;
-      for (const score of allScores) {
-        const criteria = activeCriteria.find(c => c.id === score.criteriaId);
-        if (criteria) {
-          const w = parseFloat(criteria.weight);
-          const s = parseFloat(score.score);
-          wSum += s * (w / 100);
-          wTotal += w;
-          sSum += s;
-        }
+      res.json(contract);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(400).json({ message: "Número de contrato já existe" });
       }
-
-      const newStatus = allScored ? "concluida" : "em_andamento";
-      const [evaluation] = await db.update(driverEvaluations)
-        .set({
-          status: newStatus,
-          averageScore: allScores.length > 0 ? (sSum / allScores.length).toFixed(2) : "0",
-          weightedScore: wTotal > 0 ? wSum.toFixed(2) : "0",
-        })
-        .where(eq(driverEvaluations.id, evaluationId))
-        .returning();
-
-      res.status(isNew ? 201 : 200).json({ ...evaluation, scores: allScores });
-    } catch (error) {
-      console.error("Error creating/updating evaluation:", error);
-      res.status(500).json({ message: "Failed to create/update evaluation" });
+      console.error("Error updating contract:", error);
+      res.status(500).json({ message: "Failed to update contract" });
     }
   });
 
-  app.put("/api/driver-evaluations/:id", isAuthenticatedJWT, async (req: any, res) => {
+  app.delete("/api/contracts/:id", isAuthenticatedJWT, requirePermission("contratos", "delete"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { criteriaScores, ...evaluationData } = req.body;
-
-      const existing = await db.select().from(driverEvaluations).where(eq(driverEvaluations.id, id)).limit(1);
-      if (existing.length === 0) return res.status(404).json({ message: "Evaluation not found" });
-
-      if (!criteriaScores || !Array.isArray(criteriaScores) || criteriaScores.length === 0) {
-        return res.status(400).json({ message: "criteriaScores required" });
-      }
-
-      const activeCriteria = await db.select().from(evaluationCriteria)
-        .where(eq(evaluationCriteria.isActive, "true"));
-
-      let weightedSum = 0;
-      let totalWeight = 0;
-      let simpleSum = 0;
+      await storage.deleteContract(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting contract:", error);
+      res.status(500).json({ message: "Failed to delete contract" });
+    }
+  });
 
-      for (const cs of criteriaScores) {
-        const criteria = activeCriteria.find(c => c.id === cs.criteriaId);
-        if (criteria) {
-          const weight = parseFloat(criteria.weight);
-          const severity = cs.severity || "sem_ocorrencia";
-          let penaltyPercent = 0;
-          if (severity === "leve") penaltyPercent = parseFloat(criteria.penaltyLeve || "10");
-          else if (severity === "medio") penaltyPercent = parseFloat(criteria.penaltyMedio || "50");
-          else if (severity === "grave") penaltyPercent = parseFloat(criteria.penaltyGrave || "100");
-          const score = 100 - penaltyPercent;
-          cs.calculatedScore = score;
-          weightedSum += score * (weight / 100);
-          totalWeight += weight;
-          simpleSum += score;
-        }
+  app.post("/api/contracts/:id/send-email", isAuthenticatedJWT, requirePermission("contratos", "write"), async (req, res) => {
+    try {
+      const { driverId } = req.body;
+      if (!driverId) {
+        return res.status(400).json({ message: "ID do motorista é obrigatório" });
       }
 
-      const weightedScore = totalWeight > 0 ? weightedSum : 0;
-      const averageScore = criteriaScores.length > 0 ? (simpleSum / criteriaScores.length) : 0;
+      const contract = await storage.getContract(req.params.id);
+      if (!contract) {
+        return res.status(404).json({ message: "Contrato não encontrado" });
+      }
 
-      const [evaluation] = await db.update(driverEvaluations)
-        .set({
-          hadIncident: evaluationData.hadIncident,
-          incidentDescription: evaluationData.incidentDescription ?? null,
-          averageScore: averageScore.toFixed(2),
-          weightedScore: weightedScore.toFixed(2),
-        })
-        .where(eq(driverEvaluations.id, id))
-        .returning();
+      const driver = await storage.getDriver(driverId);
+      if (!driver) {
+        return res.status(404).json({ message: "Motorista não encontrado" });
+      }
 
-      await db.delete(evaluationScores).where(eq(evaluationScores.evaluationId, id));
+      if (!driver.email) {
+        return res.status(400).json({ message: "Motorista não possui email cadastrado" });
+      }
 
-      for (const cs of criteriaScores) {
-        await db.insert(evaluationScores).values({
-          evaluationId: id,
-          criteriaId: cs.criteriaId,
-          score: (cs.calculatedScore ?? cs.score ?? 100).toString(),
-          severity: cs.severity || "sem_ocorrencia",
-          notes: cs.notes || null,
-        });
+      if (!isMailConfigured()) {
+        return res.status(500).json({ message: new MailNotConfiguredError().message });
       }
 
-      const scores = await db.select().from(evaluationScores)
-        .where(eq(evaluationScores.evaluationId, id));
+      const htmlContent = `
+        <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto;">
+          <div style="background-color: #f97316; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0;">OTD Entregas</h1>
+            <p style="margin: 5px 0 0;">Contrato para Assinatura</p>
+          </div>
+          <div style="padding: 20px; border: 1px solid #e5e7eb;">
+            <p>Olá <strong>${driver.name}</strong>,</p>
+            <p>Segue abaixo o contrato <strong>${contract.contractNumber}</strong> - ${contract.title || "Sem título"} para sua análise e assinatura.</p>
+            <hr style="border: 1px solid #e5e7eb; margin: 20px 0;" />
+            <div style="padding: 10px; background: #fafafa; border-radius: 4px;">
+              ${contract.content || "<p>Conteúdo do contrato não disponível.</p>"}
+            </div>
+            <hr style="border: 1px solid #e5e7eb; margin: 20px 0;" />
+            <p style="color: #6b7280; font-size: 12px;">Este email foi enviado automaticamente pelo sistema OTD Entregas.</p>
+          </div>
+        </div>
+      `;
 
-      res.json({ ...evaluation, scores });
+      await sendMail({
+        to: driver.email,
+        subject: `Contrato ${contract.contractNumber} - ${contract.title || "Para Assinatura"}`,
+        html: htmlContent,
+      });
+
+      res.json({ message: "Contrato enviado com sucesso para " + driver.email });
+    } catch (error: any) {
+      console.error("Error sending contract email:", error);
+      res.status(500).json({ message: "Erro ao enviar email: " + (error.message || "Falha no envio") });
+    }
+  });
+
+  // ============== MODELOS DE CAMINHÃO (Truck Models) ==============
+
+  app.get("/api/truck-models", isAuthenticatedJWT, requirePermission("modelos", "read"), async (req, res) => {
+    try {
+      const models = await db.select().from(truckModels).orderBy(truckModels.brand);
+      res.json(models);
     } catch (error) {
-      console.error("Error updating evaluation:", error);
-      res.status(500).json({ message: "Failed to update evaluation" });
+      console.error("Error fetching truck models:", error);
+      res.status(500).json({ message: "Failed to fetch truck models" });
     }
   });
 
-  app.get("/api/drivers/:id/evaluation-summary", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/truck-models", isAuthenticatedJWT, requirePermission("modelos", "write"), async (req, res) => {
     try {
-      const evaluations = await db.select().from(driverEvaluations)
-        .where(eq(driverEvaluations.driverId, req.params.id));
-      
-      if (evaluations.length === 0) {
-        return res.json({
-          totalEvaluations: 0,
-          averageScore: null,
-          categories: {
-            posturaProfissional: null,
-            pontualidade: null,
-            apresentacaoPessoal: null,
-            cordialidade: null,
-            cumpriuProcesso: null,
-          },
-          incidentCount: 0,
-        });
-      }
-      
-      const categoryAverages = {
-        posturaProfissional: evaluations.reduce((acc, e) => acc + ratingToNumber(e.posturaProfissional), 0) / evaluations.length,
-        pontualidade: evaluations.reduce((acc, e) => acc + ratingToNumber(e.pontualidade), 0) / evaluations.length,
-        apresentacaoPessoal: evaluations.reduce((acc, e) => acc + ratingToNumber(e.apresentacaoPessoal), 0) / evaluations.length,
-        cordialidade: evaluations.reduce((acc, e) => acc + ratingToNumber(e.cordialidade), 0) / evaluations.length,
-        cumpriuProcesso: evaluations.reduce((acc, e) => acc + ratingToNumber(e.cumpriuProcesso), 0) / evaluations.length,
-      };
-      
-      const overallAverage = Object.values(categoryAverages).reduce((a, b) => a + b, 0) / 5;
-      const incidentCount = evaluations.filter(e => e.hadIncident === "true").length;
-      
-      res.json({
-        totalEvaluations: evaluations.length,
-        averageScore: overallAverage.toFixed(2),
-        categories: categoryAverages,
-        incidentCount,
-      });
+      const data = insertTruckModelSchema.parse(req.body);
+      const [model] = await db.insert(truckModels).values(data).returning();
+      res.status(201).json(model);
     } catch (error) {
-      console.error("Error fetching driver summary:", error);
-      res.status(500).json({ message: "Failed to fetch driver summary" });
+      console.error("Error creating truck model:", error);
+      res.status(500).json({ message: "Failed to create truck model" });
     }
   });
 
-  // ============== PERFIL DE MOTORISTA ==============
+  app.patch("/api/truck-models/:id", isAuthenticatedJWT, requirePermission("modelos", "write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const [updated] = await db.update(truckModels)
+        .set(req.body)
+        .where(eq(truckModels.id, id))
+        .returning();
+      if (!updated) return res.status(404).json({ message: "Model not found" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating truck model:", error);
+      res.status(500).json({ message: "Failed to update truck model" });
+    }
+  });
 
-  app.get("/api/drivers/:id/profile", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/truck-models/:id", isAuthenticatedJWT, requirePermission("modelos", "delete"), async (req, res) => {
     try {
       const { id } = req.params;
+      await db.delete(truckModels).where(eq(truckModels.id, id));
+      res.json({ message: "Model deleted" });
+    } catch (error) {
+      console.error("Error deleting truck model:", error);
+      res.status(500).json({ message: "Failed to delete truck model" });
+    }
+  });
 
-      const driver = await storage.getDriver(id);
-      if (!driver) return res.status(404).json({ message: "Motorista não encontrado" });
+  // ==================== FREIGHT QUOTES ====================
+  app.get("/api/freight-quotes", isAuthenticatedJWT, requirePermission("cotacao-frete", "read"), async (req, res) => {
+    try {
+      const quotes = await db.select().from(freightQuotes).orderBy(desc(freightQuotes.createdAt));
+      res.json(quotes);
+    } catch (error) {
+      console.error("Error fetching freight quotes:", error);
+      res.status(500).json({ message: "Failed to fetch freight quotes" });
+    }
+  });
 
-      const driverTransports = await db
-        .select()
-        .from(transports)
-        .where(eq(transports.driverId, id))
-        .orderBy(desc(transports.createdAt));
+  app.get("/api/freight-quotes/:id", isAuthenticatedJWT, requirePermission("cotacao-frete", "read"), async (req, res) => {
+    try {
+      const [quote] = await db.select().from(freightQuotes).where(eq(freightQuotes.id, req.params.id));
+      if (!quote) return res.status(404).json({ message: "Quote not found" });
+      res.json(quote);
+    } catch (error) {
+      console.error("Error fetching freight quote:", error);
+      res.status(500).json({ message: "Failed to fetch freight quote" });
+    }
+  });
 
-      const driverEvals = await db
-        .select()
-        .from(driverEvaluations)
-        .where(eq(driverEvaluations.driverId, id))
-        .orderBy(desc(driverEvaluations.createdAt));
+  app.post("/api/freight-quotes", isAuthenticatedJWT, requirePermission("cotacao-frete", "write"), async (req, res) => {
+    try {
+      const data = insertFreightQuoteSchema.parse(req.body);
+      const [quote] = await db.insert(freightQuotes).values(data).returning();
+      res.status(201).json(quote);
+    } catch (error) {
+      console.error("Error creating freight quote:", error);
+      res.status(500).json({ message: "Failed to create freight quote" });
+    }
+  });
 
-      const completed = driverTransports.filter((t) => t.status === "entregue");
-      const totalTrips = completed.length;
-      const totalKm = completed.reduce((sum, t) => sum + parseFloat(t.routeDistanceKm as string || "0"), 0);
-      const avgScore =
-        driverEvals.length > 0
-          ? driverEvals.reduce(
-              (sum, e) => sum + parseFloat(e.weightedScore || e.averageScore || "0"),
-              0
-            ) / driverEvals.length
-          : null;
-      const incidentCount = driverEvals.filter((e) => e.hadIncident === "true").length;
+  app.patch("/api/freight-quotes/:id", isAuthenticatedJWT, requirePermission("cotacao-frete", "write"), async (req, res) => {
+    try {
+      const { convertedToContractId, convertedAt } = req.body;
+      const [updated] = await db
+        .update(freightQuotes)
+        .set({ convertedToContractId: convertedToContractId ?? null, convertedAt: convertedAt ? new Date(convertedAt) : null })
+        .where(eq(freightQuotes.id, req.params.id))
+        .returning();
+      if (!updated) return res.status(404).json({ message: "Quote not found" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating freight quote:", error);
+      res.status(500).json({ message: "Failed to update freight quote" });
+    }
+  });
 
-      const now = new Date();
-      const monthlyPerformance = [];
-      for (let i = 5; i >= 0; i--) {
-        const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const label = d.toLocaleDateString("pt-BR", { month: "short" }).replace(".", "");
-        const monthEvals = driverEvals.filter((e) => {
-          const ed = new Date(e.createdAt);
-          return ed.getFullYear() === d.getFullYear() && ed.getMonth() === d.getMonth();
-        });
-        const monthAvg =
-          monthEvals.length > 0
-            ? monthEvals.reduce(
-                (sum, e) => sum + parseFloat(e.weightedScore || e.averageScore || "0"),
-                0
-              ) / monthEvals.length
-            : null;
-        monthlyPerformance.push({
-          month: label,
-          score: monthAvg ? parseFloat(monthAvg.toFixed(1)) : null,
-          trips: monthEvals.length,
-        });
-      }
+  app.delete("/api/freight-quotes/:id", isAuthenticatedJWT, requirePermission("cotacao-frete", "delete"), async (req, res) => {
+    try {
+      await db.delete(freightQuotes).where(eq(freightQuotes.id, req.params.id));
+      res.json({ message: "Quote deleted" });
+    } catch (error) {
+      console.error("Error deleting freight quote:", error);
+      res.status(500).json({ message: "Failed to delete freight quote" });
+    }
+  });
 
-      const recentTransports = driverTransports.slice(0, 25);
-      const recentTrips = await Promise.all(
-        recentTransports.map(async (t) => {
-          const [originYardRows, delLocRows, evalRows] = await Promise.all([
-            t.originYardId
-              ? db.select().from(yards).where(eq(yards.id, t.originYardId)).limit(1)
-              : Promise.resolve([]),
-            t.deliveryLocationId
-              ? db.select().from(deliveryLocations).where(eq(deliveryLocations.id, t.deliveryLocationId)).limit(1)
-              : Promise.resolve([]),
-            db.select().from(driverEvaluations).where(eq(driverEvaluations.transportId, t.id)).limit(1),
-          ]);
-          return {
-            ...t,
-            originYard: originYardRows[0] || null,
-            deliveryLocation: delLocRows[0] || null,
-            evaluation: evalRows[0] || null,
-          };
-        })
-      );
+  // ==================== FREIGHT CONTRACTS ====================
+  app.get("/api/freight-contracts", isAuthenticatedJWT, requirePermission("contratos-frete", "read"), async (req, res) => {
+    try {
+      const contracts = await storage.getFreightContracts();
+      res.json(contracts);
+    } catch (error) {
+      console.error("Error fetching freight contracts:", error);
+      res.status(500).json({ message: "Failed to fetch freight contracts" });
+    }
+  });
 
-      const infractions = driverEvals
-        .filter((e) => e.hadIncident === "true")
-        .slice(0, 10)
-        .map((e) => ({
-          id: e.id,
-          date: e.createdAt,
-          description: e.incidentDescription,
-          score: e.weightedScore || e.averageScore,
-        }));
+  app.get("/api/freight-contracts/next-number", isAuthenticatedJWT, requirePermission("contratos-frete", "read"), async (req, res) => {
+    try {
+      const number = await storage.getNextFreightContractNumber();
+      res.json({ contractNumber: number });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get next contract number" });
+    }
+  });
 
-      const isOnTrip = driverTransports.some((t) => t.status === "em_transito");
+  app.get("/api/freight-contracts/:id", isAuthenticatedJWT, requirePermission("contratos-frete", "read"), async (req, res) => {
+    try {
+      const contract = await storage.getFreightContract(req.params.id);
+      if (!contract) return res.status(404).json({ message: "Contract not found" });
+      res.json(contract);
+    } catch (error) {
+      console.error("Error fetching freight contract:", error);
+      res.status(500).json({ message: "Failed to fetch freight contract" });
+    }
+  });
 
-      const lastAppActivity = driverTransports.reduce((latest, t) => {
-        const candidates = [t.checkinDateTime, t.checkoutDateTime].filter(Boolean) as string[];
-        for (const d of candidates) {
-          if (!latest || new Date(d) > new Date(latest)) return d;
-        }
-        return latest;
-      }, null as string | null);
+  app.post("/api/freight-contracts", isAuthenticatedJWT, requirePermission("contratos-frete", "write"), async (req, res) => {
+    try {
+      const data = insertFreightContractSchema.parse(req.body);
+      const contract = await storage.createFreightContract(data);
+      res.status(201).json(contract);
+    } catch (error) {
+      console.error("Error creating freight contract:", error);
+      res.status(500).json({ message: "Failed to create freight contract" });
+    }
+  });
 
-      res.json({
-        driver,
-        kpis: {
-          totalTrips,
-          totalKm: totalKm.toFixed(0),
-          avgScore: avgScore ? avgScore.toFixed(1) : null,
-          incidentCount,
-        },
-        monthlyPerformance,
-        recentTrips,
-        infractions,
-        isOnTrip,
-        lastAppActivity,
-      });
+  app.patch("/api/freight-contracts/:id", isAuthenticatedJWT, requirePermission("contratos-frete", "write"), async (req, res) => {
+    try {
+      const contract = await storage.updateFreightContract(req.params.id, req.body);
+      if (!contract) return res.status(404).json({ message: "Contract not found" });
+      res.json(contract);
     } catch (error) {
-      console.error("Error fetching driver profile:", error);
-      res.status(500).json({ message: "Failed to fetch driver profile" });
+      console.error("Error updating freight contract:", error);
+      res.status(500).json({ message: "Failed to update freight contract" });
     }
   });
 
-  // ============== GESTÃO DE ROTAS (Route Management) ==============
-  
-  // Get all routes with relations
-  app.get("/api/routes", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/freight-contracts/:id", isAuthenticatedJWT, requirePermission("contratos-frete", "delete"), async (req, res) => {
     try {
-      const allRoutes = await db.select().from(routes).orderBy(routes.createdAt);
-      
-      // Get yards and delivery locations for each route
-      const routesWithRelations = await Promise.all(
-        allRoutes.map(async (route) => {
-          const originYard = await db.select().from(yards).where(eq(yards.id, route.originYardId)).limit(1);
-          const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, route.destinationLocationId)).limit(1);
-          
-          return {
-            ...route,
-            originYard: originYard[0] || null,
-            destinationLocation: destinationLocation[0] || null,
-          };
+      await storage.deleteFreightContract(req.params.id);
+      res.json({ message: "Contract deleted" });
+    } catch (error) {
+      console.error("Error deleting freight contract:", error);
+      res.status(500).json({ message: "Failed to delete freight contract" });
+    }
+  });
+
+  // ============ TRANSFERS ============
+
+  app.get("/api/transfers", isAuthenticatedJWT, requirePermission("transferencias", "read"), async (req, res) => {
+    try {
+      const transfersList = await storage.getTransfers();
+      const enriched = await Promise.all(
+        transfersList.map(async (t) => {
+          const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.chassi, t.vehicleChassi));
+          const [originYard] = await db.select().from(yards).where(eq(yards.id, t.originYardId));
+          const [destinationYard] = await db.select().from(yards).where(eq(yards.id, t.destinationYardId));
+          return { ...t, vehicle, originYard, destinationYard };
         })
       );
-      
-      res.json(routesWithRelations);
+      res.json(enriched);
     } catch (error) {
-      console.error("Error fetching routes:", error);
-      res.status(500).json({ message: "Failed to fetch routes" });
+      console.error("Error fetching transfers:", error);
+      res.status(500).json({ message: "Failed to fetch transfers" });
     }
   });
 
-  // Get single route by ID
-  app.get("/api/routes/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/transfers/:id", isAuthenticatedJWT, requirePermission("transferencias", "read"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const route = await db.select().from(routes).where(eq(routes.id, id)).limit(1);
-      
-      if (!route[0]) {
-        return res.status(404).json({ message: "Route not found" });
-      }
-      
-      const originYard = await db.select().from(yards).where(eq(yards.id, route[0].originYardId)).limit(1);
-      const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, route[0].destinationLocationId)).limit(1);
-      
-      res.json({
-        ...route[0],
-        originYard: originYard[0] || null,
-        destinationLocation: destinationLocation[0] || null,
-      });
+      const transfer = await storage.getTransfer(req.params.id);
+      if (!transfer) return res.status(404).json({ message: "Transferência não encontrada" });
+      res.json(transfer);
     } catch (error) {
-      console.error("Error fetching route:", error);
-      res.status(500).json({ message: "Failed to fetch route" });
+      res.status(500).json({ message: "Failed to fetch transfer" });
     }
   });
 
-  // Create new route
-  app.post("/api/routes", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/transfers", isAuthenticatedJWT, requirePermission("transferencias", "write"), async (req, res) => {
     try {
-      const validatedData = insertRouteSchema.parse(req.body);
-      
-      // Calculate costs automatically
-      const distanceKm = parseFloat(validatedData.distanceKm || "0");
-      const dieselPrice = parseFloat(validatedData.dieselPrice || "0");
-      const fuelConsumption = parseFloat(validatedData.fuelConsumption || "0");
-      const tollCost = parseFloat(validatedData.tollCost || "0");
-      const driverDailyCost = parseFloat(validatedData.driverDailyCost || "0");
-      const returnTicket = parseFloat(validatedData.returnTicket || "0");
-      const extraExpenses = parseFloat(validatedData.extraExpenses || "0");
-      const adValoremPercentage = parseFloat(validatedData.adValoremPercentage || "0");
-      const vehicleValue = parseFloat(validatedData.vehicleValue || "0");
-      const profitMarginPercentage = parseFloat(validatedData.profitMarginPercentage || "0");
-      const adminFee = parseFloat(validatedData.adminFee || "0");
-      
-      // Calculate fuel cost: (distance / consumption) * price
-      const fuelCost = fuelConsumption > 0 ? (distanceKm / fuelConsumption) * dieselPrice : 0;
-      // Arla 32: 5% of fuel cost
-      const arla32Cost = fuelCost * 0.05;
-      // Ad Valorem cost
-      const adValoremCost = (vehicleValue * adValoremPercentage) / 100;
-      
-      // Total cost
-      const totalCost = fuelCost + arla32Cost + tollCost + driverDailyCost + returnTicket + extraExpenses + adValoremCost + adminFee;
-      
-      // Suggested price (cost + margin)
-      const suggestedPrice = totalCost * (1 + profitMarginPercentage / 100);
-      
-      // Net profit
-      const netProfit = suggestedPrice - totalCost;
-      
-      const routeData = {
-        ...validatedData,
-        fuelCost: fuelCost.toFixed(2),
-        arla32Cost: arla32Cost.toFixed(2),
-        adValoremCost: adValoremCost.toFixed(2),
-        totalCost: totalCost.toFixed(2),
-        suggestedPrice: suggestedPrice.toFixed(2),
-        netProfit: netProfit.toFixed(2),
-      };
-      
-      const newRoute = await db.insert(routes).values(routeData).returning();
-      res.status(201).json(newRoute[0]);
-    } catch (error) {
-      console.error("Error creating route:", error);
-      res.status(500).json({ message: "Failed to create route" });
+      const { vehicleChassi, originYardId, destinationYardId, notes } = req.body;
+      if (!vehicleChassi || !originYardId || !destinationYardId) {
+        return res.status(400).json({ message: "Chassi, pátio de origem e destino são obrigatórios" });
+      }
+      if (originYardId === destinationYardId) {
+        return res.status(400).json({ message: "Pátio de origem e destino devem ser diferentes" });
+      }
+      const vehicle = await storage.getVehicle(vehicleChassi);
+      if (!vehicle) return res.status(404).json({ message: "Veículo não encontrado" });
+      if (vehicle.status !== "em_estoque") {
+        return res.status(400).json({ message: "Apenas veículos Em Estoque podem ser transferidos" });
+      }
+      const userId = (req as any).user?.id;
+      const transfer = await storage.createTransfer({
+        vehicleChassi,
+        originYardId,
+        destinationYardId,
+        notes: notes || null,
+        requestedBy: userId || null,
+        status: "pendente",
+      });
+      res.status(201).json(transfer);
+    } catch (error: any) {
+      console.error("Error creating transfer:", error);
+      res.status(500).json({ message: error.message || "Failed to create transfer" });
     }
   });
 
-  // Update route
-  app.patch("/api/routes/:id", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/portaria/authorize-transfer/:id", isAuthenticatedJWT, requirePermission("portaria", "approve"), async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      // Load existing route first
-      const existingRoute = await db.select().from(routes).where(eq(routes.id, id)).limit(1);
-      if (!existingRoute[0]) {
-        return res.status(404).json({ message: "Route not found" });
+      const userId = (req as any).user?.id;
+      await authorizeTransfer(req.params.id, userId || null);
+      res.json({ success: true, message: "Transferência autorizada com sucesso" });
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
       }
-      
-      const existing = existingRoute[0];
-      const validatedData = insertRouteSchema.partial().parse(req.body);
-      
-      // Merge with existing values - use incoming data if provided, otherwise use existing
-      const distanceKm = parseFloat(validatedData.distanceKm ?? existing.distanceKm ?? "0");
-      const dieselPrice = parseFloat(validatedData.dieselPrice ?? existing.dieselPrice ?? "0");
-      const fuelConsumption = parseFloat(validatedData.fuelConsumption ?? existing.fuelConsumption ?? "0");
-      const tollCost = parseFloat(validatedData.tollCost ?? existing.tollCost ?? "0");
-      const driverDailyCost = parseFloat(validatedData.driverDailyCost ?? existing.driverDailyCost ?? "0");
-      const returnTicket = parseFloat(validatedData.returnTicket ?? existing.returnTicket ?? "0");
-      const extraExpenses = parseFloat(validatedData.extraExpenses ?? existing.extraExpenses ?? "0");
-      const adValoremPercentage = parseFloat(validatedData.adValoremPercentage ?? existing.adValoremPercentage ?? "0");
-      const vehicleValue = parseFloat(validatedData.vehicleValue ?? existing.vehicleValue ?? "0");
-      const profitMarginPercentage = parseFloat(validatedData.profitMarginPercentage ?? existing.profitMarginPercentage ?? "0");
-      const adminFee = parseFloat(validatedData.adminFee ?? existing.adminFee ?? "0");
-      
-      // Calculate fuel cost
-      const fuelCost = fuelConsumption > 0 ? (distanceKm / fuelConsumption) * dieselPrice : 0;
-      const arla32Cost = fuelCost * 0.05;
-      const adValoremCost = (vehicleValue * adValoremPercentage) / 100;
-      const totalCost = fuelCost + arla32Cost + tollCost + driverDailyCost + returnTicket + extraExpenses + adValoremCost + adminFee;
-      const suggestedPrice = totalCost * (1 + profitMarginPercentage / 100);
-      const netProfit = suggestedPrice - totalCost;
-      
-      const routeData = {
-        ...validatedData,
-        fuelCost: fuelCost.toFixed(2),
-        arla32Cost: arla32Cost.toFixed(2),
-        adValoremCost: adValoremCost.toFixed(2),
-        totalCost: totalCost.toFixed(2),
-        suggestedPrice: suggestedPrice.toFixed(2),
-        netProfit: netProfit.toFixed(2),
-        updatedAt: new Date(),
-      };
-      
-      const updatedRoute = await db.update(routes).set(routeData).where(eq(routes.id, id)).returning();
-      
-      if (!updatedRoute[0]) {
-        return res.status(404).json({ message: "Route not found" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      res.json(updatedRoute[0]);
-    } catch (error) {
-      console.error("Error updating route:", error);
-      res.status(500).json({ message: "Failed to update route" });
+      console.error("Error authorizing transfer:", error);
+      res.status(500).json({ message: error.message || "Erro ao autorizar transferência" });
+    }
+  });
+
+  app.post("/api/transfers/:id/complete", isAuthenticatedJWT, requirePermission("transferencias", "write"), async (req, res) => {
+    try {
+      await completeTransfer(req.params.id);
+      res.json({ success: true, message: "Transferência concluída. Veículo agora em estoque no pátio de destino." });
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error completing transfer:", error);
+      res.status(500).json({ message: error.message || "Erro ao concluir transferência" });
     }
   });
 
-  // Delete route
-  app.delete("/api/routes/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/transfers/:id/cancel", isAuthenticatedJWT, requirePermission("transferencias", "write"), async (req, res) => {
     try {
-      const { id } = req.params;
-      await db.delete(routes).where(eq(routes.id, id));
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting route:", error);
-      res.status(500).json({ message: "Failed to delete route" });
+      await cancelTransfer(req.params.id);
+      res.json({ success: true, message: "Transferência cancelada" });
+  } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling transfer:", error);
+      res.status(500).json({ message: error.message || "Erro ao cancelar transferência" });
     }
   });
 
-  // Toggle favorite
-  app.patch("/api/routes/:id/favorite", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/transfers/:id", isAuthenticatedJWT, requirePermission("transferencias", "delete"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const route = await db.select().from(routes).where(eq(routes.id, id)).limit(1);
-      
-      if (!route[0]) {
-        return res.status(404).json({ message: "Route not found" });
-      }
-      
-      const newFavoriteStatus = route[0].isFavorite === "true" ? "false" : "true";
-      const updatedRoute = await db.update(routes).set({ isFavorite: newFavoriteStatus, updatedAt: new Date() }).where(eq(routes.id, id)).returning();
-      
-      res.json(updatedRoute[0]);
+      await storage.deleteTransfer(req.params.id);
+      res.json({ message: "Transfer deleted" });
     } catch (error) {
-      console.error("Error toggling favorite:", error);
-      res.status(500).json({ message: "Failed to toggle favorite" });
+      res.status(500).json({ message: "Failed to delete transfer" });
     }
   });
 
-  // Calculate route distance and tolls using Google Maps API
-  app.post("/api/routes/calculate-route", isAuthenticatedJWT, async (req, res) => {
+  // ============== RASTREAMENTO (GPS Tracking) ==============
+  // Batched positions from the driver app or a tracker device
+  app.post("/api/tracking/positions", isAuthenticatedJWT, async (req: AuthenticatedRequest, res) => {
     try {
-      const { originYardId, destinationLocationId, truckAxles } = req.body;
-      
-      if (!originYardId || !destinationLocationId) {
-        return res.status(400).json({ message: "Origin yard and destination location are required" });
-      }
-      
-      // Get origin yard coordinates
-      const originYard = await db.select().from(yards).where(eq(yards.id, originYardId)).limit(1);
-      if (!originYard[0]) {
-        return res.status(404).json({ message: "Origin yard not found" });
-      }
-      
-      // Get destination location coordinates
-      const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, destinationLocationId)).limit(1);
-      if (!destinationLocation[0]) {
-        return res.status(404).json({ message: "Destination location not found" });
-      }
-      
-      const originLat = originYard[0].latitude;
-      const originLng = originYard[0].longitude;
-      const destLat = destinationLocation[0].latitude;
-      const destLng = destinationLocation[0].longitude;
-      
-      if (!originLat || !originLng || !destLat || !destLng) {
-        return res.status(400).json({ message: "Origin or destination coordinates are missing" });
-      }
-      
-      const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-      if (!apiKey) {
-        return res.status(500).json({ message: "Google Maps API key not configured" });
-      }
-      
-      // Use Google Routes API to get distance and tolls
-      const routesApiUrl = "https://routes.googleapis.com/directions/v2:computeRoutes";
-      
-      // Map truck axles to vehicle type for toll calculation
-      const axlesNum = parseInt(truckAxles) || 2;
-      
-      const requestBody: any = {
-        origin: {
-          location: {
-            latLng: {
-              latitude: parseFloat(originLat),
-              longitude: parseFloat(originLng)
-            }
-          }
-        },
-        destination: {
-          location: {
-            latLng: {
-              latitude: parseFloat(destLat),
-              longitude: parseFloat(destLng)
-            }
-          }
-        },
-        travelMode: "DRIVE",
-        computeAlternativeRoutes: false,
-        extraComputations: ["TOLLS"],
-        routeModifiers: {
-          vehicleInfo: {
-            emissionType: "DIESEL"
-          }
+      const { positions } = trackingPositionBatchSchema.parse(req.body);
+
+      const role = req.user?.role || "visualizador";
+      const subjectTypes = Array.from(new Set(positions.map((p) => p.subjectType)));
+      for (const subjectType of subjectTypes) {
+        if (!(await hasPermission(role, trackingSubjectFeatures[subjectType], "write"))) {
+          return res.status(403).json({
+            message: "Permissão negada",
+            feature: trackingSubjectFeatures[subjectType],
+            action: "write",
+          });
         }
-      };
-      
-      // Add axle count for toll calculation if supported
-      if (axlesNum > 2) {
-        requestBody.routeModifiers.vehicleInfo.axleCount = axlesNum;
       }
-      
-      const response = await fetch(routesApiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Goog-Api-Key": apiKey,
-          "X-Goog-FieldMask": "routes.duration,routes.distanceMeters,routes.travelAdvisory.tollInfo"
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Google Routes API error:", errorText);
-        
-        // Fallback to Distance Matrix API for distance only
-        const distanceMatrixUrl = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${originLat},${originLng}&destinations=${destLat},${destLng}&mode=driving&key=${apiKey}`;
-        
-        const dmResponse = await fetch(distanceMatrixUrl);
-        const dmData = await dmResponse.json();
-        
-        if (dmData.status === "OK" && dmData.rows[0]?.elements[0]?.status === "OK") {
-          const element = dmData.rows[0].elements[0];
-          const distanceKm = (element.distance.value / 1000).toFixed(2);
-          const durationMinutes = Math.round(element.duration.value / 60);
-          
-          return res.json({
-            distanceKm,
-            durationMinutes,
-            tollCost: null, // Not available from Distance Matrix API
-            message: "Distance calculated, but toll information requires Google Routes API"
-          });
+
+      // Drivers only report positions for the transports and collects assigned to them
+      let ownDriverId: string | undefined;
+      if (role === "motorista") {
+        const driver = await findDriverForUser(req.user!);
+        if (!driver) {
+          return res.status(403).json({ message: "Usuário não vinculado a um motorista" });
         }
-        
-        return res.status(500).json({ message: "Failed to calculate route" });
+        ownDriverId = driver.id;
       }
-      
-      const data = await response.json();
-      
-      if (!data.routes || data.routes.length === 0) {
-        return res.status(404).json({ message: "No route found" });
+
+      const stored = await ingestPositions(positions, {}, ownDriverId);
+      res.status(201).json({ received: stored.length });
+    } catch (error: any) {
+      if (error instanceof UnknownTrackingSubjectError) {
+        return res.status(404).json({ message: error.message, subjects: error.subjects });
       }
-      
-      const route = data.routes[0];
-      const distanceKm = (route.distanceMeters / 1000).toFixed(2);
-      const durationMinutes = Math.round(parseInt(route.duration.replace("s", "")) / 60);
-      
-      // Extract toll cost
-      let tollCost: string | null = null;
-      if (route.travelAdvisory?.tollInfo?.estimatedPrice) {
-        const prices = route.travelAdvisory.tollInfo.estimatedPrice;
-        if (prices.length > 0) {
-          // Sum all toll prices (might be in different currencies), prefer BRL
-          const brlPrices = prices.filter((p: any) => p.currencyCode === "BRL");
-          const pricesToUse = brlPrices.length > 0 ? brlPrices : prices;
-          
-          const total = pricesToUse.reduce((sum: number, p: any) => {
-            const units = typeof p.units === 'string' ? parseFloat(p.units) : (p.units || 0);
-            const nanos = typeof p.nanos === 'string' ? parseFloat(p.nanos) : (p.nanos || 0);
-            return sum + units + nanos / 1000000000;
-          }, 0);
-          
-          if (total > 0) {
-            tollCost = total.toFixed(2);
-          }
-        }
+      if (error instanceof ForeignTrackingSubjectError) {
+        return res.status(403).json({ message: error.message, subjects: error.subjects });
       }
-      
-      res.json({
-        distanceKm,
-        durationMinutes,
-        tollCost,
-        originYardName: originYard[0].name,
-        destinationLocationName: destinationLocation[0].name
-      });
+      console.error("Error ingesting tracking positions:", error);
+      res.status(400).json({ message: error.message || "Failed to store positions" });
+    }
+  });
+
+  app.get("/api/tracking/live", isAuthenticatedJWT, requirePermission("trafego-agora", "read"), async (req, res) => {
+    try {
+      const entries = await getLiveTracking();
+      res.json(entries);
     } catch (error) {
-      console.error("Error calculating route:", error);
-      res.status(500).json({ message: "Failed to calculate route" });
+      console.error("Error fetching live tracking:", error);
+      res.status(500).json({ message: "Failed to fetch live tracking" });
     }
   });
 
-  // Get favorite routes only
-  app.get("/api/routes/favorites/list", isAuthenticatedJWT, async (req, res) => {
+  // Breadcrumb trail of a single transport/collect/transfer, oldest first
+  app.get("/api/tracking/:subjectType/:subjectId/positions", isAuthenticatedJWT, async (req: AuthenticatedRequest, res) => {
     try {
-      const favoriteRoutes = await db.select().from(routes).where(eq(routes.isFavorite, "true")).orderBy(routes.name);
-      
-      const routesWithRelations = await Promise.all(
-        favoriteRoutes.map(async (route) => {
-          const originYard = await db.select().from(yards).where(eq(yards.id, route.originYardId)).limit(1);
-          const destinationLocation = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, route.destinationLocationId)).limit(1);
-          
-          return {
-            ...route,
-            originYard: originYard[0] || null,
-            destinationLocation: destinationLocation[0] || null,
-          };
-        })
-      );
-      
-      res.json(routesWithRelations);
+      const subjectType = req.params.subjectType as TrackingSubjectType;
+      if (!trackingSubjectTypes.includes(subjectType)) {
+        return res.status(400).json({ message: "Invalid subject type" });
+      }
+
+      const allowed = await hasPermission(req.user?.role || "visualizador", trackingSubjectFeatures[subjectType], "read");
+      if (!allowed) {
+        return res.status(403).json({ message: "Permissão negada" });
+      }
+
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Invalid since date" });
+      }
+
+      const positions = await storage.getTrackingPositions(subjectType, req.params.subjectId, since);
+      res.json(positions);
     } catch (error) {
-      console.error("Error fetching favorite routes:", error);
-      res.status(500).json({ message: "Failed to fetch favorite routes" });
+      console.error("Error fetching tracking positions:", error);
+      res.status(500).json({ message: "Failed to fetch positions" });
     }
   });
 
-  // Contracts
-  app.get("/api/contracts", async (req, res) => {
+  // ============== RASTREADORES (Tracker Devices) ==============
+  app.get("/api/trackers", isAuthenticatedJWT, requirePermission("rastreadores", "read"), async (req, res) => {
     try {
-      const allContracts = await storage.getContracts();
-      const contractsWithDriver = await Promise.all(
-        allContracts.map(async (contract) => {
-          let driver = null;
-          if (contract.driverId) {
-            driver = await storage.getDriver(contract.driverId);
-          }
-          return { ...contract, driver };
-        })
-      );
-      res.json(contractsWithDriver);
+      const trackers = await storage.getTrackers();
+      res.json(trackers);
     } catch (error) {
-      console.error("Error fetching contracts:", error);
-      res.status(500).json({ message: "Failed to fetch contracts" });
+      console.error("Error fetching trackers:", error);
+      res.status(500).json({ message: "Failed to fetch trackers" });
     }
   });
 
-  app.get("/api/contracts/:id", async (req, res) => {
+  // Vendor platforms and HTTP-capable devices push positions here. Authenticated with a shared
+  // token instead of a user session because the caller is a machine.
+  app.post("/api/trackers/webhook", async (req, res) => {
+    const expected = process.env.TRACKER_WEBHOOK_TOKEN;
+    if (!expected) {
+      return res.status(503).json({ message: "Tracker webhook is not configured" });
+    }
+    const provided = req.get("x-tracker-token") || "";
+    if (provided.length !== expected.length || !timingSafeEqual(Buffer.from(provided), Buffer.from(expected))) {
+      return res.status(401).json({ message: "Invalid tracker token" });
+    }
+
     try {
-      const contract = await storage.getContract(req.params.id);
-      if (!contract) {
-        return res.status(404).json({ message: "Contract not found" });
+      const events = parseGenericJsonPayload(req.body);
+      const result = await ingestTrackerEvents(events);
+      res.status(202).json(result);
+    } catch (error: any) {
+      if (error instanceof InvalidTrackerPayloadError) {
+        return res.status(400).json({ message: error.message });
       }
-      let driver = null;
-      if (contract.driverId) {
-        driver = await storage.getDriver(contract.driverId);
+      console.error("Error ingesting tracker webhook:", error);
+      res.status(500).json({ message: "Failed to ingest tracker positions" });
+    }
+  });
+
+  app.get("/api/trackers/:id", isAuthenticatedJWT, requirePermission("rastreadores", "read"), async (req, res) => {
+    try {
+      const tracker = await storage.getTracker(req.params.id);
+      if (!tracker) {
+        return res.status(404).json({ message: "Tracker not found" });
       }
-      res.json({ ...contract, driver });
+      res.json(tracker);
     } catch (error) {
-      console.error("Error fetching contract:", error);
-      res.status(500).json({ message: "Failed to fetch contract" });
+      console.error("Error fetching tracker:", error);
+      res.status(500).json({ message: "Failed to fetch tracker" });
     }
   });
 
-  app.post("/api/contracts", async (req, res) => {
+  app.post("/api/trackers", isAuthenticatedJWT, requirePermission("rastreadores", "write"), async (req, res) => {
     try {
-      const parsed = insertContractSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ message: "Invalid contract data", errors: parsed.error.errors });
+      const data = insertTrackerSchema.parse(req.body);
+      if (await storage.getTrackerByImei(data.imei)) {
+        return res.status(409).json({ message: "Já existe um rastreador com este IMEI" });
       }
-      const contract = await storage.createContract(parsed.data);
-      res.status(201).json(contract);
+      const tracker = await storage.createTracker(data);
+      res.status(201).json(tracker);
     } catch (error: any) {
-      if (error?.code === "23505") {
-        return res.status(400).json({ message: "Número de contrato já existe" });
-      }
-      console.error("Error creating contract:", error);
-      res.status(500).json({ message: "Failed to create contract" });
+      console.error("Error creating tracker:", error);
+      res.status(400).json({ message: error.message || "Failed to create tracker" });
     }
   });
 
-  app.patch("/api/contracts/:id", async (req, res) => {
+  app.patch("/api/trackers/:id", isAuthenticatedJWT, requirePermission("rastreadores", "write"), async (req, res) => {
     try {
-      const contract = await storage.updateContract(req.params.id, req.body);
-      if (!contract) {
-        return res.status(404).json({ message: "Contract not found" });
+      const data = insertTrackerSchema.partial().parse(req.body);
+      if (data.imei) {
+        const existing = await storage.getTrackerByImei(data.imei);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: "Já existe um rastreador com este IMEI" });
+        }
       }
-      res.json(contract);
-    } catch (error: any) {
-      if (error?.code === "23505") {
-        return res.status(400).json({ message: "Número de contrato já existe" });
+      const tracker = await storage.updateTracker(req.params.id, data);
+      if (!tracker) {
+        return res.status(404).json({ message: "Tracker not found" });
       }
-      console.error("Error updating contract:", error);
-      res.status(500).json({ message: "Failed to update contract" });
+      res.json(tracker);
+    } catch (error: any) {
+      console.error("Error updating tracker:", error);
+      res.status(400).json({ message: error.message || "Failed to update tracker" });
     }
   });
 
-  app.delete("/api/contracts/:id", async (req, res) => {
+  app.delete("/api/trackers/:id", isAuthenticatedJWT, requirePermission("rastreadores", "delete"), async (req, res) => {
     try {
-      await storage.deleteContract(req.params.id);
-      res.status(204).send();
+      await storage.deleteTracker(req.params.id);
+      res.json({ message: "Tracker deleted" });
     } catch (error) {
-      console.error("Error deleting contract:", error);
-      res.status(500).json({ message: "Failed to delete contract" });
+      console.error("Error deleting tracker:", error);
+      res.status(500).json({ message: "Failed to delete tracker" });
     }
   });
 
-  app.post("/api/contracts/:id/send-email", isAuthenticatedJWT, async (req, res) => {
+  // ============== FROTA (Fleet) ==============
+  app.get("/api/fleet-units", isAuthenticatedJWT, requirePermission("frota", "read"), async (req, res) => {
     try {
-      const { driverId } = req.body;
-      if (!driverId) {
-        return res.status(400).json({ message: "ID do motorista é obrigatório" });
-      }
-
-      const contract = await storage.getContract(req.params.id);
-      if (!contract) {
-        return res.status(404).json({ message: "Contrato não encontrado" });
-      }
-
-      const driver = await storage.getDriver(driverId);
-      if (!driver) {
-        return res.status(404).json({ message: "Motorista não encontrado" });
-      }
-
-      if (!driver.email) {
-        return res.status(400).json({ message: "Motorista não possui email cadastrado" });
-      }
-
-      const smtpHost = process.env.SMTP_HOST;
-      const smtpPort = process.env.SMTP_PORT || "587";
-      const smtpUser = process.env.SMTP_USER;
-      const smtpPass = process.env.SMTP_PASS;
-      const smtpFrom = process.env.SMTP_FROM || smtpUser;
+      res.json(await storage.getFleetUnits());
+    } catch (error) {
+      console.error("Error fetching fleet units:", error);
+      res.status(500).json({ message: "Failed to fetch fleet units" });
+    }
+  });
 
-      if (!smtpHost || !smtpUser || !smtpPass) {
-        return res.status(500).json({ message: "Configuração SMTP não encontrada. Configure as variáveis SMTP_HOST, SMTP_USER e SMTP_PASS." });
+  app.get("/api/fleet-units/:id", isAuthenticatedJWT, requirePermission("frota", "read"), async (req, res) => {
+    try {
+      const unit = await storage.getFleetUnit(req.params.id);
+      if (!unit) {
+        return res.status(404).json({ message: "Unidade da frota não encontrada" });
       }
+      res.json(unit);
+    } catch (error) {
+      console.error("Error fetching fleet unit:", error);
+      res.status(500).json({ message: "Failed to fetch fleet unit" });
+    }
+  });
 
-      const transporter = nodemailer.createTransport({
-        host: smtpHost,
-        port: parseInt(smtpPort),
-        secure: parseInt(smtpPort) === 465,
-        auth: {
-          user: smtpUser,
-          pass: smtpPass,
-        },
-      });
-
-      const htmlContent = `
-        <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto;">
-          <div style="background-color: #f97316; color: white; padding: 20px; text-align: center;">
-            <h1 style="margin: 0;">OTD Entregas</h1>
-            <p style="margin: 5px 0 0;">Contrato para Assinatura</p>
-          </div>
-          <div style="padding: 20px; border: 1px solid #e5e7eb;">
-            <p>Olá <strong>${driver.name}</strong>,</p>
-            <p>Segue abaixo o contrato <strong>${contract.contractNumber}</strong> - ${contract.title || "Sem título"} para sua análise e assinatura.</p>
-            <hr style="border: 1px solid #e5e7eb; margin: 20px 0;" />
-            <div style="padding: 10px; background: #fafafa; border-radius: 4px;">
-              ${contract.content || "<p>Conteúdo do contrato não disponível.</p>"}
-            </div>
-            <hr style="border: 1px solid #e5e7eb; margin: 20px 0;" />
-            <p style="color: #6b7280; font-size: 12px;">Este email foi enviado automaticamente pelo sistema OTD Entregas.</p>
-          </div>
-        </div>
-      `;
-
-      await transporter.sendMail({
-        from: smtpFrom,
-        to: driver.email,
-        subject: `Contrato ${contract.contractNumber} - ${contract.title || "Para Assinatura"}`,
-        html: htmlContent,
-      });
-
-      res.json({ message: "Contrato enviado com sucesso para " + driver.email });
-    } catch (error: any) {
-      console.error("Error sending contract email:", error);
-      res.status(500).json({ message: "Erro ao enviar email: " + (error.message || "Falha no envio") });
+  app.post("/api/fleet-units", isAuthenticatedJWT, requirePermission("frota", "write"), async (req, res) => {
+    try {
+      const parsed = insertFleetUnitSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      res.status(201).json(await createFleetUnit(parsed.data));
+    } catch (error) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating fleet unit:", error);
+      res.status(500).json({ message: "Failed to create fleet unit" });
     }
   });
 
-  // ============== MODELOS DE CAMINHÃO (Truck Models) ==============
-
-  app.get("/api/truck-models", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/fleet-units/:id", isAuthenticatedJWT, requirePermission("frota", "write"), async (req, res) => {
     try {
-      const models = await db.select().from(truckModels).orderBy(truckModels.brand);
-      res.json(models);
+      const parsed = insertFleetUnitSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      res.json(await updateFleetUnit(req.params.id, parsed.data));
     } catch (error) {
-      console.error("Error fetching truck models:", error);
-      res.status(500).json({ message: "Failed to fetch truck models" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating fleet unit:", error);
+      res.status(500).json({ message: "Failed to update fleet unit" });
     }
   });
 
-  app.post("/api/truck-models", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/fleet-units/:id", isAuthenticatedJWT, requirePermission("frota", "delete"), async (req, res) => {
     try {
-      const data = insertTruckModelSchema.parse(req.body);
-      const [model] = await db.insert(truckModels).values(data).returning();
-      res.status(201).json(model);
+      await deleteFleetUnit(req.params.id);
+      res.json({ message: "Fleet unit deleted" });
     } catch (error) {
-      console.error("Error creating truck model:", error);
-      res.status(500).json({ message: "Failed to create truck model" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting fleet unit:", error);
+      res.status(500).json({ message: "Failed to delete fleet unit" });
     }
   });
 
-  app.patch("/api/truck-models/:id", isAuthenticatedJWT, async (req, res) => {
+  // Every unit with what it is doing now: free, in operation, full (trailers), in maintenance or inactive
+  app.get("/api/fleet/availability", isAuthenticatedJWT, requirePermission("frota", "read"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const [updated] = await db.update(truckModels)
-        .set(req.body)
-        .where(eq(truckModels.id, id))
-        .returning();
-      if (!updated) return res.status(404).json({ message: "Model not found" });
-      res.json(updated);
+      res.json(await getFleetAvailability());
     } catch (error) {
-      console.error("Error updating truck model:", error);
-      res.status(500).json({ message: "Failed to update truck model" });
+      console.error("Error fetching fleet availability:", error);
+      res.status(500).json({ message: "Failed to fetch fleet availability" });
     }
   });
 
-  app.delete("/api/truck-models/:id", isAuthenticatedJWT, async (req, res) => {
+  // Transports, collects and transfers in progress, with the pair assigned to each
+  app.get("/api/fleet/jobs", isAuthenticatedJWT, requirePermission("frota", "read"), async (req, res) => {
     try {
-      const { id } = req.params;
-      await db.delete(truckModels).where(eq(truckModels.id, id));
-      res.json({ message: "Model deleted" });
+      res.json(await getActiveFleetJobs());
     } catch (error) {
-      console.error("Error deleting truck model:", error);
-      res.status(500).json({ message: "Failed to delete truck model" });
+      console.error("Error fetching fleet jobs:", error);
+      res.status(500).json({ message: "Failed to fetch fleet jobs" });
     }
   });
 
-  // ==================== FREIGHT QUOTES ====================
-  app.get("/api/freight-quotes", isAuthenticatedJWT, async (req, res) => {
+  app.put("/api/fleet/jobs/:entity/:id", isAuthenticatedJWT, requirePermission("frota", "write"), async (req, res) => {
     try {
-      const quotes = await db.select().from(freightQuotes).orderBy(desc(freightQuotes.createdAt));
-      res.json(quotes);
+      const entity = fleetJobEntities.find((e) => e === req.params.entity);
+      if (!entity) {
+        return res.status(400).json({ message: "Tipo de operação inválido" });
+      }
+      const parsed = fleetAssignmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      const job = await assignFleetUnits(entity, req.params.id, parsed.data);
+      publishEvent({ type: "fleet.assignment_changed", entity, jobId: job.id });
+      res.json(job);
     } catch (error) {
-      console.error("Error fetching freight quotes:", error);
-      res.status(500).json({ message: "Failed to fetch freight quotes" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error assigning fleet units:", error);
+      res.status(500).json({ message: "Failed to assign fleet units" });
     }
   });
 
-  app.get("/api/freight-quotes/:id", isAuthenticatedJWT, async (req, res) => {
+  // ============== VIAGENS (Trips) ==============
+  app.get("/api/trips", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
-      const [quote] = await db.select().from(freightQuotes).where(eq(freightQuotes.id, req.params.id));
-      if (!quote) return res.status(404).json({ message: "Quote not found" });
-      res.json(quote);
+      res.json(await getTrips());
     } catch (error) {
-      console.error("Error fetching freight quote:", error);
-      res.status(500).json({ message: "Failed to fetch freight quote" });
+      console.error("Error fetching trips:", error);
+      res.status(500).json({ message: "Failed to fetch trips" });
     }
   });
 
-  app.post("/api/freight-quotes", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/trips/:id", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
-      const data = insertFreightQuoteSchema.parse(req.body);
-      const [quote] = await db.insert(freightQuotes).values(data).returning();
-      res.status(201).json(quote);
+      const trip = await getTrip(req.params.id);
+      if (!trip) {
+        return res.status(404).json({ message: "Viagem não encontrada" });
+      }
+      res.json(trip);
     } catch (error) {
-      console.error("Error creating freight quote:", error);
-      res.status(500).json({ message: "Failed to create freight quote" });
+      console.error("Error fetching trip:", error);
+      res.status(500).json({ message: "Failed to fetch trip" });
     }
   });
 
-  app.patch("/api/freight-quotes/:id", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/trips", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const { convertedToContractId, convertedAt } = req.body;
-      const [updated] = await db
-        .update(freightQuotes)
-        .set({ convertedToContractId: convertedToContractId ?? null, convertedAt: convertedAt ? new Date(convertedAt) : null })
-        .where(eq(freightQuotes.id, req.params.id))
-        .returning();
-      if (!updated) return res.status(404).json({ message: "Quote not found" });
-      res.json(updated);
+      const parsed = createTripSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      const { transportIds, collectIds, ...data } = parsed.data;
+      res.status(201).json(await createTrip(data, { transportIds, collectIds }, req.user?.id ?? null));
     } catch (error) {
-      console.error("Error updating freight quote:", error);
-      res.status(500).json({ message: "Failed to update freight quote" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating trip:", error);
+      res.status(500).json({ message: "Failed to create trip" });
     }
   });
 
-  app.delete("/api/freight-quotes/:id", isAuthenticatedJWT, async (req, res) => {
+  // Suggested delivery order for the transports being loaded; the form applies it before saving
+  app.post("/api/trips/sequence", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
-      await db.delete(freightQuotes).where(eq(freightQuotes.id, req.params.id));
-      res.json({ message: "Quote deleted" });
+      const parsed = tripSequenceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      const { originYardId, transportIds, departureAt } = parsed.data;
+      res.json(await sequenceTransports(originYardId, transportIds, departureAt));
     } catch (error) {
-      console.error("Error deleting freight quote:", error);
-      res.status(500).json({ message: "Failed to delete freight quote" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RoutingNotConfiguredError) {
+        return res.status(500).json({ message: error.message });
+      }
+      console.error("Error sequencing trip:", error);
+      res.status(500).json({ message: "Failed to sequence trip" });
     }
   });
 
-  // ==================== FREIGHT CONTRACTS ====================
-  app.get("/api/freight-contracts", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/trips/:id", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const contracts = await storage.getFreightContracts();
-      res.json(contracts);
+      const parsed = updateTripSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Dados inválidos", errors: parsed.error.errors });
+      }
+      // The load is replaced only when the transports are sent, in the new delivery order
+      const { transportIds, collectIds, ...data } = parsed.data;
+      const stops = transportIds ? { transportIds, collectIds: collectIds ?? [] } : null;
+      res.json(await updateTrip(req.params.id, data, stops, req.user?.id ?? null));
     } catch (error) {
-      console.error("Error fetching freight contracts:", error);
-      res.status(500).json({ message: "Failed to fetch freight contracts" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating trip:", error);
+      res.status(500).json({ message: "Failed to update trip" });
     }
   });
 
-  app.get("/api/freight-contracts/next-number", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/trips/:id/cancel", isAuthenticatedJWT, requirePermission("transportes", "write"), async (req, res) => {
     try {
-      const number = await storage.getNextFreightContractNumber();
-      res.json({ contractNumber: number });
+      res.json(await cancelTrip(req.params.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get next contract number" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling trip:", error);
+      res.status(500).json({ message: "Failed to cancel trip" });
     }
   });
 
-  app.get("/api/freight-contracts/:id", isAuthenticatedJWT, async (req, res) => {
+  // ============== PLANEJAMENTO DE CARGAS (Load Planning) ==============
+  // Draft loads from yard stock; accepting one goes through POST /api/trips
+  app.get("/api/load-planning", isAuthenticatedJWT, requirePermission("transportes", "read"), async (req, res) => {
     try {
-      const contract = await storage.getFreightContract(req.params.id);
-      if (!contract) return res.status(404).json({ message: "Contract not found" });
-      res.json(contract);
+      const yardId = typeof req.query.yardId === "string" && req.query.yardId ? req.query.yardId : undefined;
+      const departureDate = typeof req.query.departureDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(req.query.departureDate)
+        ? req.query.departureDate
+        : undefined;
+      let capacity: number | undefined;
+      if (req.query.capacity !== undefined) {
+        capacity = Number(req.query.capacity);
+        if (!Number.isInteger(capacity) || capacity < 1) {
+          return res.status(400).json({ message: "Capacidade deve ser um número inteiro de veículos" });
+        }
+      }
+      res.json(await proposeLoads({ yardId, capacity, departureDate }));
     } catch (error) {
-      console.error("Error fetching freight contract:", error);
-      res.status(500).json({ message: "Failed to fetch freight contract" });
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error planning loads:", error);
+      res.status(500).json({ message: "Failed to plan loads" });
     }
   });
 
-  app.post("/api/freight-contracts", isAuthenticatedJWT, async (req, res) => {
+  // ============== AVARIAS (Damage Records) ==============
+  app.get("/api/damage-records", isAuthenticatedJWT, requirePermission("avarias", "read"), async (req, res) => {
     try {
-      const data = insertFreightContractSchema.parse(req.body);
-      const contract = await storage.createFreightContract(data);
-      res.status(201).json(contract);
+      const stage = req.query.stage as DamageStage | undefined;
+      if (stage && !damageStages.includes(stage)) {
+        return res.status(400).json({ message: "Etapa inválida" });
+      }
+      const records = await storage.getDamageRecords({
+        vehicleChassi: req.query.chassi as string | undefined,
+        stage,
+        collectId: req.query.collectId as string | undefined,
+        transportId: req.query.transportId as string | undefined,
+      });
+      res.json(records);
     } catch (error) {
-      console.error("Error creating freight contract:", error);
-      res.status(500).json({ message: "Failed to create freight contract" });
+      console.error("Error fetching damage records:", error);
+      res.status(500).json({ message: "Failed to fetch damage records" });
     }
   });
 
-  app.patch("/api/freight-contracts/:id", isAuthenticatedJWT, async (req, res) => {
+  // Flags damage that appeared between two inspection stages of a chassis and the legs that may have caused it.
+  // Without ?from=&to= every pair of consecutive inspected stages is compared.
+  app.get("/api/damage-records/compare/:chassi", isAuthenticatedJWT, requirePermission("avarias", "read"), async (req, res) => {
     try {
-      const contract = await storage.updateFreightContract(req.params.id, req.body);
-      if (!contract) return res.status(404).json({ message: "Contract not found" });
-      res.json(contract);
+      const chassi = decodeURIComponent(req.params.chassi);
+      const from = req.query.from as DamageStage | undefined;
+      const to = req.query.to as DamageStage | undefined;
+      if ((from || to) && !(from && to && damageStages.includes(from) && damageStages.includes(to))) {
+        return res.status(400).json({ message: "Informe etapas válidas em from e to" });
+      }
+
+      const [records, collectList, transportList] = await Promise.all([
+        storage.getDamageRecords({ vehicleChassi: chassi }),
+        storage.getCollectsByChassi(chassi),
+        storage.getTransportsByChassi(chassi),
+      ]);
+      const result = compareDamageStages(
+        records,
+        performedInspections(collectList, transportList),
+        from && to ? { from, to } : undefined,
+      );
+      res.json({ chassi, ...result });
     } catch (error) {
-      console.error("Error updating freight contract:", error);
-      res.status(500).json({ message: "Failed to update freight contract" });
+      if (error instanceof InvalidStageRangeError) {
+        return res.status(400).json({ message: "A etapa final deve ser posterior à etapa inicial" });
+      }
+      console.error("Error comparing damage stages:", error);
+      res.status(500).json({ message: "Failed to compare damage stages" });
     }
   });
 
-  app.delete("/api/freight-contracts/:id", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/damage-records", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      await storage.deleteFreightContract(req.params.id);
-      res.json({ message: "Contract deleted" });
+      const data = insertDamageRecordSchema.parse(req.body);
+
+      // The inspection must belong to the same chassis it is recorded against
+      if (data.collectId) {
+        const collect = await storage.getCollect(data.collectId);
+        if (!collect || collect.vehicleChassi !== data.vehicleChassi) {
+          return res.status(400).json({ message: "Coleta não pertence a este chassi" });
+        }
+      }
+      if (data.transportId) {
+        const transport = await storage.getTransport(data.transportId);
+        if (!transport || transport.vehicleChassi !== data.vehicleChassi) {
+          return res.status(400).json({ message: "Transporte não pertence a este chassi" });
+        }
+      }
+
+      const record = await storage.createDamageRecord({ ...data, recordedByUserId: req.user?.id ?? null });
+      res.status(201).json(record);
+    } catch (error: any) {
+      console.error("Error creating damage record:", error);
+      res.status(400).json({ message: error.errors?.[0]?.message || error.message || "Failed to create damage record" });
+    }
+  });
+
+  app.delete("/api/damage-records/:id", isAuthenticatedJWT, requirePermission("avarias", "delete"), async (req, res) => {
+    try {
+      await storage.deleteDamageRecord(req.params.id);
+      res.json({ message: "Damage record deleted" });
     } catch (error) {
-      console.error("Error deleting freight contract:", error);
-      res.status(500).json({ message: "Failed to delete freight contract" });
+      console.error("Error deleting damage record:", error);
+      res.status(500).json({ message: "Failed to delete damage record" });
     }
   });
 
-  // ============ TRANSFERS ============
+  // ============== SINISTROS DE AVARIA (Damage Claims) ==============
+  const claimLiabilityFields = ["liableParty", "liableDriverId", "liableManufacturerId", "liableYardId", "insurerName", "approvedAmount"] as const;
 
-  app.get("/api/transfers", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/damage-claims", isAuthenticatedJWT, requirePermission("avarias", "read"), async (req, res) => {
     try {
-      const transfersList = await storage.getTransfers();
-      const enriched = await Promise.all(
-        transfersList.map(async (t) => {
-          const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.chassi, t.vehicleChassi));
-          const [originYard] = await db.select().from(yards).where(eq(yards.id, t.originYardId));
-          const [destinationYard] = await db.select().from(yards).where(eq(yards.id, t.destinationYardId));
-          return { ...t, vehicle, originYard, destinationYard };
+      const status = req.query.status as DamageClaim["status"] | undefined;
+      if (status && !damageClaimStatusEnum.enumValues.includes(status)) {
+        return res.status(400).json({ message: "Status inválido" });
+      }
+      const claims = await storage.getDamageClaims({
+        status,
+        liableDriverId: req.query.driverId as string | undefined,
+        vehicleChassi: req.query.chassi as string | undefined,
+      });
+
+      const claimsWithRelations = await Promise.all(
+        claims.map(async (claim) => {
+          const [transport, collect, liableDriver, client] = await Promise.all([
+            claim.transportId ? storage.getTransport(claim.transportId) : undefined,
+            claim.collectId ? storage.getCollect(claim.collectId) : undefined,
+            claim.liableDriverId ? storage.getDriver(claim.liableDriverId) : undefined,
+            claim.clientId ? storage.getClient(claim.clientId) : undefined,
+          ]);
+          return {
+            ...claim,
+            transport: transport ? { id: transport.id, requestNumber: transport.requestNumber, driverId: transport.driverId } : null,
+            collect: collect ? { id: collect.id, collectDate: collect.collectDate, driverId: collect.driverId } : null,
+            liableDriver: liableDriver ? { id: liableDriver.id, name: liableDriver.name } : null,
+            client: client ? { id: client.id, name: client.name } : null,
+          };
         })
       );
-      res.json(enriched);
+      res.json(claimsWithRelations);
     } catch (error) {
-      console.error("Error fetching transfers:", error);
-      res.status(500).json({ message: "Failed to fetch transfers" });
+      console.error("Error fetching damage claims:", error);
+      res.status(500).json({ message: "Failed to fetch damage claims" });
     }
   });
 
-  app.get("/api/transfers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.get("/api/damage-claims/:id", isAuthenticatedJWT, requirePermission("avarias", "read"), async (req, res) => {
     try {
-      const transfer = await storage.getTransfer(req.params.id);
-      if (!transfer) return res.status(404).json({ message: "Transferência não encontrada" });
-      res.json(transfer);
+      const claim = await storage.getDamageClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Sinistro não encontrado" });
+      }
+      const [evidence, quotes, damageRecords] = await Promise.all([
+        storage.getDamageClaimEvidence(claim.id),
+        storage.getDamageClaimQuotes(claim.id),
+        storage.getDamageRecords({ vehicleChassi: claim.vehicleChassi }),
+      ]);
+      const recordMap = new Map(damageRecords.map((r) => [r.id, r]));
+      res.json({
+        ...claim,
+        evidence: evidence.map((e) => ({ ...e, damageRecord: e.damageRecordId ? recordMap.get(e.damageRecordId) ?? null : null })),
+        quotes,
+        damageRecords,
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch transfer" });
+      console.error("Error fetching damage claim:", error);
+      res.status(500).json({ message: "Failed to fetch damage claim" });
     }
   });
 
-  app.post("/api/transfers", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/damage-claims", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const { vehicleChassi, originYardId, destinationYardId, notes } = req.body;
-      if (!vehicleChassi || !originYardId || !destinationYardId) {
-        return res.status(400).json({ message: "Chassi, pátio de origem e destino são obrigatórios" });
-      }
-      if (originYardId === destinationYardId) {
-        return res.status(400).json({ message: "Pátio de origem e destino devem ser diferentes" });
+      const data = insertDamageClaimSchema.parse(req.body);
+      if (!data.transportId && !data.collectId) {
+        return res.status(400).json({ message: "Informe o transporte ou a coleta do sinistro" });
       }
-      const vehicle = await storage.getVehicle(vehicleChassi);
-      if (!vehicle) return res.status(404).json({ message: "Veículo não encontrado" });
-      if (vehicle.status !== "em_estoque") {
-        return res.status(400).json({ message: "Apenas veículos Em Estoque podem ser transferidos" });
+
+      // Defaults the client and the suspected driver from the operation the claim is opened against
+      let defaults: { clientId?: string | null; liableDriverId?: string | null } = {};
+      if (data.transportId) {
+        const transport = await storage.getTransport(data.transportId);
+        if (!transport || transport.vehicleChassi !== data.vehicleChassi) {
+          return res.status(400).json({ message: "Transporte não pertence a este chassi" });
+        }
+        defaults = { clientId: transport.clientId, liableDriverId: transport.driverId };
+      } else if (data.collectId) {
+        const collect = await storage.getCollect(data.collectId);
+        if (!collect || collect.vehicleChassi !== data.vehicleChassi) {
+          return res.status(400).json({ message: "Coleta não pertence a este chassi" });
+        }
+        defaults = { liableDriverId: collect.driverId };
       }
-      const userId = (req as any).user?.id;
-      const transfer = await storage.createTransfer({
-        vehicleChassi,
-        originYardId,
-        destinationYardId,
-        notes: notes || null,
-        requestedBy: userId || null,
-        status: "pendente",
+
+      const claim = await storage.createDamageClaim({
+        ...data,
+        clientId: data.clientId ?? defaults.clientId ?? null,
+        liableDriverId: data.liableDriverId ?? (data.liableParty === "motorista" ? defaults.liableDriverId ?? null : null),
+        openedByUserId: req.user?.id ?? null,
       });
-      res.status(201).json(transfer);
+      res.status(201).json(claim);
     } catch (error: any) {
-      console.error("Error creating transfer:", error);
-      res.status(500).json({ message: error.message || "Failed to create transfer" });
+      console.error("Error creating damage claim:", error);
+      res.status(400).json({ message: error.errors?.[0]?.message || error.message || "Failed to create damage claim" });
     }
   });
 
-  app.post("/api/portaria/authorize-transfer/:id", isAuthenticatedJWT, async (req, res) => {
+  app.patch("/api/damage-claims/:id", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req, res) => {
     try {
-      const transfer = await storage.getTransfer(req.params.id);
-      if (!transfer) return res.status(404).json({ message: "Transferência não encontrada" });
-      if (transfer.status !== "pendente") {
-        return res.status(400).json({ message: "Transferência não está pendente" });
+      const data = insertDamageClaimSchema.partial().parse(req.body);
+      const claim = await storage.getDamageClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Sinistro não encontrado" });
       }
-      const vehicle = await storage.getVehicle(transfer.vehicleChassi);
-      if (!vehicle) return res.status(404).json({ message: "Veículo não encontrado" });
-      if (vehicle.status !== "em_estoque") {
-        return res.status(400).json({ message: "Veículo não está em estoque" });
+      // Liability and amount are frozen once approved; they already fed the driver's settlement
+      if (!isClaimEditable(claim) && claimLiabilityFields.some((field) => field in data)) {
+        return res.status(409).json({ message: "Responsabilidade e valor não podem ser alterados após a aprovação" });
       }
-      await storage.updateVehicle(transfer.vehicleChassi, { status: "em_transferencia" });
-      const userId = (req as any).user?.id;
-      await storage.updateTransfer(transfer.id, {
-        status: "em_transito",
-        authorizedBy: userId || null,
-        authorizedAt: new Date(),
-      });
-      res.json({ success: true, message: "Transferência autorizada com sucesso" });
+      const updated = await storage.updateDamageClaim(req.params.id, data);
+      res.json(updated);
     } catch (error: any) {
-      console.error("Error authorizing transfer:", error);
-      res.status(500).json({ message: error.message || "Erro ao autorizar transferência" });
+      console.error("Error updating damage claim:", error);
+      res.status(400).json({ message: error.errors?.[0]?.message || error.message || "Failed to update damage claim" });
     }
   });
 
-  app.post("/api/transfers/:id/complete", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/damage-claims/:id/status", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req: AuthenticatedRequest, res) => {
     try {
-      const transfer = await storage.getTransfer(req.params.id);
-      if (!transfer) return res.status(404).json({ message: "Transferência não encontrada" });
-      if (transfer.status !== "em_transito") {
-        return res.status(400).json({ message: "Transferência não está em trânsito" });
+      const status = req.body.status as DamageClaim["status"];
+      if (!damageClaimStatusEnum.enumValues.includes(status)) {
+        return res.status(400).json({ message: "Status inválido" });
       }
-      await storage.updateVehicle(transfer.vehicleChassi, {
-        status: "em_estoque",
-        yardId: transfer.destinationYardId,
-        yardEntryDateTime: new Date(),
-      });
-      await storage.updateTransfer(transfer.id, {
-        status: "concluida",
-        completedAt: new Date(),
-      });
-      res.json({ success: true, message: "Transferência concluída. Veículo agora em estoque no pátio de destino." });
+      if (status === "aprovada" || status === "rejeitada") {
+        const allowed = await hasPermission(req.user?.role || "visualizador", "avarias", "approve");
+        if (!allowed) {
+          return res.status(403).json({ message: "Permissão negada" });
+        }
+      }
+      const claim = await transitionDamageClaim(req.params.id, status);
+      res.json(claim);
     } catch (error: any) {
-      console.error("Error completing transfer:", error);
-      res.status(500).json({ message: error.message || "Erro ao concluir transferência" });
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json(error.toJSON());
+      }
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error changing damage claim status:", error);
+      res.status(500).json({ message: "Failed to change damage claim status" });
     }
   });
 
-  app.patch("/api/transfers/:id/cancel", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/damage-claims/:id", isAuthenticatedJWT, requirePermission("avarias", "delete"), async (req, res) => {
     try {
-      const transfer = await storage.getTransfer(req.params.id);
-      if (!transfer) return res.status(404).json({ message: "Transferência não encontrada" });
-      if (transfer.status === "concluida") {
-        return res.status(400).json({ message: "Não é possível cancelar uma transferência concluída" });
+      const claim = await storage.getDamageClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Sinistro não encontrado" });
       }
-      if (transfer.status === "em_transito") {
-        await storage.updateVehicle(transfer.vehicleChassi, { status: "em_estoque" });
+      if (claim.status !== "aberta") {
+        return res.status(409).json({ message: "Apenas sinistros abertos podem ser excluídos" });
       }
-      await storage.updateTransfer(transfer.id, { status: "cancelada" });
-      res.json({ success: true, message: "Transferência cancelada" });
+      await storage.deleteDamageClaim(req.params.id);
+      res.json({ message: "Damage claim deleted" });
+    } catch (error) {
+      console.error("Error deleting damage claim:", error);
+      res.status(500).json({ message: "Failed to delete damage claim" });
+    }
+  });
+
+  app.post("/api/damage-claims/:id/evidence", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req, res) => {
+    try {
+      const data = insertDamageClaimEvidenceSchema.parse(req.body);
+      const claim = await storage.getDamageClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Sinistro não encontrado" });
+      }
+      if (data.damageRecordId) {
+        const record = await storage.getDamageRecord(data.damageRecordId);
+        if (!record || record.vehicleChassi !== claim.vehicleChassi) {
+          return res.status(400).json({ message: "Registro de avaria não pertence a este chassi" });
+        }
+      }
+      const evidence = await storage.createDamageClaimEvidence(claim.id, data);
+      res.status(201).json(evidence);
     } catch (error: any) {
-      console.error("Error cancelling transfer:", error);
-      res.status(500).json({ message: error.message || "Erro ao cancelar transferência" });
+      console.error("Error adding damage claim evidence:", error);
+      res.status(400).json({ message: error.errors?.[0]?.message || error.message || "Failed to add evidence" });
     }
   });
 
-  app.delete("/api/transfers/:id", isAuthenticatedJWT, async (req, res) => {
+  app.delete("/api/damage-claims/:id/evidence/:evidenceId", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req, res) => {
     try {
-      await storage.deleteTransfer(req.params.id);
-      res.json({ message: "Transfer deleted" });
+      await storage.deleteDamageClaimEvidence(req.params.evidenceId);
+      res.json({ message: "Evidence deleted" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete transfer" });
+      console.error("Error deleting damage claim evidence:", error);
+      res.status(500).json({ message: "Failed to delete evidence" });
+    }
+  });
+
+  app.post("/api/damage-claims/:id/quotes", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req, res) => {
+    try {
+      const data = insertDamageClaimQuoteSchema.parse(req.body);
+      const claim = await storage.getDamageClaim(req.params.id);
+      if (!claim) {
+        return res.status(404).json({ message: "Sinistro não encontrado" });
+      }
+      const quote = await storage.createDamageClaimQuote(claim.id, data);
+      res.status(201).json(quote);
+    } catch (error: any) {
+      console.error("Error adding repair quote:", error);
+      res.status(400).json({ message: error.errors?.[0]?.message || error.message || "Failed to add quote" });
+    }
+  });
+
+  app.post("/api/damage-claims/:id/quotes/:quoteId/approve", isAuthenticatedJWT, requirePermission("avarias", "approve"), async (req, res) => {
+    try {
+      const quote = await approveDamageClaimQuote(req.params.id, req.params.quoteId);
+      res.json(quote);
+    } catch (error: any) {
+      if (error instanceof LifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error approving repair quote:", error);
+      res.status(500).json({ message: "Failed to approve quote" });
+    }
+  });
+
+  app.delete("/api/damage-claims/:id/quotes/:quoteId", isAuthenticatedJWT, requirePermission("avarias", "write"), async (req, res) => {
+    try {
+      const quote = await storage.getDamageClaimQuote(req.params.quoteId);
+      if (!quote || quote.claimId !== req.params.id) {
+        return res.status(404).json({ message: "Orçamento não encontrado" });
+      }
+      if (quote.status === "aprovado") {
+        return res.status(409).json({ message: "Orçamento aprovado não pode ser excluído" });
+      }
+      await storage.deleteDamageClaimQuote(req.params.quoteId);
+      res.json({ message: "Quote deleted" });
+    } catch (error) {
+      console.error("Error deleting repair quote:", error);
+      res.status(500).json({ message: "Failed to delete quote" });
+    }
+  });
+
+  // ============== EXCEÇÕES DE GEOFENCE ==============
+  // Check-ins/check-outs flagged "fora do raio" of the inspected location
+  app.get("/api/geofence-exceptions", isAuthenticatedJWT, requirePermission("portaria", "read"), async (req, res) => {
+    try {
+      const subjectType = req.query.subjectType as GeofenceSubjectType | undefined;
+      if (subjectType && !geofenceSubjectTypes.includes(subjectType)) {
+        return res.status(400).json({ message: "Tipo de registro inválido" });
+      }
+      const exceptions = await storage.getGeofenceExceptions({
+        subjectType,
+        subjectId: req.query.subjectId as string | undefined,
+        vehicleChassi: req.query.chassi as string | undefined,
+      });
+      res.json(exceptions);
+    } catch (error) {
+      console.error("Error fetching geofence exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch geofence exceptions" });
+    }
+  });
+
+  // ============== AUDITORIA ==============
+  app.get("/api/audit", isAuthenticatedJWT, async (req: AuthenticatedRequest, res) => {
+    try {
+      const entity = req.query.entity as AuditEntityType | undefined;
+      const id = req.query.id as string | undefined;
+      if (!entity || !id) {
+        return res.status(400).json({ message: "Parâmetros entity e id são obrigatórios" });
+      }
+      if (!auditEntityTypes.includes(entity)) {
+        return res.status(400).json({ message: "Entidade inválida" });
+      }
+
+      const allowed = await hasPermission(req.user?.role || "visualizador", auditEntityFeatures[entity], "read");
+      if (!allowed) {
+        return res.status(403).json({ message: "Permissão negada" });
+      }
+
+      const events = await storage.getAuditEvents(entity, id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
     }
   });
 
   // ============== VOICE TRANSCRIPTION ==============
-  app.post("/api/transcribe", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/transcribe", isAuthenticatedJWT, requirePermission("analise", "read"), async (req, res) => {
     try {
       const { audio } = req.body;
       if (!audio || typeof audio !== "string") {
@@ -4169,7 +5412,7 @@ export async function registerRoutes(
   });
 
   // ============== AI QUERY ==============
-  app.post("/api/ai-query", isAuthenticatedJWT, async (req, res) => {
+  app.post("/api/ai-query", isAuthenticatedJWT, requirePermission("analise", "read"), async (req, res) => {
     try {
       const { question } = req.body;
       if (!question || typeof question !== "string") {
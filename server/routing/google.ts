@@ -0,0 +1,137 @@
+import { RouteNotFoundError, routingRequestSignal, type LatLng, type MatrixCell, type RouteLeg, type RouteOptions, type RoutingProvider, type TollCost } from "./types";
+
+// Google Maps: Directions API for the route (with traffic), Routes API for tolls and Distance Matrix API
+// for the matrix
+
+const DIRECTIONS_URL = "https://maps.googleapis.com/maps/api/directions/json";
+const ROUTES_URL = "https://routes.googleapis.com/directions/v2:computeRoutes";
+const DISTANCE_MATRIX_URL = "https://maps.googleapis.com/maps/api/distancematrix/json";
+
+// Distance Matrix API limits per request
+const MATRIX_MAX_DESTINATIONS = 25;
+const MATRIX_MAX_ELEMENTS = 100;
+
+const NO_ROUTE_STATUSES = ["ZERO_RESULTS", "NOT_FOUND"];
+
+const coords = (points: LatLng[]) => points.map((p) => `${p.lat},${p.lng}`).join("|");
+
+// Prices may come in several currencies; BRL is preferred when present
+function tollFromPrices(prices: any[] | undefined): TollCost | null {
+  if (!prices || prices.length === 0) return null;
+  const brl = prices.filter((p) => p.currencyCode === "BRL");
+  const used = brl.length > 0 ? brl : prices;
+  const amount = used.reduce((sum: number, p: any) => sum + parseFloat(p.units || "0") + parseFloat(p.nanos || "0") / 1e9, 0);
+  return { amount, currency: used[0].currencyCode || "BRL" };
+}
+
+async function fetchTolls(apiKey: string, points: LatLng[], axleCount: number | undefined) {
+  const waypoint = (p: LatLng) => ({ location: { latLng: { latitude: p.lat, longitude: p.lng } } });
+  const vehicleInfo: Record<string, unknown> = { emissionType: "DIESEL" };
+  if (axleCount && axleCount > 2) vehicleInfo.axleCount = axleCount;
+
+  const body: Record<string, unknown> = {
+    origin: waypoint(points[0]),
+    destination: waypoint(points[points.length - 1]),
+    travelMode: "DRIVE",
+    extraComputations: ["TOLLS"],
+    routeModifiers: { vehicleInfo },
+  };
+  if (points.length > 2) body.intermediates = points.slice(1, -1).map(waypoint);
+
+  const response = await fetch(ROUTES_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Api-Key": apiKey,
+      "X-Goog-FieldMask": "routes.travelAdvisory.tollInfo,routes.legs.travelAdvisory.tollInfo",
+    },
+    body: JSON.stringify(body),
+    signal: routingRequestSignal(),
+  });
+  if (!response.ok) {
+    throw new Error(`Routes API ${response.status}: ${await response.text()}`);
+  }
+  const data = await response.json();
+  const route = data.routes?.[0];
+  const legs: (TollCost | null)[] = (route?.legs ?? []).map((leg: any) => tollFromPrices(leg.travelAdvisory?.tollInfo?.estimatedPrice));
+  return { route: tollFromPrices(route?.travelAdvisory?.tollInfo?.estimatedPrice), legs };
+}
+
+export function createGoogleRoutingProvider(apiKey: string): RoutingProvider {
+  return {
+    name: "google",
+
+    async route(points, options: RouteOptions = {}) {
+      const avoid = [options.avoidTolls && "tolls", options.avoidHighways && "highways"].filter(Boolean);
+      const waypoints = points.length > 2 ? `&waypoints=${coords(points.slice(1, -1))}` : "";
+      const avoidParam = avoid.length > 0 ? `&avoid=${avoid.join("|")}` : "";
+      const url = `${DIRECTIONS_URL}?origin=${coords([points[0]])}&destination=${coords([points[points.length - 1]])}${waypoints}${avoidParam}&departure_time=now&traffic_model=best_guess&key=${apiKey}`;
+
+      const response = await fetch(url, { signal: routingRequestSignal() });
+      const data = await response.json();
+      if (NO_ROUTE_STATUSES.includes(data.status)) throw new RouteNotFoundError();
+      if (data.status !== "OK" || !data.routes?.[0]) {
+        throw new Error(`Directions API status ${data.status}`);
+      }
+
+      const legs: RouteLeg[] = data.routes[0].legs.map((leg: any): RouteLeg => ({
+        distanceMeters: leg.distance.value,
+        durationSeconds: leg.duration.value,
+        durationInTrafficSeconds: leg.duration_in_traffic?.value ?? null,
+        startAddress: leg.start_address ?? null,
+        endAddress: leg.end_address ?? null,
+        toll: null,
+      }));
+
+      let toll: TollCost | null = null;
+      if (!options.avoidTolls) {
+        try {
+          const tolls = await fetchTolls(apiKey, points, options.axleCount);
+          if (tolls.legs.length === legs.length) {
+            tolls.legs.forEach((legToll, index) => { legs[index].toll = legToll; });
+          }
+          const legTotal = tolls.legs.reduce((sum, t) => sum + (t?.amount ?? 0), 0);
+          toll = tolls.route ?? (legTotal > 0 ? { amount: legTotal, currency: tolls.legs.find((t) => t)?.currency ?? "BRL" } : null);
+        } catch (error) {
+          console.error("Could not fetch toll information:", error);
+        }
+      }
+
+      const hasTraffic = legs.some((leg) => leg.durationInTrafficSeconds !== null);
+      return {
+        provider: "google",
+        distanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+        durationSeconds: legs.reduce((sum, leg) => sum + leg.durationSeconds, 0),
+        durationInTrafficSeconds: hasTraffic
+          ? legs.reduce((sum, leg) => sum + (leg.durationInTrafficSeconds ?? leg.durationSeconds), 0)
+          : null,
+        legs,
+        toll,
+      };
+    },
+
+    async matrix(points) {
+      const cells: (MatrixCell | null)[][] = points.map(() => points.map(() => null));
+      for (let col = 0; col < points.length; col += MATRIX_MAX_DESTINATIONS) {
+        const destinations = points.slice(col, col + MATRIX_MAX_DESTINATIONS);
+        const rowsPerRequest = Math.max(1, Math.floor(MATRIX_MAX_ELEMENTS / destinations.length));
+        for (let row = 0; row < points.length; row += rowsPerRequest) {
+          const origins = points.slice(row, row + rowsPerRequest);
+          const response = await fetch(`${DISTANCE_MATRIX_URL}?origins=${coords(origins)}&destinations=${coords(destinations)}&mode=driving&key=${apiKey}`, { signal: routingRequestSignal() });
+          const data = await response.json();
+          if (data.status !== "OK") {
+            throw new Error(`Distance Matrix API status ${data.status}`);
+          }
+          data.rows.forEach((matrixRow: any, r: number) => {
+            matrixRow.elements.forEach((element: any, c: number) => {
+              if (element.status === "OK") {
+                cells[row + r][col + c] = { meters: element.distance.value, seconds: element.duration.value };
+              }
+            });
+          });
+        }
+      }
+      return { provider: "google", cells };
+    },
+  };
+}
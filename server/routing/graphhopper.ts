@@ -0,0 +1,92 @@
+import { RouteNotFoundError, routingRequestSignal, type LatLng, type RouteLeg, type RoutingProvider } from "./types";
+
+// GraphHopper, self-hosted or the hosted API (with a key). Legs come from the instructions: each "via
+// reached" (sign 5) or "finish" (sign 4) closes one. Tolls are unknown and avoid flags are ignored. The
+// matrix endpoint only exists in the hosted API; without it the caller falls back to estimates.
+
+const VIA_REACHED = 5;
+const FINISH = 4;
+
+export function createGraphHopperRoutingProvider(baseUrl: string, profile = "car", apiKey?: string): RoutingProvider {
+  const base = baseUrl.replace(/\/+$/, "");
+  const query = (points: LatLng[]) =>
+    `${points.map((p) => `point=${p.lat},${p.lng}`).join("&")}&profile=${profile}${apiKey ? `&key=${apiKey}` : ""}`;
+
+  return {
+    name: "graphhopper",
+
+    async route(points) {
+      const response = await fetch(`${base}/route?${query(points)}&instructions=true&calc_points=false&locale=pt_BR`, { signal: routingRequestSignal() });
+      const data = await response.json();
+      if (!response.ok) {
+        if (/not found/i.test(data.message ?? "")) throw new RouteNotFoundError();
+        throw new Error(`GraphHopper route ${response.status}: ${data.message ?? ""}`);
+      }
+      const path = data.paths?.[0];
+      if (!path) throw new RouteNotFoundError();
+
+      const legs: RouteLeg[] = [];
+      let distance = 0;
+      let time = 0;
+      let startAddress: string | null = null;
+      for (const instruction of path.instructions ?? []) {
+        startAddress = startAddress ?? (instruction.street_name || null);
+        distance += instruction.distance;
+        time += instruction.time;
+        if (instruction.sign === VIA_REACHED || instruction.sign === FINISH) {
+          legs.push({
+            distanceMeters: Math.round(distance),
+            durationSeconds: Math.round(time / 1000),
+            durationInTrafficSeconds: null,
+            startAddress,
+            endAddress: instruction.street_name || null,
+            toll: null,
+          });
+          distance = 0;
+          time = 0;
+          startAddress = null;
+        }
+      }
+      // Without usable instructions the path is split evenly across the legs
+      if (legs.length !== points.length - 1) {
+        const count = points.length - 1;
+        legs.length = 0;
+        for (let index = 0; index < count; index++) {
+          legs.push({
+            distanceMeters: Math.round(path.distance / count),
+            durationSeconds: Math.round(path.time / 1000 / count),
+            durationInTrafficSeconds: null,
+            startAddress: null,
+            endAddress: null,
+            toll: null,
+          });
+        }
+      }
+
+      return {
+        provider: "graphhopper",
+        distanceMeters: Math.round(path.distance),
+        durationSeconds: Math.round(path.time / 1000),
+        durationInTrafficSeconds: null,
+        legs,
+        toll: null,
+      };
+    },
+
+    async matrix(points) {
+      const response = await fetch(`${base}/matrix?${query(points)}&out_array=distances&out_array=times`, { signal: routingRequestSignal() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(`GraphHopper matrix ${response.status}: ${data.message ?? ""}`);
+      }
+      const cells = points.map((_, i) => points.map((_, j) => {
+        const meters = data.distances?.[i]?.[j];
+        const seconds = data.times?.[i]?.[j];
+        return meters === null || meters === undefined || seconds === null || seconds === undefined
+          ? null
+          : { meters: Math.round(meters), seconds: Math.round(seconds) };
+      }));
+      return { provider: "graphhopper", cells };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { haversineKm } from "../dispatch";
+import type { LatLng, MatrixCell, RoutingProvider } from "./types";
+
+// Straight line to road distance and average loaded car-carrier speed
+export const ROAD_FACTOR = 1.25;
+export const ESTIMATED_SPEED_KMH = 60;
+
+export function estimateCell(from: LatLng, to: LatLng): MatrixCell {
+  const km = haversineKm(from.lat, from.lng, to.lat, to.lng) * ROAD_FACTOR;
+  return { meters: Math.round(km * 1000), seconds: Math.round((km / ESTIMATED_SPEED_KMH) * 3600) };
+}
+
+// Deterministic offline provider for environments without a routing engine and for tests: straight-line
+// distance with a road factor at a fixed speed, no tolls and no addresses
+export function createHaversineRoutingProvider(): RoutingProvider {
+  return {
+    name: "haversine",
+    async route(points) {
+      const legs = points.slice(1).map((to, index) => {
+        const cell = estimateCell(points[index], to);
+        return {
+          distanceMeters: cell.meters,
+          durationSeconds: cell.seconds,
+          durationInTrafficSeconds: null,
+          startAddress: null,
+          endAddress: null,
+          toll: null,
+        };
+      });
+      return {
+        provider: "haversine",
+        distanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+        durationSeconds: legs.reduce((sum, leg) => sum + leg.durationSeconds, 0),
+        durationInTrafficSeconds: null,
+        legs,
+        toll: null,
+      };
+    },
+    async matrix(points) {
+      return {
+        provider: "haversine",
+        cells: points.map((from, i) => points.map((to, j) => (i === j ? { meters: 0, seconds: 0 } : estimateCell(from, to)))),
+      };
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { createGoogleRoutingProvider } from "./google";
+import { createOsrmRoutingProvider } from "./osrm";
+import { createGraphHopperRoutingProvider } from "./graphhopper";
+import { createHaversineRoutingProvider, estimateCell } from "./haversine";
+import { RouteNotFoundError, type RoutingProvider, type TollCost } from "./types";
+
+export type { LatLng, MatrixCell, RouteLeg, RouteMatrix, RouteOptions, RouteResult, RoutingProvider, TollCost } from "./types";
+export { RouteNotFoundError } from "./types";
+export { createHaversineRoutingProvider } from "./haversine";
+
+// Routing engines behind one interface: Google Maps, a self-hosted OSRM or GraphHopper, and a straight-line
+// estimate that needs nothing. The configured engine is always backed by the estimate, so routes, tolls and
+// ETAs keep answering (flagged by `provider`) when the engine is missing or down.
+
+// Average toll per km for commercial vehicles, used when the engine has no toll data
+export const TOLL_PER_KM = 0.12;
+// Shorter routes rarely cross a toll plaza, so they get no estimate
+const MIN_TOLL_ESTIMATE_METERS = 100_000;
+
+export class RoutingNotConfiguredError extends Error {
+  constructor(provider: string, variable: string) {
+    super(`Provedor de rotas "${provider}" não configurado. Configure a variável ${variable}.`);
+    this.name = "RoutingNotConfiguredError";
+    Object.setPrototypeOf(this, RoutingNotConfiguredError.prototype);
+  }
+}
+
+export function estimateToll(distanceMeters: number): TollCost | null {
+  if (distanceMeters <= MIN_TOLL_ESTIMATE_METERS) return null;
+  return { amount: (distanceMeters / 1000) * TOLL_PER_KM, currency: "BRL" };
+}
+
+function requireEnv(provider: string, variable: string): string {
+  const value = process.env[variable];
+  if (!value) throw new RoutingNotConfiguredError(provider, variable);
+  return value;
+}
+
+const providers: Record<string, () => RoutingProvider> = {
+  google: () => createGoogleRoutingProvider(requireEnv("google", "GOOGLE_MAPS_API_KEY")),
+  osrm: () => createOsrmRoutingProvider(requireEnv("osrm", "ROUTING_ENGINE_URL"), process.env.ROUTING_ENGINE_PROFILE || undefined),
+  graphhopper: () => createGraphHopperRoutingProvider(
+    requireEnv("graphhopper", "ROUTING_ENGINE_URL"),
+    process.env.ROUTING_ENGINE_PROFILE || undefined,
+    process.env.GRAPHHOPPER_API_KEY || undefined,
+  ),
+  haversine: () => createHaversineRoutingProvider(),
+};
+
+// Engine failures (not "no route between these points") answer with the estimate instead; matrix pairs
+// the engine could not route are estimated too
+export function withEstimateFallback(primary: RoutingProvider): RoutingProvider {
+  const fallback = createHaversineRoutingProvider();
+  return {
+    name: primary.name,
+    async route(points, options) {
+      try {
+        return await primary.route(points, options);
+      } catch (error) {
+        if (error instanceof RouteNotFoundError) throw error;
+        console.error(`Routing provider ${primary.name} failed, using straight-line estimate:`, error);
+        return fallback.route(points, options);
+      }
+    },
+    async matrix(points) {
+      try {
+        const matrix = await primary.matrix(points);
+        if (matrix.cells.every((row) => row.every((cell) => cell))) return matrix;
+        return {
+          provider: `${primary.name}+haversine`,
+          cells: matrix.cells.map((row, i) => row.map((cell, j) => cell ?? (i === j ? { meters: 0, seconds: 0 } : estimateCell(points[i], points[j])))),
+        };
+      } catch (error) {
+        console.error(`Routing provider ${primary.name} matrix failed, using straight-line estimate:`, error);
+        return fallback.matrix(points);
+      }
+    },
+  };
+}
+
+// ROUTING_PROVIDER picks the engine (google, osrm, graphhopper or haversine). Without it, Google when its
+// key is set and the straight-line estimate otherwise.
+export function getRoutingProvider(): RoutingProvider {
+  const name = process.env.ROUTING_PROVIDER || (process.env.GOOGLE_MAPS_API_KEY ? "google" : "haversine");
+  const factory = providers[name];
+  if (!factory) throw new Error(`Provedor de rotas desconhecido: ${name}`);
+  const provider = factory();
+  return name === "haversine" ? provider : withEstimateFallback(provider);
+}
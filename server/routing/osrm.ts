@@ -0,0 +1,66 @@
+import { RouteNotFoundError, routingRequestSignal, type LatLng, type RouteLeg, type RoutingProvider } from "./types";
+
+// Self-hosted OSRM (or any server speaking its HTTP API). Tolls are unknown; avoiding tolls/highways uses
+// the profile's exclude classes when it has them.
+
+const NO_ROUTE_CODES = ["NoRoute", "NoSegment"];
+
+const coords = (points: LatLng[]) => points.map((p) => `${p.lng},${p.lat}`).join(";");
+
+export function createOsrmRoutingProvider(baseUrl: string, profile = "driving"): RoutingProvider {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "osrm",
+
+    async route(points, options = {}) {
+      const exclude = [options.avoidTolls && "toll", options.avoidHighways && "motorway"].filter(Boolean).join(",");
+      const request = (withExclude: boolean) =>
+        fetch(`${base}/route/v1/${profile}/${coords(points)}?overview=false&steps=false${withExclude ? `&exclude=${exclude}` : ""}`, { signal: routingRequestSignal() })
+          .then((response) => response.json());
+
+      let data = await request(!!exclude);
+      // The profile has no such exclude classes: route without them rather than fail
+      if (exclude && data.code === "InvalidValue") data = await request(false);
+      if (NO_ROUTE_CODES.includes(data.code)) throw new RouteNotFoundError();
+      if (data.code !== "Ok" || !data.routes?.[0]) {
+        throw new Error(`OSRM route ${data.code}: ${data.message ?? ""}`);
+      }
+
+      const route = data.routes[0];
+      const names: (string | null)[] = (data.waypoints ?? []).map((w: any) => w.name || null);
+      const legs: RouteLeg[] = route.legs.map((leg: any, index: number): RouteLeg => ({
+        distanceMeters: Math.round(leg.distance),
+        durationSeconds: Math.round(leg.duration),
+        durationInTrafficSeconds: null,
+        startAddress: names[index] ?? null,
+        endAddress: names[index + 1] ?? null,
+        toll: null,
+      }));
+      return {
+        provider: "osrm",
+        distanceMeters: Math.round(route.distance),
+        durationSeconds: Math.round(route.duration),
+        durationInTrafficSeconds: null,
+        legs,
+        toll: null,
+      };
+    },
+
+    async matrix(points) {
+      const response = await fetch(`${base}/table/v1/${profile}/${coords(points)}?annotations=distance,duration`, { signal: routingRequestSignal() });
+      const data = await response.json();
+      if (data.code !== "Ok") {
+        throw new Error(`OSRM table ${data.code}: ${data.message ?? ""}`);
+      }
+      const cells = points.map((_, i) => points.map((_, j) => {
+        const meters = data.distances?.[i]?.[j];
+        const seconds = data.durations?.[i]?.[j];
+        return meters === null || meters === undefined || seconds === null || seconds === undefined
+          ? null
+          : { meters: Math.round(meters), seconds: Math.round(seconds) };
+      }));
+      return { provider: "osrm", cells };
+    },
+  };
+}
@@ -0,0 +1,66 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteOptions {
+  avoidTolls?: boolean;
+  avoidHighways?: boolean;
+  axleCount?: number;     // Toll category of the truck; 2 when not informed
+}
+
+export interface TollCost {
+  amount: number;
+  currency: string;
+}
+
+export interface RouteLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+  durationInTrafficSeconds: number | null;
+  startAddress: string | null;
+  endAddress: string | null;
+  toll: TollCost | null;  // null when the provider has no toll data for the leg
+}
+
+export interface RouteResult {
+  provider: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  durationInTrafficSeconds: number | null;
+  legs: RouteLeg[];
+  toll: TollCost | null;
+}
+
+export interface MatrixCell {
+  meters: number;
+  seconds: number;
+}
+
+export interface RouteMatrix {
+  provider: string;
+  cells: (MatrixCell | null)[][];   // null for pairs the provider could not route
+}
+
+// A routing engine: driving route through the points in the given order (origin, stops, destination) and
+// the distance/time matrix between all points. Engines that can't avoid tolls or highways ignore the flags.
+export interface RoutingProvider {
+  name: string;
+  route(points: LatLng[], options?: RouteOptions): Promise<RouteResult>;
+  matrix(points: LatLng[]): Promise<RouteMatrix>;
+}
+
+// The engine answered but there is no drivable route between the points; not worth falling back
+export class RouteNotFoundError extends Error {
+  constructor(message = "Não foi possível calcular a rota entre os pontos informados") {
+    super(message);
+    this.name = "RouteNotFoundError";
+    Object.setPrototypeOf(this, RouteNotFoundError.prototype);
+  }
+}
+
+// Every engine request is aborted after this long; the abort counts as an engine failure, so the caller
+// falls back to the straight-line estimate instead of hanging
+export const ROUTING_REQUEST_TIMEOUT_MS = 10_000;
+
+export const routingRequestSignal = () => AbortSignal.timeout(ROUTING_REQUEST_TIMEOUT_MS);
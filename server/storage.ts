@@ -10,18 +10,49 @@ import {
   driverNotifications, type DriverNotification, type InsertDriverNotification,
   requestCounter,
   systemUsers, type SystemUser, type InsertSystemUser,
-  rolePermissions, type RolePermission, type InsertRolePermission, type FeatureKey,
+  rolePermissions, featureKeys, type RolePermission, type InsertRolePermission, type FeatureKey, type PermissionAction,
   expenseSettlements, type ExpenseSettlement, type InsertExpenseSettlement,
   expenseSettlementItems, type ExpenseSettlementItem, type InsertExpenseSettlementItem,
+  expensePolicies, type ExpensePolicy, type InsertExpensePolicy, type ExpenseType,
+  exchangeRates, type ExchangeRate, type InsertExchangeRate, type ForeignExpenseCurrency,
+  expenseReceiptExtractions, type ExpenseReceiptExtraction, type InsertExpenseReceiptExtraction,
+  driverLedgerEntries, type DriverLedgerEntry, type InsertDriverLedgerEntry,
+  driverPaymentBatches, type DriverPaymentBatch, type InsertDriverPaymentBatch,
+  payrollRuns, type PayrollRun, type InsertPayrollRun,
+  payrollStatements, type PayrollStatement, type InsertPayrollStatement,
+  transportCtes, type TransportCte, type InsertTransportCte,
+  freightQuotes, type FreightQuote,
+  fleetUnits, type FleetUnit, type InsertFleetUnit,
+  type FleetJob, type FleetJobEntity, type FleetAssignment,
+  trips, type Trip, type InsertTrip,
+  routes, type Route,
+  truckModels, type TruckModel,
   checkpoints, type Checkpoint, type InsertCheckpoint,
+  transportCheckpoints, type TransportCheckpoint, type InsertTransportCheckpoint,
+  checkpointEvents, type CheckpointEvent, type InsertCheckpointEvent,
   contracts, type Contract, type InsertContract,
   freightContracts, type FreightContract, type InsertFreightContract,
   transfers, type Transfer, type InsertTransfer,
+  auditEvents, type AuditEvent, type AuditEntityType,
+  driverEvaluations,
+  trackingPositions, type TrackingPosition, type InsertTrackingPosition, type TrackingSubjectType,
+  trackers, type Tracker, type InsertTracker,
+  damageRecords, type DamageRecord, type InsertDamageRecord, type DamageStage,
+  damageClaims, type DamageClaim, type InsertDamageClaim,
+  damageClaimEvidence, type DamageClaimEvidence, type InsertDamageClaimEvidence,
+  damageClaimQuotes, type DamageClaimQuote, type InsertDamageClaimQuote,
+  geofenceExceptions, type GeofenceException, type InsertGeofenceException,
+  type GeofenceSubjectType, type GeofenceInspectionEvent,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { db as defaultDb, type DbExecutor } from "./db";
+import { recordAuditEvent } from "./audit";
+import type { TransportStatus, CollectStatus, TransferStatus } from "@shared/state-machine";
+import { eq, desc, and, or, sql, inArray, isNotNull, gte, lt, lte, ne } from "drizzle-orm";
 
 export interface IStorage {
+  // Unit of work: every storage call made through `tx` commits or rolls back together
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+
   // Drivers
   getDrivers(): Promise<Driver[]>;
   getDriver(id: string): Promise<Driver | undefined>;
@@ -46,6 +77,7 @@ export interface IStorage {
   // Clients
   getClients(): Promise<Client[]>;
   getClient(id: string): Promise<Client | undefined>;
+  getClientByUsername(username: string): Promise<Client | undefined>;
   createClient(client: InsertClient): Promise<Client>;
   updateClient(id: string, client: Partial<InsertClient>): Promise<Client | undefined>;
   deleteClient(id: string): Promise<void>;
@@ -61,6 +93,8 @@ export interface IStorage {
   // Vehicles
   getVehicles(): Promise<Vehicle[]>;
   getVehicle(chassi: string): Promise<Vehicle | undefined>;
+  getVehiclesByClient(clientId: string): Promise<Vehicle[]>;
+  getVehicleForUpdate(chassi: string): Promise<Vehicle | undefined>;
   createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
   updateVehicle(chassi: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined>;
   deleteVehicle(chassi: string): Promise<void>;
@@ -69,6 +103,8 @@ export interface IStorage {
   getCollects(): Promise<Collect[]>;
   getRecentCollects(limit?: number): Promise<Collect[]>;
   getCollect(id: string): Promise<Collect | undefined>;
+  getCollectsByChassi(chassi: string): Promise<Collect[]>;
+  getCollectForUpdate(id: string): Promise<Collect | undefined>;
   createCollect(collect: InsertCollect): Promise<Collect>;
   updateCollect(id: string, collect: Partial<InsertCollect>): Promise<Collect | undefined>;
   deleteCollect(id: string): Promise<void>;
@@ -77,6 +113,9 @@ export interface IStorage {
   getTransports(): Promise<Transport[]>;
   getRecentTransports(limit?: number): Promise<Transport[]>;
   getTransport(id: string): Promise<Transport | undefined>;
+  getTransportsByClient(clientId: string): Promise<Transport[]>;
+  getTransportsByChassi(chassi: string): Promise<Transport[]>;
+  getTransportForUpdate(id: string): Promise<Transport | undefined>;
   createTransport(transport: InsertTransport): Promise<Transport>;
   updateTransport(id: string, transport: Partial<InsertTransport>): Promise<Transport | undefined>;
   clearTransportCheckin(id: string): Promise<Transport | undefined>;
@@ -88,6 +127,13 @@ export interface IStorage {
   getDriverNotifications(yardId: string, deliveryLocationId: string, departureDate: string): Promise<DriverNotification[]>;
   createDriverNotification(notification: InsertDriverNotification): Promise<DriverNotification>;
   updateDriverNotification(id: string, data: Partial<InsertDriverNotification>): Promise<DriverNotification | undefined>;
+  getDriverNotification(id: string): Promise<DriverNotification | undefined>;
+  getDriverNotificationForUpdate(id: string): Promise<DriverNotification | undefined>;
+  getDriverNotificationsByTransport(transportId: string): Promise<DriverNotification[]>;
+  expireDriverNotifications(now?: Date): Promise<DriverNotification[]>;
+  cancelPendingDriverNotifications(transportId: string, exceptId?: string): Promise<DriverNotification[]>;
+  getBusyDriverIds(): Promise<Set<string>>;
+  getDriverAverageScores(): Promise<Map<string, number>>;
 
   // System Users
   getSystemUsers(): Promise<SystemUser[]>;
@@ -99,7 +145,7 @@ export interface IStorage {
   // Role Permissions
   getRolePermissions(): Promise<RolePermission[]>;
   getPermissionsByRole(role: string): Promise<RolePermission[]>;
-  setRolePermissions(role: string, features: FeatureKey[]): Promise<void>;
+  setRolePermissions(role: string, features: FeatureKey[], actions?: Partial<Record<FeatureKey, PermissionAction[]>>): Promise<void>;
 
   // Dashboard
   getDashboardStats(): Promise<{
@@ -119,10 +165,30 @@ export interface IStorage {
 
   // Expense Settlement Items
   getExpenseSettlementItems(settlementId: string): Promise<ExpenseSettlementItem[]>;
+  getExpenseSettlementItem(id: string): Promise<ExpenseSettlementItem | undefined>;
   createExpenseSettlementItem(item: InsertExpenseSettlementItem): Promise<ExpenseSettlementItem>;
   updateExpenseSettlementItem(id: string, item: Partial<InsertExpenseSettlementItem>): Promise<ExpenseSettlementItem | undefined>;
   deleteExpenseSettlementItem(id: string): Promise<void>;
 
+  // Expense Policies
+  getExpensePolicies(): Promise<ExpensePolicy[]>;
+  upsertExpensePolicy(policy: InsertExpensePolicy): Promise<ExpensePolicy>;
+
+  // Exchange Rates
+  getExchangeRates(currency?: ForeignExpenseCurrency): Promise<ExchangeRate[]>;
+  getExchangeRateOn(currency: ForeignExpenseCurrency, date: string): Promise<ExchangeRate | undefined>;
+  upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>;
+  deleteExchangeRate(id: string): Promise<ExchangeRate | undefined>;
+  getReceiptExtraction(itemId: string): Promise<ExpenseReceiptExtraction | undefined>;
+  getReceiptExtractionsBySettlement(settlementId: string): Promise<ExpenseReceiptExtraction[]>;
+  queueReceiptExtraction(itemId: string): Promise<ExpenseReceiptExtraction>;
+  claimReceiptExtractions(limit: number): Promise<ExpenseReceiptExtraction[]>;
+  updateReceiptExtraction(id: string, data: Partial<InsertExpenseReceiptExtraction>): Promise<ExpenseReceiptExtraction | undefined>;
+  findDuplicateReceipts(itemId: string, match: Pick<ExpenseReceiptExtraction, "imageHash" | "issuerCnpj" | "proposedAmount" | "proposedDate">): Promise<ExpenseReceiptExtraction[]>;
+
+  // Truck Models
+  getTruckModel(id: string): Promise<TruckModel | undefined>;
+
   // Checkpoints
   getCheckpoints(): Promise<Checkpoint[]>;
   getCheckpoint(id: string): Promise<Checkpoint | undefined>;
@@ -130,6 +196,15 @@ export interface IStorage {
   updateCheckpoint(id: string, checkpoint: Partial<InsertCheckpoint>): Promise<Checkpoint | undefined>;
   deleteCheckpoint(id: string): Promise<void>;
 
+  // Transport Checkpoints
+  getOpenTransportCheckpoints(transportId: string): Promise<Array<TransportCheckpoint & { checkpoint: Checkpoint }>>;
+  getTransportCheckpointForUpdate(id: string): Promise<TransportCheckpoint | undefined>;
+  updateTransportCheckpoint(id: string, data: Partial<InsertTransportCheckpoint>): Promise<TransportCheckpoint | undefined>;
+
+  // Checkpoint Events
+  createCheckpointEvent(event: InsertCheckpointEvent): Promise<CheckpointEvent>;
+  getCheckpointEvents(filters: { since?: Date; transportId?: string; limit?: number }): Promise<CheckpointEvent[]>;
+
   // Contracts
   getContracts(): Promise<Contract[]>;
   getContract(id: string): Promise<Contract | undefined>;
@@ -148,215 +223,407 @@ export interface IStorage {
   // Transfers
   getTransfers(): Promise<Transfer[]>;
   getTransfer(id: string): Promise<Transfer | undefined>;
+  getTransferForUpdate(id: string): Promise<Transfer | undefined>;
   createTransfer(transfer: InsertTransfer): Promise<Transfer>;
   updateTransfer(id: string, transfer: Partial<Transfer>): Promise<Transfer | undefined>;
   deleteTransfer(id: string): Promise<void>;
+
+  // Audit Events
+  getAuditEvents(entity: AuditEntityType, entityId: string): Promise<AuditEvent[]>;
+
+  // Tracking Positions
+  createTrackingPositions(positions: InsertTrackingPosition[]): Promise<TrackingPosition[]>;
+  getTrackingPositions(subjectType: TrackingSubjectType, subjectId: string, since?: Date): Promise<TrackingPosition[]>;
+  getLatestTrackingPosition(subjectType: TrackingSubjectType, subjectId: string): Promise<TrackingPosition | undefined>;
+  getActiveTrackingSubjectForDriver(driverId: string): Promise<{ subjectType: TrackingSubjectType; subjectId: string } | undefined>;
+
+  // Trackers
+  getTrackers(): Promise<Tracker[]>;
+  getTracker(id: string): Promise<Tracker | undefined>;
+  getTrackerByImei(imei: string): Promise<Tracker | undefined>;
+  createTracker(tracker: InsertTracker): Promise<Tracker>;
+  updateTracker(id: string, tracker: Partial<InsertTracker>): Promise<Tracker | undefined>;
+  recordTrackerFix(id: string, fix: { latitude: string; longitude: string; recordedAt: Date }): Promise<void>;
+  deleteTracker(id: string): Promise<void>;
+
+  // Damage Records
+  getDamageRecords(filters?: { vehicleChassi?: string; stage?: DamageStage; collectId?: string; transportId?: string }): Promise<DamageRecord[]>;
+  getDamageRecord(id: string): Promise<DamageRecord | undefined>;
+  createDamageRecord(record: InsertDamageRecord & { recordedByUserId?: string | null }): Promise<DamageRecord>;
+  deleteDamageRecord(id: string): Promise<void>;
+
+  // Damage Claims
+  getDamageClaims(filters?: { status?: DamageClaim["status"]; liableDriverId?: string; vehicleChassi?: string; settlementId?: string }): Promise<DamageClaim[]>;
+  getDamageClaim(id: string): Promise<DamageClaim | undefined>;
+  getDamageClaimForUpdate(id: string): Promise<DamageClaim | undefined>;
+  getPendingDriverDeductions(driverId: string): Promise<DamageClaim[]>;
+  createDamageClaim(claim: InsertDamageClaim & { openedByUserId?: string | null }): Promise<DamageClaim>;
+  updateDamageClaim(id: string, claim: Partial<DamageClaim>): Promise<DamageClaim | undefined>;
+  deleteDamageClaim(id: string): Promise<void>;
+  getDamageClaimEvidence(claimId: string): Promise<DamageClaimEvidence[]>;
+  createDamageClaimEvidence(claimId: string, evidence: InsertDamageClaimEvidence): Promise<DamageClaimEvidence>;
+  deleteDamageClaimEvidence(id: string): Promise<void>;
+  getDamageClaimQuotes(claimId: string): Promise<DamageClaimQuote[]>;
+  getDamageClaimQuote(id: string): Promise<DamageClaimQuote | undefined>;
+  createDamageClaimQuote(claimId: string, quote: InsertDamageClaimQuote): Promise<DamageClaimQuote>;
+  updateDamageClaimQuote(id: string, quote: Partial<DamageClaimQuote>): Promise<DamageClaimQuote | undefined>;
+  deleteDamageClaimQuote(id: string): Promise<void>;
+
+  // Geofence Exceptions
+  getGeofenceExceptions(filters?: { subjectType?: GeofenceSubjectType; subjectId?: string; vehicleChassi?: string; since?: Date }): Promise<GeofenceException[]>;
+  createGeofenceException(exception: InsertGeofenceException): Promise<GeofenceException>;
+  deleteGeofenceExceptions(subjectType: GeofenceSubjectType, subjectId: string, event: GeofenceInspectionEvent): Promise<void>;
+
+  // Driver Ledger
+  getDriverLedgerEntries(driverId: string, filters?: { from?: Date; to?: Date }): Promise<DriverLedgerEntry[]>;
+  getDriverLedgerEntry(id: string): Promise<DriverLedgerEntry | undefined>;
+  getDriverLedgerBalance(driverId: string, before?: Date): Promise<number>;
+  getDriverLedgerBalances(): Promise<{ driverId: string; balance: number }[]>;
+  createDriverLedgerEntry(entry: InsertDriverLedgerEntry): Promise<DriverLedgerEntry>;
+  upsertDriverLedgerEntryBySource(entry: InsertDriverLedgerEntry & { sourceKey: string }): Promise<DriverLedgerEntry>;
+  deleteDriverLedgerEntry(id: string): Promise<void>;
+  deleteDriverLedgerEntryBySource(sourceKey: string): Promise<void>;
+
+  // Driver Payment Batches
+  getDriverPaymentBatches(): Promise<DriverPaymentBatch[]>;
+  getDriverPaymentBatch(id: string): Promise<DriverPaymentBatch | undefined>;
+  getDriverPaymentBatchEntries(batchId: string): Promise<DriverLedgerEntry[]>;
+  createDriverPaymentBatch(batch: InsertDriverPaymentBatch): Promise<DriverPaymentBatch>;
+  updateDriverPaymentBatch(id: string, batch: Partial<InsertDriverPaymentBatch>): Promise<DriverPaymentBatch | undefined>;
+  deleteDriverPaymentBatch(id: string): Promise<void>;
+
+  // Driver Payroll
+  getPayrollRuns(): Promise<PayrollRun[]>;
+  getPayrollRun(id: string): Promise<PayrollRun | undefined>;
+  createPayrollRun(run: InsertPayrollRun): Promise<PayrollRun>;
+  updatePayrollRun(id: string, run: Partial<InsertPayrollRun>): Promise<PayrollRun | undefined>;
+  deletePayrollRun(id: string): Promise<void>;
+  getPayrollStatements(runId: string): Promise<PayrollStatement[]>;
+  replacePayrollStatements(runId: string, statements: InsertPayrollStatement[]): Promise<PayrollStatement[]>;
+  getActiveRoutes(): Promise<Route[]>;
+
+  // Transport CT-e
+  getTransportCte(transportId: string): Promise<TransportCte | undefined>;
+  createTransportCte(cte: InsertTransportCte): Promise<TransportCte>;
+  updateTransportCte(id: string, cte: Partial<InsertTransportCte>): Promise<TransportCte | undefined>;
+  getNextCteNumber(series: number): Promise<number>;
+  getFreightQuote(id: string): Promise<FreightQuote | undefined>;
+
+  // Fleet
+  getFleetUnits(): Promise<FleetUnit[]>;
+  getFleetUnit(id: string): Promise<FleetUnit | undefined>;
+  createFleetUnit(unit: InsertFleetUnit): Promise<FleetUnit>;
+  updateFleetUnit(id: string, unit: Partial<InsertFleetUnit>): Promise<FleetUnit | undefined>;
+  deleteFleetUnit(id: string): Promise<void>;
+  getFleetJobs(statuses: { transport: TransportStatus[]; collect: CollectStatus[]; transfer: TransferStatus[] }): Promise<FleetJob[]>;
+  getFleetJob(entity: FleetJobEntity, id: string): Promise<FleetJob | undefined>;
+  assignFleetUnits(entity: FleetJobEntity, id: string, assignment: FleetAssignment): Promise<FleetJob | undefined>;
+  countFleetUnitJobs(unitId: string): Promise<number>;
+
+  // Trips
+  getTrips(): Promise<Trip[]>;
+  getTrip(id: string): Promise<Trip | undefined>;
+  getTripForUpdate(id: string): Promise<Trip | undefined>;
+  createTrip(trip: Omit<InsertTrip, "tripNumber">): Promise<Trip>;
+  updateTrip(id: string, trip: Partial<InsertTrip>): Promise<Trip | undefined>;
+  getNextTripNumber(): Promise<string>;
+  getTripTransports(tripId: string): Promise<Transport[]>;
+  getTripCollects(tripId: string): Promise<Collect[]>;
+  setTransportTrip(transportId: string, tripId: string | null, stopOrder: number | null): Promise<Transport | undefined>;
+  setCollectTrip(collectId: string, tripId: string | null): Promise<Collect | undefined>;
+  getExpenseSettlementByTrip(tripId: string): Promise<ExpenseSettlement | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: DbExecutor = defaultDb) {}
+
+  // Runs the callback inside a database transaction; nested calls become savepoints
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (tx) => work(new DatabaseStorage(tx)));
+  }
+
   // Drivers
   async getDrivers(): Promise<Driver[]> {
-    return db.select().from(drivers).orderBy(desc(drivers.createdAt));
+    return this.db.select().from(drivers).orderBy(desc(drivers.createdAt));
   }
 
   async getDriver(id: string): Promise<Driver | undefined> {
-    const [driver] = await db.select().from(drivers).where(eq(drivers.id, id));
+    const [driver] = await this.db.select().from(drivers).where(eq(drivers.id, id));
     return driver;
   }
 
   async createDriver(driver: InsertDriver): Promise<Driver> {
-    const [created] = await db.insert(drivers).values(driver).returning();
+    const [created] = await this.db.insert(drivers).values(driver).returning();
+    await recordAuditEvent(this.db, "driver", created.id, "create", null, created);
     return created;
   }
 
   async updateDriver(id: string, driver: Partial<InsertDriver>): Promise<Driver | undefined> {
-    const [updated] = await db.update(drivers).set(driver).where(eq(drivers.id, id)).returning();
+    const [before] = await this.db.select().from(drivers).where(eq(drivers.id, id));
+    const [updated] = await this.db.update(drivers).set(driver).where(eq(drivers.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "driver", id, "update", before, updated);
     return updated;
   }
 
   async deleteDriver(id: string): Promise<void> {
-    await db.delete(drivers).where(eq(drivers.id, id));
+    const [deleted] = await this.db.delete(drivers).where(eq(drivers.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "driver", id, "delete", deleted, null);
   }
 
   // Manufacturers
   async getManufacturers(): Promise<Manufacturer[]> {
-    return db.select().from(manufacturers).orderBy(desc(manufacturers.createdAt));
+    return this.db.select().from(manufacturers).orderBy(desc(manufacturers.createdAt));
   }
 
   async getManufacturer(id: string): Promise<Manufacturer | undefined> {
-    const [manufacturer] = await db.select().from(manufacturers).where(eq(manufacturers.id, id));
+    const [manufacturer] = await this.db.select().from(manufacturers).where(eq(manufacturers.id, id));
     return manufacturer;
   }
 
   async createManufacturer(manufacturer: InsertManufacturer): Promise<Manufacturer> {
-    const [created] = await db.insert(manufacturers).values(manufacturer).returning();
+    const [created] = await this.db.insert(manufacturers).values(manufacturer).returning();
+    await recordAuditEvent(this.db, "manufacturer", created.id, "create", null, created);
     return created;
   }
 
   async updateManufacturer(id: string, manufacturer: Partial<InsertManufacturer>): Promise<Manufacturer | undefined> {
-    const [updated] = await db.update(manufacturers).set(manufacturer).where(eq(manufacturers.id, id)).returning();
+    const [before] = await this.db.select().from(manufacturers).where(eq(manufacturers.id, id));
+    const [updated] = await this.db.update(manufacturers).set(manufacturer).where(eq(manufacturers.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "manufacturer", id, "update", before, updated);
     return updated;
   }
 
   async deleteManufacturer(id: string): Promise<void> {
-    await db.delete(manufacturers).where(eq(manufacturers.id, id));
+    const [deleted] = await this.db.delete(manufacturers).where(eq(manufacturers.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "manufacturer", id, "delete", deleted, null);
   }
 
   // Yards
   async getYards(): Promise<Yard[]> {
-    return db.select().from(yards).orderBy(desc(yards.createdAt));
+    return this.db.select().from(yards).orderBy(desc(yards.createdAt));
   }
 
   async getYard(id: string): Promise<Yard | undefined> {
-    const [yard] = await db.select().from(yards).where(eq(yards.id, id));
+    const [yard] = await this.db.select().from(yards).where(eq(yards.id, id));
     return yard;
   }
 
   async createYard(yard: InsertYard): Promise<Yard> {
-    const [created] = await db.insert(yards).values(yard).returning();
+    const [created] = await this.db.insert(yards).values(yard).returning();
+    await recordAuditEvent(this.db, "yard", created.id, "create", null, created);
     return created;
   }
 
   async updateYard(id: string, yard: Partial<InsertYard>): Promise<Yard | undefined> {
-    const [updated] = await db.update(yards).set(yard).where(eq(yards.id, id)).returning();
+    const [before] = await this.db.select().from(yards).where(eq(yards.id, id));
+    const [updated] = await this.db.update(yards).set(yard).where(eq(yards.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "yard", id, "update", before, updated);
     return updated;
   }
 
   async deleteYard(id: string): Promise<void> {
-    await db.delete(yards).where(eq(yards.id, id));
+    const [deleted] = await this.db.delete(yards).where(eq(yards.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "yard", id, "delete", deleted, null);
   }
 
   // Clients
   async getClients(): Promise<Client[]> {
-    return db.select().from(clients).orderBy(desc(clients.createdAt));
+    return this.db.select().from(clients).orderBy(desc(clients.createdAt));
   }
 
   async getClient(id: string): Promise<Client | undefined> {
-    const [client] = await db.select().from(clients).where(eq(clients.id, id));
+    const [client] = await this.db.select().from(clients).where(eq(clients.id, id));
+    return client;
+  }
+
+  // Portal logins are case-insensitive, like staff usernames
+  async getClientByUsername(username: string): Promise<Client | undefined> {
+    const [client] = await this.db.select().from(clients)
+      .where(sql`lower(${clients.username}) = ${username.toLowerCase()}`);
     return client;
   }
 
   async createClient(client: InsertClient): Promise<Client> {
-    const [created] = await db.insert(clients).values(client).returning();
+    const [created] = await this.db.insert(clients).values(client).returning();
+    await recordAuditEvent(this.db, "client", created.id, "create", null, created);
     return created;
   }
 
   async updateClient(id: string, client: Partial<InsertClient>): Promise<Client | undefined> {
-    const [updated] = await db.update(clients).set(client).where(eq(clients.id, id)).returning();
+    const [before] = await this.db.select().from(clients).where(eq(clients.id, id));
+    const [updated] = await this.db.update(clients).set(client).where(eq(clients.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "client", id, "update", before, updated);
     return updated;
   }
 
   async deleteClient(id: string): Promise<void> {
-    await db.delete(clients).where(eq(clients.id, id));
+    const [deleted] = await this.db.delete(clients).where(eq(clients.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "client", id, "delete", deleted, null);
   }
 
   // Delivery Locations
   async getAllDeliveryLocations(): Promise<DeliveryLocation[]> {
-    return db.select().from(deliveryLocations);
+    return this.db.select().from(deliveryLocations);
   }
 
   async getDeliveryLocations(clientId: string): Promise<DeliveryLocation[]> {
-    return db.select().from(deliveryLocations).where(eq(deliveryLocations.clientId, clientId));
+    return this.db.select().from(deliveryLocations).where(eq(deliveryLocations.clientId, clientId));
   }
 
   async getDeliveryLocation(id: string): Promise<DeliveryLocation | undefined> {
-    const [location] = await db.select().from(deliveryLocations).where(eq(deliveryLocations.id, id));
+    const [location] = await this.db.select().from(deliveryLocations).where(eq(deliveryLocations.id, id));
     return location;
   }
 
   async createDeliveryLocation(location: InsertDeliveryLocation): Promise<DeliveryLocation> {
-    const [created] = await db.insert(deliveryLocations).values(location).returning();
+    const [created] = await this.db.insert(deliveryLocations).values(location).returning();
+    await recordAuditEvent(this.db, "delivery_location", created.id, "create", null, created);
     return created;
   }
 
   async updateDeliveryLocation(id: string, location: Partial<InsertDeliveryLocation>): Promise<DeliveryLocation | undefined> {
-    const [updated] = await db.update(deliveryLocations).set(location).where(eq(deliveryLocations.id, id)).returning();
+    const [before] = await this.db.select().from(deliveryLocations).where(eq(deliveryLocations.id, id));
+    const [updated] = await this.db.update(deliveryLocations).set(location).where(eq(deliveryLocations.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "delivery_location", id, "update", before, updated);
     return updated;
   }
 
   async deleteDeliveryLocation(id: string): Promise<void> {
-    await db.delete(deliveryLocations).where(eq(deliveryLocations.id, id));
+    const [deleted] = await this.db.delete(deliveryLocations).where(eq(deliveryLocations.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "delivery_location", id, "delete", deleted, null);
   }
 
   // Vehicles
   async getVehicles(): Promise<Vehicle[]> {
-    return db.select().from(vehicles).orderBy(desc(vehicles.createdAt));
+    return this.db.select().from(vehicles).orderBy(desc(vehicles.createdAt));
   }
 
   async getVehicle(chassi: string): Promise<Vehicle | undefined> {
-    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.chassi, chassi));
+    const [vehicle] = await this.db.select().from(vehicles).where(eq(vehicles.chassi, chassi));
+    return vehicle;
+  }
+
+  async getVehiclesByClient(clientId: string): Promise<Vehicle[]> {
+    return this.db.select().from(vehicles)
+      .where(eq(vehicles.clientId, clientId))
+      .orderBy(desc(vehicles.createdAt));
+  }
+
+  // SELECT ... FOR UPDATE: only meaningful inside transaction(), holds the row until commit
+  async getVehicleForUpdate(chassi: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await this.db.select().from(vehicles).where(eq(vehicles.chassi, chassi)).for("update");
     return vehicle;
   }
 
   async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
-    const [created] = await db.insert(vehicles).values(vehicle).returning();
+    const [created] = await this.db.insert(vehicles).values(vehicle).returning();
+    await recordAuditEvent(this.db, "vehicle", created.chassi, "create", null, created);
     return created;
   }
 
   async updateVehicle(chassi: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
-    const [updated] = await db.update(vehicles).set(vehicle).where(eq(vehicles.chassi, chassi)).returning();
+    const [before] = await this.db.select().from(vehicles).where(eq(vehicles.chassi, chassi));
+    const [updated] = await this.db.update(vehicles).set(vehicle).where(eq(vehicles.chassi, chassi)).returning();
+    if (updated) await recordAuditEvent(this.db, "vehicle", chassi, "update", before, updated);
     return updated;
   }
 
   async deleteVehicle(chassi: string): Promise<void> {
-    await db.delete(vehicles).where(eq(vehicles.chassi, chassi));
+    const [deleted] = await this.db.delete(vehicles).where(eq(vehicles.chassi, chassi)).returning();
+    if (deleted) await recordAuditEvent(this.db, "vehicle", chassi, "delete", deleted, null);
   }
 
   // Collects
   async getCollects(): Promise<Collect[]> {
-    return db.select().from(collects).orderBy(desc(collects.createdAt));
+    return this.db.select().from(collects).orderBy(desc(collects.createdAt));
   }
 
   async getRecentCollects(limit = 5): Promise<Collect[]> {
-    return db.select().from(collects).orderBy(desc(collects.createdAt)).limit(limit);
+    return this.db.select().from(collects).orderBy(desc(collects.createdAt)).limit(limit);
   }
 
   async getCollect(id: string): Promise<Collect | undefined> {
-    const [collect] = await db.select().from(collects).where(eq(collects.id, id));
+    const [collect] = await this.db.select().from(collects).where(eq(collects.id, id));
+    return collect;
+  }
+
+  async getCollectsByChassi(chassi: string): Promise<Collect[]> {
+    return this.db.select().from(collects)
+      .where(eq(collects.vehicleChassi, chassi))
+      .orderBy(collects.createdAt);
+  }
+
+  async getCollectForUpdate(id: string): Promise<Collect | undefined> {
+    const [collect] = await this.db.select().from(collects).where(eq(collects.id, id)).for("update");
     return collect;
   }
 
   async createCollect(collect: InsertCollect): Promise<Collect> {
-    const [created] = await db.insert(collects).values(collect).returning();
+    const [created] = await this.db.insert(collects).values(collect).returning();
+    await recordAuditEvent(this.db, "collect", created.id, "create", null, created);
     return created;
   }
 
   async updateCollect(id: string, collect: Partial<InsertCollect>): Promise<Collect | undefined> {
-    const [updated] = await db.update(collects).set(collect).where(eq(collects.id, id)).returning();
+    const [before] = await this.db.select().from(collects).where(eq(collects.id, id));
+    const [updated] = await this.db.update(collects).set(collect).where(eq(collects.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "collect", id, "update", before, updated);
     return updated;
   }
 
   async deleteCollect(id: string): Promise<void> {
-    await db.delete(collects).where(eq(collects.id, id));
+    const [deleted] = await this.db.delete(collects).where(eq(collects.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "collect", id, "delete", deleted, null);
   }
 
   // Transports
   async getTransports(): Promise<Transport[]> {
-    return db.select().from(transports).orderBy(desc(transports.createdAt));
+    return this.db.select().from(transports).orderBy(desc(transports.createdAt));
+  }
+
+  async getTransportsByClient(clientId: string): Promise<Transport[]> {
+    return this.db.select().from(transports)
+      .where(eq(transports.clientId, clientId))
+      .orderBy(desc(transports.createdAt));
+  }
+
+  async getTransportsByChassi(chassi: string): Promise<Transport[]> {
+    return this.db.select().from(transports)
+      .where(eq(transports.vehicleChassi, chassi))
+      .orderBy(transports.createdAt);
   }
 
   async getRecentTransports(limit = 5): Promise<Transport[]> {
-    return db.select().from(transports).orderBy(desc(transports.createdAt)).limit(limit);
+    return this.db.select().from(transports).orderBy(desc(transports.createdAt)).limit(limit);
   }
 
   async getTransport(id: string): Promise<Transport | undefined> {
-    const [transport] = await db.select().from(transports).where(eq(transports.id, id));
+    const [transport] = await this.db.select().from(transports).where(eq(transports.id, id));
+    return transport;
+  }
+
+  async getTransportForUpdate(id: string): Promise<Transport | undefined> {
+    const [transport] = await this.db.select().from(transports).where(eq(transports.id, id)).for("update");
     return transport;
   }
 
   async createTransport(transport: InsertTransport): Promise<Transport> {
     const requestNumber = await this.getNextRequestNumber();
-    const [created] = await db.insert(transports).values({ ...transport, requestNumber }).returning();
+    const [created] = await this.db.insert(transports).values({ ...transport, requestNumber }).returning();
+    await recordAuditEvent(this.db, "transport", created.id, "create", null, created);
     return created;
   }
 
   async updateTransport(id: string, transport: Partial<InsertTransport>): Promise<Transport | undefined> {
-    const [updated] = await db.update(transports).set(transport).where(eq(transports.id, id)).returning();
+    const [before] = await this.db.select().from(transports).where(eq(transports.id, id));
+    const [updated] = await this.db.update(transports).set(transport).where(eq(transports.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "transport", id, "update", before, updated);
     return updated;
   }
 
   async clearTransportCheckin(id: string): Promise<Transport | undefined> {
-    const [updated] = await db.update(transports).set({
+    const [before] = await this.db.select().from(transports).where(eq(transports.id, id));
+    const [updated] = await this.db.update(transports).set({
       checkinDateTime: sql`NULL`,
       checkinLatitude: "",
       checkinLongitude: "",
@@ -371,11 +638,13 @@ export class DatabaseStorage implements IStorage {
       checkinNotes: "",
       status: "pendente",
     } as any).where(eq(transports.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "transport", id, "update", before, updated);
     return updated;
   }
 
   async clearTransportCheckout(id: string): Promise<Transport | undefined> {
-    const [updated] = await db.update(transports).set({
+    const [before] = await this.db.select().from(transports).where(eq(transports.id, id));
+    const [updated] = await this.db.update(transports).set({
       checkoutDateTime: sql`NULL`,
       checkoutLatitude: "",
       checkoutLongitude: "",
@@ -388,17 +657,26 @@ export class DatabaseStorage implements IStorage {
       checkoutDamagePhotos: [],
       checkoutSelfiePhoto: "",
       checkoutNotes: "",
+      recipientName: sql`NULL`,
+      recipientDocument: sql`NULL`,
+      recipientSignature: sql`NULL`,
+      // The receipt no longer reflects a delivery, so it leaves the transport's documents too
+      documents: (before?.documents ?? []).filter((doc) => doc !== before?.podDocumentUrl),
+      podDocumentUrl: sql`NULL`,
+      podEmailedAt: sql`NULL`,
       status: "em_transito",
     } as any).where(eq(transports.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "transport", id, "update", before, updated);
     return updated;
   }
 
   async deleteTransport(id: string): Promise<void> {
-    await db.delete(transports).where(eq(transports.id, id));
+    const [deleted] = await this.db.delete(transports).where(eq(transports.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "transport", id, "delete", deleted, null);
   }
 
   async getNextRequestNumber(): Promise<string> {
-    const result = await db
+    const result = await this.db
       .insert(requestCounter)
       .values({ id: "transport_counter", lastNumber: 1 })
       .onConflictDoUpdate({
@@ -413,7 +691,7 @@ export class DatabaseStorage implements IStorage {
 
   // Driver Notifications
   async getDriverNotifications(yardId: string, deliveryLocationId: string, departureDate: string): Promise<DriverNotification[]> {
-    return db
+    return this.db
       .select()
       .from(driverNotifications)
       .where(
@@ -427,12 +705,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDriverNotification(notification: InsertDriverNotification): Promise<DriverNotification> {
-    const [created] = await db.insert(driverNotifications).values(notification).returning();
+    const [created] = await this.db.insert(driverNotifications).values(notification).returning();
     return created;
   }
 
   async updateDriverNotification(id: string, data: Partial<InsertDriverNotification>): Promise<DriverNotification | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(driverNotifications)
       .set({ ...data, respondedAt: new Date() })
       .where(eq(driverNotifications.id, id))
@@ -440,46 +718,128 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getDriverNotification(id: string): Promise<DriverNotification | undefined> {
+    const [notification] = await this.db.select().from(driverNotifications).where(eq(driverNotifications.id, id));
+    return notification;
+  }
+
+  async getDriverNotificationForUpdate(id: string): Promise<DriverNotification | undefined> {
+    const [notification] = await this.db.select().from(driverNotifications).where(eq(driverNotifications.id, id)).for("update");
+    return notification;
+  }
+
+  async getDriverNotificationsByTransport(transportId: string): Promise<DriverNotification[]> {
+    return this.db
+      .select()
+      .from(driverNotifications)
+      .where(eq(driverNotifications.transportId, transportId))
+      .orderBy(driverNotifications.wave, driverNotifications.rank);
+  }
+
+  async expireDriverNotifications(now: Date = new Date()): Promise<DriverNotification[]> {
+    return this.db
+      .update(driverNotifications)
+      .set({ status: "expirado" })
+      .where(and(eq(driverNotifications.status, "pendente"), lt(driverNotifications.expiresAt, now)))
+      .returning();
+  }
+
+  async cancelPendingDriverNotifications(transportId: string, exceptId?: string): Promise<DriverNotification[]> {
+    const conditions = [
+      eq(driverNotifications.transportId, transportId),
+      eq(driverNotifications.status, "pendente"),
+    ];
+    if (exceptId) {
+      conditions.push(ne(driverNotifications.id, exceptId));
+    }
+    return this.db
+      .update(driverNotifications)
+      .set({ status: "cancelado" })
+      .where(and(...conditions))
+      .returning();
+  }
+
+  // Drivers currently on a trip or holding an open offer for another transport
+  async getBusyDriverIds(): Promise<Set<string>> {
+    const [onTransport, onCollect, withOffer] = await Promise.all([
+      this.db
+        .select({ driverId: transports.driverId })
+        .from(transports)
+        .where(inArray(transports.status, ["aguardando_saida", "em_transito"])),
+      this.db
+        .select({ driverId: collects.driverId })
+        .from(collects)
+        .where(eq(collects.status, "em_transito")),
+      this.db
+        .select({ driverId: driverNotifications.driverId })
+        .from(driverNotifications)
+        .where(and(eq(driverNotifications.status, "pendente"), isNotNull(driverNotifications.transportId))),
+    ]);
+    const ids = [...onTransport, ...onCollect, ...withOffer]
+      .map((row) => row.driverId)
+      .filter((id): id is string => !!id);
+    return new Set(ids);
+  }
+
+  async getDriverAverageScores(): Promise<Map<string, number>> {
+    const rows = await this.db
+      .select({
+        driverId: driverEvaluations.driverId,
+        score: sql<string>`avg(coalesce(${driverEvaluations.weightedScore}, ${driverEvaluations.averageScore}))`,
+      })
+      .from(driverEvaluations)
+      .groupBy(driverEvaluations.driverId);
+    return new Map(rows.filter((r) => r.score !== null).map((r) => [r.driverId, parseFloat(r.score)]));
+  }
+
   // System Users
   async getSystemUsers(): Promise<SystemUser[]> {
-    return db.select().from(systemUsers).orderBy(desc(systemUsers.createdAt));
+    return this.db.select().from(systemUsers).orderBy(desc(systemUsers.createdAt));
   }
 
   async getSystemUser(id: string): Promise<SystemUser | undefined> {
-    const [user] = await db.select().from(systemUsers).where(eq(systemUsers.id, id));
+    const [user] = await this.db.select().from(systemUsers).where(eq(systemUsers.id, id));
     return user;
   }
 
   async createSystemUser(user: InsertSystemUser): Promise<SystemUser> {
-    const [created] = await db.insert(systemUsers).values(user).returning();
+    const [created] = await this.db.insert(systemUsers).values(user).returning();
+    await recordAuditEvent(this.db, "system_user", created.id, "create", null, created);
     return created;
   }
 
   async updateSystemUser(id: string, user: Partial<InsertSystemUser>): Promise<SystemUser | undefined> {
-    const [updated] = await db.update(systemUsers).set(user).where(eq(systemUsers.id, id)).returning();
+    const [before] = await this.db.select().from(systemUsers).where(eq(systemUsers.id, id));
+    const [updated] = await this.db.update(systemUsers).set(user).where(eq(systemUsers.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "system_user", id, "update", before, updated);
     return updated;
   }
 
   async deleteSystemUser(id: string): Promise<void> {
-    await db.delete(systemUsers).where(eq(systemUsers.id, id));
+    const [deleted] = await this.db.delete(systemUsers).where(eq(systemUsers.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "system_user", id, "delete", deleted, null);
   }
 
   // Role Permissions
   async getRolePermissions(): Promise<RolePermission[]> {
-    return db.select().from(rolePermissions);
+    return this.db.select().from(rolePermissions);
   }
 
   async getPermissionsByRole(role: string): Promise<RolePermission[]> {
-    return db.select().from(rolePermissions).where(eq(rolePermissions.role, role as any));
+    return this.db.select().from(rolePermissions).where(eq(rolePermissions.role, role as any));
   }
 
-  async setRolePermissions(role: string, features: FeatureKey[]): Promise<void> {
-    await db.delete(rolePermissions).where(eq(rolePermissions.role, role as any));
-    if (features.length > 0) {
-      await db.insert(rolePermissions).values(
-        features.map((feature) => ({ role: role as any, feature }))
-      );
-    }
+  // Every known feature gets a row: features left out are stored with no actions, so they stay revoked
+  // instead of falling back to the role defaults
+  async setRolePermissions(role: string, features: FeatureKey[], actions?: Partial<Record<FeatureKey, PermissionAction[]>>): Promise<void> {
+    await this.db.delete(rolePermissions).where(eq(rolePermissions.role, role as any));
+    await this.db.insert(rolePermissions).values(
+      featureKeys.map((feature) => ({
+        role: role as any,
+        feature,
+        actions: features.includes(feature) ? actions?.[feature] ?? null : [],
+      }))
+    );
   }
 
   // Dashboard
@@ -489,16 +849,16 @@ export class DatabaseStorage implements IStorage {
     vehiclesInStock: number;
     activeDrivers: number;
   }> {
-    const [transportCount] = await db.select({ count: sql<number>`count(*)` }).from(transports);
-    const [collectCount] = await db
+    const [transportCount] = await this.db.select({ count: sql<number>`count(*)` }).from(transports);
+    const [collectCount] = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(collects)
       .where(eq(collects.status, "em_transito"));
-    const [vehicleCount] = await db
+    const [vehicleCount] = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(vehicles)
       .where(eq(vehicles.status, "em_estoque"));
-    const [driverCount] = await db
+    const [driverCount] = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(drivers)
       .where(eq(drivers.isActive, "true"));
@@ -513,129 +873,345 @@ export class DatabaseStorage implements IStorage {
 
   // Expense Settlements
   async getExpenseSettlements(): Promise<ExpenseSettlement[]> {
-    return db.select().from(expenseSettlements).orderBy(desc(expenseSettlements.createdAt));
+    return this.db.select().from(expenseSettlements).orderBy(desc(expenseSettlements.createdAt));
   }
 
   async getExpenseSettlement(id: string): Promise<ExpenseSettlement | undefined> {
-    const [settlement] = await db.select().from(expenseSettlements).where(eq(expenseSettlements.id, id));
+    const [settlement] = await this.db.select().from(expenseSettlements).where(eq(expenseSettlements.id, id));
     return settlement;
   }
 
   async getExpenseSettlementByTransport(transportId: string): Promise<ExpenseSettlement | undefined> {
-    const [settlement] = await db.select().from(expenseSettlements).where(eq(expenseSettlements.transportId, transportId));
+    const [settlement] = await this.db.select().from(expenseSettlements).where(eq(expenseSettlements.transportId, transportId));
     return settlement;
   }
 
   async createExpenseSettlement(settlement: InsertExpenseSettlement): Promise<ExpenseSettlement> {
-    const [created] = await db.insert(expenseSettlements).values(settlement).returning();
+    const [created] = await this.db.insert(expenseSettlements).values(settlement).returning();
+    await recordAuditEvent(this.db, "expense_settlement", created.id, "create", null, created);
     return created;
   }
 
   async updateExpenseSettlement(id: string, settlement: Partial<InsertExpenseSettlement>): Promise<ExpenseSettlement | undefined> {
-    const [updated] = await db.update(expenseSettlements).set(settlement).where(eq(expenseSettlements.id, id)).returning();
+    const [before] = await this.db.select().from(expenseSettlements).where(eq(expenseSettlements.id, id));
+    const [updated] = await this.db.update(expenseSettlements).set(settlement).where(eq(expenseSettlements.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "expense_settlement", id, "update", before, updated);
     return updated;
   }
 
   async deleteExpenseSettlement(id: string): Promise<void> {
     // First delete items
-    await db.delete(expenseSettlementItems).where(eq(expenseSettlementItems.settlementId, id));
+    const deletedItems = await this.db.delete(expenseSettlementItems).where(eq(expenseSettlementItems.settlementId, id)).returning();
+    for (const item of deletedItems) {
+      await recordAuditEvent(this.db, "expense_settlement_item", item.id, "delete", item, null);
+    }
     // Then delete settlement
-    await db.delete(expenseSettlements).where(eq(expenseSettlements.id, id));
+    const [deleted] = await this.db.delete(expenseSettlements).where(eq(expenseSettlements.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "expense_settlement", id, "delete", deleted, null);
   }
 
   // Expense Settlement Items
   async getExpenseSettlementItems(settlementId: string): Promise<ExpenseSettlementItem[]> {
-    return db.select().from(expenseSettlementItems).where(eq(expenseSettlementItems.settlementId, settlementId)).orderBy(desc(expenseSettlementItems.createdAt));
+    return this.db.select().from(expenseSettlementItems).where(eq(expenseSettlementItems.settlementId, settlementId)).orderBy(desc(expenseSettlementItems.createdAt));
+  }
+
+  async getExpenseSettlementItem(id: string): Promise<ExpenseSettlementItem | undefined> {
+    const [item] = await this.db.select().from(expenseSettlementItems).where(eq(expenseSettlementItems.id, id));
+    return item;
   }
 
   async createExpenseSettlementItem(item: InsertExpenseSettlementItem): Promise<ExpenseSettlementItem> {
-    const [created] = await db.insert(expenseSettlementItems).values(item).returning();
+    const [created] = await this.db.insert(expenseSettlementItems).values(item).returning();
+    await recordAuditEvent(this.db, "expense_settlement_item", created.id, "create", null, created);
     return created;
   }
 
   async updateExpenseSettlementItem(id: string, item: Partial<InsertExpenseSettlementItem>): Promise<ExpenseSettlementItem | undefined> {
-    const [updated] = await db.update(expenseSettlementItems).set(item).where(eq(expenseSettlementItems.id, id)).returning();
+    const [before] = await this.db.select().from(expenseSettlementItems).where(eq(expenseSettlementItems.id, id));
+    const [updated] = await this.db.update(expenseSettlementItems).set(item).where(eq(expenseSettlementItems.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "expense_settlement_item", id, "update", before, updated);
     return updated;
   }
 
   async deleteExpenseSettlementItem(id: string): Promise<void> {
-    await db.delete(expenseSettlementItems).where(eq(expenseSettlementItems.id, id));
+    const [deleted] = await this.db.delete(expenseSettlementItems).where(eq(expenseSettlementItems.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "expense_settlement_item", id, "delete", deleted, null);
+  }
+
+  // Expense Policies
+  async getExpensePolicies(): Promise<ExpensePolicy[]> {
+    return this.db.select().from(expensePolicies).orderBy(expensePolicies.expenseType);
+  }
+
+  async upsertExpensePolicy(policy: InsertExpensePolicy): Promise<ExpensePolicy> {
+    const [before] = await this.db.select().from(expensePolicies).where(eq(expensePolicies.expenseType, policy.expenseType as ExpenseType));
+    const [saved] = await this.db
+      .insert(expensePolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: expensePolicies.expenseType,
+        set: { ...policy, updatedAt: new Date() },
+      })
+      .returning();
+    await recordAuditEvent(this.db, "expense_policy", saved.id, before ? "update" : "create", before ?? null, saved);
+    return saved;
+  }
+
+  // Exchange Rates
+  async getExchangeRates(currency?: ForeignExpenseCurrency): Promise<ExchangeRate[]> {
+    return this.db.select().from(exchangeRates)
+      .where(currency ? eq(exchangeRates.currency, currency) : undefined)
+      .orderBy(desc(exchangeRates.rateDate), exchangeRates.currency);
+  }
+
+  // Latest rate published on or before the date (PTAX is not published on weekends and holidays)
+  async getExchangeRateOn(currency: ForeignExpenseCurrency, date: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await this.db.select().from(exchangeRates)
+      .where(and(eq(exchangeRates.currency, currency), lte(exchangeRates.rateDate, date)))
+      .orderBy(desc(exchangeRates.rateDate))
+      .limit(1);
+    return rate;
+  }
+
+  async upsertExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [before] = await this.db.select().from(exchangeRates)
+      .where(and(eq(exchangeRates.currency, rate.currency), eq(exchangeRates.rateDate, rate.rateDate)));
+    const [saved] = await this.db
+      .insert(exchangeRates)
+      .values(rate)
+      .onConflictDoUpdate({
+        target: [exchangeRates.currency, exchangeRates.rateDate],
+        set: { rate: rate.rate, source: rate.source },
+      })
+      .returning();
+    await recordAuditEvent(this.db, "exchange_rate", saved.id, before ? "update" : "create", before ?? null, saved);
+    return saved;
+  }
+
+  async deleteExchangeRate(id: string): Promise<ExchangeRate | undefined> {
+    const [deleted] = await this.db.delete(exchangeRates).where(eq(exchangeRates.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "exchange_rate", id, "delete", deleted, null);
+    return deleted;
+  }
+
+  // Receipt OCR
+  async getReceiptExtraction(itemId: string): Promise<ExpenseReceiptExtraction | undefined> {
+    const [extraction] = await this.db.select().from(expenseReceiptExtractions).where(eq(expenseReceiptExtractions.itemId, itemId));
+    return extraction;
+  }
+
+  async getReceiptExtractionsBySettlement(settlementId: string): Promise<ExpenseReceiptExtraction[]> {
+    const rows = await this.db
+      .select({ extraction: expenseReceiptExtractions })
+      .from(expenseReceiptExtractions)
+      .innerJoin(expenseSettlementItems, eq(expenseReceiptExtractions.itemId, expenseSettlementItems.id))
+      .where(eq(expenseSettlementItems.settlementId, settlementId));
+    return rows.map((r) => r.extraction);
+  }
+
+  // (Re)starts the extraction of an item from scratch, e.g. after a new photo
+  async queueReceiptExtraction(itemId: string): Promise<ExpenseReceiptExtraction> {
+    const reset = {
+      status: "pendente" as const,
+      provider: null,
+      imageHash: null,
+      proposedType: null,
+      proposedAmount: null,
+      proposedCurrency: null,
+      proposedDate: null,
+      issuerCnpj: null,
+      photoQuality: null,
+      mismatches: [],
+      duplicateItemIds: [],
+      error: null,
+      processedAt: null,
+      updatedAt: new Date(),
+    };
+    const [queued] = await this.db
+      .insert(expenseReceiptExtractions)
+      .values({ itemId, ...reset })
+      .onConflictDoUpdate({ target: expenseReceiptExtractions.itemId, set: reset })
+      .returning();
+    return queued;
+  }
+
+  // Marks a batch as in progress; rows stuck in "processando" (worker restarted mid-batch) are picked up again
+  async claimReceiptExtractions(limit: number): Promise<ExpenseReceiptExtraction[]> {
+    const staleBefore = new Date(Date.now() - 10 * 60 * 1000);
+    const candidates = this.db
+      .select({ id: expenseReceiptExtractions.id })
+      .from(expenseReceiptExtractions)
+      .where(or(
+        eq(expenseReceiptExtractions.status, "pendente"),
+        and(eq(expenseReceiptExtractions.status, "processando"), lt(expenseReceiptExtractions.updatedAt, staleBefore)),
+      ))
+      .orderBy(expenseReceiptExtractions.updatedAt)
+      .limit(limit);
+    return this.db
+      .update(expenseReceiptExtractions)
+      .set({ status: "processando", updatedAt: new Date() })
+      .where(inArray(expenseReceiptExtractions.id, candidates))
+      .returning();
+  }
+
+  async updateReceiptExtraction(id: string, data: Partial<InsertExpenseReceiptExtraction>): Promise<ExpenseReceiptExtraction | undefined> {
+    const [updated] = await this.db
+      .update(expenseReceiptExtractions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(expenseReceiptExtractions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Same image, or same issuer, amount and date read from another receipt
+  async findDuplicateReceipts(
+    itemId: string,
+    match: Pick<ExpenseReceiptExtraction, "imageHash" | "issuerCnpj" | "proposedAmount" | "proposedDate">,
+  ): Promise<ExpenseReceiptExtraction[]> {
+    const conditions = [];
+    if (match.imageHash) conditions.push(eq(expenseReceiptExtractions.imageHash, match.imageHash));
+    if (match.issuerCnpj && match.proposedAmount && match.proposedDate) {
+      conditions.push(and(
+        eq(expenseReceiptExtractions.issuerCnpj, match.issuerCnpj),
+        eq(expenseReceiptExtractions.proposedAmount, match.proposedAmount),
+        eq(expenseReceiptExtractions.proposedDate, match.proposedDate),
+      ));
+    }
+    if (conditions.length === 0) return [];
+    return this.db.select().from(expenseReceiptExtractions)
+      .where(and(ne(expenseReceiptExtractions.itemId, itemId), or(...conditions)));
+  }
+
+  // Truck Models
+  async getTruckModel(id: string): Promise<TruckModel | undefined> {
+    const [model] = await this.db.select().from(truckModels).where(eq(truckModels.id, id));
+    return model;
   }
 
   // Checkpoints
   async getCheckpoints(): Promise<Checkpoint[]> {
-    return db.select().from(checkpoints).orderBy(desc(checkpoints.createdAt));
+    return this.db.select().from(checkpoints).orderBy(desc(checkpoints.createdAt));
   }
 
   async getCheckpoint(id: string): Promise<Checkpoint | undefined> {
-    const [checkpoint] = await db.select().from(checkpoints).where(eq(checkpoints.id, id));
+    const [checkpoint] = await this.db.select().from(checkpoints).where(eq(checkpoints.id, id));
     return checkpoint;
   }
 
   async createCheckpoint(checkpoint: InsertCheckpoint): Promise<Checkpoint> {
-    const [created] = await db.insert(checkpoints).values(checkpoint).returning();
+    const [created] = await this.db.insert(checkpoints).values(checkpoint).returning();
+    await recordAuditEvent(this.db, "checkpoint", created.id, "create", null, created);
     return created;
   }
 
   async updateCheckpoint(id: string, checkpoint: Partial<InsertCheckpoint>): Promise<Checkpoint | undefined> {
-    const [updated] = await db.update(checkpoints).set(checkpoint).where(eq(checkpoints.id, id)).returning();
+    const [before] = await this.db.select().from(checkpoints).where(eq(checkpoints.id, id));
+    const [updated] = await this.db.update(checkpoints).set(checkpoint).where(eq(checkpoints.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "checkpoint", id, "update", before, updated);
     return updated;
   }
 
   async deleteCheckpoint(id: string): Promise<void> {
-    await db.delete(checkpoints).where(eq(checkpoints.id, id));
+    const [deleted] = await this.db.delete(checkpoints).where(eq(checkpoints.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "checkpoint", id, "delete", deleted, null);
+  }
+
+  // Transport Checkpoints
+  // Checkpoints of a transport that still need an arrival or departure, in route order
+  async getOpenTransportCheckpoints(transportId: string): Promise<Array<TransportCheckpoint & { checkpoint: Checkpoint }>> {
+    const rows = await this.db.select().from(transportCheckpoints)
+      .innerJoin(checkpoints, eq(transportCheckpoints.checkpointId, checkpoints.id))
+      .where(and(eq(transportCheckpoints.transportId, transportId), ne(transportCheckpoints.status, "concluido")))
+      .orderBy(transportCheckpoints.orderIndex);
+    return rows.map((row) => ({ ...row.transport_checkpoints, checkpoint: row.checkpoints }));
+  }
+
+  async getTransportCheckpointForUpdate(id: string): Promise<TransportCheckpoint | undefined> {
+    const [row] = await this.db.select().from(transportCheckpoints)
+      .where(eq(transportCheckpoints.id, id))
+      .for("update");
+    return row;
+  }
+
+  async updateTransportCheckpoint(id: string, data: Partial<InsertTransportCheckpoint>): Promise<TransportCheckpoint | undefined> {
+    const [updated] = await this.db.update(transportCheckpoints).set(data).where(eq(transportCheckpoints.id, id)).returning();
+    return updated;
+  }
+
+  // Checkpoint Events
+  async createCheckpointEvent(event: InsertCheckpointEvent): Promise<CheckpointEvent> {
+    const [created] = await this.db.insert(checkpointEvents).values(event).returning();
+    return created;
+  }
+
+  async getCheckpointEvents(filters: { since?: Date; transportId?: string; limit?: number }): Promise<CheckpointEvent[]> {
+    const conditions = [];
+    if (filters.since) conditions.push(gte(checkpointEvents.createdAt, filters.since));
+    if (filters.transportId) conditions.push(eq(checkpointEvents.transportId, filters.transportId));
+    return this.db.select().from(checkpointEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(checkpointEvents.createdAt))
+      .limit(filters.limit ?? 50);
   }
 
   // Contracts
   async getContracts(): Promise<Contract[]> {
-    return db.select().from(contracts).orderBy(desc(contracts.createdAt));
+    return this.db.select().from(contracts).orderBy(desc(contracts.createdAt));
   }
 
   async getContract(id: string): Promise<Contract | undefined> {
-    const [contract] = await db.select().from(contracts).where(eq(contracts.id, id));
+    const [contract] = await this.db.select().from(contracts).where(eq(contracts.id, id));
     return contract;
   }
 
   async createContract(contract: InsertContract): Promise<Contract> {
-    const [created] = await db.insert(contracts).values(contract).returning();
+    const [created] = await this.db.insert(contracts).values(contract).returning();
+    await recordAuditEvent(this.db, "contract", created.id, "create", null, created);
     return created;
   }
 
   async updateContract(id: string, contract: Partial<InsertContract>): Promise<Contract | undefined> {
-    const [updated] = await db.update(contracts).set({ ...contract, updatedAt: new Date() }).where(eq(contracts.id, id)).returning();
+    const [before] = await this.db.select().from(contracts).where(eq(contracts.id, id));
+    const [updated] = await this.db.update(contracts).set({ ...contract, updatedAt: new Date() }).where(eq(contracts.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "contract", id, "update", before, updated);
     return updated;
   }
 
   async deleteContract(id: string): Promise<void> {
-    await db.delete(contracts).where(eq(contracts.id, id));
+    const [deleted] = await this.db.delete(contracts).where(eq(contracts.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "contract", id, "delete", deleted, null);
   }
 
   // Freight Contracts
   async getFreightContracts(): Promise<FreightContract[]> {
-    return db.select().from(freightContracts).orderBy(desc(freightContracts.createdAt));
+    return this.db.select().from(freightContracts).orderBy(desc(freightContracts.createdAt));
   }
 
   async getFreightContract(id: string): Promise<FreightContract | undefined> {
-    const [contract] = await db.select().from(freightContracts).where(eq(freightContracts.id, id));
+    const [contract] = await this.db.select().from(freightContracts).where(eq(freightContracts.id, id));
     return contract;
   }
 
   async createFreightContract(contract: InsertFreightContract): Promise<FreightContract> {
-    const [created] = await db.insert(freightContracts).values(contract).returning();
+    const [created] = await this.db.insert(freightContracts).values(contract).returning();
+    await recordAuditEvent(this.db, "freight_contract", created.id, "create", null, created);
     return created;
   }
 
   async updateFreightContract(id: string, contract: Partial<InsertFreightContract>): Promise<FreightContract | undefined> {
-    const [updated] = await db.update(freightContracts).set({ ...contract, updatedAt: new Date() }).where(eq(freightContracts.id, id)).returning();
+    const [before] = await this.db.select().from(freightContracts).where(eq(freightContracts.id, id));
+    const [updated] = await this.db.update(freightContracts).set({ ...contract, updatedAt: new Date() }).where(eq(freightContracts.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "freight_contract", id, "update", before, updated);
     return updated;
   }
 
   async deleteFreightContract(id: string): Promise<void> {
-    await db.delete(freightContracts).where(eq(freightContracts.id, id));
+    const [deleted] = await this.db.delete(freightContracts).where(eq(freightContracts.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "freight_contract", id, "delete", deleted, null);
   }
 
   async getNextFreightContractNumber(): Promise<string> {
-    const [result] = await db
+    const [result] = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(freightContracts);
     const next = (Number(result?.count ?? 0) + 1).toString().padStart(4, "0");
@@ -644,27 +1220,648 @@ export class DatabaseStorage implements IStorage {
 
   // Transfers
   async getTransfers(): Promise<Transfer[]> {
-    return db.select().from(transfers).orderBy(desc(transfers.createdAt));
+    return this.db.select().from(transfers).orderBy(desc(transfers.createdAt));
   }
 
   async getTransfer(id: string): Promise<Transfer | undefined> {
-    const [transfer] = await db.select().from(transfers).where(eq(transfers.id, id));
+    const [transfer] = await this.db.select().from(transfers).where(eq(transfers.id, id));
+    return transfer;
+  }
+
+  async getTransferForUpdate(id: string): Promise<Transfer | undefined> {
+    const [transfer] = await this.db.select().from(transfers).where(eq(transfers.id, id)).for("update");
     return transfer;
   }
 
   async createTransfer(transfer: InsertTransfer): Promise<Transfer> {
-    const [created] = await db.insert(transfers).values(transfer).returning();
+    const [created] = await this.db.insert(transfers).values(transfer).returning();
+    await recordAuditEvent(this.db, "transfer", created.id, "create", null, created);
     return created;
   }
 
   async updateTransfer(id: string, data: Partial<Transfer>): Promise<Transfer | undefined> {
-    const [updated] = await db.update(transfers).set(data).where(eq(transfers.id, id)).returning();
+    const [before] = await this.db.select().from(transfers).where(eq(transfers.id, id));
+    const [updated] = await this.db.update(transfers).set(data).where(eq(transfers.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "transfer", id, "update", before, updated);
     return updated;
   }
 
   async deleteTransfer(id: string): Promise<void> {
-    await db.delete(transfers).where(eq(transfers.id, id));
+    const [deleted] = await this.db.delete(transfers).where(eq(transfers.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "transfer", id, "delete", deleted, null);
+  }
+
+  // Audit Events
+  async getAuditEvents(entity: AuditEntityType, entityId: string): Promise<AuditEvent[]> {
+    return this.db.select().from(auditEvents)
+      .where(and(eq(auditEvents.entity, entity), eq(auditEvents.entityId, entityId)))
+      .orderBy(desc(auditEvents.createdAt));
+  }
+
+  // Tracking Positions
+  async createTrackingPositions(positions: InsertTrackingPosition[]): Promise<TrackingPosition[]> {
+    if (positions.length === 0) return [];
+    return this.db.insert(trackingPositions).values(positions).returning();
+  }
+
+  async getTrackingPositions(subjectType: TrackingSubjectType, subjectId: string, since?: Date): Promise<TrackingPosition[]> {
+    const conditions = [
+      eq(trackingPositions.subjectType, subjectType),
+      eq(trackingPositions.subjectId, subjectId),
+    ];
+    if (since) {
+      conditions.push(gte(trackingPositions.recordedAt, since));
+    }
+    return this.db.select().from(trackingPositions)
+      .where(and(...conditions))
+      .orderBy(trackingPositions.recordedAt);
+  }
+
+  async getLatestTrackingPosition(subjectType: TrackingSubjectType, subjectId: string): Promise<TrackingPosition | undefined> {
+    const [position] = await this.db.select().from(trackingPositions)
+      .where(and(eq(trackingPositions.subjectType, subjectType), eq(trackingPositions.subjectId, subjectId)))
+      .orderBy(desc(trackingPositions.recordedAt))
+      .limit(1);
+    return position;
+  }
+
+  // What a driver is carrying right now: a transport on the road first, then a collect
+  async getActiveTrackingSubjectForDriver(driverId: string): Promise<{ subjectType: TrackingSubjectType; subjectId: string } | undefined> {
+    const [transport] = await this.db.select({ id: transports.id }).from(transports)
+      .where(and(eq(transports.driverId, driverId), inArray(transports.status, ["em_transito", "aguardando_saida"])))
+      .orderBy(desc(transports.transitStartedAt))
+      .limit(1);
+    if (transport) return { subjectType: "transport", subjectId: transport.id };
+
+    const [collect] = await this.db.select({ id: collects.id }).from(collects)
+      .where(and(eq(collects.driverId, driverId), eq(collects.status, "em_transito")))
+      .orderBy(desc(collects.checkinDateTime))
+      .limit(1);
+    if (collect) return { subjectType: "collect", subjectId: collect.id };
+
+    return undefined;
+  }
+
+  // Trackers
+  async getTrackers(): Promise<Tracker[]> {
+    return this.db.select().from(trackers).orderBy(trackers.imei);
+  }
+
+  async getTracker(id: string): Promise<Tracker | undefined> {
+    const [tracker] = await this.db.select().from(trackers).where(eq(trackers.id, id));
+    return tracker;
+  }
+
+  async getTrackerByImei(imei: string): Promise<Tracker | undefined> {
+    const [tracker] = await this.db.select().from(trackers).where(eq(trackers.imei, imei));
+    return tracker;
+  }
+
+  async createTracker(tracker: InsertTracker): Promise<Tracker> {
+    const [created] = await this.db.insert(trackers).values(tracker).returning();
+    await recordAuditEvent(this.db, "tracker", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateTracker(id: string, data: Partial<InsertTracker>): Promise<Tracker | undefined> {
+    const [before] = await this.db.select().from(trackers).where(eq(trackers.id, id));
+    const [updated] = await this.db.update(trackers).set(data).where(eq(trackers.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "tracker", id, "update", before, updated);
+    return updated;
+  }
+
+  // Called for every frame a device sends, so it is deliberately left out of the audit trail
+  async recordTrackerFix(id: string, fix: { latitude: string; longitude: string; recordedAt: Date }): Promise<void> {
+    await this.db.update(trackers)
+      .set({ lastSeenAt: fix.recordedAt, lastLatitude: fix.latitude, lastLongitude: fix.longitude })
+      .where(eq(trackers.id, id));
+  }
+
+  async deleteTracker(id: string): Promise<void> {
+    const [deleted] = await this.db.delete(trackers).where(eq(trackers.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "tracker", id, "delete", deleted, null);
+  }
+
+  // Damage Records
+  async getDamageRecords(filters: { vehicleChassi?: string; stage?: DamageStage; collectId?: string; transportId?: string } = {}): Promise<DamageRecord[]> {
+    const conditions = [];
+    if (filters.vehicleChassi) conditions.push(eq(damageRecords.vehicleChassi, filters.vehicleChassi));
+    if (filters.stage) conditions.push(eq(damageRecords.stage, filters.stage));
+    if (filters.collectId) conditions.push(eq(damageRecords.collectId, filters.collectId));
+    if (filters.transportId) conditions.push(eq(damageRecords.transportId, filters.transportId));
+
+    return this.db.select().from(damageRecords)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(damageRecords.inspectedAt);
+  }
+
+  async getDamageRecord(id: string): Promise<DamageRecord | undefined> {
+    const [record] = await this.db.select().from(damageRecords).where(eq(damageRecords.id, id));
+    return record;
+  }
+
+  async createDamageRecord(record: InsertDamageRecord & { recordedByUserId?: string | null }): Promise<DamageRecord> {
+    const [created] = await this.db.insert(damageRecords).values(record).returning();
+    await recordAuditEvent(this.db, "damage_record", created.id, "create", null, created);
+    return created;
+  }
+
+  async deleteDamageRecord(id: string): Promise<void> {
+    const [deleted] = await this.db.delete(damageRecords).where(eq(damageRecords.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "damage_record", id, "delete", deleted, null);
+  }
+
+  // Damage Claims
+  async getDamageClaims(filters: { status?: DamageClaim["status"]; liableDriverId?: string; vehicleChassi?: string; settlementId?: string } = {}): Promise<DamageClaim[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(damageClaims.status, filters.status));
+    if (filters.liableDriverId) conditions.push(eq(damageClaims.liableDriverId, filters.liableDriverId));
+    if (filters.vehicleChassi) conditions.push(eq(damageClaims.vehicleChassi, filters.vehicleChassi));
+    if (filters.settlementId) conditions.push(eq(damageClaims.settlementId, filters.settlementId));
+
+    return this.db.select().from(damageClaims)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(damageClaims.createdAt));
+  }
+
+  async getDamageClaim(id: string): Promise<DamageClaim | undefined> {
+    const [claim] = await this.db.select().from(damageClaims).where(eq(damageClaims.id, id));
+    return claim;
+  }
+
+  async getDamageClaimForUpdate(id: string): Promise<DamageClaim | undefined> {
+    const [claim] = await this.db.select().from(damageClaims).where(eq(damageClaims.id, id)).for("update");
+    return claim;
+  }
+
+  // Approved driver-liable claims that have not landed on any settlement yet
+  async getPendingDriverDeductions(driverId: string): Promise<DamageClaim[]> {
+    return this.db.select().from(damageClaims)
+      .where(and(
+        eq(damageClaims.liableParty, "motorista"),
+        eq(damageClaims.liableDriverId, driverId),
+        inArray(damageClaims.status, ["aprovada", "em_reparo", "encerrada"]),
+        sql`${damageClaims.settlementId} is null`,
+      ))
+      .orderBy(damageClaims.approvedAt);
+  }
+
+  async createDamageClaim(claim: InsertDamageClaim & { openedByUserId?: string | null }): Promise<DamageClaim> {
+    const claimNumber = await this.getNextClaimNumber();
+    const [created] = await this.db.insert(damageClaims).values({ ...claim, claimNumber }).returning();
+    await recordAuditEvent(this.db, "damage_claim", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateDamageClaim(id: string, data: Partial<DamageClaim>): Promise<DamageClaim | undefined> {
+    const [before] = await this.db.select().from(damageClaims).where(eq(damageClaims.id, id));
+    const [updated] = await this.db.update(damageClaims).set(data).where(eq(damageClaims.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "damage_claim", id, "update", before, updated);
+    return updated;
+  }
+
+  async deleteDamageClaim(id: string): Promise<void> {
+    const [deleted] = await this.db.delete(damageClaims).where(eq(damageClaims.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "damage_claim", id, "delete", deleted, null);
+  }
+
+  private async getNextClaimNumber(): Promise<string> {
+    const [counter] = await this.db
+      .insert(requestCounter)
+      .values({ id: "damage_claim_counter", lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: requestCounter.id,
+        set: { lastNumber: sql`${requestCounter.lastNumber} + 1` },
+      })
+      .returning();
+    return `AV${String(counter?.lastNumber || 1).padStart(5, "0")}`;
+  }
+
+  async getDamageClaimEvidence(claimId: string): Promise<DamageClaimEvidence[]> {
+    return this.db.select().from(damageClaimEvidence)
+      .where(eq(damageClaimEvidence.claimId, claimId))
+      .orderBy(damageClaimEvidence.createdAt);
+  }
+
+  async createDamageClaimEvidence(claimId: string, evidence: InsertDamageClaimEvidence): Promise<DamageClaimEvidence> {
+    const [created] = await this.db.insert(damageClaimEvidence).values({ ...evidence, claimId }).returning();
+    return created;
+  }
+
+  async deleteDamageClaimEvidence(id: string): Promise<void> {
+    await this.db.delete(damageClaimEvidence).where(eq(damageClaimEvidence.id, id));
+  }
+
+  async getDamageClaimQuotes(claimId: string): Promise<DamageClaimQuote[]> {
+    return this.db.select().from(damageClaimQuotes)
+      .where(eq(damageClaimQuotes.claimId, claimId))
+      .orderBy(damageClaimQuotes.createdAt);
+  }
+
+  async getDamageClaimQuote(id: string): Promise<DamageClaimQuote | undefined> {
+    const [quote] = await this.db.select().from(damageClaimQuotes).where(eq(damageClaimQuotes.id, id));
+    return quote;
+  }
+
+  async createDamageClaimQuote(claimId: string, quote: InsertDamageClaimQuote): Promise<DamageClaimQuote> {
+    const [created] = await this.db.insert(damageClaimQuotes).values({ ...quote, claimId }).returning();
+    return created;
+  }
+
+  async updateDamageClaimQuote(id: string, data: Partial<DamageClaimQuote>): Promise<DamageClaimQuote | undefined> {
+    const [updated] = await this.db.update(damageClaimQuotes).set(data).where(eq(damageClaimQuotes.id, id)).returning();
+    return updated;
+  }
+
+  async deleteDamageClaimQuote(id: string): Promise<void> {
+    await this.db.delete(damageClaimQuotes).where(eq(damageClaimQuotes.id, id));
+  }
+
+  // Geofence Exceptions
+  async getGeofenceExceptions(filters: { subjectType?: GeofenceSubjectType; subjectId?: string; vehicleChassi?: string; since?: Date } = {}): Promise<GeofenceException[]> {
+    const conditions = [];
+    if (filters.subjectType) conditions.push(eq(geofenceExceptions.subjectType, filters.subjectType));
+    if (filters.subjectId) conditions.push(eq(geofenceExceptions.subjectId, filters.subjectId));
+    if (filters.vehicleChassi) conditions.push(eq(geofenceExceptions.vehicleChassi, filters.vehicleChassi));
+    if (filters.since) conditions.push(gte(geofenceExceptions.createdAt, filters.since));
+
+    return this.db.select().from(geofenceExceptions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(geofenceExceptions.createdAt));
+  }
+
+  async createGeofenceException(exception: InsertGeofenceException): Promise<GeofenceException> {
+    const [created] = await this.db.insert(geofenceExceptions).values(exception).returning();
+    await recordAuditEvent(this.db, "geofence_exception", created.id, "create", null, created);
+    return created;
+  }
+
+  // Clearing a check-in/out also withdraws the exceptions it raised
+  async deleteGeofenceExceptions(subjectType: GeofenceSubjectType, subjectId: string, event: GeofenceInspectionEvent): Promise<void> {
+    const deleted = await this.db.delete(geofenceExceptions).where(and(
+      eq(geofenceExceptions.subjectType, subjectType),
+      eq(geofenceExceptions.subjectId, subjectId),
+      eq(geofenceExceptions.event, event),
+    )).returning();
+    for (const exception of deleted) {
+      await recordAuditEvent(this.db, "geofence_exception", exception.id, "delete", exception, null);
+    }
+  }
+
+  // Driver Ledger
+  async getDriverLedgerEntries(driverId: string, filters: { from?: Date; to?: Date } = {}): Promise<DriverLedgerEntry[]> {
+    const conditions = [eq(driverLedgerEntries.driverId, driverId)];
+    if (filters.from) conditions.push(gte(driverLedgerEntries.occurredAt, filters.from));
+    if (filters.to) conditions.push(lt(driverLedgerEntries.occurredAt, filters.to));
+    return this.db.select().from(driverLedgerEntries)
+      .where(and(...conditions))
+      .orderBy(driverLedgerEntries.occurredAt, driverLedgerEntries.createdAt);
+  }
+
+  async getDriverLedgerEntry(id: string): Promise<DriverLedgerEntry | undefined> {
+    const [entry] = await this.db.select().from(driverLedgerEntries).where(eq(driverLedgerEntries.id, id));
+    return entry;
+  }
+
+  async getDriverLedgerBalance(driverId: string, before?: Date): Promise<number> {
+    const [row] = await this.db
+      .select({ balance: sql<string>`coalesce(sum(${driverLedgerEntries.amount}), 0)` })
+      .from(driverLedgerEntries)
+      .where(and(
+        eq(driverLedgerEntries.driverId, driverId),
+        before ? lt(driverLedgerEntries.occurredAt, before) : undefined,
+      ));
+    return parseFloat(row?.balance ?? "0");
+  }
+
+  async getDriverLedgerBalances(): Promise<{ driverId: string; balance: number }[]> {
+    const rows = await this.db
+      .select({ driverId: driverLedgerEntries.driverId, balance: sql<string>`sum(${driverLedgerEntries.amount})` })
+      .from(driverLedgerEntries)
+      .groupBy(driverLedgerEntries.driverId);
+    return rows.map((r) => ({ driverId: r.driverId, balance: parseFloat(r.balance) }));
+  }
+
+  async createDriverLedgerEntry(entry: InsertDriverLedgerEntry): Promise<DriverLedgerEntry> {
+    const [created] = await this.db.insert(driverLedgerEntries).values(entry).returning();
+    await recordAuditEvent(this.db, "driver_ledger_entry", created.id, "create", null, created);
+    return created;
+  }
+
+  // Automatic postings: re-posting the same source updates the amount but keeps the original date
+  async upsertDriverLedgerEntryBySource(entry: InsertDriverLedgerEntry & { sourceKey: string }): Promise<DriverLedgerEntry> {
+    const [before] = await this.db.select().from(driverLedgerEntries).where(eq(driverLedgerEntries.sourceKey, entry.sourceKey));
+    const [saved] = await this.db
+      .insert(driverLedgerEntries)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: driverLedgerEntries.sourceKey,
+        set: { amount: entry.amount, description: entry.description },
+      })
+      .returning();
+    if (!before || before.amount !== saved.amount || before.description !== saved.description) {
+      await recordAuditEvent(this.db, "driver_ledger_entry", saved.id, before ? "update" : "create", before ?? null, saved);
+    }
+    return saved;
+  }
+
+  async deleteDriverLedgerEntry(id: string): Promise<void> {
+    const [deleted] = await this.db.delete(driverLedgerEntries).where(eq(driverLedgerEntries.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "driver_ledger_entry", id, "delete", deleted, null);
+  }
+
+  async deleteDriverLedgerEntryBySource(sourceKey: string): Promise<void> {
+    const [deleted] = await this.db.delete(driverLedgerEntries).where(eq(driverLedgerEntries.sourceKey, sourceKey)).returning();
+    if (deleted) await recordAuditEvent(this.db, "driver_ledger_entry", deleted.id, "delete", deleted, null);
+  }
+
+  // Driver Payment Batches
+  async getDriverPaymentBatches(): Promise<DriverPaymentBatch[]> {
+    return this.db.select().from(driverPaymentBatches).orderBy(desc(driverPaymentBatches.createdAt));
+  }
+
+  async getDriverPaymentBatch(id: string): Promise<DriverPaymentBatch | undefined> {
+    const [batch] = await this.db.select().from(driverPaymentBatches).where(eq(driverPaymentBatches.id, id));
+    return batch;
+  }
+
+  async getDriverPaymentBatchEntries(batchId: string): Promise<DriverLedgerEntry[]> {
+    return this.db.select().from(driverLedgerEntries).where(eq(driverLedgerEntries.paymentBatchId, batchId));
+  }
+
+  async createDriverPaymentBatch(batch: InsertDriverPaymentBatch): Promise<DriverPaymentBatch> {
+    const [created] = await this.db.insert(driverPaymentBatches).values(batch).returning();
+    await recordAuditEvent(this.db, "driver_payment_batch", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateDriverPaymentBatch(id: string, batch: Partial<InsertDriverPaymentBatch>): Promise<DriverPaymentBatch | undefined> {
+    const [before] = await this.db.select().from(driverPaymentBatches).where(eq(driverPaymentBatches.id, id));
+    const [updated] = await this.db.update(driverPaymentBatches).set(batch).where(eq(driverPaymentBatches.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "driver_payment_batch", id, "update", before, updated);
+    return updated;
+  }
+
+  async deleteDriverPaymentBatch(id: string): Promise<void> {
+    // The batch's payment entries go with it
+    const deletedEntries = await this.db.delete(driverLedgerEntries).where(eq(driverLedgerEntries.paymentBatchId, id)).returning();
+    for (const entry of deletedEntries) {
+      await recordAuditEvent(this.db, "driver_ledger_entry", entry.id, "delete", entry, null);
+    }
+    const [deleted] = await this.db.delete(driverPaymentBatches).where(eq(driverPaymentBatches.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "driver_payment_batch", id, "delete", deleted, null);
+  }
+
+  // Driver Payroll
+  async getPayrollRuns(): Promise<PayrollRun[]> {
+    return this.db.select().from(payrollRuns).orderBy(desc(payrollRuns.periodStart), desc(payrollRuns.createdAt));
+  }
+
+  async getPayrollRun(id: string): Promise<PayrollRun | undefined> {
+    const [run] = await this.db.select().from(payrollRuns).where(eq(payrollRuns.id, id));
+    return run;
+  }
+
+  async createPayrollRun(run: InsertPayrollRun): Promise<PayrollRun> {
+    const [created] = await this.db.insert(payrollRuns).values(run).returning();
+    await recordAuditEvent(this.db, "payroll_run", created.id, "create", null, created);
+    return created;
+  }
+
+  async updatePayrollRun(id: string, run: Partial<InsertPayrollRun>): Promise<PayrollRun | undefined> {
+    const [before] = await this.db.select().from(payrollRuns).where(eq(payrollRuns.id, id));
+    const [updated] = await this.db.update(payrollRuns)
+      .set({ ...run, updatedAt: new Date() })
+      .where(eq(payrollRuns.id, id))
+      .returning();
+    if (updated) await recordAuditEvent(this.db, "payroll_run", id, "update", before, updated);
+    return updated;
+  }
+
+  async deletePayrollRun(id: string): Promise<void> {
+    const [deleted] = await this.db.delete(payrollRuns).where(eq(payrollRuns.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "payroll_run", id, "delete", deleted, null);
+  }
+
+  async getPayrollStatements(runId: string): Promise<PayrollStatement[]> {
+    return this.db.select().from(payrollStatements)
+      .where(eq(payrollStatements.runId, runId))
+      .orderBy(desc(payrollStatements.netAmount));
+  }
+
+  // Statements are a snapshot of the calculation, so recalculating replaces them all
+  async replacePayrollStatements(runId: string, statements: InsertPayrollStatement[]): Promise<PayrollStatement[]> {
+    await this.db.delete(payrollStatements).where(eq(payrollStatements.runId, runId));
+    if (statements.length === 0) return [];
+    return this.db.insert(payrollStatements).values(statements).returning();
   }
+
+  async getActiveRoutes(): Promise<Route[]> {
+    return this.db.select().from(routes).where(eq(routes.isActive, "true")).orderBy(desc(routes.updatedAt));
+  }
+
+  // Transport CT-e
+  async getTransportCte(transportId: string): Promise<TransportCte | undefined> {
+    const [cte] = await this.db.select().from(transportCtes).where(eq(transportCtes.transportId, transportId));
+    return cte;
+  }
+
+  async createTransportCte(cte: InsertTransportCte): Promise<TransportCte> {
+    const [created] = await this.db.insert(transportCtes).values(cte).returning();
+    await recordAuditEvent(this.db, "transport_cte", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateTransportCte(id: string, cte: Partial<InsertTransportCte>): Promise<TransportCte | undefined> {
+    const [before] = await this.db.select().from(transportCtes).where(eq(transportCtes.id, id));
+    const [updated] = await this.db.update(transportCtes)
+      .set({ ...cte, updatedAt: new Date() })
+      .where(eq(transportCtes.id, id))
+      .returning();
+    if (updated) await recordAuditEvent(this.db, "transport_cte", id, "update", before, updated);
+    return updated;
+  }
+
+  // nCT is sequential per series, so each series keeps its own counter
+  async getNextCteNumber(series: number): Promise<number> {
+    const result = await this.db
+      .insert(requestCounter)
+      .values({ id: `cte_counter_${series}`, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: requestCounter.id,
+        set: { lastNumber: sql`${requestCounter.lastNumber} + 1` },
+      })
+      .returning();
+    return result[0]?.lastNumber || 1;
+  }
+
+  async getFreightQuote(id: string): Promise<FreightQuote | undefined> {
+    const [quote] = await this.db.select().from(freightQuotes).where(eq(freightQuotes.id, id));
+    return quote;
+  }
+
+  // Fleet
+  async getFleetUnits(): Promise<FleetUnit[]> {
+    return this.db.select().from(fleetUnits).orderBy(fleetUnits.unitType, fleetUnits.plate);
+  }
+
+  async getFleetUnit(id: string): Promise<FleetUnit | undefined> {
+    const [unit] = await this.db.select().from(fleetUnits).where(eq(fleetUnits.id, id));
+    return unit;
+  }
+
+  async createFleetUnit(unit: InsertFleetUnit): Promise<FleetUnit> {
+    const [created] = await this.db.insert(fleetUnits).values(unit).returning();
+    await recordAuditEvent(this.db, "fleet_unit", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateFleetUnit(id: string, unit: Partial<InsertFleetUnit>): Promise<FleetUnit | undefined> {
+    const [before] = await this.db.select().from(fleetUnits).where(eq(fleetUnits.id, id));
+    const [updated] = await this.db.update(fleetUnits).set(unit).where(eq(fleetUnits.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "fleet_unit", id, "update", before, updated);
+    return updated;
+  }
+
+  async deleteFleetUnit(id: string): Promise<void> {
+    const [deleted] = await this.db.delete(fleetUnits).where(eq(fleetUnits.id, id)).returning();
+    if (deleted) await recordAuditEvent(this.db, "fleet_unit", id, "delete", deleted, null);
+  }
+
+  async getFleetJobs(statuses: { transport: TransportStatus[]; collect: CollectStatus[]; transfer: TransferStatus[] }): Promise<FleetJob[]> {
+    const [transportRows, collectRows, transferRows] = await Promise.all([
+      this.db.select().from(transports).where(inArray(transports.status, statuses.transport)).orderBy(desc(transports.createdAt)),
+      this.db.select().from(collects).where(inArray(collects.status, statuses.collect)).orderBy(desc(collects.createdAt)),
+      this.db.select().from(transfers).where(inArray(transfers.status, statuses.transfer)).orderBy(desc(transfers.createdAt)),
+    ]);
+    return [
+      ...transportRows.map((t) => fleetJobFrom("transport", t, t.requestNumber, t.driverId)),
+      ...collectRows.map((c) => fleetJobFrom("collect", c, c.vehicleChassi, c.driverId)),
+      ...transferRows.map((t) => fleetJobFrom("transfer", t, t.vehicleChassi, null)),
+    ];
+  }
+
+  async getFleetJob(entity: FleetJobEntity, id: string): Promise<FleetJob | undefined> {
+    if (entity === "transport") {
+      const transport = await this.getTransport(id);
+      return transport && fleetJobFrom("transport", transport, transport.requestNumber, transport.driverId);
+    }
+    if (entity === "collect") {
+      const collect = await this.getCollect(id);
+      return collect && fleetJobFrom("collect", collect, collect.vehicleChassi, collect.driverId);
+    }
+    const transfer = await this.getTransfer(id);
+    return transfer && fleetJobFrom("transfer", transfer, transfer.vehicleChassi, null);
+  }
+
+  // Assignment columns are left out of the insert schemas, so they are only written here
+  async assignFleetUnits(entity: FleetJobEntity, id: string, assignment: FleetAssignment): Promise<FleetJob | undefined> {
+    const table = entity === "transport" ? transports : entity === "collect" ? collects : transfers;
+    const [before] = await this.db.select().from(table).where(eq(table.id, id));
+    const [updated] = await this.db.update(table).set(assignment).where(eq(table.id, id)).returning();
+    if (!updated) return undefined;
+    await recordAuditEvent(this.db, entity, id, "update", before, updated);
+    return this.getFleetJob(entity, id);
+  }
+
+  async countFleetUnitJobs(unitId: string): Promise<number> {
+    const counts = await Promise.all([transports, collects, transfers].map(async (table) => {
+      const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(table)
+        .where(or(eq(table.tractorId, unitId), eq(table.trailerId, unitId)));
+      return row?.count ?? 0;
+    }));
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  // Trips
+  async getTrips(): Promise<Trip[]> {
+    return this.db.select().from(trips).orderBy(desc(trips.createdAt));
+  }
+
+  async getTrip(id: string): Promise<Trip | undefined> {
+    const [trip] = await this.db.select().from(trips).where(eq(trips.id, id));
+    return trip;
+  }
+
+  async getTripForUpdate(id: string): Promise<Trip | undefined> {
+    const [trip] = await this.db.select().from(trips).where(eq(trips.id, id)).for("update");
+    return trip;
+  }
+
+  async createTrip(trip: Omit<InsertTrip, "tripNumber">): Promise<Trip> {
+    const tripNumber = await this.getNextTripNumber();
+    const [created] = await this.db.insert(trips).values({ ...trip, tripNumber }).returning();
+    await recordAuditEvent(this.db, "trip", created.id, "create", null, created);
+    return created;
+  }
+
+  async updateTrip(id: string, trip: Partial<InsertTrip>): Promise<Trip | undefined> {
+    const [before] = await this.db.select().from(trips).where(eq(trips.id, id));
+    const [updated] = await this.db.update(trips).set(trip).where(eq(trips.id, id)).returning();
+    if (updated) await recordAuditEvent(this.db, "trip", id, "update", before, updated);
+    return updated;
+  }
+
+  async getNextTripNumber(): Promise<string> {
+    const result = await this.db
+      .insert(requestCounter)
+      .values({ id: "trip_counter", lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: requestCounter.id,
+        set: { lastNumber: sql`${requestCounter.lastNumber} + 1` },
+      })
+      .returning();
+
+    const num = result[0]?.lastNumber || 1;
+    return `VG${String(num).padStart(5, "0")}`;
+  }
+
+  async getTripTransports(tripId: string): Promise<Transport[]> {
+    return this.db.select().from(transports).where(eq(transports.tripId, tripId)).orderBy(transports.tripStopOrder);
+  }
+
+  async getTripCollects(tripId: string): Promise<Collect[]> {
+    return this.db.select().from(collects).where(eq(collects.tripId, tripId)).orderBy(collects.createdAt);
+  }
+
+  // Trip membership is left out of the insert schemas, so it is only written here
+  async setTransportTrip(transportId: string, tripId: string | null, stopOrder: number | null): Promise<Transport | undefined> {
+    const [before] = await this.db.select().from(transports).where(eq(transports.id, transportId));
+    const [updated] = await this.db.update(transports).set({ tripId, tripStopOrder: stopOrder }).where(eq(transports.id, transportId)).returning();
+    if (updated) await recordAuditEvent(this.db, "transport", transportId, "update", before, updated);
+    return updated;
+  }
+
+  async setCollectTrip(collectId: string, tripId: string | null): Promise<Collect | undefined> {
+    const [before] = await this.db.select().from(collects).where(eq(collects.id, collectId));
+    const [updated] = await this.db.update(collects).set({ tripId }).where(eq(collects.id, collectId)).returning();
+    if (updated) await recordAuditEvent(this.db, "collect", collectId, "update", before, updated);
+    return updated;
+  }
+
+  async getExpenseSettlementByTrip(tripId: string): Promise<ExpenseSettlement | undefined> {
+    const [settlement] = await this.db.select().from(expenseSettlements).where(eq(expenseSettlements.tripId, tripId));
+    return settlement;
+  }
+}
+
+function fleetJobFrom(
+  entity: FleetJobEntity,
+  row: { id: string; vehicleChassi: string; status: string; tractorId: string | null; trailerId: string | null; tripId?: string | null },
+  reference: string,
+  driverId: string | null,
+): FleetJob {
+  return {
+    entity,
+    id: row.id,
+    reference,
+    vehicleChassi: row.vehicleChassi,
+    status: row.status,
+    driverId,
+    tractorId: row.tractorId,
+    trailerId: row.trailerId,
+    tripId: row.tripId ?? null,
+  };
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,46 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ObjectStorageService } from "./replit_integrations/object_storage";
+
+export const objectStorageService = new ObjectStorageService();
+export const uploadsDir = path.join(process.cwd(), "uploads");
+
+// Photos and signatures are object storage paths, local uploads or (for signatures) data URLs
+export async function readStoredFile(ref: string): Promise<Buffer | null> {
+  try {
+    const dataUrl = /^data:[^;]+;base64,(.*)$/.exec(ref);
+    if (dataUrl) return Buffer.from(dataUrl[1], "base64");
+
+    const objectPath = ref.replace(/^\/api\/object-storage(?=\/objects\/)/, "");
+    if (objectPath.startsWith("/objects/")) {
+      const file = await objectStorageService.getObjectEntityFile(objectPath);
+      const [contents] = await file.download();
+      return contents;
+    }
+    if (objectPath.startsWith("/uploads/")) {
+      return await fs.promises.readFile(path.join(uploadsDir, path.basename(objectPath)));
+    }
+    if (/^https?:\/\//.test(objectPath)) {
+      const response = await fetch(objectPath);
+      return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+    }
+  } catch (error) {
+    console.error(`Failed to read stored file ${ref}:`, error);
+  }
+  return null;
+}
+
+// Removes a file stored by the server (object storage or local uploads); failures are only logged
+export async function deleteStoredFile(ref: string): Promise<void> {
+  try {
+    const objectPath = ref.replace(/^\/api\/object-storage(?=\/objects\/)/, "");
+    if (objectPath.startsWith("/objects/")) {
+      const file = await objectStorageService.getObjectEntityFile(objectPath);
+      await file.delete();
+    } else if (objectPath.startsWith("/uploads/")) {
+      await fs.promises.unlink(path.join(uploadsDir, path.basename(objectPath)));
+    }
+  } catch (error) {
+    console.error(`Failed to delete stored file ${ref}:`, error);
+  }
+}
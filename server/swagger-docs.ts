@@ -3,7 +3,7 @@
  * /auth/register:
  *   post:
  *     summary: Registrar novo usuário
- *     description: Cria um novo usuário no sistema com username e senha
+ *     description: Cria um novo usuário no sistema com username e senha. O usuário é criado com o perfil visualizador; apenas um administrador pode alterar o perfil.
  *     tags: [Autenticação]
  *     requestBody:
  *       required: true
@@ -39,11 +39,6 @@
  *                 type: string
  *                 description: Sobrenome do usuário
  *                 example: "Silva"
- *               role:
- *                 type: string
- *                 enum: [admin, operador, visualizador, motorista, portaria]
- *                 description: Função do usuário no sistema
- *                 example: "operador"
  *     responses:
  *       201:
  *         description: Usuário criado com sucesso
@@ -200,6 +195,47 @@
  *                   example: "Logout realizado com sucesso"
  */
 
+/**
+ * @swagger
+ * /auth/users/{id}/role:
+ *   patch:
+ *     summary: Alterar perfil de um usuário
+ *     description: Define o perfil (role) de um usuário. Apenas administradores.
+ *     tags: [Autenticação]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, operador, visualizador, motorista, portaria]
+ *                 example: "operador"
+ *     responses:
+ *       200:
+ *         description: Usuário com o novo perfil
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       403:
+ *         description: Apenas administradores podem alterar perfis
+ *       404:
+ *         description: Usuário não encontrado
+ */
+
 /**
  * @swagger
  * /auth/me:
@@ -422,3 +458,156 @@
  *       404:
  *         description: Coleta não encontrada
  */
+
+/**
+ * @swagger
+ * /tracking/positions:
+ *   post:
+ *     summary: Enviar posições GPS
+ *     description: |
+ *       Recebe um lote de posições do aplicativo do motorista ou de um rastreador.
+ *       Cada posição é vinculada a um transporte, coleta ou transferência existente.
+ *       Lotes com até 500 posições; pontos gravados offline podem ser enviados depois com o `recordedAt` original.
+ *     tags: [Rastreamento]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [positions]
+ *             properties:
+ *               positions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [subjectType, subjectId, latitude, longitude, recordedAt]
+ *                   properties:
+ *                     subjectType:
+ *                       type: string
+ *                       enum: [transport, collect, transfer]
+ *                     subjectId:
+ *                       type: string
+ *                     latitude:
+ *                       type: number
+ *                       example: -23.5505
+ *                     longitude:
+ *                       type: number
+ *                       example: -46.6333
+ *                     recordedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     speedKmh:
+ *                       type: number
+ *                     heading:
+ *                       type: integer
+ *                       minimum: 0
+ *                       maximum: 359
+ *                     accuracyMeters:
+ *                       type: number
+ *                     source:
+ *                       type: string
+ *                       enum: [driver_app, tracker]
+ *                     deviceId:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Posições gravadas
+ *       400:
+ *         description: Lote inválido
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Sem permissão de escrita no tipo de registro
+ *       404:
+ *         description: Transporte, coleta ou transferência não encontrado
+ */
+
+/**
+ * @swagger
+ * /tracking/{subjectType}/{subjectId}/positions:
+ *   get:
+ *     summary: Histórico de posições (trilha)
+ *     description: Retorna as posições registradas em ordem cronológica
+ *     tags: [Rastreamento]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: subjectType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [transport, collect, transfer]
+ *       - in: path
+ *         name: subjectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Retorna apenas posições a partir desta data
+ *     responses:
+ *       200:
+ *         description: Lista de posições
+ *       401:
+ *         description: Não autenticado
+ */
+
+/**
+ * @swagger
+ * /trackers/webhook:
+ *   post:
+ *     summary: Receber posições de rastreadores (webhook)
+ *     description: |
+ *       Entrada para plataformas de rastreamento e equipamentos com envio HTTP.
+ *       Aceita um objeto, um array ou `{ positions: [...] }`. Os aliases `lat`/`lng`/`lon`,
+ *       `timestamp`/`fixTime` (ISO ou epoch) e `speed`/`course` também são aceitos.
+ *       As posições são vinculadas ao transporte ou coleta em andamento do motorista do rastreador.
+ *       Autenticado pelo cabeçalho `x-tracker-token` (variável `TRACKER_WEBHOOK_TOKEN`).
+ *     tags: [Rastreamento]
+ *     parameters:
+ *       - in: header
+ *         name: x-tracker-token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [imei, latitude, longitude]
+ *             properties:
+ *               imei:
+ *                 type: string
+ *                 example: "359710040000001"
+ *               latitude:
+ *                 type: number
+ *                 example: -23.5505
+ *               longitude:
+ *                 type: number
+ *                 example: -46.6333
+ *               recordedAt:
+ *                 type: string
+ *                 format: date-time
+ *               speedKmh:
+ *                 type: number
+ *               heading:
+ *                 type: integer
+ *     responses:
+ *       202:
+ *         description: Posições processadas (`received`, `stored`, `unknownImeis`)
+ *       400:
+ *         description: Payload inválido
+ *       401:
+ *         description: Token inválido
+ *       503:
+ *         description: Webhook não configurado
+ */
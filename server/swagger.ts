@@ -329,6 +329,10 @@ const options: swaggerJsdoc.Options = {
         name: "Coletas",
         description: "Operações de coleta de veículos",
       },
+      {
+        name: "Rastreamento",
+        description: "Posições GPS enviadas pelo app do motorista e rastreadores",
+      },
     ],
   },
   apis: ["./server/swagger-docs.ts"],
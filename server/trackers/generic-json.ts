@@ -0,0 +1,74 @@
+import { z } from "zod";
+import type { TrackerPositionEvent } from "./types";
+
+// Generic JSON webhook: a single object, an array, or { positions: [...] }.
+// Field names vary between platforms, so the common aliases are accepted.
+
+const numeric = z.union([z.number(), z.string().regex(/^-?\d+(\.\d+)?$/).transform(Number)]);
+
+const timestamp = z.union([
+  // Epoch seconds or milliseconds
+  z.number().transform((value) => new Date(value < 1e12 ? value * 1000 : value)),
+  z.string().transform((value) => new Date(value)),
+]);
+
+const genericPositionSchema = z.object({
+  imei: z.union([z.string(), z.number()]).optional(),
+  deviceId: z.union([z.string(), z.number()]).optional(),
+  latitude: numeric.optional(),
+  lat: numeric.optional(),
+  longitude: numeric.optional(),
+  lng: numeric.optional(),
+  lon: numeric.optional(),
+  timestamp: timestamp.optional(),
+  recordedAt: timestamp.optional(),
+  fixTime: timestamp.optional(),
+  speed: numeric.optional(),
+  speedKmh: numeric.optional(),
+  heading: numeric.optional(),
+  course: numeric.optional(),
+});
+
+export class InvalidTrackerPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTrackerPayloadError";
+    Object.setPrototypeOf(this, InvalidTrackerPayloadError.prototype);
+  }
+}
+
+export function parseGenericJsonPayload(body: unknown): TrackerPositionEvent[] {
+  const items = Array.isArray(body)
+    ? body
+    : body && typeof body === "object" && Array.isArray((body as { positions?: unknown }).positions)
+      ? (body as { positions: unknown[] }).positions
+      : [body];
+
+  return items.map((item, index) => {
+    const parsed = genericPositionSchema.safeParse(item);
+    if (!parsed.success) {
+      throw new InvalidTrackerPayloadError(`Posição ${index}: ${parsed.error.errors[0]?.message ?? "formato inválido"}`);
+    }
+    const p = parsed.data;
+    const imei = p.imei ?? p.deviceId;
+    const latitude = p.latitude ?? p.lat;
+    const longitude = p.longitude ?? p.lng ?? p.lon;
+    const recordedAt = p.recordedAt ?? p.timestamp ?? p.fixTime ?? new Date();
+
+    if (imei === undefined || latitude === undefined || longitude === undefined) {
+      throw new InvalidTrackerPayloadError(`Posição ${index}: imei, latitude e longitude são obrigatórios`);
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || isNaN(recordedAt.getTime())) {
+      throw new InvalidTrackerPayloadError(`Posição ${index}: coordenadas ou data inválidas`);
+    }
+
+    return {
+      imei: String(imei),
+      latitude,
+      longitude,
+      recordedAt,
+      speedKmh: p.speedKmh ?? p.speed ?? null,
+      heading: p.heading ?? p.course ?? null,
+    };
+  });
+}
@@ -0,0 +1,155 @@
+import type { StreamProtocolAdapter, StreamProtocolSession, TrackerPositionEvent } from "./types";
+
+// Concox GT06 binary protocol (also spoken by most Chinese clones).
+// Frame: 0x78 0x78 | length | protocol | content | serial(2) | crc(2) | 0x0D 0x0A
+// where length counts protocol + content + serial + crc.
+
+const START = 0x78;
+const PROTOCOL_LOGIN = 0x01;
+const PROTOCOL_LOCATION = 0x12;
+const PROTOCOL_HEARTBEAT = 0x13;
+const PROTOCOL_LOCATION_GT06N = 0x22;
+
+// CRC-ITU (CRC-16/X-25) over length..serial
+export function crcItu(data: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of Array.from(data)) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+  return ~crc & 0xffff;
+}
+
+function buildFrame(protocol: number, content: Buffer, serial: number): Buffer {
+  const body = Buffer.alloc(1 + 1 + content.length + 2);
+  body[0] = 1 + content.length + 2 + 2;
+  body[1] = protocol;
+  content.copy(body, 2);
+  body.writeUInt16BE(serial & 0xffff, 2 + content.length);
+
+  const frame = Buffer.alloc(2 + body.length + 2 + 2);
+  frame[0] = START;
+  frame[1] = START;
+  body.copy(frame, 2);
+  frame.writeUInt16BE(crcItu(body), 2 + body.length);
+  frame[frame.length - 2] = 0x0d;
+  frame[frame.length - 1] = 0x0a;
+  return frame;
+}
+
+function decodeImei(terminalId: Buffer): string {
+  return terminalId.toString("hex").replace(/^0+/, "");
+}
+
+function decodeLocation(imei: string, content: Buffer): TrackerPositionEvent | null {
+  if (content.length < 18) return null;
+
+  const recordedAt = new Date(Date.UTC(
+    2000 + content[0], content[1] - 1, content[2], content[3], content[4], content[5],
+  ));
+  const rawLat = content.readUInt32BE(7);
+  const rawLng = content.readUInt32BE(11);
+  const speedKmh = content[15];
+  const courseStatus = content.readUInt16BE(16);
+
+  const positioned = (courseStatus & 0x1000) !== 0;
+  if (!positioned) return null;
+
+  const north = (courseStatus & 0x0400) !== 0;
+  const west = (courseStatus & 0x0800) !== 0;
+  const latitude = (rawLat / 1800000) * (north ? 1 : -1);
+  const longitude = (rawLng / 1800000) * (west ? -1 : 1);
+
+  return {
+    imei,
+    latitude,
+    longitude,
+    recordedAt,
+    speedKmh,
+    heading: courseStatus & 0x03ff,
+  };
+}
+
+class Gt06Session implements StreamProtocolSession {
+  private buffer = Buffer.alloc(0);
+  private imei: string | null = null;
+
+  decode(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const events: TrackerPositionEvent[] = [];
+    const replies: Buffer[] = [];
+
+    while (this.buffer.length >= 5) {
+      if (this.buffer[0] !== START || this.buffer[1] !== START) {
+        // Resynchronize on the next start marker
+        const next = this.buffer.indexOf(Buffer.from([START, START]), 1);
+        this.buffer = next === -1 ? Buffer.alloc(0) : this.buffer.subarray(next);
+        continue;
+      }
+
+      const length = this.buffer[2];
+      const frameLength = 2 + 1 + length + 2;
+      if (this.buffer.length < frameLength) break;
+
+      const frame = this.buffer.subarray(0, frameLength);
+      this.buffer = this.buffer.subarray(frameLength);
+
+      const body = frame.subarray(2, 2 + 1 + length - 2);
+      if (crcItu(body) !== frame.readUInt16BE(2 + 1 + length - 2)) continue;
+
+      const protocol = frame[3];
+      const content = frame.subarray(4, 2 + 1 + length - 4);
+      const serial = frame.readUInt16BE(2 + 1 + length - 4);
+
+      if (protocol === PROTOCOL_LOGIN) {
+        this.imei = decodeImei(content.subarray(0, 8));
+        replies.push(buildFrame(PROTOCOL_LOGIN, Buffer.alloc(0), serial));
+      } else if (protocol === PROTOCOL_HEARTBEAT) {
+        replies.push(buildFrame(PROTOCOL_HEARTBEAT, Buffer.alloc(0), serial));
+      } else if ((protocol === PROTOCOL_LOCATION || protocol === PROTOCOL_LOCATION_GT06N) && this.imei) {
+        const event = decodeLocation(this.imei, content);
+        if (event) events.push(event);
+      }
+    }
+
+    return { events, replies };
+  }
+}
+
+export const gt06Adapter: StreamProtocolAdapter = {
+  vendor: "gt06",
+  label: "GT06 (Concox)",
+  detect: (firstChunk) => firstChunk.length >= 2 && firstChunk[0] === START && firstChunk[1] === START,
+  createSession: () => new Gt06Session(),
+};
+
+// Encoders used by the simulator to produce device traffic
+
+export function encodeGt06Login(imei: string, serial: number): Buffer {
+  return buildFrame(PROTOCOL_LOGIN, Buffer.from(imei.padStart(16, "0"), "hex"), serial);
+}
+
+export function encodeGt06Location(event: Omit<TrackerPositionEvent, "imei">, serial: number): Buffer {
+  const content = Buffer.alloc(18);
+  const date = event.recordedAt;
+  content[0] = date.getUTCFullYear() - 2000;
+  content[1] = date.getUTCMonth() + 1;
+  content[2] = date.getUTCDate();
+  content[3] = date.getUTCHours();
+  content[4] = date.getUTCMinutes();
+  content[5] = date.getUTCSeconds();
+  content[6] = 0xc8; // GPS info: 12 bytes of data, 8 satellites
+  content.writeUInt32BE(Math.round(Math.abs(event.latitude) * 1800000), 7);
+  content.writeUInt32BE(Math.round(Math.abs(event.longitude) * 1800000), 11);
+  content[15] = Math.min(255, Math.round(event.speedKmh ?? 0));
+
+  let courseStatus = (event.heading ?? 0) & 0x03ff;
+  courseStatus |= 0x1000; // positioned
+  if (event.latitude >= 0) courseStatus |= 0x0400;
+  if (event.longitude < 0) courseStatus |= 0x0800;
+  content.writeUInt16BE(courseStatus, 16);
+
+  return buildFrame(PROTOCOL_LOCATION, content, serial);
+}
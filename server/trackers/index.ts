@@ -0,0 +1,70 @@
+import { storage } from "../storage";
+import { ingestPositions } from "../tracking";
+import { gt06Adapter } from "./gt06";
+import { suntechAdapter } from "./suntech";
+import type { StreamProtocolAdapter, TrackerPositionEvent } from "./types";
+
+export type { TrackerPositionEvent } from "./types";
+export { parseGenericJsonPayload, InvalidTrackerPayloadError } from "./generic-json";
+
+// Raw TCP protocols, tried in order against the first bytes of each connection
+export const streamAdapters: StreamProtocolAdapter[] = [gt06Adapter, suntechAdapter];
+
+export function detectStreamAdapter(firstChunk: Buffer): StreamProtocolAdapter | undefined {
+  return streamAdapters.find((adapter) => adapter.detect(firstChunk));
+}
+
+export interface TrackerIngestResult {
+  received: number;
+  stored: number;
+  unknownImeis: string[];
+}
+
+// Normalised fixes from any adapter end up here. Each fix updates the tracker's last known
+// position; it is also stored as a tracking point when the linked driver is on a transport or collect.
+export async function ingestTrackerEvents(events: TrackerPositionEvent[]): Promise<TrackerIngestResult> {
+  const byImei = new Map<string, TrackerPositionEvent[]>();
+  for (const event of events) {
+    const list = byImei.get(event.imei) ?? [];
+    list.push(event);
+    byImei.set(event.imei, list);
+  }
+
+  const result: TrackerIngestResult = { received: events.length, stored: 0, unknownImeis: [] };
+
+  for (const [imei, fixes] of Array.from(byImei.entries())) {
+    const tracker = await storage.getTrackerByImei(imei);
+    if (!tracker || tracker.isActive !== "true") {
+      result.unknownImeis.push(imei);
+      continue;
+    }
+
+    fixes.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    const latest = fixes[fixes.length - 1];
+    await storage.recordTrackerFix(tracker.id, {
+      latitude: String(latest.latitude),
+      longitude: String(latest.longitude),
+      recordedAt: latest.recordedAt,
+    });
+
+    if (!tracker.driverId) continue;
+    const subject = await storage.getActiveTrackingSubjectForDriver(tracker.driverId);
+    if (!subject) continue;
+
+    const stored = await ingestPositions(
+      fixes.map((fix) => ({
+        subjectType: subject.subjectType,
+        subjectId: subject.subjectId,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        speedKmh: fix.speedKmh ?? undefined,
+        heading: fix.heading ?? undefined,
+        recordedAt: fix.recordedAt,
+      })),
+      { source: "tracker", deviceId: imei },
+    );
+    result.stored += stored.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,80 @@
+import type { StreamProtocolAdapter, StreamProtocolSession, TrackerPositionEvent } from "./types";
+
+// Suntech ASCII protocol (ST300/ST340 family). One report per line, fields separated by ";":
+// ST300STT;DEV_ID;MODEL;SW_VER;YYYYMMDD;HH:MM:SS;CELL;LAT;LON;SPD;CRS;SATT;FIX;...
+// Times are UTC. Keep-alives (ST300ALV) and other report types carry no position and are ignored.
+
+const HEADER_PATTERN = /^[A-Z]{2}\d{3}[A-Z]{3};/;
+const STATUS_REPORT = /^[A-Z]{2}\d{3}STT$/;
+
+export function parseSuntechLine(line: string): TrackerPositionEvent | null {
+  const fields = line.trim().split(";");
+  if (fields.length < 13 || !STATUS_REPORT.test(fields[0])) return null;
+
+  const [, deviceId, , , date, time, , lat, lon, speed, course, , fix] = fields;
+  if (fix !== "1") return null;
+
+  const dateMatch = /^(\d{4})(\d{2})(\d{2})$/.exec(date);
+  const timeMatch = /^(\d{2}):(\d{2}):(\d{2})$/.exec(time);
+  if (!dateMatch || !timeMatch) return null;
+
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lon);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+  return {
+    imei: deviceId,
+    latitude,
+    longitude,
+    recordedAt: new Date(Date.UTC(
+      Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]),
+      Number(timeMatch[1]), Number(timeMatch[2]), Number(timeMatch[3]),
+    )),
+    speedKmh: parseFloat(speed) || 0,
+    heading: Math.round(parseFloat(course) || 0),
+  };
+}
+
+class SuntechSession implements StreamProtocolSession {
+  private pending = "";
+
+  decode(chunk: Buffer) {
+    this.pending += chunk.toString("ascii");
+    const lines = this.pending.split(/\r\n|\r|\n/);
+    this.pending = lines.pop() ?? "";
+
+    const events = lines
+      .map(parseSuntechLine)
+      .filter((event): event is TrackerPositionEvent => event !== null);
+    return { events, replies: [] };
+  }
+}
+
+export const suntechAdapter: StreamProtocolAdapter = {
+  vendor: "suntech",
+  label: "Suntech (ASCII)",
+  detect: (firstChunk) => HEADER_PATTERN.test(firstChunk.toString("ascii", 0, Math.min(firstChunk.length, 16))),
+  createSession: () => new SuntechSession(),
+};
+
+// Used by the simulator
+export function formatSuntechStatus(deviceId: string, event: Omit<TrackerPositionEvent, "imei">): string {
+  const iso = event.recordedAt.toISOString();
+  const date = iso.slice(0, 10).replace(/-/g, "");
+  const time = iso.slice(11, 19);
+  return [
+    "ST300STT",
+    deviceId,
+    "04",
+    "1097B",
+    date,
+    time,
+    "0",
+    event.latitude.toFixed(6),
+    event.longitude.toFixed(6),
+    (event.speedKmh ?? 0).toFixed(3),
+    (event.heading ?? 0).toFixed(2),
+    "8",
+    "1",
+  ].join(";") + "\r";
+}
@@ -0,0 +1,46 @@
+import net from "net";
+import { detectStreamAdapter, ingestTrackerEvents } from "./index";
+import type { StreamProtocolSession } from "./types";
+
+// Devices that send nothing for this long are disconnected (GT06 heartbeats every ~3 min)
+const SOCKET_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function startTrackerTcpServer(port: number): net.Server {
+  const server = net.createServer((socket) => {
+    let session: StreamProtocolSession | null = null;
+    const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+
+    socket.setTimeout(SOCKET_IDLE_TIMEOUT_MS, () => socket.destroy());
+
+    socket.on("data", (chunk) => {
+      if (!session) {
+        const adapter = detectStreamAdapter(chunk);
+        if (!adapter) {
+          console.warn(`Unrecognized tracker protocol from ${peer}`);
+          socket.destroy();
+          return;
+        }
+        session = adapter.createSession();
+      }
+
+      const { events, replies } = session.decode(chunk);
+      for (const reply of replies) {
+        socket.write(reply);
+      }
+      if (events.length > 0) {
+        ingestTrackerEvents(events).catch((error) => {
+          console.error("Error ingesting tracker events:", error);
+        });
+      }
+    });
+
+    socket.on("error", (error) => {
+      console.error(`Tracker connection ${peer} failed:`, error.message);
+    });
+  });
+
+  server.listen(port, "0.0.0.0", () => {
+    console.log(`Tracker TCP listener on port ${port}`);
+  });
+  return server;
+}
@@ -0,0 +1,30 @@
+import type { TrackerVendor } from "@shared/schema";
+
+// Vendor-neutral position fix produced by every adapter
+export interface TrackerPositionEvent {
+  imei: string;
+  latitude: number;
+  longitude: number;
+  recordedAt: Date;
+  speedKmh?: number | null;
+  heading?: number | null;
+}
+
+export interface StreamDecodeResult {
+  events: TrackerPositionEvent[];
+  // Bytes the device expects back (login/heartbeat acknowledgements)
+  replies: Buffer[];
+}
+
+// One per TCP connection: keeps partial frames and whatever the device told us at login
+export interface StreamProtocolSession {
+  decode(chunk: Buffer): StreamDecodeResult;
+}
+
+export interface StreamProtocolAdapter {
+  vendor: TrackerVendor;
+  label: string;
+  // Looks at the first bytes of a connection to decide whether this adapter speaks the protocol
+  detect(firstChunk: Buffer): boolean;
+  createSession(): StreamProtocolSession;
+}
@@ -0,0 +1,175 @@
+import { storage } from "./storage";
+import { detectCheckpointArrivals } from "./geofence";
+import { publishEvent } from "./realtime";
+import type {
+  FeatureKey,
+  TrackingPosition,
+  TrackingPositionInput,
+  TrackingSubjectType,
+} from "@shared/schema";
+
+export const trackingSubjectFeatures: Record<TrackingSubjectType, FeatureKey> = {
+  transport: "transportes",
+  collect: "coletas",
+  transfer: "transferencias",
+};
+
+// Trails sent to the map are thinned to this many points; the full history stays in the database
+const MAX_TRAIL_POINTS = 300;
+
+export class UnknownTrackingSubjectError extends Error {
+  readonly subjects: string[];
+
+  constructor(subjects: string[]) {
+    super(`Tracking subject not found: ${subjects.join(", ")}`);
+    this.name = "UnknownTrackingSubjectError";
+    this.subjects = subjects;
+    Object.setPrototypeOf(this, UnknownTrackingSubjectError.prototype);
+  }
+}
+
+export class ForeignTrackingSubjectError extends Error {
+  readonly subjects: string[];
+
+  constructor(subjects: string[]) {
+    super(`Tracking subject assigned to another driver: ${subjects.join(", ")}`);
+    this.name = "ForeignTrackingSubjectError";
+    this.subjects = subjects;
+    Object.setPrototypeOf(this, ForeignTrackingSubjectError.prototype);
+  }
+}
+
+export interface LiveTrackingEntry {
+  subjectType: TrackingSubjectType;
+  subjectId: string;
+  lastPosition: TrackingPosition;
+  trail: Array<{ lat: number; lng: number; recordedAt: Date }>;
+}
+
+async function getSubjectDriverId(subjectType: TrackingSubjectType, subjectId: string): Promise<string | null | undefined> {
+  switch (subjectType) {
+    case "transport": {
+      const transport = await storage.getTransport(subjectId);
+      return transport ? transport.driverId : undefined;
+    }
+    case "collect": {
+      const collect = await storage.getCollect(subjectId);
+      return collect ? collect.driverId : undefined;
+    }
+    case "transfer": {
+      // Transfers are yard-to-yard moves with no driver on record
+      const transfer = await storage.getTransfer(subjectId);
+      return transfer ? null : undefined;
+    }
+  }
+}
+
+export function subjectKey(subjectType: TrackingSubjectType, subjectId: string): string {
+  return `${subjectType}:${subjectId}`;
+}
+
+// Stores a batch of points; every referenced transport/collect/transfer must exist. With `ownDriverId`
+// (a driver posting from the app) every subject must also be assigned to that driver.
+export async function ingestPositions(
+  inputs: TrackingPositionInput[],
+  defaults: { source?: "driver_app" | "tracker"; deviceId?: string | null } = {},
+  ownDriverId?: string,
+): Promise<TrackingPosition[]> {
+  const subjects = new Map<string, { subjectType: TrackingSubjectType; subjectId: string }>();
+  for (const input of inputs) {
+    subjects.set(subjectKey(input.subjectType, input.subjectId), input);
+  }
+
+  const driverIds = new Map<string, string | null>();
+  const missing: string[] = [];
+  for (const [key, subject] of Array.from(subjects.entries())) {
+    const driverId = await getSubjectDriverId(subject.subjectType, subject.subjectId);
+    if (driverId === undefined) {
+      missing.push(key);
+    } else {
+      driverIds.set(key, driverId);
+    }
+  }
+  if (missing.length > 0) {
+    throw new UnknownTrackingSubjectError(missing);
+  }
+  if (ownDriverId !== undefined) {
+    const foreign = Array.from(driverIds.entries())
+      .filter(([, driverId]) => driverId !== ownDriverId)
+      .map(([key]) => key);
+    if (foreign.length > 0) {
+      throw new ForeignTrackingSubjectError(foreign);
+    }
+  }
+
+  const stored = await storage.createTrackingPositions(inputs.map((input) => ({
+    subjectType: input.subjectType,
+    subjectId: input.subjectId,
+    driverId: driverIds.get(subjectKey(input.subjectType, input.subjectId)) ?? null,
+    source: input.source ?? defaults.source ?? "driver_app",
+    deviceId: input.deviceId ?? defaults.deviceId ?? null,
+    latitude: String(input.latitude),
+    longitude: String(input.longitude),
+    speedKmh: input.speedKmh == null ? null : input.speedKmh.toFixed(2),
+    heading: input.heading ?? null,
+    accuracyMeters: input.accuracyMeters == null ? null : input.accuracyMeters.toFixed(2),
+    recordedAt: input.recordedAt,
+  })));
+
+  for (const subject of Array.from(subjects.values())) {
+    publishEvent({ type: "tracking.updated", subjectType: subject.subjectType, subjectId: subject.subjectId });
+  }
+
+  // The points are already saved; a geofence failure must not make the device resend them
+  try {
+    await detectCheckpointArrivals(stored);
+  } catch (error) {
+    console.error("Error detecting checkpoint arrivals:", error);
+  }
+
+  return stored;
+}
+
+function thinTrail(positions: TrackingPosition[]): LiveTrackingEntry["trail"] {
+  const step = Math.max(1, Math.ceil(positions.length / MAX_TRAIL_POINTS));
+  const points = positions.filter((_, index) => index % step === 0 || index === positions.length - 1);
+  return points.map((p) => ({
+    lat: parseFloat(p.latitude),
+    lng: parseFloat(p.longitude),
+    recordedAt: p.recordedAt,
+  }));
+}
+
+// Last known position plus travelled path for everything currently on the road
+export async function getLiveTracking(): Promise<LiveTrackingEntry[]> {
+  const [transports, collects, transfers] = await Promise.all([
+    storage.getTransports(),
+    storage.getCollects(),
+    storage.getTransfers(),
+  ]);
+
+  const active: Array<{ subjectType: TrackingSubjectType; subjectId: string; since: Date | null }> = [
+    ...transports
+      .filter((t) => t.status === "em_transito" || t.status === "aguardando_saida")
+      .map((t) => ({ subjectType: "transport" as const, subjectId: t.id, since: t.checkinDateTime ?? t.transitStartedAt })),
+    ...collects
+      .filter((c) => c.status === "em_transito")
+      .map((c) => ({ subjectType: "collect" as const, subjectId: c.id, since: c.checkinDateTime })),
+    ...transfers
+      .filter((t) => t.status === "em_transito")
+      .map((t) => ({ subjectType: "transfer" as const, subjectId: t.id, since: t.authorizedAt })),
+  ];
+
+  const entries: LiveTrackingEntry[] = [];
+  for (const subject of active) {
+    const positions = await storage.getTrackingPositions(subject.subjectType, subject.subjectId, subject.since ?? undefined);
+    if (positions.length === 0) continue;
+    entries.push({
+      subjectType: subject.subjectType,
+      subjectId: subject.subjectId,
+      lastPosition: positions[positions.length - 1],
+      trail: thinTrail(positions),
+    });
+  }
+  return entries;
+}
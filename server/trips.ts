@@ -0,0 +1,173 @@
+import { storage, type IStorage } from "./storage";
+import { LifecycleError } from "./lifecycle";
+import { checkFleetPair } from "./fleet";
+import { publishEvent } from "./realtime";
+import type { Collect, Transport, Trip, TripData, TripDetail, TripStops } from "@shared/schema";
+
+// Trips (viagens): the load of one car carrier. Several transports (plus collects brought back on the
+// return leg) share a driver, a tractor + trailer, one route and one expense settlement. They are planned
+// here while the trip is "planejada"; the portaria exit and the deliveries that close the trip are in
+// lifecycle.ts.
+
+const LOADABLE_TRANSPORT_STATUSES: Transport["status"][] = ["pendente", "aguardando_saida"];
+const LOADABLE_COLLECT_STATUSES: Collect["status"][] = ["em_transito"];
+
+async function withMembers(tx: IStorage, trip: Trip): Promise<TripDetail> {
+  const [transports, collects] = await Promise.all([tx.getTripTransports(trip.id), tx.getTripCollects(trip.id)]);
+  return { ...trip, transports, collects };
+}
+
+async function lockPlannedTrip(tx: IStorage, id: string): Promise<Trip> {
+  const trip = await tx.getTripForUpdate(id);
+  if (!trip) throw new LifecycleError(404, "Viagem não encontrada");
+  if (trip.status !== "planejada") {
+    throw new LifecycleError(409, `Viagem ${trip.tripNumber} já saiu ou foi encerrada; a carga não pode mudar`);
+  }
+  return trip;
+}
+
+function assertNoDuplicates(ids: string[], label: string): void {
+  if (new Set(ids).size !== ids.length) throw new LifecycleError(400, `${label} repetido na viagem`);
+}
+
+// Loads the listed transports (in delivery order) and collects, releasing members that were left out
+async function loadStops(tx: IStorage, trip: Trip, stops: TripStops): Promise<void> {
+  assertNoDuplicates(stops.transportIds, "Transporte");
+  assertNoDuplicates(stops.collectIds, "Coleta");
+
+  const [currentTransports, currentCollects] = await Promise.all([tx.getTripTransports(trip.id), tx.getTripCollects(trip.id)]);
+  for (const transport of currentTransports.filter((t) => !stops.transportIds.includes(t.id))) {
+    await tx.setTransportTrip(transport.id, null, null);
+    await tx.assignFleetUnits("transport", transport.id, { tractorId: null, trailerId: null });
+  }
+  for (const collect of currentCollects.filter((c) => !stops.collectIds.includes(c.id))) {
+    await tx.setCollectTrip(collect.id, null);
+    await tx.assignFleetUnits("collect", collect.id, { tractorId: null, trailerId: null });
+  }
+
+  for (let index = 0; index < stops.transportIds.length; index++) {
+    const id = stops.transportIds[index];
+    const transport = await tx.getTransportForUpdate(id);
+    if (!transport) throw new LifecycleError(400, "Transporte não encontrado");
+    if (transport.tripId && transport.tripId !== trip.id) {
+      throw new LifecycleError(409, `Transporte ${transport.requestNumber} já está em outra viagem`);
+    }
+    if (!LOADABLE_TRANSPORT_STATUSES.includes(transport.status)) {
+      throw new LifecycleError(409, `Transporte ${transport.requestNumber} não está aguardando saída do pátio`);
+    }
+    if (transport.originYardId !== trip.originYardId) {
+      throw new LifecycleError(400, `Transporte ${transport.requestNumber} sai de outro pátio`);
+    }
+    if (transport.tripId !== trip.id || transport.tripStopOrder !== index + 1) {
+      await tx.setTransportTrip(id, trip.id, index + 1);
+    }
+  }
+
+  for (const id of stops.collectIds) {
+    const collect = await tx.getCollectForUpdate(id);
+    if (!collect) throw new LifecycleError(400, "Coleta não encontrada");
+    if (collect.tripId && collect.tripId !== trip.id) {
+      throw new LifecycleError(409, `Coleta ${collect.vehicleChassi} já está em outra viagem`);
+    }
+    if (!LOADABLE_COLLECT_STATUSES.includes(collect.status)) {
+      throw new LifecycleError(409, `Coleta ${collect.vehicleChassi} já chegou ao pátio`);
+    }
+    if (collect.tripId !== trip.id) await tx.setCollectTrip(id, trip.id);
+  }
+}
+
+// Every member rides with the trip's driver and tractor + trailer; the trailer must fit the whole load
+async function applyCrew(tx: IStorage, trip: Trip, userId: string | null): Promise<void> {
+  if (trip.driverId && !(await tx.getDriver(trip.driverId))) {
+    throw new LifecycleError(400, "Motorista não encontrado");
+  }
+  const { transports, collects } = await withMembers(tx, trip);
+  const pair = { tractorId: trip.tractorId, trailerId: trip.trailerId };
+  if (pair.tractorId || pair.trailerId) {
+    await checkFleetPair(tx, pair, (job) => job.tripId === trip.id, transports.length + collects.length);
+  }
+
+  for (const transport of transports) {
+    if (trip.driverId && transport.driverId !== trip.driverId) {
+      await tx.updateTransport(transport.id, {
+        driverId: trip.driverId,
+        driverAssignedByUserId: userId,
+        driverAssignedAt: new Date(),
+      });
+    }
+    if (transport.tractorId !== pair.tractorId || transport.trailerId !== pair.trailerId) {
+      await tx.assignFleetUnits("transport", transport.id, pair);
+    }
+  }
+  for (const collect of collects) {
+    if (trip.driverId && collect.driverId !== trip.driverId) {
+      await tx.updateCollect(collect.id, { driverId: trip.driverId });
+    }
+    if (collect.tractorId !== pair.tractorId || collect.trailerId !== pair.trailerId) {
+      await tx.assignFleetUnits("collect", collect.id, pair);
+    }
+  }
+}
+
+export async function getTrips(): Promise<TripDetail[]> {
+  const trips = await storage.getTrips();
+  return Promise.all(trips.map((trip) => withMembers(storage, trip)));
+}
+
+export async function getTrip(id: string): Promise<TripDetail | undefined> {
+  const trip = await storage.getTrip(id);
+  return trip && withMembers(storage, trip);
+}
+
+export async function createTrip(data: TripData, stops: TripStops, userId: string | null): Promise<TripDetail> {
+  return storage.transaction(async (tx) => {
+    if (!(await tx.getYard(data.originYardId))) throw new LifecycleError(400, "Pátio de origem não encontrado");
+    const trip = await tx.createTrip({ ...data, createdByUserId: userId });
+    await loadStops(tx, trip, stops);
+    await applyCrew(tx, trip, userId);
+    return withMembers(tx, trip);
+  });
+}
+
+// The load (`stops`, when given, replaces it in the new delivery order), driver, tractor + trailer and
+// origin are fixed once the trip leaves; route figures and notes can still be corrected until it ends.
+// Everything is checked together, so swapping the trailer and the load in one edit works.
+export async function updateTrip(id: string, data: Partial<TripData>, stops: TripStops | null, userId: string | null): Promise<TripDetail> {
+  return storage.transaction(async (tx) => {
+    const trip = await tx.getTripForUpdate(id);
+    if (!trip) throw new LifecycleError(404, "Viagem não encontrada");
+    if (trip.status === "concluida" || trip.status === "cancelada") {
+      throw new LifecycleError(409, `Viagem ${trip.tripNumber} encerrada não pode ser alterada`);
+    }
+    if (stops && trip.status !== "planejada") {
+      throw new LifecycleError(409, `Viagem ${trip.tripNumber} já saiu; a carga não pode mudar`);
+    }
+    if (trip.status !== "planejada") {
+      const crewChanged = (["originYardId", "driverId", "tractorId", "trailerId"] as const)
+        .some((field) => data[field] !== undefined && data[field] !== trip[field]);
+      if (crewChanged) {
+        throw new LifecycleError(409, "Motorista, conjunto e pátio de origem só mudam antes da saída");
+      }
+    }
+    if (data.originYardId && data.originYardId !== trip.originYardId && (await tx.getTripTransports(id)).length > 0) {
+      throw new LifecycleError(409, "O pátio de origem não muda depois da carga montada; cancele e monte outra viagem");
+    }
+
+    const updated = (await tx.updateTrip(id, data))!;
+    if (stops) await loadStops(tx, updated, stops);
+    if (updated.status === "planejada") await applyCrew(tx, updated, userId);
+    return withMembers(tx, updated);
+  });
+}
+
+// Members go back to being planned one by one; they keep the driver but leave the carrier
+export async function cancelTrip(id: string): Promise<TripDetail> {
+  const detail = await storage.transaction(async (tx) => {
+    const trip = await lockPlannedTrip(tx, id);
+    await loadStops(tx, trip, { transportIds: [], collectIds: [] });
+    const updated = (await tx.updateTrip(id, { status: "cancelada" }))!;
+    return withMembers(tx, updated);
+  });
+  publishEvent({ type: "trip.status_changed", tripId: detail.id, status: detail.status });
+  return detail;
+}
@@ -0,0 +1,50 @@
+import type { FeatureKey, FleetJobEntity, TrackingSubjectType, TripStatus } from "./schema";
+import type { CollectStatus, TransferStatus, TransportStatus } from "./state-machine";
+
+// Domain events pushed to connected browsers over /api/realtime.
+// Payloads carry ids and the new status only; screens refetch the details they need.
+export type RealtimeEvent =
+  | { type: "collect.created"; collectId: string; status: CollectStatus }
+  | { type: "collect.status_changed"; collectId: string; status: CollectStatus }
+  | { type: "transport.created"; transportId: string; status: TransportStatus }
+  | { type: "transport.status_changed"; transportId: string; status: TransportStatus }
+  | { type: "transfer.status_changed"; transferId: string; status: TransferStatus }
+  | { type: "settlement.submitted"; settlementId: string; transportId: string }
+  | { type: "settlement.reviewed"; settlementId: string; transportId: string; status: string }
+  | { type: "checkpoint.reached"; transportId: string; transportCheckpointId: string; checkpointId: string; source: "geofence" | "manual" }
+  | { type: "checkpoint.completed"; transportId: string; transportCheckpointId: string; checkpointId: string; source: "geofence" | "manual" }
+  | { type: "tracking.updated"; subjectType: TrackingSubjectType; subjectId: string }
+  | { type: "dispatch.offers_changed"; transportId: string }
+  | { type: "fleet.assignment_changed"; entity: FleetJobEntity; jobId: string }
+  | { type: "trip.status_changed"; tripId: string; status: TripStatus };
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+// What arrives on the socket
+export interface RealtimeMessage {
+  event: RealtimeEvent;
+  at: string;
+}
+
+// A user only receives events of features their role can read
+export const realtimeEventFeatures: Record<RealtimeEventType, FeatureKey> = {
+  "collect.created": "coletas",
+  "collect.status_changed": "coletas",
+  "transport.created": "transportes",
+  "transport.status_changed": "transportes",
+  "transfer.status_changed": "transferencias",
+  "settlement.submitted": "prestacao-de-contas",
+  "settlement.reviewed": "prestacao-de-contas",
+  "checkpoint.reached": "timeline-checkpoints",
+  "checkpoint.completed": "timeline-checkpoints",
+  "tracking.updated": "trafego-agora",
+  "dispatch.offers_changed": "localizar-motorista",
+  "fleet.assignment_changed": "frota",
+  "trip.status_changed": "transportes",
+};
+
+export const REALTIME_PATH = "/api/realtime";
+
+// Close code sent when the session behind a socket ends (token expired, user deactivated or role changed);
+// the client refreshes its token before reconnecting
+export const REALTIME_SESSION_CLOSE_CODE = 4001;
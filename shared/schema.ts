@@ -1,7 +1,8 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, date, integer, pgEnum, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, date, integer, pgEnum, numeric, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { UserRole } from "./models/auth";
 
 // Re-export auth models
 export * from "./models/auth";
@@ -52,9 +53,16 @@ export const driverModalityEnum = pgEnum("driver_modality", [
 export const driverNotificationStatusEnum = pgEnum("driver_notification_status", [
   "pendente",
   "aceito",
-  "recusado"
+  "recusado",
+  "expirado",
+  "cancelado"
 ]);
 
+// Check-in/out fora do raio do local: apenas sinalizar como exceção ou bloquear a operação
+export const geofenceEnforcementModes = ["sinalizar", "bloquear"] as const;
+export type GeofenceEnforcement = typeof geofenceEnforcementModes[number];
+export const geofenceEnforcementEnum = pgEnum("geofence_enforcement", geofenceEnforcementModes);
+
 // Brazilian states
 export const brazilianStates = [
   "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA",
@@ -122,6 +130,7 @@ export type Driver = typeof drivers.$inferSelect;
 export const manufacturers = pgTable("manufacturers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
+  cnpj: varchar("cnpj", { length: 20 }),
   cep: varchar("cep", { length: 10 }),
   address: text("address"),
   addressNumber: varchar("address_number", { length: 20 }),
@@ -131,6 +140,9 @@ export const manufacturers = pgTable("manufacturers", {
   state: varchar("state", { length: 2 }),
   latitude: text("latitude"),
   longitude: text("longitude"),
+  // Tolerância para coordenadas de check-in/out registradas neste local
+  geofenceRadiusMeters: integer("geofence_radius_meters").default(500).notNull(),
+  geofenceEnforcement: geofenceEnforcementEnum("geofence_enforcement").default("sinalizar").notNull(),
   phone: varchar("phone", { length: 20 }),
   email: varchar("email", { length: 255 }),
   contactName: text("contact_name"),
@@ -149,6 +161,8 @@ export const insertManufacturerSchema = createInsertSchema(manufacturers).omit({
 }).extend({
   name: z.string().min(2, "Nome é obrigatório"),
   state: z.enum(brazilianStates).optional(),
+  geofenceRadiusMeters: z.coerce.number().int().min(50).max(20000).optional(),
+  geofenceEnforcement: z.enum(geofenceEnforcementModes).optional(),
 });
 
 export type InsertManufacturer = z.infer<typeof insertManufacturerSchema>;
@@ -167,6 +181,9 @@ export const yards = pgTable("yards", {
   state: varchar("state", { length: 2 }),
   latitude: text("latitude"),
   longitude: text("longitude"),
+  // Tolerância para coordenadas de check-in/out registradas neste local
+  geofenceRadiusMeters: integer("geofence_radius_meters").default(500).notNull(),
+  geofenceEnforcement: geofenceEnforcementEnum("geofence_enforcement").default("sinalizar").notNull(),
   phone: varchar("phone", { length: 20 }),
   maxVehicles: integer("max_vehicles"),
   isActive: text("is_active").default("true"),
@@ -186,6 +203,8 @@ export const insertYardSchema = createInsertSchema(yards).omit({
 }).extend({
   name: z.string().min(2, "Nome é obrigatório"),
   state: z.enum(brazilianStates).optional().or(z.literal("")).transform(val => val === "" ? undefined : val),
+  geofenceRadiusMeters: z.coerce.number().int().min(50).max(20000).optional(),
+  geofenceEnforcement: z.enum(geofenceEnforcementModes).optional(),
 });
 
 export type InsertYard = z.infer<typeof insertYardSchema>;
@@ -248,6 +267,9 @@ export const deliveryLocations = pgTable("delivery_locations", {
   country: varchar("country", { length: 50 }).default("Brasil"),
   latitude: text("latitude"),
   longitude: text("longitude"),
+  // Tolerância para coordenadas de check-in/out registradas neste local
+  geofenceRadiusMeters: integer("geofence_radius_meters").default(500).notNull(),
+  geofenceEnforcement: geofenceEnforcementEnum("geofence_enforcement").default("sinalizar").notNull(),
   responsibleName: text("responsible_name"),
   responsiblePhone: varchar("responsible_phone", { length: 20 }),
   emails: text("emails").array(),
@@ -280,6 +302,8 @@ export const insertDeliveryLocationSchema = createInsertSchema(deliveryLocations
   responsibleName: z.string().min(2, "Nome do responsável é obrigatório"),
   responsiblePhone: z.string().optional(),
   emails: z.array(z.string().email("Email inválido")).min(1, "Pelo menos um email é obrigatório"),
+  geofenceRadiusMeters: z.coerce.number().int().min(50).max(20000).optional(),
+  geofenceEnforcement: z.enum(geofenceEnforcementModes).optional(),
 });
 
 export type InsertDeliveryLocation = z.infer<typeof insertDeliveryLocationSchema>;
@@ -322,7 +346,7 @@ export const insertVehicleSchema = createInsertSchema(vehicles).omit({
   createdAt: true,
 }).extend({
   chassi: z.string().min(17, "Chassi deve ter no mínimo 17 caracteres").max(50),
-  status: z.enum(["pre_estoque", "em_estoque", "despachado", "entregue", "retirado"]).optional(),
+  status: z.enum(vehicleStatusEnum.enumValues).optional(),
 });
 
 export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
@@ -335,6 +359,11 @@ export const collects = pgTable("collects", {
   manufacturerId: varchar("manufacturer_id").notNull().references(() => manufacturers.id),
   yardId: varchar("yard_id").notNull().references(() => yards.id),
   driverId: varchar("driver_id").references(() => drivers.id),
+  // Conjunto cavalo + carreta que fez a coleta (atribuído pela frota)
+  tractorId: varchar("tractor_id").references(() => fleetUnits.id),
+  trailerId: varchar("trailer_id").references(() => fleetUnits.id),
+  // Viagem da cegonha que trouxe o veículo (coleta no retorno)
+  tripId: varchar("trip_id").references(() => trips.id),
   status: collectStatusEnum("status").default("em_transito").notNull(),
   collectDate: timestamp("collect_date"),
   notes: text("notes"),
@@ -390,6 +419,9 @@ export const collectsRelations = relations(collects, ({ one }) => ({
 export const insertCollectSchema = createInsertSchema(collects).omit({
   id: true,
   createdAt: true,
+  tractorId: true,
+  trailerId: true,
+  tripId: true,
 }).extend({
   vehicleChassi: z.string().min(17, "Chassi deve ter no mínimo 17 caracteres"),
   manufacturerId: z.string().min(1, "Montadora é obrigatória"),
@@ -431,6 +463,12 @@ export const transports = pgTable("transports", {
   originYardId: varchar("origin_yard_id").notNull().references(() => yards.id),
   deliveryLocationId: varchar("delivery_location_id").notNull().references(() => deliveryLocations.id),
   driverId: varchar("driver_id").references(() => drivers.id),
+  // Conjunto cavalo + carreta que levou o veículo (atribuído pela frota)
+  tractorId: varchar("tractor_id").references(() => fleetUnits.id),
+  trailerId: varchar("trailer_id").references(() => fleetUnits.id),
+  // Viagem que agrupa a carga da cegonha e a ordem desta entrega no roteiro
+  tripId: varchar("trip_id").references(() => trips.id),
+  tripStopOrder: integer("trip_stop_order"),
   status: transportStatusEnum("status").default("pendente").notNull(),
   deliveryDate: date("delivery_date"),
   notes: text("notes"),
@@ -466,6 +504,12 @@ export const transports = pgTable("transports", {
   checkoutDamagePhotos: text("checkout_damage_photos").array(),
   checkoutSelfiePhoto: text("checkout_selfie_photo"),
   checkoutNotes: text("checkout_notes"),
+  // Comprovante de entrega (POD): aceite do recebedor no check-out
+  recipientName: text("recipient_name"),
+  recipientDocument: varchar("recipient_document", { length: 30 }),
+  recipientSignature: text("recipient_signature"),   // Imagem PNG da assinatura desenhada
+  podDocumentUrl: text("pod_document_url"),          // PDF gerado, também incluído em documents
+  podEmailedAt: timestamp("pod_emailed_at"),
   // Route information (calculated when transport is created)
   routeDistanceKm: numeric("route_distance_km"),
   routeDurationMinutes: integer("route_duration_minutes"),
@@ -508,13 +552,17 @@ export const insertTransportSchema = createInsertSchema(transports).omit({
   id: true,
   requestNumber: true,
   createdAt: true,
+  tractorId: true,
+  trailerId: true,
+  tripId: true,
+  tripStopOrder: true,
 }).extend({
   vehicleChassi: z.string().min(17, "Chassi é obrigatório"),
   clientId: z.string().min(1, "Cliente é obrigatório"),
   originYardId: z.string().min(1, "Pátio de origem é obrigatório"),
   deliveryLocationId: z.string().min(1, "Local de entrega é obrigatório"),
   driverId: z.string().optional().nullable(),
-  status: z.enum(["pendente", "em_transito", "entregue", "cancelado"]).default("pendente"),
+  status: z.enum(transportStatusEnum.enumValues).default("pendente"),
   deliveryDate: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   documents: z.array(z.string()).optional().nullable(),
@@ -553,9 +601,18 @@ export const driverNotifications = pgTable("driver_notifications", {
   departureDate: date("departure_date").notNull(),
   driverId: varchar("driver_id").notNull().references(() => drivers.id),
   status: driverNotificationStatusEnum("status").default("pendente").notNull(),
+  // Dispatch offer fields: the transport being offered and where the driver stood in the ranking
+  transportId: varchar("transport_id").references(() => transports.id),
+  wave: integer("wave").default(1).notNull(),
+  rank: integer("rank"),
+  distanceKm: numeric("distance_km", { precision: 10, scale: 2 }),
+  score: numeric("score", { precision: 6, scale: 2 }),
+  expiresAt: timestamp("expires_at"),
   respondedAt: timestamp("responded_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("driver_notifications_transport_idx").on(table.transportId),
+]);
 
 export const driverNotificationsRelations = relations(driverNotifications, ({ one }) => ({
   yard: one(yards, {
@@ -570,6 +627,10 @@ export const driverNotificationsRelations = relations(driverNotifications, ({ on
     fields: [driverNotifications.driverId],
     references: [drivers.id],
   }),
+  transport: one(transports, {
+    fields: [driverNotifications.transportId],
+    references: [transports.id],
+  }),
 }));
 
 export const insertDriverNotificationSchema = createInsertSchema(driverNotifications).omit({
@@ -593,7 +654,9 @@ export type RequestCounter = typeof requestCounter.$inferSelect;
 export const userRoleEnum = pgEnum("user_role", [
   "admin",
   "operador",
-  "visualizador"
+  "visualizador",
+  "motorista",
+  "portaria"
 ]);
 
 export const systemUsers = pgTable("system_users", {
@@ -637,14 +700,71 @@ export const featureKeys = [
   "trafego-agora",
   "portaria",
   "financeiro",
+  "avaliacao",
+  "criterios-avaliacao",
+  "rotograma",
+  "prestacao-de-contas",
+  "relatorio-patio",
+  "checkpoints",
+  "timeline-checkpoints",
+  "ranking-motoristas",
+  "dashboard-financeiro",
+  "gestao-rotas",
+  "modelos",
+  "cotacao-frete",
+  "contratos-frete",
+  "jornada-veiculo",
+  "avarias",
+  "rastreadores",
+  "transferencias",
+  "analise",
+  "contratos",
+  "integracoes",
+  "frota",
 ] as const;
 
 export type FeatureKey = typeof featureKeys[number];
 
+export const permissionActions = ["read", "write", "delete", "approve"] as const;
+export type PermissionAction = typeof permissionActions[number];
+
+// Permissões aplicadas quando o perfil ainda não foi configurado em role_permissions.
+// O perfil admin tem acesso total e não é consultado.
+const allActions: PermissionAction[] = [...permissionActions];
+const readOnly: PermissionAction[] = ["read"];
+
+export const defaultRolePermissions: Record<Exclude<UserRole, "admin">, Partial<Record<FeatureKey, PermissionAction[]>>> = {
+  operador: Object.fromEntries(
+    featureKeys
+      .filter((f) => f !== "usuarios" && f !== "integracoes")
+      .map((f) => [f, f === "financeiro" || f === "dashboard-financeiro" ? readOnly : f === "localizar-motorista" ? ["read", "write", "delete", "approve"] : ["read", "write", "delete"]])
+  ),
+  visualizador: Object.fromEntries(
+    featureKeys.filter((f) => f !== "usuarios" && f !== "integracoes").map((f) => [f, readOnly])
+  ),
+  portaria: {
+    dashboard: readOnly,
+    portaria: allActions,
+    veiculos: readOnly,
+    coletas: readOnly,
+    transportes: readOnly,
+    transferencias: readOnly,
+    patios: readOnly,
+  },
+  motorista: {
+    transportes: ["read", "write"],
+    coletas: ["read", "write"],
+    "prestacao-de-contas": ["read", "write"],
+    "localizar-motorista": ["read", "write"],
+    checkpoints: readOnly,
+  },
+};
+
 export const rolePermissions = pgTable("role_permissions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   role: userRoleEnum("role").notNull(),
   feature: varchar("feature", { length: 50 }).notNull().$type<FeatureKey>(),
+  actions: text("actions").array().$type<PermissionAction[]>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -680,6 +800,8 @@ export const expenseTypeEnum = pgEnum("expense_type", [
 export const expenseSettlements = pgTable("expense_settlements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   transportId: varchar("transport_id").notNull().references(() => transports.id),
+  // Prestação única da viagem: transportId aponta para a primeira entrega
+  tripId: varchar("trip_id").references(() => trips.id),
   driverId: varchar("driver_id").notNull().references(() => drivers.id),
   status: expenseSettlementStatusEnum("status").default("pendente"),
   
@@ -690,11 +812,13 @@ export const expenseSettlements = pgTable("expense_settlements", {
   // Adiantamento e saldo
   advanceAmount: text("advance_amount"),  // Valor adiantado ao motorista
   balanceAmount: text("balance_amount"),  // Saldo (despesas - adiantamento): positivo = a receber, negativo = a devolver
+  deductionsAmount: text("deductions_amount"),  // Descontos de avarias de responsabilidade do motorista
   
   // Valores do transporte (copiados para referência)
   routeDistance: text("route_distance"),
   estimatedTolls: text("estimated_tolls"),
   estimatedFuel: text("estimated_fuel"),
+  truckModelId: varchar("truck_model_id").references(() => truckModels.id),  // Base do consumo esperado na conciliação
   
   // Datas importantes
   submittedAt: timestamp("submitted_at"),        // Quando motorista enviou
@@ -733,6 +857,12 @@ export const expenseSettlementsRelations = relations(expenseSettlements, ({ one,
   items: many(expenseSettlementItems),
 }));
 
+// Moedas aceitas nos comprovantes (viagens ao Mercosul); totais são sempre apurados em BRL
+export const foreignExpenseCurrencies = ["ARS", "CLP", "PEN", "UYU"] as const;
+export const expenseCurrencies = ["BRL", ...foreignExpenseCurrencies] as const;
+export type ExpenseCurrency = typeof expenseCurrencies[number];
+export type ForeignExpenseCurrency = typeof foreignExpenseCurrencies[number];
+
 // Itens da prestação de contas (cada despesa com foto)
 export const expenseSettlementItems = pgTable("expense_settlement_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -741,12 +871,21 @@ export const expenseSettlementItems = pgTable("expense_settlement_items", {
   description: text("description"),
   currency: varchar("currency", { length: 10 }).notNull().default("BRL"), // BRL, ARS, CLP, PEN, UYU
   amount: text("amount").notNull(),         // Valor na moeda selecionada
+  expenseDate: date("expense_date"),        // Data do comprovante, base da cotação
+  exchangeRate: text("exchange_rate"),      // BRL por unidade da moeda na data (1 para BRL)
+  amountBrl: text("amount_brl"),            // Valor convertido; null = sem cotação cadastrada
   photoUrl: text("photo_url").notNull(),    // Foto do comprovante
   
   // Status da foto (para devoluções)
   photoStatus: text("photo_status").default("ok"),  // ok, borrada, ilegivel
   photoRejectionReason: text("photo_rejection_reason"),
   
+  liters: text("liters"),                   // Litros abastecidos (combustível)
+  
+  // Conciliação automática contra a política (ver expensePolicies)
+  policyFlag: text("policy_flag"),          // Motivo do alerta; null = dentro da tolerância
+  deviationPercent: text("deviation_percent"),
+  
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -771,6 +910,103 @@ export type InsertExpenseSettlement = z.infer<typeof insertExpenseSettlementSche
 export type ExpenseSettlement = typeof expenseSettlements.$inferSelect;
 export type InsertExpenseSettlementItem = z.infer<typeof insertExpenseSettlementItemSchema>;
 export type ExpenseSettlementItem = typeof expenseSettlementItems.$inferSelect;
+export type ExpenseType = ExpenseSettlementItem["type"];
+
+// Valor em reais usado em totais e relatórios; null enquanto a moeda estrangeira não tiver cotação
+export function expenseItemAmountBrl(item: Pick<ExpenseSettlementItem, "amount" | "amountBrl" | "currency">): number | null {
+  if (item.amountBrl) return parseFloat(item.amountBrl);
+  if (item.currency === "BRL") return parseFloat(item.amount || "0");
+  return null;
+}
+
+// Política de despesas por categoria. Sem registro, vale a tolerância padrão e nenhum teto.
+export const expensePolicies = pgTable("expense_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  expenseType: expenseTypeEnum("expense_type").notNull().unique(),
+  tolerancePercent: numeric("tolerance_percent", { precision: 5, scale: 2 }).default("10").notNull(),
+  dailyLimit: numeric("daily_limit", { precision: 10, scale: 2 }),   // Teto por dia de viagem (alimentação/hospedagem)
+  itemLimit: numeric("item_limit", { precision: 10, scale: 2 }),     // Teto por comprovante
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const moneyAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Valor inválido");
+
+export const insertExpensePolicySchema = createInsertSchema(expensePolicies).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  tolerancePercent: moneyAmount,
+  dailyLimit: moneyAmount.optional().nullable(),
+  itemLimit: moneyAmount.optional().nullable(),
+});
+
+export type InsertExpensePolicy = z.infer<typeof insertExpensePolicySchema>;
+export type ExpensePolicy = typeof expensePolicies.$inferSelect;
+
+// Cotações (PTAX de venda ou informadas manualmente): quantos reais vale 1 unidade da moeda na data
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  currency: varchar("currency", { length: 3 }).notNull().$type<ForeignExpenseCurrency>(),
+  rateDate: date("rate_date").notNull(),
+  rate: numeric("rate", { precision: 14, scale: 8 }).notNull(),
+  source: varchar("source", { length: 20 }).notNull().default("manual"),  // manual, csv
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_exchange_rates_currency_date").on(table.currency, table.rateDate),
+]);
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  currency: z.enum(foreignExpenseCurrencies),
+  rateDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida"),
+  rate: z.string().regex(/^\d+(\.\d{1,8})?$/, "Cotação inválida").refine((v) => parseFloat(v) > 0, "Cotação inválida"),
+  source: z.enum(["manual", "csv"]).optional(),
+});
+
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+// Leitura automática (OCR) dos comprovantes: valores propostos, divergências com o digitado e duplicidades
+export const receiptExtractionStatuses = ["pendente", "processando", "concluido", "erro"] as const;
+export type ReceiptExtractionStatus = typeof receiptExtractionStatuses[number];
+
+export const receiptPhotoQualities = ["ok", "borrada", "ilegivel"] as const;
+export type ReceiptPhotoQuality = typeof receiptPhotoQualities[number];
+
+export interface ReceiptMismatch {
+  field: "type" | "amount" | "currency" | "expenseDate";
+  typed: string | null;
+  extracted: string;
+}
+
+export const expenseReceiptExtractions = pgTable("expense_receipt_extractions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: varchar("item_id").notNull().unique().references(() => expenseSettlementItems.id, { onDelete: "cascade" }),
+  status: varchar("status", { length: 20 }).notNull().default("pendente").$type<ReceiptExtractionStatus>(),
+  provider: varchar("provider", { length: 20 }),          // openai, stub
+  imageHash: varchar("image_hash", { length: 64 }),       // SHA-256 da imagem, mesma foto reenviada
+  proposedType: varchar("proposed_type", { length: 30 }).$type<ExpenseType>(),
+  proposedAmount: text("proposed_amount"),
+  proposedCurrency: varchar("proposed_currency", { length: 3 }).$type<ExpenseCurrency>(),
+  proposedDate: date("proposed_date"),
+  issuerCnpj: varchar("issuer_cnpj", { length: 14 }),     // Somente dígitos
+  photoQuality: varchar("photo_quality", { length: 20 }).$type<ReceiptPhotoQuality>(),
+  mismatches: jsonb("mismatches").$type<ReceiptMismatch[]>().notNull().default([]),
+  duplicateItemIds: jsonb("duplicate_item_ids").$type<string[]>().notNull().default([]),
+  error: text("error"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_receipt_extractions_status").on(table.status),
+  index("IDX_receipt_extractions_hash").on(table.imageHash),
+  index("IDX_receipt_extractions_issuer").on(table.issuerCnpj, table.proposedDate),
+]);
+
+export type ExpenseReceiptExtraction = typeof expenseReceiptExtractions.$inferSelect;
+export type InsertExpenseReceiptExtraction = typeof expenseReceiptExtractions.$inferInsert;
 
 // ============== CHECK POINTS ==============
 export const checkpoints = pgTable("checkpoints", {
@@ -781,6 +1017,8 @@ export const checkpoints = pgTable("checkpoints", {
   state: varchar("state", { length: 2 }),
   latitude: text("latitude").notNull(),
   longitude: text("longitude").notNull(),
+  // Raio da cerca virtual: posições dentro dele marcam o checkpoint como alcançado
+  geofenceRadiusMeters: integer("geofence_radius_meters").default(300).notNull(),
   isActive: text("is_active").default("true"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -788,6 +1026,8 @@ export const checkpoints = pgTable("checkpoints", {
 export const insertCheckpointSchema = createInsertSchema(checkpoints).omit({
   id: true,
   createdAt: true,
+}).extend({
+  geofenceRadiusMeters: z.coerce.number().int().min(50).max(20000).optional(),
 });
 
 export type InsertCheckpoint = z.infer<typeof insertCheckpointSchema>;
@@ -826,6 +1066,28 @@ export const insertTransportCheckpointSchema = createInsertSchema(transportCheck
 export type InsertTransportCheckpoint = z.infer<typeof insertTransportCheckpointSchema>;
 export type TransportCheckpoint = typeof transportCheckpoints.$inferSelect;
 
+// Checkpoint Events - feed de chegadas/saídas (cerca virtual ou marcação manual)
+export const checkpointEventSourceEnum = pgEnum("checkpoint_event_source", ["geofence", "manual"]);
+
+export const checkpointEvents = pgTable("checkpoint_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transportCheckpointId: varchar("transport_checkpoint_id").notNull().references(() => transportCheckpoints.id, { onDelete: "cascade" }),
+  transportId: varchar("transport_id").notNull().references(() => transports.id),
+  checkpointId: varchar("checkpoint_id").notNull().references(() => checkpoints.id),
+  status: varchar("status", { length: 20 }).notNull(), // status do checkpoint após o evento
+  source: checkpointEventSourceEnum("source").notNull(),
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  distanceMeters: integer("distance_meters"), // distância ao centro da cerca no momento do evento
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_checkpoint_events_occurred").on(table.occurredAt),
+]);
+
+export type InsertCheckpointEvent = typeof checkpointEvents.$inferInsert;
+export type CheckpointEvent = typeof checkpointEvents.$inferSelect;
+
 // ============== CRITÉRIOS DE AVALIAÇÃO (Evaluation Criteria) ==============
 export const evaluationCriteria = pgTable("evaluation_criteria", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1068,6 +1330,46 @@ export const insertRouteSchema = createInsertSchema(routes).omit({
 export type InsertRoute = z.infer<typeof insertRouteSchema>;
 export type Route = typeof routes.$inferSelect;
 
+// Sequenciamento de rotas com várias paradas (rotograma e viagens). Uma parada é um local de entrega ou
+// um ponto livre; paradas no mesmo local (uma por transporte) viram uma só visita.
+export const MAX_SEQUENCE_STOPS = 25;
+
+const sequencePointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const routeSequenceStopSchema = z.object({
+  key: z.string().min(1).optional(),
+  deliveryLocationId: z.string().min(1).optional(),
+  transportId: z.string().min(1).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  label: z.string().optional(),
+  deliveryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data de entrega inválida").optional().nullable(),
+  earliestArrival: z.coerce.date().optional().nullable(),
+  latestArrival: z.coerce.date().optional().nullable(),
+}).refine((stop) => stop.deliveryLocationId || (stop.lat !== undefined && stop.lng !== undefined), {
+  message: "Informe o local de entrega ou as coordenadas da parada",
+});
+
+export const routeSequenceRequestSchema = z.object({
+  originYardId: z.string().min(1).optional(),
+  origin: sequencePointSchema.optional(),
+  // Última parada fixa (destino do rotograma); sem ela a rota termina na melhor última parada
+  destination: sequencePointSchema.extend({ label: z.string().optional() }).optional().nullable(),
+  stops: z.array(routeSequenceStopSchema)
+    .min(1, "Informe ao menos uma parada")
+    .max(MAX_SEQUENCE_STOPS, `Máximo de ${MAX_SEQUENCE_STOPS} paradas por rota`),
+  departureAt: z.coerce.date().optional(),
+  returnToOrigin: z.boolean().optional(),
+}).refine((request) => request.originYardId || request.origin, {
+  message: "Informe o pátio ou as coordenadas de origem",
+});
+
+export type RouteSequenceStop = z.infer<typeof routeSequenceStopSchema>;
+export type RouteSequenceRequest = z.infer<typeof routeSequenceRequestSchema>;
+
 // ============== CONTRATOS (Contracts) ==============
 export const contractStatusEnum = pgEnum("contract_status", [
   "ativo",
@@ -1172,6 +1474,9 @@ export const transfers = pgTable("transfers", {
   vehicleChassi: varchar("vehicle_chassi").notNull(),
   originYardId: varchar("origin_yard_id").notNull(),
   destinationYardId: varchar("destination_yard_id").notNull(),
+  // Conjunto cavalo + carreta da transferência (atribuído pela frota)
+  tractorId: varchar("tractor_id").references(() => fleetUnits.id),
+  trailerId: varchar("trailer_id").references(() => fleetUnits.id),
   requestedBy: varchar("requested_by"),
   authorizedBy: varchar("authorized_by"),
   status: transferStatusEnum("status").default("pendente").notNull(),
@@ -1187,6 +1492,8 @@ export const insertTransferSchema = createInsertSchema(transfers).omit({
   authorizedAt: true,
   completedAt: true,
   authorizedBy: true,
+  tractorId: true,
+  trailerId: true,
 }).extend({
   vehicleChassi: z.string().min(1, "Chassi é obrigatório"),
   originYardId: z.string().min(1, "Pátio de origem é obrigatório"),
@@ -1195,3 +1502,839 @@ export const insertTransferSchema = createInsertSchema(transfers).omit({
 
 export type InsertTransfer = z.infer<typeof insertTransferSchema>;
 export type Transfer = typeof transfers.$inferSelect;
+
+// ============== AUDITORIA (Audit Events) ==============
+export const auditEntityTypes = [
+  "vehicle",
+  "collect",
+  "transport",
+  "transfer",
+  "driver",
+  "manufacturer",
+  "yard",
+  "client",
+  "delivery_location",
+  "expense_settlement",
+  "expense_settlement_item",
+  "expense_policy",
+  "exchange_rate",
+  "checkpoint",
+  "contract",
+  "freight_contract",
+  "system_user",
+  "tracker",
+  "damage_record",
+  "damage_claim",
+  "geofence_exception",
+  "driver_ledger_entry",
+  "driver_payment_batch",
+  "payroll_run",
+  "transport_cte",
+  "fleet_unit",
+  "trip",
+] as const;
+
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const auditActionEnum = pgEnum("audit_action", ["create", "update", "delete"]);
+
+export type AuditChange = { from: unknown; to: unknown };
+
+// Registro imutável: só recebe inserts, nunca é atualizado ou removido
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entity: varchar("entity", { length: 50 }).notNull().$type<AuditEntityType>(),
+  entityId: varchar("entity_id").notNull(),
+  action: auditActionEnum("action").notNull(),
+  actorId: varchar("actor_id"),
+  actorName: text("actor_name"),
+  method: varchar("method", { length: 10 }),
+  route: text("route"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  changes: jsonb("changes").$type<Record<string, AuditChange>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_audit_events_entity").on(table.entity, table.entityId)]);
+
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// ============== POSIÇÕES GPS (Tracking Positions) ==============
+export const trackingSubjectTypes = ["transport", "collect", "transfer"] as const;
+export type TrackingSubjectType = typeof trackingSubjectTypes[number];
+
+export const trackingSourceEnum = pgEnum("tracking_source", ["driver_app", "tracker"]);
+
+export const trackingPositions = pgTable("tracking_positions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subjectType: varchar("subject_type", { length: 20 }).notNull().$type<TrackingSubjectType>(),
+  subjectId: varchar("subject_id").notNull(),
+  driverId: varchar("driver_id").references(() => drivers.id),
+  source: trackingSourceEnum("source").default("driver_app").notNull(),
+  deviceId: varchar("device_id", { length: 100 }),
+  latitude: text("latitude").notNull(),
+  longitude: text("longitude").notNull(),
+  speedKmh: numeric("speed_kmh", { precision: 6, scale: 2 }),
+  heading: integer("heading"),
+  accuracyMeters: numeric("accuracy_meters", { precision: 8, scale: 2 }),
+  recordedAt: timestamp("recorded_at").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_tracking_positions_subject").on(table.subjectType, table.subjectId, table.recordedAt),
+]);
+
+// One point as sent by the driver app or a tracker device
+export const trackingPositionInputSchema = z.object({
+  subjectType: z.enum(trackingSubjectTypes),
+  subjectId: z.string().min(1),
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  recordedAt: z.coerce.date(),
+  speedKmh: z.coerce.number().min(0).optional().nullable(),
+  heading: z.coerce.number().int().min(0).max(359).optional().nullable(),
+  accuracyMeters: z.coerce.number().min(0).optional().nullable(),
+  source: z.enum(trackingSourceEnum.enumValues).optional(),
+  deviceId: z.string().max(100).optional().nullable(),
+});
+
+export const trackingPositionBatchSchema = z.object({
+  positions: z.array(trackingPositionInputSchema).min(1).max(500),
+});
+
+export type TrackingPositionInput = z.infer<typeof trackingPositionInputSchema>;
+export type InsertTrackingPosition = typeof trackingPositions.$inferInsert;
+export type TrackingPosition = typeof trackingPositions.$inferSelect;
+
+// ============== RASTREADORES (Tracker Devices) ==============
+export const trackerVendors = ["generic", "gt06", "suntech"] as const;
+export type TrackerVendor = typeof trackerVendors[number];
+
+export const trackers = pgTable("trackers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // IMEI, or the device ID for vendors that identify frames by their own serial (Suntech)
+  imei: varchar("imei", { length: 20 }).notNull().unique(),
+  vendor: varchar("vendor", { length: 20 }).notNull().$type<TrackerVendor>(),
+  model: text("model"),
+  simNumber: varchar("sim_number", { length: 20 }),
+  simCarrier: text("sim_carrier"),
+  truckPlate: varchar("truck_plate", { length: 10 }),
+  driverId: varchar("driver_id").references(() => drivers.id),
+  isActive: text("is_active").default("true"),
+  lastSeenAt: timestamp("last_seen_at"),
+  lastLatitude: text("last_latitude"),
+  lastLongitude: text("last_longitude"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const trackersRelations = relations(trackers, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [trackers.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const insertTrackerSchema = createInsertSchema(trackers).omit({
+  id: true,
+  createdAt: true,
+  lastSeenAt: true,
+  lastLatitude: true,
+  lastLongitude: true,
+}).extend({
+  imei: z.string().regex(/^\d{6,20}$/, "IMEI deve conter apenas números (6 a 20 dígitos)"),
+  vendor: z.enum(trackerVendors),
+  driverId: z.string().optional().nullable(),
+  truckPlate: z.string().max(10).optional().nullable(),
+});
+
+export type InsertTracker = z.infer<typeof insertTrackerSchema>;
+export type Tracker = typeof trackers.$inferSelect;
+
+// ============== AVARIAS (Damage Records) ==============
+// Etapas de inspeção na ordem em que o veículo passa por elas
+export const damageStages = ["coleta_checkin", "coleta_checkout", "patio", "transporte_checkin", "transporte_checkout"] as const;
+export type DamageStage = typeof damageStages[number];
+
+// Painéis do diagrama do veículo (vista superior)
+export const damageZones = [
+  "para_choque_dianteiro",
+  "capo",
+  "para_brisa",
+  "teto",
+  "vidro_traseiro",
+  "tampa_traseira",
+  "para_choque_traseiro",
+  "paralama_dianteiro_esquerdo",
+  "porta_dianteira_esquerda",
+  "porta_traseira_esquerda",
+  "lateral_traseira_esquerda",
+  "paralama_dianteiro_direito",
+  "porta_dianteira_direita",
+  "porta_traseira_direita",
+  "lateral_traseira_direita",
+  "retrovisor_esquerdo",
+  "retrovisor_direito",
+  "roda_dianteira_esquerda",
+  "roda_dianteira_direita",
+  "roda_traseira_esquerda",
+  "roda_traseira_direita",
+  "interior",
+] as const;
+export type DamageZone = typeof damageZones[number];
+
+export const damageTypes = ["risco", "amassado", "trinca", "quebra", "pintura", "faltante", "outro"] as const;
+export type DamageType = typeof damageTypes[number];
+
+export const damageSeverities = ["leve", "moderada", "grave"] as const;
+export type DamageSeverity = typeof damageSeverities[number];
+
+export const damageStageEnum = pgEnum("damage_stage", damageStages);
+export const damageSeverityEnum = pgEnum("damage_severity", damageSeverities);
+
+export const damageRecords = pgTable("damage_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vehicleChassi: varchar("vehicle_chassi", { length: 50 }).notNull(),
+  stage: damageStageEnum("stage").notNull(),
+  collectId: varchar("collect_id").references(() => collects.id),
+  transportId: varchar("transport_id").references(() => transports.id),
+  yardId: varchar("yard_id").references(() => yards.id),
+  zone: varchar("zone", { length: 40 }).notNull().$type<DamageZone>(),
+  damageType: varchar("damage_type", { length: 20 }).notNull().$type<DamageType>(),
+  severity: damageSeverityEnum("severity").notNull(),
+  photoUrl: text("photo_url"),
+  notes: text("notes"),
+  recordedByUserId: varchar("recorded_by_user_id"),
+  inspectedAt: timestamp("inspected_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_damage_records_chassi").on(table.vehicleChassi, table.stage)]);
+
+export const damageRecordsRelations = relations(damageRecords, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [damageRecords.vehicleChassi],
+    references: [vehicles.chassi],
+  }),
+  collect: one(collects, {
+    fields: [damageRecords.collectId],
+    references: [collects.id],
+  }),
+  transport: one(transports, {
+    fields: [damageRecords.transportId],
+    references: [transports.id],
+  }),
+}));
+
+export const insertDamageRecordSchema = createInsertSchema(damageRecords).omit({
+  id: true,
+  createdAt: true,
+  recordedByUserId: true,
+}).extend({
+  vehicleChassi: z.string().min(1, "Chassi é obrigatório"),
+  stage: z.enum(damageStages),
+  zone: z.enum(damageZones),
+  damageType: z.enum(damageTypes),
+  severity: z.enum(damageSeverities),
+  collectId: z.string().optional().nullable(),
+  transportId: z.string().optional().nullable(),
+  yardId: z.string().optional().nullable(),
+  photoUrl: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  inspectedAt: z.coerce.date().optional(),
+}).superRefine((data, ctx) => {
+  if (data.stage.startsWith("coleta_") && !data.collectId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["collectId"], message: "Coleta é obrigatória para inspeções de coleta" });
+  }
+  if (data.stage.startsWith("transporte_") && !data.transportId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transportId"], message: "Transporte é obrigatório para inspeções de transporte" });
+  }
+  if (data.stage === "patio" && !data.yardId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["yardId"], message: "Pátio é obrigatório para inspeções de pátio" });
+  }
+});
+
+export type InsertDamageRecord = z.infer<typeof insertDamageRecordSchema>;
+export type DamageRecord = typeof damageRecords.$inferSelect;
+
+// ============== SINISTROS DE AVARIA (Damage Claims) ==============
+export const damageClaimStatusEnum = pgEnum("damage_claim_status", [
+  "aberta",       // Registrada, aguardando análise
+  "em_analise",   // Coletando evidências e orçamentos
+  "aprovada",     // Responsabilidade e valor definidos
+  "em_reparo",    // Veículo em reparo
+  "encerrada",    // Concluída
+  "rejeitada",    // Reclamação improcedente
+]);
+
+export const damageLiableParties = ["motorista", "montadora", "patio", "seguradora"] as const;
+export type DamageLiableParty = typeof damageLiableParties[number];
+export const damageLiablePartyEnum = pgEnum("damage_liable_party", damageLiableParties);
+
+export const damageClaims = pgTable("damage_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimNumber: varchar("claim_number", { length: 20 }).notNull().unique(),
+  vehicleChassi: varchar("vehicle_chassi", { length: 50 }).notNull(),
+  transportId: varchar("transport_id").references(() => transports.id),
+  collectId: varchar("collect_id").references(() => collects.id),
+  clientId: varchar("client_id").references(() => clients.id),
+  status: damageClaimStatusEnum("status").default("aberta").notNull(),
+  reportedBy: text("reported_by"),          // Quem comunicou (cliente, portaria, motorista...)
+  description: text("description").notNull(),
+
+  // Responsabilidade
+  liableParty: damageLiablePartyEnum("liable_party"),
+  liableDriverId: varchar("liable_driver_id").references(() => drivers.id),
+  liableManufacturerId: varchar("liable_manufacturer_id").references(() => manufacturers.id),
+  liableYardId: varchar("liable_yard_id").references(() => yards.id),
+  insurerName: text("insurer_name"),
+  liabilityNotes: text("liability_notes"),
+  approvedAmount: text("approved_amount"),  // Valor final atribuído ao responsável
+
+  // Desconto na prestação de contas do motorista (quando responsável)
+  settlementId: varchar("settlement_id").references(() => expenseSettlements.id),
+
+  openedByUserId: varchar("opened_by_user_id"),
+  approvedAt: timestamp("approved_at"),
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_damage_claims_chassi").on(table.vehicleChassi)]);
+
+// Evidências: fotos, documentos ou registros estruturados de avaria
+export const damageClaimEvidence = pgTable("damage_claim_evidence", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().references(() => damageClaims.id, { onDelete: "cascade" }),
+  damageRecordId: varchar("damage_record_id").references(() => damageRecords.id),
+  fileUrl: text("file_url"),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const damageClaimQuoteStatusEnum = pgEnum("damage_claim_quote_status", ["pendente", "aprovado", "recusado"]);
+
+export const damageClaimQuotes = pgTable("damage_claim_quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  claimId: varchar("claim_id").notNull().references(() => damageClaims.id, { onDelete: "cascade" }),
+  supplier: text("supplier").notNull(),
+  amount: text("amount").notNull(),
+  description: text("description"),
+  documentUrl: text("document_url"),
+  status: damageClaimQuoteStatusEnum("status").default("pendente").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const damageClaimsRelations = relations(damageClaims, ({ one, many }) => ({
+  transport: one(transports, {
+    fields: [damageClaims.transportId],
+    references: [transports.id],
+  }),
+  collect: one(collects, {
+    fields: [damageClaims.collectId],
+    references: [collects.id],
+  }),
+  liableDriver: one(drivers, {
+    fields: [damageClaims.liableDriverId],
+    references: [drivers.id],
+  }),
+  settlement: one(expenseSettlements, {
+    fields: [damageClaims.settlementId],
+    references: [expenseSettlements.id],
+  }),
+  evidence: many(damageClaimEvidence),
+  quotes: many(damageClaimQuotes),
+}));
+
+export const damageClaimEvidenceRelations = relations(damageClaimEvidence, ({ one }) => ({
+  claim: one(damageClaims, {
+    fields: [damageClaimEvidence.claimId],
+    references: [damageClaims.id],
+  }),
+  damageRecord: one(damageRecords, {
+    fields: [damageClaimEvidence.damageRecordId],
+    references: [damageRecords.id],
+  }),
+}));
+
+export const damageClaimQuotesRelations = relations(damageClaimQuotes, ({ one }) => ({
+  claim: one(damageClaims, {
+    fields: [damageClaimQuotes.claimId],
+    references: [damageClaims.id],
+  }),
+}));
+
+export const insertDamageClaimSchema = createInsertSchema(damageClaims).omit({
+  id: true,
+  claimNumber: true,
+  status: true,
+  settlementId: true,
+  openedByUserId: true,
+  approvedAt: true,
+  closedAt: true,
+  createdAt: true,
+}).extend({
+  vehicleChassi: z.string().min(1, "Chassi é obrigatório"),
+  description: z.string().min(1, "Descrição é obrigatória"),
+  transportId: z.string().optional().nullable(),
+  collectId: z.string().optional().nullable(),
+  clientId: z.string().optional().nullable(),
+  liableParty: z.enum(damageLiableParties).optional().nullable(),
+  liableDriverId: z.string().optional().nullable(),
+  liableManufacturerId: z.string().optional().nullable(),
+  liableYardId: z.string().optional().nullable(),
+  approvedAmount: moneyAmount.optional().nullable(),
+});
+
+export const insertDamageClaimEvidenceSchema = createInsertSchema(damageClaimEvidence).omit({
+  id: true,
+  claimId: true,
+  createdAt: true,
+}).extend({
+  damageRecordId: z.string().optional().nullable(),
+  fileUrl: z.string().optional().nullable(),
+  description: z.string().optional().nullable(),
+}).refine((data) => !!data.damageRecordId || !!data.fileUrl, {
+  message: "Informe um arquivo ou um registro de avaria",
+});
+
+export const insertDamageClaimQuoteSchema = createInsertSchema(damageClaimQuotes).omit({
+  id: true,
+  claimId: true,
+  status: true,
+  createdAt: true,
+}).extend({
+  supplier: z.string().min(1, "Fornecedor é obrigatório"),
+  amount: moneyAmount,
+});
+
+export type InsertDamageClaim = z.infer<typeof insertDamageClaimSchema>;
+export type DamageClaim = typeof damageClaims.$inferSelect;
+export type InsertDamageClaimEvidence = z.infer<typeof insertDamageClaimEvidenceSchema>;
+export type DamageClaimEvidence = typeof damageClaimEvidence.$inferSelect;
+export type InsertDamageClaimQuote = z.infer<typeof insertDamageClaimQuoteSchema>;
+export type DamageClaimQuote = typeof damageClaimQuotes.$inferSelect;
+
+// ============== EXCEÇÕES DE GEOFENCE (Check-in/out fora do raio) ==============
+export const geofenceSubjectTypes = ["collect", "transport"] as const;
+export type GeofenceSubjectType = typeof geofenceSubjectTypes[number];
+export const geofenceInspectionEvents = ["checkin", "checkout"] as const;
+export type GeofenceInspectionEvent = typeof geofenceInspectionEvents[number];
+export const geofenceLocationTypes = ["manufacturer", "yard", "delivery_location"] as const;
+export type GeofenceLocationType = typeof geofenceLocationTypes[number];
+
+export const geofenceExceptions = pgTable("geofence_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subjectType: varchar("subject_type", { length: 20 }).notNull().$type<GeofenceSubjectType>(),
+  subjectId: varchar("subject_id").notNull(),
+  vehicleChassi: varchar("vehicle_chassi", { length: 50 }).notNull(),
+  event: varchar("event", { length: 20 }).notNull().$type<GeofenceInspectionEvent>(),
+  locationType: varchar("location_type", { length: 30 }).notNull().$type<GeofenceLocationType>(),
+  locationId: varchar("location_id").notNull(),
+  locationName: text("location_name"),
+  // Coordenadas enviadas pelo motorista; nulas quando o check-in/out veio sem localização
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  distanceMeters: integer("distance_meters"),
+  radiusMeters: integer("radius_meters").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_geofence_exceptions_subject").on(table.subjectType, table.subjectId),
+  index("IDX_geofence_exceptions_chassi").on(table.vehicleChassi),
+]);
+
+export const insertGeofenceExceptionSchema = createInsertSchema(geofenceExceptions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  subjectType: z.enum(geofenceSubjectTypes),
+  event: z.enum(geofenceInspectionEvents),
+  locationType: z.enum(geofenceLocationTypes),
+});
+
+export type InsertGeofenceException = z.infer<typeof insertGeofenceExceptionSchema>;
+export type GeofenceException = typeof geofenceExceptions.$inferSelect;
+
+// ============== CONTA CORRENTE DO MOTORISTA (Driver Ledger) ==============
+// Saldo positivo = a empresa deve ao motorista; negativo = o motorista deve à empresa
+export const driverLedgerEntryTypes = [
+  "adiantamento",        // Adiantamento de viagem pago ao motorista (-)
+  "despesa_aprovada",    // Despesas da prestação aprovada (+)
+  "desconto",            // Descontos de avarias aplicados na prestação (-)
+  "pagamento_contrato",  // Remuneração prevista no contrato do motorista (+)
+  "reembolso",           // Pagamento feito ao motorista para quitar o saldo (-)
+  "devolucao",           // Valor devolvido pelo motorista à empresa (+)
+] as const;
+export type DriverLedgerEntryType = typeof driverLedgerEntryTypes[number];
+
+export const driverLedgerEntrySigns: Record<DriverLedgerEntryType, 1 | -1> = {
+  adiantamento: -1,
+  despesa_aprovada: 1,
+  desconto: -1,
+  pagamento_contrato: 1,
+  reembolso: -1,
+  devolucao: 1,
+};
+
+export const driverPaymentBatchStatuses = ["aberto", "pago"] as const;
+export type DriverPaymentBatchStatus = typeof driverPaymentBatchStatuses[number];
+
+export const driverPaymentBatches = pgTable("driver_payment_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reference: varchar("reference", { length: 30 }).notNull().unique(),   // LOTE-AAAAMMDD-HHMMSS
+  status: varchar("status", { length: 20 }).notNull().default("aberto").$type<DriverPaymentBatchStatus>(),
+  totalAmount: numeric("total_amount", { precision: 12, scale: 2 }).notNull(),
+  driverCount: integer("driver_count").notNull(),
+  notes: text("notes"),
+  createdByUserId: varchar("created_by_user_id"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type DriverPaymentBatch = typeof driverPaymentBatches.$inferSelect;
+export type InsertDriverPaymentBatch = typeof driverPaymentBatches.$inferInsert;
+
+export const driverLedgerEntries = pgTable("driver_ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  driverId: varchar("driver_id").notNull().references(() => drivers.id),
+  entryType: varchar("entry_type", { length: 30 }).notNull().$type<DriverLedgerEntryType>(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),   // Com sinal (ver driverLedgerEntrySigns)
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  description: text("description"),
+  // Lançamentos automáticos têm uma chave de origem única, para poderem ser refeitos sem duplicar
+  sourceKey: varchar("source_key", { length: 120 }).unique(),
+  settlementId: varchar("settlement_id").references(() => expenseSettlements.id, { onDelete: "cascade" }),
+  transportId: varchar("transport_id").references(() => transports.id),
+  contractId: varchar("contract_id").references(() => contracts.id),
+  paymentBatchId: varchar("payment_batch_id").references(() => driverPaymentBatches.id, { onDelete: "cascade" }),
+  createdByUserId: varchar("created_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_driver_ledger_driver").on(table.driverId, table.occurredAt),
+]);
+
+// Lançamento manual: o valor é informado positivo e o sinal vem do tipo
+export const manualDriverLedgerEntrySchema = z.object({
+  entryType: z.enum(driverLedgerEntryTypes),
+  amount: moneyAmount.refine((v) => parseFloat(v) > 0, "Informe um valor maior que zero"),
+  occurredAt: z.coerce.date().optional(),
+  description: z.string().max(500).optional().nullable(),
+});
+
+export type ManualDriverLedgerEntry = z.infer<typeof manualDriverLedgerEntrySchema>;
+export type InsertDriverLedgerEntry = typeof driverLedgerEntries.$inferInsert;
+export type DriverLedgerEntry = typeof driverLedgerEntries.$inferSelect;
+
+// ============== FOLHA DE MOTORISTAS (Driver Payroll) ==============
+// Cálculo do que cada motorista ganhou no período pelo seu contrato; ao aprovar, os ganhos entram na conta corrente
+export const payrollRunStatuses = ["rascunho", "aprovado"] as const;
+export type PayrollRunStatus = typeof payrollRunStatuses[number];
+
+export const payrollLineCategories = [
+  "entrega",             // Por entrega (transporte entregue ou coleta finalizada)
+  "km",                  // Por km rodado
+  "fixo_mensal",         // Mensalidade, proporcional aos dias do contrato no período
+  "comissao",            // Percentual sobre o valor do frete
+  "reembolso_despesas",  // Despesas aprovadas nas prestações de contas (+)
+  "adiantamento",        // Adiantamentos de viagem (-)
+  "avaria",              // Descontos de avarias (-)
+] as const;
+export type PayrollLineCategory = typeof payrollLineCategories[number];
+
+export interface PayrollLine {
+  kind: "ganho" | "credito" | "desconto";
+  category: PayrollLineCategory;
+  description: string;
+  quantity: number | null;   // Entregas, km ou dias, conforme a categoria
+  rate: number | null;
+  amount: string;            // Sempre positivo; o sentido vem de kind
+  estimated?: boolean;       // Distância ou valor de frete estimado
+  transportId?: string;
+  collectId?: string;
+  ledgerEntryId?: string;
+}
+
+export const payrollRuns = pgTable("payroll_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reference: varchar("reference", { length: 30 }).notNull().unique(),   // FOLHA-AAAAMMDD-AAAAMMDD
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("rascunho").$type<PayrollRunStatus>(),
+  grossAmount: numeric("gross_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  creditsAmount: numeric("credits_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  deductionsAmount: numeric("deductions_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  netAmount: numeric("net_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  driverCount: integer("driver_count").notNull().default(0),
+  notes: text("notes"),
+  createdByUserId: varchar("created_by_user_id"),
+  approvedByUserId: varchar("approved_by_user_id"),
+  approvedAt: timestamp("approved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const payrollStatements = pgTable("payroll_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull().references(() => payrollRuns.id, { onDelete: "cascade" }),
+  driverId: varchar("driver_id").notNull().references(() => drivers.id),
+  contractId: varchar("contract_id").references(() => contracts.id),
+  paymentType: varchar("payment_type", { length: 20 }),
+  grossAmount: numeric("gross_amount", { precision: 12, scale: 2 }).notNull(),
+  creditsAmount: numeric("credits_amount", { precision: 12, scale: 2 }).notNull(),
+  deductionsAmount: numeric("deductions_amount", { precision: 12, scale: 2 }).notNull(),
+  netAmount: numeric("net_amount", { precision: 12, scale: 2 }).notNull(),
+  lines: jsonb("lines").$type<PayrollLine[]>().notNull().default([]),
+  warnings: jsonb("warnings").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_payroll_statements_run_driver").on(table.runId, table.driverId),
+]);
+
+const payrollDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida");
+
+export const createPayrollRunSchema = z.object({
+  periodStart: payrollDate,
+  periodEnd: payrollDate,
+  notes: z.string().max(500).optional().nullable(),
+}).refine((data) => data.periodEnd >= data.periodStart, {
+  message: "O fim do período deve ser igual ou posterior ao início",
+  path: ["periodEnd"],
+});
+
+export type CreatePayrollRun = z.infer<typeof createPayrollRunSchema>;
+export type PayrollRun = typeof payrollRuns.$inferSelect;
+export type InsertPayrollRun = typeof payrollRuns.$inferInsert;
+export type PayrollStatement = typeof payrollStatements.$inferSelect;
+export type InsertPayrollStatement = typeof payrollStatements.$inferInsert;
+
+// ============== CT-E (Conhecimento de Transporte Eletrônico) ==============
+
+// Um CT-e por transporte: gerado a partir do contrato de frete, depois assinado e transmitido pelo provedor
+export const transportCteStatuses = ["gerado", "autorizado", "rejeitado"] as const;
+export type TransportCteStatus = typeof transportCteStatuses[number];
+
+export interface CteComponent {
+  name: string;     // xNome do componente (FRETE VALOR, PEDAGIO, SEGURO...)
+  amount: string;
+}
+
+export const transportCtes = pgTable("transport_ctes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transportId: varchar("transport_id").notNull().unique().references(() => transports.id, { onDelete: "cascade" }),
+  freightContractId: varchar("freight_contract_id").references(() => freightContracts.id),
+  series: integer("series").notNull(),
+  number: integer("number").notNull(),
+  accessKey: varchar("access_key", { length: 44 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("gerado").$type<TransportCteStatus>(),
+  cfop: varchar("cfop", { length: 4 }).notNull(),
+  originUf: varchar("origin_uf", { length: 2 }).notNull(),
+  destinationUf: varchar("destination_uf", { length: 2 }).notNull(),
+  totalAmount: numeric("total_amount", { precision: 12, scale: 2 }).notNull(),
+  components: jsonb("components").$type<CteComponent[]>().notNull().default([]),
+  cargoValue: numeric("cargo_value", { precision: 12, scale: 2 }).notNull(),
+  icmsBase: numeric("icms_base", { precision: 12, scale: 2 }).notNull(),
+  icmsRate: numeric("icms_rate", { precision: 5, scale: 2 }).notNull(),
+  icmsAmount: numeric("icms_amount", { precision: 12, scale: 2 }).notNull(),
+  xml: text("xml").notNull(),
+  signedXml: text("signed_xml"),
+  provider: varchar("provider", { length: 30 }),
+  protocol: varchar("protocol", { length: 30 }),
+  statusMessage: text("status_message"),
+  transmittedAt: timestamp("transmitted_at"),
+  createdByUserId: varchar("created_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_transport_ctes_series_number").on(table.series, table.number),
+]);
+
+export const generateTransportCteSchema = z.object({
+  freightContractId: z.string().optional().nullable(),
+  cargoValue: z.coerce.number().positive("Valor da carga deve ser maior que zero").optional().nullable(),
+});
+
+export type GenerateTransportCte = z.infer<typeof generateTransportCteSchema>;
+export type TransportCte = typeof transportCtes.$inferSelect;
+export type InsertTransportCte = typeof transportCtes.$inferInsert;
+
+// ============== FROTA (Fleet: cavalos e carretas cegonha) ==============
+
+export const fleetUnitTypes = ["cavalo", "carreta"] as const;
+export type FleetUnitType = typeof fleetUnitTypes[number];
+
+// Frota própria ou de motorista agregado (dono do equipamento)
+export const fleetOwnerships = ["propria", "agregado"] as const;
+export type FleetOwnership = typeof fleetOwnerships[number];
+
+export const fleetUnitStatuses = ["ativo", "manutencao", "inativo"] as const;
+export type FleetUnitStatus = typeof fleetUnitStatuses[number];
+
+export const fleetUnits = pgTable("fleet_units", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  unitType: varchar("unit_type", { length: 10 }).notNull().$type<FleetUnitType>(),
+  plate: varchar("plate", { length: 7 }).notNull().unique(),            // Sem hífen, maiúsculas (ABC1D23)
+  renavam: varchar("renavam", { length: 11 }).notNull().unique(),
+  truckModelId: varchar("truck_model_id").references(() => truckModels.id),
+  axleType: truckTypeEnum("axle_type"),
+  vehicleCapacity: integer("vehicle_capacity"),                          // Vagas de veículos (carretas)
+  manufactureYear: integer("manufacture_year"),
+  ownership: varchar("ownership", { length: 10 }).notNull().default("propria").$type<FleetOwnership>(),
+  ownerDriverId: varchar("owner_driver_id").references(() => drivers.id),
+  status: varchar("status", { length: 20 }).notNull().default("ativo").$type<FleetUnitStatus>(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const fleetUnitsRelations = relations(fleetUnits, ({ one }) => ({
+  truckModel: one(truckModels, {
+    fields: [fleetUnits.truckModelId],
+    references: [truckModels.id],
+  }),
+  ownerDriver: one(drivers, {
+    fields: [fleetUnits.ownerDriverId],
+    references: [drivers.id],
+  }),
+}));
+
+// RENAVAM: 10 digits plus a check digit (weights 3,2,9..2; sum × 10 mod 11, 10 becomes 0)
+export function isValidRenavam(value: string): boolean {
+  if (!/^\d{11}$/.test(value)) return false;
+  const weights = [3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((acc, w, i) => acc + w * Number(value[i]), 0);
+  const digit = (sum * 10) % 11;
+  return (digit === 10 ? 0 : digit) === Number(value[10]);
+}
+
+export const insertFleetUnitSchema = createInsertSchema(fleetUnits).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  unitType: z.enum(fleetUnitTypes),
+  plate: z.string()
+    .transform((val) => val.replace(/[^a-zA-Z0-9]/g, "").toUpperCase())
+    .refine((val) => /^[A-Z]{3}\d[A-Z0-9]\d{2}$/.test(val), "Placa inválida (ABC1234 ou ABC1D23)"),
+  renavam: z.string()
+    .transform((val) => val.replace(/\D/g, "").padStart(11, "0"))
+    .refine(isValidRenavam, "RENAVAM inválido"),
+  truckModelId: z.string().optional().nullable(),
+  axleType: z.enum(truckTypeEnum.enumValues).optional().nullable(),
+  vehicleCapacity: z.coerce.number().int().min(1, "Capacidade mínima de 1 veículo").max(20, "Capacidade máxima de 20 veículos").optional().nullable(),
+  manufactureYear: z.coerce.number().int().min(1950, "Ano inválido").max(2100, "Ano inválido").optional().nullable(),
+  ownership: z.enum(fleetOwnerships).default("propria"),
+  ownerDriverId: z.string().optional().nullable(),
+  status: z.enum(fleetUnitStatuses).default("ativo"),
+  notes: z.string().optional().nullable(),
+});
+
+export type InsertFleetUnit = z.infer<typeof insertFleetUnitSchema>;
+export type FleetUnit = typeof fleetUnits.$inferSelect;
+
+// Operações que podem receber um conjunto da frota
+export const fleetJobEntities = ["transport", "collect", "transfer"] as const;
+export type FleetJobEntity = typeof fleetJobEntities[number];
+
+export const fleetAssignmentSchema = z.object({
+  tractorId: z.string().min(1).nullable(),
+  trailerId: z.string().min(1).nullable(),
+});
+
+export type FleetAssignment = z.infer<typeof fleetAssignmentSchema>;
+
+// Operação em andamento vista pela frota (transporte, coleta ou transferência)
+export interface FleetJob {
+  entity: FleetJobEntity;
+  id: string;
+  reference: string;        // Nº da solicitação do transporte, ou o chassi
+  vehicleChassi: string;
+  status: string;
+  driverId: string | null;
+  tractorId: string | null;
+  trailerId: string | null;
+  tripId: string | null;    // Integrantes de viagem recebem o conjunto da viagem
+}
+
+// ============== VIAGENS (Trips: carga de uma cegonha) ==============
+
+// Uma viagem agrupa os transportes embarcados na mesma cegonha (e coletas trazidas no retorno) sob um
+// motorista e um conjunto, com saída única pela portaria, rota compartilhada e uma prestação de contas
+export const tripStatuses = ["planejada", "em_transito", "concluida", "cancelada"] as const;
+export type TripStatus = typeof tripStatuses[number];
+
+export const trips = pgTable("trips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tripNumber: varchar("trip_number", { length: 20 }).notNull().unique(),   // VG00001
+  originYardId: varchar("origin_yard_id").notNull().references(() => yards.id),
+  driverId: varchar("driver_id").references(() => drivers.id),
+  tractorId: varchar("tractor_id").references(() => fleetUnits.id),
+  trailerId: varchar("trailer_id").references(() => fleetUnits.id),
+  status: varchar("status", { length: 20 }).notNull().default("planejada").$type<TripStatus>(),
+  plannedDepartureDate: date("planned_departure_date"),
+  departedAt: timestamp("departed_at"),                  // Saída autorizada pela portaria
+  completedAt: timestamp("completed_at"),                // Última entrega/coleta concluída
+  // Rota única: pátio de origem → paradas na ordem das entregas
+  routeDistanceKm: numeric("route_distance_km"),
+  routeDurationMinutes: integer("route_duration_minutes"),
+  estimatedTolls: numeric("estimated_tolls"),
+  estimatedFuel: numeric("estimated_fuel"),
+  notes: text("notes"),
+  createdByUserId: varchar("created_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_trips_status").on(table.status),
+]);
+
+export const tripsRelations = relations(trips, ({ one }) => ({
+  originYard: one(yards, {
+    fields: [trips.originYardId],
+    references: [yards.id],
+  }),
+  driver: one(drivers, {
+    fields: [trips.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+// Dados da viagem; os integrantes e a ordem das paradas vão em tripStopsSchema
+export const insertTripSchema = createInsertSchema(trips).omit({
+  id: true,
+  tripNumber: true,
+  status: true,
+  departedAt: true,
+  completedAt: true,
+  createdByUserId: true,
+  createdAt: true,
+}).extend({
+  originYardId: z.string().min(1, "Pátio de origem é obrigatório"),
+  driverId: z.string().optional().nullable(),
+  tractorId: z.string().optional().nullable(),
+  trailerId: z.string().optional().nullable(),
+  plannedDepartureDate: z.string().optional().nullable(),
+  routeDistanceKm: z.string().optional().nullable(),
+  routeDurationMinutes: z.coerce.number().int().optional().nullable(),
+  estimatedTolls: z.string().optional().nullable(),
+  estimatedFuel: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+// Transportes na ordem de entrega; coletas são embarcadas no retorno e não têm ordem
+export const tripStopsSchema = z.object({
+  transportIds: z.array(z.string().min(1)).min(1, "Inclua ao menos um transporte na viagem"),
+  collectIds: z.array(z.string().min(1)).default([]),
+});
+
+export const createTripSchema = insertTripSchema.merge(tripStopsSchema);
+export const updateTripSchema = insertTripSchema.partial().merge(tripStopsSchema.partial());
+
+export type TripData = z.infer<typeof insertTripSchema>;
+export type TripStops = z.infer<typeof tripStopsSchema>;
+
+// Ordem de entrega sugerida para os transportes de uma viagem (montada ou em montagem)
+export const tripSequenceSchema = z.object({
+  originYardId: z.string().min(1, "Pátio de origem é obrigatório"),
+  transportIds: z.array(z.string().min(1))
+    .min(1, "Inclua ao menos um transporte na viagem")
+    .max(MAX_SEQUENCE_STOPS, `Máximo de ${MAX_SEQUENCE_STOPS} paradas por rota`),
+  departureAt: z.coerce.date().optional(),
+});
+export type InsertTrip = typeof trips.$inferInsert;
+export type Trip = typeof trips.$inferSelect;
+
+export interface TripDetail extends Trip {
+  transports: Transport[];   // Ordenados por tripStopOrder
+  collects: Collect[];
+}
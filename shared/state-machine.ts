@@ -0,0 +1,199 @@
+import type {
+  vehicleStatusEnum,
+  transportStatusEnum,
+  collectStatusEnum,
+  transferStatusEnum,
+  damageClaimStatusEnum,
+} from "./schema";
+
+export type VehicleStatus = typeof vehicleStatusEnum.enumValues[number];
+export type TransportStatus = typeof transportStatusEnum.enumValues[number];
+export type CollectStatus = typeof collectStatusEnum.enumValues[number];
+export type TransferStatus = typeof transferStatusEnum.enumValues[number];
+export type DamageClaimStatus = typeof damageClaimStatusEnum.enumValues[number];
+
+interface EntityStatuses {
+  vehicle: VehicleStatus;
+  transport: TransportStatus;
+  collect: CollectStatus;
+  transfer: TransferStatus;
+  damage_claim: DamageClaimStatus;
+}
+
+export type LifecycleEntity = keyof EntityStatuses;
+
+export interface Transition<S extends string> {
+  to: S;
+  label: string;
+  // Status the linked vehicle must move to when this transition happens
+  vehicleStatus?: VehicleStatus;
+}
+
+type TransitionTable<S extends string> = Record<S, Transition<S>[]>;
+
+export const vehicleTransitions: TransitionTable<VehicleStatus> = {
+  pre_estoque: [
+    { to: "em_estoque", label: "Entrada no pátio" },
+    { to: "retirado", label: "Retirar" },
+  ],
+  em_estoque: [
+    { to: "em_transferencia", label: "Transferir" },
+    { to: "despachado", label: "Despachar" },
+    { to: "retirado", label: "Retirar" },
+  ],
+  em_transferencia: [
+    { to: "em_estoque", label: "Receber no pátio" },
+  ],
+  despachado: [
+    { to: "entregue", label: "Entregar" },
+    { to: "em_estoque", label: "Retornar ao estoque" },
+  ],
+  entregue: [
+    { to: "despachado", label: "Desfazer entrega" },
+  ],
+  retirado: [],
+};
+
+export const transportTransitions: TransitionTable<TransportStatus> = {
+  pendente: [
+    { to: "aguardando_saida", label: "Check-in", vehicleStatus: "despachado" },
+    { to: "em_transito", label: "Autorizar saída", vehicleStatus: "despachado" },
+    { to: "cancelado", label: "Cancelar" },
+  ],
+  aguardando_saida: [
+    { to: "em_transito", label: "Autorizar saída", vehicleStatus: "despachado" },
+    { to: "pendente", label: "Excluir check-in", vehicleStatus: "em_estoque" },
+    { to: "cancelado", label: "Cancelar", vehicleStatus: "em_estoque" },
+  ],
+  em_transito: [
+    { to: "entregue", label: "Check-out", vehicleStatus: "entregue" },
+    { to: "pendente", label: "Excluir check-in", vehicleStatus: "em_estoque" },
+  ],
+  entregue: [
+    { to: "em_transito", label: "Excluir check-out", vehicleStatus: "despachado" },
+  ],
+  cancelado: [],
+};
+
+export const collectTransitions: TransitionTable<CollectStatus> = {
+  em_transito: [
+    { to: "aguardando_checkout", label: "Autorizar entrada", vehicleStatus: "em_estoque" },
+    { to: "finalizada", label: "Check-out", vehicleStatus: "em_estoque" },
+  ],
+  aguardando_checkout: [
+    { to: "finalizada", label: "Check-out" },
+  ],
+  finalizada: [],
+};
+
+export const transferTransitions: TransitionTable<TransferStatus> = {
+  pendente: [
+    { to: "em_transito", label: "Autorizar transferência", vehicleStatus: "em_transferencia" },
+    { to: "cancelada", label: "Cancelar" },
+  ],
+  autorizada: [
+    { to: "em_transito", label: "Iniciar transferência", vehicleStatus: "em_transferencia" },
+    { to: "cancelada", label: "Cancelar" },
+  ],
+  em_transito: [
+    { to: "concluida", label: "Finalizar transferência", vehicleStatus: "em_estoque" },
+    { to: "cancelada", label: "Cancelar", vehicleStatus: "em_estoque" },
+  ],
+  concluida: [],
+  cancelada: [],
+};
+
+export const damageClaimTransitions: TransitionTable<DamageClaimStatus> = {
+  aberta: [
+    { to: "em_analise", label: "Iniciar análise" },
+    { to: "rejeitada", label: "Rejeitar" },
+  ],
+  em_analise: [
+    { to: "aprovada", label: "Aprovar responsabilidade" },
+    { to: "rejeitada", label: "Rejeitar" },
+  ],
+  aprovada: [
+    { to: "em_reparo", label: "Enviar para reparo" },
+    { to: "encerrada", label: "Encerrar" },
+  ],
+  em_reparo: [
+    { to: "encerrada", label: "Encerrar" },
+  ],
+  encerrada: [],
+  rejeitada: [
+    { to: "em_analise", label: "Reabrir" },
+  ],
+};
+
+export const lifecycleTransitions: { [E in LifecycleEntity]: TransitionTable<EntityStatuses[E]> } = {
+  vehicle: vehicleTransitions,
+  transport: transportTransitions,
+  collect: collectTransitions,
+  transfer: transferTransitions,
+  damage_claim: damageClaimTransitions,
+};
+
+export function getAllowedTransitions<E extends LifecycleEntity>(entity: E, from: EntityStatuses[E]): EntityStatuses[E][] {
+  const table = lifecycleTransitions[entity] as TransitionTable<EntityStatuses[E]>;
+  return (table[from] ?? []).map((t) => t.to);
+}
+
+export function findTransition<E extends LifecycleEntity>(
+  entity: E,
+  from: EntityStatuses[E],
+  to: EntityStatuses[E],
+): Transition<EntityStatuses[E]> | undefined {
+  const table = lifecycleTransitions[entity] as TransitionTable<EntityStatuses[E]>;
+  return (table[from] ?? []).find((t) => t.to === to);
+}
+
+export function canTransition<E extends LifecycleEntity>(entity: E, from: EntityStatuses[E], to: EntityStatuses[E]): boolean {
+  return !!findTransition(entity, from, to);
+}
+
+export class InvalidTransitionError extends Error {
+  readonly entity: LifecycleEntity;
+  readonly from: string;
+  readonly to: string;
+  readonly allowed: string[];
+
+  constructor(entity: LifecycleEntity, from: string, to: string, allowed: string[]) {
+    super(`Transição inválida de ${entity}: ${from} → ${to}`);
+    this.name = "InvalidTransitionError";
+    this.entity = entity;
+    this.from = from;
+    this.to = to;
+    this.allowed = allowed;
+    Object.setPrototypeOf(this, InvalidTransitionError.prototype);
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      entity: this.entity,
+      from: this.from,
+      to: this.to,
+      allowedTransitions: this.allowed,
+    };
+  }
+}
+
+// Throws InvalidTransitionError when the move is not in the table; returns the transition otherwise
+export function assertTransition<E extends LifecycleEntity>(
+  entity: E,
+  from: EntityStatuses[E],
+  to: EntityStatuses[E],
+): Transition<EntityStatuses[E]> {
+  const transition = findTransition(entity, from, to);
+  if (!transition) {
+    throw new InvalidTransitionError(entity, from, to, getAllowedTransitions(entity, from));
+  }
+  return transition;
+}
+
+// A vehicle that is already in the target status is not an error (e.g. re-dispatching a despachado vehicle)
+export function assertVehicleTransition(from: VehicleStatus, to: VehicleStatus): void {
+  if (from !== to) {
+    assertTransition("vehicle", from, to);
+  }
+}